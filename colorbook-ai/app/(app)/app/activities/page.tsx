@@ -0,0 +1,430 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AppTopbar } from "@/components/app/app-topbar";
+import { PageHeader } from "@/components/app/page-header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useSessionUser } from "@/hooks/useSessionUser";
+import { TRIM_SIZES_IN, DEFAULT_TRIM_SIZE } from "@/lib/generationSpec";
+import type { ActivityDifficulty, ActivityResult, ActivityType } from "@/lib/activities/types";
+import type { Project } from "@/types/database";
+import { Download, FileCode, Loader2, Plus, Puzzle, Wand2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+const ACTIVITY_TYPES: Array<{ value: ActivityType; label: string; description: string }> = [
+  { value: "maze", label: "Maze", description: "Seeded maze with a solution path" },
+  { value: "word_search", label: "Word Search", description: "Letter grid from a theme or your words" },
+  { value: "dot_to_dot", label: "Dot-to-Dot", description: "Traced from a coloring page's outline" },
+];
+
+const DIFFICULTIES: ActivityDifficulty[] = ["easy", "medium", "hard"];
+
+const SELECT_CLASS =
+  "w-full h-11 rounded-xl border border-input bg-background px-3 py-2 text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary transition-colors";
+
+function downloadFile(href: string, filename: string) {
+  const link = document.createElement("a");
+  link.href = href;
+  link.download = filename;
+  link.click();
+}
+
+export default function ActivityPagesPage() {
+  const { userId } = useSessionUser();
+  const [projects, setProjects] = useState<Project[]>([]);
+
+  // Settings
+  const [type, setType] = useState<ActivityType>("maze");
+  const [difficulty, setDifficulty] = useState<ActivityDifficulty>("medium");
+  const [title, setTitle] = useState("");
+  const [seed, setSeed] = useState("");
+  const [includeSolution, setIncludeSolution] = useState(true);
+  const [trimSize, setTrimSize] = useState(DEFAULT_TRIM_SIZE);
+  const [projectId, setProjectId] = useState("");
+
+  // Word search
+  const [theme, setTheme] = useState("");
+  const [wordsText, setWordsText] = useState("");
+
+  // Dot-to-dot
+  const [sourcePageNumber, setSourcePageNumber] = useState("1");
+  const [sourceImageBase64, setSourceImageBase64] = useState<string | null>(null);
+
+  // Result
+  const [activity, setActivity] = useState<ActivityResult | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [position, setPosition] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const fetchProjects = async () => {
+      try {
+        const response = await fetch("/api/projects");
+        const data = await response.json();
+        if (data.success && data.projects) {
+          setProjects(data.projects);
+        }
+      } catch (error) {
+        console.error("Failed to fetch projects:", error);
+      }
+    };
+
+    fetchProjects();
+  }, [userId]);
+
+  const selectedProject = projects.find((p) => p.id === projectId);
+
+  const handleSourceUpload = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => setSourceImageBase64(reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const buildRequest = (): Record<string, unknown> => {
+    const words = wordsText.split(/[\n,]/).map((w) => w.trim()).filter(Boolean);
+    return {
+      type,
+      difficulty,
+      seed: seed.trim() || undefined,
+      title: title.trim() || undefined,
+      includeSolution,
+      ...(type === "word_search" && (words.length > 0 ? { words } : { theme: theme.trim() })),
+      ...(type === "dot_to_dot" &&
+        (sourceImageBase64
+          ? { sourceImageBase64 }
+          : { sourceProjectId: projectId || undefined, sourcePageNumber: Number(sourcePageNumber) || 1 })),
+    };
+  };
+
+  const generate = async () => {
+    setIsGenerating(true);
+    try {
+      const response = await fetch("/api/activities/generate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...buildRequest(),
+          projectId: projectId || undefined,
+          trimSize: projectId ? undefined : trimSize,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to generate activity");
+      }
+      const result = data.activity as ActivityResult;
+      setActivity(result);
+      if (result.skippedWords?.length) {
+        toast.warning(`Didn't fit: ${result.skippedWords.join(", ")}`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to generate activity");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const addToProject = async () => {
+    if (!activity || !projectId) return;
+
+    setIsAdding(true);
+    try {
+      // Same seed (and the previewed word list) so the inserted page matches the preview
+      const response = await fetch(`/api/projects/${projectId}/activities`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...buildRequest(),
+          seed: activity.seed,
+          ...(activity.words && { words: activity.words, theme: undefined }),
+          ...(type === "dot_to_dot" && !sourceImageBase64 && { sourcePageNumber: Number(sourcePageNumber) || 1 }),
+          position: Number(position) || undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to add pages");
+      }
+      const pages = (data.pages as Array<{ pageNumber: number; kind: string }>)
+        .map((p) => `${p.kind} on page ${p.pageNumber}`)
+        .join(", ");
+      toast.success(`Added to ${selectedProject?.name ?? "project"}: ${pages}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to add pages");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <>
+      <AppTopbar />
+
+      <main className="p-4 lg:p-6">
+        <div className="mx-auto max-w-6xl space-y-6">
+          <PageHeader
+            title="Activity Pages"
+            subtitle="Mazes, word searches and dot-to-dots - print-ready at your trim size, no image model needed"
+            icon={Puzzle}
+            badge="New"
+          />
+
+          <div className="grid gap-6 lg:grid-cols-[380px_1fr]">
+            {/* Settings */}
+            <Card className="border-border/50 h-fit">
+              <CardHeader>
+                <CardTitle className="text-base">Settings</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-5">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Activity</label>
+                  <div className="grid gap-2">
+                    {ACTIVITY_TYPES.map((t) => (
+                      <button
+                        key={t.value}
+                        onClick={() => setType(t.value)}
+                        className={cn(
+                          "rounded-xl border p-3 text-left transition-colors",
+                          type === t.value ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
+                        )}
+                      >
+                        <div className="text-sm font-medium">{t.label}</div>
+                        <div className="text-xs text-muted-foreground">{t.description}</div>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Difficulty</label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {DIFFICULTIES.map((d) => (
+                      <Button
+                        key={d}
+                        variant={difficulty === d ? "default" : "outline"}
+                        size="sm"
+                        className="capitalize"
+                        onClick={() => setDifficulty(d)}
+                      >
+                        {d}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                {type === "word_search" && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Theme</label>
+                    <Input
+                      value={theme}
+                      onChange={(e) => setTheme(e.target.value)}
+                      placeholder="e.g. Ocean animals"
+                    />
+                    <label className="text-sm font-medium">Or your own words</label>
+                    <Textarea
+                      value={wordsText}
+                      onChange={(e) => setWordsText(e.target.value)}
+                      placeholder="One per line or comma-separated (overrides the theme)"
+                      rows={4}
+                    />
+                  </div>
+                )}
+
+                {type === "dot_to_dot" && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Page to trace</label>
+                    {sourceImageBase64 ? (
+                      <div className="flex items-center gap-2">
+                        <img src={sourceImageBase64} alt="Source page" className="h-16 w-12 rounded border object-contain bg-white" />
+                        <Button variant="ghost" size="sm" onClick={() => setSourceImageBase64(null)}>
+                          Remove
+                        </Button>
+                      </div>
+                    ) : (
+                      <>
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm text-muted-foreground whitespace-nowrap">Project page</span>
+                          <Input
+                            type="number"
+                            min={1}
+                            value={sourcePageNumber}
+                            onChange={(e) => setSourcePageNumber(e.target.value)}
+                            disabled={!projectId}
+                          />
+                        </div>
+                        <Input
+                          type="file"
+                          accept="image/png,image/jpeg,image/webp"
+                          onChange={(e) => handleSourceUpload(e.target.files?.[0])}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Pick a project below to trace one of its pages, or upload a coloring page.
+                        </p>
+                      </>
+                    )}
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Title</label>
+                  <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Optional page title" />
+                </div>
+
+                {type !== "dot_to_dot" && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Seed</label>
+                    <Input
+                      value={seed}
+                      onChange={(e) => setSeed(e.target.value)}
+                      placeholder="Random - reuse a seed to rebuild a page"
+                    />
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Project</label>
+                  <select value={projectId} onChange={(e) => setProjectId(e.target.value)} className={SELECT_CLASS}>
+                    <option value="">No project</option>
+                    {projects.filter((p) => !p.expires_at || new Date(p.expires_at) > new Date()).map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {projectId ? (
+                  <p className="text-xs text-muted-foreground">
+                    Rendered at the project&apos;s trim size ({selectedProject?.settings?.trimSize || DEFAULT_TRIM_SIZE}).
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Trim Size</label>
+                    <select value={trimSize} onChange={(e) => setTrimSize(e.target.value)} className={SELECT_CLASS}>
+                      {Object.keys(TRIM_SIZES_IN).map((size) => (
+                        <option key={size} value={size}>
+                          {size}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between text-sm">
+                  <span>Solution page</span>
+                  <Switch checked={includeSolution} onCheckedChange={setIncludeSolution} />
+                </div>
+
+                <Button className="w-full" onClick={generate} disabled={isGenerating}>
+                  {isGenerating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wand2 className="mr-2 h-4 w-4" />}
+                  Generate
+                </Button>
+              </CardContent>
+            </Card>
+
+            {/* Preview */}
+            <div className="space-y-4">
+              {!activity ? (
+                <Card className="border-dashed border-border/50">
+                  <CardContent className="flex flex-col items-center justify-center p-16 text-center text-muted-foreground">
+                    <Puzzle className="mb-3 h-10 w-10" />
+                    <p className="text-sm">Generate an activity to preview it here</p>
+                  </CardContent>
+                </Card>
+              ) : (
+                <>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="secondary" className="capitalize">{activity.difficulty}</Badge>
+                    <Badge variant="outline">{activity.trimSize}</Badge>
+                    {activity.type !== "dot_to_dot" && <Badge variant="outline">Seed {activity.seed}</Badge>}
+                    {activity.words && (
+                      <span className="text-xs text-muted-foreground">{activity.words.length} words hidden</span>
+                    )}
+                  </div>
+
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    {activity.pages.map((page) => (
+                      <Card key={page.kind} className="border-border/50 overflow-hidden">
+                        <img
+                          src={`data:image/png;base64,${page.imageBase64}`}
+                          alt={page.title}
+                          className="w-full bg-white"
+                        />
+                        <CardContent className="flex items-center justify-between gap-2 p-3">
+                          <span className="text-sm font-medium capitalize">{page.kind}</span>
+                          <div className="flex gap-1">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() =>
+                                downloadFile(`data:image/png;base64,${page.imageBase64}`, `${activity.type}-${page.kind}.png`)
+                              }
+                            >
+                              <Download className="mr-1 h-3.5 w-3.5" />
+                              PNG
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() =>
+                                downloadFile(
+                                  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(page.svg)}`,
+                                  `${activity.type}-${page.kind}.svg`
+                                )
+                              }
+                            >
+                              <FileCode className="mr-1 h-3.5 w-3.5" />
+                              SVG
+                            </Button>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+
+                  <Card className="border-border/50">
+                    <CardContent className="space-y-3 p-4">
+                      <div className="text-sm font-medium">Add to project</div>
+                      {projectId ? (
+                        <>
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm text-muted-foreground whitespace-nowrap">Insert at page</span>
+                            <Input
+                              type="number"
+                              min={1}
+                              value={position}
+                              onChange={(e) => setPosition(e.target.value)}
+                              placeholder="End of book"
+                            />
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            Later pages move down one. The solution page goes at the end of the book.
+                          </p>
+                          <Button onClick={addToProject} disabled={isAdding}>
+                            {isAdding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                            Add to {selectedProject?.name ?? "project"}
+                          </Button>
+                        </>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">Pick a project in the settings to add these pages to it.</p>
+                      )}
+                    </CardContent>
+                  </Card>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+    </>
+  );
+}
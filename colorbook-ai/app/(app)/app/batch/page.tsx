@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
 import { AppTopbar } from "@/components/app/app-topbar";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -38,6 +38,9 @@ import {
 import { toast } from "sonner";
 import { ImagePreviewModal } from "@/components/app/image-preview-modal";
 import { ExportPDFModal } from "@/components/app/export-pdf-modal";
+import { StyleLibraryPicker } from "@/components/app/style-library-picker";
+import { CharacterLibraryPicker, SaveCharacterToLibrary } from "@/components/app/character-library-picker";
+import { useProjectRecord } from "@/hooks/useProjectRecord";
 import type {
   ProfileFromImageResponse,
   BatchPromptsResponse,
@@ -46,6 +49,13 @@ import type {
   GenerationMode,
   StoryConfig,
 } from "@/lib/batchGenerationTypes";
+import type { AppliedLibraryStyle } from "@/lib/styleLibrary";
+import {
+  toAppliedLibraryCharacter,
+  toCharacterProfile,
+  type AppliedLibraryCharacter,
+  type LibraryCharacter,
+} from "@/lib/characterLibrary";
 
 type PageStatus = "pending" | "generating" | "done" | "failed";
 type EnhanceStatus = "none" | "enhancing" | "enhanced" | "failed";
@@ -82,6 +92,7 @@ export default function BatchGenerationPage() {
   const [mode, setMode] = useState<GenerationMode>("storybook");
   const [pageCount, setPageCount] = useState(6);
   const [orientation, setOrientation] = useState<"portrait" | "landscape" | "square">("portrait");
+  const [libraryStyle, setLibraryStyle] = useState<AppliedLibraryStyle | null>(null);
   const [storyConfig, setStoryConfig] = useState<StoryConfig>({
     title: "",
     outline: "",
@@ -97,6 +108,27 @@ export default function BatchGenerationPage() {
     return "1024x1024";
   };
 
+  // Project persistence (lists the batch in /app/projects)
+  const projectRecord = useProjectRecord();
+  const projectIdRef = useRef<string | null>(null);
+  const savedPagesRef = useRef<Set<number>>(new Set());
+
+  /**
+   * Store a finished page in the project and update its progress
+   */
+  const recordPage = async (pageNumber: number, imageBase64: string, prompt: string, totalPages: number) => {
+    const projectId = projectIdRef.current;
+    if (!projectId) return;
+
+    if (await projectRecord.savePageImage(projectId, pageNumber, imageBase64, { prompt })) {
+      savedPagesRef.current.add(pageNumber);
+      await projectRecord.updateProject(projectId, {
+        status: savedPagesRef.current.size >= totalPages ? "ready" : "generating",
+        imagesGeneratedCount: savedPagesRef.current.size,
+      });
+    }
+  };
+
   // Pages and prompts
   const [pages, setPages] = useState<PageState[]>([]);
   const [generatingPrompts, setGeneratingPrompts] = useState(false);
@@ -105,6 +137,8 @@ export default function BatchGenerationPage() {
   // Character Identity Profile (from batch/prompts response, for validation)
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const [characterIdentityProfile, setCharacterIdentityProfile] = useState<any>(null);
+  // Saved Character Library character (its profile is characterIdentityProfile)
+  const [libraryCharacter, setLibraryCharacter] = useState<AppliedLibraryCharacter | null>(null);
 
   // Generation
   const [isGenerating, setIsGenerating] = useState(false);
@@ -189,6 +223,12 @@ export default function BatchGenerationPage() {
     }
   };
 
+  const selectLibraryCharacter = (character: LibraryCharacter | null) => {
+    setLibraryCharacter(character ? toAppliedLibraryCharacter(character) : null);
+    setCharacterIdentityProfile(character ? character.profile : null);
+    if (character) setMode("storybook");
+  };
+
   // ==================== Generate Prompts ====================
 
   const generatePrompts = async () => {
@@ -197,7 +237,7 @@ export default function BatchGenerationPage() {
       return;
     }
 
-    if (mode === "storybook" && !profile.characterProfile) {
+    if (mode === "storybook" && !profile.characterProfile && !libraryCharacter) {
       toast.error("No character detected in image. Please use Theme mode or upload an image with a clear character.");
       return;
     }
@@ -212,7 +252,10 @@ export default function BatchGenerationPage() {
           count: pageCount,
           story: storyConfig,
           styleProfile: profile.styleProfile,
-          characterProfile: profile.characterProfile,
+          characterProfile: libraryCharacter
+            ? toCharacterProfile(characterIdentityProfile)
+            : profile.characterProfile,
+          characterIdentityProfile: libraryCharacter ? characterIdentityProfile : undefined,
           sceneInventory: profile.sceneInventory,
           basePrompt: profile.basePrompt,
           size: getImageSize(),
@@ -248,6 +291,33 @@ export default function BatchGenerationPage() {
 
       setPages(pageStates);
       toast.success(`Generated ${pageStates.length} prompts! Review and edit, then generate images.`);
+
+      if (!projectIdRef.current) {
+        projectIdRef.current = await projectRecord.createProject({
+          name: storyConfig.title || "Reference Image Book",
+          origin: "batch",
+          bookType: mode,
+          idea: storyConfig.outline || profile.basePrompt,
+          pagesRequested: pageStates.length,
+          settings: {
+            bookTitle: storyConfig.title || undefined,
+            pageCount: pageStates.length,
+            orientation,
+            size: getImageSize(),
+            targetAge: storyConfig.targetAge,
+            characterProfile: batchResponse.characterIdentityProfile,
+            styleLibrary: libraryStyle ?? undefined,
+            characterLibrary: mode === "storybook" ? libraryCharacter ?? undefined : undefined,
+          },
+        });
+        savedPagesRef.current = new Set();
+      }
+      if (projectIdRef.current) {
+        await projectRecord.savePrompts(
+          projectIdRef.current,
+          pageStates.map((p) => ({ pageIndex: p.page, title: p.title, promptText: p.prompt }))
+        );
+      }
     } catch (error) {
       toast.error(error instanceof Error ? error.message : "Failed to generate prompts");
     } finally {
@@ -305,6 +375,9 @@ export default function BatchGenerationPage() {
             characterProfile: mode === "storybook" ? characterIdentityProfile : undefined,
             validateOutline: true,
             validateCharacter: mode === "storybook",
+            projectId: projectIdRef.current ?? undefined,
+            styleId: libraryStyle?.styleId,
+            styleVersion: libraryStyle?.version,
           }),
         });
 
@@ -319,6 +392,7 @@ export default function BatchGenerationPage() {
               : p
           ));
           successCount++;
+          await recordPage(pageItem.page, data.imageBase64, pageItem.prompt, pages.length);
           if (hasWarning) {
             toast.warning(`Page ${pageItem.page} generated with warnings`);
           } else {
@@ -381,6 +455,9 @@ export default function BatchGenerationPage() {
           characterProfile: mode === "storybook" ? characterIdentityProfile : undefined,
           validateOutline: true,
           validateCharacter: mode === "storybook",
+          projectId: projectIdRef.current ?? undefined,
+          styleId: libraryStyle?.styleId,
+          styleVersion: libraryStyle?.version,
         }),
       });
 
@@ -393,6 +470,7 @@ export default function BatchGenerationPage() {
             ? { ...p, status: "done" as PageStatus, imageBase64: data.imageBase64, error: hasWarning ? data.warning : undefined }
             : p
         ));
+        await recordPage(pageNumber, data.imageBase64, page.prompt, pages.length);
         if (hasWarning) {
           toast.warning(`Page ${pageNumber} generated with warnings: ${data.warning}`);
         } else {
@@ -605,6 +683,7 @@ export default function BatchGenerationPage() {
             enhance: true,
             enhanceScale: 2,
             marginPercent: 3,
+            projectId: projectIdRef.current ?? undefined,
             pageId: String(page.page),
           }),
         });
@@ -824,12 +903,12 @@ export default function BatchGenerationPage() {
                   <div className="grid grid-cols-2 gap-3">
                     <button
                       onClick={() => setMode("storybook")}
-                      disabled={!profile.characterProfile}
+                      disabled={!profile.characterProfile && !libraryCharacter}
                       className={`p-4 rounded-xl border-2 text-left transition-all ${
                         mode === "storybook" 
                           ? "border-primary bg-primary/5" 
                           : "border-border hover:border-primary/50"
-                      } ${!profile.characterProfile ? "opacity-50 cursor-not-allowed" : ""}`}
+                      } ${!profile.characterProfile && !libraryCharacter ? "opacity-50 cursor-not-allowed" : ""}`}
                     >
                       <div className="flex items-center gap-2 mb-2">
                         <Book className="h-5 w-5" />
@@ -839,7 +918,7 @@ export default function BatchGenerationPage() {
                       <p className="text-xs text-muted-foreground">
                         Same character on every page, story progression
                       </p>
-                      {!profile.characterProfile && (
+                      {!profile.characterProfile && !libraryCharacter && (
                         <p className="text-xs text-amber-600 mt-1">
                           No character detected in image
                         </p>
@@ -866,6 +945,16 @@ export default function BatchGenerationPage() {
                   </div>
                 </div>
 
+                {/* Saved Character */}
+                <div className="space-y-3">
+                  <label className="text-sm font-medium">Saved Character (optional)</label>
+                  <CharacterLibraryPicker
+                    value={libraryCharacter}
+                    onChange={selectLibraryCharacter}
+                    disabled={pages.length > 0}
+                  />
+                </div>
+
                 {/* Page Count */}
                 <div className="space-y-3">
                   <div className="flex justify-between">
@@ -940,6 +1029,12 @@ export default function BatchGenerationPage() {
                   )}
                 </div>
 
+                {/* Style Library */}
+                <div className="space-y-3">
+                  <label className="text-sm font-medium">Saved Style (optional)</label>
+                  <StyleLibraryPicker value={libraryStyle} onChange={setLibraryStyle} disabled={pages.length > 0} />
+                </div>
+
                 {/* Expandable Settings */}
                 <div className="border rounded-xl">
                   <button
@@ -1078,6 +1173,16 @@ export default function BatchGenerationPage() {
                 </div>
               </CardHeader>
               <CardContent className="space-y-4">
+                {/* Save the extracted character for later books */}
+                {mode === "storybook" && characterIdentityProfile && !libraryCharacter && (
+                  <div className="rounded-lg border border-dashed border-border p-3 space-y-2">
+                    <p className="text-xs text-muted-foreground">
+                      Reusing this {characterIdentityProfile.species} in another book? Save it to your Character Library.
+                    </p>
+                    <SaveCharacterToLibrary profile={characterIdentityProfile} projectId={projectIdRef.current} />
+                  </div>
+                )}
+
                 {/* Action Buttons */}
                 <div className="flex gap-2 flex-wrap">
                   <Button
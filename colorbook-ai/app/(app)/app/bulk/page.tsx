@@ -1,6 +1,7 @@
 "use client";
 
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useRef, useEffect, Suspense } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import { PageContainer } from "@/components/app/app-shell";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -11,6 +12,8 @@ import { Progress } from "@/components/ui/progress";
 import { PageHeader } from "@/components/app/page-header";
 import { StepIndicator, type Step } from "@/components/app/step-indicator";
 import { ProgressPanel } from "@/components/app/progress-panel";
+import { StyleLibraryPicker } from "@/components/app/style-library-picker";
+import { CharacterLibraryPicker } from "@/components/app/character-library-picker";
 import {
   Sparkles,
   Loader2,
@@ -44,6 +47,7 @@ import {
   AlertCircle,
   Info,
   Zap,
+  History,
 } from "lucide-react";
 import {
   Dialog,
@@ -54,6 +58,8 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { toast } from "sonner";
+import { useProjectRecord } from "@/hooks/useProjectRecord";
+import { useSessionUser } from "@/hooks/useSessionUser";
 import {
   type BookIdea,
   type BookType,
@@ -66,15 +72,19 @@ import {
   type Batch,
   type Book,
   type BookPage,
+  type BatchStatus,
   MAX_BOOKS_PER_BATCH,
   MAX_PAGES_PER_BOOK,
   DEFAULT_PAGES_PER_BOOK,
   createEmptyBookIdea,
   createEmptyBatch,
   bookIdeaToBook,
+  stripBookImages,
   calculateBatchProgress,
   formatEta,
 } from "@/lib/bulkBookTypes";
+import type { AppliedLibraryStyle } from "@/lib/styleLibrary";
+import { describeLibraryCharacter, toAppliedLibraryCharacter } from "@/lib/characterLibrary";
 import { cn } from "@/lib/utils";
 
 // ============================================================
@@ -89,6 +99,65 @@ const STEPS: Array<{ step: Step; label: string; description?: string }> = [
   { step: 5 as Step, label: "Review", description: "Approve & export" },
 ];
 
+const AUTOSAVE_DELAY_MS = 1500;
+
+/** A saved batch from /api/bulk/batches */
+interface SavedBulkBatch {
+  id: string;
+  name: string;
+  status: BatchStatus;
+  currentStep: BulkStep;
+  totalPages: number;
+  generatedPages: number;
+  updatedAt: string;
+  isExpired: boolean;
+}
+
+// ============================================================
+// PAGE IMAGES
+// ============================================================
+
+/**
+ * Pages generated in this session have base64 versions; resumed pages only
+ * have the signed URL of the saved (latest) version.
+ */
+function hasPageImage(page: BookPage): boolean {
+  return !!page.imageBase64 || !!page.imageUrl;
+}
+
+function isPageEnhanced(page: BookPage): boolean {
+  return !!page.enhancedImageBase64 || !!page.enhancedAt;
+}
+
+function getPageImageSrc(page: BookPage): string | undefined {
+  const base64 = page.finalLetterBase64 || page.enhancedImageBase64 || page.imageBase64;
+  return base64 ? `data:image/png;base64,${base64}` : page.imageUrl;
+}
+
+async function fetchImageBase64(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error("Failed to load saved page");
+  }
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(",")[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function formatSavedAt(dateString: string): string {
+  const date = new Date(dateString);
+  const diffMins = Math.floor((Date.now() - date.getTime()) / 60000);
+
+  if (diffMins < 1) return "just now";
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffMins < 60 * 24) return `${Math.floor(diffMins / 60)}h ago`;
+  return date.toLocaleDateString();
+}
+
 // ============================================================
 // BOOK IDEA CARD COMPONENT
 // ============================================================
@@ -328,11 +397,25 @@ function BookIdeaCard({ idea, index, onUpdate, onDelete, onApprove, onRegenerate
                   <Palette className="h-4 w-4" />
                   Storybook Character
                 </div>
+                <CharacterLibraryPicker
+                  value={idea.settings.libraryCharacter ?? null}
+                  onChange={(character) => onUpdate(idea.id, {
+                    settings: character
+                      ? {
+                          ...idea.settings,
+                          libraryCharacter: toAppliedLibraryCharacter(character),
+                          characterDescription: describeLibraryCharacter(character),
+                          sameCharacter: true,
+                        }
+                      : { ...idea.settings, libraryCharacter: undefined },
+                  })}
+                />
                 <Textarea
                   value={idea.settings.characterDescription || ""}
                   onChange={(e) => onUpdate(idea.id, { 
                     settings: { ...idea.settings, characterDescription: e.target.value, sameCharacter: true } 
                   })}
+                  disabled={!!idea.settings.libraryCharacter}
                   placeholder="Describe your main character (e.g., A small orange fox with big eyes, wearing a blue scarf...)"
                   className="min-h-[70px] text-sm rounded-lg"
                 />
@@ -378,7 +461,12 @@ function BookIdeaCard({ idea, index, onUpdate, onDelete, onApprove, onRegenerate
 // MAIN PAGE COMPONENT
 // ============================================================
 
-export default function BulkCreatePage() {
+function BulkCreatePageContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const resumeBatchId = searchParams?.get("batchId");
+  const { userId } = useSessionUser();
+  
   // Step management
   const [currentStep, setCurrentStep] = useState<BulkStep>(1);
   
@@ -403,6 +491,129 @@ export default function BulkCreatePage() {
   // Polling for batch status
   const pollingRef = useRef<NodeJS.Timeout | null>(null);
   
+  // ==================== PERSISTENCE ====================
+  
+  // Saved batch being autosaved (resumable via ?batchId=)
+  const [savedBatchId, setSavedBatchId] = useState<string | null>(null);
+  // Last ?batchId= loaded (or failed to load), so it isn't loaded again
+  const [handledBatchId, setHandledBatchId] = useState<string | null>(null);
+  const [savedBatches, setSavedBatches] = useState<SavedBulkBatch[]>([]);
+  const creatingBatchRef = useRef(false);
+  const loadingBatch = !!resumeBatchId && resumeBatchId !== handledBatchId;
+  
+  const loadSavedBatches = useCallback(async () => {
+    try {
+      const response = await fetch("/api/bulk/batches");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load batches");
+      }
+      setSavedBatches(data.batches);
+    } catch (error) {
+      console.error("[Bulk] Failed to load saved batches:", error);
+    }
+  }, []);
+  
+  const loadBatch = useCallback(async (batchId: string) => {
+    try {
+      const response = await fetch(`/api/bulk/batches/${batchId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load batch");
+      }
+      
+      const saved = data.batch as { id: string; currentStep: BulkStep; bookIdeas: BookIdea[]; batch: Batch | null };
+      setBookIdeas(saved.bookIdeas.length > 0 ? saved.bookIdeas : [createEmptyBookIdea()]);
+      setBatch(saved.batch);
+      setCurrentStep(saved.batch ? saved.currentStep : 1);
+      setSavedBatchId(saved.id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load batch");
+    } finally {
+      setHandledBatchId(batchId);
+    }
+  }, []);
+  
+  useEffect(() => {
+    if (userId) loadSavedBatches();
+  }, [userId, loadSavedBatches]);
+  
+  useEffect(() => {
+    if (!resumeBatchId || resumeBatchId === handledBatchId) return;
+    loadBatch(resumeBatchId);
+  }, [resumeBatchId, handledBatchId, loadBatch]);
+  
+  // Autosave after every change (debounced) - the first save creates the batch
+  useEffect(() => {
+    const hasContent = batch !== null || bookIdeas.some(i => i.title.trim() || i.concept.trim());
+    if (!userId || loadingBatch || !hasContent) return;
+    
+    const timer = setTimeout(async () => {
+      const creating = !savedBatchId;
+      if (creating && creatingBatchRef.current) return;
+      
+      const body = JSON.stringify({
+        currentStep,
+        bookIdeas,
+        batch: batch ? { ...batch, books: stripBookImages(batch.books) } : null,
+      });
+      
+      try {
+        if (savedBatchId) {
+          const response = await fetch(`/api/bulk/batches/${savedBatchId}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body,
+          });
+          if (!response.ok) {
+            const data = await response.json();
+            throw new Error(data.error || "Failed to save batch");
+          }
+          return;
+        }
+        
+        creatingBatchRef.current = true;
+        const response = await fetch("/api/bulk/batches", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body,
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to save batch");
+        }
+        
+        setSavedBatchId(data.batch.id);
+        setHandledBatchId(data.batch.id);
+        router.replace(`/app/bulk?batchId=${data.batch.id}`);
+        loadSavedBatches();
+      } catch (error) {
+        console.error("[Bulk] Failed to save batch:", error);
+      } finally {
+        if (creating) creatingBatchRef.current = false;
+      }
+    }, AUTOSAVE_DELAY_MS);
+    
+    return () => clearTimeout(timer);
+  }, [userId, loadingBatch, savedBatchId, currentStep, bookIdeas, batch, router, loadSavedBatches]);
+  
+  const resumeSavedBatch = (batchId: string) => {
+    if (batchId === savedBatchId) return;
+    // A ?batchId= that was already handled won't load again from the URL
+    if (batchId === handledBatchId) {
+      loadBatch(batchId);
+    }
+    router.replace(`/app/bulk?batchId=${batchId}`);
+  };
+  
+  const startNewBatch = () => {
+    setBookIdeas([createEmptyBookIdea()]);
+    setBatch(null);
+    setCurrentStep(1);
+    setSavedBatchId(null);
+    router.replace("/app/bulk");
+  };
+  
   // ==================== STEP NAVIGATION ====================
   
   const canNavigateTo = useCallback((step: BulkStep): boolean => {
@@ -456,6 +667,16 @@ export default function BulkCreatePage() {
     setBookIdeas(bookIdeas.map(idea => ({ ...idea, isApproved: true })));
   };
   
+  // One saved style for the whole batch, kept on every idea's settings
+  const libraryStyle = bookIdeas.find(idea => idea.settings.libraryStyle)?.settings.libraryStyle ?? null;
+  
+  const applyLibraryStyle = (style: AppliedLibraryStyle | null) => {
+    setBookIdeas(bookIdeas.map(idea => ({
+      ...idea,
+      settings: { ...idea.settings, libraryStyle: style ?? undefined },
+    })));
+  };
+  
   const generateBookIdeas = async () => {
     setIsGeneratingIdeas(true);
     
@@ -506,7 +727,10 @@ export default function BulkCreatePage() {
     }
     
     const newBatch = createEmptyBatch();
-    newBatch.books = approvedIdeas.map(idea => bookIdeaToBook(idea, newBatch.id));
+    newBatch.books = approvedIdeas.map(idea => bookIdeaToBook(
+      { ...idea, settings: { ...idea.settings, libraryStyle: libraryStyle ?? undefined } },
+      newBatch.id
+    ));
     newBatch.totalPages = newBatch.books.reduce((sum, b) => sum + b.pages.length, 0);
     
     setBatch(newBatch);
@@ -757,6 +981,73 @@ export default function BulkCreatePage() {
   const generationAbortRef = useRef(false);
   const [currentGeneratingPage, setCurrentGeneratingPage] = useState<{bookId: string; pageId: string} | null>(null);
   
+  // Project persistence - each book is its own project in /app/projects
+  const projectRecord = useProjectRecord();
+  const bookProjectIdsRef = useRef<Map<string, string>>(new Map());
+  const bookSavedPagesRef = useRef<Map<string, Set<number>>>(new Map());
+  
+  /** The book's project, picking up the one saved with a resumed batch */
+  const getBookProject = (book: Book): string | null => {
+    const projectId = bookProjectIdsRef.current.get(book.id) ?? book.projectId;
+    if (projectId && !bookSavedPagesRef.current.has(book.id)) {
+      bookProjectIdsRef.current.set(book.id, projectId);
+      bookSavedPagesRef.current.set(book.id, new Set(book.pages.filter(hasPageImage).map(p => p.index)));
+    }
+    return projectId ?? null;
+  };
+  
+  const ensureBookProject = async (book: Book): Promise<string | null> => {
+    const existing = getBookProject(book);
+    if (existing) return existing;
+    
+    const projectId = await projectRecord.createProject({
+      name: book.title || "Untitled Book",
+      origin: "bulk",
+      bookType: book.bookMode === "storybook" ? "storybook" : "theme",
+      idea: book.concept,
+      pagesRequested: book.pages.length,
+      settings: {
+        bookTitle: book.title,
+        pageCount: book.pages.length,
+        theme: book.concept,
+        trimSize: "8.5x11",
+        size: "1024x1792",
+        targetAge: book.targetAge,
+        styleLibrary: book.settings.libraryStyle,
+        characterLibrary: book.bookMode === "storybook" ? book.settings.libraryCharacter : undefined,
+      },
+    });
+    if (!projectId) return null;
+    
+    bookProjectIdsRef.current.set(book.id, projectId);
+    bookSavedPagesRef.current.set(book.id, new Set());
+    setBatch(prev => prev ? {
+      ...prev,
+      books: prev.books.map(b => b.id === book.id ? { ...b, projectId } : b),
+    } : prev);
+    await projectRecord.savePrompts(
+      projectId,
+      book.pages
+        .filter(p => p.finalPrompt)
+        .map(p => ({ pageIndex: p.index, promptText: p.finalPrompt }))
+    );
+    return projectId;
+  };
+  
+  const recordBookPage = async (book: Book, page: BookPage, imageBase64: string) => {
+    const projectId = getBookProject(book);
+    const saved = bookSavedPagesRef.current.get(book.id);
+    if (!projectId || !saved) return;
+    
+    if (await projectRecord.savePageImage(projectId, page.index, imageBase64, { prompt: page.finalPrompt })) {
+      saved.add(page.index);
+      await projectRecord.updateProject(projectId, {
+        status: saved.size >= book.pages.length ? "ready" : "generating",
+        imagesGeneratedCount: saved.size,
+      });
+    }
+  };
+  
   const generateImageForPage = async (book: Book, page: BookPage): Promise<boolean> => {
     if (!batch || generationAbortRef.current) return false;
     
@@ -779,6 +1070,11 @@ export default function BulkCreatePage() {
       };
     });
     
+    // Saved character: generate-one applies its identity contract and validates against it
+    const libraryCharacterId = book.bookMode === "storybook"
+      ? book.settings.libraryCharacter?.characterId
+      : undefined;
+    
     try {
       const startTime = Date.now();
       
@@ -792,7 +1088,11 @@ export default function BulkCreatePage() {
           maxRetries: 0,
           isStorybookMode: book.bookMode === "storybook",
           validateOutline: false,
-          validateCharacter: false,
+          validateCharacter: !!libraryCharacterId,
+          characterId: libraryCharacterId,
+          projectId: getBookProject(book) ?? undefined,
+          styleId: book.settings.libraryStyle?.styleId,
+          styleVersion: book.settings.libraryStyle?.version,
         }),
       });
       
@@ -803,6 +1103,7 @@ export default function BulkCreatePage() {
       }
       
       const durationMs = Date.now() - startTime;
+      await recordBookPage(book, page, data.imageBase64);
       
       setBatch(prev => {
         if (!prev) return prev;
@@ -883,12 +1184,16 @@ export default function BulkCreatePage() {
     const pagesToGenerate: Array<{book: Book; page: BookPage}> = [];
     for (const book of batch.books) {
       for (const page of book.pages) {
-        if (page.finalPrompt && !page.imageBase64 && page.status !== "generating") {
+        if (page.finalPrompt && !hasPageImage(page) && page.status !== "generating") {
           pagesToGenerate.push({ book, page });
         }
       }
     }
     
+    for (const book of new Set(pagesToGenerate.map(({ book }) => book))) {
+      await ensureBookProject(book);
+    }
+    
     for (const { book, page } of pagesToGenerate) {
       if (generationAbortRef.current) break;
       
@@ -952,7 +1257,7 @@ export default function BulkCreatePage() {
   const [viewingPage, setViewingPage] = useState<{bookId: string; page: BookPage} | null>(null);
   
   const enhancePage = async (book: Book, page: BookPage) => {
-    if (!page.imageBase64) return;
+    if (!hasPageImage(page)) return;
     
     setEnhancingPageIds(prev => new Set([...prev, page.id]));
     
@@ -975,14 +1280,16 @@ export default function BulkCreatePage() {
     
     try {
       const startTime = Date.now();
+      const imageBase64 = page.imageBase64 || await fetchImageBase64(page.imageUrl ?? "");
       
       const response = await fetch("/api/image/process", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          imageBase64: page.imageBase64,
+          imageBase64,
           pageType: "coloring",
           scale: 2,
+          projectId: getBookProject(book) ?? undefined,
         }),
       });
       
@@ -993,6 +1300,8 @@ export default function BulkCreatePage() {
       }
       
       const durationMs = Date.now() - startTime;
+      // The book's project keeps the print-ready version
+      await recordBookPage(book, page, data.finalLetterBase64 || data.enhancedBase64);
       
       setBatch(prev => {
         if (!prev) return prev;
@@ -1052,7 +1361,7 @@ export default function BulkCreatePage() {
   };
   
   const enhanceAllPagesInBook = async (book: Book) => {
-    const pagesToEnhance = book.pages.filter(p => p.imageBase64 && !p.enhancedImageBase64);
+    const pagesToEnhance = book.pages.filter(p => hasPageImage(p) && !isPageEnhanced(p));
     
     for (const page of pagesToEnhance) {
       await enhancePage(book, page);
@@ -1119,7 +1428,9 @@ export default function BulkCreatePage() {
                         imageBase64: undefined,
                         enhancedImageBase64: undefined,
                         finalLetterBase64: undefined,
+                        imageUrl: undefined,
                         activeVersion: "original" as const,
+                        enhancedAt: undefined,
                         approvedAt: undefined,
                       } 
                     : p
@@ -1134,7 +1445,7 @@ export default function BulkCreatePage() {
     const updatedPage = updatedBook?.pages.find(p => p.id === page.id);
     
     if (updatedBook && updatedPage) {
-      await generateImageForPage(updatedBook, { ...updatedPage, imageBase64: undefined });
+      await generateImageForPage(updatedBook, { ...updatedPage, imageBase64: undefined, imageUrl: undefined });
     }
   };
   
@@ -1160,9 +1471,24 @@ export default function BulkCreatePage() {
           {/* Page Header */}
           <PageHeader
             title="Bulk Book Creation"
-            subtitle="Create multiple coloring books at once"
+            subtitle={loadingBatch
+              ? "Loading your saved batch..."
+              : "Create multiple coloring books at once"}
             icon={Boxes}
             badge="New"
+            actions={
+              savedBatchId && (
+                <Button
+                  variant="outline"
+                  className="rounded-xl"
+                  onClick={startNewBatch}
+                  disabled={isGeneratingImages || isEnhancing}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Batch
+                </Button>
+              )
+            }
           />
           
           {/* Step Indicator */}
@@ -1177,6 +1503,55 @@ export default function BulkCreatePage() {
           {/* Step Content */}
           {currentStep === 1 && (
             <div className="space-y-6">
+              {/* Saved Batches */}
+              {savedBatches.length > 0 && (
+                <Card className="border-border/50">
+                  <CardHeader className="py-4">
+                    <div className="flex items-center gap-2">
+                      <History className="h-4 w-4 text-muted-foreground" />
+                      <CardTitle className="text-base">Bulk batches</CardTitle>
+                    </div>
+                    <CardDescription>Saved automatically after every step - pick one up where you left off</CardDescription>
+                  </CardHeader>
+                  <CardContent className="pt-0 space-y-2">
+                    {savedBatches.map((saved) => (
+                      <div
+                        key={saved.id}
+                        className={cn(
+                          "flex items-center gap-3 rounded-xl border px-4 py-3",
+                          saved.id === savedBatchId && "border-primary/50 bg-primary/5"
+                        )}
+                      >
+                        <div className="min-w-0 flex-1">
+                          <p className="truncate text-sm font-medium">{saved.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            Step {saved.currentStep} of 5
+                            {saved.totalPages > 0 && ` · ${saved.generatedPages}/${saved.totalPages} pages generated`}
+                            {` · saved ${formatSavedAt(saved.updatedAt)}`}
+                          </p>
+                        </div>
+                        {saved.isExpired ? (
+                          <Badge variant="outline">Expired</Badge>
+                        ) : saved.id === savedBatchId ? (
+                          <Badge variant="outline">Current</Badge>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="rounded-xl"
+                            onClick={() => resumeSavedBatch(saved.id)}
+                            disabled={loadingBatch || isGeneratingImages || isEnhancing}
+                          >
+                            <Play className="mr-2 h-4 w-4" />
+                            Resume
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+              
               {/* Action Bar */}
               <Card className="border-border/50 bg-muted/30">
                 <CardContent className="p-4">
@@ -1215,6 +1590,18 @@ export default function BulkCreatePage() {
                 </CardContent>
               </Card>
               
+              {/* Saved Style */}
+              <Card className="border-border/50">
+                <CardContent className="p-4 space-y-3">
+                  <div className="text-sm font-medium flex items-center gap-2">
+                    <Palette className="h-4 w-4" />
+                    Saved Style
+                    <span className="text-xs font-normal text-muted-foreground">Applied to every book in this batch</span>
+                  </div>
+                  <StyleLibraryPicker value={libraryStyle} onChange={applyLibraryStyle} />
+                </CardContent>
+              </Card>
+              
               {/* Book Ideas Grid */}
               <div className="grid gap-4">
                 {bookIdeas.map((idea, idx) => (
@@ -1668,7 +2055,7 @@ export default function BulkCreatePage() {
               {/* Books with page thumbnails */}
               <div className="space-y-4">
                 {batch.books.map((book, bookIdx) => {
-                  const generatedCount = book.pages.filter(p => p.imageBase64).length;
+                  const generatedCount = book.pages.filter(hasPageImage).length;
                   const needsRetryCount = book.pages.filter(p => (p as { canRetry?: boolean }).canRetry).length;
                   
                   return (
@@ -1705,21 +2092,22 @@ export default function BulkCreatePage() {
                             const isCurrentlyGenerating = currentGeneratingPage?.bookId === book.id && currentGeneratingPage?.pageId === page.id;
                             
                             const needsRetry = (page as { canRetry?: boolean }).canRetry;
+                            const imageSrc = getPageImageSrc(page);
                             
                             return (
                               <div
                                 key={page.id}
                                 className={cn(
                                   "aspect-[3/4] rounded-lg overflow-hidden relative bg-white",
-                                  page.imageBase64 && "paper-preview",
+                                  imageSrc && "paper-preview",
                                   (page.status === "generating" || isCurrentlyGenerating) && "border-2 border-primary bg-primary/5",
                                   needsRetry && "border-2 border-amber-500/50 animate-pulse",
-                                  !page.imageBase64 && page.status !== "generating" && !needsRetry && "border border-muted bg-muted/30"
+                                  !imageSrc && page.status !== "generating" && !needsRetry && "border border-muted bg-muted/30"
                                 )}
                               >
-                                {page.imageBase64 ? (
+                                {imageSrc ? (
                                   <img
-                                    src={`data:image/png;base64,${page.imageBase64}`}
+                                    src={imageSrc}
                                     alt={`Page ${page.index}`}
                                     className="w-full h-full object-contain bg-white"
                                   />
@@ -1789,8 +2177,8 @@ export default function BulkCreatePage() {
               {/* Books with page grids */}
               <div className="space-y-5">
                 {batch.books.map((book, bookIdx) => {
-                  const generatedCount = book.pages.filter(p => p.imageBase64).length;
-                  const enhancedCount = book.pages.filter(p => p.enhancedImageBase64).length;
+                  const generatedCount = book.pages.filter(hasPageImage).length;
+                  const enhancedCount = book.pages.filter(isPageEnhanced).length;
                   const approvedCount = book.pages.filter(p => p.approvedAt).length;
                   
                   return (
@@ -1841,7 +2229,7 @@ export default function BulkCreatePage() {
                         <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
                           {book.pages.map((page) => {
                             const isPageEnhancing = enhancingPageIds.has(page.id);
-                            const displayImage = page.finalLetterBase64 || page.enhancedImageBase64 || page.imageBase64;
+                            const displayImage = getPageImageSrc(page);
                             
                             return (
                               <div
@@ -1858,13 +2246,13 @@ export default function BulkCreatePage() {
                                 {displayImage ? (
                                   <>
                                     <img
-                                      src={`data:image/png;base64,${displayImage}`}
+                                      src={displayImage}
                                       alt={`Page ${page.index}`}
                                       className="w-full h-full object-contain bg-white"
                                     />
                                     
                                     <div className="absolute top-2 left-2 flex flex-col gap-1">
-                                      {page.enhancedImageBase64 && (
+                                      {isPageEnhanced(page) && (
                                         <Badge className="text-[10px] bg-emerald-600">Enhanced</Badge>
                                       )}
                                       {page.approvedAt && (
@@ -1895,7 +2283,7 @@ export default function BulkCreatePage() {
                                         size="icon-sm" 
                                         variant="secondary"
                                         onClick={() => enhancePage(book, page)}
-                                        disabled={isPageEnhancing || !!page.enhancedImageBase64}
+                                        disabled={isPageEnhancing || isPageEnhanced(page)}
                                       >
                                         {isPageEnhancing ? (
                                           <Loader2 className="h-4 w-4 animate-spin" />
@@ -1955,18 +2343,14 @@ export default function BulkCreatePage() {
             <div className="space-y-4">
               <div className="aspect-[3/4] max-h-[60vh] rounded-xl overflow-hidden bg-white border">
                 <img
-                  src={`data:image/png;base64,${
-                    viewingPage.page.finalLetterBase64 || 
-                    viewingPage.page.enhancedImageBase64 || 
-                    viewingPage.page.imageBase64
-                  }`}
+                  src={getPageImageSrc(viewingPage.page)}
                   alt={`Page ${viewingPage.page.index}`}
                   className="w-full h-full object-contain"
                 />
               </div>
               <div className="flex justify-between items-center">
                 <div className="flex gap-2">
-                  {viewingPage.page.enhancedImageBase64 && (
+                  {isPageEnhanced(viewingPage.page) && (
                     <Badge variant="secondary">Enhanced</Badge>
                   )}
                   {viewingPage.page.finalLetterBase64 && (
@@ -1995,11 +2379,11 @@ export default function BulkCreatePage() {
                     className="rounded-xl"
                     onClick={() => {
                       const book = batch?.books.find(b => b.id === viewingPage.bookId);
-                      if (book && !viewingPage.page.enhancedImageBase64) {
+                      if (book && !isPageEnhanced(viewingPage.page)) {
                         enhancePage(book, viewingPage.page);
                       }
                     }}
-                    disabled={!!viewingPage.page.enhancedImageBase64 || enhancingPageIds.has(viewingPage.page.id)}
+                    disabled={isPageEnhanced(viewingPage.page) || enhancingPageIds.has(viewingPage.page.id)}
                   >
                     {enhancingPageIds.has(viewingPage.page.id) ? (
                       <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Enhancing...</>
@@ -2095,3 +2479,19 @@ export default function BulkCreatePage() {
     </main>
   );
 }
+
+// Wrapper component with Suspense for useSearchParams
+export default function BulkCreatePage() {
+  return (
+    <Suspense fallback={
+      <main className="flex-1 pt-16 lg:pt-0">
+        <div className="flex flex-col items-center justify-center min-h-[60vh] space-y-4">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </main>
+    }>
+      <BulkCreatePageContent />
+    </Suspense>
+  );
+}
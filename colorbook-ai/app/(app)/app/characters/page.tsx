@@ -0,0 +1,376 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { AppTopbar } from "@/components/app/app-topbar";
+import { PageHeader } from "@/components/app/page-header";
+import { EmptyState } from "@/components/app/empty-state";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useSessionUser } from "@/hooks/useSessionUser";
+import {
+  toCharacterLock,
+  type LibraryCharacter,
+  type LibraryCharacterWithUsage,
+} from "@/lib/characterLibrary";
+import { CheckCircle2, Loader2, Settings2, Trash2, Users, Wand2 } from "lucide-react";
+import { toast } from "sonner";
+
+export default function CharacterLibraryPage() {
+  const { userId } = useSessionUser();
+  const [characters, setCharacters] = useState<LibraryCharacter[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [deleteTarget, setDeleteTarget] = useState<LibraryCharacter | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  // Manage dialog
+  const [managed, setManaged] = useState<LibraryCharacterWithUsage | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editTraits, setEditTraits] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [sheetPreview, setSheetPreview] = useState<string | null>(null);
+  const [isGeneratingSheet, setIsGeneratingSheet] = useState(false);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const fetchCharacters = async () => {
+      try {
+        const response = await fetch("/api/character-library");
+        const data = await response.json();
+        if (data.success && data.characters) {
+          setCharacters(data.characters);
+        }
+      } catch (error) {
+        console.error("Failed to fetch characters:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCharacters();
+  }, [userId]);
+
+  const openManage = async (character: LibraryCharacter) => {
+    try {
+      const response = await fetch(`/api/character-library/${character.id}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load character");
+      }
+      setManaged(data.character);
+      setEditName(data.character.name);
+      setEditTraits(data.character.profile.doNotChange.join("\n"));
+      setSheetPreview(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load character");
+    }
+  };
+
+  const updateCharacter = async (patch: Record<string, unknown>, successMessage: string) => {
+    if (!managed) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/character-library/${managed.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(patch),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update character");
+      }
+      const updated = data.character as LibraryCharacter;
+      setCharacters((prev) => prev.map((c) => (c.id === updated.id ? updated : c)));
+      setManaged((prev) => (prev ? { ...updated, usages: prev.usages } : prev));
+      toast.success(successMessage);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update character");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveDetails = () => {
+    if (!managed) return;
+    const doNotChange = editTraits.split("\n").map((t) => t.trim()).filter(Boolean);
+    updateCharacter(
+      { name: editName.trim(), profile: { ...managed.profile, doNotChange } },
+      "Character updated"
+    );
+  };
+
+  const generateSheet = async () => {
+    if (!managed) return;
+
+    setIsGeneratingSheet(true);
+    try {
+      const response = await fetch("/api/ai/generate-character-sheet", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ characterLock: toCharacterLock(managed.profile, managed.name) }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to generate character sheet");
+      }
+      setSheetPreview(data.imageUrl);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to generate character sheet");
+    } finally {
+      setIsGeneratingSheet(false);
+    }
+  };
+
+  const approveSheet = async () => {
+    if (!sheetPreview) return;
+    await updateCharacter({ sheetImageBase64: sheetPreview }, "Character sheet approved");
+    setSheetPreview(null);
+  };
+
+  const deleteCharacter = async (character: LibraryCharacter) => {
+    setIsDeleting(true);
+    try {
+      const response = await fetch(`/api/character-library/${character.id}`, { method: "DELETE" });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to delete character");
+      }
+      setCharacters((prev) => prev.filter((c) => c.id !== character.id));
+      toast.success(`Deleted "${character.name}"`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete character");
+    } finally {
+      setIsDeleting(false);
+      setDeleteTarget(null);
+    }
+  };
+
+  return (
+    <>
+      <AppTopbar />
+
+      <main className="p-4 lg:p-6">
+        <div className="mx-auto max-w-6xl space-y-6">
+          <PageHeader
+            title="Characters"
+            subtitle="Saved storybook characters that look the same in every book"
+            icon={Users}
+          />
+
+          {loading ? (
+            <div className="flex items-center justify-center p-16">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : characters.length === 0 ? (
+            <EmptyState
+              icon={Users}
+              title="No saved characters yet"
+              description="Generate prompts for a storybook in Create or Batch, then save its character to your library."
+              actionLabel="Create a Storybook"
+              actionHref="/app/create"
+            />
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {characters.map((character) => (
+                <Card key={character.id} className="border-border/50 overflow-hidden">
+                  <div className="aspect-[4/3] bg-muted flex items-center justify-center">
+                    {character.sheetUrl ? (
+                      <img
+                        src={character.sheetUrl}
+                        alt={character.name}
+                        className="h-full w-full object-contain"
+                      />
+                    ) : (
+                      <Users className="h-10 w-10 text-muted-foreground" />
+                    )}
+                  </div>
+                  <CardContent className="p-4 space-y-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <h3 className="font-semibold truncate">{character.name}</h3>
+                        <p className="text-xs text-muted-foreground capitalize">{character.profile.species}</p>
+                      </div>
+                      <Badge variant="secondary" className="shrink-0">
+                        {character.usageCount} {character.usageCount === 1 ? "book" : "books"}
+                      </Badge>
+                    </div>
+
+                    <div className="flex flex-wrap gap-1.5">
+                      {character.profile.doNotChange.slice(0, 4).map((trait) => (
+                        <Badge key={trait} variant="outline" className="text-xs">
+                          {trait}
+                        </Badge>
+                      ))}
+                    </div>
+
+                    <p className="text-xs text-muted-foreground">
+                      {character.lastUsedAt
+                        ? `Last used ${new Date(character.lastUsedAt).toLocaleDateString()}`
+                        : "Not used yet"}
+                      {!character.sheetUrl && " · No approved sheet"}
+                    </p>
+
+                    <div className="flex gap-2 pt-3 border-t">
+                      <Button variant="outline" size="sm" className="flex-1" onClick={() => openManage(character)}>
+                        <Settings2 className="mr-2 h-4 w-4" />
+                        Manage
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => setDeleteTarget(character)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+
+      {/* Manage character */}
+      <Dialog open={!!managed} onOpenChange={(open) => !open && setManaged(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {managed && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{managed.name}</DialogTitle>
+                <DialogDescription className="capitalize">{managed.profile.species}</DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-5">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Name</label>
+                  <Input value={editName} onChange={(e) => setEditName(e.target.value)} maxLength={100} />
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Traits that must never change</label>
+                  <Textarea
+                    value={editTraits}
+                    onChange={(e) => setEditTraits(e.target.value)}
+                    placeholder="One trait per line"
+                    className="min-h-[100px] text-sm"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Every page generated with this character is checked against these traits.
+                  </p>
+                </div>
+
+                <Button onClick={saveDetails} disabled={isSaving || !editName.trim()}>
+                  {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Changes
+                </Button>
+
+                {/* Character sheet */}
+                <div className="space-y-3 pt-4 border-t">
+                  <h4 className="text-sm font-medium">Character Sheet</h4>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <p className="text-xs text-muted-foreground">Approved</p>
+                      <div className="aspect-[3/4] rounded-lg border bg-muted flex items-center justify-center overflow-hidden">
+                        {managed.sheetUrl ? (
+                          <img src={managed.sheetUrl} alt="Approved sheet" className="h-full w-full object-contain" />
+                        ) : (
+                          <span className="text-xs text-muted-foreground">None yet</span>
+                        )}
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      <p className="text-xs text-muted-foreground">New sheet</p>
+                      <div className="aspect-[3/4] rounded-lg border bg-muted flex items-center justify-center overflow-hidden">
+                        {isGeneratingSheet ? (
+                          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                        ) : sheetPreview ? (
+                          <img src={sheetPreview} alt="New sheet" className="h-full w-full object-contain" />
+                        ) : (
+                          <span className="text-xs text-muted-foreground">Not generated</span>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" onClick={generateSheet} disabled={isGeneratingSheet || isSaving}>
+                      <Wand2 className="mr-2 h-4 w-4" />
+                      {sheetPreview ? "Regenerate Sheet" : "Generate Sheet"}
+                    </Button>
+                    {sheetPreview && (
+                      <Button onClick={approveSheet} disabled={isSaving}>
+                        <CheckCircle2 className="mr-2 h-4 w-4" />
+                        Approve Sheet
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {/* Usage history */}
+                <div className="space-y-2 pt-4 border-t">
+                  <h4 className="text-sm font-medium">Used In</h4>
+                  {managed.usages.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Not used in any book yet.</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {managed.usages.map((usage) => (
+                        <li key={usage.projectId} className="flex items-center justify-between text-sm">
+                          <Link href={`/app/projects/${usage.projectId}`} className="text-primary hover:underline truncate">
+                            {usage.projectName}
+                          </Link>
+                          <span className="text-xs text-muted-foreground shrink-0 ml-3">
+                            {new Date(usage.usedAt).toLocaleDateString()}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <Dialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete character?</DialogTitle>
+            <DialogDescription>
+              &quot;{deleteTarget?.name}&quot;, its character sheet and usage history will be removed.
+              Books that already used it keep their pages.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleteTarget && deleteCharacter(deleteTarget)}
+              disabled={isDeleting}
+            >
+              {isDeleting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -5,8 +5,12 @@ import { useSearchParams } from "next/navigation";
 import { AppTopbar } from "@/components/app/app-topbar";
 import { PageHeader } from "@/components/app/page-header";
 import { SectionCard, SubSection } from "@/components/app/section-card";
+import { StyleLibraryPicker } from "@/components/app/style-library-picker";
+import { CharacterLibraryPicker, SaveCharacterToLibrary } from "@/components/app/character-library-picker";
+import { SeriesPicker } from "@/components/app/series-picker";
 import { OptionCard, OptionChip, OptionGrid, ChipGroup } from "@/components/app/option-card";
 import { ProgressPanel, type JobProgress } from "@/components/app/progress-panel";
+import { DuplicateBadge } from "@/components/app/preview-grid";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
@@ -59,6 +63,21 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { MoreHorizontal } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useSessionUser } from "@/hooks/useSessionUser";
+import { useProjectAssets } from "@/hooks/useProjectAssets";
+import type { GenerationJob } from "@/types/database";
+import { TRIM_SIZES_IN, getLineThicknessForComplexity } from "@/lib/generationSpec";
+import type { AssetWithUrl } from "@/types/assets";
+import type { AppliedLibraryStyle } from "@/lib/styleLibrary";
+import type { ImageEnhancerName } from "@/lib/services/imageEnhancers";
+import type { PageDuplicateMatch } from "@/lib/pageDuplicates";
+import { formatSeriesVolumeLine, type Series } from "@/lib/series";
+import {
+  toAppliedLibraryCharacter,
+  toCharacterProfile,
+  type AppliedLibraryCharacter,
+  type LibraryCharacter,
+} from "@/lib/characterLibrary";
 import type {
   BatchPromptsResponse,
   PagePromptItem,
@@ -135,6 +154,8 @@ interface PageState extends PagePromptItem {
   // Pause info for non-retryable errors
   pauseReason?: string;
   actionHint?: string;
+  // Another page of the book this one nearly repeats
+  duplicateOf?: PageDuplicateMatch;
 }
 
 interface GeneratedIdea {
@@ -176,6 +197,53 @@ const THEME_EXAMPLES: Record<string, string[]> = {
   ],
 };
 
+/**
+ * Apply page_image assets written by a background generation job
+ */
+function applyJobAssets(pages: PageState[], assets: AssetWithUrl[], jobId: string): PageState[] {
+  const jobAssets = new Map(
+    assets
+      .filter(a => a.asset_type === "page_image" && a.page_number !== null && a.meta?.jobId === jobId)
+      .map(a => [a.page_number as number, a])
+  );
+  if (jobAssets.size === 0) return pages;
+
+  return pages.map(p => {
+    const asset = jobAssets.get(p.page);
+    if (!asset) return p;
+
+    if (asset.status === "ready" && asset.signedUrl) {
+      if (
+        p.status === "done" &&
+        p.imageUrl === asset.signedUrl &&
+        p.duplicateOf?.pageNumber === asset.meta?.duplicateOf?.pageNumber
+      ) return p;
+      return {
+        ...p,
+        status: "done" as PageStatus,
+        imageUrl: asset.signedUrl,
+        imageBase64: undefined,
+        error: undefined,
+        canRetry: false,
+        attempts: asset.meta?.attempts || p.attempts,
+        duplicateOf: asset.meta?.duplicateOf,
+      };
+    }
+    if (asset.status === "generating" && p.status !== "done") {
+      return { ...p, status: "generating" as PageStatus, lastAttemptAt: Date.now() };
+    }
+    if (asset.status === "failed" && p.status !== "done") {
+      return {
+        ...p,
+        status: "generating" as PageStatus, // NOT failed - allow retry
+        note: "Ready to retry",
+        canRetry: true,
+      };
+    }
+    return p;
+  });
+}
+
 // ============================================================
 // MAIN COMPONENT
 // ============================================================
@@ -185,8 +253,8 @@ function CreateColoringBookPageContent() {
   const [currentStep, setCurrentStep] = useState<CreateStep>(0);
   
   // === PROJECT PERSISTENCE ===
-  // User ID (for anonymous users, stored in localStorage)
-  const [userId, setUserId] = useState<string>("");
+  // Signed-in user (API routes resolve the owner from the session cookie)
+  const { userId } = useSessionUser();
   // Current project ID (persisted to DB)
   const [projectId, setProjectId] = useState<string | null>(null);
   const [isCreatingProject, setIsCreatingProject] = useState(false);
@@ -197,16 +265,6 @@ function CreateColoringBookPageContent() {
   const resumeProjectId = searchParams?.get("projectId");
   const shouldResume = searchParams?.get("resume") === "true";
   
-  // Initialize userId on mount
-  useEffect(() => {
-    let id = localStorage.getItem("colweb_user_id");
-    if (!id) {
-      id = crypto.randomUUID();
-      localStorage.setItem("colweb_user_id", id);
-    }
-    setUserId(id);
-  }, []);
-  
   // Load existing project if resuming
   useEffect(() => {
     if (resumeProjectId && userId && !projectId) {
@@ -224,7 +282,7 @@ function CreateColoringBookPageContent() {
     setIsLoadingProject(true);
     try {
       // Fetch project details
-      const projResponse = await fetch(`/api/projects?userId=${userId}`);
+      const projResponse = await fetch("/api/projects");
       const projData = await projResponse.json();
       
       if (!projData.success || !projData.projects) {
@@ -246,10 +304,29 @@ function CreateColoringBookPageContent() {
       if (project.settings) {
         if (project.settings.complexity) setComplexity(project.settings.complexity);
         if (project.settings.orientation) setOrientation(project.settings.orientation);
+        setLibraryStyle(project.settings.styleLibrary ?? null);
+        setEnhancer(project.settings.enhancer ?? null);
+        setNormalizeLineWeight(project.settings.normalizeLineWeight ?? false);
+        if (project.settings.characterLibrary && project.settings.characterProfile) {
+          setLibraryCharacter(project.settings.characterLibrary);
+          setCharacterIdentityProfile(project.settings.characterProfile);
+        }
+        if (project.settings.authorName) {
+          setPdfSettings(prev => ({ ...prev, authorName: project.settings.authorName }));
+        }
+      }
+      
+      if (project.series_id) {
+        const seriesResponse = await fetch(`/api/series/${project.series_id}`);
+        const seriesData = await seriesResponse.json();
+        if (seriesResponse.ok) {
+          setSeries(seriesData.series);
+          setSeriesVolume(project.series_volume);
+        }
       }
       
       // Fetch prompts for this project
-      const promptsResponse = await fetch(`/api/projects/${projId}/prompts?userId=${userId}`);
+      const promptsResponse = await fetch(`/api/projects/${projId}/prompts`);
       const promptsData = await promptsResponse.json();
       
       if (promptsData.success && promptsData.prompts?.length > 0) {
@@ -259,7 +336,9 @@ function CreateColoringBookPageContent() {
           title: p.title,
           prompt: p.prompt_text,
           sceneDescription: p.scene_description || "",
-          status: p.status === "image_done" ? "done" as PageStatus : "pending" as PageStatus,
+          status: p.status === "image_done"
+            ? "done" as PageStatus
+            : p.status === "generating_image" ? "generating" as PageStatus : "pending" as PageStatus,
           enhanceStatus: "none" as EnhanceStatus,
           finalLetterStatus: "none" as ProcessingStatus,
           activeVersion: "original" as const,
@@ -281,6 +360,17 @@ function CreateColoringBookPageContent() {
         }
         
         console.log(`[create] Loaded project ${projId}: ${pageStates.length} prompts, step ${currentStep}`);
+        
+        // Reconnect to a background generation job that is still going
+        const jobResponse = await fetch(`/api/projects/${projId}/generation-job`);
+        const jobData = await jobResponse.json();
+        const job: GenerationJob | null = jobResponse.ok ? jobData.job : null;
+        
+        if (job && ["queued", "running", "paused"].includes(job.status)) {
+          setGenerationMode("background");
+          setCurrentStep(3);
+          applyGenerationJob(job);
+        }
       } else {
         // No prompts yet, just set to idea step
         setCurrentStep(1);
@@ -312,11 +402,30 @@ function CreateColoringBookPageContent() {
   
   // Step 3: Generation
   const [isGenerating, setIsGenerating] = useState(false);
-  const [generationMode, setGenerationMode] = useState<"realtime" | "batch">("realtime");
+  const [generationMode, setGenerationMode] = useState<"realtime" | "batch" | "background">("realtime");
+  const [regenerateDuplicates, setRegenerateDuplicates] = useState(false);
   const [batchId, setBatchId] = useState<string | null>(null);
+  // Server-side generation job (background mode) - survives closing the tab
+  const [generationJob, setGenerationJob] = useState<GenerationJob | null>(null);
+  const { assets: projectAssets, refetch: refetchAssets } = useProjectAssets({
+    projectId: generationJob ? projectId : null,
+    autoFetch: !!generationJob,
+  });
+  const [syncedAssets, setSyncedAssets] = useState<AssetWithUrl[]>(projectAssets);
+  
+  // Mirror the job's page assets (realtime updates + signed URLs) into page state
+  if (projectAssets !== syncedAssets) {
+    setSyncedAssets(projectAssets);
+    if (generationJob) {
+      const jobId = generationJob.id;
+      setPages(prev => applyJobAssets(prev, projectAssets, jobId));
+    }
+  }
   const [batchPause, setBatchPause] = useState<BatchPauseInfo>({ isPaused: false });
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const [characterIdentityProfile, setCharacterIdentityProfile] = useState<any>(null);
+  // Saved Character Library character (its profile is characterIdentityProfile)
+  const [libraryCharacter, setLibraryCharacter] = useState<AppliedLibraryCharacter | null>(null);
   
   // Step 4: Export
   const [isExporting, setIsExporting] = useState(false);
@@ -329,6 +438,19 @@ function CreateColoringBookPageContent() {
   type ComplexityLevel = "kids" | "simple" | "medium" | "detailed" | "ultra";
   const [complexity, setComplexity] = useState<ComplexityLevel>("medium");
   
+  // Saved Style Library style pinned on the project (injected into every page prompt)
+  const [libraryStyle, setLibraryStyle] = useState<AppliedLibraryStyle | null>(null);
+  
+  // Page enhancer pinned on the project (null: the server's IMAGE_ENHANCER default)
+  const [enhancer, setEnhancer] = useState<ImageEnhancerName | null>(null);
+  
+  // Normalize processed pages' strokes to the complexity's line thickness
+  const [normalizeLineWeight, setNormalizeLineWeight] = useState(false);
+  
+  // Series this book is a volume of (volume number is assigned when the project is created)
+  const [series, setSeries] = useState<Series | null>(null);
+  const [seriesVolume, setSeriesVolume] = useState<number | null>(null);
+  
   const COMPLEXITY_OPTIONS: { value: ComplexityLevel; label: string; description: string; ageRange: string }[] = [
     { value: "kids", label: "Very Simple", description: "Big shapes, few details, thick outlines", ageRange: "Ages 3-6" },
     { value: "simple", label: "Simple", description: "Clear shapes, moderate detail", ageRange: "Ages 6-9" },
@@ -535,11 +657,20 @@ function CreateColoringBookPageContent() {
           bookType: bookType || "theme",
           idea,
           pagesRequested,
-          userId,
+          seriesId: series?.id,
           settings: {
             complexity,
             orientation,
             pageCount: pagesRequested,
+            authorName: pdfSettings.authorName || undefined,
+            styleLibrary: libraryStyle ?? undefined,
+            enhancer: enhancer ?? undefined,
+            lineThickness: getLineThicknessForComplexity(complexity),
+            normalizeLineWeight,
+            ...(bookType === "storybook" && libraryCharacter && {
+              characterLibrary: libraryCharacter,
+              characterProfile: characterIdentityProfile,
+            }),
           },
         }),
       });
@@ -549,6 +680,7 @@ function CreateColoringBookPageContent() {
       
       const newProjectId = data.project.id;
       setProjectId(newProjectId);
+      setSeriesVolume(data.project.series_volume ?? null);
       console.log(`[create] Project created: ${newProjectId}, pages_requested: ${pagesRequested}`);
       return newProjectId;
     } catch (error) {
@@ -591,7 +723,6 @@ function CreateColoringBookPageContent() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           projectId,
-          userId,
           pages: pagesToGenerate.map(p => ({
             pageIndex: p.page,
             prompt: p.prompt,
@@ -646,7 +777,7 @@ function CreateColoringBookPageContent() {
           const finalizeRes = await fetch("/api/batch/openai/finalize", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ batchId: newBatchId, projectId, userId }),
+            body: JSON.stringify({ batchId: newBatchId, projectId }),
           });
           const finalizeData = await safeJsonParse(finalizeRes);
           if (!finalizeRes.ok) {
@@ -654,18 +785,22 @@ function CreateColoringBookPageContent() {
           }
 
           const { updatedPages: updated, failedPageIndexes } = finalizeData;
+          const qualityFailed: { pageIndex: number; reason: string }[] = finalizeData.qualityFailedPages ?? [];
 
           setPages(prev => prev.map(p => {
             const isTarget = pagesToGenerate.some(pg => pg.page === p.page);
             if (!isTarget) return p;
             const u = updated.find((x: { pageIndex: number }) => x.pageIndex === p.page);
             if (u) {
+              // Saved, but failed the post-hoc quality check
+              const flagged = qualityFailed.find(f => f.pageIndex === p.page);
               return {
                 ...p,
                 status: "done" as PageStatus,
                 imageUrl: u.signedUrl,
                 imageBase64: undefined,
                 error: undefined,
+                ...(flagged && { canRetry: true, note: `Quality check failed: ${flagged.reason}` }),
               };
             }
             if (failedPageIndexes.includes(p.page)) {
@@ -686,6 +821,8 @@ function CreateColoringBookPageContent() {
           }
           if (failedPageIndexes.length > 0) {
             toast.warning(`${updated.length} done, ${failedPageIndexes.length} failed. Retry failed pages with Realtime mode.`);
+          } else if (qualityFailed.length > 0) {
+            toast.warning(`${updated.length} done, ${qualityFailed.length} flagged by the quality check. Regenerate flagged pages to retry.`);
           } else {
             toast.success(`All ${updated.length} images generated!`);
           }
@@ -715,6 +852,148 @@ function CreateColoringBookPageContent() {
     }
   };
 
+  /**
+   * Reflect a background job's progress and pause state in the UI
+   */
+  const applyGenerationJob = (job: GenerationJob) => {
+    setGenerationJob(job);
+    const isActive = job.status === "queued" || job.status === "running";
+    
+    setJobProgress(prev => ({
+      ...prev,
+      totalItems: job.total_pages,
+      completedItems: job.completed_pages,
+      failedCount: job.failed_pages,
+      phase: isActive ? "generating" : "complete",
+      startedAt: prev.startedAt ?? Date.now(),
+    }));
+    setIsGenerating(isActive);
+    
+    if (job.status === "paused" && job.pause_reason) {
+      setBatchPause({
+        isPaused: true,
+        reason: job.pause_reason,
+        errorCode: job.error_code ?? undefined,
+        actionHint: job.action_hint ?? undefined,
+        pausedAt: Date.now(),
+      });
+    }
+  };
+
+  /**
+   * Generate images with a server-side job (keeps running if the tab is closed).
+   * Pages arrive through the useProjectAssets realtime subscription.
+   */
+  const generateAllImagesBackground = async (pagesToGenerate: PageState[]) => {
+    if (!projectId || !userId) {
+      toast.error("Project not created yet. Please wait or refresh.");
+      return;
+    }
+
+    setIsGenerating(true);
+    setCurrentStep(3);
+    setBatchPause({ isPaused: false });
+
+    try {
+      // The worker reads prompts from the database, so save any edits first
+      const saved = await savePromptsToDb(projectId, pages);
+      if (!saved) {
+        throw new Error("Failed to save prompts");
+      }
+
+      const response = await fetch(`/api/projects/${projectId}/generation-job`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          pageIndexes: pagesToGenerate.map(p => p.page),
+          size: getImageSize(),
+          isStorybookMode: bookType === "storybook",
+          characterProfile: bookType === "storybook" ? characterIdentityProfile ?? undefined : undefined,
+          validateOutline: true,
+          validateCharacter: bookType === "storybook",
+          validateComposition: true,
+          complexity,
+          regenerateDuplicates,
+        }),
+      });
+
+      const data = await safeJsonParse(response);
+
+      if (data.status === "paused" && data.errorType === "non_retryable") {
+        setBatchPause({
+          isPaused: true,
+          reason: data.pauseReason || data.error,
+          errorCode: data.errorCode,
+          actionHint: data.actionHint,
+          pausedAt: Date.now(),
+        });
+        toast.error(data.pauseReason || "Generation paused");
+        setIsGenerating(false);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to start background generation");
+      }
+
+      setPages(prev => prev.map(p =>
+        pagesToGenerate.some(pg => pg.page === p.page)
+          ? { ...p, status: "queued" as PageStatus }
+          : p
+      ));
+      setJobProgress({
+        totalItems: data.job.total_pages,
+        completedItems: data.job.completed_pages,
+        phase: "generating",
+        startedAt: Date.now(),
+      });
+      applyGenerationJob(data.job);
+
+      toast.success("Generating in the background - you can close this tab and come back later.");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Background generation failed");
+      setIsGenerating(false);
+    }
+  };
+
+  // Poll the background job while it is active; page images arrive via realtime
+  const activeGenerationJobId = generationJob && (generationJob.status === "queued" || generationJob.status === "running")
+    ? generationJob.id
+    : null;
+
+  useEffect(() => {
+    if (!activeGenerationJobId || !projectId) return;
+    
+    let cancelled = false;
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/generation-job`);
+        const data = await safeJsonParse(response);
+        if (cancelled || !response.ok || !data.job || data.job.id !== activeGenerationJobId) return;
+        
+        const job: GenerationJob = data.job;
+        applyGenerationJob(job);
+        // Pick up signed URLs for pages finished since the last poll
+        refetchAssets();
+        
+        if (job.status === "completed") {
+          toast.success(`${job.completed_pages} images generated!`);
+        } else if (job.status === "failed") {
+          toast.error(job.last_error || "Background generation failed");
+        } else if (job.status === "paused") {
+          toast.error(job.pause_reason || "Generation paused");
+        }
+      } catch (error) {
+        console.error("[create] Failed to poll generation job:", error);
+      }
+    }, 5000);
+    
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeGenerationJobId, projectId]);
+
   /**
    * Save prompts to the database
    */
@@ -735,7 +1014,6 @@ function CreateColoringBookPageContent() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           prompts,
-          userId,
           upsert: true,
         }),
       });
@@ -763,7 +1041,6 @@ function CreateColoringBookPageContent() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           projectId: projId,
-          userId,
           status,
           ...counts,
         }),
@@ -785,7 +1062,7 @@ function CreateColoringBookPageContent() {
     title?: string
   ) => {
     if (!userId || !projId) {
-      console.warn("[create] Cannot save asset - missing userId or projectId");
+      console.warn("[create] Cannot save asset - not signed in or missing projectId");
       return null;
     }
     
@@ -797,7 +1074,6 @@ function CreateColoringBookPageContent() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           projectId: projId,
-          userId,
           pageNumber,
           assetType: "page_image",
           imageBase64,
@@ -814,6 +1090,7 @@ function CreateColoringBookPageContent() {
       }
       
       console.log(`[create] Asset saved: ${data.assetId}`);
+      setPages(prev => prev.map(p => p.page === pageNumber ? { ...p, duplicateOf: data.duplicateOf } : p));
       return data;
     } catch (error) {
       console.error("[create] Error saving asset:", error);
@@ -821,6 +1098,40 @@ function CreateColoringBookPageContent() {
     }
   };
 
+  const selectLibraryCharacter = (character: LibraryCharacter | null) => {
+    setLibraryCharacter(character ? toAppliedLibraryCharacter(character) : null);
+    setCharacterIdentityProfile(character ? character.profile : null);
+  };
+
+  /**
+   * Make this book the next volume of a series and apply the series'
+   * style, character, author and front matter
+   */
+  const selectSeries = async (selected: Series | null) => {
+    setSeries(selected);
+    if (!selected) return;
+    
+    if (selected.styleLibrary) setLibraryStyle(selected.styleLibrary);
+    if (selected.authorName) {
+      setPdfSettings(prev => ({ ...prev, authorName: selected.authorName ?? prev.authorName }));
+    }
+    setIncludeTitlePage(selected.frontMatter.includeTitlePage);
+    setIncludeCopyrightPage(selected.frontMatter.includeCopyrightPage);
+    setBelongsToPage(prev => ({ ...prev, enabled: selected.frontMatter.includeBelongsToPage }));
+    
+    if (bookType === "storybook" && selected.characterLibrary) {
+      try {
+        const response = await fetch(`/api/character-library/${selected.characterLibrary.characterId}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to load character");
+        selectLibraryCharacter(data.character);
+      } catch (error) {
+        console.error("[create] Failed to load series character:", error);
+        toast.error(`Couldn't load ${selected.characterLibrary.name} from your Character Library`);
+      }
+    }
+  };
+
   // ============================================================
   // STEP 2: PROMPTS GENERATION (DIRECT FROM IDEA - NO SEPARATE IMPROVE STEP)
   // ============================================================
@@ -868,7 +1179,10 @@ function CreateColoringBookPageContent() {
       };
 
       let characterProfile: CharacterProfile | undefined;
-      if (bookType === "storybook") {
+      if (bookType === "storybook" && libraryCharacter && characterIdentityProfile) {
+        // Saved character: plan scenes around its locked profile
+        characterProfile = toCharacterProfile(characterIdentityProfile);
+      } else if (bookType === "storybook") {
         // Extract character hint from the idea
         characterProfile = {
           species: "main character as described in the idea",
@@ -895,6 +1209,8 @@ function CreateColoringBookPageContent() {
           },
           styleProfile,
           characterProfile,
+          characterIdentityProfile: libraryCharacter ? characterIdentityProfile : undefined,
+          projectId: currentProjectId ?? undefined, // Series volumes avoid scenes from earlier volumes
           basePrompt: idea, // Use user's idea directly
           size: getImageSize(),
           complexity, // Pass complexity level for appropriate detail
@@ -1030,6 +1346,11 @@ function CreateColoringBookPageContent() {
       return;
     }
 
+    if (generationMode === "background") {
+      await generateAllImagesBackground(pagesToGenerate);
+      return;
+    }
+
     setIsGenerating(true);
     setCurrentStep(3);
     
@@ -1065,6 +1386,7 @@ function CreateColoringBookPageContent() {
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             page: pageItem.page,
+            projectId: projectId ?? undefined,
             prompt: pageItem.prompt,
             size: getImageSize(),
             isStorybookMode: bookType === "storybook",
@@ -1273,6 +1595,7 @@ function CreateColoringBookPageContent() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           page: page.page,
+          projectId: projectId ?? undefined,
           prompt: reason 
             ? `${page.prompt}\n\n[REGENERATION REASON: ${reason} - please fix this issue]`
             : page.prompt,
@@ -1413,6 +1736,7 @@ function CreateColoringBookPageContent() {
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             page: pageItem.page,
+            projectId: projectId ?? undefined,
             prompt: pageItem.prompt,
             size: getImageSize(),
             isStorybookMode: bookType === "storybook",
@@ -1495,6 +1819,35 @@ function CreateColoringBookPageContent() {
     // Clear pause state
     setBatchPause({ isPaused: false });
     
+    // Background job: resume it on the server
+    if (generationJob?.status === "paused" && projectId) {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/generation-job`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action: "resume" }),
+        });
+        const data = await safeJsonParse(response);
+        if (data.status === "paused") {
+          setBatchPause({
+            isPaused: true,
+            reason: data.pauseReason || data.error,
+            errorCode: data.errorCode,
+            actionHint: data.actionHint,
+            pausedAt: Date.now(),
+          });
+          toast.error(data.pauseReason || "Generation paused");
+          return;
+        }
+        if (!response.ok) throw new Error(data.error || "Failed to resume");
+        applyGenerationJob(data.job);
+        toast.info("Resuming background generation...");
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Failed to resume");
+      }
+      return;
+    }
+    
     // Reset paused pages to queued
     setPages(prev => prev.map(p =>
       p.status === "paused" 
@@ -1541,7 +1894,7 @@ function CreateColoringBookPageContent() {
         const response = await fetch("/api/image/enhance", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ imageBase64, scale: 2 }),
+          body: JSON.stringify({ imageBase64, scale: 2, enhancer: enhancer ?? undefined }),
         });
 
         const data = await response.json();
@@ -1619,7 +1972,7 @@ function CreateColoringBookPageContent() {
       const response = await fetch("/api/image/enhance", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ imageBase64, scale: 2 }),
+        body: JSON.stringify({ imageBase64, scale: 2, enhancer: enhancer ?? undefined }),
       });
 
       const data = await response.json();
@@ -1705,7 +2058,9 @@ function CreateColoringBookPageContent() {
             imageBase64,
             enhance: true,
             enhanceScale: 2,
+            enhancer: enhancer ?? undefined,
             marginPercent: 3,
+            projectId: projectId ?? undefined,
             pageId: String(page.page),
           }),
         });
@@ -1805,7 +2160,6 @@ function CreateColoringBookPageContent() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           projectId,
-          userId,
           includePdf: true, // Include PDF in ZIP if it exists
           includeMetadata: true,
         }),
@@ -1866,6 +2220,7 @@ function CreateColoringBookPageContent() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           page: page.page,
+          projectId: projectId ?? undefined,
           prompt: page.prompt,
           size: getImageSize(),
           isStorybookMode: bookType === "storybook",
@@ -1931,6 +2286,9 @@ function CreateColoringBookPageContent() {
     includeCopyright: true,
     includePageNumbers: true,
     authorName: "",
+    trimSize: "8.5x11",
+    bleed: false,
+    vectorPages: false,
   });
   const [pdfPreviewUrl, setPdfPreviewUrl] = useState<string | null>(null);
   
@@ -1977,7 +2335,6 @@ function CreateColoringBookPageContent() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           projectId,
-          userId,
           bookTitle: storyConfig.title || generatedIdea?.title || "My Coloring Book",
           mainCharacterDesc: generatedIdea?.mainCharacter,
           theme: generatedIdea?.theme,
@@ -2038,6 +2395,22 @@ function CreateColoringBookPageContent() {
     else if (key === "belongsTo") setBelongsToPage(prev => ({ ...prev, enabled: !prev.enabled }));
   };
 
+  // Trace pages into SVG variants for a vector PDF (already traced pages are skipped)
+  const ensurePageVectors = async () => {
+    const response = await fetch(`/api/projects/${projectId}/vectorize`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({}),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to vectorize pages");
+    }
+    if (data.belowThreshold > 0) {
+      toast.info(`${data.belowThreshold} page(s) stay raster - their tracing didn't match closely enough`);
+    }
+  };
+
   const generatePdfPreview = async () => {
     if (!projectId || !userId) {
       toast.error("Project not created yet. Please generate pages first.");
@@ -2055,6 +2428,10 @@ function CreateColoringBookPageContent() {
     setPdfNeedsRefresh(false);
     
     try {
+      if (pdfSettings.vectorPages) {
+        await ensurePageVectors();
+      }
+
       console.log("[PDF Export] Using build-pdf endpoint with projectId:", projectId);
       
       // Use storage-based PDF export (no base64 in request body)
@@ -2063,13 +2440,15 @@ function CreateColoringBookPageContent() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           projectId,
-          userId,
           includeTitlePage,
           includeCopyrightPage,
           includeBelongsToPage: belongsToPage.enabled && belongsToPage.status === "done" && !!belongsToPage.signedUrl,
           includePageNumbers: pdfSettings.includePageNumbers,
           bookTitle: storyConfig.title || generatedIdea?.title || "My Coloring Book",
           authorName: pdfSettings.authorName,
+          trimSize: pdfSettings.trimSize,
+          bleed: pdfSettings.bleed,
+          vectorPages: pdfSettings.vectorPages,
           previewMode: false, // Generate full PDF
         }),
       });
@@ -2154,6 +2533,10 @@ function CreateColoringBookPageContent() {
     try {
       const bookTitle = storyConfig.title || generatedIdea?.title || "My Coloring Book";
       
+      if (pdfSettings.vectorPages) {
+        await ensurePageVectors();
+      }
+
       console.log("[PDF Export] Direct export using build-pdf with projectId:", projectId);
       
       // Use storage-based PDF export (no base64 in request body)
@@ -2162,13 +2545,15 @@ function CreateColoringBookPageContent() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           projectId,
-          userId,
           includeTitlePage,
           includeCopyrightPage,
           includeBelongsToPage: belongsToPage.enabled && belongsToPage.status === "done" && !!belongsToPage.signedUrl,
           includePageNumbers: pdfSettings.includePageNumbers,
           bookTitle: storyConfig.title || generatedIdea?.title || "My Coloring Book",
           authorName: pdfSettings.authorName,
+          trimSize: pdfSettings.trimSize,
+          bleed: pdfSettings.bleed,
+          vectorPages: pdfSettings.vectorPages,
           previewMode: false,
         }),
       });
@@ -2429,6 +2814,17 @@ function CreateColoringBookPageContent() {
                   className="min-h-[120px]"
                 />
 
+                {/* Saved character (storybook) */}
+                {bookType === "storybook" && (
+                  <SubSection title="Saved Character" description="Reuse a character from your library so it looks the same in every book">
+                    <CharacterLibraryPicker
+                      value={libraryCharacter}
+                      onChange={selectLibraryCharacter}
+                      disabled={!!projectId}
+                    />
+                  </SubSection>
+                )}
+
                 {/* Theme-specific examples */}
                 <div className="space-y-2">
                   <p className="text-xs font-medium text-muted-foreground">Quick examples:</p>
@@ -2568,6 +2964,35 @@ function CreateColoringBookPageContent() {
                   </p>
                 </div>
                     </SubSection>
+
+              {/* Series */}
+              <SubSection title="Series" description="Publish this book as the next volume of a series">
+                <SeriesPicker value={series?.id ?? null} onChange={selectSeries} disabled={!!projectId} />
+              </SubSection>
+
+              {/* Style Library */}
+              <SubSection title="Saved Style" description="Apply a style from your library to every page">
+                <StyleLibraryPicker value={libraryStyle} onChange={setLibraryStyle} disabled={!!projectId} />
+              </SubSection>
+
+              {/* Page Enhancement */}
+              <SubSection title="Page Enhancement" description="How pages are upscaled to print resolution">
+                <ChipGroup>
+                  <OptionChip label="Default" selected={enhancer === null} onClick={() => setEnhancer(null)} disabled={!!projectId} />
+                  <OptionChip label="Local line cleanup" selected={enhancer === "local"} onClick={() => setEnhancer("local")} disabled={!!projectId} />
+                  <OptionChip label="AI upscale (Replicate)" selected={enhancer === "replicate"} onClick={() => setEnhancer("replicate")} disabled={!!projectId} />
+                </ChipGroup>
+                <label className="mt-3 flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={normalizeLineWeight}
+                    onChange={(e) => setNormalizeLineWeight(e.target.checked)}
+                    disabled={!!projectId}
+                    className="h-4 w-4 rounded"
+                  />
+                  <span className="text-sm">Normalize line weight to the complexity (thicker strokes for kids/simple, thinner for ultra)</span>
+                </label>
+              </SubSection>
                     </div>
                   )}
                 </div>
@@ -2654,6 +3079,16 @@ function CreateColoringBookPageContent() {
                   </div>
                 )}
                 
+                {/* Save the extracted character for later books */}
+                {bookType === "storybook" && characterIdentityProfile && !libraryCharacter && !generatingPrompts && (
+                  <div className="rounded-lg border border-dashed border-border p-3 space-y-2">
+                    <p className="text-xs text-muted-foreground">
+                      Reusing this {characterIdentityProfile.species} in another book? Save it to your Character Library.
+                    </p>
+                    <SaveCharacterToLibrary profile={characterIdentityProfile} projectId={projectId} />
+                  </div>
+                )}
+
                 {/* Prompt Cards Grid */}
                 <div className="grid gap-3">
                   {pages.map((page) => (
@@ -2800,7 +3235,11 @@ function CreateColoringBookPageContent() {
                     <DropdownMenu>
                       <DropdownMenuTrigger asChild>
                         <Button variant="outline" size="sm" disabled={isGenerating}>
-                          {generationMode === "realtime" ? "Realtime (fast)" : "Batch (cheaper, slower)"}
+                          {generationMode === "realtime"
+                            ? "Realtime (fast)"
+                            : generationMode === "batch"
+                              ? "Batch (cheaper, slower)"
+                              : "Background (close the tab anytime)"}
                           <ChevronDown className="ml-1 h-4 w-4" />
                         </Button>
                       </DropdownMenuTrigger>
@@ -2811,8 +3250,23 @@ function CreateColoringBookPageContent() {
                         <DropdownMenuItem onClick={() => setGenerationMode("batch")}>
                           Batch (cheaper, slower)
                         </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => setGenerationMode("background")} disabled={!projectId}>
+                          Background (close the tab anytime)
+                        </DropdownMenuItem>
                       </DropdownMenuContent>
                     </DropdownMenu>
+                    {generationMode === "background" && (
+                      <label className="flex items-center gap-2 cursor-pointer ml-2">
+                        <input
+                          type="checkbox"
+                          checked={regenerateDuplicates}
+                          onChange={(e) => setRegenerateDuplicates(e.target.checked)}
+                          disabled={isGenerating}
+                          className="h-4 w-4 rounded"
+                        />
+                        <span className="text-sm text-muted-foreground">Regenerate near-duplicate pages</span>
+                      </label>
+                    )}
                   </div>
                   <div className="flex gap-3">
                     <Button variant="outline" onClick={() => setCurrentStep(1)}>
@@ -2827,7 +3281,7 @@ function CreateColoringBookPageContent() {
                       {generatingPrompts ? (
                         <><Loader2 className="mr-2 h-5 w-5 animate-spin" /> Waiting for prompts...</>
                       ) : isGenerating ? (
-                        <><Loader2 className="mr-2 h-5 w-5 animate-spin" /> {generationMode === "batch" ? "Batch in progress..." : "Generating Images..."}</>
+                        <><Loader2 className="mr-2 h-5 w-5 animate-spin" /> {generationMode === "batch" ? "Batch in progress..." : generationMode === "background" ? "Generating in background..." : "Generating Images..."}</>
                       ) : (
                         <><Play className="mr-2 h-5 w-5" /> Generate {pendingCount} Images</>
                       )}
@@ -3103,6 +3557,9 @@ function CreateColoringBookPageContent() {
                             <AlertCircle className="mr-1 h-3 w-3 text-amber-500" /> Warning
                           </Badge>
                         )}
+                        {page.status === "done" && page.duplicateOf && (
+                          <DuplicateBadge duplicateOf={page.duplicateOf} className="absolute bottom-2 left-2" />
+                        )}
                       </div>
 
                       <CardContent className="p-3 border-t">
@@ -3231,6 +3688,11 @@ function CreateColoringBookPageContent() {
                             {pdfSettings.authorName && (
                               <p className="text-xl text-gray-600">by {pdfSettings.authorName}</p>
                             )}
+                            {series && seriesVolume && (
+                              <p className="text-lg italic text-gray-600 mt-4">
+                                {formatSeriesVolumeLine(series.name, seriesVolume)}
+                              </p>
+                            )}
                             <p className="text-lg text-gray-400 mt-8">A Coloring Book</p>
                           </div>
                         </div>
@@ -3370,6 +3832,37 @@ function CreateColoringBookPageContent() {
                       />
                       <span className="text-sm">Include page numbers</span>
                     </label>
+                    <label className="flex items-center gap-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={pdfSettings.bleed}
+                        onChange={(e) => setPdfSettings({ ...pdfSettings, bleed: e.target.checked })}
+                        className="h-4 w-4 rounded"
+                      />
+                      <span className="text-sm">Add 0.125&quot; bleed (KDP)</span>
+                    </label>
+                    <label className="flex items-center gap-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={pdfSettings.vectorPages}
+                        onChange={(e) => setPdfSettings({ ...pdfSettings, vectorPages: e.target.checked })}
+                        className="h-4 w-4 rounded"
+                      />
+                      <span className="text-sm">Vector line art (crisp at any size, smaller PDF)</span>
+                    </label>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium mb-2">Trim Size</p>
+                    <ChipGroup>
+                      {Object.keys(TRIM_SIZES_IN).map(size => (
+                        <OptionChip
+                          key={size}
+                          label={size}
+                          selected={pdfSettings.trimSize === size}
+                          onClick={() => setPdfSettings({ ...pdfSettings, trimSize: size })}
+                        />
+                      ))}
+                    </ChipGroup>
                   </div>
                 </CardContent>
               </Card>
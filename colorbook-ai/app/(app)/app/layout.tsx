@@ -1,9 +1,12 @@
 import { AppShell } from "@/components/app/app-shell";
+import { AuthGuard } from "@/components/app/auth-guard";
 
 export default function AppLayout({ children }: { children: React.ReactNode }) {
   return (
-    <AppShell>
-      {children}
-    </AppShell>
+    <AuthGuard>
+      <AppShell>
+        {children}
+      </AppShell>
+    </AuthGuard>
   );
 }
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { AppTopbar } from "@/components/app/app-topbar";
 import { WizardStepper } from "@/components/app/wizard-stepper";
@@ -36,6 +36,7 @@ import type {
 } from "@/lib/schemas";
 import { TrendingPanel } from "@/components/app/trending-panel";
 import { ImagePreviewModal } from "@/components/app/image-preview-modal";
+import { useProjectRecord } from "@/hooks/useProjectRecord";
 import type { TrendingSuggestionResponse } from "@/app/api/ai/suggest-trending/route";
 import {
   type GenerationSpec,
@@ -133,6 +134,11 @@ export default function NewBookPage() {
   const [suggestingTrending, setSuggestingTrending] = useState(false);
   const [selectedTrendKeyword, setSelectedTrendKeyword] = useState<string | null>(null);
 
+  // Project persistence (lists the book in /app/projects)
+  const projectRecord = useProjectRecord();
+  const projectIdRef = useRef<string | null>(null);
+  const savedPagesRef = useRef<Set<number>>(new Set());
+
   // Preview modal
   const [previewPage, setPreviewPage] = useState<{ pageNumber: number; title: string; imageUrl: string } | null>(null);
 
@@ -364,6 +370,31 @@ export default function NewBookPage() {
       }));
       updateForm("prompts", promptItems);
       toast.success(`Generated ${data.pages.length} prompts!`);
+
+      if (!projectIdRef.current) {
+        projectIdRef.current = await projectRecord.createProject({
+          name: `${form.characterName}: ${form.theme}`,
+          origin: "new",
+          bookType: "storybook",
+          idea: form.theme,
+          pagesRequested: promptItems.length,
+          settings: {
+            theme: form.theme,
+            pageCount: promptItems.length,
+            trimSize: form.trimSize,
+            complexity: form.complexity,
+            lineThickness: form.lineThickness,
+            characterProfile: form.characterLock ?? undefined,
+          },
+        });
+        savedPagesRef.current = new Set();
+      }
+      if (projectIdRef.current) {
+        await projectRecord.savePrompts(
+          projectIdRef.current,
+          promptItems.map((p) => ({ pageIndex: p.pageNumber, title: p.sceneTitle, promptText: p.prompt }))
+        );
+      }
     } catch (error) {
       toast.error(error instanceof Error ? error.message : "Failed to generate prompts");
     } finally {
@@ -480,6 +511,15 @@ export default function NewBookPage() {
           },
         }));
         toast.success(`Page ${pageNumber} generated!`);
+
+        const projectId = projectIdRef.current;
+        if (projectId && await projectRecord.savePageImage(projectId, pageNumber, data.imageUrl, { prompt })) {
+          savedPagesRef.current.add(pageNumber);
+          await projectRecord.updateProject(projectId, {
+            status: savedPagesRef.current.size >= form.prompts.length ? "ready" : "generating",
+            imagesGeneratedCount: savedPagesRef.current.size,
+          });
+        }
       } else if (data.failedPrintSafe) {
         setForm((prev) => ({
           ...prev,
@@ -18,6 +18,8 @@ import {
   Download,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useSessionUser } from "@/hooks/useSessionUser";
+import { getProjectHref } from "@/components/app/project-card";
 
 interface DBProject {
   id: string;
@@ -29,25 +31,21 @@ interface DBProject {
   status: "draft" | "generating" | "ready" | "failed" | "expired" | "partial";
   created_at: string;
   updated_at: string;
+  origin?: string;
   canResume?: boolean;
 }
 
 export default function DashboardPage() {
-  const [userId, setUserId] = useState<string>("");
+  const { userId } = useSessionUser();
   const [projects, setProjects] = useState<DBProject[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    let id = localStorage.getItem("colweb_user_id");
-    if (!id) {
-      id = crypto.randomUUID();
-      localStorage.setItem("colweb_user_id", id);
-    }
-    setUserId(id);
+    if (!userId) return;
 
     const fetchProjects = async () => {
       try {
-        const response = await fetch(`/api/projects?userId=${id}`);
+        const response = await fetch("/api/projects");
         const data = await response.json();
         if (data.success && data.projects) {
           setProjects(data.projects);
@@ -60,7 +58,7 @@ export default function DashboardPage() {
     };
 
     fetchProjects();
-  }, []);
+  }, [userId]);
 
   const recentProjects = projects.slice(0, 6);
   const stats = {
@@ -263,9 +261,9 @@ function ProjectRow({
     expired: "text-muted-foreground",
   }[project.status] || "text-muted-foreground";
 
-  const href = project.status === "ready"
+  const href = project.status === "ready" && project.origin !== "style_clone"
     ? `/app/projects/${project.id}`
-    : `/app/create?projectId=${project.id}`;
+    : getProjectHref(project.id, project.origin);
 
   return (
     <Link href={href} className="group block">
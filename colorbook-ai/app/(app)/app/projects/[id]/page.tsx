@@ -8,6 +8,7 @@ import { StatusPill } from "@/components/app/status-pill";
 import { ProgressBar } from "@/components/app/progress-bar";
 import { PageTable } from "@/components/app/page-table";
 import { PromptEditor } from "@/components/app/prompt-editor";
+import { ProjectSpendCard } from "@/components/app/project-spend-card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
@@ -104,10 +105,11 @@ export default function ProjectDetailPage({ params }: Props) {
 
           {/* Tabs */}
           <Tabs defaultValue="pages" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-4 rounded-xl bg-muted p-1">
+            <TabsList className="grid w-full grid-cols-5 rounded-xl bg-muted p-1">
               <TabsTrigger value="pages" className="rounded-lg">Pages</TabsTrigger>
               <TabsTrigger value="prompts" className="rounded-lg">Prompts</TabsTrigger>
               <TabsTrigger value="export" className="rounded-lg">Export</TabsTrigger>
+              <TabsTrigger value="spend" className="rounded-lg">Spend</TabsTrigger>
               <TabsTrigger value="settings" className="rounded-lg">Settings</TabsTrigger>
             </TabsList>
 
@@ -168,6 +170,11 @@ export default function ProjectDetailPage({ params }: Props) {
               </Card>
             </TabsContent>
 
+            {/* Spend Tab */}
+            <TabsContent value="spend" className="space-y-4">
+              <ProjectSpendCard projectId={id} />
+            </TabsContent>
+
             {/* Settings Tab */}
             <TabsContent value="settings" className="space-y-4">
               <Card className="border-border/50 bg-card/60">
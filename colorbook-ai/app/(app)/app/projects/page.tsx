@@ -1,11 +1,11 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { useEffect, useState, useMemo } from "react";
 import Link from "next/link";
 import { AppTopbar } from "@/components/app/app-topbar";
 import { PageHeader } from "@/components/app/page-header";
 import { SectionCard } from "@/components/app/section-card";
-import { ProjectCard } from "@/components/app/project-card";
+import { ProjectCard, type DBProject } from "@/components/app/project-card";
 import { EmptyState } from "@/components/app/empty-state";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -17,29 +17,68 @@ import {
   DropdownMenuRadioItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { mockProjects } from "@/lib/mock-data";
-import type { ProjectStatus } from "@/lib/mock-data";
+import { useSessionUser } from "@/hooks/useSessionUser";
+import type { Project, ProjectStatus } from "@/types/database";
 import { Search, Filter, SortAsc, FolderOpen, Plus, LayoutGrid, List } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 type SortOption = "newest" | "oldest" | "updated";
 type ViewMode = "grid" | "list";
 
+type ProjectListItem = Project & { canResume?: boolean };
+
+function toCardProject(project: ProjectListItem): DBProject {
+  return {
+    id: project.id,
+    name: project.name,
+    type: project.project_type === "quote_book" ? "quote" : "coloring",
+    status: project.status,
+    pageCount: project.pages_requested,
+    createdAt: project.created_at,
+    updatedAt: project.updated_at,
+    canResume: project.canResume,
+    promptsCount: project.prompts_generated_count,
+    imagesCount: project.images_generated_count,
+    origin: project.origin,
+  };
+}
+
 export default function ProjectsPage() {
+  const { userId } = useSessionUser();
+  const [allProjects, setAllProjects] = useState<ProjectListItem[]>([]);
   const [search, setSearch] = useState("");
   const [statusFilter, setStatusFilter] = useState<ProjectStatus | "all">("all");
   const [sort, setSort] = useState<SortOption>("updated");
   const [viewMode, setViewMode] = useState<ViewMode>("grid");
 
+  // Every flow (/app/create, /app/new, /app/batch, /app/bulk, ...) registers its projects here
+  useEffect(() => {
+    if (!userId) return;
+
+    const fetchProjects = async () => {
+      try {
+        const response = await fetch("/api/projects");
+        const data = await response.json();
+        if (data.success && data.projects) {
+          setAllProjects(data.projects);
+        }
+      } catch (error) {
+        console.error("Failed to fetch projects:", error);
+      }
+    };
+
+    fetchProjects();
+  }, [userId]);
+
   const filteredProjects = useMemo(() => {
-    let projects = [...mockProjects];
+    let projects = [...allProjects];
 
     // Search
     if (search) {
       projects = projects.filter(
         (p) =>
-          p.title.toLowerCase().includes(search.toLowerCase()) ||
-          p.theme.toLowerCase().includes(search.toLowerCase())
+          p.name.toLowerCase().includes(search.toLowerCase()) ||
+          (p.idea ?? "").toLowerCase().includes(search.toLowerCase())
       );
     }
 
@@ -52,26 +91,26 @@ export default function ProjectsPage() {
     projects.sort((a, b) => {
       switch (sort) {
         case "newest":
-          return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+          return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
         case "oldest":
-          return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+          return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
         case "updated":
         default:
-          return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+          return new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime();
       }
     });
 
     return projects;
-  }, [search, statusFilter, sort]);
+  }, [allProjects, search, statusFilter, sort]);
 
   // Stats
   const stats = useMemo(() => ({
-    total: mockProjects.length,
-    draft: mockProjects.filter(p => p.status === "draft").length,
-    generating: mockProjects.filter(p => p.status === "generating").length,
-    ready: mockProjects.filter(p => p.status === "ready").length,
-    exported: mockProjects.filter(p => p.status === "exported").length,
-  }), []);
+    total: allProjects.length,
+    draft: allProjects.filter(p => p.status === "draft").length,
+    generating: allProjects.filter(p => p.status === "generating").length,
+    ready: allProjects.filter(p => p.status === "ready").length,
+    partial: allProjects.filter(p => p.status === "partial").length,
+  }), [allProjects]);
 
   return (
     <>
@@ -81,7 +120,7 @@ export default function ProjectsPage() {
         <div className="mx-auto max-w-6xl space-y-6">
           <PageHeader
             title="My Projects"
-            subtitle={`${mockProjects.length} coloring books in your library`}
+            subtitle={`${allProjects.length} coloring books in your library`}
             icon={FolderOpen}
             actions={
               <Button asChild>
@@ -124,11 +163,11 @@ export default function ProjectsPage() {
               Ready ({stats.ready})
             </Badge>
             <Badge 
-              variant={statusFilter === "exported" ? "default" : "outline"}
+              variant={statusFilter === "partial" ? "default" : "outline"}
               className="cursor-pointer"
-              onClick={() => setStatusFilter("exported")}
+              onClick={() => setStatusFilter("partial")}
             >
-              Exported ({stats.exported})
+              Incomplete ({stats.partial})
             </Badge>
           </div>
 
@@ -205,7 +244,7 @@ export default function ProjectsPage() {
               viewMode === "grid" ? "sm:grid-cols-2 lg:grid-cols-3" : "grid-cols-1"
             )}>
               {filteredProjects.map((project) => (
-                <ProjectCard key={project.id} project={project} />
+                <ProjectCard key={project.id} project={toCardProject(project)} />
               ))}
             </div>
           )}
@@ -1,6 +1,7 @@
 "use client";
 
-import { useState, useCallback, useRef } from "react";
+import { useState, useCallback, useRef, useEffect, Suspense } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import { PageContainer } from "@/components/app/app-shell";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -56,12 +57,19 @@ import {
 import { toast } from "sonner";
 import { ExportPDFModal } from "@/components/app/export-pdf-modal";
 import { QuotePageViewer } from "@/components/app/quote-page-viewer";
+import { StyleLibraryPicker } from "@/components/app/style-library-picker";
 import { 
   type JobProgress,
   type PageStage,
   updatePageStage,
 } from "@/components/app/generation-progress";
+import { useProjectRecord } from "@/hooks/useProjectRecord";
 import { cn } from "@/lib/utils";
+import type { AppliedLibraryStyle } from "@/lib/styleLibrary";
+import { QUOTE_FONTS } from "@/lib/quotePagePromptEnforcer";
+import type { QuoteBookSettings, QuotePageConfig, TextRendering } from "@/lib/quotePagePromptEnforcer";
+import type { Project, ProjectPrompt } from "@/types/database";
+import type { AssetWithUrl } from "@/types/assets";
 
 // Types
 type PageStatus = "pending" | "generating" | "done" | "failed";
@@ -88,6 +96,8 @@ interface PageState {
   topic?: QuoteTopic;
   keywords?: string[];
   motifPack?: string[];
+  // Config the prompt was built from - saved with the page in the project
+  config?: QuotePageConfig;
   appliedSettings?: {
     decorationLevel: DecorationLevel;
     typographyStyle: TypographyStyle;
@@ -160,9 +170,70 @@ const THEME_ICONS: Record<DecorationTheme, React.ReactNode> = {
   mixed: <Layers className="h-4 w-4" />,
 };
 
-export default function QuoteBookPage() {
+async function fetchImageBase64(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error("Failed to load saved page");
+  }
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(",")[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Rebuild a page from its saved prompt and QuotePageConfig
+ */
+function toSavedPageState(prompt: ProjectPrompt, imageBase64?: string): PageState {
+  const config = prompt.quote_config;
+  return {
+    page: prompt.page_index,
+    quote: config?.quote ?? "",
+    title: prompt.title || `Page ${prompt.page_index}`,
+    prompt: prompt.prompt_text,
+    decorationTheme: config?.decorationTheme ?? "stars",
+    decorationLevel: config?.decorationLevel ?? "minimal_icons",
+    iconSet: config?.iconSet,
+    topic: config?.topic,
+    keywords: config?.keywords,
+    motifPack: config?.motifPack,
+    config: config ?? undefined,
+    appliedSettings: config ? {
+      decorationLevel: config.decorationLevel,
+      typographyStyle: config.typographyStyle,
+      iconSet: config.iconSet,
+      decorationTheme: config.decorationLevel === "text_only" ? undefined : config.decorationTheme,
+      density: config.density,
+      frameStyle: config.frameStyle,
+    } : undefined,
+    status: imageBase64 ? "done" : "pending",
+    imageBase64,
+    enhanceStatus: "none",
+    finalLetterStatus: "none",
+    activeVersion: "original",
+  };
+}
+
+function QuoteBookPageContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const resumeProjectId = searchParams?.get("projectId");
+
   // ==================== State ====================
   
+  // Persisted project (lists in /app/projects, resumable via ?projectId=)
+  const projectRecord = useProjectRecord();
+  const [projectId, setProjectId] = useState<string | null>(null);
+  // Last ?projectId= loaded (or failed to load), so a new project doesn't reload it
+  const [handledProjectId, setHandledProjectId] = useState<string | null>(null);
+  const loadingProject = !!resumeProjectId && resumeProjectId !== handledProjectId;
+  const savedPagesRef = useRef<Set<number>>(new Set());
+  const [projectTitle, setProjectTitle] = useState("");
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+
   // Step 1: Quote input
   const [quotesText, setQuotesText] = useState("");
   const [generatingQuotes, setGeneratingQuotes] = useState(false);
@@ -182,8 +253,11 @@ export default function QuoteBookPage() {
   const [decorationTheme, setDecorationTheme] = useState<DecorationTheme>("floral");
   const [typographyStyle, setTypographyStyle] = useState<TypographyStyle>("bubble");
   const [density, setDensity] = useState<DecorationDensity>("medium");
+  const [textRendering, setTextRendering] = useState<TextRendering>("ai");
+  const [fontId, setFontId] = useState<string | undefined>(undefined);
   const [pageCount, setPageCount] = useState(10);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [libraryStyle, setLibraryStyle] = useState<AppliedLibraryStyle | null>(null);
 
   // Step 3: Generated prompts and images
   const [pages, setPages] = useState<PageState[]>([]);
@@ -232,6 +306,144 @@ export default function QuoteBookPage() {
     }
   };
 
+  // ==================== Persistence ====================
+
+  useEffect(() => {
+    if (!resumeProjectId || resumeProjectId === handledProjectId) return;
+
+    const loadProject = async () => {
+      try {
+        const projectsResponse = await fetch("/api/projects");
+        const projectsData = await projectsResponse.json();
+        if (!projectsResponse.ok) {
+          throw new Error(projectsData.error || "Failed to load project");
+        }
+
+        const project = (projectsData.projects as Project[]).find((p) => p.id === resumeProjectId);
+        if (!project) {
+          throw new Error("Project not found");
+        }
+
+        const [promptsResponse, assetsResponse] = await Promise.all([
+          fetch(`/api/projects/${project.id}/prompts`),
+          fetch(`/api/projects/${project.id}/assets?type=page_image`),
+        ]);
+        const promptsData = await promptsResponse.json();
+        const assetsData = await assetsResponse.json();
+        if (!promptsResponse.ok) {
+          throw new Error(promptsData.error || "Failed to load pages");
+        }
+
+        // Saved pages come back as base64 so enhance, process and ZIP work as before
+        const images = new Map<number, string>();
+        for (const asset of (assetsResponse.ok ? assetsData.assets : []) as AssetWithUrl[]) {
+          if (!asset.page_number || !asset.signedUrl) continue;
+          try {
+            images.set(asset.page_number, await fetchImageBase64(asset.signedUrl));
+          } catch (err) {
+            console.error(`[quote-book] Failed to load page ${asset.page_number}:`, err);
+          }
+        }
+
+        const quoteBook = project.settings.quoteBook;
+        if (quoteBook) {
+          setBookType(quoteBook.bookType);
+          setDecorationLevel(quoteBook.decorationLevel);
+          setIconSet(quoteBook.iconSet);
+          setDecorationTheme(quoteBook.decorationTheme);
+          setTypographyStyle(quoteBook.typographyStyle);
+          setDensity(quoteBook.density);
+          setTextRendering(quoteBook.textRendering ?? "ai");
+          setFontId(quoteBook.fontId);
+          setQuotesText(quoteBook.quotes.join("\n"));
+          setUserQuotePrompt(quoteBook.quotePrompt ?? "");
+        }
+        if (project.pages_requested > 0) setPageCount(project.pages_requested);
+        setLibraryStyle(project.settings.styleLibrary ?? null);
+        setProjectTitle(project.settings.bookTitle || project.name);
+
+        const savedPages = (promptsData.prompts as ProjectPrompt[]).map((p) => toSavedPageState(p, images.get(p.page_index)));
+        setPages(savedPages);
+        savedPagesRef.current = new Set(savedPages.filter((p) => p.imageBase64).map((p) => p.page));
+        setProjectId(project.id);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Failed to load project");
+      } finally {
+        setHandledProjectId(resumeProjectId);
+      }
+    };
+
+    loadProject();
+  }, [resumeProjectId, handledProjectId]);
+
+  /**
+   * Save the book and its pages' quote configs as a quote_book project.
+   * New prompts for a book that already has saved pages start a new project
+   * so its PDF never mixes in pages from the old prompts.
+   */
+  const recordPrompts = async (pageStates: PageState[], quotes: string[]) => {
+    const name = userQuotePrompt.trim().slice(0, 60) || "Quote Coloring Book";
+    const quoteBook: QuoteBookSettings = {
+      bookType,
+      decorationLevel,
+      iconSet,
+      decorationTheme,
+      typographyStyle,
+      density,
+      quotes,
+      quotePrompt: userQuotePrompt.trim() || undefined,
+      textRendering,
+      fontId,
+    };
+    const settings = {
+      bookTitle: name,
+      pageCount: pageStates.length,
+      styleLibrary: libraryStyle ?? undefined,
+      quoteBook,
+    };
+
+    let savedProjectId = savedPagesRef.current.size === 0 ? projectId : null;
+    if (savedProjectId) {
+      await projectRecord.updateProject(savedProjectId, { pagesRequested: pageStates.length, settings });
+    } else {
+      savedProjectId = await projectRecord.createProject({
+        name,
+        origin: "quote_book",
+        projectType: "quote_book",
+        idea: userQuotePrompt.trim() || undefined,
+        pagesRequested: pageStates.length,
+        settings,
+      });
+      if (!savedProjectId) return;
+
+      savedPagesRef.current = new Set();
+      setProjectId(savedProjectId);
+      setHandledProjectId(savedProjectId);
+      router.replace(`/app/quote-book?projectId=${savedProjectId}`);
+    }
+    setProjectTitle(name);
+
+    await projectRecord.savePrompts(
+      savedProjectId,
+      pageStates.map((p) => ({ pageIndex: p.page, title: p.title, promptText: p.prompt, quoteConfig: p.config }))
+    );
+  };
+
+  /**
+   * Store a generated page in the project and update its progress
+   */
+  const recordPage = async (pageNumber: number, imageBase64: string, prompt: string) => {
+    if (!projectId) return;
+
+    if (await projectRecord.savePageImage(projectId, pageNumber, imageBase64, { prompt })) {
+      savedPagesRef.current.add(pageNumber);
+      await projectRecord.updateProject(projectId, {
+        status: savedPagesRef.current.size >= pages.length ? "ready" : "generating",
+        imagesGeneratedCount: savedPagesRef.current.size,
+      });
+    }
+  };
+
   // ==================== Step 1: Quote Generation ====================
 
   const generateQuotes = async () => {
@@ -305,6 +517,8 @@ export default function QuoteBookPage() {
           typographyStyle,
           density,
           frameStyle: decorationLevel === "border_only" ? "thin" : "none",
+          textRendering,
+          fontId,
           variationCount: bookType === "same_quote_variations" ? pageCount : undefined,
         }),
       });
@@ -326,6 +540,7 @@ export default function QuoteBookPage() {
         topic?: QuoteTopic;
         keywords?: string[];
         motifPack?: string[];
+        config?: QuotePageConfig;
         appliedSettings?: {
           decorationLevel: DecorationLevel;
           typographyStyle: TypographyStyle;
@@ -343,6 +558,7 @@ export default function QuoteBookPage() {
       }));
 
       setPages(pageStates);
+      await recordPrompts(pageStates, quotes);
       
       if (data.warnings?.length > 0) {
         toast.warning(`${data.warnings.length} quotes may be too long`);
@@ -389,6 +605,61 @@ export default function QuoteBookPage() {
     return "queued";
   };
 
+  /**
+   * Generate a page's image. Vector-lettered pages get their quote typeset
+   * onto the decoration afterwards; text-only ones skip the image model.
+   */
+  const generatePageImage = async (pageItem: PageState, size: string) => {
+    const config = pageItem.config;
+    const generate = async () => {
+      const response = await fetch("/api/batch/generate-one", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          page: pageItem.page,
+          prompt: pageItem.prompt,
+          projectId: projectId ?? undefined,
+          size,
+          validateOutline: true,
+          isQuotePage: true, // Signal this is a quote page - NO CHARACTERS
+          // Spelling check for model-drawn lettering (vector decorations have no text)
+          quote: config?.textRendering === "vector" ? undefined : pageItem.quote || undefined,
+          styleId: libraryStyle?.styleId,
+          styleVersion: libraryStyle?.version,
+        }),
+      });
+
+      const data = await safeJsonParse(response);
+      return { ok: response.ok && data.status === "done" && !!data.imageBase64, data };
+    };
+
+    if (config?.textRendering !== "vector") {
+      return generate();
+    }
+
+    let decoration: string | undefined;
+    if (config.decorationLevel !== "text_only") {
+      const generated = await generate();
+      if (!generated.ok) return generated;
+      decoration = generated.data.imageBase64;
+    }
+
+    const response = await fetch("/api/quote/typeset", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        quote: config.quote,
+        typographyStyle: config.typographyStyle,
+        decorationLevel: config.decorationLevel,
+        fontId: config.fontId,
+        imageBase64: decoration,
+      }),
+    });
+
+    const data = await safeJsonParse(response);
+    return { ok: response.ok && !!data.imageBase64, data };
+  };
+
   const generatePages = async (pagesToGenerate: PageState[]) => {
     setIsGenerating(true);
     let successCount = 0;
@@ -432,29 +703,17 @@ export default function QuoteBookPage() {
           const pageStartTime = Date.now();
           setCurrentGeneratingPage(pageItem.page);
           
-          const response = await fetch("/api/batch/generate-one", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              page: pageItem.page,
-              prompt: pageItem.prompt,
-              size: "1024x1792",
-              validateOutline: true,
-              isQuotePage: true, // Signal this is a quote page - NO CHARACTERS
-            }),
-          });
-
-          const data = await safeJsonParse(response);
+          const { ok, data } = await generatePageImage(pageItem, "1024x1792");
           const duration = (Date.now() - pageStartTime) / 1000;
-          return { pageItem, response, data, duration };
+          return { pageItem, ok, data, duration };
         })
       );
 
       for (const result of results) {
         if (result.status === "fulfilled") {
-          const { pageItem, response, data, duration } = result.value;
+          const { pageItem, ok, data, duration } = result.value;
           
-          if (response.ok && data.status === "done" && data.imageBase64) {
+          if (ok) {
             setPages(prev => prev.map(p =>
               p.page === pageItem.page
                 ? { ...p, status: "done" as PageStatus, imageBase64: data.imageBase64 }
@@ -462,6 +721,7 @@ export default function QuoteBookPage() {
             ));
             
             setJobProgress(prev => updatePageStage(prev, pageItem.page, "generated", duration));
+            await recordPage(pageItem.page, data.imageBase64, pageItem.prompt);
             successCount++;
           } else {
             setPages(prev => prev.map(p =>
@@ -509,26 +769,15 @@ export default function QuoteBookPage() {
     setCurrentGeneratingPage(pageNumber);
 
     try {
-      const response = await fetch("/api/batch/generate-one", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          page: page.page,
-          prompt: page.prompt,
-          size: "1024x1536",
-          validateOutline: true,
-          isQuotePage: true, // Signal this is a quote page - NO CHARACTERS
-        }),
-      });
-
-      const data = await safeJsonParse(response);
+      const { ok, data } = await generatePageImage(page, "1024x1536");
 
-      if (response.ok && data.status === "done" && data.imageBase64) {
+      if (ok) {
         setPages(prev => prev.map(p =>
           p.page === pageNumber
             ? { ...p, status: "done" as PageStatus, imageBase64: data.imageBase64 }
             : p
         ));
+        await recordPage(pageNumber, data.imageBase64, page.prompt);
         toast.success(`Page ${pageNumber} generated!`);
       } else {
         setPages(prev => prev.map(p =>
@@ -717,6 +966,7 @@ export default function QuoteBookPage() {
             enhance: true,
             enhanceScale: 2,
             marginPercent: 3,
+            projectId: projectId ?? undefined,
             pageId: String(page.page),
           }),
         });
@@ -911,6 +1161,44 @@ export default function QuoteBookPage() {
     }
   };
 
+  // ==================== PDF Export ====================
+
+  /**
+   * Export a saved quote book from its stored pages with the same server-side
+   * build as coloring books; unsaved books use the in-browser export modal
+   */
+  const exportProjectPdf = async () => {
+    if (!projectId) {
+      setShowExportModal(true);
+      return;
+    }
+
+    setIsExportingPdf(true);
+    try {
+      const response = await fetch("/api/export/build-pdf", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          projectId,
+          bookTitle: projectTitle || "My Quote Coloring Book",
+          includeBelongsToPage: false,
+        }),
+      });
+
+      const data = await safeJsonParse(response);
+      if (!response.ok || !data.signedUrl) {
+        throw new Error(data.error || "Failed to generate PDF");
+      }
+
+      window.open(data.signedUrl, "_blank");
+      toast.success(`PDF generated! (${data.totalPages} pages)`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to generate PDF");
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
   // ==================== Page Viewer ====================
 
   const openPageViewer = (pageNumber: number) => {
@@ -946,12 +1234,18 @@ export default function QuoteBookPage() {
           {/* Page Header */}
           <PageHeader
             title="Quote Coloring Book"
-            subtitle="Transform inspiring quotes into beautiful typography coloring pages"
+            subtitle={loadingProject
+              ? "Loading your saved quote book..."
+              : "Transform inspiring quotes into beautiful typography coloring pages"}
             icon={Quote}
             actions={
               doneCount > 0 && (
-                <Button onClick={() => setShowExportModal(true)}>
-                  <FileDown className="mr-2 h-4 w-4" />
+                <Button onClick={exportProjectPdf} disabled={isExportingPdf}>
+                  {isExportingPdf ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <FileDown className="mr-2 h-4 w-4" />
+                  )}
                   Export PDF
                 </Button>
               )
@@ -1215,6 +1509,56 @@ export default function QuoteBookPage() {
                 </div>
               </SubSection>
 
+              {/* Lettering */}
+              <SubSection
+                title="Lettering"
+                description={textRendering === "vector"
+                  ? "The quote is typeset in outline letters with a real font - spelling is always exact"
+                  : "The AI draws the quote as part of the artwork"}
+              >
+                <div className="flex flex-wrap gap-2">
+                  {([
+                    { value: "ai", label: "AI-drawn" },
+                    { value: "vector", label: "Typeset (exact spelling)" },
+                  ] as { value: TextRendering; label: string }[]).map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => setTextRendering(option.value)}
+                      className={cn(
+                        "px-4 py-2.5 rounded-xl border-2 transition-all",
+                        textRendering === option.value
+                          ? "border-primary bg-primary/5 text-primary shadow-sm"
+                          : "border-border hover:border-primary/40"
+                      )}
+                    >
+                      <span className="text-sm font-medium">{option.label}</span>
+                    </button>
+                  ))}
+                </div>
+                {textRendering === "vector" && (
+                  <div className="space-y-1.5 mt-3">
+                    <label className="text-xs font-medium text-muted-foreground">Font</label>
+                    <select
+                      value={fontId ?? ""}
+                      onChange={(e) => setFontId(e.target.value || undefined)}
+                      className="w-full h-10 rounded-xl border border-input bg-background px-3 text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary transition-colors"
+                    >
+                      <option value="">Default for {typographyStyle} style</option>
+                      {QUOTE_FONTS
+                        .filter((font) => typographyStyle === "mixed" || font.typographyStyle === typographyStyle)
+                        .map((font) => (
+                          <option key={font.id} value={font.id}>{font.name}</option>
+                        ))}
+                    </select>
+                  </div>
+                )}
+              </SubSection>
+
+              {/* Style Library */}
+              <SubSection title="Saved Style" description="Apply a style from your library to every page">
+                <StyleLibraryPicker value={libraryStyle} onChange={setLibraryStyle} disabled={isGenerating} />
+              </SubSection>
+
               {/* Advanced Settings Toggle */}
               <button
                 onClick={() => setShowAdvanced(!showAdvanced)}
@@ -1695,3 +2039,19 @@ export default function QuoteBookPage() {
     </main>
   );
 }
+
+// Wrapper component with Suspense for useSearchParams
+export default function QuoteBookPage() {
+  return (
+    <Suspense fallback={
+      <main className="flex-1 pt-16 lg:pt-0">
+        <div className="flex flex-col items-center justify-center min-h-[60vh] space-y-4">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </main>
+    }>
+      <QuoteBookPageContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,522 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { AppTopbar } from "@/components/app/app-topbar";
+import { PageHeader } from "@/components/app/page-header";
+import { EmptyState } from "@/components/app/empty-state";
+import { StyleLibraryPicker } from "@/components/app/style-library-picker";
+import { CharacterLibraryPicker } from "@/components/app/character-library-picker";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useSessionUser } from "@/hooks/useSessionUser";
+import { toAppliedLibraryCharacter, type AppliedLibraryCharacter } from "@/lib/characterLibrary";
+import type { AppliedLibraryStyle } from "@/lib/styleLibrary";
+import {
+  DEFAULT_SERIES_FRONT_MATTER,
+  formatSeriesVolumeLine,
+  type FrontMatterVariant,
+  type Series,
+  type SeriesFrontMatterTemplate,
+  type SeriesWithVolumes,
+} from "@/lib/series";
+import type { Project } from "@/types/database";
+import { Library, Loader2, Plus, Settings2, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+
+interface SeriesForm {
+  name: string;
+  description: string;
+  authorName: string;
+  copyrightText: string;
+  frontMatter: SeriesFrontMatterTemplate;
+  styleLibrary: AppliedLibraryStyle | null;
+  characterLibrary: AppliedLibraryCharacter | null;
+}
+
+const EMPTY_FORM: SeriesForm = {
+  name: "",
+  description: "",
+  authorName: "",
+  copyrightText: "",
+  frontMatter: DEFAULT_SERIES_FRONT_MATTER,
+  styleLibrary: null,
+  characterLibrary: null,
+};
+
+const VARIANTS: { value: FrontMatterVariant; label: string }[] = [
+  { value: "minimal", label: "Minimal" },
+  { value: "classic", label: "Classic" },
+  { value: "bordered", label: "Bordered" },
+];
+
+export default function SeriesPage() {
+  const { userId } = useSessionUser();
+  const [seriesList, setSeriesList] = useState<Series[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [deleteTarget, setDeleteTarget] = useState<Series | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  // Create / manage dialog - `managed` is null while creating
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [managed, setManaged] = useState<SeriesWithVolumes | null>(null);
+  const [form, setForm] = useState<SeriesForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectToAdd, setProjectToAdd] = useState("");
+  const [isUpdatingVolumes, setIsUpdatingVolumes] = useState(false);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const fetchSeries = async () => {
+      try {
+        const response = await fetch("/api/series");
+        const data = await response.json();
+        if (data.success && data.series) {
+          setSeriesList(data.series);
+        }
+      } catch (error) {
+        console.error("Failed to fetch series:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSeries();
+  }, [userId]);
+
+  const openCreate = () => {
+    setManaged(null);
+    setForm(EMPTY_FORM);
+    setEditorOpen(true);
+  };
+
+  const openManage = async (series: Series) => {
+    try {
+      const [seriesResponse, projectsResponse] = await Promise.all([
+        fetch(`/api/series/${series.id}`),
+        fetch("/api/projects"),
+      ]);
+      const data = await seriesResponse.json();
+      if (!seriesResponse.ok) {
+        throw new Error(data.error || "Failed to load series");
+      }
+      const projectsData = await projectsResponse.json();
+
+      setManaged(data.series);
+      setForm({
+        name: data.series.name,
+        description: data.series.description ?? "",
+        authorName: data.series.authorName ?? "",
+        copyrightText: data.series.copyrightText ?? "",
+        frontMatter: data.series.frontMatter,
+        styleLibrary: data.series.styleLibrary,
+        characterLibrary: data.series.characterLibrary,
+      });
+      setProjects(projectsData.projects ?? []);
+      setProjectToAdd("");
+      setEditorOpen(true);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load series");
+    }
+  };
+
+  const updateForm = (patch: Partial<SeriesForm>) => setForm((prev) => ({ ...prev, ...patch }));
+
+  const updateFrontMatter = (patch: Partial<SeriesFrontMatterTemplate>) =>
+    setForm((prev) => ({ ...prev, frontMatter: { ...prev.frontMatter, ...patch } }));
+
+  const saveSeries = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(managed ? `/api/series/${managed.id}` : "/api/series", {
+        method: managed ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name.trim(),
+          description: form.description.trim() || (managed ? null : undefined),
+          authorName: form.authorName.trim() || (managed ? null : undefined),
+          copyrightText: form.copyrightText.trim() || (managed ? null : undefined),
+          frontMatter: form.frontMatter,
+          styleLibrary: form.styleLibrary,
+          characterLibrary: form.characterLibrary,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save series");
+      }
+
+      const saved = data.series as Series;
+      if (managed) {
+        setSeriesList((prev) => prev.map((s) => (s.id === saved.id ? saved : s)));
+        setManaged(data.series);
+        toast.success("Series updated");
+      } else {
+        setSeriesList((prev) => [saved, ...prev]);
+        setEditorOpen(false);
+        toast.success(`Created "${saved.name}"`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save series");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const refreshManaged = async (seriesId: string) => {
+    const response = await fetch(`/api/series/${seriesId}`);
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to load series");
+    }
+    setManaged(data.series);
+    setSeriesList((prev) => prev.map((s) => (s.id === seriesId ? data.series : s)));
+  };
+
+  const changeVolume = async (projectId: string, method: "POST" | "DELETE") => {
+    if (!managed) return;
+
+    setIsUpdatingVolumes(true);
+    try {
+      const response = await fetch(`/api/series/${managed.id}/volumes`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ projectId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update volumes");
+      }
+      await refreshManaged(managed.id);
+      setProjectToAdd("");
+      toast.success(method === "POST" ? `Added as Book ${data.volume}` : "Removed from series");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update volumes");
+    } finally {
+      setIsUpdatingVolumes(false);
+    }
+  };
+
+  const deleteSeries = async (series: Series) => {
+    setIsDeleting(true);
+    try {
+      const response = await fetch(`/api/series/${series.id}`, { method: "DELETE" });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to delete series");
+      }
+      setSeriesList((prev) => prev.filter((s) => s.id !== series.id));
+      toast.success(`Deleted "${series.name}"`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete series");
+    } finally {
+      setIsDeleting(false);
+      setDeleteTarget(null);
+    }
+  };
+
+  const volumeIds = new Set(managed?.volumes.map((v) => v.projectId) ?? []);
+  const addableProjects = projects.filter((p) => !volumeIds.has(p.id));
+
+  return (
+    <>
+      <AppTopbar />
+
+      <main className="p-4 lg:p-6">
+        <div className="mx-auto max-w-6xl space-y-6">
+          <PageHeader
+            title="Series"
+            subtitle="Group books into numbered volumes that share a style, character and front matter"
+            icon={Library}
+            actions={
+              <Button onClick={openCreate}>
+                <Plus className="mr-2 h-4 w-4" />
+                New Series
+              </Button>
+            }
+          />
+
+          {loading ? (
+            <div className="flex items-center justify-center p-16">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : seriesList.length === 0 ? (
+            <EmptyState
+              icon={Library}
+              title="No series yet"
+              description="Create a series, then pick it in Create so each new book becomes its next volume."
+              actionLabel="New Series"
+              onAction={openCreate}
+            />
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {seriesList.map((series) => (
+                <Card key={series.id} className="border-border/50">
+                  <CardContent className="p-4 space-y-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <h3 className="font-semibold truncate">{series.name}</h3>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {series.authorName ? `by ${series.authorName}` : "No author set"}
+                        </p>
+                      </div>
+                      <Badge variant="secondary" className="shrink-0">
+                        {series.volumeCount} {series.volumeCount === 1 ? "volume" : "volumes"}
+                      </Badge>
+                    </div>
+
+                    {series.description && (
+                      <p className="text-sm text-muted-foreground line-clamp-2">{series.description}</p>
+                    )}
+
+                    <div className="flex flex-wrap gap-1.5">
+                      {series.styleLibrary && (
+                        <Badge variant="outline" className="text-xs">Style: {series.styleLibrary.name}</Badge>
+                      )}
+                      {series.characterLibrary && (
+                        <Badge variant="outline" className="text-xs">Character: {series.characterLibrary.name}</Badge>
+                      )}
+                      <Badge variant="outline" className="text-xs capitalize">{series.frontMatter.variant} front matter</Badge>
+                    </div>
+
+                    <div className="flex gap-2 pt-3 border-t">
+                      <Button variant="outline" size="sm" className="flex-1" onClick={() => openManage(series)}>
+                        <Settings2 className="mr-2 h-4 w-4" />
+                        Manage
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => setDeleteTarget(series)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+
+      {/* Create / manage series */}
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{managed ? managed.name : "New Series"}</DialogTitle>
+            <DialogDescription>
+              New volumes inherit these settings. Existing volumes keep the style and character they were made with.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Name</label>
+              <Input
+                value={form.name}
+                onChange={(e) => updateForm({ name: e.target.value })}
+                placeholder="e.g. Ocean Friends"
+                maxLength={100}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Description (optional)</label>
+              <Input
+                value={form.description}
+                onChange={(e) => updateForm({ description: e.target.value })}
+                maxLength={500}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Author Name</label>
+              <Input
+                value={form.authorName}
+                onChange={(e) => updateForm({ authorName: e.target.value })}
+                placeholder="Your name or pen name"
+                maxLength={100}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Copyright Text (optional)</label>
+              <Textarea
+                value={form.copyrightText}
+                onChange={(e) => updateForm({ copyrightText: e.target.value })}
+                placeholder={"No part of this book may be reproduced\nwithout permission from the publisher."}
+                className="min-h-[80px] text-sm"
+                maxLength={1000}
+              />
+              <p className="text-xs text-muted-foreground">
+                Replaces the default notice on every volume&apos;s copyright page.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Shared Style</label>
+              <StyleLibraryPicker
+                value={form.styleLibrary}
+                onChange={(styleLibrary) => updateForm({ styleLibrary })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Shared Character (storybooks)</label>
+              <CharacterLibraryPicker
+                value={form.characterLibrary}
+                onChange={(character) =>
+                  updateForm({ characterLibrary: character ? toAppliedLibraryCharacter(character) : null })
+                }
+              />
+            </div>
+
+            {/* Front-matter template */}
+            <div className="space-y-3 pt-4 border-t">
+              <h4 className="text-sm font-medium">Front Matter</h4>
+              <select
+                value={form.frontMatter.variant}
+                onChange={(e) => updateFrontMatter({ variant: e.target.value as FrontMatterVariant })}
+                className="w-full h-11 rounded-xl border border-input bg-background px-3 py-2 text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary transition-colors"
+              >
+                {VARIANTS.map((v) => (
+                  <option key={v.value} value={v.value}>
+                    {v.label} design
+                  </option>
+                ))}
+              </select>
+              <div className="flex items-center justify-between text-sm">
+                <span>Title page (&quot;{formatSeriesVolumeLine(form.name.trim() || "Series", 1)}&quot;)</span>
+                <Switch
+                  checked={form.frontMatter.includeTitlePage}
+                  onCheckedChange={(includeTitlePage) => updateFrontMatter({ includeTitlePage })}
+                />
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span>Copyright page</span>
+                <Switch
+                  checked={form.frontMatter.includeCopyrightPage}
+                  onCheckedChange={(includeCopyrightPage) => updateFrontMatter({ includeCopyrightPage })}
+                />
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span>Belongs-to page</span>
+                <Switch
+                  checked={form.frontMatter.includeBelongsToPage}
+                  onCheckedChange={(includeBelongsToPage) => updateFrontMatter({ includeBelongsToPage })}
+                />
+              </div>
+            </div>
+
+            <Button onClick={saveSeries} disabled={isSaving || !form.name.trim()}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {managed ? "Save Changes" : "Create Series"}
+            </Button>
+
+            {/* Volumes */}
+            {managed && (
+              <div className="space-y-3 pt-4 border-t">
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm font-medium">Volumes</h4>
+                  <Link href="/app/create" className="text-sm text-primary hover:underline">
+                    Start Book {(managed.volumes.at(-1)?.volume ?? 0) + 1}
+                  </Link>
+                </div>
+                {managed.volumes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No volumes yet. Pick this series in Create, or add an existing project below.
+                  </p>
+                ) : (
+                  <ul className="space-y-1">
+                    {managed.volumes.map((volume) => (
+                      <li key={volume.projectId} className="flex items-center justify-between gap-3 text-sm">
+                        <span className="text-muted-foreground shrink-0">Book {volume.volume}</span>
+                        <Link href={`/app/projects/${volume.projectId}`} className="flex-1 text-primary hover:underline truncate">
+                          {volume.name}
+                        </Link>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => changeVolume(volume.projectId, "DELETE")}
+                          disabled={isUpdatingVolumes}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {addableProjects.length > 0 && (
+                  <div className="flex gap-2">
+                    <select
+                      value={projectToAdd}
+                      onChange={(e) => setProjectToAdd(e.target.value)}
+                      className="w-full h-11 rounded-xl border border-input bg-background px-3 py-2 text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary transition-colors"
+                    >
+                      <option value="">Add an existing project...</option>
+                      {addableProjects.map((project) => (
+                        <option key={project.id} value={project.id}>
+                          {project.name}
+                        </option>
+                      ))}
+                    </select>
+                    <Button
+                      variant="outline"
+                      className="h-11 shrink-0"
+                      onClick={() => changeVolume(projectToAdd, "POST")}
+                      disabled={!projectToAdd || isUpdatingVolumes}
+                    >
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <Dialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete series?</DialogTitle>
+            <DialogDescription>
+              &quot;{deleteTarget?.name}&quot; will be removed. Its volumes are kept as standalone projects.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleteTarget && deleteSeries(deleteTarget)}
+              disabled={isDeleting}
+            >
+              {isDeleting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
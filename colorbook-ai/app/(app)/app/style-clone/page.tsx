@@ -1,6 +1,7 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, Suspense } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import { PageContainer } from "@/components/app/app-shell";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -47,7 +48,14 @@ import {
 } from "@/components/ui/dialog";
 import { toast } from "sonner";
 import { ImagePreviewModal } from "@/components/app/image-preview-modal";
+import { StyleLibraryPicker } from "@/components/app/style-library-picker";
 import { cn } from "@/lib/utils";
+import {
+  toAppliedLibraryStyle,
+  type AppliedLibraryStyle,
+  type LibraryStyle,
+  type LibraryStyleWithVersions,
+} from "@/lib/styleLibrary";
 
 // Types
 type StyleCloneStep = 1 | 2 | 3 | 4;
@@ -84,6 +92,8 @@ interface PageIdea {
   prompt?: string;
   status: "pending" | "generating" | "done" | "failed";
   imageBase64?: string;
+  /** Signed URL of a page stored in the project (resumed projects) */
+  imageUrl?: string;
   enhancedImageBase64?: string;
   debug?: {
     promptHash?: string;
@@ -95,6 +105,17 @@ interface PageIdea {
   };
 }
 
+/** A persisted project from /api/style-clone/projects/[id] */
+interface SavedStyleCloneProject {
+  id: string;
+  referenceImageBase64: string;
+  themeText: string;
+  pagesCount: number;
+  styleContract: StyleContract | null;
+  prompts: Array<{ pageIndex: number; title: string; scenePrompt: string }>;
+  images: Array<{ pageIndex: number; imageUrl?: string; passedGates: boolean }>;
+}
+
 interface GenerationDebugInfo {
   requestId?: string;
   imageModel?: string;
@@ -129,7 +150,39 @@ const EXAMPLE_IDEAS = [
   "An underwater adventure with fish",
 ];
 
-export default function StyleClonePage() {
+/**
+ * Map a style contract to the summary shown in the UI
+ */
+function toExtractedStyle(contract: StyleContract): ExtractedStyle {
+  return {
+    artStyle: contract.styleSummary,
+    lineWeight: contract.recommendedLineThickness,
+    detailLevel: contract.recommendedComplexity,
+    composition: contract.compositionRules,
+    mood: contract.styleContractText.substring(0, 100),
+    colorPalette: "black-and-white",
+    uniqueElements: contract.forbiddenList.slice(0, 5),
+    summary: contract.styleSummary,
+    styleContract: contract,
+  };
+}
+
+function getPageImageSrc(page: PageIdea): string | undefined {
+  if (page.imageBase64) return `data:image/png;base64,${page.imageBase64}`;
+  return page.imageUrl;
+}
+
+function StyleClonePageContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const resumeProjectId = searchParams?.get("projectId");
+
+  // Persisted project (lists in /app/projects, resumable via ?projectId=)
+  const [projectId, setProjectId] = useState<string | null>(null);
+  // Last ?projectId= loaded (or failed to load), so clearing the project doesn't reload it
+  const [handledProjectId, setHandledProjectId] = useState<string | null>(null);
+  const loadingProject = !!resumeProjectId && resumeProjectId !== handledProjectId;
+
   // Step state
   const [currentStep, setCurrentStep] = useState<StyleCloneStep>(1);
   
@@ -163,6 +216,86 @@ export default function StyleClonePage() {
   const [lastDebugInfo, setLastDebugInfo] = useState<GenerationDebugInfo | null>(null);
   const [styleContract, setStyleContract] = useState<StyleContract | null>(null);
 
+  // Style Library: the saved style the current contract came from or was saved as
+  const [savedLibraryStyle, setSavedLibraryStyle] = useState<AppliedLibraryStyle | null>(null);
+  // Existing style to add a version to (null saves a new style)
+  const [libraryTarget, setLibraryTarget] = useState<AppliedLibraryStyle | null>(null);
+  const [libraryStyleName, setLibraryStyleName] = useState("");
+  const [isSavingToLibrary, setIsSavingToLibrary] = useState(false);
+
+  // ==================== PERSISTENCE ====================
+
+  useEffect(() => {
+    if (!resumeProjectId || resumeProjectId === handledProjectId) return;
+
+    const loadProject = async () => {
+      try {
+        const response = await fetch(`/api/style-clone/projects/${resumeProjectId}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load project");
+        }
+
+        const project = data.project as SavedStyleCloneProject;
+        setProjectId(project.id);
+        setReferenceImage(project.referenceImageBase64 || null);
+        setReferenceFileName("Saved reference");
+        setCustomTheme(project.themeText);
+        setPageCount(project.pagesCount);
+        setStyleContract(project.styleContract);
+        setExtractedStyle(project.styleContract ? toExtractedStyle(project.styleContract) : null);
+
+        const imagesByPage = new Map(project.images.map((img) => [img.pageIndex, img]));
+        setPageIdeas(project.prompts.map((p) => {
+          const image = imagesByPage.get(p.pageIndex);
+          return {
+            id: `page-${p.pageIndex}`,
+            description: p.title,
+            prompt: p.scenePrompt,
+            status: image?.imageUrl ? "done" as const : "pending" as const,
+            imageUrl: image?.imageUrl,
+            debug: image ? { passedGates: image.passedGates } : undefined,
+          };
+        }));
+        setGenerationProgress({ current: project.images.length, total: project.prompts.length });
+        setCurrentStep(project.images.length > 0 ? 4 : project.styleContract ? 3 : 2);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Failed to load project");
+      } finally {
+        setHandledProjectId(resumeProjectId);
+      }
+    };
+
+    loadProject();
+  }, [resumeProjectId, handledProjectId]);
+
+  const toSavedPrompts = (ideas: PageIdea[]) =>
+    ideas.map((p, idx) => ({
+      pageIndex: idx + 1,
+      title: p.description || `Page ${idx + 1}`,
+      scenePrompt: p.prompt || p.description,
+    }));
+
+  /**
+   * Save style state and/or prompts to the project (best-effort)
+   */
+  const saveProject = async (update: Record<string, unknown>) => {
+    if (!projectId) return;
+    try {
+      const response = await fetch(`/api/style-clone/projects/${projectId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(update),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to save project");
+      }
+    } catch (error) {
+      console.error("[Style Clone] Failed to save project:", error);
+    }
+  };
+
   // ==================== STEP NAVIGATION ====================
   
   const canNavigateTo = useCallback((step: StyleCloneStep): boolean => {
@@ -216,6 +349,12 @@ export default function StyleClonePage() {
     setReferenceFileName("");
     setExtractedStyle(null);
     setPageIdeas([]);
+    setSavedLibraryStyle(null);
+    // A new reference starts a new project
+    if (projectId) {
+      setProjectId(null);
+      router.replace("/app/style-clone");
+    }
   };
 
   // ==================== STEP 2: EXTRACT STYLE ====================
@@ -238,26 +377,9 @@ export default function StyleClonePage() {
         throw new Error(data.error || "Failed to extract style");
       }
 
-      // Store the full style contract for debugging
-      const contract = data.styleContract as StyleContract;
-      setStyleContract(contract);
-      
-      // Map to ExtractedStyle for backward compatibility
-      const style: ExtractedStyle = {
-        artStyle: contract.styleSummary,
-        lineWeight: contract.recommendedLineThickness,
-        detailLevel: contract.recommendedComplexity,
-        composition: contract.compositionRules,
-        mood: contract.styleContractText.substring(0, 100),
-        colorPalette: "black-and-white",
-        uniqueElements: contract.forbiddenList.slice(0, 5),
-        summary: contract.styleSummary,
-        styleContract: contract,
-      };
-      
-      setExtractedStyle(style);
-      setCurrentStep(3);
+      setSavedLibraryStyle(null);
       toast.success("Style extracted! Vision model analyzed your reference image.");
+      await applyStyleContract(data.styleContract as StyleContract);
       
       // Show debug info
       if (data.debug) {
@@ -270,6 +392,117 @@ export default function StyleClonePage() {
     }
   };
 
+  /**
+   * Use a style contract (extracted or from the Style Library) and save it
+   * to the project, creating the project on first use
+   */
+  const applyStyleContract = async (contract: StyleContract) => {
+    // Store the full style contract for debugging
+    setStyleContract(contract);
+    
+    // Map to ExtractedStyle for backward compatibility
+    setExtractedStyle(toExtractedStyle(contract));
+    setCurrentStep(3);
+
+    if (projectId) {
+      await saveProject({ styleContract: contract });
+    } else {
+      const projectResponse = await fetch("/api/style-clone/projects", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          referenceImageBase64: referenceImage,
+          themeText: customTheme,
+          pagesCount: pageCount,
+          complexity: contract.recommendedComplexity,
+          lineThickness: contract.recommendedLineThickness,
+          styleContract: contract,
+        }),
+      });
+      const projectData = await projectResponse.json();
+      if (projectResponse.ok) {
+        setProjectId(projectData.project.id);
+        setHandledProjectId(projectData.project.id);
+        router.replace(`/app/style-clone?projectId=${projectData.project.id}`);
+      } else {
+        console.error("[Style Clone] Failed to create project:", projectData.error);
+      }
+    }
+  };
+
+  /**
+   * Skip extraction and reuse a style saved to the Style Library
+   */
+  const applySavedStyle = async (applied: AppliedLibraryStyle | null) => {
+    if (!applied) return;
+
+    setIsExtracting(true);
+
+    try {
+      const response = await fetch(`/api/style-library/${applied.styleId}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load saved style");
+      }
+
+      const style = data.style as LibraryStyleWithVersions;
+      const version = style.versions.find((v) => v.version === applied.version) ?? style.latest;
+      setSavedLibraryStyle(toAppliedLibraryStyle(style, version.version));
+      toast.success(`Using "${style.name}" from your Style Library`);
+      await applyStyleContract(version.styleContract);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load saved style");
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  /**
+   * Save the current contract to the Style Library, as a new style or as
+   * the next version of an existing one
+   */
+  const saveToLibrary = async () => {
+    if (!styleContract) return;
+
+    setIsSavingToLibrary(true);
+
+    try {
+      const version = {
+        styleContract,
+        referenceImageBase64: referenceImage ?? undefined,
+        sourceProjectId: projectId ?? undefined,
+      };
+      const response = libraryTarget
+        ? await fetch(`/api/style-library/${libraryTarget.styleId}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(version),
+          })
+        : await fetch("/api/style-library", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ ...version, name: libraryStyleName.trim() }),
+          });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save style");
+      }
+
+      const style = data.style as LibraryStyle;
+      setSavedLibraryStyle(toAppliedLibraryStyle(style));
+      setLibraryTarget(null);
+      setLibraryStyleName("");
+      toast.success(`Saved "${style.name}" v${style.latestVersion} to your Style Library`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save style");
+    } finally {
+      setIsSavingToLibrary(false);
+    }
+  };
+
   // ==================== STEP 3: PAGE PLANNING ====================
 
   const generatePageIdeas = async () => {
@@ -299,12 +532,14 @@ export default function StyleClonePage() {
 
       // Handle the response format from the prompts API
       const prompts = data.prompts || [];
-      setPageIdeas(prompts.map((p: { pageIndex: number; title: string; scenePrompt: string }, idx: number) => ({
+      const ideas: PageIdea[] = prompts.map((p: { pageIndex: number; title: string; scenePrompt: string }, idx: number) => ({
         id: `page-${p.pageIndex || idx + 1}`,
         description: p.title || `Scene ${idx + 1}`,
         prompt: p.scenePrompt || "",
         status: "pending" as const,
-      })));
+      }));
+      setPageIdeas(ideas);
+      await saveProject({ themeText: customTheme, pagesCount: ideas.length, prompts: toSavedPrompts(ideas) });
       
       toast.success(`Generated ${prompts.length} page ideas!`);
     } catch (error) {
@@ -344,6 +579,9 @@ export default function StyleClonePage() {
     setCurrentStep(4);
     setGenerationProgress({ current: 0, total: pageIdeas.length });
 
+    // Save edited/added pages before generating into the project
+    await saveProject({ pagesCount: pageIdeas.length, prompts: toSavedPrompts(pageIdeas) });
+
     const startTime = Date.now();
     let successCount = 0;
 
@@ -369,6 +607,7 @@ export default function StyleClonePage() {
             sizePreset: "8.5x11",
             mode: "collection",
             referenceImageBase64: referenceImage, // Include reference for conditioning info
+            projectId: projectId ?? undefined,
           }),
         });
 
@@ -449,6 +688,7 @@ export default function StyleClonePage() {
           sizePreset: "8.5x11",
           mode: "collection",
           referenceImageBase64: referenceImage,
+          projectId: projectId ?? undefined,
         }),
       });
 
@@ -503,7 +743,9 @@ export default function StyleClonePage() {
           {/* Page Header */}
           <PageHeader
             title="Style Clone"
-            subtitle="Upload a reference image and generate pages that match its unique art style"
+            subtitle={loadingProject
+              ? "Loading your saved project..."
+              : "Upload a reference image and generate pages that match its unique art style"}
             icon={Palette}
             badge="Beta"
             actions={
@@ -672,6 +914,14 @@ export default function StyleClonePage() {
                             </>
                   )}
                 </Button>
+                        <SubSection title="Or use a saved style" description="Skip extraction and reuse a style from your library">
+                          <StyleLibraryPicker
+                            value={null}
+                            onChange={applySavedStyle}
+                            disabled={isExtracting}
+                            placeholder="Choose a saved style..."
+                          />
+                        </SubSection>
                       </>
                     ) : (
                       <div className="space-y-3">
@@ -739,6 +989,52 @@ export default function StyleClonePage() {
                   </Card>
               )}
 
+                {/* Style Library */}
+                {extractedStyle && styleContract && (
+                  <Card className="border-border/50 bg-muted/30">
+                    <CardContent className="p-5 space-y-3">
+                      <h4 className="font-semibold text-sm">Style Library</h4>
+                      {savedLibraryStyle && (
+                        <p className="text-sm text-muted-foreground">
+                          <CheckCircle2 className="inline mr-1.5 h-4 w-4 text-green-500" />
+                          Saved as &quot;{savedLibraryStyle.name}&quot; v{savedLibraryStyle.version}.
+                          Apply it to Create, Batch, Bulk or Quote Book projects.
+                        </p>
+                      )}
+                      <StyleLibraryPicker
+                        value={libraryTarget}
+                        onChange={setLibraryTarget}
+                        disabled={isSavingToLibrary}
+                        placeholder="Save as a new style"
+                      />
+                      <div className="flex gap-2">
+                        {!libraryTarget && (
+                          <Input
+                            value={libraryStyleName}
+                            onChange={(e) => setLibraryStyleName(e.target.value)}
+                            placeholder="Style name, e.g. Bold Kawaii Animals"
+                            maxLength={100}
+                            className="h-10 rounded-xl"
+                          />
+                        )}
+                        <Button
+                          variant="outline"
+                          className="h-10 rounded-xl shrink-0"
+                          onClick={saveToLibrary}
+                          disabled={isSavingToLibrary || (!libraryTarget && !libraryStyleName.trim())}
+                        >
+                          {isSavingToLibrary ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <Plus className="mr-2 h-4 w-4" />
+                          )}
+                          {libraryTarget ? `Save as v${libraryTarget.version + 1}` : "Save to Library"}
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
                 {/* Style notes */}
                 {extractedStyle && (
                   <>
@@ -963,12 +1259,12 @@ export default function StyleClonePage() {
                       className="group overflow-hidden border-border/50 hover:shadow-lg transition-all"
                     >
                       <div className="aspect-[3/4] bg-muted relative">
-                        {page.imageBase64 ? (
+                        {getPageImageSrc(page) ? (
                           <img
-                            src={`data:image/png;base64,${page.imageBase64}`}
+                            src={getPageImageSrc(page)}
                             alt={`Page ${idx + 1}`}
                             className="w-full h-full object-contain cursor-pointer"
-                            onClick={() => setPreviewImage(`data:image/png;base64,${page.imageBase64}`)}
+                            onClick={() => setPreviewImage(getPageImageSrc(page) ?? null)}
                           />
                         ) : page.status === "generating" ? (
                           <div className="flex flex-col items-center justify-center h-full gap-2">
@@ -988,7 +1284,7 @@ export default function StyleClonePage() {
                               variant="secondary"
                               size="sm"
                               className="h-9 w-9 p-0 rounded-lg"
-                              onClick={() => setPreviewImage(`data:image/png;base64,${page.imageBase64}`)}
+                              onClick={() => setPreviewImage(getPageImageSrc(page) ?? null)}
                             >
                               <Eye className="h-4 w-4" />
                             </Button>
@@ -1227,3 +1523,19 @@ export default function StyleClonePage() {
     </main>
   );
 }
+
+// Wrapper component with Suspense for useSearchParams
+export default function StyleClonePage() {
+  return (
+    <Suspense fallback={
+      <main className="flex-1 pt-16 lg:pt-0">
+        <div className="flex flex-col items-center justify-center min-h-[60vh] space-y-4">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </main>
+    }>
+      <StyleClonePageContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,254 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AppTopbar } from "@/components/app/app-topbar";
+import { PageHeader } from "@/components/app/page-header";
+import { EmptyState } from "@/components/app/empty-state";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useSessionUser } from "@/hooks/useSessionUser";
+import type { LibraryStyle } from "@/lib/styleLibrary";
+import { Bookmark, Check, Edit, Loader2, Palette, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+
+export default function StyleLibraryPage() {
+  const { userId } = useSessionUser();
+  const [styles, setStyles] = useState<LibraryStyle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [deleteTarget, setDeleteTarget] = useState<LibraryStyle | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const fetchStyles = async () => {
+      try {
+        const response = await fetch("/api/style-library");
+        const data = await response.json();
+        if (data.success && data.styles) {
+          setStyles(data.styles);
+        }
+      } catch (error) {
+        console.error("Failed to fetch styles:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchStyles();
+  }, [userId]);
+
+  const startRename = (style: LibraryStyle) => {
+    setEditingId(style.id);
+    setEditName(style.name);
+  };
+
+  const saveRename = async (styleId: string) => {
+    const name = editName.trim();
+    if (!name) return;
+
+    setBusyId(styleId);
+    try {
+      const response = await fetch(`/api/style-library/${styleId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to rename style");
+      }
+      setStyles((prev) => prev.map((s) => (s.id === styleId ? data.style : s)));
+      setEditingId(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to rename style");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteStyle = async (style: LibraryStyle) => {
+    setBusyId(style.id);
+    try {
+      const response = await fetch(`/api/style-library/${style.id}`, { method: "DELETE" });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to delete style");
+      }
+      setStyles((prev) => prev.filter((s) => s.id !== style.id));
+      toast.success(`Deleted "${style.name}"`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete style");
+    } finally {
+      setBusyId(null);
+      setDeleteTarget(null);
+    }
+  };
+
+  return (
+    <>
+      <AppTopbar />
+
+      <main className="p-4 lg:p-6">
+        <div className="mx-auto max-w-6xl space-y-6">
+          <PageHeader
+            title="Style Library"
+            subtitle="Saved styles you can apply to any Create, Batch, Bulk or Quote Book project"
+            icon={Bookmark}
+          />
+
+          {loading ? (
+            <div className="flex items-center justify-center p-16">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : styles.length === 0 ? (
+            <EmptyState
+              icon={Palette}
+              title="No saved styles yet"
+              description="Extract a style from a reference image in Style Clone, then save it to your library."
+              actionLabel="Open Style Clone"
+              actionHref="/app/style-clone"
+            />
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {styles.map((style) => {
+                const contract = style.latest.styleContract;
+                return (
+                  <Card key={style.id} className="border-border/50 overflow-hidden">
+                    <div className="aspect-[4/3] bg-muted flex items-center justify-center">
+                      {style.latest.thumbnailUrl ? (
+                        <img
+                          src={style.latest.thumbnailUrl}
+                          alt={style.name}
+                          className="h-full w-full object-contain"
+                        />
+                      ) : (
+                        <Palette className="h-10 w-10 text-muted-foreground" />
+                      )}
+                    </div>
+                    <CardContent className="p-4 space-y-3">
+                      {editingId === style.id ? (
+                        <div className="flex gap-2">
+                          <Input
+                            value={editName}
+                            onChange={(e) => setEditName(e.target.value)}
+                            maxLength={100}
+                            className="h-9"
+                            autoFocus
+                          />
+                          <Button
+                            size="sm"
+                            className="h-9 w-9 p-0"
+                            onClick={() => saveRename(style.id)}
+                            disabled={busyId === style.id || !editName.trim()}
+                          >
+                            <Check className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-9 w-9 p-0"
+                            onClick={() => setEditingId(null)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="flex items-start justify-between gap-2">
+                          <div className="min-w-0">
+                            <h3 className="font-semibold truncate">{style.name}</h3>
+                            <p className="text-xs text-muted-foreground">
+                              Updated {new Date(style.updatedAt).toLocaleDateString()}
+                            </p>
+                          </div>
+                          <Badge variant="secondary" className="shrink-0">v{style.latestVersion}</Badge>
+                        </div>
+                      )}
+
+                      <p className="text-sm text-muted-foreground line-clamp-3">
+                        {style.description || contract.styleSummary}
+                      </p>
+
+                      <div className="flex flex-wrap gap-1.5">
+                        <Badge variant="outline" className="text-xs capitalize">
+                          {contract.recommendedLineThickness} lines
+                        </Badge>
+                        <Badge variant="outline" className="text-xs capitalize">
+                          {contract.recommendedComplexity}
+                        </Badge>
+                        {contract.forbiddenList.length > 0 && (
+                          <Badge variant="outline" className="text-xs">
+                            {contract.forbiddenList.length} forbidden
+                          </Badge>
+                        )}
+                      </div>
+
+                      <div className="flex gap-2 pt-3 border-t">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="flex-1"
+                          onClick={() => startRename(style)}
+                          disabled={busyId === style.id}
+                        >
+                          <Edit className="mr-2 h-4 w-4" />
+                          Rename
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => setDeleteTarget(style)}
+                          disabled={busyId === style.id}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Dialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete style?</DialogTitle>
+            <DialogDescription>
+              &quot;{deleteTarget?.name}&quot; and all its versions will be removed. Projects
+              that use it will generate without its style rules.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleteTarget && deleteStyle(deleteTarget)}
+              disabled={!!busyId}
+            >
+              {busyId ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -8,6 +8,9 @@
 import { Check, Clock, Sparkles, Zap, Crown } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { PLAN_ENTITLEMENTS, formatRetention } from '@/lib/plans';
+
+const { free, pro, business } = PLAN_ENTITLEMENTS;
 
 const plans = [
   {
@@ -16,8 +19,9 @@ const plans = [
     period: 'forever',
     description: 'Get started with coloring book creation',
     features: [
-      { text: '5 pages per project', included: true },
-      { text: '72 hour file storage', included: true, highlight: true },
+      { text: `${free.maxPagesPerProject} pages per project`, included: true },
+      { text: `${formatRetention(free.retentionHours)} file storage`, included: true, highlight: true },
+      { text: `${free.monthlyImageQuota} images per month`, included: true },
       { text: 'Basic image generation', included: true },
       { text: 'PNG downloads', included: true },
       { text: 'Standard quality', included: true },
@@ -33,7 +37,8 @@ const plans = [
     description: 'For serious creators and publishers',
     features: [
       { text: 'Unlimited pages', included: true },
-      { text: '30 day file storage', included: true, highlight: true },
+      { text: `${formatRetention(pro.retentionHours)} file storage`, included: true, highlight: true },
+      { text: `${pro.monthlyImageQuota} images per month`, included: true },
       { text: 'Priority image generation', included: true },
       { text: 'PDF & ZIP exports', included: true },
       { text: 'HD quality', included: true },
@@ -51,7 +56,8 @@ const plans = [
     description: 'For teams and high-volume creators',
     features: [
       { text: 'Everything in Pro', included: true },
-      { text: '90 day file storage', included: true, highlight: true },
+      { text: `${formatRetention(business.retentionHours)} file storage`, included: true, highlight: true },
+      { text: `${business.monthlyImageQuota} images per month`, included: true },
       { text: 'API access', included: true },
       { text: 'Team collaboration', included: true },
       { text: 'Custom branding', included: true },
@@ -5,7 +5,20 @@ import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { BookOpen, ArrowLeft } from "lucide-react";
+import { BookOpen, ArrowLeft, Mail } from "lucide-react";
+import {
+  signInWithPassword,
+  signUpWithPassword,
+  sendMagicLink,
+} from "@/lib/supabase/browser";
+
+/**
+ * Only allow in-app redirect targets so `?next=` can't bounce users off-site
+ */
+function getRedirectTarget(): string {
+  const next = new URLSearchParams(window.location.search).get("next");
+  return next && next.startsWith("/app") ? next : "/app";
+}
 
 export default function AuthPage() {
   const router = useRouter();
@@ -14,16 +27,53 @@ export default function AuthPage() {
   const [password, setPassword] = useState("");
   const [name, setName] = useState("");
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
+    setError(null);
+    setNotice(null);
+    
+    try {
+      if (isLogin) {
+        await signInWithPassword(email, password);
+        router.push(getRedirectTarget());
+        return;
+      }
+      
+      const session = await signUpWithPassword(email, password, name);
+      if (session) {
+        router.push(getRedirectTarget());
+        return;
+      }
+      setNotice("Check your inbox to confirm your email, then sign in.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Authentication failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMagicLink = async () => {
+    if (!email) {
+      setError("Enter your email to receive a sign-in link.");
+      return;
+    }
     
-    // Simulate auth delay
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+    setLoading(true);
+    setError(null);
+    setNotice(null);
     
-    // For now, just redirect to the app
-    router.push("/app");
+    try {
+      await sendMagicLink(email, getRedirectTarget());
+      setNotice(`We sent a sign-in link to ${email}.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send sign-in link");
+    } finally {
+      setLoading(false);
+    }
   };
 
   return (
@@ -97,6 +147,17 @@ export default function AuthPage() {
                 />
               </div>
 
+              {error && (
+                <p className="rounded-xl border border-destructive/30 bg-destructive/10 px-3 py-2 text-sm text-destructive">
+                  {error}
+                </p>
+              )}
+              {notice && (
+                <p className="rounded-xl border border-border bg-muted px-3 py-2 text-sm text-muted-foreground">
+                  {notice}
+                </p>
+              )}
+
               <Button 
                 type="submit" 
                 className="h-11 w-full rounded-xl"
@@ -104,6 +165,19 @@ export default function AuthPage() {
               >
                 {loading ? "Please wait..." : (isLogin ? "Sign in" : "Create account")}
               </Button>
+
+              {isLogin && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="h-11 w-full rounded-xl"
+                  disabled={loading}
+                  onClick={handleMagicLink}
+                >
+                  <Mail className="mr-2 h-4 w-4" />
+                  Email me a sign-in link
+                </Button>
+              )}
             </form>
 
             <div className="mt-6 text-center text-sm">
@@ -112,7 +186,11 @@ export default function AuthPage() {
               </span>
               <button
                 type="button"
-                onClick={() => setIsLogin(!isLogin)}
+                onClick={() => {
+                  setIsLogin(!isLogin);
+                  setError(null);
+                  setNotice(null);
+                }}
                 className="font-medium text-primary hover:underline"
               >
                 {isLogin ? "Sign up" : "Sign in"}
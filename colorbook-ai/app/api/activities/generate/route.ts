@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser, unauthorizedResponse } from "@/lib/supabase/server";
+import { getProject } from "@/lib/projectStore";
+import { generateActivity } from "@/lib/activities";
+import { getProjectPageImage } from "@/lib/activities/projectPages";
+import { base64ToBuffer } from "@/lib/imageProcessing";
+
+/**
+ * Route segment config
+ */
+export const maxDuration = 60;
+
+const requestSchema = z.object({
+  type: z.enum(["maze", "word_search", "dot_to_dot"]),
+  difficulty: z.enum(["easy", "medium", "hard"]).default("medium"),
+  seed: z.string().max(64).optional(),
+  title: z.string().max(60).optional(),
+  // Trim size to render at; defaults to the project's, then 8.5x11
+  trimSize: z.string().optional(),
+  projectId: z.string().uuid().optional(),
+  includeSolution: z.boolean().default(true),
+  // Word search
+  words: z.array(z.string().max(40)).max(40).optional(),
+  theme: z.string().max(100).optional(),
+  audience: z.enum(["kids", "teens", "adults", "all"]).default("all"),
+  // Dot-to-dot: an uploaded page, or a page of one of the user's projects
+  sourceImageBase64: z.string().optional(),
+  sourceProjectId: z.string().uuid().optional(),
+  sourcePageNumber: z.number().int().min(1).optional(),
+})
+  .refine(d => d.type !== "word_search" || d.words?.length || d.theme, {
+    message: "Word search needs words or a theme",
+    path: ["words"],
+  })
+  .refine(d => d.type !== "dot_to_dot" || d.sourceImageBase64 || (d.sourceProjectId && d.sourcePageNumber), {
+    message: "Dot-to-dot needs a source image or a project page",
+    path: ["sourceImageBase64"],
+  });
+
+/**
+ * POST /api/activities/generate
+ *
+ * Generates an activity page (maze, word search or dot-to-dot) and its
+ * solution page without saving them - for previews and downloads. Use
+ * POST /api/projects/[id]/activities to add pages to a project.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+    const parseResult = requestSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parseResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const data = parseResult.data;
+
+    let trimSize = data.trimSize;
+    let pageCount: number | undefined;
+    if (data.projectId) {
+      const project = await getProject(data.projectId, user.id);
+      if (!project) {
+        return NextResponse.json(
+          { error: "Project not found or access denied" },
+          { status: 404 }
+        );
+      }
+      trimSize = trimSize || project.settings?.trimSize;
+      pageCount = project.prompts_generated_count || project.pages_requested;
+    }
+
+    let sourceImage: Buffer | undefined;
+    if (data.type === "dot_to_dot") {
+      if (data.sourceImageBase64) {
+        sourceImage = base64ToBuffer(data.sourceImageBase64);
+      } else {
+        const image = await getProjectPageImage(data.sourceProjectId!, user.id, data.sourcePageNumber!);
+        if (!image) {
+          return NextResponse.json(
+            { error: "Source page not found or has no image" },
+            { status: 404 }
+          );
+        }
+        sourceImage = image;
+      }
+    }
+
+    const activity = await generateActivity({
+      type: data.type,
+      difficulty: data.difficulty,
+      seed: data.seed,
+      title: data.title,
+      trimSize,
+      pageCount,
+      includeSolution: data.includeSolution,
+      words: data.words,
+      theme: data.theme,
+      audience: data.audience,
+      sourceImage,
+    });
+
+    console.log(`[activities/generate] ${activity.type} (${activity.difficulty}, seed ${activity.seed}) at ${activity.trimSize}: ${activity.pages.length} pages`);
+
+    return NextResponse.json({ success: true, activity });
+
+  } catch (error) {
+    console.error("[activities/generate] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to generate activity" },
+      { status: 500 }
+    );
+  }
+}
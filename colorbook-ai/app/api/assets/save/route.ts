@@ -4,9 +4,13 @@ import {
   getSupabaseServerClient, 
   uploadToStorage, 
   getRetentionHours, 
-  calculateExpiresAt 
+  calculateExpiresAt,
+  getSessionUser,
+  unauthorizedResponse,
+  userOwnsProject
 } from "@/lib/supabase/server";
 import { base64ToBuffer, sanitizeColoringPng } from "@/lib/imageProcessing";
+import { detectDuplicatePage, type PageDuplicateMeta } from "@/lib/pageDuplicates";
 
 /**
  * Save Generated Asset to Supabase
@@ -18,7 +22,6 @@ export const maxDuration = 60;
 
 const requestSchema = z.object({
   projectId: z.string().uuid(),
-  userId: z.string().uuid(),
   pageNumber: z.number().int().min(1).optional(),
   assetType: z.enum(["page_image", "front_matter", "pdf", "zip", "preview"]),
   imageBase64: z.string(),
@@ -35,9 +38,21 @@ const requestSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    
     const body = await request.json();
     const data = requestSchema.parse(body);
     
+    if (!(await userOwnsProject(data.projectId, user.id))) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+    
     console.log(`[save-asset] Saving ${data.assetType} for project ${data.projectId}`);
     
     // Sanitize image unless skipped
@@ -59,12 +74,12 @@ export async function POST(request: NextRequest) {
     // Determine storage path
     let storagePath: string;
     if (data.assetType === "front_matter" && data.meta?.frontMatterType) {
-      storagePath = `${data.userId}/${data.projectId}/front/${data.meta.frontMatterType}.png`;
+      storagePath = `${user.id}/${data.projectId}/front/${data.meta.frontMatterType}.png`;
     } else if (data.assetType === "page_image" && data.pageNumber) {
       const paddedNum = String(data.pageNumber).padStart(3, "0");
-      storagePath = `${data.userId}/${data.projectId}/pages/page-${paddedNum}.png`;
+      storagePath = `${user.id}/${data.projectId}/pages/page-${paddedNum}.png`;
     } else {
-      storagePath = `${data.userId}/${data.projectId}/${data.assetType}-${Date.now()}.png`;
+      storagePath = `${user.id}/${data.projectId}/${data.assetType}-${Date.now()}.png`;
     }
     
     // Upload to storage
@@ -80,8 +95,19 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: uploadError.message }, { status: 500 });
     }
     
+    // Fingerprint pages against the rest of the book
+    let duplicateMeta: PageDuplicateMeta = {};
+    if (data.assetType === "page_image" && data.pageNumber) {
+      duplicateMeta = await detectDuplicatePage({
+        projectId: data.projectId,
+        userId: user.id,
+        pageNumber: data.pageNumber,
+        imageBuffer,
+      });
+    }
+    
     // Get retention hours and calculate expiry
-    const retentionHours = await getRetentionHours(data.userId);
+    const retentionHours = await getRetentionHours(user.id);
     const expiresAt = calculateExpiresAt(retentionHours);
     
     // Save to database
@@ -90,7 +116,7 @@ export async function POST(request: NextRequest) {
     // Upsert asset record
     const assetData = {
       project_id: data.projectId,
-      user_id: data.userId,
+      user_id: user.id,
       page_number: data.pageNumber || null,
       asset_type: data.assetType,
       storage_bucket: "generated",
@@ -100,6 +126,7 @@ export async function POST(request: NextRequest) {
       expires_at: expiresAt,
       meta: {
         ...data.meta,
+        ...duplicateMeta,
         fileSize: imageBuffer.length,
         savedAt: new Date().toISOString(),
       },
@@ -167,6 +194,7 @@ export async function POST(request: NextRequest) {
       assetId,
       storagePath: uploadedPath,
       expiresAt,
+      duplicateOf: duplicateMeta.duplicateOf,
     });
     
   } catch (error) {
@@ -6,7 +6,7 @@
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { getSupabaseServerClient, createSignedUrl } from '@/lib/supabase/server';
+import { getSupabaseServerClient, createSignedUrl, getSessionUser, unauthorizedResponse } from '@/lib/supabase/server';
 
 const requestSchema = z.object({
   assetId: z.string().uuid().optional(),
@@ -17,6 +17,11 @@ const requestSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    
     const body = await request.json();
     const data = requestSchema.parse(body);
     
@@ -31,6 +36,7 @@ export async function POST(request: NextRequest) {
         .from('generated_assets')
         .select('storage_bucket, storage_path, status')
         .eq('id', data.assetId)
+        .eq('user_id', user.id)
         .single();
       
       if (error || !asset) {
@@ -68,6 +74,14 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    // Storage paths are always prefixed with the owner's user ID
+    if (!path.startsWith(`${user.id}/`)) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+    
     const signedUrl = await createSignedUrl(bucket, path, data.expiresIn);
     
     if (!signedUrl) {
@@ -1,33 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
-import { generateImage, isOpenAIImageGenConfigured, type ImageSize as GPTImageSize } from "@/lib/services/openaiImageGen";
+import { isOpenAIImageGenConfigured } from "@/lib/services/openaiImageGen";
 import { z } from "zod";
-import {
-  buildFinalColoringPrompt,
-  getRetryReinforcement,
-  type ImageSize,
-} from "@/lib/coloringPagePromptEnforcer";
-import { sanitizeColoringPngBase64 } from "@/lib/imageProcessing";
-
-// Map sizes to GPT Image model compatible sizes
-// GPT Image model supports: 1024x1024, 1024x1536, 1536x1024
-const SIZE_TO_GPT: Record<string, GPTImageSize> = {
-  "1024x1024": "1024x1024",
-  "1024x1536": "1024x1536", // Portrait
-  "1536x1024": "1536x1024", // Landscape
-  "1024x1792": "1024x1536", // Map DALL-E portrait to GPT portrait
-  "1792x1024": "1536x1024", // Map DALL-E landscape to GPT landscape
-};
-import {
-  type CharacterIdentityProfile,
-  buildCharacterIdentityContract,
-  buildOutlineOnlyContract,
-  buildCharacterRetryReinforcement,
-} from "@/lib/characterIdentity";
-import { validateGeneratedImage, type ComplexityLevel } from "@/lib/services/imageValidator";
-import { 
-  isNonRetryableError, 
-  NonRetryableGenerationError,
-} from "@/lib/errors/generationErrors";
+import { type CharacterIdentityProfile } from "@/lib/characterIdentity";
+import { type ComplexityLevel } from "@/lib/services/imageValidator";
+import { generatePageWithRetries, isPausableGenerationError } from "@/lib/services/pageGenerationPipeline";
+import { isNonRetryableError } from "@/lib/errors/generationErrors";
+import { isEntitlementError, entitlementErrorResponse } from "@/lib/errors/entitlementErrors";
+import { assertImageQuota } from "@/lib/entitlements";
+import { setCostContext } from "@/lib/generationCosts";
+import { getSessionUser, unauthorizedResponse, userOwnsProject } from "@/lib/supabase/server";
+import { getLibraryStyleContract } from "@/lib/styleLibraryStore";
+import { getLibraryCharacterProfile, recordCharacterUsage } from "@/lib/characterLibraryStore";
+import { getProjectSettings } from "@/lib/projectStore";
+import { getLineWeightSpec } from "@/lib/generationSpec";
 
 /**
  * Route segment config - single image generation with SILENT AUTO-RETRY
@@ -35,27 +20,6 @@ import {
  */
 export const maxDuration = 300; // 5 minutes max for extensive retries
 
-// ============================================
-// RETRY CONFIGURATION
-// ============================================
-
-/** Max attempts per page before giving up (internal limit, not shown to user) */
-const MAX_ATTEMPTS_PER_PAGE = 20;
-
-/** Max wall time per page in milliseconds (180 seconds = 3 min) */
-const MAX_WALL_TIME_MS = 180 * 1000;
-
-/** Base delay between retries in ms */
-const BASE_RETRY_DELAY = 500;
-
-/** Max delay between retries in ms (exponential backoff cap) */
-const MAX_RETRY_DELAY = 5000;
-
-/** Stricter prompt addendum for retries */
-const STRICT_RETRY_ADDENDUM = `
-REMOVE ALL SOLID FILLS. SIMPLIFY BACKGROUND. OUTLINE ONLY. WHITE BACKGROUND ONLY.
-NO black areas, NO gray pixels, NO shading. Pure black lines on pure white.`;
-
 // Character profile schema for storybook mode
 const characterProfileSchema = z.object({
   characterId: z.string(),
@@ -80,17 +44,27 @@ const characterProfileSchema = z.object({
 const requestSchema = z.object({
   page: z.number().int().min(1),
   prompt: z.string().min(1),
+  // Project the page belongs to - attributes spend and applies the project cap
+  projectId: z.string().uuid().optional(),
   size: z.enum(["1024x1024", "1024x1792", "1792x1024", "1024x1536", "1536x1024"]).default("1024x1792"),
   maxRetries: z.number().int().min(0).max(15).default(12), // Now supports up to 12 retries
   // Storybook mode parameters
   isStorybookMode: z.boolean().default(false),
   characterProfile: characterProfileSchema,
+  // Character Library character; its saved profile replaces characterProfile
+  characterId: z.string().uuid().optional(),
   // Validation options
   validateOutline: z.boolean().default(true),
   validateCharacter: z.boolean().default(true),
   validateComposition: z.boolean().default(true),
   // Complexity level affects validation thresholds and prompt
   complexity: z.enum(["kids", "simple", "medium", "detailed", "ultra"]).default("medium"),
+  // Style Library version to apply; defaults to the one pinned on the project
+  styleId: z.string().uuid().optional(),
+  styleVersion: z.number().int().min(1).optional(),
+  // Quote pages with model-drawn lettering: the exact quote the page must
+  // spell, checked on every attempt (omit for vector lettering)
+  quote: z.string().min(1).optional(),
 });
 
 /**
@@ -106,6 +80,23 @@ const requestSchema = z.object({
  * ALWAYS POSTPROCESSES:
  * - Every image is converted to pure black/white before returning
  * - Guarantees white background even if model returns dark canvas
+ * 
+ * PLAN QUOTA:
+ * - Each delivered page counts once against the monthly image quota
+ * - Returns 402 (paused) when the quota is used up
+ * 
+ * QUOTE SPELLING:
+ * - When `quote` is sent, each attempt's lettering is transcribed and
+ *   compared to it; a misspelled attempt is retried with a spelling
+ *   reinforcement
+ *
+ * SPEND CAPS:
+ * - Every attempt (and validation call) is written to the cost ledger
+ * - The monthly/project spend caps are checked before each attempt and
+ *   stop the retry loop with a 402 (paused)
+ *
+ * The retry loop itself lives in lib/services/pageGenerationPipeline.ts
+ * and is shared with the server-side generation queue.
  */
 export async function POST(request: NextRequest) {
   if (!isOpenAIImageGenConfigured()) {
@@ -116,6 +107,11 @@ export async function POST(request: NextRequest) {
   }
 
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    
     const body = await request.json();
     const parseResult = requestSchema.safeParse(body);
 
@@ -129,319 +125,130 @@ export async function POST(request: NextRequest) {
     const { 
       page, 
       prompt, 
+      projectId,
       size, 
       isStorybookMode,
       characterProfile,
+      characterId,
       validateOutline,
       validateCharacter,
       validateComposition,
       complexity,
+      styleId,
+      styleVersion,
+      quote,
     } = parseResult.data;
     
-    const shouldValidateCharacter = isStorybookMode && validateCharacter && characterProfile;
-    const shouldValidateComposition = validateComposition;
-
-    console.log(`[generate-one] Page ${page}: Starting SILENT AUTO-RETRY (max ${MAX_ATTEMPTS_PER_PAGE} attempts, ${MAX_WALL_TIME_MS/1000}s timeout)`);
-
-    // Build base prompt with contracts
-    let basePrompt = prompt;
-    
-    // Add character identity contract for storybook mode
-    if (isStorybookMode && characterProfile) {
-      const identityContract = buildCharacterIdentityContract(characterProfile as CharacterIdentityProfile);
-      basePrompt = `${prompt}\n${identityContract}`;
+    if (projectId && !(await userOwnsProject(projectId, user.id))) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
     }
-    
-    // Add outline-only contract (always)
-    const outlineContract = buildOutlineOnlyContract();
-    basePrompt = `${basePrompt}\n${outlineContract}`;
-
-    let lastValidationResult: Awaited<ReturnType<typeof validateGeneratedImage>> | null = null;
-    let bestImage: string | null = null;
-    let bestImageAttemptId: string | null = null; // Track which attempt produced the best image
-    
-    // Track wall time
-    const startTime = Date.now();
-    
-    // Generate a unique request ID to track this generation session
-    const requestId = `${page}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    console.log(`[generate-one] Page ${page}: Request ${requestId} starting`);
-
-    // SILENT AUTO-RETRY LOOP - runs STRICTLY SEQUENTIALLY
-    // Each attempt must complete fully before the next one starts
-    for (let attempt = 1; attempt <= MAX_ATTEMPTS_PER_PAGE; attempt++) {
-      // Generate attempt ID for tracking
-      const attemptId = `${requestId}-attempt${attempt}`;
-      // Check wall time limit
-      const elapsedMs = Date.now() - startTime;
-      if (elapsedMs >= MAX_WALL_TIME_MS) {
-        console.log(`[generate-one] Page ${page}: Wall time limit reached (${elapsedMs}ms)`);
-        break;
-      }
-
-      try {
-        // Build prompt with appropriate reinforcement level
-        let currentPrompt = basePrompt;
-        
-        if (attempt > 1) {
-          // Add progressively stricter reinforcement
-          const genericReinforcement = getRetryReinforcement(Math.min(attempt - 1, 3));
-          currentPrompt = `${currentPrompt}\n\n${genericReinforcement}`;
-          
-          // Add validation-specific reinforcement if we have validation results
-          if (lastValidationResult?.retryReinforcement) {
-            currentPrompt = `${currentPrompt}\n${lastValidationResult.retryReinforcement}`;
-          }
-          
-          // Add character-specific reinforcement for storybook mode
-          if (isStorybookMode && characterProfile && lastValidationResult?.characterValidation && !lastValidationResult.characterValidation.valid) {
-            const charReinforcement = buildCharacterRetryReinforcement(characterProfile as CharacterIdentityProfile);
-            currentPrompt = `${currentPrompt}\n${charReinforcement}`;
-          }
-          
-          // After 3 attempts, add even stricter addendum
-          if (attempt > 3) {
-            currentPrompt = `${currentPrompt}\n${STRICT_RETRY_ADDENDUM}`;
-          }
-        }
-
-        // Apply all constraints via buildFinalColoringPrompt
-        const finalPrompt = buildFinalColoringPrompt(currentPrompt, {
-          includeNegativeBlock: true,
-          maxLength: 4500,
-          size: size as ImageSize,
-          isStorybookMode,
-          extraBottomReinforcement: attempt > 1,
-          extraCoverageReinforcement: attempt > 2,
-        });
-
-        console.log(`[generate-one] Page ${page}: [${attemptId}] Attempt ${attempt}/${MAX_ATTEMPTS_PER_PAGE} (prompt: ${finalPrompt.length} chars, elapsed: ${Math.round(elapsedMs/1000)}s)`);
 
-        // Map size to GPT Image model compatible size
-        const gptSize = SIZE_TO_GPT[size] || "1024x1536";
+    const styleContract = styleId && styleVersion
+      ? await getLibraryStyleContract(user.id, { styleId, version: styleVersion })
+      : undefined;
 
-        // Generate image with context for error tracking
-        const result = await generateImage({
-          prompt: finalPrompt,
-          n: 1,
-          size: gptSize,
-        }, {
-          pageIndex: page,
-        });
-
-        if (!result.images || result.images.length === 0) {
-          console.log(`[generate-one] Page ${page}: [${attemptId}] No image generated on attempt ${attempt}`);
-          await delay(getRetryDelay(attempt));
-          continue;
-        }
-
-        // ================================================
-        // MANDATORY SANITIZE: Flatten to white, remove alpha
-        // ================================================
-        let imageBase64 = result.images[0];
-        let sanitizeSuccess = false;
-        try {
-          console.log(`[generate-one] Page ${page}: [${attemptId}] Sanitizing image (flatten to white, remove alpha)`);
-          imageBase64 = await sanitizeColoringPngBase64(imageBase64);
-          sanitizeSuccess = true;
-        } catch (sanitizeError) {
-          const errorMsg = sanitizeError instanceof Error ? sanitizeError.message : String(sanitizeError);
-          console.error(`[generate-one] Page ${page}: [${attemptId}] Sanitize error: ${errorMsg}`);
-          
-          // If image is invalid (blank, too dark), RETRY immediately
-          if (errorMsg.includes("IMAGE_INVALID")) {
-            console.log(`[generate-one] Page ${page}: [${attemptId}] Invalid image detected, will retry with stricter prompt`);
-            
-            // Add specific reinforcement based on the failure type
-            if (errorMsg.includes("too_dark")) {
-              lastValidationResult = {
-                valid: false,
-                outlineValidation: {
-                  valid: false,
-                  hasBlackFills: true,
-                  hasGrayscale: false,
-                  hasUnwantedBorder: false,
-                  fillLocations: ["entire image - dark background"],
-                  confidence: 1.0,
-                  notes: "Image has dark/black background instead of white",
-                },
-                retryReinforcement: "CRITICAL: Generate on PURE WHITE background (#FFFFFF). NO dark colors, NO black background, NO gray. Only BLACK LINES on WHITE.",
-              };
-            } else if (errorMsg.includes("blank") || errorMsg.includes("no_content")) {
-              lastValidationResult = {
-                valid: false,
-                outlineValidation: {
-                  valid: false,
-                  hasBlackFills: false,
-                  hasGrayscale: false,
-                  hasUnwantedBorder: false,
-                  fillLocations: ["no content"],
-                  confidence: 1.0,
-                  notes: "Image is blank/empty with no visible content",
-                },
-                retryReinforcement: "CRITICAL: You MUST draw visible BLACK LINE ART. The image must have clear outlines, shapes, and details - not blank.",
-              };
-            }
-            
-            await delay(getRetryDelay(attempt));
-            continue; // Retry immediately
-          }
-        }
-        
-        // Only track valid images
-        if (!sanitizeSuccess) {
-          console.log(`[generate-one] Page ${page}: [${attemptId}] Skipping invalid image`);
-          await delay(getRetryDelay(attempt));
-          continue;
-        }
-        
-        // Track this image with its attempt ID
-        // Only update bestImage if this attempt is newer (prevents race conditions)
-        const shouldUpdateBest = !bestImageAttemptId || attemptId > bestImageAttemptId;
-        if (shouldUpdateBest) {
-          bestImage = imageBase64;
-          bestImageAttemptId = attemptId;
-        }
-
-        // VALIDATION STEP
-        if (validateOutline || shouldValidateCharacter || shouldValidateComposition) {
-          const validationResult = await validateGeneratedImage(
-            imageBase64,
-            shouldValidateCharacter ? characterProfile as CharacterIdentityProfile : undefined,
-            !!shouldValidateCharacter,
-            shouldValidateComposition,
-            complexity as ComplexityLevel
-          );
-          
-          lastValidationResult = validationResult;
+    if (styleContract === null) {
+      return NextResponse.json(
+        { error: "Style not found or access denied" },
+        { status: 404 }
+      );
+    }
 
-          // Log validation results with detail
-          const outlineNotes = validationResult.outlineValidation?.notes || "";
-          console.log(`[generate-one] Page ${page}: [${attemptId}] Validation - valid: ${validationResult.valid}, outline: ${validationResult.outlineValidation?.valid}, notes: ${outlineNotes.slice(0, 100)}`);
+    const libraryProfile = characterId
+      ? await getLibraryCharacterProfile(user.id, characterId)
+      : undefined;
 
-          // If validation passed, return SUCCESS!
-          if (validationResult.valid) {
-            console.log(`[generate-one] Page ${page}: [${attemptId}] ✓ PASS on attempt ${attempt}`);
-            return NextResponse.json({
-              page,
-              status: "done",
-              imageBase64,
-              attempts: attempt,
-              attemptId,
-              validation: {
-                passed: true,
-                character: validationResult.characterValidation,
-                outline: validationResult.outlineValidation,
-                coverage: validationResult.coverageValidation,
-                bottomFill: validationResult.bottomFillValidation,
-              },
-            });
-          }
+    if (libraryProfile === null) {
+      return NextResponse.json(
+        { error: "Character not found or access denied" },
+        { status: 404 }
+      );
+    }
 
-          // Validation failed - log details and continue retrying
-          // IMPORTANT: Do NOT save this image - it failed validation
-          console.log(`[generate-one] Page ${page}: [${attemptId}] ✗ FAIL - validation failed, will retry. Reason: ${validationResult.outlineValidation?.notes || "unknown"}`);
-          
-          // Clear bestImage if this was a dark background failure (never keep dark images)
-          if (outlineNotes.includes("dark_background") || outlineNotes.includes("PRE-VALIDATION FAILED")) {
-            console.log(`[generate-one] Page ${page}: [${attemptId}] Discarding dark background image`);
-            if (bestImageAttemptId === attemptId) {
-              bestImage = null;
-              bestImageAttemptId = null;
-            }
-          }
-          
-          await delay(getRetryDelay(attempt));
-          continue;
-          
-        } else {
-          // No validation requested - return immediately with postprocessed image
-          console.log(`[generate-one] Page ${page}: [${attemptId}] ✓ Success (no validation) on attempt ${attempt}`);
-          return NextResponse.json({
-            page,
-            status: "done",
-            imageBase64,
-            attempts: attempt,
-            attemptId,
-          });
-        }
+    // The project's line thickness gates stroke widths on every attempt
+    const lineWeightSpec = projectId ? getLineWeightSpec(await getProjectSettings(projectId)) : {};
 
-      } catch (attemptError) {
-        // CHECK FOR NON-RETRYABLE ERRORS - STOP IMMEDIATELY
-        if (isNonRetryableError(attemptError)) {
-          console.error(`[generate-one] Page ${page}: [${attemptId}] NON-RETRYABLE ERROR - ${attemptError.code}`);
-          
-          // Return "paused" status for billing/quota errors
-          const isPausable = ["BILLING_LIMIT", "INSUFFICIENT_QUOTA"].includes(attemptError.code);
-          
-          return NextResponse.json({
-            page,
-            status: isPausable ? "paused" : "error",
-            error: attemptError.message,
-            errorCode: attemptError.code,
-            errorType: "non_retryable",
-            pauseReason: isPausable ? attemptError.getUserMessage() : undefined,
-            actionHint: attemptError.getActionHint(),
-            attempts: attempt,
-            context: {
-              provider: attemptError.context.provider,
-              httpStatus: attemptError.context.httpStatus,
-              requestId: attemptError.context.requestId,
-            },
-          });
-        }
-        
-        // Regular retryable error - use exponential backoff
-        const errorMsg = attemptError instanceof Error ? attemptError.message : "Generation error";
-        console.error(`[generate-one] Page ${page}: [${attemptId}] Attempt ${attempt} error: ${errorMsg}`);
-        
-        // Exponential backoff for network/rate limit errors
-        await delay(getRetryDelay(attempt));
-        continue;
-      }
+    if (characterId && projectId) {
+      await recordCharacterUsage(characterId, user.id, projectId);
     }
-
-    // ================================================
-    // LIMITS REACHED - NEVER return "failed" for quality issues
-    // ================================================
-    console.log(`[generate-one] Page ${page}: [${requestId}] Limits reached after ${MAX_ATTEMPTS_PER_PAGE} attempts`);
     
-    // If we have ANY image, return it as "done"
-    // The sanitization guarantees white background, so just use what we have
-    if (bestImage) {
-      console.log(`[generate-one] Page ${page}: [${requestId}] Returning best available image (attemptId: ${bestImageAttemptId})`);
+    await assertImageQuota(user.id, 1);
+    
+    setCostContext({ userId: user.id, projectId, pageIndex: page, source: "batch/generate-one" });
+    
+    const outcome = await generatePageWithRetries({
+      userId: user.id,
+      projectId,
+      page,
+      prompt,
+      size,
+      isStorybookMode,
+      characterProfile: libraryProfile ?? (characterProfile as CharacterIdentityProfile | undefined),
+      validateOutline,
+      validateCharacter,
+      validateComposition,
+      complexity: complexity as ComplexityLevel,
+      styleContract,
+      expectedQuote: quote,
+      lineThickness: lineWeightSpec.lineThickness,
+      printWidthPx: lineWeightSpec.printWidthPx,
+      logTag: "generate-one",
+    });
+
+    if (outcome.status === "done") {
       return NextResponse.json({
         page,
         status: "done", // Always "done" if we have an image - NEVER "failed"
-        imageBase64: bestImage,
-        attempts: MAX_ATTEMPTS_PER_PAGE,
-        attemptId: bestImageAttemptId,
-        validation: lastValidationResult ? {
-          passed: lastValidationResult.valid,
-          note: lastValidationResult.valid ? undefined : "Image quality may vary",
-          character: lastValidationResult.characterValidation,
-          outline: lastValidationResult.outlineValidation,
-          coverage: lastValidationResult.coverageValidation,
-          bottomFill: lastValidationResult.bottomFillValidation,
-        } : undefined,
+        imageBase64: outcome.imageBase64,
+        attempts: outcome.attempts,
+        attemptId: outcome.attemptId,
+        validation: outcome.validation,
+      });
+    }
+
+    if (outcome.status === "stopped") {
+      const { error: stopError, isPausable } = outcome;
+      
+      // Return "paused" status for billing/quota errors
+      return NextResponse.json({
+        page,
+        status: isPausable ? "paused" : "error",
+        error: stopError.message,
+        errorCode: stopError.code,
+        errorType: "non_retryable",
+        pauseReason: isPausable ? stopError.getUserMessage() : undefined,
+        actionHint: stopError.getActionHint(),
+        attempts: outcome.attempts,
+        context: {
+          provider: stopError.context.provider,
+          httpStatus: stopError.context.httpStatus,
+          requestId: stopError.context.requestId,
+        },
       });
     }
 
     // No image at all - return "generating" status so UI keeps spinner
     // This is a quality retry issue, NOT a hard failure
-    console.log(`[generate-one] Page ${page}: [${requestId}] No valid image yet - returning 'generating' status`);
     return NextResponse.json({
       page,
       status: "generating", // Keep in generating state - NOT "failed"
-      attempts: MAX_ATTEMPTS_PER_PAGE,
+      attempts: outcome.attempts,
       note: "Still improving quality...",
       canRetry: true, // Let UI show "Retry" button
     });
 
   } catch (error) {
+    // Plan limits pause the queue just like billing errors
+    if (isEntitlementError(error)) {
+      return entitlementErrorResponse(error);
+    }
+    
     // Handle non-retryable errors at top level
     if (isNonRetryableError(error)) {
-      const isPausable = ["BILLING_LIMIT", "INSUFFICIENT_QUOTA"].includes(error.code);
+      const isPausable = isPausableGenerationError(error);
       
       return NextResponse.json({
         page: 0,
@@ -468,23 +275,3 @@ export async function POST(request: NextRequest) {
     });
   }
 }
-
-// ============================================
-// HELPER FUNCTIONS
-// ============================================
-
-/**
- * Calculate retry delay with exponential backoff
- */
-function getRetryDelay(attempt: number): number {
-  // Exponential backoff: 500ms, 1000ms, 2000ms, 4000ms, capped at 5000ms
-  const delay = Math.min(BASE_RETRY_DELAY * Math.pow(2, attempt - 1), MAX_RETRY_DELAY);
-  return delay;
-}
-
-/**
- * Async delay helper
- */
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createImageBatch } from "@/lib/services/openaiBatchImageGen";
 import { isOpenAIImageGenConfigured } from "@/lib/services/openaiImageGen";
+import { getSessionUser, unauthorizedResponse, userOwnsProject } from "@/lib/supabase/server";
+import { assertImageQuota, assertPageLimit } from "@/lib/entitlements";
+import { isEntitlementError, entitlementErrorResponse } from "@/lib/errors/entitlementErrors";
 import { z } from "zod";
 
 export const maxDuration = 60;
@@ -8,7 +11,6 @@ export const runtime = "nodejs";
 
 const requestSchema = z.object({
   projectId: z.string().uuid(),
-  userId: z.string().uuid(),
   pages: z.array(
     z.object({
       pageIndex: z.number().int().min(1),
@@ -22,6 +24,9 @@ const requestSchema = z.object({
   isStorybookMode: z.boolean().default(false),
   characterProfile: z.any().optional(),
   complexity: z.string().optional(),
+  // Post-hoc quality validation on finalize, and requeue of failing pages
+  validateResults: z.boolean().default(true),
+  autoRequeueFailures: z.boolean().default(false),
 });
 
 /**
@@ -37,8 +42,20 @@ export async function POST(request: NextRequest) {
   }
 
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    
     const body = await request.json();
     const data = requestSchema.parse(body);
+    
+    if (!(await userOwnsProject(data.projectId, user.id))) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
 
     if (data.pages.length === 0) {
       return NextResponse.json(
@@ -47,9 +64,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Usage is recorded on finalize, once the images actually exist
+    await assertPageLimit(user.id, Math.max(...data.pages.map((p) => p.pageIndex)));
+    await assertImageQuota(user.id, data.pages.length);
+
     const result = await createImageBatch({
       projectId: data.projectId,
-      userId: data.userId,
+      userId: user.id,
       pages: data.pages.map((p) => ({
         pageIndex: p.pageIndex,
         prompt: p.prompt,
@@ -59,6 +80,8 @@ export async function POST(request: NextRequest) {
       isStorybookMode: data.isStorybookMode,
       characterProfile: data.characterProfile,
       complexity: data.complexity,
+      validateResults: data.validateResults,
+      autoRequeueFailures: data.autoRequeueFailures,
     });
 
     console.log(
@@ -67,6 +90,9 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(result);
   } catch (error) {
+    if (isEntitlementError(error)) {
+      return entitlementErrorResponse(error);
+    }
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         { error: "Invalid request", details: error.flatten() },
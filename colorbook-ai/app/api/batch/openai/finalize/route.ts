@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { finalizeBatch } from "@/lib/services/openaiBatchImageGen";
+import { getSessionUser, unauthorizedResponse, userOwnsProject } from "@/lib/supabase/server";
+import { recordImageUsage } from "@/lib/entitlements";
 import { z } from "zod";
 
 export const maxDuration = 300;
@@ -8,27 +10,43 @@ export const runtime = "nodejs";
 const requestSchema = z.object({
   batchId: z.string().min(1),
   projectId: z.string().uuid(),
-  userId: z.string().uuid(),
 });
 
 /**
  * POST /api/batch/openai/finalize
- * Downloads batch output, saves images to storage, updates DB
+ * Downloads batch output, scores and saves images to storage, updates DB
  * Call when batch status is "completed"
  */
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    
     const body = await request.json();
     const data = requestSchema.parse(body);
+    
+    if (!(await userOwnsProject(data.projectId, user.id))) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
 
     const result = await finalizeBatch(
       data.batchId,
       data.projectId,
-      data.userId
+      user.id
     );
 
+    // The cron sweep may have finalized (and counted) this batch already
+    if (!result.alreadyFinalized) {
+      await recordImageUsage(user.id, result.billableCount);
+    }
+
     console.log(
-      `[batch/finalize] Completed: ${result.successCount} success, ${result.failedCount} failed`
+      `[batch/finalize] Completed: ${result.successCount} success, ${result.failedCount} failed, ${result.qualityFailedPages.length} flagged`
     );
 
     return NextResponse.json(result);
@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getBatchStatus } from "@/lib/services/openaiBatchImageGen";
+import {
+  getSupabaseServerClient,
+  getSessionUser,
+  unauthorizedResponse,
+} from "@/lib/supabase/server";
 
 export const runtime = "nodejs";
 
@@ -8,6 +13,11 @@ export const runtime = "nodejs";
  * Returns the current status of an OpenAI batch job
  */
 export async function GET(request: NextRequest) {
+  const user = await getSessionUser(request);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
   const batchId = request.nextUrl.searchParams.get("batchId");
   if (!batchId) {
     return NextResponse.json(
@@ -17,6 +27,22 @@ export async function GET(request: NextRequest) {
   }
 
   try {
+    // Only the user who submitted the batch may poll it
+    const supabase = getSupabaseServerClient();
+    const { data: job } = await supabase
+      .from("openai_batch_jobs")
+      .select("id")
+      .eq("batch_id", batchId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!job) {
+      return NextResponse.json(
+        { error: "Batch not found or access denied" },
+        { status: 404 }
+      );
+    }
+
     const status = await getBatchStatus(batchId);
     return NextResponse.json(status);
   } catch (error) {
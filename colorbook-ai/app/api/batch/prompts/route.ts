@@ -32,6 +32,10 @@ import {
   type CreativeBrief,
   type PlannedScene,
 } from "@/lib/creativeBrief";
+import { penalizeRepeats, type PageOutline, type UsedElementsMemory } from "@/lib/ideaPlanner";
+import { getSessionUser, unauthorizedResponse } from "@/lib/supabase/server";
+import { getProject } from "@/lib/projectStore";
+import { getSeriesMemory, recordVolumeElements } from "@/lib/seriesStore";
 
 /**
  * Route segment config - extend timeout for prompt generation
@@ -68,6 +72,29 @@ export async function POST(request: NextRequest) {
     }
 
     const { mode, count, story, styleProfile, characterProfile, sceneInventory, basePrompt, size, complexity } = parseResult.data;
+    const savedIdentityProfile = parseResult.data.characterIdentityProfile;
+    const { projectId } = parseResult.data;
+
+    // A series volume plans around the scenes of the series' other volumes
+    let seriesId: string | null = null;
+    let seriesMemory: UsedElementsMemory | undefined;
+    if (projectId) {
+      const user = await getSessionUser(request);
+      if (!user) {
+        return unauthorizedResponse();
+      }
+      const project = await getProject(projectId, user.id);
+      if (!project) {
+        return NextResponse.json(
+          { error: "Project not found or access denied" },
+          { status: 404 }
+        );
+      }
+      if (project.series_id) {
+        seriesId = project.series_id;
+        seriesMemory = await getSeriesMemory(seriesId, projectId);
+      }
+    }
 
     // Validate storybook mode requires character profile
     if (mode === "storybook" && !characterProfile) {
@@ -95,10 +122,14 @@ export async function POST(request: NextRequest) {
     console.log(`[batch/prompts] Must include: ${creativeBrief.mustInclude.slice(0, 5).join(", ")}`);
 
     // Step 2: Plan unique scenes based on the creative brief
-    const scenePlan = await planScenes(creativeBrief, count, mode);
+    const scenePlan = await planScenes(creativeBrief, count, mode, seriesMemory);
     
     console.log(`[batch/prompts] Planned ${scenePlan.scenes.length} scenes, diversity: ${scenePlan.diversityScore}`);
 
+    if (seriesMemory) {
+      avoidSeriesRepeats(scenePlan.scenes, seriesMemory, creativeBrief);
+    }
+
     // Build character consistency block for storybook mode
     const characterConsistencyBlock = mode === "storybook" && characterProfile
       ? buildCharacterConsistencyBlock(characterProfile)
@@ -112,7 +143,10 @@ export async function POST(request: NextRequest) {
 
     // Extract CHARACTER IDENTITY PROFILE for vision validation
     let characterIdentityProfile: CharacterIdentityProfile | undefined;
-    if (mode === "storybook" && characterProfile) {
+    if (mode === "storybook" && savedIdentityProfile) {
+      characterIdentityProfile = savedIdentityProfile;
+      console.log(`[batch/prompts] Using saved character identity profile: ${characterIdentityProfile.species}`);
+    } else if (mode === "storybook" && characterProfile) {
       characterIdentityProfile = await extractCharacterIdentityProfile(characterProfile, basePrompt);
       console.log(`[batch/prompts] Created character identity profile: ${characterIdentityProfile.species}`);
     }
@@ -152,6 +186,10 @@ export async function POST(request: NextRequest) {
     if (mode === "storybook") {
       validateSceneDiversity(scenesToProcess);
     }
+
+    if (seriesId && projectId) {
+      await recordVolumeElements(seriesId, projectId, scenesToProcess.map(toPageOutline));
+    }
     
     // Final validation: ensure exact count
     if (pages.length !== count) {
@@ -417,17 +455,18 @@ const MAX_SCENES_PER_CHUNK = 15;
 async function planScenes(
   brief: CreativeBrief,
   pageCount: number,
-  mode: "storybook" | "theme"
+  mode: "storybook" | "theme",
+  seriesMemory?: UsedElementsMemory
 ): Promise<{ scenes: PlannedScene[]; usedLocations: string[]; usedProps: string[]; diversityScore: number }> {
   
   // For large page counts, generate in chunks
   if (pageCount > MAX_SCENES_PER_CHUNK) {
     console.log(`[batch/prompts] Large page count (${pageCount}), using chunked generation`);
-    return planScenesChunked(brief, pageCount, mode);
+    return planScenesChunked(brief, pageCount, mode, seriesMemory);
   }
   
   // For smaller counts, generate all at once
-  return planScenesChunk(brief, pageCount, mode, 1, []);
+  return planScenesChunk(brief, pageCount, mode, 1, [], seriesMemory);
 }
 
 /**
@@ -437,7 +476,8 @@ async function planScenes(
 async function planScenesChunked(
   brief: CreativeBrief,
   totalPages: number,
-  mode: "storybook" | "theme"
+  mode: "storybook" | "theme",
+  seriesMemory?: UsedElementsMemory
 ): Promise<{ scenes: PlannedScene[]; usedLocations: string[]; usedProps: string[]; diversityScore: number }> {
   
   const allScenes: PlannedScene[] = [];
@@ -459,7 +499,8 @@ async function planScenesChunked(
       chunkSize, 
       mode, 
       currentPage,
-      allScenes.slice(-5) // Pass last 5 scenes for context
+      allScenes.slice(-5), // Pass last 5 scenes for context
+      seriesMemory
     );
     
     // Add scenes with correct page numbers
@@ -499,7 +540,8 @@ async function planScenesChunk(
   chunkSize: number,
   mode: "storybook" | "theme",
   startPageNumber: number,
-  previousScenes: PlannedScene[]
+  previousScenes: PlannedScene[],
+  seriesMemory?: UsedElementsMemory
 ): Promise<{ scenes: PlannedScene[]; usedLocations: string[]; usedProps: string[]; diversityScore: number }> {
   
   // Build context from previous scenes to avoid repetition
@@ -510,6 +552,11 @@ ${usedSubjects.length > 0 ? `- ⚠️ ALREADY USED SUBJECTS (DO NOT USE AGAIN):
 - Locations: ${[...new Set(previousScenes.map(s => s.location))].join(", ")}
 - Actions: ${[...new Set(previousScenes.map(s => s.action))].join(", ")}
 - Props: ${[...new Set(previousScenes.flatMap(s => s.props?.slice(0, 2) || []))].slice(0, 10).join(", ")}
+` : "";
+  const seriesContext = seriesMemory && seriesMemory.settings.size > 0 ? `
+USED IN EARLIER BOOKS OF THIS SERIES (DO NOT REPEAT):
+- Locations: ${[...seriesMemory.settings].slice(0, 30).join(", ")}
+- Actions: ${[...seriesMemory.actions].slice(0, 30).join(", ")}
 ` : "";
   
   // Extract style and character requirements from brief
@@ -538,6 +585,7 @@ ${hasSubjectsPool ? `
 ${subjectsPool.join(", ")}
 RULE: Each page MUST feature a DIFFERENT subject from this pool. NO REPEATS!` : ""}
 ${previousContext}
+${seriesContext}
 ${brief.isHolidayTheme ? `
 HOLIDAY THEME: ${brief.holidayName}
 REQUIRED MOTIFS (include 2-4 in EVERY scene): ${brief.holidayMotifs?.join(", ")}
@@ -666,6 +714,55 @@ ${isKawaii ? "⚠️ All characters must be drawn in kawaii/cute style with chib
   }
 }
 
+// ============================================================
+// SERIES ANTI-REPETITION
+// ============================================================
+
+// Penalty of a scene that repeats both the setting and the action of an earlier volume
+const SERIES_REPEAT_PENALTY = 35;
+
+function toPageOutline(scene: PlannedScene): PageOutline {
+  return {
+    pageIndex: scene.pageNumber,
+    title: scene.title,
+    setting: scene.location,
+    action: scene.action,
+    props: scene.props,
+    compositionNotes: scene.composition,
+    noveltyTag: scene.title,
+  };
+}
+
+/**
+ * Move scenes that repeat an earlier volume of the series to a location
+ * no volume has used yet
+ */
+function avoidSeriesRepeats(
+  scenes: PlannedScene[],
+  seriesMemory: UsedElementsMemory,
+  brief: CreativeBrief
+): void {
+  const usedLocations = new Set([
+    ...seriesMemory.settings,
+    ...scenes.map(s => s.location.toLowerCase()),
+  ]);
+  const freshLocations = brief.primaryLocations.filter(l => !usedLocations.has(l.toLowerCase()));
+  const recentPages: PageOutline[] = [];
+
+  for (const scene of scenes) {
+    const outline = toPageOutline(scene);
+    const penalty = penalizeRepeats(outline, seriesMemory, recentPages);
+
+    if (penalty >= SERIES_REPEAT_PENALTY && freshLocations.length > 0) {
+      const location = freshLocations.shift()!;
+      console.log(`[batch/prompts] Page ${scene.pageNumber} repeats an earlier volume (penalty ${penalty}), moving "${scene.location}" to "${location}"`);
+      scene.location = location;
+      outline.setting = location;
+    }
+    recentPages.push(outline);
+  }
+}
+
 // ============================================================
 // STEP 3: BUILD FULL PAGE PROMPT
 // ============================================================
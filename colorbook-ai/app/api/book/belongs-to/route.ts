@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { generateImage, isOpenAIImageGenConfigured, type ImageSize as DalleImageSize } from "@/lib/services/openaiImageGen";
 import { z } from "zod";
+import { getImageEnhancer, type ImageEnhancerName } from "@/lib/services/imageEnhancers";
 import {
   buildFinalColoringPrompt,
   type ImageSize,
@@ -38,76 +39,25 @@ const requestSchema = z.object({
   style: z.enum(["cute", "playful", "elegant"]).default("cute"),
   // Whether to auto-process to Letter format
   autoProcess: z.boolean().default(true),
+  // The project's enhancer (settings.enhancer); omit for IMAGE_ENHANCER
+  enhancer: z.enum(["replicate", "local"]).optional(),
 });
 
 /**
- * Enhance image using Replicate API
+ * Enhance image with the selected enhancer, or null to reframe the original
  */
-async function enhanceImage(imageBase64: string, scale: number = 2): Promise<string | null> {
-  const apiToken = process.env.REPLICATE_API_TOKEN;
+async function enhanceImage(imageBase64: string, enhancerName?: ImageEnhancerName, scale: number = 2): Promise<string | null> {
+  const enhancer = getImageEnhancer(enhancerName);
   
-  if (!apiToken) {
-    console.log("[belongs-to] REPLICATE_API_TOKEN not configured, skipping enhancement");
+  if (!enhancer.isConfigured()) {
+    console.log(`[belongs-to] Enhancer "${enhancer.name}" not configured, skipping enhancement`);
     return null;
   }
 
   try {
-    const inputImage = `data:image/png;base64,${imageBase64}`;
-    
-    console.log(`[belongs-to] Enhancing image with scale=${scale}`);
-
-    const createResponse = await fetch("https://api.replicate.com/v1/predictions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${apiToken}`,
-        "Content-Type": "application/json",
-        "Prefer": "wait",
-      },
-      body: JSON.stringify({
-        version: "f121d640bd286e1fdc67f9799164c1d5be36ff74576ee11c803ae5b665dd46aa",
-        input: {
-          image: inputImage,
-          scale: scale,
-          face_enhance: false,
-        },
-      }),
-    });
-
-    if (!createResponse.ok) {
-      console.error("[belongs-to] Enhancement API error:", createResponse.status);
-      return null;
-    }
-
-    let prediction = await createResponse.json();
-
-    while (prediction.status === "starting" || prediction.status === "processing") {
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      const pollResponse = await fetch(`https://api.replicate.com/v1/predictions/${prediction.id}`, {
-        headers: { "Authorization": `Bearer ${apiToken}` },
-      });
-      
-      if (!pollResponse.ok) {
-        return null;
-      }
-      
-      prediction = await pollResponse.json();
-    }
-
-    if (prediction.status !== "succeeded") {
-      return null;
-    }
-
-    const output = prediction.output;
-    const enhancedUrl = typeof output === "string" ? output : (Array.isArray(output) ? output[0] : null);
-    
-    if (!enhancedUrl) return null;
-
-    const enhancedResponse = await fetch(enhancedUrl);
-    if (!enhancedResponse.ok) return null;
-    
-    const arrayBuffer = await enhancedResponse.arrayBuffer();
-    return Buffer.from(arrayBuffer).toString("base64");
+    console.log(`[belongs-to] Enhancing image with ${enhancer.name}, scale=${scale}`);
+    const result = await enhancer.enhance({ imageBase64, scale });
+    return result.imageBase64;
   } catch (error) {
     console.error("[belongs-to] Enhancement error:", error);
     return null;
@@ -120,7 +70,7 @@ async function enhanceImage(imageBase64: string, scale: number = 2): Promise<str
  * Generates a "Belongs To" page for a coloring book.
  * Includes auto-processing pipeline:
  * 1. Generate image
- * 2. Enhance (optional, via Replicate)
+ * 2. Enhance (optional, Replicate or the local line-art pipeline)
  * 3. Reframe to US Letter (2550x3300)
  */
 export async function POST(request: NextRequest) {
@@ -149,6 +99,7 @@ export async function POST(request: NextRequest) {
       labelText,
       style,
       autoProcess,
+      enhancer,
     } = parseResult.data;
 
     // Build character description for the prompt
@@ -239,7 +190,7 @@ This is a COLORING PAGE: pure black outlines on white background, NO fills, NO g
       let imageToProcess = originalBase64;
       let enhancedBase64: string | undefined;
       
-      const enhanced = await enhanceImage(originalBase64, 2);
+      const enhanced = await enhanceImage(originalBase64, enhancer);
       if (enhanced) {
         enhancedBase64 = enhanced;
         imageToProcess = enhanced;
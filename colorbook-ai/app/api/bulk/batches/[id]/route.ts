@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser, unauthorizedResponse } from "@/lib/supabase/server";
+import { getBulkBatch, updateBulkBatch, type BulkBatchInput } from "@/lib/bulkBatchStore";
+import { MAX_BOOKS_PER_BATCH, MAX_PAGES_PER_BOOK } from "@/lib/bulkBookTypes";
+
+/**
+ * GET /api/bulk/batches/[id]
+ *
+ * Load a bulk batch to resume it: book ideas, books and pages, with the
+ * generated pages as signed imageUrls from each book's project.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id: batchId } = await params;
+    const batch = await getBulkBatch(batchId, user.id);
+
+    if (!batch) {
+      return NextResponse.json(
+        { error: "Batch not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, batch });
+
+  } catch (error) {
+    console.error("[bulk/batches] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load bulk batch" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/bulk/batches/[id]
+ *
+ * Autosave the wizard state (replaces the saved ideas, books and progress).
+ */
+const bookIdeaSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  bookType: z.enum(["coloring_scenes", "quote_text"]),
+  concept: z.string(),
+  targetAge: z.enum(["kids", "teens", "adults", "all"]).optional(),
+  bookMode: z.enum(["storybook", "theme_book"]),
+  pageCount: z.number().int().min(1).max(MAX_PAGES_PER_BOOK),
+  isApproved: z.boolean(),
+  settings: z.record(z.any()),
+});
+
+const pageSchema = z.object({
+  id: z.string(),
+  index: z.number().int().min(1),
+  ideaText: z.string(),
+  finalPrompt: z.string(),
+  status: z.enum(["draft", "prompt_ready", "queued", "generating", "generated", "enhancing", "enhanced", "approved", "failed"]),
+}).passthrough();
+
+const bookSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  projectId: z.string().uuid().optional(),
+  pages: z.array(pageSchema).max(MAX_PAGES_PER_BOOK),
+}).passthrough();
+
+const updateSchema = z.object({
+  name: z.string().optional(),
+  currentStep: z.number().int().min(1).max(5),
+  bookIdeas: z.array(bookIdeaSchema).max(MAX_BOOKS_PER_BATCH),
+  batch: z.object({
+    status: z.enum(["draft", "generating", "paused", "completed", "failed"]),
+    books: z.array(bookSchema).max(MAX_BOOKS_PER_BATCH),
+  }).passthrough().nullable(),
+});
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id: batchId } = await params;
+    const body = await request.json();
+    const data = updateSchema.parse(body) as BulkBatchInput;
+
+    const updated = await updateBulkBatch(batchId, user.id, data);
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: "Batch not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.flatten() },
+        { status: 400 }
+      );
+    }
+    console.error("[bulk/batches] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save bulk batch" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser, unauthorizedResponse } from "@/lib/supabase/server";
+import { createBulkBatch, listBulkBatches, type BulkBatchInput } from "@/lib/bulkBatchStore";
+import { MAX_BOOKS_PER_BATCH, MAX_PAGES_PER_BOOK } from "@/lib/bulkBookTypes";
+
+/**
+ * GET /api/bulk/batches
+ *
+ * List the user's saved bulk batches, most recently updated first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const batches = await listBulkBatches(user.id);
+
+    return NextResponse.json({ success: true, batches });
+
+  } catch (error) {
+    console.error("[bulk/batches] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to list bulk batches" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/bulk/batches
+ *
+ * Save a new bulk batch. Images are never sent - page images are stored in
+ * each book's project as they are generated.
+ */
+const bookIdeaSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  bookType: z.enum(["coloring_scenes", "quote_text"]),
+  concept: z.string(),
+  targetAge: z.enum(["kids", "teens", "adults", "all"]).optional(),
+  bookMode: z.enum(["storybook", "theme_book"]),
+  pageCount: z.number().int().min(1).max(MAX_PAGES_PER_BOOK),
+  isApproved: z.boolean(),
+  settings: z.record(z.any()),
+});
+
+const pageSchema = z.object({
+  id: z.string(),
+  index: z.number().int().min(1),
+  ideaText: z.string(),
+  finalPrompt: z.string(),
+  status: z.enum(["draft", "prompt_ready", "queued", "generating", "generated", "enhancing", "enhanced", "approved", "failed"]),
+}).passthrough();
+
+const bookSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  projectId: z.string().uuid().optional(),
+  pages: z.array(pageSchema).max(MAX_PAGES_PER_BOOK),
+}).passthrough();
+
+const requestSchema = z.object({
+  name: z.string().optional(),
+  currentStep: z.number().int().min(1).max(5),
+  bookIdeas: z.array(bookIdeaSchema).max(MAX_BOOKS_PER_BATCH),
+  batch: z.object({
+    status: z.enum(["draft", "generating", "paused", "completed", "failed"]),
+    books: z.array(bookSchema).max(MAX_BOOKS_PER_BATCH),
+  }).passthrough().nullable(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+    const data = requestSchema.parse(body) as BulkBatchInput;
+
+    const batch = await createBulkBatch(user.id, data);
+
+    console.log(`[bulk/batches] Created batch ${batch.id} for user ${user.id}`);
+
+    return NextResponse.json({ success: true, batch });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.flatten() },
+        { status: 400 }
+      );
+    }
+    console.error("[bulk/batches] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save bulk batch" },
+      { status: 500 }
+    );
+  }
+}
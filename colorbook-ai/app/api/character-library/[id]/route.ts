@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser, unauthorizedResponse } from "@/lib/supabase/server";
+import {
+  deleteLibraryCharacter,
+  getLibraryCharacter,
+  updateLibraryCharacter,
+} from "@/lib/characterLibraryStore";
+
+/**
+ * GET /api/character-library/[id]
+ *
+ * Load a saved character with its usage history, newest first.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id: characterId } = await params;
+    const character = await getLibraryCharacter(characterId, user.id);
+
+    if (!character) {
+      return NextResponse.json(
+        { error: "Character not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, character });
+
+  } catch (error) {
+    console.error("[character-library] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load character" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/character-library/[id]
+ *
+ * Rename a character, edit its profile (e.g. doNotChange traits), or approve
+ * a character sheet from /api/ai/generate-character-sheet.
+ */
+const characterProfileSchema = z.object({
+  characterId: z.string(),
+  species: z.string(),
+  faceShape: z.string(),
+  eyeStyle: z.string(),
+  noseStyle: z.string(),
+  mouthStyle: z.string(),
+  earStyle: z.string(),
+  hornStyle: z.string().optional(),
+  hairTuft: z.string().optional(),
+  proportions: z.string(),
+  bodyShape: z.string(),
+  tailStyle: z.string().optional(),
+  wingStyle: z.string().optional(),
+  markings: z.string(),
+  defaultOutfit: z.string().optional(),
+  doNotChange: z.array(z.string()),
+  name: z.string().optional(),
+});
+
+const updateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  profile: characterProfileSchema.optional(),
+  sheetImageBase64: z.string().optional(),
+});
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id: characterId } = await params;
+    const body = await request.json();
+    const patch = updateSchema.parse(body);
+
+    const character = await updateLibraryCharacter(characterId, user.id, patch);
+
+    if (!character) {
+      return NextResponse.json(
+        { error: "Character not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, character });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.flatten() },
+        { status: 400 }
+      );
+    }
+    console.error("[character-library] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update character" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/character-library/[id]
+ *
+ * Delete a character with its sheet and usage history.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id: characterId } = await params;
+    const deleted = await deleteLibraryCharacter(characterId, user.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Character not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error("[character-library] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete character" },
+      { status: 500 }
+    );
+  }
+}
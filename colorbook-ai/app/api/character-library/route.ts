@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser, unauthorizedResponse, userOwnsProject } from "@/lib/supabase/server";
+import { createLibraryCharacter, listLibraryCharacters } from "@/lib/characterLibraryStore";
+
+/**
+ * GET /api/character-library
+ *
+ * List the user's saved characters with usage counts.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const characters = await listLibraryCharacters(user.id);
+
+    return NextResponse.json({ success: true, characters });
+
+  } catch (error) {
+    console.error("[character-library] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to list characters" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/character-library
+ *
+ * Save a storybook character identity profile (usually the one a create or
+ * batch project extracted) so later books can reuse it.
+ */
+const characterProfileSchema = z.object({
+  characterId: z.string(),
+  species: z.string(),
+  faceShape: z.string(),
+  eyeStyle: z.string(),
+  noseStyle: z.string(),
+  mouthStyle: z.string(),
+  earStyle: z.string(),
+  hornStyle: z.string().optional(),
+  hairTuft: z.string().optional(),
+  proportions: z.string(),
+  bodyShape: z.string(),
+  tailStyle: z.string().optional(),
+  wingStyle: z.string().optional(),
+  markings: z.string(),
+  defaultOutfit: z.string().optional(),
+  doNotChange: z.array(z.string()),
+  name: z.string().optional(),
+});
+
+const requestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  profile: characterProfileSchema,
+  sheetImageBase64: z.string().optional(),
+  sourceProjectId: z.string().uuid().optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+    const data = requestSchema.parse(body);
+
+    if (data.sourceProjectId && !(await userOwnsProject(data.sourceProjectId, user.id))) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const character = await createLibraryCharacter(user.id, data);
+
+    console.log(`[character-library] Created character ${character.id} for user ${user.id}`);
+
+    return NextResponse.json({ success: true, character });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.flatten() },
+        { status: 400 }
+      );
+    }
+    console.error("[character-library] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save character" },
+      { status: 500 }
+    );
+  }
+}
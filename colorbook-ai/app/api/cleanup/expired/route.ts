@@ -10,6 +10,7 @@
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServerClient, deleteFromStorage } from '@/lib/supabase/server';
+import type { AssetMeta } from '@/types/database';
 
 export const maxDuration = 300; // 5 minutes for batch processing
 
@@ -36,7 +37,7 @@ export async function POST(request: NextRequest) {
     // Find expired assets that haven't been cleaned up yet
     const { data: expiredAssetsRaw, error: queryError } = await supabase
       .from('generated_assets')
-      .select('id, storage_bucket, storage_path')
+      .select('id, storage_bucket, storage_path, meta')
       .eq('status', 'ready')
       .not('expires_at', 'is', null)
       .lt('expires_at', new Date().toISOString())
@@ -56,6 +57,7 @@ export async function POST(request: NextRequest) {
       id: string;
       storage_bucket: string;
       storage_path: string | null;
+      meta: AssetMeta | null;
     }>;
     
     if (expiredAssets.length === 0) {
@@ -74,7 +76,7 @@ export async function POST(request: NextRequest) {
     const errors: string[] = [];
     
     // Group by bucket for batch deletion
-    const byBucket = new Map<string, { id: string; path: string }[]>();
+    const byBucket = new Map<string, { id: string; paths: string[] }[]>();
     
     for (const asset of expiredAssets) {
       if (!asset.storage_path) continue;
@@ -85,13 +87,14 @@ export async function POST(request: NextRequest) {
       }
       byBucket.get(bucket)!.push({
         id: asset.id,
-        path: asset.storage_path,
+        // Page images may have a vector variant next to them
+        paths: asset.meta?.vector ? [asset.storage_path, asset.meta.vector.storagePath] : [asset.storage_path],
       });
     }
     
     // Delete from storage by bucket
     for (const [bucket, assets] of byBucket) {
-      const paths = assets.map(a => a.path);
+      const paths = assets.flatMap(a => a.paths);
       const assetIds = assets.map(a => a.id);
       
       try {
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isOpenAIImageGenConfigured } from "@/lib/services/openaiImageGen";
+import { sweepBatchJobs } from "@/lib/services/openaiBatchSweep";
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+// Finalizing downloads and uploads every page of a batch
+export const maxDuration = 300;
+export const runtime = "nodejs";
+
+// Stop starting new jobs with time left for the last finalize
+const SWEEP_BUDGET_MS = 180 * 1000;
+
+/**
+ * OpenAI batch sweep.
+ *
+ * Polls every non-terminal openai_batch_jobs row, finalizes completed
+ * batches, resubmits failed pages and marks failed/expired/cancelled
+ * batches. Invoked every 5 minutes by Vercel cron.
+ */
+export async function GET(request: NextRequest) {
+  // Verify cron secret
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = request.headers.get("x-cron-secret");
+
+  // Allow Vercel cron (uses Authorization: Bearer <CRON_SECRET>)
+  // Or custom header x-cron-secret
+  const providedSecret = cronSecret || authHeader?.replace("Bearer ", "");
+
+  if (CRON_SECRET && providedSecret !== CRON_SECRET) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!isOpenAIImageGenConfigured()) {
+    return NextResponse.json(
+      { error: "OpenAI API key not configured" },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const summary = await sweepBatchJobs({ budgetMs: SWEEP_BUDGET_MS });
+
+    if (summary.checked > 0) {
+      console.log(
+        `[batch-sweep] Checked ${summary.checked}, finalized ${summary.finalized}, resubmitted ${summary.resubmittedPages} pages`
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      sweptAt: new Date().toISOString(),
+      ...summary,
+    });
+  } catch (error) {
+    console.error("Batch sweep error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Batch sweep failed" },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isOpenAIImageGenConfigured } from "@/lib/services/openaiImageGen";
+import { runGenerationWorker } from "@/lib/generationQueue";
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+// One page can take up to 3 minutes of retries
+export const maxDuration = 300;
+
+// Leave headroom under maxDuration for the last page's upload
+const WORKER_BUDGET_MS = 290 * 1000;
+
+/**
+ * Generation queue worker.
+ *
+ * Claims queued pages from generation_jobs/project_prompts and generates
+ * them until the queue is empty or the time budget runs out. Invoked every
+ * minute by Vercel cron, or in a loop by scripts/generation-worker.mjs.
+ */
+export async function GET(request: NextRequest) {
+  // Verify cron secret
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = request.headers.get("x-cron-secret");
+
+  // Allow Vercel cron (uses Authorization: Bearer <CRON_SECRET>)
+  // Or custom header x-cron-secret
+  const providedSecret = cronSecret || authHeader?.replace("Bearer ", "");
+
+  if (CRON_SECRET && providedSecret !== CRON_SECRET) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!isOpenAIImageGenConfigured()) {
+    return NextResponse.json(
+      { error: "OpenAI API key not configured" },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const summary = await runGenerationWorker({ budgetMs: WORKER_BUDGET_MS });
+
+    if (summary.claimed > 0) {
+      console.log("[generation-worker] Run complete:", summary);
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+    });
+  } catch (error) {
+    console.error("Generation worker error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Generation worker failed" },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
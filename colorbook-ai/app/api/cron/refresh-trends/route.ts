@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/db";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
 import { fetchAllTrendSignals } from "@/lib/trends/fetchTrends";
 
 const CRON_SECRET = process.env.CRON_SECRET;
@@ -23,6 +23,7 @@ export async function GET(request: NextRequest) {
   }
 
   try {
+    const supabase = getSupabaseServerClient();
     const results: { region: string; periodDays: number; count: number }[] = [];
 
     for (const region of REGIONS) {
@@ -36,26 +37,34 @@ export async function GET(request: NextRequest) {
           const cutoffDate = new Date();
           cutoffDate.setDate(cutoffDate.getDate() - 30);
 
-          await prisma.trendSignal.deleteMany({
-            where: {
-              region,
-              periodDays,
-              collectedAt: { lt: cutoffDate },
-            },
-          });
+          const { error: deleteError } = await supabase
+            .from("trend_signals")
+            .delete()
+            .eq("region", region)
+            .eq("period_days", periodDays)
+            .lt("collected_at", cutoffDate.toISOString());
+
+          if (deleteError) {
+            throw new Error(deleteError.message);
+          }
 
           // Insert new signals
-          await prisma.trendSignal.createMany({
-            data: signals.map((s) => ({
+          const collectedAt = new Date().toISOString();
+          const { error: insertError } = await supabase
+            .from("trend_signals")
+            .insert(signals.map((s) => ({
               keyword: s.keyword,
               source: s.source,
               region,
-              periodDays,
+              period_days: periodDays,
               score: s.score,
-              raw: s.raw as object || null,
-              collectedAt: new Date(),
-            })),
-          });
+              raw: s.raw ?? null,
+              collected_at: collectedAt,
+            })));
+
+          if (insertError) {
+            throw new Error(insertError.message);
+          }
 
           results.push({ region, periodDays, count: signals.length });
         }
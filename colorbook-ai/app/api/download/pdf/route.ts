@@ -5,12 +5,18 @@
  * Returns proper streaming response with correct headers.
  */
 import { NextRequest, NextResponse } from 'next/server';
-import { getSupabaseServerClient } from '@/lib/supabase/server';
+import { getSupabaseServerClient, getSessionUser, unauthorizedResponse } from '@/lib/supabase/server';
+import { getProject } from '@/lib/projectStore';
 
 export const maxDuration = 60;
 
 export async function GET(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    
     const { searchParams } = new URL(request.url);
     const projectId = searchParams.get('projectId');
     
@@ -24,13 +30,16 @@ export async function GET(request: NextRequest) {
     const supabase = getSupabaseServerClient();
     
     // Get project info for filename
-    const { data: project } = await supabase
-      .from('projects')
-      .select('name')
-      .eq('id', projectId)
-      .single();
+    const project = await getProject(projectId, user.id);
+    
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found or access denied' },
+        { status: 404 }
+      );
+    }
     
-    const projectName = project?.name || 'coloring-book';
+    const projectName = project.name || 'coloring-book';
     
     // Get PDF asset from database
     const { data: pdfAsset } = await supabase
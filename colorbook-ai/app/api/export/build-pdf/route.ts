@@ -1,7 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
-import { getSupabaseServerClient, createSignedUrl } from "@/lib/supabase/server";
+import { getSupabaseServerClient, createSignedUrl, getSessionUser, unauthorizedResponse } from "@/lib/supabase/server";
+import { getProject } from "@/lib/projectStore";
+import { getProjectSeries } from "@/lib/seriesStore";
+import { formatSeriesVolumeLine } from "@/lib/series";
+import { assertExportFormat } from "@/lib/entitlements";
+import { isEntitlementError, entitlementErrorResponse } from "@/lib/errors/entitlementErrors";
+import { getInteriorLayout, getLiveAreaPt } from "@/lib/generationSpec";
+import { extractVectorPathData } from "@/lib/vectorizer";
 
 /**
  * Server-side PDF Generation
@@ -14,12 +21,20 @@ import { getSupabaseServerClient, createSignedUrl } from "@/lib/supabase/server"
  * 
  * Title and Copyright are rendered using pdf-lib fonts to avoid
  * SVG→PNG font rendering issues on serverless platforms.
+ *
+ * Page size, KDP margins (gutter grows with page count) and optional bleed
+ * come from the trim size - see getInteriorLayout() in lib/generationSpec.ts.
+ *
+ * Series volumes get "Book N of the X series" on the title page and the
+ * series' author and copyright text.
+ *
+ * With vectorPages, coloring pages that have a traced SVG variant (see
+ * lib/pageVectors.ts) are drawn as vector paths instead of embedded PNGs.
  */
 export const maxDuration = 300;
 
 const requestSchema = z.object({
   projectId: z.string().uuid(),
-  userId: z.string().uuid(),
   // Options
   includeTitlePage: z.boolean().default(true),
   includeCopyrightPage: z.boolean().default(true),
@@ -28,23 +43,33 @@ const requestSchema = z.object({
   // Book info
   bookTitle: z.string().default("My Coloring Book"),
   authorName: z.string().optional(),
+  // Trim size (defaults to the project's settings.trimSize, then 8.5x11)
+  trimSize: z.string().optional(),
+  bleed: z.boolean().default(false),
+  // Draw pages from their SVG variants where the fidelity check passed
+  vectorPages: z.boolean().default(false),
   // Preview mode
   previewMode: z.boolean().default(false),
   previewPageCount: z.number().default(5),
 });
 
-// PDF dimensions (72 DPI = 1 point per pixel)
-const PDF_WIDTH = 612;  // 8.5"
-const PDF_HEIGHT = 792; // 11"
-const MARGIN = 54;      // 0.75" margin
-
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
   
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    
     const body = await request.json();
     const data = requestSchema.parse(body);
     
+    // Previews stay available on every plan
+    if (!data.previewMode) {
+      await assertExportFormat(user.id, "pdf");
+    }
+    
     console.log(`[build-pdf] Starting for project ${data.projectId}`);
     
     const supabase = getSupabaseServerClient();
@@ -54,7 +79,7 @@ export async function POST(request: NextRequest) {
       .from("generated_assets")
       .select("*")
       .eq("project_id", data.projectId)
-      .eq("user_id", data.userId)
+      .eq("user_id", user.id)
       .eq("status", "ready")
       .order("page_number", { ascending: true });
     
@@ -76,6 +101,24 @@ export async function POST(request: NextRequest) {
     // Limit for preview mode
     const pagesToProcess = data.previewMode ? pageAssets.slice(0, data.previewPageCount) : pageAssets;
     
+    // Page geometry - margins are sized for the full book, even in preview
+    const project = await getProject(data.projectId, user.id);
+    const projectSeries = project?.series_id ? await getProjectSeries(data.projectId, user.id) : null;
+    const authorName = data.authorName || projectSeries?.series.authorName || undefined;
+    
+    const frontMatterCount =
+      (data.includeTitlePage ? 1 : 0) +
+      (data.includeCopyrightPage ? 1 : 0) +
+      (data.includeBelongsToPage && belongsToAsset ? 1 : 0);
+    const layout = getInteriorLayout(data.trimSize || project?.settings?.trimSize, {
+      pageCount: frontMatterCount + pageAssets.length,
+      bleed: data.bleed,
+    });
+    const PDF_WIDTH = layout.pageWidthPt;
+    const PDF_HEIGHT = layout.pageHeightPt;
+    
+    console.log(`[build-pdf] Trim ${layout.trimSize}${layout.bleed ? " + bleed" : ""}: ${PDF_WIDTH}x${PDF_HEIGHT}pt, gutter ${layout.insideMarginIn}in`);
+    
     // Create PDF document
     const pdfDoc = await PDFDocument.create();
     
@@ -93,21 +136,22 @@ export async function POST(request: NextRequest) {
     if (data.includeTitlePage) {
       const titlePage = pdfDoc.addPage([PDF_WIDTH, PDF_HEIGHT]);
       currentPageNum++;
+      const live = getLiveAreaPt(layout, currentPageNum);
       
-      // Draw decorative border
+      // Draw decorative border (inside the KDP margins)
       titlePage.drawRectangle({
-        x: MARGIN - 10,
-        y: MARGIN - 10,
-        width: PDF_WIDTH - (MARGIN - 10) * 2,
-        height: PDF_HEIGHT - (MARGIN - 10) * 2,
+        x: live.x,
+        y: live.y,
+        width: live.width,
+        height: live.height,
         borderColor: rgb(0.7, 0.7, 0.7),
         borderWidth: 2,
       });
       titlePage.drawRectangle({
-        x: MARGIN,
-        y: MARGIN,
-        width: PDF_WIDTH - MARGIN * 2,
-        height: PDF_HEIGHT - MARGIN * 2,
+        x: live.x + 10,
+        y: live.y + 10,
+        width: live.width - 20,
+        height: live.height - 20,
         borderColor: rgb(0.85, 0.85, 0.85),
         borderWidth: 1,
       });
@@ -117,7 +161,7 @@ export async function POST(request: NextRequest) {
       const titleFontSize = title.length > 25 ? 28 : title.length > 18 ? 32 : 38;
       const titleWidth = timesRomanBold.widthOfTextAtSize(title, titleFontSize);
       titlePage.drawText(title, {
-        x: (PDF_WIDTH - titleWidth) / 2,
+        x: live.x + (live.width - titleWidth) / 2,
         y: PDF_HEIGHT * 0.55,
         size: titleFontSize,
         font: timesRomanBold,
@@ -126,20 +170,20 @@ export async function POST(request: NextRequest) {
       
       // Decorative line
       const lineY = PDF_HEIGHT * 0.48;
-      const lineWidth = Math.min(titleWidth + 60, PDF_WIDTH - MARGIN * 2 - 40);
+      const lineWidth = Math.min(titleWidth + 60, live.width - 60);
       titlePage.drawLine({
-        start: { x: (PDF_WIDTH - lineWidth) / 2, y: lineY },
-        end: { x: (PDF_WIDTH + lineWidth) / 2, y: lineY },
+        start: { x: live.x + (live.width - lineWidth) / 2, y: lineY },
+        end: { x: live.x + (live.width + lineWidth) / 2, y: lineY },
         thickness: 1.5,
         color: rgb(0.4, 0.4, 0.4),
       });
       
       // Author (if provided)
-      if (data.authorName) {
-        const authorText = `by ${data.authorName}`;
+      if (authorName) {
+        const authorText = `by ${authorName}`;
         const authorWidth = timesRoman.widthOfTextAtSize(authorText, 18);
         titlePage.drawText(authorText, {
-          x: (PDF_WIDTH - authorWidth) / 2,
+          x: live.x + (live.width - authorWidth) / 2,
           y: PDF_HEIGHT * 0.40,
           size: 18,
           font: timesRoman,
@@ -147,12 +191,26 @@ export async function POST(request: NextRequest) {
         });
       }
       
+      // Series volume
+      if (projectSeries) {
+        const seriesText = formatSeriesVolumeLine(projectSeries.series.name, projectSeries.volume);
+        const seriesSize = seriesText.length > 50 ? 12 : 14;
+        const seriesWidth = timesRoman.widthOfTextAtSize(seriesText, seriesSize);
+        titlePage.drawText(seriesText, {
+          x: live.x + (live.width - seriesWidth) / 2,
+          y: PDF_HEIGHT * 0.33,
+          size: seriesSize,
+          font: timesRoman,
+          color: rgb(0.2, 0.2, 0.2),
+        });
+      }
+      
       // Footer
       const footerText = "A Coloring Book";
       const footerWidth = helvetica.widthOfTextAtSize(footerText, 14);
       titlePage.drawText(footerText, {
-        x: (PDF_WIDTH - footerWidth) / 2,
-        y: MARGIN + 30,
+        x: live.x + (live.width - footerWidth) / 2,
+        y: live.y + 30,
         size: 14,
         font: helvetica,
         color: rgb(0.5, 0.5, 0.5),
@@ -165,17 +223,18 @@ export async function POST(request: NextRequest) {
     if (data.includeCopyrightPage) {
       const copyrightPage = pdfDoc.addPage([PDF_WIDTH, PDF_HEIGHT]);
       currentPageNum++;
+      const live = getLiveAreaPt(layout, currentPageNum);
       
       const year = new Date().getFullYear();
-      const author = data.authorName || "The Author";
+      const author = authorName || "The Author";
       
       // Title of book
       const titleForCopyright = data.bookTitle;
       const titleSize = titleForCopyright.length > 30 ? 20 : 24;
       const titleWidth = timesRomanBold.widthOfTextAtSize(titleForCopyright, titleSize);
       copyrightPage.drawText(titleForCopyright, {
-        x: (PDF_WIDTH - titleWidth) / 2,
-        y: PDF_HEIGHT - MARGIN - 50,
+        x: live.x + (live.width - titleWidth) / 2,
+        y: live.y + live.height - 50,
         size: titleSize,
         font: timesRomanBold,
         color: rgb(0, 0, 0),
@@ -183,29 +242,37 @@ export async function POST(request: NextRequest) {
       
       // Separator line
       copyrightPage.drawLine({
-        start: { x: MARGIN + 100, y: PDF_HEIGHT - MARGIN - 70 },
-        end: { x: PDF_WIDTH - MARGIN - 100, y: PDF_HEIGHT - MARGIN - 70 },
+        start: { x: live.x + 100, y: live.y + live.height - 70 },
+        end: { x: live.x + live.width - 100, y: live.y + live.height - 70 },
         thickness: 0.5,
         color: rgb(0.7, 0.7, 0.7),
       });
       
       // Copyright text - centered block
+      // A series' copyright text replaces the default notice
+      const seriesNotice = projectSeries?.series.copyrightText
+        ?.split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .map((text) => ({ text, size: 11, bold: false, spacing: 18 }));
       const copyrightLines = [
         { text: `© ${year} ${author}`, size: 16, bold: false, spacing: 35 },
         { text: "All Rights Reserved", size: 14, bold: false, spacing: 50 },
-        { text: "No part of this publication may be reproduced,", size: 11, bold: false, spacing: 18 },
-        { text: "distributed, or transmitted in any form or by any means,", size: 11, bold: false, spacing: 18 },
-        { text: "without the prior written permission of the author.", size: 11, bold: false, spacing: 40 },
-        { text: "This coloring book is intended for personal use only.", size: 12, bold: false, spacing: 25 },
-        { text: "Commercial use is strictly prohibited.", size: 12, bold: false, spacing: 0 },
+        ...(seriesNotice?.length ? seriesNotice : [
+          { text: "No part of this publication may be reproduced,", size: 11, bold: false, spacing: 18 },
+          { text: "distributed, or transmitted in any form or by any means,", size: 11, bold: false, spacing: 18 },
+          { text: "without the prior written permission of the author.", size: 11, bold: false, spacing: 40 },
+          { text: "This coloring book is intended for personal use only.", size: 12, bold: false, spacing: 25 },
+          { text: "Commercial use is strictly prohibited.", size: 12, bold: false, spacing: 0 },
+        ]),
       ];
       
-      let y = PDF_HEIGHT - MARGIN - 130;
+      let y = live.y + live.height - 130;
       for (const line of copyrightLines) {
         const font = line.bold ? timesRomanBold : timesRoman;
         const width = font.widthOfTextAtSize(line.text, line.size);
         copyrightPage.drawText(line.text, {
-          x: (PDF_WIDTH - width) / 2,
+          x: live.x + (live.width - width) / 2,
           y,
           size: line.size,
           font,
@@ -218,8 +285,8 @@ export async function POST(request: NextRequest) {
       const footerText = "Created with ColorBook AI";
       const footerWidth = helvetica.widthOfTextAtSize(footerText, 10);
       copyrightPage.drawText(footerText, {
-        x: (PDF_WIDTH - footerWidth) / 2,
-        y: MARGIN + 20,
+        x: live.x + (live.width - footerWidth) / 2,
+        y: live.y + 20,
         size: 10,
         font: helvetica,
         color: rgb(0.6, 0.6, 0.6),
@@ -235,15 +302,14 @@ export async function POST(request: NextRequest) {
         if (img) {
           const belongsPage = pdfDoc.addPage([PDF_WIDTH, PDF_HEIGHT]);
           currentPageNum++;
+          const live = getLiveAreaPt(layout, currentPageNum);
           
-          // Scale image to fit page with margin
-          const maxW = PDF_WIDTH - MARGIN * 2;
-          const maxH = PDF_HEIGHT - MARGIN * 2;
-          const scale = Math.min(maxW / img.width, maxH / img.height);
+          // Scale image to fit the live area
+          const scale = Math.min(live.width / img.width, live.height / img.height);
           const w = img.width * scale;
           const h = img.height * scale;
-          const x = (PDF_WIDTH - w) / 2;
-          const y = (PDF_HEIGHT - h) / 2;
+          const x = live.x + (live.width - w) / 2;
+          const y = live.y + (live.height - h) / 2;
           
           belongsPage.drawImage(img, { x, y, width: w, height: h });
         }
@@ -256,28 +322,40 @@ export async function POST(request: NextRequest) {
     // 4. COLORING PAGES (images from storage)
     // ========================================
     let processedCount = 0;
+    let vectorCount = 0;
     const frontMatterPages = currentPageNum; // Track how many front matter pages
     
     for (const asset of pagesToProcess) {
       if (!asset.storage_path) continue;
       
       try {
-        const img = await embedImageFromStorage(pdfDoc, supabase, asset.storage_path);
-        if (!img) continue;
+        const vector = data.vectorPages && asset.meta?.vector?.fidelity?.passed
+          ? await loadVectorFromStorage(supabase, asset.storage_bucket, asset.meta.vector.storagePath)
+          : null;
+        const img = vector ? null : await embedImageFromStorage(pdfDoc, supabase, asset.storage_path);
+        const source = vector ?? img;
+        if (!source) continue;
         
         const page = pdfDoc.addPage([PDF_WIDTH, PDF_HEIGHT]);
         currentPageNum++;
+        const live = getLiveAreaPt(layout, currentPageNum);
         
-        // Scale to fit with margin
-        const maxW = PDF_WIDTH - MARGIN * 2;
-        const maxH = PDF_HEIGHT - MARGIN * 2 - (data.includePageNumbers ? 25 : 0);
-        const scale = Math.min(maxW / img.width, maxH / img.height);
-        const w = img.width * scale;
-        const h = img.height * scale;
-        const x = (PDF_WIDTH - w) / 2;
-        const y = data.includePageNumbers ? (PDF_HEIGHT - h) / 2 + 12 : (PDF_HEIGHT - h) / 2;
+        // Scale to fit the live area (page numbers sit in its bottom 25pt)
+        const numberSpace = data.includePageNumbers ? 25 : 0;
+        const maxH = live.height - numberSpace;
+        const scale = Math.min(live.width / source.width, maxH / source.height);
+        const w = source.width * scale;
+        const h = source.height * scale;
+        const x = live.x + (live.width - w) / 2;
+        const y = live.y + numberSpace + (maxH - h) / 2;
         
-        page.drawImage(img, { x, y, width: w, height: h });
+        if (vector) {
+          // SVG coordinates are y-down from the top-left corner
+          page.drawSvgPath(vector.pathData, { x, y: y + h, scale, color: rgb(0, 0, 0), borderWidth: 0 });
+          vectorCount++;
+        } else if (img) {
+          page.drawImage(img, { x, y, width: w, height: h });
+        }
         
         // Page number (for coloring pages only, starting from 1)
         if (data.includePageNumbers) {
@@ -285,8 +363,8 @@ export async function POST(request: NextRequest) {
           const numText = `- ${pageNum} -`;
           const numWidth = helvetica.widthOfTextAtSize(numText, 10);
           page.drawText(numText, {
-            x: (PDF_WIDTH - numWidth) / 2,
-            y: 28,
+            x: live.x + (live.width - numWidth) / 2,
+            y: live.y + 6,
             size: 10,
             font: helvetica,
             color: rgb(0.5, 0.5, 0.5),
@@ -303,7 +381,7 @@ export async function POST(request: NextRequest) {
     const pdfBytes = await pdfDoc.save();
     
     // Upload to storage
-    const pdfPath = `${data.userId}/${data.projectId}/exports/book.pdf`;
+    const pdfPath = `${user.id}/${data.projectId}/exports/book.pdf`;
     const { error: uploadError } = await supabase.storage
       .from("generated")
       .upload(pdfPath, pdfBytes, {
@@ -319,19 +397,27 @@ export async function POST(request: NextRequest) {
     const signedUrl = await createSignedUrl("generated", pdfPath, 3600);
     
     const elapsed = Date.now() - startTime;
-    console.log(`[build-pdf] Complete: ${processedCount} pages + ${frontMatterPages} front matter in ${elapsed}ms`);
+    console.log(`[build-pdf] Complete: ${processedCount} pages (${vectorCount} vector) + ${frontMatterPages} front matter in ${elapsed}ms`);
     
     return NextResponse.json({
       success: true,
       totalPages: currentPageNum,
       coloringPages: processedCount,
+      vectorPages: vectorCount,
       frontMatterPages,
+      trimSize: layout.trimSize,
+      bleed: layout.bleed,
+      pageWidthIn: layout.pageWidthIn,
+      pageHeightIn: layout.pageHeightIn,
       isPreview: data.previewMode,
       signedUrl,
       storagePath: pdfPath,
     });
     
   } catch (error) {
+    if (isEntitlementError(error)) {
+      return entitlementErrorResponse(error);
+    }
     console.error("[build-pdf] Error:", error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "PDF generation failed" },
@@ -369,3 +455,25 @@ async function embedImageFromStorage(
     return null;
   }
 }
+
+/**
+ * Helper to download a page's SVG variant and extract its path
+ */
+async function loadVectorFromStorage(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  bucket: string,
+  storagePath: string
+): Promise<{ pathData: string; width: number; height: number } | null> {
+  try {
+    const { data: file, error } = await supabase.storage.from(bucket).download(storagePath);
+    if (error || !file) {
+      console.error(`[build-pdf] Failed to download ${storagePath}, using raster:`, error);
+      return null;
+    }
+    return extractVectorPathData(await file.text());
+  } catch (err) {
+    console.error(`[build-pdf] Error loading vector ${storagePath}, using raster:`, err);
+    return null;
+  }
+}
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import JSZip from "jszip";
-import { getSupabaseServerClient, createSignedUrl } from "@/lib/supabase/server";
+import { getSupabaseServerClient, createSignedUrl, getSessionUser, unauthorizedResponse } from "@/lib/supabase/server";
+import { getProject } from "@/lib/projectStore";
+import { assertExportFormat } from "@/lib/entitlements";
+import { isEntitlementError, entitlementErrorResponse } from "@/lib/errors/entitlementErrors";
 
 /**
  * Server-side ZIP Generation
@@ -13,7 +16,6 @@ export const maxDuration = 300;
 
 const requestSchema = z.object({
   projectId: z.string().uuid(),
-  userId: z.string().uuid(),
   bookTitle: z.string().default("Coloring-Book"),
   includeMetadata: z.boolean().default(true),
   includePdf: z.boolean().default(false),
@@ -23,22 +25,24 @@ export async function POST(request: NextRequest) {
   const startTime = Date.now();
   
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    
     const body = await request.json();
     const data = requestSchema.parse(body);
     
+    await assertExportFormat(user.id, "zip");
+    
     console.log(`[build-zip] Starting for project ${data.projectId}`);
     
     const supabase = getSupabaseServerClient();
     
     // Fetch project details
-    const { data: project, error: projectError } = await supabase
-      .from("projects")
-      .select("*")
-      .eq("id", data.projectId)
-      .eq("user_id", data.userId)
-      .single();
+    const project = await getProject(data.projectId, user.id);
     
-    if (projectError || !project) {
+    if (!project) {
       return NextResponse.json({ error: "Project not found" }, { status: 404 });
     }
     
@@ -47,7 +51,7 @@ export async function POST(request: NextRequest) {
       .from("generated_assets")
       .select("*")
       .eq("project_id", data.projectId)
-      .eq("user_id", data.userId)
+      .eq("user_id", user.id)
       .eq("status", "ready")
       .order("page_number", { ascending: true });
     
@@ -182,7 +186,7 @@ ${data.includeMetadata ? "- metadata.json - Page titles and prompts\n" : ""}
     });
     
     // Upload to storage
-    const zipPath = `${data.userId}/${data.projectId}/exports/book.zip`;
+    const zipPath = `${user.id}/${data.projectId}/exports/book.zip`;
     const { error: uploadError } = await supabase.storage
       .from("generated")
       .upload(zipPath, zipBuffer, {
@@ -208,6 +212,9 @@ ${data.includeMetadata ? "- metadata.json - Page titles and prompts\n" : ""}
     });
     
   } catch (error) {
+    if (isEntitlementError(error)) {
+      return entitlementErrorResponse(error);
+    }
     console.error("[build-zip] Error:", error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "ZIP generation failed" },
@@ -0,0 +1,318 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  getSupabaseServerClient,
+  uploadToStorage,
+  createSignedUrl,
+  getRetentionHours,
+  calculateExpiresAt,
+  getSessionUser,
+  unauthorizedResponse,
+  userOwnsProject,
+} from "@/lib/supabase/server";
+import { getImageProvider } from "@/lib/services/imageProviders";
+import { assertExportFormat, assertImageQuota, recordImageUsage } from "@/lib/entitlements";
+import { assertSpendCap, recordImageCost, setCostContext } from "@/lib/generationCosts";
+import { isEntitlementError, entitlementErrorResponse } from "@/lib/errors/entitlementErrors";
+import { calculateCoverDimensions, type CoverDimensions } from "@/lib/kdpCover";
+import { buildCoverPdf } from "@/lib/kdpCoverPdf";
+import type { AssetMeta, AssetType } from "@/types/database";
+
+/**
+ * KDP Paperback Cover Export
+ *
+ * Builds a print-ready full-wrap cover PDF (back | spine | front) for the
+ * interior exported by /api/export/build-pdf:
+ * - spine width and bleed from trim size, page count and paper type
+ * - front art: an AI-generated colored cover or one of the book's pages
+ * - back-cover blurb, empty barcode zone and spine text
+ *
+ * The PDF is stored as a 'cover' asset; AI art is kept as a 'cover_image'
+ * asset and reused on rebuilds unless regenerateArt is set.
+ */
+export const maxDuration = 120;
+
+const requestSchema = z.object({
+  projectId: z.string().uuid(),
+  // Geometry
+  trimSize: z.string().default("8.5x11"),
+  pageCount: z.number().int().min(1),
+  paperType: z.enum(["white", "cream"]).default("white"),
+  // Front art
+  frontSource: z.enum(["ai", "page"]).default("ai"),
+  frontPageIndex: z.number().int().min(1).optional(),
+  artPrompt: z.string().max(1000).optional(),
+  regenerateArt: z.boolean().default(false),
+  // Text
+  bookTitle: z.string().min(1).default("My Coloring Book"),
+  subtitle: z.string().max(200).optional(),
+  authorName: z.string().max(100).optional(),
+  blurb: z.string().max(2000).optional(),
+  spineText: z.string().max(120).optional(),
+  backgroundColor: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional(),
+  // Proofing
+  showGuides: z.boolean().default(false),
+});
+
+type CoverRequest = z.infer<typeof requestSchema>;
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+    const data = requestSchema.parse(body);
+
+    if (!(await userOwnsProject(data.projectId, user.id))) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    await assertExportFormat(user.id, "pdf");
+
+    let dimensions: CoverDimensions;
+    try {
+      dimensions = calculateCoverDimensions({
+        trimSize: data.trimSize,
+        pageCount: data.pageCount,
+        paperType: data.paperType,
+      });
+    } catch (dimensionError) {
+      return NextResponse.json(
+        { error: dimensionError instanceof Error ? dimensionError.message : "Invalid cover size" },
+        { status: 400 }
+      );
+    }
+
+    if (data.frontSource === "page" && !data.frontPageIndex) {
+      return NextResponse.json(
+        { error: "frontPageIndex is required when frontSource is \"page\"" },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[export/cover] Building ${dimensions.fullWidthIn}x${dimensions.fullHeightIn}in cover for project ${data.projectId} (spine ${dimensions.spineWidthIn}in)`);
+
+    const frontImage = data.frontSource === "page"
+      ? await loadPageImage(data.projectId, user.id, data.frontPageIndex!)
+      : await getCoverArt(data, user.id);
+
+    if (!frontImage) {
+      return NextResponse.json(
+        { error: `Page ${data.frontPageIndex} has no image yet` },
+        { status: 404 }
+      );
+    }
+
+    const cover = await buildCoverPdf({
+      dimensions,
+      frontImage,
+      title: data.bookTitle,
+      subtitle: data.subtitle,
+      authorName: data.authorName,
+      blurb: data.blurb,
+      spineText: data.spineText,
+      backgroundColor: data.backgroundColor,
+      showGuides: data.showGuides,
+    });
+
+    const pdfPath = `${user.id}/${data.projectId}/exports/cover.pdf`;
+    const { path: uploadedPath, error: uploadError } = await uploadToStorage(
+      "generated",
+      pdfPath,
+      cover.pdfBytes,
+      "application/pdf"
+    );
+
+    if (uploadError) {
+      return NextResponse.json({ error: "Failed to upload cover PDF" }, { status: 500 });
+    }
+
+    await saveAsset(data.projectId, user.id, "cover", uploadedPath, "application/pdf", {
+      title: data.bookTitle,
+      fileSize: cover.pdfBytes.length,
+      warnings: cover.warnings,
+      cover: {
+        trimSize: dimensions.trimSize,
+        pageCount: dimensions.pageCount,
+        paperType: dimensions.paperType,
+        spineWidthIn: dimensions.spineWidthIn,
+        fullWidthIn: dimensions.fullWidthIn,
+        fullHeightIn: dimensions.fullHeightIn,
+        frontSource: data.frontSource,
+        frontPageIndex: data.frontPageIndex,
+      },
+    });
+
+    const signedUrl = await createSignedUrl("generated", uploadedPath, 3600);
+
+    return NextResponse.json({
+      success: true,
+      signedUrl,
+      storagePath: uploadedPath,
+      dimensions,
+      spineTextDrawn: cover.spineTextDrawn,
+      warnings: cover.warnings,
+    });
+
+  } catch (error) {
+    if (isEntitlementError(error)) {
+      return entitlementErrorResponse(error);
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.flatten() },
+        { status: 400 }
+      );
+    }
+    console.error("[export/cover] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Cover generation failed" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Stored AI cover art, or a newly generated one (counts as one image)
+ */
+async function getCoverArt(data: CoverRequest, userId: string): Promise<Buffer> {
+  const supabase = getSupabaseServerClient();
+
+  if (!data.regenerateArt) {
+    const { data: existing } = await supabase
+      .from("generated_assets")
+      .select("storage_path")
+      .eq("project_id", data.projectId)
+      .eq("asset_type", "cover_image")
+      .eq("status", "ready")
+      .maybeSingle();
+
+    if (existing?.storage_path) {
+      const stored = await downloadAsset(existing.storage_path);
+      if (stored) return stored;
+    }
+  }
+
+  await assertImageQuota(userId, 1);
+  await assertSpendCap(userId, data.projectId);
+  setCostContext({ userId, projectId: data.projectId, source: "export/cover" });
+
+  const prompt = buildCoverArtPrompt(data);
+  const provider = getImageProvider();
+  const size = "1024x1536";
+  const [imageBase64] = await provider.generate({ prompt, n: 1, size });
+
+  await recordImageCost({ provider: provider.name, model: provider.model, size, images: 1 });
+  if (!imageBase64) {
+    throw new Error("Failed to generate cover art");
+  }
+  await recordImageUsage(userId, 1);
+
+  const buffer = Buffer.from(imageBase64, "base64");
+  const { path: artPath, error: uploadError } = await uploadToStorage(
+    "generated",
+    `${userId}/${data.projectId}/cover/front-art.png`,
+    buffer,
+    "image/png"
+  );
+
+  if (uploadError) {
+    console.error("[export/cover] Cover art upload failed:", uploadError);
+  } else {
+    await saveAsset(data.projectId, userId, "cover_image", artPath, "image/png", {
+      prompt,
+      fileSize: buffer.length,
+    });
+  }
+
+  return buffer;
+}
+
+/**
+ * Colored front art - unlike interior pages this is full color, with room
+ * left at the top and bottom for the title and author bands
+ */
+function buildCoverArtPrompt(data: CoverRequest): string {
+  const subject = data.artPrompt || `Cover illustration for a coloring book titled "${data.bookTitle}"`;
+  return `${subject}
+
+Full-color, vibrant, print-quality book cover illustration. Portrait orientation.
+Fill the entire canvas edge to edge (the image will be trimmed slightly at every edge).
+Keep the top 25% and bottom 10% visually simple - the title and author name are placed there.
+Do NOT draw any text, letters, titles or logos.`;
+}
+
+async function loadPageImage(projectId: string, userId: string, pageIndex: number): Promise<Buffer | null> {
+  const supabase = getSupabaseServerClient();
+  const { data: asset } = await supabase
+    .from("generated_assets")
+    .select("storage_path")
+    .eq("project_id", projectId)
+    .eq("user_id", userId)
+    .eq("asset_type", "page_image")
+    .eq("page_number", pageIndex)
+    .eq("status", "ready")
+    .maybeSingle();
+
+  if (!asset?.storage_path) return null;
+  return downloadAsset(asset.storage_path);
+}
+
+async function downloadAsset(storagePath: string): Promise<Buffer | null> {
+  const supabase = getSupabaseServerClient();
+  const { data: fileData, error } = await supabase.storage
+    .from("generated")
+    .download(storagePath);
+
+  if (error || !fileData) {
+    console.error(`[export/cover] Failed to download ${storagePath}:`, error);
+    return null;
+  }
+  return Buffer.from(await fileData.arrayBuffer());
+}
+
+/**
+ * Insert or update the project's single cover/cover_image asset
+ */
+async function saveAsset(
+  projectId: string,
+  userId: string,
+  assetType: Extract<AssetType, "cover" | "cover_image">,
+  storagePath: string,
+  mimeType: string,
+  meta: AssetMeta
+): Promise<void> {
+  const supabase = getSupabaseServerClient();
+  const retentionHours = await getRetentionHours(userId);
+
+  const assetData = {
+    project_id: projectId,
+    user_id: userId,
+    asset_type: assetType,
+    storage_bucket: "generated",
+    storage_path: storagePath,
+    mime_type: mimeType,
+    status: "ready" as const,
+    expires_at: calculateExpiresAt(retentionHours),
+    meta: { ...meta, generatedAt: new Date().toISOString() },
+  };
+
+  const { data: existing } = await supabase
+    .from("generated_assets")
+    .select("id")
+    .eq("project_id", projectId)
+    .eq("asset_type", assetType)
+    .maybeSingle();
+
+  if (existing) {
+    await supabase.from("generated_assets").update(assetData).eq("id", existing.id);
+  } else {
+    await supabase.from("generated_assets").insert(assetData);
+  }
+}
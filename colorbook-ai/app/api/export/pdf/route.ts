@@ -2,11 +2,13 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { PDFDocument, rgb, StandardFonts } from "pdf-lib";
 import { 
-  LETTER_WIDTH, 
-  LETTER_HEIGHT, 
   base64ToBuffer,
   smartCropToLetter,
 } from "@/lib/imageProcessing";
+import { getInteriorLayout, getLiveAreaPt } from "@/lib/generationSpec";
+import { getSessionUser, unauthorizedResponse } from "@/lib/supabase/server";
+import { assertExportFormat } from "@/lib/entitlements";
+import { isEntitlementError, entitlementErrorResponse } from "@/lib/errors/entitlementErrors";
 
 export const maxDuration = 300; // 5 minutes for large PDFs
 
@@ -14,7 +16,7 @@ const pageImageSchema = z.object({
   pageIndex: z.number(),
   imageBase64: z.string(),
   title: z.string().optional(),
-  isProcessed: z.boolean().default(false), // Is it already US Letter size?
+  isProcessed: z.boolean().default(false), // Is it already sized for the trim's live area?
 });
 
 const requestSchema = z.object({
@@ -23,6 +25,9 @@ const requestSchema = z.object({
   includeTitlePage: z.boolean().default(true),
   includeCopyrightPage: z.boolean().default(true),
   includePageNumbers: z.boolean().default(true),
+  // Trim size ("8.5x11", "8x10", "6x9", "A4", "8.5x8.5") and optional 0.125" bleed
+  trimSize: z.string().default("8.5x11"),
+  bleed: z.boolean().default(false),
   // Title page content
   bookTitle: z.string().default("My Coloring Book"),
   authorName: z.string().optional(),
@@ -41,13 +46,24 @@ const requestSchema = z.object({
  * - Optional title page
  * - Optional copyright page  
  * - Page numbers
- * - US Letter format (8.5x11 @ 300 DPI = 2550x3300)
+ * - Any supported trim size, with KDP margins and optional bleed
+ *   (pages are reframed to the live area at 300 DPI)
  */
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    
     const body = await request.json();
     const data = requestSchema.parse(body);
     
+    // Previews stay available on every plan
+    if (!data.previewMode) {
+      await assertExportFormat(user.id, "pdf");
+    }
+    
     console.log(`[export-pdf] Starting PDF generation: ${data.pages.length} pages, preview: ${data.previewMode}`);
     
     // For preview mode, limit pages
@@ -62,9 +78,13 @@ export async function POST(request: NextRequest) {
     const font = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
     const regularFont = await pdfDoc.embedFont(StandardFonts.Helvetica);
     
-    // PDF page dimensions (72 DPI for PDF)
-    const PDF_WIDTH = 612;  // 8.5" * 72
-    const PDF_HEIGHT = 792; // 11" * 72
+    // PDF page dimensions (72 DPI for PDF) and KDP margins for the whole book
+    const layout = getInteriorLayout(data.trimSize, {
+      pageCount: (data.includeTitlePage ? 1 : 0) + (data.includeCopyrightPage ? 1 : 0) + data.pages.length,
+      bleed: data.bleed,
+    });
+    const PDF_WIDTH = layout.pageWidthPt;
+    const PDF_HEIGHT = layout.pageHeightPt;
     
     let pageNumber = 0;
     
@@ -72,13 +92,14 @@ export async function POST(request: NextRequest) {
     if (data.includeTitlePage) {
       const titlePage = pdfDoc.addPage([PDF_WIDTH, PDF_HEIGHT]);
       pageNumber++;
+      const live = getLiveAreaPt(layout, pageNumber);
       
       // Center the title
       const titleSize = 36;
       const titleWidth = font.widthOfTextAtSize(data.bookTitle, titleSize);
       
       titlePage.drawText(data.bookTitle, {
-        x: (PDF_WIDTH - titleWidth) / 2,
+        x: live.x + (live.width - titleWidth) / 2,
         y: PDF_HEIGHT / 2 + 50,
         size: titleSize,
         font,
@@ -92,7 +113,7 @@ export async function POST(request: NextRequest) {
         const authorWidth = regularFont.widthOfTextAtSize(authorText, authorSize);
         
         titlePage.drawText(authorText, {
-          x: (PDF_WIDTH - authorWidth) / 2,
+          x: live.x + (live.width - authorWidth) / 2,
           y: PDF_HEIGHT / 2 - 20,
           size: authorSize,
           font: regularFont,
@@ -105,18 +126,19 @@ export async function POST(request: NextRequest) {
     if (data.includeCopyrightPage) {
       const copyrightPage = pdfDoc.addPage([PDF_WIDTH, PDF_HEIGHT]);
       pageNumber++;
+      const live = getLiveAreaPt(layout, pageNumber);
       
       const copyrightYear = data.copyrightYear || new Date().getFullYear().toString();
       const copyrightText = data.copyrightText || 
         `© ${copyrightYear} All Rights Reserved\n\nThis coloring book is for personal use only.\nNo part may be reproduced without permission.`;
       
       const lines = copyrightText.split("\n");
-      let y = PDF_HEIGHT - 100;
+      let y = live.y + live.height - 28;
       
       for (const line of lines) {
         const size = 12;
         copyrightPage.drawText(line, {
-          x: 72, // 1" margin
+          x: live.x,
           y,
           size,
           font: regularFont,
@@ -130,13 +152,13 @@ export async function POST(request: NextRequest) {
     let processedCount = 0;
     for (const pageData of pagesToProcess) {
       try {
-        // Process image to US Letter if needed
+        // Reframe to the trim's live area at 300 DPI if needed
         let processedImageBase64 = pageData.imageBase64;
         
         if (!pageData.isProcessed) {
           const processed = await smartCropToLetter(pageData.imageBase64, {
-            targetWidth: LETTER_WIDTH,
-            targetHeight: LETTER_HEIGHT,
+            targetWidth: layout.artPixelWidth,
+            targetHeight: layout.artPixelHeight,
           });
           processedImageBase64 = processed.imageBase64;
         }
@@ -148,11 +170,12 @@ export async function POST(request: NextRequest) {
         // Add page
         const page = pdfDoc.addPage([PDF_WIDTH, PDF_HEIGHT]);
         pageNumber++;
+        const live = getLiveAreaPt(layout, pageNumber);
         
-        // Scale image to fit PDF page with small margin
-        const margin = 18; // 0.25" margin
-        const maxWidth = PDF_WIDTH - margin * 2;
-        const maxHeight = PDF_HEIGHT - margin * 2 - (data.includePageNumbers ? 20 : 0);
+        // Scale image to fit the live area (page numbers sit in its bottom 20pt)
+        const numberSpace = data.includePageNumbers ? 20 : 0;
+        const maxWidth = live.width;
+        const maxHeight = live.height - numberSpace;
         
         const scaleX = maxWidth / pdfImage.width;
         const scaleY = maxHeight / pdfImage.height;
@@ -162,10 +185,8 @@ export async function POST(request: NextRequest) {
         const scaledHeight = pdfImage.height * scale;
         
         // Center image
-        const x = (PDF_WIDTH - scaledWidth) / 2;
-        const y = data.includePageNumbers 
-          ? (PDF_HEIGHT - scaledHeight) / 2 + 10
-          : (PDF_HEIGHT - scaledHeight) / 2;
+        const x = live.x + (maxWidth - scaledWidth) / 2;
+        const y = live.y + numberSpace + (maxHeight - scaledHeight) / 2;
         
         page.drawImage(pdfImage, {
           x,
@@ -180,8 +201,8 @@ export async function POST(request: NextRequest) {
           const numWidth = regularFont.widthOfTextAtSize(pageNumText, 10);
           
           page.drawText(pageNumText, {
-            x: (PDF_WIDTH - numWidth) / 2,
-            y: 30,
+            x: live.x + (live.width - numWidth) / 2,
+            y: live.y + 4,
             size: 10,
             font: regularFont,
             color: rgb(0.5, 0.5, 0.5),
@@ -207,10 +228,15 @@ export async function POST(request: NextRequest) {
       pdfBase64,
       totalPages: pageNumber,
       processedPages: processedCount,
+      trimSize: layout.trimSize,
+      bleed: layout.bleed,
       isPreview: data.previewMode,
     });
 
   } catch (error) {
+    if (isEntitlementError(error)) {
+      return entitlementErrorResponse(error);
+    }
     console.error("[export-pdf] Error:", error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "PDF generation failed" },
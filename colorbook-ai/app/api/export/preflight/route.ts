@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  getSupabaseServerClient,
+  getSessionUser,
+  unauthorizedResponse,
+} from "@/lib/supabase/server";
+import { getProject } from "@/lib/projectStore";
+import { TRIM_SIZES_IN, normalizeTrimSize } from "@/lib/generationSpec";
+import { preflightPdf, preflightPageImages } from "@/lib/kdpPreflight";
+
+/**
+ * KDP Interior Preflight
+ *
+ * Reports KDP-rejection risks before upload (see lib/kdpPreflight.ts):
+ * page size vs trim, art in the margin/gutter, effective DPI, page count,
+ * embedded fonts, color on a B&W interior and blank pages.
+ *
+ * Sources:
+ * - "upload": a PDF built in the browser, uploaded to storage with
+ *   /api/export/preflight/upload-url (pdfPath) or, when small, sent inline (pdfBase64)
+ * - "export": the project's last /api/export/build-pdf output
+ * - "assets": the project's page images, before building the PDF
+ */
+export const maxDuration = 120;
+
+const requestSchema = z.object({
+  source: z.enum(["upload", "export", "assets"]),
+  projectId: z.string().uuid().optional(),
+  pdfPath: z.string().optional(),
+  pdfBase64: z.string().optional(),
+  // Defaults to the project's settings.trimSize, then 8.5x11
+  trimSize: z.string().optional(),
+  // Inferred from the page size when omitted (PDF sources)
+  bleed: z.boolean().optional(),
+  // "assets" source: title/copyright/belongs-to pages build-pdf will add
+  frontMatterPages: z.number().int().min(0).max(10).default(0),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+    const data = requestSchema.parse(body);
+
+    if (data.trimSize && !TRIM_SIZES_IN[normalizeTrimSize(data.trimSize)]) {
+      return NextResponse.json(
+        { error: `Unsupported trim size: ${data.trimSize}` },
+        { status: 400 }
+      );
+    }
+
+    if (data.source === "upload") {
+      if (data.pdfPath) {
+        return preflightUploadedPdf(data.pdfPath, user.id, { trimSize: data.trimSize, bleed: data.bleed });
+      }
+      if (!data.pdfBase64) {
+        return NextResponse.json(
+          { error: "pdfPath or pdfBase64 is required when source is \"upload\"" },
+          { status: 400 }
+        );
+      }
+
+      const pdfBytes = Buffer.from(data.pdfBase64.replace(/^data:application\/pdf;base64,/, ""), "base64");
+      const report = await preflightPdf(pdfBytes, { trimSize: data.trimSize, bleed: data.bleed });
+      return NextResponse.json({ success: true, report });
+    }
+
+    if (!data.projectId) {
+      return NextResponse.json(
+        { error: `projectId is required when source is "${data.source}"` },
+        { status: 400 }
+      );
+    }
+
+    const project = await getProject(data.projectId, user.id);
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const supabase = getSupabaseServerClient();
+    const trimSize = data.trimSize || project.settings.trimSize;
+
+    if (data.source === "export") {
+      const { data: fileData, error } = await supabase.storage
+        .from("generated")
+        .download(`${user.id}/${data.projectId}/exports/book.pdf`);
+
+      if (error || !fileData) {
+        return NextResponse.json(
+          { error: "No exported PDF found - build the PDF first" },
+          { status: 404 }
+        );
+      }
+
+      const pdfBytes = new Uint8Array(await fileData.arrayBuffer());
+      const report = await preflightPdf(pdfBytes, { trimSize, bleed: data.bleed });
+      return NextResponse.json({ success: true, report });
+    }
+
+    // source === "assets"
+    const { data: pageAssets, error: assetsError } = await supabase
+      .from("generated_assets")
+      .select("storage_path, page_number")
+      .eq("project_id", data.projectId)
+      .eq("user_id", user.id)
+      .eq("asset_type", "page_image")
+      .eq("status", "ready")
+      .order("page_number", { ascending: true });
+
+    if (assetsError) {
+      console.error("[export/preflight] Failed to load page assets:", assetsError);
+      return NextResponse.json({ error: "Failed to load page images" }, { status: 500 });
+    }
+
+    if (!pageAssets || pageAssets.length === 0) {
+      return NextResponse.json(
+        { error: "No page images found for this project" },
+        { status: 404 }
+      );
+    }
+
+    // A page that fails to download stays in the book as null - it is
+    // counted and reported missing rather than dropped
+    const images: (Buffer | null)[] = [];
+    for (const asset of pageAssets) {
+      const { data: fileData, error } = await supabase.storage
+        .from("generated")
+        .download(asset.storage_path);
+
+      if (error || !fileData) {
+        console.error(`[export/preflight] Failed to download page ${asset.page_number}:`, error);
+        images.push(null);
+        continue;
+      }
+      images.push(Buffer.from(await fileData.arrayBuffer()));
+    }
+
+    const report = await preflightPageImages(images, {
+      trimSize,
+      bleed: data.bleed,
+      frontMatterPages: data.frontMatterPages,
+    });
+    return NextResponse.json({ success: true, report });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.flatten() },
+        { status: 400 }
+      );
+    }
+    console.error("[export/preflight] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Preflight failed" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Preflight a PDF the user uploaded to their preflight folder, then delete it
+ */
+async function preflightUploadedPdf(
+  pdfPath: string,
+  userId: string,
+  options: { trimSize?: string; bleed?: boolean }
+): Promise<NextResponse> {
+  if (!pdfPath.startsWith(`${userId}/preflight/`) || pdfPath.includes("..")) {
+    return NextResponse.json(
+      { error: "Uploaded PDF not found or access denied" },
+      { status: 404 }
+    );
+  }
+
+  const supabase = getSupabaseServerClient();
+  try {
+    const { data: fileData, error } = await supabase.storage
+      .from("generated")
+      .download(pdfPath);
+
+    if (error || !fileData) {
+      return NextResponse.json(
+        { error: "Uploaded PDF not found - upload it again" },
+        { status: 404 }
+      );
+    }
+
+    const pdfBytes = new Uint8Array(await fileData.arrayBuffer());
+    const report = await preflightPdf(pdfBytes, options);
+    return NextResponse.json({ success: true, report });
+  } finally {
+    const { error } = await supabase.storage.from("generated").remove([pdfPath]);
+    if (error) {
+      console.error(`[export/preflight] Failed to delete ${pdfPath}:`, error);
+    }
+  }
+}
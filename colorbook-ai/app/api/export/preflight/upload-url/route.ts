@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+import {
+  getSupabaseServerClient,
+  getSessionUser,
+  unauthorizedResponse,
+} from "@/lib/supabase/server";
+
+/**
+ * POST /api/export/preflight/upload-url
+ *
+ * Signed upload URL for a PDF to preflight. Built books are far larger than
+ * a request body may be, so the browser uploads the PDF straight to storage
+ * and passes the returned pdfPath to /api/export/preflight, which deletes
+ * the file once it is checked.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const supabase = getSupabaseServerClient();
+    const { data, error } = await supabase.storage
+      .from("generated")
+      .createSignedUploadUrl(`${user.id}/preflight/${randomUUID()}.pdf`);
+
+    if (error || !data) {
+      console.error("[export/preflight/upload-url] Failed to create upload URL:", error);
+      return NextResponse.json({ error: "Failed to prepare the upload" }, { status: 500 });
+    }
+
+    return NextResponse.json({ pdfPath: data.path, token: data.token });
+
+  } catch (error) {
+    console.error("[export/preflight/upload-url] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to prepare the upload" },
+      { status: 500 }
+    );
+  }
+}
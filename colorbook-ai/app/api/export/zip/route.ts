@@ -7,6 +7,9 @@ import {
   LETTER_WIDTH,
   LETTER_HEIGHT,
 } from "@/lib/imageProcessing";
+import { getSessionUser, unauthorizedResponse } from "@/lib/supabase/server";
+import { assertExportFormat } from "@/lib/entitlements";
+import { isEntitlementError, entitlementErrorResponse } from "@/lib/errors/entitlementErrors";
 
 export const maxDuration = 300; // 5 minutes for large ZIPs
 
@@ -50,9 +53,16 @@ const requestSchema = z.object({
  */
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    
     const body = await request.json();
     const data = requestSchema.parse(body);
     
+    await assertExportFormat(user.id, "zip");
+    
     console.log(`[export-zip] Starting ZIP generation: ${data.pages.length} pages`);
     
     const zip = new JSZip();
@@ -188,6 +198,9 @@ ${data.includeMetadata ? "- metadata.json - Page titles and prompts\n" : ""}
     });
 
   } catch (error) {
+    if (isEntitlementError(error)) {
+      return entitlementErrorResponse(error);
+    }
     console.error("[export-zip] Error:", error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "ZIP generation failed" },
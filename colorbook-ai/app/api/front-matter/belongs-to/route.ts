@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import OpenAI from "openai";
+import { generateImage, isOpenAIImageGenConfigured } from "@/lib/services/openaiImageGen";
 import { 
   getSupabaseServerClient, 
   uploadToStorage, 
   createSignedUrl,
   getRetentionHours, 
-  calculateExpiresAt 
+  calculateExpiresAt,
+  getSessionUser,
+  unauthorizedResponse,
+  userOwnsProject
 } from "@/lib/supabase/server";
 import { sanitizeColoringPngBase64, isImageInvalid } from "@/lib/imageProcessing";
 
@@ -25,7 +28,6 @@ export const maxDuration = 120;
 
 const requestSchema = z.object({
   projectId: z.string().uuid(),
-  userId: z.string().uuid(),
   bookTitle: z.string().default("My Coloring Book"),
   // Character/theme info for matching
   mainCharacterDesc: z.string().optional(),
@@ -40,18 +42,33 @@ export async function POST(request: NextRequest) {
   const startTime = Date.now();
   
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    
     const body = await request.json();
     const data = requestSchema.parse(body);
     
+    if (!(await userOwnsProject(data.projectId, user.id))) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+    
+    if (!isOpenAIImageGenConfigured()) {
+      return NextResponse.json(
+        { error: "OpenAI API key not configured" },
+        { status: 503 }
+      );
+    }
+    
     console.log(`[belongs-to] Starting generation for project ${data.projectId}`);
     
     // Build the prompt based on available info
     const prompt = buildBelongsToPrompt(data);
     
-    const openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-    
     let imageBase64: string | null = null;
     let attempts = 0;
     let lastError: string | null = null;
@@ -62,15 +79,13 @@ export async function POST(request: NextRequest) {
       console.log(`[belongs-to] Attempt ${attempts}/${MAX_ATTEMPTS}`);
       
       try {
-        const response = await openai.images.generate({
-          model: "gpt-image-1",
+        const response = await generateImage({
           prompt,
           n: 1,
           size: "1024x1536", // Portrait aspect ratio
-          response_format: "b64_json",
         });
         
-        const rawBase64 = response.data?.[0]?.b64_json;
+        const rawBase64 = response.images[0];
         if (!rawBase64) {
           lastError = "No image returned from API";
           continue;
@@ -125,7 +140,7 @@ export async function POST(request: NextRequest) {
     
     // Upload to storage
     const imageBuffer = Buffer.from(imageBase64, "base64");
-    const storagePath = `${data.userId}/${data.projectId}/front/belongsTo.png`;
+    const storagePath = `${user.id}/${data.projectId}/front/belongsTo.png`;
     
     const { path: uploadedPath, error: uploadError } = await uploadToStorage(
       "generated",
@@ -147,7 +162,7 @@ export async function POST(request: NextRequest) {
     
     // Save to database
     const supabase = getSupabaseServerClient();
-    const retentionHours = await getRetentionHours(data.userId);
+    const retentionHours = await getRetentionHours(user.id);
     const expiresAt = calculateExpiresAt(retentionHours);
     
     // Check if existing asset
@@ -155,14 +170,14 @@ export async function POST(request: NextRequest) {
       .from("generated_assets")
       .select("id")
       .eq("project_id", data.projectId)
-      .eq("user_id", data.userId)
+      .eq("user_id", user.id)
       .eq("asset_type", "front_matter")
       .eq("meta->>frontMatterType", "belongsTo")
       .single();
     
     const assetData = {
       project_id: data.projectId,
-      user_id: data.userId,
+      user_id: user.id,
       asset_type: "front_matter" as const,
       storage_bucket: "generated",
       storage_path: uploadedPath,
@@ -6,8 +6,13 @@ import {
   uploadToStorage, 
   createSignedUrl,
   getRetentionHours, 
-  calculateExpiresAt 
+  calculateExpiresAt,
+  getSessionUser,
+  unauthorizedResponse,
+  userOwnsProject
 } from "@/lib/supabase/server";
+import { getProjectSeries } from "@/lib/seriesStore";
+import { formatSeriesVolumeLine } from "@/lib/series";
 
 /**
  * Front Matter Build API
@@ -15,6 +20,9 @@ import {
  * Generates front matter pages (title, copyright, belongs-to) as MONOCHROME PNGs.
  * Supports different variants and seeds for regeneration diversity.
  * Saves to Supabase storage and returns signed URLs.
+ *
+ * Volumes of a series default to the series' author, copyright text and
+ * template variant, and their title page reads "Book N of the X series".
  */
 export const maxDuration = 60;
 
@@ -23,7 +31,6 @@ type Variant = "minimal" | "classic" | "bordered";
 
 const requestSchema = z.object({
   projectId: z.string().uuid(),
-  userId: z.string().uuid(),
   key: z.enum(["title", "copyright", "belongsTo"]),
   bookTitle: z.string().default("My Coloring Book"),
   authorName: z.string().optional(),
@@ -40,22 +47,40 @@ const MARGIN = 90; // ~0.35" margin at 150 DPI
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    
     const body = await request.json();
     const data = requestSchema.parse(body);
     
+    if (!(await userOwnsProject(data.projectId, user.id))) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+    
+    const projectSeries = await getProjectSeries(data.projectId, user.id);
+    const series = projectSeries?.series;
+    
     // Determine variant from seed if not provided
     const variants: Variant[] = ["minimal", "classic", "bordered"];
-    const variant = data.variant || variants[(data.seed || 0) % variants.length];
+    const variant = data.variant || series?.frontMatter.variant || variants[(data.seed || 0) % variants.length];
+    const authorName = data.authorName || series?.authorName || undefined;
     
     console.log(`[front-matter/build] Building ${data.key} page, variant=${variant}, seed=${data.seed || 0}`);
     
     // Generate SVG content
     const svgContent = generateSVG(data.key, variant, {
       bookTitle: data.bookTitle,
-      authorName: data.authorName,
+      authorName,
       year: data.year,
       belongsToName: data.belongsToName,
       seed: data.seed || 0,
+      seriesLine: projectSeries ? formatSeriesVolumeLine(projectSeries.series.name, projectSeries.volume) : undefined,
+      copyrightText: series?.copyrightText || undefined,
     });
     
     // Convert to PNG
@@ -65,7 +90,7 @@ export async function POST(request: NextRequest) {
       .toBuffer();
     
     // Save to Supabase storage
-    const storagePath = `${data.userId}/${data.projectId}/front/${data.key}.png`;
+    const storagePath = `${user.id}/${data.projectId}/front/${data.key}.png`;
     const { path: uploadedPath, error: uploadError } = await uploadToStorage(
       "generated",
       storagePath,
@@ -80,12 +105,12 @@ export async function POST(request: NextRequest) {
     
     // Save asset record to database
     const supabase = getSupabaseServerClient();
-    const retentionHours = await getRetentionHours(data.userId);
+    const retentionHours = await getRetentionHours(user.id);
     const expiresAt = calculateExpiresAt(retentionHours);
     
     const assetData = {
       project_id: data.projectId,
-      user_id: data.userId,
+      user_id: user.id,
       asset_type: "front_matter" as const,
       storage_bucket: "generated",
       storage_path: uploadedPath,
@@ -97,7 +122,9 @@ export async function POST(request: NextRequest) {
         variant,
         seed: data.seed || 0,
         bookTitle: data.bookTitle,
-        authorName: data.authorName,
+        authorName,
+        seriesId: series?.id,
+        seriesVolume: projectSeries?.volume,
         fileSize: pngBuffer.length,
       },
     };
@@ -107,7 +134,7 @@ export async function POST(request: NextRequest) {
       .from("generated_assets")
       .select("id")
       .eq("project_id", data.projectId)
-      .eq("user_id", data.userId)
+      .eq("user_id", user.id)
       .eq("asset_type", "front_matter")
       .eq("meta->>frontMatterType", data.key)
       .single();
@@ -173,6 +200,10 @@ function generateSVG(
     year: string;
     belongsToName?: string;
     seed: number;
+    /** "Book N of the X series" for series volumes */
+    seriesLine?: string;
+    /** Replaces the default notice on the copyright page */
+    copyrightText?: string;
   }
 ): string {
   if (key === "title") {
@@ -190,12 +221,21 @@ function generateSVG(
 
 function generateTitleSVG(
   variant: Variant,
-  options: { bookTitle: string; authorName?: string; seed: number }
+  options: { bookTitle: string; authorName?: string; seed: number; seriesLine?: string }
 ): string {
   const title = escapeXml(options.bookTitle);
   const author = options.authorName ? escapeXml(options.authorName) : "";
+  const seriesLine = options.seriesLine ? escapeXml(options.seriesLine) : "";
   const centerX = WIDTH / 2;
   
+  // Series volumes: "Book N of the X series" above the footer
+  const seriesFont = variant === "bordered" ? "Arial, sans-serif" : "Georgia, serif";
+  const seriesLineSvg = seriesLine ? `
+      <text x="${centerX}" y="${HEIGHT * 0.74}" 
+            style="font-family: ${seriesFont}; font-size: 26px; font-style: italic; fill: #000000;"
+            text-anchor="middle">${seriesLine}</text>
+      ` : "";
+  
   // Truncate long titles
   const displayTitle = title.length > 28 ? title.substring(0, 25) + "..." : title;
   
@@ -218,6 +258,8 @@ function generateTitleSVG(
             text-anchor="middle">by ${author}</text>
       ` : ""}
       
+      ${seriesLineSvg}
+
       <text x="${centerX}" y="${HEIGHT * 0.90}" 
             style="font-family: Georgia, serif; font-size: 20px; fill: #555555;"
             text-anchor="middle">A Coloring Book</text>
@@ -258,6 +300,8 @@ function generateTitleSVG(
             text-anchor="middle">by ${author}</text>
       ` : ""}
       
+      ${seriesLineSvg}
+
       <text x="${centerX}" y="${HEIGHT * 0.88}" 
             style="font-family: Georgia, serif; font-size: 22px; fill: #333333;"
             text-anchor="middle">A Coloring Book</text>
@@ -293,6 +337,8 @@ function generateTitleSVG(
           text-anchor="middle">by ${author}</text>
     ` : ""}
     
+    ${seriesLineSvg}
+
     <text x="${centerX}" y="${HEIGHT * 0.88}" 
           style="font-family: Arial, sans-serif; font-size: 24px; fill: #333333;"
           text-anchor="middle">A Coloring Book</text>
@@ -305,7 +351,7 @@ function generateTitleSVG(
 
 function generateCopyrightSVG(
   variant: Variant,
-  options: { bookTitle: string; authorName?: string; year: string }
+  options: { bookTitle: string; authorName?: string; year: string; copyrightText?: string }
 ): string {
   const title = escapeXml(options.bookTitle);
   const author = options.authorName ? escapeXml(options.authorName) : "";
@@ -328,12 +374,14 @@ function generateCopyrightSVG(
             style="font-family: Georgia, serif; font-size: 22px; fill: #000000;"
             text-anchor="middle">All Rights Reserved</text>
       
+      ${options.copyrightText ? renderNotice(options.copyrightText, HEIGHT * 0.64, "Georgia, serif", 18) : `
       <text x="${centerX}" y="${HEIGHT * 0.64}" 
             style="font-family: Georgia, serif; font-size: 18px; fill: #333333;"
             text-anchor="middle">No part of this publication may be reproduced,</text>
       <text x="${centerX}" y="${HEIGHT * 0.68}" 
             style="font-family: Georgia, serif; font-size: 18px; fill: #333333;"
             text-anchor="middle">distributed, or transmitted without permission.</text>
+      `}
       
       <text x="${centerX}" y="${HEIGHT * 0.80}" 
             style="font-family: Georgia, serif; font-size: 20px; fill: #000000;"
@@ -370,6 +418,7 @@ function generateCopyrightSVG(
             style="font-family: Georgia, serif; font-size: 20px; fill: #000000;"
             text-anchor="middle">All Rights Reserved</text>
       
+      ${options.copyrightText ? renderNotice(options.copyrightText, HEIGHT * 0.74, "Georgia, serif", 16) : `
       <text x="${centerX}" y="${HEIGHT * 0.74}" 
             style="font-family: Georgia, serif; font-size: 16px; fill: #333333;"
             text-anchor="middle">No part of this publication may be reproduced,</text>
@@ -379,6 +428,7 @@ function generateCopyrightSVG(
       <text x="${centerX}" y="${HEIGHT * 0.82}" 
             style="font-family: Georgia, serif; font-size: 16px; fill: #333333;"
             text-anchor="middle">prior written permission.</text>
+      `}
       
       <text x="${centerX}" y="${HEIGHT * 0.92}" 
             style="font-family: Georgia, serif; font-size: 18px; fill: #555555;"
@@ -411,6 +461,7 @@ function generateCopyrightSVG(
           style="font-family: Arial, sans-serif; font-size: 24px; fill: #000000;"
           text-anchor="middle">All Rights Reserved</text>
     
+    ${options.copyrightText ? renderNotice(options.copyrightText, HEIGHT * 0.66, "Arial, sans-serif", 18) : `
     <text x="${centerX}" y="${HEIGHT * 0.66}" 
           style="font-family: Arial, sans-serif; font-size: 18px; fill: #333333;"
           text-anchor="middle">No part of this publication may be reproduced,</text>
@@ -420,6 +471,7 @@ function generateCopyrightSVG(
     <text x="${centerX}" y="${HEIGHT * 0.74}" 
           style="font-family: Arial, sans-serif; font-size: 18px; fill: #333333;"
           text-anchor="middle">without prior written permission.</text>
+    `}
     
     <text x="${centerX}" y="${HEIGHT * 0.86}" 
           style="font-family: Arial, sans-serif; font-size: 22px; fill: #000000;"
@@ -538,6 +590,22 @@ function generateBelongsToSVG(
   </svg>`;
 }
 
+/**
+ * Custom copyright notice (e.g. a series' copyright text) in place of the
+ * default legal lines - up to 3 lines, spaced like the defaults
+ */
+function renderNotice(text: string, startY: number, fontFamily: string, fontSize: number): string {
+  return text
+    .split("\n")
+    .map(line => line.trim())
+    .filter(Boolean)
+    .slice(0, 3)
+    .map((line, i) => `<text x="${WIDTH / 2}" y="${startY + i * HEIGHT * 0.04}" 
+            style="font-family: ${fontFamily}; font-size: ${fontSize}px; fill: #333333;"
+            text-anchor="middle">${escapeXml(line)}</text>`)
+    .join("\n");
+}
+
 /**
  * Escape XML special characters
  */
@@ -5,7 +5,10 @@ import {
   getSupabaseServerClient, 
   uploadToStorage, 
   getRetentionHours, 
-  calculateExpiresAt 
+  calculateExpiresAt,
+  getSessionUser,
+  unauthorizedResponse,
+  userOwnsProject
 } from "@/lib/supabase/server";
 
 /**
@@ -31,7 +34,6 @@ const requestSchema = z.object({
   }),
   // Supabase persistence (optional - if provided, saves to storage)
   projectId: z.string().uuid().optional(),
-  userId: z.string().uuid().optional(),
   saveToStorage: z.boolean().default(false),
 });
 
@@ -41,7 +43,8 @@ const requestSchema = z.object({
  * Generates a single front matter page as a PNG image.
  * Returns base64 encoded image that can be previewed and included in PDF.
  * 
- * Optionally saves to Supabase storage if projectId and userId are provided.
+ * Optionally saves to Supabase storage if projectId is provided and the
+ * signed-in user owns that project.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -55,7 +58,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { key, options, projectId, userId, saveToStorage } = parseResult.data;
+    const { key, options, projectId, saveToStorage } = parseResult.data;
+    
+    // Persisting requires a signed-in owner; plain rendering does not
+    let userId: string | undefined;
+    if (saveToStorage && projectId) {
+      const user = await getSessionUser(request);
+      if (!user) {
+        return unauthorizedResponse();
+      }
+      if (!(await userOwnsProject(projectId, user.id))) {
+        return NextResponse.json(
+          { error: "Project not found or access denied" },
+          { status: 404 }
+        );
+      }
+      userId = user.id;
+    }
     
     console.log(`[front-matter] Generating ${key} page (save=${saveToStorage})`);
     
@@ -10,7 +10,10 @@ import {
   getSupabaseServerClient, 
   getRetentionHours, 
   calculateExpiresAt,
-  uploadToStorage 
+  uploadToStorage,
+  getSessionUser,
+  unauthorizedResponse,
+  userOwnsProject
 } from '@/lib/supabase/server';
 import type { AssetMeta } from '@/types/database';
 
@@ -18,7 +21,6 @@ export const maxDuration = 60;
 
 const requestSchema = z.object({
   projectId: z.string().uuid(),
-  userId: z.string(),
   frontMatterType: z.enum(['title', 'copyright', 'belongsTo']),
   options: z.object({
     bookTitle: z.string().default('My Coloring Book'),
@@ -34,13 +36,25 @@ const requestSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    
     const body = await request.json();
     const data = requestSchema.parse(body);
     
+    if (!(await userOwnsProject(data.projectId, user.id))) {
+      return NextResponse.json(
+        { error: 'Project not found or access denied' },
+        { status: 404 }
+      );
+    }
+    
     const supabase = getSupabaseServerClient();
     
     // Get retention hours for expiry calculation
-    const retentionHours = await getRetentionHours(data.userId);
+    const retentionHours = await getRetentionHours(user.id);
     const expiresAt = calculateExpiresAt(retentionHours);
     
     // Create or update asset row
@@ -77,7 +91,7 @@ export async function POST(request: NextRequest) {
         .from('generated_assets')
         .insert({
           project_id: data.projectId,
-          user_id: data.userId,
+          user_id: user.id,
           asset_type: 'front_matter',
           status: 'generating',
           meta,
@@ -119,7 +133,7 @@ export async function POST(request: NextRequest) {
         .toBuffer();
       
       // Upload to storage
-      const storagePath = `${data.userId}/${data.projectId}/front-matter/${data.frontMatterType}.png`;
+      const storagePath = `${user.id}/${data.projectId}/front-matter/${data.frontMatterType}.png`;
       
       const { path, error: uploadError } = await uploadToStorage(
         'generated',
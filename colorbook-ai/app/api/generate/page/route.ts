@@ -10,9 +10,15 @@ import {
   getSupabaseServerClient, 
   getRetentionHours, 
   calculateExpiresAt,
-  uploadToStorage 
+  uploadToStorage,
+  getSessionUser,
+  unauthorizedResponse,
+  userOwnsProject
 } from '@/lib/supabase/server';
 import { generateImage, ImageSize } from '@/lib/services/openaiImageGen';
+import { assertImageQuota, assertPageLimit, recordImageUsage } from '@/lib/entitlements';
+import { isEntitlementError, entitlementErrorResponse } from '@/lib/errors/entitlementErrors';
+import { assertSpendCap, setCostContext } from '@/lib/generationCosts';
 import { buildFinalColoringPrompt } from '@/lib/coloringPagePromptEnforcer';
 import { validateGeneratedImage } from '@/lib/services/imageValidator';
 import { sanitizeColoringPngBase64 } from '@/lib/imageProcessing';
@@ -25,7 +31,6 @@ const MAX_WALL_TIME_MS = 120000; // 2 minutes
 
 const requestSchema = z.object({
   projectId: z.string().uuid(),
-  userId: z.string(),
   pageNumber: z.number(),
   prompt: z.string(),
   size: z.enum(['square', 'portrait', 'landscape']).default('portrait'),
@@ -48,13 +53,35 @@ export async function POST(request: NextRequest) {
   const startTime = Date.now();
   
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    
     const body = await request.json();
     const data = requestSchema.parse(body);
     
+    if (!(await userOwnsProject(data.projectId, user.id))) {
+      return NextResponse.json(
+        { error: 'Project not found or access denied' },
+        { status: 404 }
+      );
+    }
+    
+    await assertPageLimit(user.id, data.pageNumber);
+    await assertImageQuota(user.id, 1);
+    
+    setCostContext({
+      userId: user.id,
+      projectId: data.projectId,
+      pageIndex: data.pageNumber,
+      source: 'generate/page',
+    });
+    
     const supabase = getSupabaseServerClient();
     
     // Get retention hours for expiry calculation
-    const retentionHours = await getRetentionHours(data.userId);
+    const retentionHours = await getRetentionHours(user.id);
     const expiresAt = calculateExpiresAt(retentionHours);
     
     // Create or update asset row with status="generating"
@@ -96,7 +123,7 @@ export async function POST(request: NextRequest) {
         .from('generated_assets')
         .insert({
           project_id: data.projectId,
-          user_id: data.userId,
+          user_id: user.id,
           page_number: data.pageNumber,
           asset_type: 'page_image',
           status: 'generating',
@@ -136,6 +163,21 @@ export async function POST(request: NextRequest) {
         break;
       }
       
+      // Hard spend cap - stop retrying and leave the asset failed
+      try {
+        await assertSpendCap(user.id, data.projectId);
+      } catch (capError) {
+        if (!isEntitlementError(capError)) throw capError;
+        meta.error = capError.message;
+        meta.errorCode = capError.code;
+        await supabase
+          .from('generated_assets')
+          .update({ status: 'failed', meta })
+          .eq('id', assetId);
+        return entitlementErrorResponse(capError);
+      }
+      setCostContext({ attempt });
+      
       // Update meta with current attempt
       meta.attempts = attempt;
       await supabase
@@ -197,7 +239,7 @@ export async function POST(request: NextRequest) {
         }
         
         // Success! Upload to storage
-        const storagePath = `${data.userId}/${data.projectId}/pages/page-${data.pageNumber}.png`;
+        const storagePath = `${user.id}/${data.projectId}/pages/page-${data.pageNumber}.png`;
         const imageBuffer = Buffer.from(imageBase64, 'base64');
         
         const { path, error: uploadError } = await uploadToStorage(
@@ -228,6 +270,7 @@ export async function POST(request: NextRequest) {
           .eq('id', assetId);
         
         console.log(`[generate/page] Success on attempt ${attempt}! Asset ${assetId} ready`);
+        await recordImageUsage(user.id, 1);
         
         return NextResponse.json({
           success: true,
@@ -274,6 +317,9 @@ export async function POST(request: NextRequest) {
     });
     
   } catch (error) {
+    if (isEntitlementError(error)) {
+      return entitlementErrorResponse(error);
+    }
     console.error('[generate/page] Error:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Generation failed' },
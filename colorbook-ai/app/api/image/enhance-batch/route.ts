@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import { getSessionUser, unauthorizedResponse } from "@/lib/supabase/server";
 
 /**
  * Route segment config
@@ -12,6 +13,8 @@ const requestSchema = z.object({
     imageBase64: z.string(),
   })),
   scale: z.number().min(1).max(4).default(2),
+  // The project's enhancer (settings.enhancer); omit for IMAGE_ENHANCER
+  enhancer: z.enum(["replicate", "local"]).optional(),
 });
 
 interface EnhanceResult {
@@ -29,6 +32,11 @@ interface EnhanceResult {
  */
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const body = await request.json();
     const parseResult = requestSchema.safeParse(body);
 
@@ -39,7 +47,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { images, scale } = parseResult.data;
+    const { images, scale, enhancer } = parseResult.data;
     const results: EnhanceResult[] = [];
 
     console.log(`[enhance-batch] Starting batch enhancement of ${images.length} images`);
@@ -53,10 +61,15 @@ export async function POST(request: NextRequest) {
         // Call the single enhance endpoint
         const response = await fetch(new URL("/api/image/enhance", request.url), {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: {
+            "Content-Type": "application/json",
+            // Pass the caller's session on to the authenticated endpoint
+            ...authHeaders(request),
+          },
           body: JSON.stringify({
             imageBase64: image.imageBase64,
             scale,
+            enhancer,
           }),
         });
 
@@ -111,3 +124,14 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * The caller's session (bearer token or access token cookie) as headers
+ */
+function authHeaders(request: NextRequest): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const authorization = request.headers.get("authorization");
+  const cookie = request.headers.get("cookie");
+  if (authorization) headers.authorization = authorization;
+  if (cookie) headers.cookie = cookie;
+  return headers;
+}
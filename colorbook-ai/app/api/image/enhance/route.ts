@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import { getImageEnhancer } from "@/lib/services/imageEnhancers";
+import { getSessionUser, isSupabaseStorageUrl, unauthorizedResponse } from "@/lib/supabase/server";
 
 /**
  * Route segment config
@@ -12,6 +14,8 @@ const requestSchema = z.object({
   imageUrl: z.string().url().optional(),
   // Scale factor (2x default)
   scale: z.number().min(1).max(4).default(2),
+  // The project's enhancer (settings.enhancer); omit for IMAGE_ENHANCER
+  enhancer: z.enum(["replicate", "local"]).optional(),
 }).refine(data => data.imageBase64 || data.imageUrl, {
   message: "Either imageBase64 or imageUrl is required",
 });
@@ -19,22 +23,20 @@ const requestSchema = z.object({
 /**
  * POST /api/image/enhance
  * 
- * Upscales an image using Replicate's image enhancement models.
- * Uses HTTP API directly for reliability.
+ * Upscales an image with the selected image enhancer - Real-ESRGAN on
+ * Replicate, or the local sharp line-art pipeline.
  * Returns the enhanced image as base64.
+ *
+ * Requires a signed-in user. The local enhancer fetches imageUrl itself, so
+ * it only takes URLs from this app's Supabase Storage.
  */
 export async function POST(request: NextRequest) {
-  const apiToken = process.env.REPLICATE_API_TOKEN;
-  
-  if (!apiToken) {
-    console.error("[enhance] REPLICATE_API_TOKEN not configured");
-    return NextResponse.json(
-      { error: "Image enhancement service not configured. Please add REPLICATE_API_TOKEN to your environment." },
-      { status: 503 }
-    );
-  }
-
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const body = await request.json();
     const parseResult = requestSchema.safeParse(body);
 
@@ -46,109 +48,34 @@ export async function POST(request: NextRequest) {
     }
 
     const { imageBase64, imageUrl, scale } = parseResult.data;
+    const enhancer = getImageEnhancer(parseResult.data.enhancer);
 
-    // Prepare input image
-    let inputImage: string;
-    if (imageUrl) {
-      inputImage = imageUrl;
-    } else if (imageBase64) {
-      // Convert base64 to data URI for Replicate
-      inputImage = `data:image/png;base64,${imageBase64}`;
-    } else {
+    if (enhancer.name === "local" && !imageBase64 && imageUrl && !isSupabaseStorageUrl(imageUrl)) {
       return NextResponse.json(
-        { error: "No image provided" },
+        { error: "The local enhancer only accepts imageBase64 or an image URL from this app's storage" },
         { status: 400 }
       );
     }
 
-    console.log(`[enhance] Starting enhancement with scale=${scale}`);
-
-    // Use Replicate HTTP API directly
-    // Model: nightmareai/real-esrgan for reliable upscaling
-    const createResponse = await fetch("https://api.replicate.com/v1/predictions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${apiToken}`,
-        "Content-Type": "application/json",
-        "Prefer": "wait", // Wait for result instead of polling
-      },
-      body: JSON.stringify({
-        version: "f121d640bd286e1fdc67f9799164c1d5be36ff74576ee11c803ae5b665dd46aa",
-        input: {
-          image: inputImage,
-          scale: scale,
-          face_enhance: false,
-        },
-      }),
-    });
-
-    if (!createResponse.ok) {
-      const errorData = await createResponse.json().catch(() => ({}));
-      console.error("[enhance] Replicate API error:", errorData);
-      throw new Error(errorData.detail || `Replicate API error: ${createResponse.status}`);
-    }
-
-    let prediction = await createResponse.json();
-    console.log("[enhance] Prediction status:", prediction.status);
-
-    // If not completed yet, poll for result
-    while (prediction.status === "starting" || prediction.status === "processing") {
-      console.log("[enhance] Polling for result...");
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      const pollResponse = await fetch(`https://api.replicate.com/v1/predictions/${prediction.id}`, {
-        headers: {
-          "Authorization": `Bearer ${apiToken}`,
-        },
-      });
-      
-      if (!pollResponse.ok) {
-        throw new Error(`Failed to poll prediction: ${pollResponse.status}`);
-      }
-      
-      prediction = await pollResponse.json();
-      console.log("[enhance] Poll status:", prediction.status);
-    }
-
-    if (prediction.status === "failed") {
-      console.error("[enhance] Prediction failed:", prediction.error);
-      throw new Error(prediction.error || "Enhancement failed");
-    }
-
-    if (prediction.status !== "succeeded") {
-      throw new Error(`Unexpected prediction status: ${prediction.status}`);
-    }
-
-    // Get the output URL
-    const output = prediction.output;
-    let enhancedUrl: string;
-    
-    if (typeof output === "string") {
-      enhancedUrl = output;
-    } else if (Array.isArray(output) && output.length > 0) {
-      enhancedUrl = output[0];
-    } else {
-      console.error("[enhance] Unexpected output format:", output);
-      throw new Error("Unexpected output format from enhancement model");
+    if (!enhancer.isConfigured()) {
+      console.error(`[enhance] Enhancer "${enhancer.name}" not configured`);
+      return NextResponse.json(
+        { error: "Image enhancement service not configured. Please add REPLICATE_API_TOKEN to your environment or use the local enhancer." },
+        { status: 503 }
+      );
     }
 
-    console.log(`[enhance] Enhancement complete, fetching result from: ${enhancedUrl.slice(0, 50)}...`);
+    console.log(`[enhance] Starting enhancement with ${enhancer.name}, scale=${scale}`);
 
-    // Fetch the enhanced image and convert to base64
-    const enhancedResponse = await fetch(enhancedUrl);
-    if (!enhancedResponse.ok) {
-      throw new Error("Failed to fetch enhanced image");
-    }
-    
-    const arrayBuffer = await enhancedResponse.arrayBuffer();
-    const enhancedBase64 = Buffer.from(arrayBuffer).toString("base64");
+    const result = await enhancer.enhance({ imageBase64, imageUrl, scale });
 
-    console.log(`[enhance] Enhanced image size: ${enhancedBase64.length} chars`);
+    console.log(`[enhance] Enhanced image size: ${result.imageBase64.length} chars`);
 
     return NextResponse.json({
-      enhancedImageBase64: enhancedBase64,
-      enhancedImageUrl: enhancedUrl,
+      enhancedImageBase64: result.imageBase64,
+      enhancedImageUrl: result.imageUrl,
       scale,
+      enhancer: enhancer.name,
     });
 
   } catch (error) {
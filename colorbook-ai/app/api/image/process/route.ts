@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { processPageToLetter, LETTER_WIDTH, LETTER_HEIGHT } from "@/lib/imageProcessing";
+import { processPageToLetter, LETTER_WIDTH, LETTER_HEIGHT, base64ToBuffer, bufferToBase64 } from "@/lib/imageProcessing";
+import { getInteriorLayout, getLineWeightSpec } from "@/lib/generationSpec";
+import { getImageEnhancer } from "@/lib/services/imageEnhancers";
+import { normalizeLineWeight } from "@/lib/lineWeight";
+import { getSessionUser, unauthorizedResponse } from "@/lib/supabase/server";
+import { getProject } from "@/lib/projectStore";
 
 /**
  * Route segment config
@@ -11,111 +16,44 @@ const requestSchema = z.object({
   // Image to process (base64)
   imageBase64: z.string().min(1, "Image is required"),
   
-  // Whether to enhance first (via Replicate)
+  // Whether to enhance first
   enhance: z.boolean().default(true),
   
   // Enhancement scale factor
   enhanceScale: z.number().min(1).max(4).default(2),
   
+  // The project's enhancer (settings.enhancer); omit for IMAGE_ENHANCER
+  enhancer: z.enum(["replicate", "local"]).optional(),
+  
   // Margin for reframing (percentage)
   marginPercent: z.number().min(1).max(10).default(3),
   
-  // Page ID (for tracking)
-  pageId: z.string().optional(),
-});
-
-/**
- * Enhance image using Replicate API directly
- */
-async function enhanceImage(imageBase64: string, scale: number): Promise<string> {
-  const apiToken = process.env.REPLICATE_API_TOKEN;
+  // Reframe to this trim size's live area at 300 DPI instead of US Letter
+  trimSize: z.string().optional(),
+  // Interior page count (KDP gutter margin grows with it) and bleed
+  pageCount: z.number().int().min(1).default(24),
+  bleed: z.boolean().default(false),
   
-  if (!apiToken) {
-    throw new Error("REPLICATE_API_TOKEN not configured");
-  }
-
-  // Prepare data URL for Replicate
-  const inputImage = `data:image/png;base64,${imageBase64}`;
+  // Thicken/thin strokes of the final page to this line thickness
+  lineThickness: z.enum(["thin", "medium", "bold"]).optional(),
   
-  console.log(`[process] Enhancing image with scale=${scale}`);
-
-  // Create prediction
-  const createResponse = await fetch("https://api.replicate.com/v1/predictions", {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${apiToken}`,
-      "Content-Type": "application/json",
-      "Prefer": "wait",
-    },
-    body: JSON.stringify({
-      version: "f121d640bd286e1fdc67f9799164c1d5be36ff74576ee11c803ae5b665dd46aa",
-      input: {
-        image: inputImage,
-        scale: scale,
-        face_enhance: false,
-      },
-    }),
-  });
-
-  if (!createResponse.ok) {
-    const errorData = await createResponse.json().catch(() => ({}));
-    throw new Error(errorData.detail || `Replicate API error: ${createResponse.status}`);
-  }
-
-  let prediction = await createResponse.json();
-
-  // Poll for result if not completed
-  while (prediction.status === "starting" || prediction.status === "processing") {
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    const pollResponse = await fetch(`https://api.replicate.com/v1/predictions/${prediction.id}`, {
-      headers: { "Authorization": `Bearer ${apiToken}` },
-    });
-    
-    if (!pollResponse.ok) {
-      throw new Error(`Failed to poll prediction: ${pollResponse.status}`);
-    }
-    
-    prediction = await pollResponse.json();
-  }
-
-  if (prediction.status === "failed") {
-    throw new Error(prediction.error || "Enhancement failed");
-  }
-
-  if (prediction.status !== "succeeded") {
-    throw new Error(`Unexpected prediction status: ${prediction.status}`);
-  }
-
-  // Get the output URL
-  const output = prediction.output;
-  let enhancedUrl: string;
+  // The page's project: when its settings.normalizeLineWeight is on and no
+  // lineThickness is given, strokes are normalized to settings.lineThickness
+  projectId: z.string().uuid().optional(),
   
-  if (typeof output === "string") {
-    enhancedUrl = output;
-  } else if (Array.isArray(output) && output.length > 0) {
-    enhancedUrl = output[0];
-  } else {
-    throw new Error("Unexpected output format from enhancement model");
-  }
-
-  // Fetch and convert to base64
-  const enhancedResponse = await fetch(enhancedUrl);
-  if (!enhancedResponse.ok) {
-    throw new Error("Failed to fetch enhanced image");
-  }
-  
-  const arrayBuffer = await enhancedResponse.arrayBuffer();
-  return Buffer.from(arrayBuffer).toString("base64");
-}
+  // Page ID (for tracking)
+  pageId: z.string().optional(),
+});
 
 /**
  * POST /api/image/process
  * 
  * Unified image processing pipeline:
- * 1. Optionally enhance image (Replicate)
+ * 1. Optionally enhance image (Replicate or the local line-art pipeline)
  * 2. Reframe to US Letter format (2550x3300)
  * 3. Validate bottom fill
+ * 4. Optionally normalize line weight to the project's line thickness
+ *    (lineThickness, or the project's settings when normalizeLineWeight is on)
  * 
  * Returns processed image ready for PDF export.
  */
@@ -131,7 +69,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { imageBase64, enhance, enhanceScale, marginPercent, pageId } = parseResult.data;
+    const { imageBase64, enhance, enhanceScale, enhancer: enhancerName, marginPercent, trimSize, pageCount, bleed, projectId, pageId } = parseResult.data;
+    let { lineThickness } = parseResult.data;
+
+    if (projectId && !lineThickness) {
+      const user = await getSessionUser(request);
+      if (!user) {
+        return unauthorizedResponse();
+      }
+      const project = await getProject(projectId, user.id);
+      if (!project) {
+        return NextResponse.json(
+          { error: "Project not found or access denied" },
+          { status: 404 }
+        );
+      }
+      if (project.settings.normalizeLineWeight) {
+        lineThickness = getLineWeightSpec(project.settings).lineThickness;
+      }
+    }
     
     console.log(`[process] Starting pipeline for page ${pageId || "unknown"}`);
     console.log(`[process] Options: enhance=${enhance}, scale=${enhanceScale}, margin=${marginPercent}%`);
@@ -142,9 +98,11 @@ export async function POST(request: NextRequest) {
     // Step 1: Enhance (optional)
     if (enhance) {
       try {
-        enhancedBase64 = await enhanceImage(imageBase64, enhanceScale);
+        const enhancer = getImageEnhancer(enhancerName);
+        const enhanced = await enhancer.enhance({ imageBase64, scale: enhanceScale });
+        enhancedBase64 = enhanced.imageBase64;
         imageToProcess = enhancedBase64;
-        console.log(`[process] Enhancement complete`);
+        console.log(`[process] Enhancement complete (${enhancer.name})`);
       } catch (enhanceError) {
         console.error("[process] Enhancement failed:", enhanceError);
         // Continue with original image if enhancement fails
@@ -152,17 +110,35 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Step 2: Reframe to Letter format
-    console.log(`[process] Reframing to Letter format (${LETTER_WIDTH}x${LETTER_HEIGHT})`);
+    // Step 2: Reframe to Letter format (or the trim size's live area)
+    const layout = trimSize
+      ? getInteriorLayout(trimSize, { pageCount, bleed })
+      : null;
+    const targetWidth = layout?.artPixelWidth ?? LETTER_WIDTH;
+    const targetHeight = layout?.artPixelHeight ?? LETTER_HEIGHT;
+    console.log(`[process] Reframing to ${layout ? layout.trimSize : "Letter"} format (${targetWidth}x${targetHeight})`);
     const processResult = await processPageToLetter(imageToProcess, {
       marginPercent,
       validateBottom: true,
       retryWithSmallerMargin: true,
+      targetWidth,
+      targetHeight,
     });
 
     console.log(`[process] Reframe complete. Coverage: ${(processResult.validation.artworkCoverage * 100).toFixed(1)}%`);
     console.log(`[process] Bottom empty: ${(processResult.validation.bottomEmptyPercent * 100).toFixed(1)}%`);
 
+    // Step 3: Normalize line weight (the final page is already at 300 DPI)
+    let finalLetterBase64 = processResult.finalLetterBase64;
+    let lineWeight: Awaited<ReturnType<typeof normalizeLineWeight>> | undefined;
+    if (lineThickness) {
+      lineWeight = await normalizeLineWeight(base64ToBuffer(finalLetterBase64), lineThickness, {
+        printWidthPx: processResult.width,
+      });
+      finalLetterBase64 = bufferToBase64(lineWeight.buffer);
+      console.log(`[process] Line weight ${lineWeight.before.medianWidth}px -> ${lineWeight.after.medianWidth}px (${lineThickness})`);
+    }
+
     return NextResponse.json({
       pageId,
       
@@ -172,8 +148,8 @@ export async function POST(request: NextRequest) {
       // Enhanced image (if enhancement was done)
       enhancedBase64,
       
-      // Final Letter format (2550x3300) - use this for PDF
-      finalLetterBase64: processResult.finalLetterBase64,
+      // Final Letter format (2550x3300, or the trim's live area) - use this for PDF
+      finalLetterBase64,
       
       // Dimensions
       width: processResult.width,
@@ -191,6 +167,13 @@ export async function POST(request: NextRequest) {
       marginUsed: processResult.marginUsed,
       wasRetried: processResult.wasRetried,
       wasEnhanced: !!enhancedBase64,
+      
+      // Stroke widths before/after normalization (px at 300 DPI)
+      lineWeight: lineWeight && {
+        before: lineWeight.before,
+        after: lineWeight.after,
+        adjustedBy: lineWeight.adjustedBy,
+      },
     });
 
   } catch (error) {
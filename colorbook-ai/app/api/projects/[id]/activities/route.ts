@@ -0,0 +1,143 @@
+/**
+ * API route for adding activity pages to a project
+ *
+ * POST /api/projects/[id]/activities - Generate an activity page and insert it
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUser, unauthorizedResponse } from '@/lib/supabase/server';
+import { getProject } from '@/lib/projectStore';
+import { getActiveGenerationJob } from '@/lib/generationQueue';
+import { generateActivity } from '@/lib/activities';
+import { getProjectPageImage, insertActivityPages } from '@/lib/activities/projectPages';
+import { base64ToBuffer } from '@/lib/imageProcessing';
+
+export const maxDuration = 60;
+
+const insertActivitySchema = z.object({
+  type: z.enum(['maze', 'word_search', 'dot_to_dot']),
+  difficulty: z.enum(['easy', 'medium', 'hard']).default('medium'),
+  // Pass the seed of a previewed page to insert exactly that page
+  seed: z.string().max(64).optional(),
+  title: z.string().max(60).optional(),
+  includeSolution: z.boolean().default(true),
+  // 1-based page number for the puzzle; appended when omitted
+  position: z.number().int().min(1).optional(),
+  // Word search
+  words: z.array(z.string().max(40)).max(40).optional(),
+  theme: z.string().max(100).optional(),
+  audience: z.enum(['kids', 'teens', 'adults', 'all']).default('all'),
+  // Dot-to-dot: an uploaded page, or a page of this project
+  sourceImageBase64: z.string().optional(),
+  sourcePageNumber: z.number().int().min(1).optional(),
+})
+  .refine((d) => d.type !== 'word_search' || d.words?.length || d.theme, {
+    message: 'Word search needs words or a theme',
+    path: ['words'],
+  })
+  .refine((d) => d.type !== 'dot_to_dot' || d.sourceImageBase64 || d.sourcePageNumber, {
+    message: 'Dot-to-dot needs a source image or a page number',
+    path: ['sourceImageBase64'],
+  });
+
+/**
+ * POST /api/projects/[id]/activities
+ *
+ * Renders the activity at the project's trim size and inserts it into the
+ * page list: the puzzle at `position`, its solution at the end of the book.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id: projectId } = await params;
+    const body = await request.json();
+    const parseResult = insertActivitySchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: parseResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const data = parseResult.data;
+
+    const project = await getProject(projectId, user.id);
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    // The worker addresses pages by number - don't renumber under it
+    if (await getActiveGenerationJob(projectId)) {
+      return NextResponse.json(
+        { error: 'Pages are being generated for this project. Wait for the job to finish, or cancel it, before adding pages.' },
+        { status: 409 }
+      );
+    }
+
+    let sourceImage: Buffer | undefined;
+    if (data.type === 'dot_to_dot') {
+      if (data.sourceImageBase64) {
+        sourceImage = base64ToBuffer(data.sourceImageBase64);
+      } else {
+        const image = await getProjectPageImage(projectId, user.id, data.sourcePageNumber!);
+        if (!image) {
+          return NextResponse.json(
+            { error: `Page ${data.sourcePageNumber} has no image to trace` },
+            { status: 404 }
+          );
+        }
+        sourceImage = image;
+      }
+    }
+
+    const activity = await generateActivity({
+      type: data.type,
+      difficulty: data.difficulty,
+      seed: data.seed,
+      title: data.title,
+      trimSize: project.settings?.trimSize,
+      pageCount: project.prompts_generated_count || project.pages_requested,
+      includeSolution: data.includeSolution,
+      words: data.words,
+      theme: data.theme,
+      audience: data.audience,
+      sourceImage,
+    });
+
+    const pages = await insertActivityPages({
+      projectId,
+      userId: user.id,
+      activity,
+      position: data.position,
+    });
+
+    console.log(`[projects/activities] Added ${activity.type} to project ${projectId} at pages ${pages.map((p) => p.pageNumber).join(', ')}`);
+
+    return NextResponse.json({
+      success: true,
+      pages,
+      seed: activity.seed,
+      trimSize: activity.trimSize,
+      words: activity.words,
+      skippedWords: activity.skippedWords,
+    });
+
+  } catch (error) {
+    console.error('[projects/activities] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to add activity pages' },
+      { status: 500 }
+    );
+  }
+}
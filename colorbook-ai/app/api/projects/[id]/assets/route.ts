@@ -5,7 +5,7 @@
  * Returns assets with signed URLs for display.
  */
 import { NextRequest, NextResponse } from 'next/server';
-import { getSupabaseServerClient, createSignedUrl } from '@/lib/supabase/server';
+import { getSupabaseServerClient, createSignedUrl, getSessionUser, unauthorizedResponse } from '@/lib/supabase/server';
 import type { GeneratedAsset } from '@/types/database';
 
 // Cache signed URLs for 5 minutes to reduce API calls
@@ -38,6 +38,11 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    
     const { id: projectId } = await params;
     const { searchParams } = new URL(request.url);
     const includeSignedUrls = searchParams.get('signedUrls') !== 'false';
@@ -50,6 +55,7 @@ export async function GET(
       .from('generated_assets')
       .select('*')
       .eq('project_id', projectId)
+      .eq('user_id', user.id)
       .order('page_number', { ascending: true, nullsFirst: false })
       .order('created_at', { ascending: true });
     
@@ -6,7 +6,10 @@
  */
 import { NextRequest, NextResponse } from 'next/server';
 import JSZip from 'jszip';
-import { getSupabaseServerClient } from '@/lib/supabase/server';
+import { getSupabaseServerClient, getSessionUser, unauthorizedResponse } from '@/lib/supabase/server';
+import { getProject } from '@/lib/projectStore';
+import { assertExportFormat } from '@/lib/entitlements';
+import { isEntitlementError, entitlementErrorResponse } from '@/lib/errors/entitlementErrors';
 
 export const maxDuration = 300; // 5 minutes for large downloads
 
@@ -15,20 +18,23 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    
     const { id: projectId } = await params;
     const body = await request.json().catch(() => ({}));
     const includeTypes = body.types || ['page_image', 'front_matter'];
     
+    await assertExportFormat(user.id, 'zip');
+    
     const supabase = getSupabaseServerClient();
     
     // Get project info
-    const { data: project, error: projectError } = await supabase
-      .from('projects')
-      .select('name, settings')
-      .eq('id', projectId)
-      .single();
+    const project = await getProject(projectId, user.id);
     
-    if (projectError || !project) {
+    if (!project) {
       return NextResponse.json(
         { error: 'Project not found' },
         { status: 404 }
@@ -40,6 +46,7 @@ export async function POST(
       .from('generated_assets')
       .select('*')
       .eq('project_id', projectId)
+      .eq('user_id', user.id)
       .eq('status', 'ready')
       .in('asset_type', includeTypes)
       .order('page_number', { ascending: true });
@@ -172,6 +179,9 @@ Created with ColorBook AI
     });
     
   } catch (error) {
+    if (isEntitlementError(error)) {
+      return entitlementErrorResponse(error);
+    }
     console.error('[download-zip] Error:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to create ZIP' },
@@ -0,0 +1,238 @@
+/**
+ * API routes for a project's server-side generation job
+ *
+ * GET   /api/projects/[id]/generation-job - Active (or latest) job and its progress
+ * POST  /api/projects/[id]/generation-job - Queue pages for background generation
+ * PATCH /api/projects/[id]/generation-job - Pause, resume or cancel the active job
+ */
+import { NextRequest, NextResponse, after } from 'next/server';
+import { z } from 'zod';
+import { getSessionUser, unauthorizedResponse, userOwnsProject } from '@/lib/supabase/server';
+import { isOpenAIImageGenConfigured } from '@/lib/services/openaiImageGen';
+import { isEntitlementError, entitlementErrorResponse } from '@/lib/errors/entitlementErrors';
+import { assertImageQuota } from '@/lib/entitlements';
+import { assertSpendCap } from '@/lib/generationCosts';
+import {
+  enqueueGenerationJob,
+  getActiveGenerationJob,
+  getLatestGenerationJob,
+  runGenerationWorker,
+  updateGenerationJobStatus,
+} from '@/lib/generationQueue';
+
+// The first pages are generated right after the response is sent
+export const maxDuration = 300;
+
+const WORKER_BUDGET_MS = 290 * 1000;
+
+const createJobSchema = z.object({
+  // Omit to queue every page without an image
+  pageIndexes: z.array(z.number().int().min(1)).optional(),
+  size: z.enum(['1024x1024', '1024x1792', '1792x1024', '1024x1536', '1536x1024']).default('1024x1792'),
+  isStorybookMode: z.boolean().default(false),
+  characterProfile: z.record(z.string(), z.unknown()).optional(),
+  complexity: z.enum(['kids', 'simple', 'medium', 'detailed', 'ultra']).default('medium'),
+  validateOutline: z.boolean().default(true),
+  validateCharacter: z.boolean().default(true),
+  validateComposition: z.boolean().default(true),
+  // Regenerate a page once when it nearly repeats another page of the book
+  regenerateDuplicates: z.boolean().default(false),
+});
+
+const updateJobSchema = z.object({
+  action: z.enum(['pause', 'resume', 'cancel']),
+});
+
+/**
+ * GET /api/projects/[id]/generation-job
+ *
+ * Used by the create page to reconnect to a job after a reload.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id: projectId } = await params;
+
+    if (!(await userOwnsProject(projectId, user.id))) {
+      return NextResponse.json(
+        { error: 'Project not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const job = await getLatestGenerationJob(projectId);
+
+    return NextResponse.json({ success: true, job });
+
+  } catch (error) {
+    console.error('[projects/generation-job] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load generation job' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/projects/[id]/generation-job
+ *
+ * Queues the project's saved prompts (project_prompts) and starts a worker
+ * after the response. The cron worker picks up whatever is left.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!isOpenAIImageGenConfigured()) {
+    return NextResponse.json(
+      { error: 'OpenAI API key not configured' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id: projectId } = await params;
+
+    if (!(await userOwnsProject(projectId, user.id))) {
+      return NextResponse.json(
+        { error: 'Project not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const parseResult = createJobSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: parseResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { pageIndexes, ...settings } = parseResult.data;
+
+    // Fail fast instead of queueing a job that pauses on its first page
+    await assertImageQuota(user.id, 1);
+    await assertSpendCap(user.id, projectId);
+
+    const job = await enqueueGenerationJob({
+      projectId,
+      userId: user.id,
+      settings,
+      pageIndexes,
+    });
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'No pages to generate. Save prompts for this project first.' },
+        { status: 400 }
+      );
+    }
+
+    after(async () => {
+      try {
+        const summary = await runGenerationWorker({ budgetMs: WORKER_BUDGET_MS });
+        console.log('[projects/generation-job] Worker run:', summary);
+      } catch (error) {
+        console.error('[projects/generation-job] Worker error:', error);
+      }
+    });
+
+    return NextResponse.json({ success: true, job });
+
+  } catch (error) {
+    if (isEntitlementError(error)) {
+      return entitlementErrorResponse(error);
+    }
+    console.error('[projects/generation-job] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to queue generation' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/projects/[id]/generation-job
+ *
+ * Body: { action: "pause" | "resume" | "cancel" }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id: projectId } = await params;
+
+    if (!(await userOwnsProject(projectId, user.id))) {
+      return NextResponse.json(
+        { error: 'Project not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { action } = updateJobSchema.parse(body);
+
+    const activeJob = await getActiveGenerationJob(projectId);
+    if (!activeJob) {
+      return NextResponse.json(
+        { error: 'No active generation job' },
+        { status: 404 }
+      );
+    }
+
+    if (action === 'resume') {
+      await assertImageQuota(user.id, 1);
+      await assertSpendCap(user.id, projectId);
+    }
+
+    const job = await updateGenerationJobStatus(activeJob, action);
+
+    if (action === 'resume') {
+      after(async () => {
+        try {
+          await runGenerationWorker({ budgetMs: WORKER_BUDGET_MS });
+        } catch (error) {
+          console.error('[projects/generation-job] Worker error:', error);
+        }
+      });
+    }
+
+    return NextResponse.json({ success: true, job });
+
+  } catch (error) {
+    if (isEntitlementError(error)) {
+      return entitlementErrorResponse(error);
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.flatten() },
+        { status: 400 }
+      );
+    }
+    console.error('[projects/generation-job] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update generation job' },
+      { status: 500 }
+    );
+  }
+}
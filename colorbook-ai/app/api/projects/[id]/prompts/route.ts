@@ -6,7 +6,35 @@
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { getSupabaseServerClient } from '@/lib/supabase/server';
+import { getSessionUser, unauthorizedResponse } from '@/lib/supabase/server';
+import {
+  getProject,
+  listProjectPrompts,
+  saveProjectPrompts,
+  updateProject,
+  updateProjectPrompt,
+} from '@/lib/projectStore';
+
+// lib/quotePagePromptEnforcer.ts QuotePageConfig
+const quotePageConfigSchema = z.object({
+  quote: z.string(),
+  decorationTheme: z.enum(['floral', 'stars', 'mandala', 'hearts', 'nature', 'geometric', 'doodles', 'mixed']),
+  typographyStyle: z.enum(['bubble', 'script', 'block', 'mixed']),
+  density: z.enum(['low', 'medium', 'high']),
+  frameStyle: z.enum(['none', 'thin', 'corners']),
+  decorationLevel: z.enum(['text_only', 'minimal_icons', 'border_only', 'full_background']),
+  iconSet: z.enum(['stars', 'hearts', 'doodles', 'sports', 'kids']).optional(),
+  topic: z.enum([
+    'ambition', 'self_love', 'confidence', 'family', 'friendship', 'love', 'gratitude', 'calm', 'sports',
+    'study', 'health', 'humor', 'faith', 'travel', 'creativity', 'nature_wonder', 'general',
+  ]).optional(),
+  keywords: z.array(z.string()).optional(),
+  motifPack: z.array(z.string()).optional(),
+  pageNumber: z.number().int().optional(),
+  totalPages: z.number().int().optional(),
+  textRendering: z.enum(['ai', 'vector']).optional(),
+  fontId: z.string().optional(),
+});
 
 const promptSchema = z.object({
   pageIndex: z.number().int().min(1),
@@ -14,11 +42,12 @@ const promptSchema = z.object({
   promptText: z.string(),
   sceneDescription: z.string().optional(),
   status: z.enum(['ready', 'generating_image', 'image_done', 'image_failed']).default('ready'),
+  // Quote book pages keep the settings their prompt was built from
+  quoteConfig: quotePageConfigSchema.optional(),
 });
 
 const savePromptsSchema = z.object({
   prompts: z.array(promptSchema),
-  userId: z.string(),
   // If true, will upsert (update existing or insert new)
   upsert: z.boolean().default(true),
 });
@@ -33,80 +62,36 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    
     const { id: projectId } = await params;
     const body = await request.json();
     const data = savePromptsSchema.parse(body);
     
-    const supabase = getSupabaseServerClient();
-    
     // Verify project exists and belongs to user
-    const { data: project, error: projectError } = await supabase
-      .from('projects')
-      .select('id, user_id, pages_requested')
-      .eq('id', projectId)
-      .eq('user_id', data.userId)
-      .single();
-    
-    if (projectError || !project) {
+    const project = await getProject(projectId, user.id);
+    
+    if (!project) {
       return NextResponse.json(
         { error: 'Project not found or access denied' },
         { status: 404 }
       );
     }
     
-    // Prepare prompts for insertion
-    const promptsToSave = data.prompts.map(p => ({
-      project_id: projectId,
-      user_id: data.userId,
-      page_index: p.pageIndex,
-      title: p.title || `Page ${p.pageIndex}`,
-      prompt_text: p.promptText,
-      scene_description: p.sceneDescription || null,
-      status: p.status,
-    }));
-    
-    let result;
-    
-    if (data.upsert) {
-      // Upsert - update if exists, insert if not
-      const { data: savedPrompts, error } = await supabase
-        .from('project_prompts')
-        .upsert(promptsToSave, {
-          onConflict: 'project_id,page_index',
-          ignoreDuplicates: false,
-        })
-        .select();
-      
-      result = { savedPrompts, error };
-    } else {
-      // Insert only
-      const { data: savedPrompts, error } = await supabase
-        .from('project_prompts')
-        .insert(promptsToSave)
-        .select();
-      
-      result = { savedPrompts, error };
-    }
-    
-    if (result.error) {
-      console.error('[prompts] Save error:', result.error);
-      return NextResponse.json(
-        { error: result.error.message },
-        { status: 500 }
-      );
-    }
+    const savedPrompts = await saveProjectPrompts(projectId, user.id, data.prompts, {
+      mode: data.upsert ? 'upsert' : 'insert',
+    });
     
-    // Update project prompts count
-    const { error: updateError } = await supabase
-      .from('projects')
-      .update({
-        prompts_generated_count: data.prompts.length,
-        status: 'generating', // Project now has prompts
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', projectId);
-    
-    if (updateError) {
+    // Update project prompts count - the project now has prompts
+    try {
+      await updateProject(projectId, user.id, {
+        promptsGeneratedCount: data.prompts.length,
+        status: 'generating',
+      });
+    } catch (updateError) {
       console.warn('[prompts] Failed to update project count:', updateError);
     }
     
@@ -114,8 +99,8 @@ export async function POST(
     
     return NextResponse.json({
       success: true,
-      savedCount: result.savedPrompts?.length || 0,
-      prompts: result.savedPrompts,
+      savedCount: savedPrompts.length,
+      prompts: savedPrompts,
     });
     
   } catch (error) {
@@ -137,39 +122,19 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { id: projectId } = await params;
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
-    
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'userId is required' },
-        { status: 400 }
-      );
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
     }
     
-    const supabase = getSupabaseServerClient();
-    
-    // Get prompts for the project
-    const { data: prompts, error } = await supabase
-      .from('project_prompts')
-      .select('*')
-      .eq('project_id', projectId)
-      .eq('user_id', userId)
-      .order('page_index', { ascending: true });
+    const { id: projectId } = await params;
     
-    if (error) {
-      console.error('[prompts] Get error:', error);
-      return NextResponse.json(
-        { error: error.message },
-        { status: 500 }
-      );
-    }
+    const prompts = await listProjectPrompts(projectId, user.id);
     
     return NextResponse.json({
       success: true,
-      prompts: prompts || [],
-      count: prompts?.length || 0,
+      prompts,
+      count: prompts.length,
     });
     
   } catch (error) {
@@ -188,7 +153,6 @@ export async function GET(
  */
 const updatePromptSchema = z.object({
   pageIndex: z.number().int().min(1),
-  userId: z.string(),
   status: z.enum(['ready', 'generating_image', 'image_done', 'image_failed']).optional(),
   title: z.string().optional(),
   promptText: z.string().optional(),
@@ -199,34 +163,22 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    
     const { id: projectId } = await params;
     const body = await request.json();
     const data = updatePromptSchema.parse(body);
     
-    const supabase = getSupabaseServerClient();
-    
-    const updateData: Record<string, unknown> = {
-      updated_at: new Date().toISOString(),
-    };
+    const { pageIndex, ...patch } = data;
+    const prompt = await updateProjectPrompt(projectId, user.id, pageIndex, patch);
     
-    if (data.status !== undefined) updateData.status = data.status;
-    if (data.title !== undefined) updateData.title = data.title;
-    if (data.promptText !== undefined) updateData.prompt_text = data.promptText;
-    
-    const { data: prompt, error } = await supabase
-      .from('project_prompts')
-      .update(updateData)
-      .eq('project_id', projectId)
-      .eq('page_index', data.pageIndex)
-      .eq('user_id', data.userId)
-      .select()
-      .single();
-    
-    if (error) {
-      console.error('[prompts] Update error:', error);
+    if (!prompt) {
       return NextResponse.json(
-        { error: error.message },
-        { status: 500 }
+        { error: 'Prompt not found' },
+        { status: 404 }
       );
     }
     
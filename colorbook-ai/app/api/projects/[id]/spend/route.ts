@@ -0,0 +1,61 @@
+/**
+ * API route for project spend
+ *
+ * GET /api/projects/[id]/spend - Estimated generation cost of a project,
+ * plus the owner's month-to-date total and spend caps
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, unauthorizedResponse, userOwnsProject } from '@/lib/supabase/server';
+import { currentPeriodStart } from '@/lib/entitlements';
+import { getMonthlySpendUsd, getProjectSpend, getSpendCaps } from '@/lib/generationCosts';
+
+/**
+ * GET /api/projects/[id]/spend
+ *
+ * Aggregates the project's generation_costs rows by kind, model and page.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id: projectId } = await params;
+
+    if (!(await userOwnsProject(projectId, user.id))) {
+      return NextResponse.json(
+        { error: 'Project not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const [project, monthlySpentUsd, caps] = await Promise.all([
+      getProjectSpend(projectId),
+      getMonthlySpendUsd(user.id),
+      getSpendCaps(user.id),
+    ]);
+
+    return NextResponse.json({
+      project: {
+        ...project,
+        capUsd: caps.projectUsd,
+      },
+      monthly: {
+        periodStart: currentPeriodStart(),
+        spentUsd: monthlySpentUsd,
+        capUsd: caps.monthlyUsd,
+      },
+    });
+
+  } catch (error) {
+    console.error('[projects/spend] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load spend' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * API route for vectorizing a project's pages
+ *
+ * POST /api/projects/[id]/vectorize - Trace page images into SVG variants
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUser, unauthorizedResponse, userOwnsProject } from '@/lib/supabase/server';
+import { vectorizeProjectPages } from '@/lib/pageVectors';
+
+// ~1-2s per page at print resolution
+export const maxDuration = 300;
+
+const vectorizeSchema = z.object({
+  // Omit to vectorize every page
+  pageNumbers: z.array(z.number().int().min(1)).optional(),
+  // Re-trace pages that already have a vector variant
+  force: z.boolean().default(false),
+});
+
+/**
+ * POST /api/projects/[id]/vectorize
+ *
+ * Stores an SVG variant for each ready page image, with the fidelity check
+ * result. Export with `vectorPages: true` in /api/export/build-pdf to embed
+ * them.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id: projectId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const parseResult = vectorizeSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: parseResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    if (!(await userOwnsProject(projectId, user.id))) {
+      return NextResponse.json(
+        { error: 'Project not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const pages = await vectorizeProjectPages(projectId, user.id, parseResult.data);
+
+    const vectorized = pages.filter((p) => p.status === 'vectorized').length;
+    const belowThreshold = pages.filter((p) => p.fidelity && !p.fidelity.passed).length;
+    console.log(`[projects/vectorize] Project ${projectId}: ${vectorized} vectorized, ${belowThreshold} below fidelity threshold`);
+
+    return NextResponse.json({
+      success: true,
+      pages,
+      vectorized,
+      // Pages whose vector variant won't be used (the PDF keeps their raster)
+      belowThreshold,
+    });
+
+  } catch (error) {
+    console.error('[projects/vectorize] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to vectorize pages' },
+      { status: 500 }
+    );
+  }
+}
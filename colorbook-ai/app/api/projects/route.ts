@@ -6,20 +6,31 @@
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { getSupabaseServerClient, getRetentionHours } from '@/lib/supabase/server';
+import { getSessionUser, unauthorizedResponse } from '@/lib/supabase/server';
+import { createProject, listProjects, updateProject } from '@/lib/projectStore';
+import { assertPageLimit } from '@/lib/entitlements';
+import { getLibraryStyleContract } from '@/lib/styleLibraryStore';
+import { getLibraryCharacterProfile, recordCharacterUsage } from '@/lib/characterLibraryStore';
+import { addSeriesVolume, getSeries } from '@/lib/seriesStore';
+import { isEntitlementError, entitlementErrorResponse } from '@/lib/errors/entitlementErrors';
 
 const createProjectSchema = z.object({
   name: z.string().default('Untitled Project'),
   projectType: z.enum(['coloring_book', 'quote_book']).default('coloring_book'),
   bookType: z.enum(['storybook', 'theme']).optional(),
+  // Which app flow created the project - every flow registers here so they all list in /app/projects
+  origin: z.enum(['create', 'new', 'batch', 'bulk', 'quote_book', 'style_clone']).optional(),
   idea: z.string().optional(),
   pagesRequested: z.number().int().min(1).max(80).optional(),
+  // Series the project becomes the next volume of; it inherits the series' style, character and author
+  seriesId: z.string().uuid().optional(),
   settings: z.object({
     bookTitle: z.string().optional(),
     authorName: z.string().optional(),
     pageCount: z.number().optional(),
     complexity: z.string().optional(),
     orientation: z.string().optional(),
+    trimSize: z.string().optional(),
     styleProfile: z.string().optional(),
     theme: z.string().optional(),
     model: z.string().optional(),
@@ -27,64 +38,116 @@ const createProjectSchema = z.object({
     lineThickness: z.string().optional(),
     targetAge: z.string().optional(),
     characterProfile: z.any().optional(),
+    // Enhancer for the project's pages (lib/services/imageEnhancers)
+    enhancer: z.enum(['replicate', 'local']).optional(),
+    // Normalize processed pages' strokes to lineThickness (/api/image/process)
+    normalizeLineWeight: z.boolean().optional(),
+    // Style Library version every page of the project is generated with
+    styleLibrary: z.object({
+      styleId: z.string().uuid(),
+      version: z.number().int().min(1),
+      name: z.string(),
+    }).optional(),
+    // Character Library character the storybook uses
+    characterLibrary: z.object({
+      characterId: z.string().uuid(),
+      name: z.string(),
+    }).optional(),
+    // Quote book choices (lib/quotePagePromptEnforcer.ts QuoteBookSettings)
+    quoteBook: z.object({
+      bookType: z.enum(['different_quotes', 'same_quote_variations']),
+      decorationLevel: z.enum(['text_only', 'minimal_icons', 'border_only', 'full_background']),
+      iconSet: z.enum(['stars', 'hearts', 'doodles', 'sports', 'kids']),
+      decorationTheme: z.enum(['floral', 'stars', 'mandala', 'hearts', 'nature', 'geometric', 'doodles', 'mixed']),
+      typographyStyle: z.enum(['bubble', 'script', 'block', 'mixed']),
+      density: z.enum(['low', 'medium', 'high']),
+      quotes: z.array(z.string()),
+      quotePrompt: z.string().optional(),
+      textRendering: z.enum(['ai', 'vector']).optional(),
+      fontId: z.string().optional(),
+    }).optional(),
   }).optional().default({}),
-  // For anonymous users, we generate a temporary user_id
-  userId: z.string().optional(),
 });
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    
     const body = await request.json();
     const data = createProjectSchema.parse(body);
     
-    const supabase = getSupabaseServerClient();
-    
-    // Get user ID from auth or use provided/generated ID
-    // TODO: Implement proper auth - for now we use a provided or generated ID
-    const userId = data.userId || crypto.randomUUID();
-    
-    // Get retention hours for this user
-    const retentionHours = await getRetentionHours(userId);
-    
-    // Calculate expiry date
-    const expiresAt = new Date(Date.now() + retentionHours * 60 * 60 * 1000).toISOString();
-    
-    const { data: project, error } = await supabase
-      .from('projects')
-      .insert({
-        user_id: userId,
-        name: data.name,
-        project_type: data.projectType,
-        book_type: data.bookType || 'theme',
-        idea: data.idea,
-        pages_requested: data.pagesRequested || 0,
-        settings: data.settings,
-        status: 'draft',
-        prompts_generated_count: 0,
-        images_generated_count: 0,
-        retention_hours: retentionHours,
-        expires_at: expiresAt,
-      })
-      .select()
-      .single();
-    
-    if (error) {
-      console.error('[projects] Create error:', error);
+    const userId = user.id;
+    
+    if (data.pagesRequested) {
+      await assertPageLimit(userId, data.pagesRequested);
+    }
+    
+    if (data.seriesId) {
+      const series = await getSeries(data.seriesId, userId);
+      if (!series) {
+        return NextResponse.json(
+          { error: 'Series not found or access denied' },
+          { status: 404 }
+        );
+      }
+      data.settings.authorName ??= series.authorName ?? undefined;
+      data.settings.styleLibrary ??= series.styleLibrary ?? undefined;
+      if (data.bookType === 'storybook' && series.characterLibrary && !data.settings.characterLibrary) {
+        data.settings.characterLibrary = series.characterLibrary;
+        data.settings.characterProfile = await getLibraryCharacterProfile(userId, series.characterLibrary.characterId);
+      }
+    }
+    
+    if (data.settings.styleLibrary && !(await getLibraryStyleContract(userId, data.settings.styleLibrary))) {
       return NextResponse.json(
-        { error: error.message },
-        { status: 500 }
+        { error: 'Style not found or access denied' },
+        { status: 404 }
       );
     }
     
+    const { characterLibrary } = data.settings;
+    if (characterLibrary && !(await getLibraryCharacterProfile(userId, characterLibrary.characterId))) {
+      return NextResponse.json(
+        { error: 'Character not found or access denied' },
+        { status: 404 }
+      );
+    }
+    
+    let project = await createProject({
+      userId,
+      name: data.name,
+      projectType: data.projectType,
+      bookType: data.bookType,
+      origin: data.origin,
+      idea: data.idea,
+      pagesRequested: data.pagesRequested,
+      settings: data.settings,
+    });
+    
+    if (characterLibrary) {
+      await recordCharacterUsage(characterLibrary.characterId, userId, project.id);
+    }
+    
+    if (data.seriesId) {
+      const volume = await addSeriesVolume(data.seriesId, userId, project.id);
+      project = { ...project, series_id: data.seriesId, series_volume: volume };
+    }
+    
     console.log(`[projects] Created draft project ${project.id} for user ${userId}, pages_requested: ${data.pagesRequested}`);
     
     return NextResponse.json({
       success: true,
       project,
-      retentionHours,
+      retentionHours: project.retention_hours,
     });
     
   } catch (error) {
+    if (isEntitlementError(error)) {
+      return entitlementErrorResponse(error);
+    }
     console.error('[projects] Error:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to create project' },
@@ -100,43 +163,16 @@ export async function POST(request: NextRequest) {
  */
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
-    
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'userId is required' },
-        { status: 400 }
-      );
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
     }
     
-    const supabase = getSupabaseServerClient();
-    
-    const { data: projects, error } = await supabase
-      .from('projects')
-      .select('*')
-      .eq('user_id', userId)
-      .order('updated_at', { ascending: false });
-    
-    if (error) {
-      console.error('[projects] List error:', error);
-      return NextResponse.json(
-        { error: error.message },
-        { status: 500 }
-      );
-    }
-    
-    // Enrich with computed fields
-    const enrichedProjects = projects.map(p => ({
-      ...p,
-      isExpired: p.expires_at ? new Date(p.expires_at) < new Date() : false,
-      canResume: p.status !== 'ready' && p.status !== 'expired' && 
-        (p.prompts_generated_count < p.pages_requested || p.images_generated_count < p.pages_requested),
-    }));
+    const projects = await listProjects(user.id);
     
     return NextResponse.json({
       success: true,
-      projects: enrichedProjects,
+      projects,
     });
     
   } catch (error) {
@@ -155,7 +191,6 @@ export async function GET(request: NextRequest) {
  */
 const updateProjectSchema = z.object({
   projectId: z.string().uuid(),
-  userId: z.string().optional(),
   name: z.string().optional(),
   idea: z.string().optional(),
   pagesRequested: z.number().int().min(1).max(80).optional(),
@@ -169,45 +204,25 @@ const updateProjectSchema = z.object({
 
 export async function PATCH(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    
     const body = await request.json();
     const data = updateProjectSchema.parse(body);
     
-    const supabase = getSupabaseServerClient();
-    
-    // Build update object
-    const updateData: Record<string, unknown> = {
-      updated_at: new Date().toISOString(),
-    };
-    
-    if (data.name !== undefined) updateData.name = data.name;
-    if (data.idea !== undefined) updateData.idea = data.idea;
-    if (data.pagesRequested !== undefined) updateData.pages_requested = data.pagesRequested;
-    if (data.bookType !== undefined) updateData.book_type = data.bookType;
-    if (data.status !== undefined) updateData.status = data.status;
-    if (data.settings !== undefined) updateData.settings = data.settings;
-    if (data.errorMessage !== undefined) updateData.error_message = data.errorMessage;
-    if (data.promptsGeneratedCount !== undefined) updateData.prompts_generated_count = data.promptsGeneratedCount;
-    if (data.imagesGeneratedCount !== undefined) updateData.images_generated_count = data.imagesGeneratedCount;
-    
-    let query = supabase
-      .from('projects')
-      .update(updateData)
-      .eq('id', data.projectId);
-    
-    // If userId provided, also check ownership
-    if (data.userId) {
-      query = query.eq('user_id', data.userId);
+    if (data.pagesRequested !== undefined) {
+      await assertPageLimit(user.id, data.pagesRequested);
     }
     
-    const { data: project, error } = await query
-      .select()
-      .single();
+    const { projectId, ...patch } = data;
+    const project = await updateProject(projectId, user.id, patch);
     
-    if (error) {
-      console.error('[projects] Update error:', error);
+    if (!project) {
       return NextResponse.json(
-        { error: error.message },
-        { status: 500 }
+        { error: 'Project not found or access denied' },
+        { status: 404 }
       );
     }
     
@@ -219,6 +234,9 @@ export async function PATCH(request: NextRequest) {
     });
     
   } catch (error) {
+    if (isEntitlementError(error)) {
+      return entitlementErrorResponse(error);
+    }
     console.error('[projects] Update error:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to update project' },
@@ -6,6 +6,7 @@ import {
   normalizeQuote,
   classifyQuoteTopic,
   getMotifPackForTopic,
+  resolveQuoteFont,
   type DecorationTheme,
   type TypographyStyle,
   type DecorationDensity,
@@ -13,6 +14,8 @@ import {
   type DecorationLevel,
   type IconSet,
   type QuoteTopic,
+  type QuotePageConfig,
+  type TextRendering,
   DECORATION_THEMES,
   ICON_SETS,
 } from "@/lib/quotePagePromptEnforcer";
@@ -41,6 +44,11 @@ const requestSchema = z.object({
   density: z.enum(["low", "medium", "high"]).default("medium"),
   frameStyle: z.enum(["none", "thin", "corners"]).default("thin"),
   
+  // Lettering: "ai" draws the quote in the image, "vector" reserves a text
+  // area and typesets the quote afterwards via /api/quote/typeset
+  textRendering: z.enum(["ai", "vector"]).default("ai"),
+  fontId: z.string().optional(),
+  
   // For same_quote_variations mode
   variationCount: z.number().int().min(1).max(20).default(5),
 });
@@ -75,6 +83,21 @@ function getVariationThemes(baseTheme: DecorationTheme, count: number): Decorati
   return themes;
 }
 
+/**
+ * Lettering fields for a page config. Vector pages pin the resolved font so a
+ * resumed book typesets with the same font.
+ */
+function getLettering(
+  textRendering: TextRendering,
+  typographyStyle: TypographyStyle,
+  fontId?: string
+): Pick<QuotePageConfig, "textRendering" | "fontId"> {
+  if (textRendering !== "vector") {
+    return { textRendering };
+  }
+  return { textRendering, fontId: resolveQuoteFont(typographyStyle, fontId).id };
+}
+
 /**
  * POST /api/quote/prompts
  * 
@@ -105,10 +128,12 @@ export async function POST(request: NextRequest) {
       typographyStyle,
       density,
       frameStyle,
+      textRendering,
+      fontId,
       variationCount,
     } = parseResult.data;
 
-    console.log(`[quote/prompts] Generating prompts: ${quotes.length} quotes, level: ${decorationLevel}, typography: ${typographyStyle}`);
+    console.log(`[quote/prompts] Generating prompts: ${quotes.length} quotes, level: ${decorationLevel}, typography: ${typographyStyle}, lettering: ${textRendering}`);
 
     // SERVER-SIDE ENFORCEMENT: text_only mode disables all decoration options
     const isTextOnly = decorationLevel === "text_only";
@@ -128,6 +153,8 @@ export async function POST(request: NextRequest) {
       keywords: string[];
       motifPack: string[];
       validation: ReturnType<typeof validateQuote>;
+      // Exact config the prompt was built from (saved with the page in quote book projects)
+      config: QuotePageConfig;
       // Settings snapshot for debugging
       appliedSettings: {
         decorationLevel: DecorationLevel;
@@ -149,14 +176,16 @@ export async function POST(request: NextRequest) {
         
         // For TEXT-ONLY mode: skip all decoration logic
         if (isTextOnly) {
-          const prompt = buildQuotePagePrompt({
+          const config: QuotePageConfig = {
             quote: normalized,
             decorationTheme: "stars", // Ignored for text_only
             typographyStyle,
             density: "low",
             frameStyle: "none",
             decorationLevel: "text_only",
-          });
+            ...getLettering(textRendering, typographyStyle, fontId),
+          };
+          const prompt = buildQuotePagePrompt(config);
 
           // Log first prompt for debugging
           if (index === 0) {
@@ -175,6 +204,7 @@ export async function POST(request: NextRequest) {
             keywords: [],
             motifPack: [], // Empty - no decorations
             validation,
+            config,
             appliedSettings: {
               decorationLevel: "text_only",
               typographyStyle,
@@ -207,7 +237,7 @@ export async function POST(request: NextRequest) {
         }
         
         // Build the prompt with all settings
-        const prompt = buildQuotePagePrompt({
+        const config: QuotePageConfig = {
           quote: normalized,
           decorationTheme: pageTheme,
           typographyStyle,
@@ -218,7 +248,9 @@ export async function POST(request: NextRequest) {
           topic: classification.topic,
           keywords: classification.keywords,
           motifPack,
-        });
+          ...getLettering(textRendering, typographyStyle, fontId),
+        };
+        const prompt = buildQuotePagePrompt(config);
 
         pages.push({
           page: index + 1,
@@ -232,6 +264,7 @@ export async function POST(request: NextRequest) {
           keywords: classification.keywords,
           motifPack,
           validation,
+          config,
           appliedSettings: {
             decorationLevel,
             typographyStyle,
@@ -255,14 +288,16 @@ export async function POST(request: NextRequest) {
         for (let i = 0; i < variationCount; i++) {
           const typo = typographyVariations[i % typographyVariations.length];
           
-          const prompt = buildQuotePagePrompt({
+          const config: QuotePageConfig = {
             quote: mainQuote,
             decorationTheme: "stars",
             typographyStyle: typo,
             density: "low",
             frameStyle: "none",
             decorationLevel: "text_only",
-          });
+            ...getLettering(textRendering, typo, fontId),
+          };
+          const prompt = buildQuotePagePrompt(config);
 
           pages.push({
             page: i + 1,
@@ -276,6 +311,7 @@ export async function POST(request: NextRequest) {
             keywords: [],
             motifPack: [],
             validation,
+            config,
             appliedSettings: {
               decorationLevel: "text_only",
               typographyStyle: typo,
@@ -305,7 +341,7 @@ export async function POST(request: NextRequest) {
           const pageIconSet = iconVariations[i] || iconSet;
           const pageTheme = themeVariations[i] || decorationTheme;
           
-          const prompt = buildQuotePagePrompt({
+          const config: QuotePageConfig = {
             quote: mainQuote,
             decorationTheme: pageTheme,
             typographyStyle: typo,
@@ -316,7 +352,9 @@ export async function POST(request: NextRequest) {
             topic: classification.topic,
             keywords: classification.keywords,
             motifPack,
-          });
+            ...getLettering(textRendering, typo, fontId),
+          };
+          const prompt = buildQuotePagePrompt(config);
 
           // Build title based on decoration level
           let title: string;
@@ -340,6 +378,7 @@ export async function POST(request: NextRequest) {
             keywords: classification.keywords,
             motifPack,
             validation,
+            config,
             appliedSettings: {
               decorationLevel,
               typographyStyle: typo,
@@ -375,6 +414,7 @@ export async function POST(request: NextRequest) {
         topic: p.topic,
         keywords: p.keywords,
         motifPack: p.motifPack,
+        config: p.config,
         appliedSettings: p.appliedSettings, // Settings snapshot for debugging
       })),
       bookType,
@@ -385,6 +425,7 @@ export async function POST(request: NextRequest) {
         typographyStyle,
         density,
         frameStyle,
+        textRendering,
       },
       warnings: warnings.length > 0 ? warnings : undefined,
     });
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { typesetQuotePage } from "@/lib/quoteTypesetter";
+import { base64ToBuffer, bufferToBase64 } from "@/lib/imageProcessing";
+
+/**
+ * Route segment config
+ */
+export const maxDuration = 60;
+
+const requestSchema = z.object({
+  // Exact quote to set - never passed through the image model
+  quote: z.string().min(1, "Quote is required"),
+  typographyStyle: z.enum(["bubble", "script", "block", "mixed"]).default("bubble"),
+  decorationLevel: z.enum(["text_only", "minimal_icons", "border_only", "full_background"]).default("minimal_icons"),
+  fontId: z.string().optional(),
+  // Decoration generated with an empty text area (omit for text-only pages)
+  imageBase64: z.string().optional(),
+});
+
+/**
+ * POST /api/quote/typeset
+ *
+ * Vector text rendering for quote pages: sets the quote in hollow outline
+ * lettering with a bundled font and composites it into the text area the
+ * decoration prompt reserved. Text-only pages are typeset on a blank page
+ * without calling the image model at all.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parseResult = requestSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parseResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { quote, typographyStyle, decorationLevel, fontId, imageBase64 } = parseResult.data;
+
+    const result = await typesetQuotePage({
+      quote,
+      typographyStyle,
+      decorationLevel,
+      fontId,
+      background: imageBase64 ? base64ToBuffer(imageBase64) : undefined,
+    });
+
+    console.log(`[quote/typeset] Set "${quote.slice(0, 40)}" in ${result.font.name}${result.bundledFont ? "" : " (fallback font)"}`);
+
+    return NextResponse.json({
+      imageBase64: bufferToBase64(result.buffer),
+      font: { id: result.font.id, name: result.font.name },
+      bundledFont: result.bundledFont,
+    });
+
+  } catch (error) {
+    console.error("[quote/typeset] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to typeset quote" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser, unauthorizedResponse } from "@/lib/supabase/server";
+import { deleteSeries, getSeries, updateSeries } from "@/lib/seriesStore";
+import { getLibraryStyleContract } from "@/lib/styleLibraryStore";
+import { getLibraryCharacterProfile } from "@/lib/characterLibraryStore";
+
+/**
+ * GET /api/series/[id]
+ *
+ * Load a series with its volumes in order.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id: seriesId } = await params;
+    const series = await getSeries(seriesId, user.id);
+
+    if (!series) {
+      return NextResponse.json(
+        { error: "Series not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, series });
+
+  } catch (error) {
+    console.error("[series] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load series" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/series/[id]
+ *
+ * Edit a series' details, front-matter template or shared style/character.
+ * Existing volumes keep the style and character they were created with.
+ */
+const updateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  authorName: z.string().max(100).nullable().optional(),
+  copyrightText: z.string().max(1000).nullable().optional(),
+  frontMatter: z.object({
+    variant: z.enum(["minimal", "classic", "bordered"]).optional(),
+    includeTitlePage: z.boolean().optional(),
+    includeCopyrightPage: z.boolean().optional(),
+    includeBelongsToPage: z.boolean().optional(),
+  }).optional(),
+  styleLibrary: z.object({
+    styleId: z.string().uuid(),
+    version: z.number().int().min(1),
+    name: z.string(),
+  }).nullable().optional(),
+  characterLibrary: z.object({
+    characterId: z.string().uuid(),
+    name: z.string(),
+  }).nullable().optional(),
+});
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id: seriesId } = await params;
+    const body = await request.json();
+    const patch = updateSchema.parse(body);
+
+    if (patch.styleLibrary && !(await getLibraryStyleContract(user.id, patch.styleLibrary))) {
+      return NextResponse.json(
+        { error: "Style not found or access denied" },
+        { status: 404 }
+      );
+    }
+    if (patch.characterLibrary && !(await getLibraryCharacterProfile(user.id, patch.characterLibrary.characterId))) {
+      return NextResponse.json(
+        { error: "Character not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const series = await updateSeries(seriesId, user.id, patch);
+
+    if (!series) {
+      return NextResponse.json(
+        { error: "Series not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, series });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.flatten() },
+        { status: 400 }
+      );
+    }
+    console.error("[series] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update series" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/series/[id]
+ *
+ * Delete a series. Its volumes are kept as standalone projects.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id: seriesId } = await params;
+    const deleted = await deleteSeries(seriesId, user.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Series not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error("[series] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete series" },
+      { status: 500 }
+    );
+  }
+}
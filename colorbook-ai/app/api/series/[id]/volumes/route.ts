@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser, unauthorizedResponse } from "@/lib/supabase/server";
+import { addSeriesVolume, removeSeriesVolume } from "@/lib/seriesStore";
+
+const requestSchema = z.object({
+  projectId: z.string().uuid(),
+});
+
+/**
+ * POST /api/series/[id]/volumes
+ *
+ * Add an existing project to the series as its next volume.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id: seriesId } = await params;
+    const body = await request.json();
+    const { projectId } = requestSchema.parse(body);
+
+    const volume = await addSeriesVolume(seriesId, user.id, projectId);
+
+    if (volume === null) {
+      return NextResponse.json(
+        { error: "Series or project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    console.log(`[series/volumes] Project ${projectId} is volume ${volume} of series ${seriesId}`);
+
+    return NextResponse.json({ success: true, volume });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.flatten() },
+        { status: 400 }
+      );
+    }
+    console.error("[series/volumes] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to add volume" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/series/[id]/volumes
+ *
+ * Take a project out of the series. Other volumes keep their numbers.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id: seriesId } = await params;
+    const body = await request.json();
+    const { projectId } = requestSchema.parse(body);
+
+    const removed = await removeSeriesVolume(seriesId, user.id, projectId);
+
+    if (!removed) {
+      return NextResponse.json(
+        { error: "Volume not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.flatten() },
+        { status: 400 }
+      );
+    }
+    console.error("[series/volumes] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to remove volume" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser, unauthorizedResponse } from "@/lib/supabase/server";
+import { createSeries, listSeries } from "@/lib/seriesStore";
+import { getLibraryStyleContract } from "@/lib/styleLibraryStore";
+import { getLibraryCharacterProfile } from "@/lib/characterLibraryStore";
+
+/**
+ * GET /api/series
+ *
+ * List the user's series with volume counts.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const series = await listSeries(user.id);
+
+    return NextResponse.json({ success: true, series });
+
+  } catch (error) {
+    console.error("[series] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to list series" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/series
+ *
+ * Create a series with the author, copyright text, front-matter template and
+ * library style/character its volumes share.
+ */
+const requestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  authorName: z.string().max(100).optional(),
+  copyrightText: z.string().max(1000).optional(),
+  frontMatter: z.object({
+    variant: z.enum(["minimal", "classic", "bordered"]).optional(),
+    includeTitlePage: z.boolean().optional(),
+    includeCopyrightPage: z.boolean().optional(),
+    includeBelongsToPage: z.boolean().optional(),
+  }).optional(),
+  styleLibrary: z.object({
+    styleId: z.string().uuid(),
+    version: z.number().int().min(1),
+    name: z.string(),
+  }).nullable().optional(),
+  characterLibrary: z.object({
+    characterId: z.string().uuid(),
+    name: z.string(),
+  }).nullable().optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+    const data = requestSchema.parse(body);
+
+    if (data.styleLibrary && !(await getLibraryStyleContract(user.id, data.styleLibrary))) {
+      return NextResponse.json(
+        { error: "Style not found or access denied" },
+        { status: 404 }
+      );
+    }
+    if (data.characterLibrary && !(await getLibraryCharacterProfile(user.id, data.characterLibrary.characterId))) {
+      return NextResponse.json(
+        { error: "Character not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const series = await createSeries(user.id, data);
+
+    console.log(`[series] Created series ${series.id} for user ${user.id}`);
+
+    return NextResponse.json({ success: true, series });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.flatten() },
+        { status: 400 }
+      );
+    }
+    console.error("[series] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create series" },
+      { status: 500 }
+    );
+  }
+}
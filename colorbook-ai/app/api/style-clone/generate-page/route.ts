@@ -3,10 +3,15 @@ import { z } from "zod";
 import { generateImage, isOpenAIImageGenConfigured } from "@/lib/services/openaiImageGen";
 import { buildFinalImagePrompt, buildCharacterBible } from "@/lib/styleClonePromptBuilder";
 import { validateImageQuality, getQualityThresholds, getRetryPromptAdjustments } from "@/lib/qualityGates";
-import { KDP_SIZE_PRESETS, type StyleContract, type ThemePack } from "@/lib/styleClone";
-import type { Complexity, LineThickness, GenerationSpec } from "@/lib/generationSpec";
+import { KDP_SIZE_PRESETS, BLACK_RATIO_THRESHOLDS, type StyleContract, type ThemePack, type StyleCloneDebugInfo } from "@/lib/styleClone";
+import { saveStyleCloneImage } from "@/lib/styleCloneStore";
+import { getLineWeightSpec, type Complexity, type LineThickness, type GenerationSpec } from "@/lib/generationSpec";
 import { hasRequiredConstraints } from "@/lib/coloringPagePromptEnforcer";
 import crypto from "crypto";
+import { getSessionUser, unauthorizedResponse, userOwnsProject } from "@/lib/supabase/server";
+import { assertImageQuota, assertStyleCloneAccess, recordImageUsage } from "@/lib/entitlements";
+import { isEntitlementError, entitlementErrorResponse } from "@/lib/errors/entitlementErrors";
+import { assertSpendCap, setCostContext } from "@/lib/generationCosts";
 
 /**
  * Generate or regenerate a single page with comprehensive quality gates
@@ -54,6 +59,7 @@ const requestSchema = z.object({
   characterDescription: z.string().optional(),
   anchorImageBase64: z.string().optional(), // For future conditioning support
   referenceImageBase64: z.string().optional(), // Reference style image
+  projectId: z.string().uuid().optional(), // Style clone project to store the page in
 });
 
 // GPT Image model supported sizes: 1024x1024, 1024x1536, 1536x1024
@@ -79,6 +85,11 @@ export async function POST(request: NextRequest) {
   const startTime = Date.now();
 
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const body = await request.json();
     const parseResult = requestSchema.safeParse(body);
 
@@ -102,8 +113,21 @@ export async function POST(request: NextRequest) {
       characterDescription,
       anchorImageBase64,
       referenceImageBase64,
+      projectId,
     } = parseResult.data;
 
+    if (projectId && !(await userOwnsProject(projectId, user.id))) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    await assertStyleCloneAccess(user.id);
+    await assertImageQuota(user.id, 1);
+
+    setCostContext({ userId: user.id, projectId, pageIndex, source: "style-clone/generate-page" });
+
     const preset = KDP_SIZE_PRESETS[sizePreset] || KDP_SIZE_PRESETS["8.5x11"];
     const gptSize = SIZE_MAP[preset.pixels] || "1024x1536";
 
@@ -130,7 +154,7 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    const thresholds = getQualityThresholds(complexity as Complexity);
+    const thresholds = getQualityThresholds(complexity as Complexity, lineThickness as LineThickness);
 
     // Track all attempts for debugging
     const attempts: {
@@ -151,6 +175,15 @@ export async function POST(request: NextRequest) {
     for (let retry = 0; retry < MAX_RETRIES; retry++) {
       const attemptStart = Date.now();
 
+      // Hard spend cap: keep the image we already have, otherwise pause
+      try {
+        await assertSpendCap(user.id);
+      } catch (capError) {
+        if (imageBase64 && isEntitlementError(capError)) break;
+        throw capError;
+      }
+      setCostContext({ attempt: retry + 1 });
+
       try {
         // Build prompt with retry adjustments
         let basePrompt = buildFinalImagePrompt({
@@ -201,7 +234,10 @@ Interior areas must remain WHITE/unfilled.`;
         const imageBuffer = Buffer.from(genResult.images[0], "base64");
         
         // Validate image quality
-        const qualityResult = await validateImageQuality(imageBuffer, complexity as Complexity);
+        const qualityResult = await validateImageQuality(imageBuffer, complexity as Complexity, {
+          lineThickness: lineThickness as LineThickness,
+          printWidthPx: getLineWeightSpec(spec).printWidthPx,
+        });
 
         lastMetrics = { 
           ...qualityResult.metrics, 
@@ -291,6 +327,27 @@ Interior areas must remain WHITE/unfilled.`;
       failureReason: imageBase64 && passedAttempt === 0 ? lastError : undefined,
     };
 
+    if (imageBase64) {
+      await recordImageUsage(user.id, 1);
+    }
+
+    // Persist into the style clone project (best-effort - the client still gets the image)
+    let savedToProject = false;
+    if (imageBase64 && projectId) {
+      try {
+        await saveStyleCloneImage(projectId, user.id, {
+          pageIndex,
+          imageBase64,
+          finalPrompt: finalPromptUsed,
+          passedGates: passedAttempt > 0,
+          debug: toStyleCloneDebugInfo(debug, complexity as Complexity),
+        });
+        savedToProject = true;
+      } catch (saveError) {
+        console.error(`[generate-page] Failed to save page ${pageIndex} to project ${projectId}:`, saveError);
+      }
+    }
+
     // If we have an image but it didn't pass quality gates, still return it with warning
     if (imageBase64 && passedAttempt === 0) {
       return NextResponse.json({
@@ -298,6 +355,7 @@ Interior areas must remain WHITE/unfilled.`;
         imageBase64,
         passedGates: false,
         warning: `Image generated but failed quality checks: ${lastError}`,
+        savedToProject,
         debug,
         requestId,
       });
@@ -319,11 +377,15 @@ Interior areas must remain WHITE/unfilled.`;
       pageIndex,
       imageBase64,
       passedGates: true,
+      savedToProject,
       debug,
       requestId,
     });
 
   } catch (error) {
+    if (isEntitlementError(error)) {
+      return entitlementErrorResponse(error);
+    }
     console.error("[generate-page] Unexpected error:", error);
     return NextResponse.json(
       { 
@@ -335,3 +397,51 @@ Interior areas must remain WHITE/unfilled.`;
     );
   }
 }
+
+/**
+ * Condense the response debug output into what is stored with the page
+ */
+function toStyleCloneDebugInfo(
+  debug: {
+    provider: string;
+    imageModel: string;
+    textModel: string;
+    size: string;
+    promptHash: string;
+    finalPromptPreview: string;
+    finalPromptFull: string;
+    thresholds: ReturnType<typeof getQualityThresholds>;
+    metrics?: Record<string, unknown>;
+    totalAttempts: number;
+    failureReason?: string;
+  },
+  complexity: Complexity
+): StyleCloneDebugInfo {
+  const metrics = debug.metrics ?? {};
+  const blobAnalysis = metrics.blobAnalysis as { totalBlobs?: number } | undefined;
+
+  return {
+    provider: debug.provider,
+    imageModel: debug.imageModel,
+    textModel: debug.textModel,
+    size: debug.size,
+    promptHash: debug.promptHash,
+    promptPreview: debug.finalPromptPreview,
+    finalPrompt: debug.finalPromptFull,
+    negativePrompt: "",
+    thresholds: {
+      blackRatio: BLACK_RATIO_THRESHOLDS[complexity],
+      maxBlackRatio: debug.thresholds.maxBlackRatio,
+      blobThreshold: debug.thresholds.maxBlobRatio,
+    },
+    blackRatio: typeof metrics.blackRatio === "number" ? metrics.blackRatio : undefined,
+    blobStats: {
+      largestBlob: Number(metrics.largestBlobRatio ?? 0),
+      totalBlobs: blobAnalysis?.totalBlobs ?? 0,
+      microNoiseCount: Number(metrics.tinyBlobCount ?? 0),
+    },
+    colorCorrectionApplied: metrics.wasColorCorrected === true,
+    retries: Math.max(0, debug.totalAttempts - 1),
+    failureReason: debug.failureReason,
+  };
+}
@@ -4,9 +4,13 @@ import { generateImage, isOpenAIImageGenConfigured } from "@/lib/services/openai
 import { buildFinalImagePrompt, buildCharacterBible } from "@/lib/styleClonePromptBuilder";
 import { validateImageQuality, getQualityThresholds } from "@/lib/qualityGates";
 import { KDP_SIZE_PRESETS, type StyleContract, type ThemePack, type StyleCloneImage } from "@/lib/styleClone";
-import type { Complexity, LineThickness, GenerationSpec } from "@/lib/generationSpec";
+import { getLineWeightSpec, type Complexity, type LineThickness, type GenerationSpec } from "@/lib/generationSpec";
 import { hasRequiredConstraints } from "@/lib/coloringPagePromptEnforcer";
 import crypto from "crypto";
+import { getSessionUser, unauthorizedResponse } from "@/lib/supabase/server";
+import { assertImageQuota, assertStyleCloneAccess, recordImageUsage } from "@/lib/entitlements";
+import { isEntitlementError, entitlementErrorResponse } from "@/lib/errors/entitlementErrors";
+import { assertSpendCap, setCostContext } from "@/lib/generationCosts";
 
 /**
  * Generate remaining pages after sample approval
@@ -79,7 +83,7 @@ async function generateSinglePage(params: {
 }): Promise<StyleCloneImage> {
   const { pageIndex, scenePrompt, themePack, styleContract, characterBible, spec, gptSize, complexity } = params;
 
-  const thresholds = getQualityThresholds(complexity);
+  const thresholds = getQualityThresholds(complexity, spec.lineThickness);
   let imageBase64: string | undefined;
   let lastError: string | undefined;
   let finalPromptUsed = "";
@@ -107,10 +111,14 @@ Interior areas must remain white/unfilled.`;
       }
 
       // Use centralized OpenAI service
+      // Pages run in parallel, so pass page/attempt explicitly for the cost ledger
       const genResult = await generateImage({
         prompt: finalPromptUsed,
         n: 1,
         size: gptSize,
+      }, {
+        pageIndex,
+        attempt: retry + 1,
       });
 
       if (!genResult.images || genResult.images.length === 0) {
@@ -119,7 +127,10 @@ Interior areas must remain white/unfilled.`;
       }
 
       const imageBuffer = Buffer.from(genResult.images[0], "base64");
-      const qualityResult = await validateImageQuality(imageBuffer, complexity);
+      const qualityResult = await validateImageQuality(imageBuffer, complexity, {
+        lineThickness: spec.lineThickness,
+        printWidthPx: getLineWeightSpec(spec).printWidthPx,
+      });
       
       lastMetrics = { ...qualityResult.metrics, ...qualityResult.debug };
 
@@ -165,6 +176,11 @@ export async function POST(request: NextRequest) {
   const requestId = crypto.randomUUID();
 
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const body = await request.json();
     const parseResult = requestSchema.safeParse(body);
 
@@ -208,12 +224,25 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ images: [], successCount: 0, failCount: 0, requestId });
     }
 
+    await assertStyleCloneAccess(user.id);
+    await assertImageQuota(user.id, promptsToGenerate.length);
+
+    setCostContext({ userId: user.id, source: "style-clone/generate-remaining" });
+
     const results: StyleCloneImage[] = [];
     let successCount = 0;
     let failCount = 0;
 
     // Process in batches
     for (let i = 0; i < promptsToGenerate.length; i += BATCH_SIZE) {
+      // Hard spend cap: return the pages finished so far, otherwise pause
+      try {
+        await assertSpendCap(user.id);
+      } catch (capError) {
+        if (results.length > 0 && isEntitlementError(capError)) break;
+        throw capError;
+      }
+
       const batch = promptsToGenerate.slice(i, i + BATCH_SIZE);
       
       const batchResults = await Promise.all(
@@ -240,6 +269,8 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    await recordImageUsage(user.id, results.filter(r => r.imageBase64).length);
+
     return NextResponse.json({
       images: results,
       successCount,
@@ -249,6 +280,9 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
+    if (isEntitlementError(error)) {
+      return entitlementErrorResponse(error);
+    }
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "Error", requestId },
       { status: 500 }
@@ -4,9 +4,13 @@ import { generateImage, isOpenAIImageGenConfigured } from "@/lib/services/openai
 import { buildFinalImagePrompt, buildCharacterBible } from "@/lib/styleClonePromptBuilder";
 import { validateImageQuality, getQualityThresholds } from "@/lib/qualityGates";
 import { KDP_SIZE_PRESETS, type StyleContract, type ThemePack } from "@/lib/styleClone";
-import type { Complexity, LineThickness, GenerationSpec } from "@/lib/generationSpec";
+import { getLineWeightSpec, type Complexity, type LineThickness, type GenerationSpec } from "@/lib/generationSpec";
 import { hasRequiredConstraints } from "@/lib/coloringPagePromptEnforcer";
 import crypto from "crypto";
+import { getSessionUser, unauthorizedResponse } from "@/lib/supabase/server";
+import { assertImageQuota, assertStyleCloneAccess, recordImageUsage } from "@/lib/entitlements";
+import { isEntitlementError, entitlementErrorResponse } from "@/lib/errors/entitlementErrors";
+import { assertSpendCap, setCostContext } from "@/lib/generationCosts";
 
 /**
  * STAGE 2: Generate Sample (Anchor) Image
@@ -72,6 +76,11 @@ export async function POST(request: NextRequest) {
   const startTime = Date.now();
 
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const body = await request.json();
     const parseResult = requestSchema.safeParse(body);
 
@@ -84,6 +93,9 @@ export async function POST(request: NextRequest) {
 
     const { scenePrompt, themePack, styleContract, complexity, lineThickness, sizePreset, mode, characterName, characterDescription } = parseResult.data;
 
+    await assertStyleCloneAccess(user.id);
+    await assertImageQuota(user.id, 1);
+
     const preset = KDP_SIZE_PRESETS[sizePreset] || KDP_SIZE_PRESETS["8.5x11"];
     const gptSize = SIZE_MAP[preset.pixels] || "1024x1536";
 
@@ -110,7 +122,7 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    const thresholds = getQualityThresholds(complexity as Complexity);
+    const thresholds = getQualityThresholds(complexity as Complexity, lineThickness as LineThickness);
     const maxRetries = 3;
     
     let imageBase64: string | undefined;
@@ -118,7 +130,18 @@ export async function POST(request: NextRequest) {
     let finalPromptUsed = "";
     let allMetrics: Record<string, unknown>[] = [];
 
+    setCostContext({ userId: user.id, pageIndex: 1, source: "style-clone/generate-sample" });
+
     for (let retry = 0; retry < maxRetries; retry++) {
+      // Hard spend cap: keep the image we already have, otherwise pause
+      try {
+        await assertSpendCap(user.id);
+      } catch (capError) {
+        if (imageBase64 && isEntitlementError(capError)) break;
+        throw capError;
+      }
+      setCostContext({ attempt: retry + 1 });
+
       try {
         // Build prompt with retry attempt for simplification
         finalPromptUsed = buildFinalImagePrompt({
@@ -157,7 +180,10 @@ Interior areas must remain white/unfilled.`;
         const imageBuffer = Buffer.from(genResult.images[0], "base64");
 
         // Quality check (includes B&W conversion)
-        const qualityResult = await validateImageQuality(imageBuffer, complexity as Complexity);
+        const qualityResult = await validateImageQuality(imageBuffer, complexity as Complexity, {
+          lineThickness: lineThickness as LineThickness,
+          printWidthPx: getLineWeightSpec(spec).printWidthPx,
+        });
         
         allMetrics.push({
           attempt: retry + 1,
@@ -221,6 +247,8 @@ Interior areas must remain white/unfilled.`;
       );
     }
 
+    await recordImageUsage(user.id, 1);
+
     return NextResponse.json({
       imageBase64,
       passedGates: true,
@@ -229,6 +257,9 @@ Interior areas must remain white/unfilled.`;
     });
 
   } catch (error) {
+    if (isEntitlementError(error)) {
+      return entitlementErrorResponse(error);
+    }
     console.error("[generate-sample] Unexpected error:", error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "Unexpected error", requestId },
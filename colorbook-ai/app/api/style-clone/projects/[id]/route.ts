@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser, unauthorizedResponse } from "@/lib/supabase/server";
+import { getStyleCloneProject, updateStyleCloneProject } from "@/lib/styleCloneStore";
+
+/**
+ * GET /api/style-clone/projects/[id]
+ *
+ * Load a style clone project to resume it: reference image and anchor as
+ * base64, prompts, and generated pages as signed URLs with debug info.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id: projectId } = await params;
+    const project = await getStyleCloneProject(projectId, user.id);
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, project });
+
+  } catch (error) {
+    console.error("[style-clone/projects] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load project" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/style-clone/projects/[id]
+ *
+ * Save style state, the page prompts (replacing all of them) or the anchor image.
+ */
+const styleContractSchema = z.object({
+  styleSummary: z.string(),
+  styleContractText: z.string(),
+  forbiddenList: z.array(z.string()),
+  recommendedLineThickness: z.enum(["thin", "medium", "bold"]),
+  recommendedComplexity: z.enum(["simple", "medium", "detailed"]),
+  outlineRules: z.string(),
+  backgroundRules: z.string(),
+  compositionRules: z.string(),
+  eyeRules: z.string(),
+  extractedThemeGuess: z.string().default(""),
+});
+
+const themePackSchema = z.object({
+  setting: z.string(),
+  recurringProps: z.array(z.string()),
+  motifs: z.array(z.string()),
+  allowedSubjects: z.array(z.string()),
+  forbiddenElements: z.array(z.string()),
+  characterName: z.string().optional(),
+  characterDescription: z.string().optional(),
+});
+
+const updateSchema = z.object({
+  name: z.string().optional(),
+  mode: z.enum(["series", "collection"]).optional(),
+  themeText: z.string().optional(),
+  pagesCount: z.number().int().min(1).max(80).optional(),
+  complexity: z.enum(["simple", "medium", "detailed"]).optional(),
+  lineThickness: z.enum(["thin", "medium", "bold"]).optional(),
+  sizePreset: z.string().optional(),
+  styleContract: styleContractSchema.nullable().optional(),
+  themePack: themePackSchema.nullable().optional(),
+  anchorApproved: z.boolean().optional(),
+  anchorImageBase64: z.string().optional(),
+  prompts: z.array(z.object({
+    pageIndex: z.number().int().min(1),
+    title: z.string(),
+    scenePrompt: z.string(),
+  })).max(80).optional(),
+});
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id: projectId } = await params;
+    const body = await request.json();
+    const data = updateSchema.parse(body);
+
+    const updated = await updateStyleCloneProject(projectId, user.id, data);
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.flatten() },
+        { status: 400 }
+      );
+    }
+    console.error("[style-clone/projects] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update project" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser, unauthorizedResponse } from "@/lib/supabase/server";
+import { assertStyleCloneAccess } from "@/lib/entitlements";
+import { isEntitlementError, entitlementErrorResponse } from "@/lib/errors/entitlementErrors";
+import { createStyleCloneProject } from "@/lib/styleCloneStore";
+
+/**
+ * POST /api/style-clone/projects
+ *
+ * Create a persisted style clone project from a reference image.
+ * The project lists in /app/projects and follows plan retention;
+ * pass its id to /api/style-clone/generate-page to store pages.
+ */
+
+const styleContractSchema = z.object({
+  styleSummary: z.string(),
+  styleContractText: z.string(),
+  forbiddenList: z.array(z.string()),
+  recommendedLineThickness: z.enum(["thin", "medium", "bold"]),
+  recommendedComplexity: z.enum(["simple", "medium", "detailed"]),
+  outlineRules: z.string(),
+  backgroundRules: z.string(),
+  compositionRules: z.string(),
+  eyeRules: z.string(),
+  extractedThemeGuess: z.string().default(""),
+});
+
+const themePackSchema = z.object({
+  setting: z.string(),
+  recurringProps: z.array(z.string()),
+  motifs: z.array(z.string()),
+  allowedSubjects: z.array(z.string()),
+  forbiddenElements: z.array(z.string()),
+  characterName: z.string().optional(),
+  characterDescription: z.string().optional(),
+});
+
+const requestSchema = z.object({
+  referenceImageBase64: z.string().min(1),
+  name: z.string().optional(),
+  mode: z.enum(["series", "collection"]).optional(),
+  themeText: z.string().optional(),
+  pagesCount: z.number().int().min(1).max(80).optional(),
+  complexity: z.enum(["simple", "medium", "detailed"]).optional(),
+  lineThickness: z.enum(["thin", "medium", "bold"]).optional(),
+  sizePreset: z.string().optional(),
+  styleContract: styleContractSchema.nullable().optional(),
+  themePack: themePackSchema.nullable().optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+    const { referenceImageBase64, name, ...settings } = requestSchema.parse(body);
+
+    await assertStyleCloneAccess(user.id);
+
+    const project = await createStyleCloneProject(user.id, {
+      referenceImageBase64,
+      name,
+      settings,
+    });
+
+    console.log(`[style-clone/projects] Created project ${project.id} for user ${user.id}`);
+
+    return NextResponse.json({ success: true, project });
+
+  } catch (error) {
+    if (isEntitlementError(error)) {
+      return entitlementErrorResponse(error);
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.flatten() },
+        { status: 400 }
+      );
+    }
+    console.error("[style-clone/projects] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create project" },
+      { status: 500 }
+    );
+  }
+}
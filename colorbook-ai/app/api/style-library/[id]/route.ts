@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser, unauthorizedResponse, userOwnsProject } from "@/lib/supabase/server";
+import {
+  deleteLibraryStyle,
+  getLibraryStyle,
+  saveLibraryStyleVersion,
+  updateLibraryStyle,
+} from "@/lib/styleLibraryStore";
+
+/**
+ * GET /api/style-library/[id]
+ *
+ * Load a saved style with every version, newest first.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id: styleId } = await params;
+    const style = await getLibraryStyle(styleId, user.id);
+
+    if (!style) {
+      return NextResponse.json(
+        { error: "Style not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, style });
+
+  } catch (error) {
+    console.error("[style-library] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load style" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/style-library/[id]
+ *
+ * Rename a style, and/or save a new version when a styleContract is sent.
+ * Existing versions never change, so projects pinned to them are unaffected.
+ */
+const styleContractSchema = z.object({
+  styleSummary: z.string(),
+  styleContractText: z.string(),
+  forbiddenList: z.array(z.string()),
+  recommendedLineThickness: z.enum(["thin", "medium", "bold"]),
+  recommendedComplexity: z.enum(["simple", "medium", "detailed"]),
+  outlineRules: z.string(),
+  backgroundRules: z.string(),
+  compositionRules: z.string(),
+  eyeRules: z.string(),
+  extractedThemeGuess: z.string().default(""),
+});
+
+const themePackSchema = z.object({
+  setting: z.string(),
+  recurringProps: z.array(z.string()),
+  motifs: z.array(z.string()),
+  allowedSubjects: z.array(z.string()),
+  forbiddenElements: z.array(z.string()),
+  characterName: z.string().optional(),
+  characterDescription: z.string().optional(),
+});
+
+const updateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  styleContract: styleContractSchema.optional(),
+  themePack: themePackSchema.nullable().optional(),
+  referenceImageBase64: z.string().optional(),
+  sourceProjectId: z.string().uuid().optional(),
+});
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id: styleId } = await params;
+    const body = await request.json();
+    const { name, description, styleContract, ...versionInput } = updateSchema.parse(body);
+
+    if (versionInput.sourceProjectId && !(await userOwnsProject(versionInput.sourceProjectId, user.id))) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const updated = await updateLibraryStyle(styleId, user.id, { name, description });
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: "Style not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (styleContract) {
+      await saveLibraryStyleVersion(styleId, user.id, { styleContract, ...versionInput });
+    }
+
+    const style = await getLibraryStyle(styleId, user.id);
+
+    return NextResponse.json({ success: true, style });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.flatten() },
+        { status: 400 }
+      );
+    }
+    console.error("[style-library] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update style" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/style-library/[id]
+ *
+ * Delete a style with all its versions and thumbnails.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id: styleId } = await params;
+    const deleted = await deleteLibraryStyle(styleId, user.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Style not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error("[style-library] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete style" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser, unauthorizedResponse, userOwnsProject } from "@/lib/supabase/server";
+import { assertStyleCloneAccess } from "@/lib/entitlements";
+import { isEntitlementError, entitlementErrorResponse } from "@/lib/errors/entitlementErrors";
+import { createLibraryStyle, listLibraryStyles } from "@/lib/styleLibraryStore";
+
+/**
+ * GET /api/style-library
+ *
+ * List the user's saved styles with their latest version.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const styles = await listLibraryStyles(user.id);
+
+    return NextResponse.json({ success: true, styles });
+
+  } catch (error) {
+    console.error("[style-library] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to list styles" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/style-library
+ *
+ * Save a style contract (usually from Style Clone) as a new named style.
+ * Requires Style Clone on the plan, since that's where contracts come from.
+ */
+const styleContractSchema = z.object({
+  styleSummary: z.string(),
+  styleContractText: z.string(),
+  forbiddenList: z.array(z.string()),
+  recommendedLineThickness: z.enum(["thin", "medium", "bold"]),
+  recommendedComplexity: z.enum(["simple", "medium", "detailed"]),
+  outlineRules: z.string(),
+  backgroundRules: z.string(),
+  compositionRules: z.string(),
+  eyeRules: z.string(),
+  extractedThemeGuess: z.string().default(""),
+});
+
+const themePackSchema = z.object({
+  setting: z.string(),
+  recurringProps: z.array(z.string()),
+  motifs: z.array(z.string()),
+  allowedSubjects: z.array(z.string()),
+  forbiddenElements: z.array(z.string()),
+  characterName: z.string().optional(),
+  characterDescription: z.string().optional(),
+});
+
+const requestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  styleContract: styleContractSchema,
+  themePack: themePackSchema.nullable().optional(),
+  referenceImageBase64: z.string().optional(),
+  sourceProjectId: z.string().uuid().optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+    const data = requestSchema.parse(body);
+
+    await assertStyleCloneAccess(user.id);
+
+    if (data.sourceProjectId && !(await userOwnsProject(data.sourceProjectId, user.id))) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const style = await createLibraryStyle(user.id, data);
+
+    console.log(`[style-library] Created style ${style.id} for user ${user.id}`);
+
+    return NextResponse.json({ success: true, style });
+
+  } catch (error) {
+    if (isEntitlementError(error)) {
+      return entitlementErrorResponse(error);
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.flatten() },
+        { status: 400 }
+      );
+    }
+    console.error("[style-library] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save style" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/db";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
 import { generateSyntheticTrends, mergeAndRankTrends } from "@/lib/trends/fetchTrends";
+import type { TrendSignal } from "@/types/database";
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
@@ -9,21 +10,25 @@ export async function GET(request: NextRequest) {
 
   try {
     // Try to get from database first
-    const latestSignals = await prisma.trendSignal.findMany({
-      where: {
-        region,
-        periodDays,
-      },
-      orderBy: [
-        { collectedAt: "desc" },
-        { score: "desc" },
-      ],
-      take: 100,
-    });
+    const supabase = getSupabaseServerClient();
+    const { data, error: queryError } = await supabase
+      .from("trend_signals")
+      .select("*")
+      .eq("region", region)
+      .eq("period_days", periodDays)
+      .order("collected_at", { ascending: false })
+      .order("score", { ascending: false })
+      .limit(100);
+
+    if (queryError) {
+      throw new Error(queryError.message);
+    }
+
+    const latestSignals = (data ?? []) as TrendSignal[];
 
     // Get the latest collection timestamp
     const latestTimestamp = latestSignals.length > 0 
-      ? latestSignals[0].collectedAt 
+      ? new Date(latestSignals[0].collected_at) 
       : null;
 
     // If we have recent data (within 24 hours), use it
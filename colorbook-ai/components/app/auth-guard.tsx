@@ -0,0 +1,36 @@
+"use client";
+
+import { ReactNode, useEffect } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { useSessionUser } from "@/hooks/useSessionUser";
+
+interface AuthGuardProps {
+  children: ReactNode;
+}
+
+/**
+ * Redirects anonymous visitors to /auth, returning them to the
+ * page they asked for once they have signed in.
+ */
+export function AuthGuard({ children }: AuthGuardProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { user, loading } = useSessionUser();
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.replace(`/auth?next=${encodeURIComponent(pathname || "/app")}`);
+    }
+  }, [loading, user, pathname, router]);
+
+  if (loading || !user) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Loader2, Plus, CheckCircle2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import type { CharacterIdentityProfile } from "@/lib/characterIdentity";
+import {
+  toAppliedLibraryCharacter,
+  type AppliedLibraryCharacter,
+  type LibraryCharacter,
+} from "@/lib/characterLibrary";
+
+interface CharacterLibraryPickerProps {
+  value: AppliedLibraryCharacter | null;
+  onChange: (character: LibraryCharacter | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Select a saved Character Library character for a storybook, so every page
+ * uses its locked identity profile instead of a freshly extracted one.
+ */
+export function CharacterLibraryPicker({ value, onChange, disabled }: CharacterLibraryPickerProps) {
+  const [characters, setCharacters] = useState<LibraryCharacter[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/character-library")
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load characters");
+        }
+        if (!cancelled) setCharacters(data.characters);
+      })
+      .catch((err) => {
+        console.error("Failed to load character library:", err);
+        if (!cancelled) setCharacters([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!characters) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading saved characters...
+      </div>
+    );
+  }
+
+  if (characters.length === 0 && !value) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No saved characters yet. Save one after generating a storybook, then manage it in{" "}
+        <Link href="/app/characters" className="text-primary hover:underline">
+          Characters
+        </Link>
+        .
+      </p>
+    );
+  }
+
+  const selected = value ? characters.find((c) => c.id === value.characterId) : undefined;
+
+  return (
+    <div className="flex items-center gap-3">
+      {selected?.sheetUrl && (
+        <img
+          src={selected.sheetUrl}
+          alt={selected.name}
+          className="h-11 w-11 flex-shrink-0 rounded-lg border border-border object-cover"
+        />
+      )}
+      <select
+        value={value?.characterId ?? ""}
+        onChange={(e) => onChange(characters.find((c) => c.id === e.target.value) ?? null)}
+        disabled={disabled}
+        className="w-full h-11 rounded-xl border border-input bg-background px-3 py-2 text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary transition-colors"
+      >
+        <option value="">New character from the idea</option>
+        {value && !selected && <option value={value.characterId}>{value.name}</option>}
+        {characters.map((character) => (
+          <option key={character.id} value={character.id}>
+            {character.name} ({character.profile.species})
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+interface SaveCharacterToLibraryProps {
+  profile: CharacterIdentityProfile;
+  /** Project the profile was extracted in */
+  projectId?: string | null;
+  onSaved?: (character: AppliedLibraryCharacter) => void;
+}
+
+/**
+ * Save an extracted character identity profile to the Character Library
+ */
+export function SaveCharacterToLibrary({ profile, projectId, onSaved }: SaveCharacterToLibraryProps) {
+  const [name, setName] = useState(profile.name || "");
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState<AppliedLibraryCharacter | null>(null);
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/character-library", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          profile: { ...profile, name: profile.name || name.trim() },
+          sourceProjectId: projectId ?? undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save character");
+      }
+      const applied = toAppliedLibraryCharacter(data.character);
+      setSaved(applied);
+      onSaved?.(applied);
+      toast.success(`Saved "${data.character.name}" to your Character Library`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save character");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (saved) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        <CheckCircle2 className="inline mr-1.5 h-4 w-4 text-green-500" />
+        Saved as &quot;{saved.name}&quot;. Pick it for your next storybook, or approve a character sheet in{" "}
+        <Link href="/app/characters" className="text-primary hover:underline">
+          Characters
+        </Link>
+        .
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder={`Name this ${profile.species}`}
+        maxLength={100}
+        className="h-10 rounded-xl"
+      />
+      <Button
+        variant="outline"
+        className="h-10 rounded-xl shrink-0"
+        onClick={save}
+        disabled={isSaving || !name.trim()}
+      >
+        {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+        Save Character
+      </Button>
+    </div>
+  );
+}
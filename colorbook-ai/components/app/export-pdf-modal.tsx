@@ -4,6 +4,7 @@ import { useState, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Dialog,
   DialogContent,
@@ -23,17 +24,27 @@ import {
   BookMarked,
   FileCheck,
   Layers,
+  ShieldCheck,
+  XCircle,
   X
 } from "lucide-react";
 import { toast } from "sonner";
 import { PDFDocument, rgb, StandardFonts } from "pdf-lib";
 import { PDFPreviewModal } from "./pdf-preview-modal";
-
-// US Letter at 72 DPI (standard PDF points)
-const PAGE_SIZES = {
-  letter: { width: 612, height: 792 },
-  a4: { width: 595.28, height: 841.89 },
-};
+import { TRIM_SIZES_IN, getInteriorLayout, getLiveAreaPt } from "@/lib/generationSpec";
+import type { PreflightCheck, PreflightReport } from "@/lib/kdpPreflight";
+import { getSupabaseBrowserClient } from "@/lib/supabase/browser";
+
+/** Room kept at the bottom of the live area for page numbers */
+const PAGE_NUMBER_SPACE = 25;
+
+interface KdpPreflightState {
+  report: PreflightReport;
+  /** Export options the report was produced for */
+  optionsKey: string;
+  /** The exact file that was checked - "Download for KDP" saves this */
+  pdfBytes: Uint8Array;
+}
 
 interface PageData {
   page: number;
@@ -83,7 +94,8 @@ export function ExportPDFModal({
   const [author, setAuthor] = useState(defaultAuthor);
   const [year, setYear] = useState(new Date().getFullYear().toString());
   const [website, setWebsite] = useState("");
-  const [pageSize, setPageSize] = useState<"letter" | "a4">("letter");
+  const [trimSize, setTrimSize] = useState("8.5x11");
+  const [bleed, setBleed] = useState(false);
   const [insertBlankPages, setInsertBlankPages] = useState(true);
   const [includeBelongsTo, setIncludeBelongsTo] = useState(true);
   const [includeCopyright, setIncludeCopyright] = useState(true);
@@ -100,10 +112,28 @@ export function ExportPDFModal({
   const [showPreview, setShowPreview] = useState(false);
   const [pdfData, setPdfData] = useState<Uint8Array | null>(null);
 
+  // KDP preflight state
+  const [kdpPreflight, setKdpPreflight] = useState<KdpPreflightState | null>(null);
+  const [isPreflighting, setIsPreflighting] = useState(false);
+  const [acknowledgedRisks, setAcknowledgedRisks] = useState(false);
+
   // Check processing status
   const processedCount = coloringPages.filter(p => p.finalLetterBase64 || p.finalLetterStatus === "done").length;
   const allPagesProcessed = processedCount === coloringPages.length;
 
+  const availablePages = coloringPages.filter(p => p.imageBase64);
+  const totalPages = (includeBelongsTo ? 1 : 0) + (includeCopyright ? 1 : 0) + availablePages.length + (insertBlankPages ? Math.max(0, availablePages.length - 1) : 0);
+
+  // A preflight report only applies to the options it was run with
+  const optionsKey = JSON.stringify([
+    title, author, year, website, trimSize, bleed, insertBlankPages,
+    includeBelongsTo, includeCopyright, includePageNumbers, includeCreatedWith,
+    coloringPages.map(p => p.page),
+  ]);
+  const preflightReport = kdpPreflight?.optionsKey === optionsKey ? kdpPreflight.report : null;
+  const preflightStale = kdpPreflight !== null && !preflightReport;
+  const canDownloadForKdp = preflightReport !== null && (preflightReport.passed || acknowledgedRisks);
+
   // Generate the belongs-to page
   const generateBelongsToPage = async (): Promise<BelongsToData | null> => {
     if (belongsToData?.finalLetterBase64) return belongsToData;
@@ -188,8 +218,9 @@ export function ExportPDFModal({
 
   // Generate PDF
   const generatePDF = async (): Promise<{ pdfDoc: PDFDocument; pageCount: number }> => {
-    const dimensions = PAGE_SIZES[pageSize];
-    const margins = 36;
+    // KDP trim size with margins and gutter sized for the whole book
+    const layout = getInteriorLayout(trimSize, { pageCount: totalPages, bleed });
+    const dimensions = { width: layout.pageWidthPt, height: layout.pageHeightPt };
 
     const pdfDoc = await PDFDocument.create();
     const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
@@ -197,12 +228,29 @@ export function ExportPDFModal({
 
     let currentPageNum = 0;
 
+    // Scale an image to fit the page's live area, above the page number
+    const fitToLiveArea = (image: { width: number; height: number }, pageNum: number) => {
+      const live = getLiveAreaPt(layout, pageNum);
+      const numberSpace = includePageNumbers ? PAGE_NUMBER_SPACE : 0;
+      const maxHeight = live.height - numberSpace;
+      const scale = Math.min(live.width / image.width, maxHeight / image.height);
+      const scaledWidth = image.width * scale;
+      const scaledHeight = image.height * scale;
+      return {
+        x: live.x + (live.width - scaledWidth) / 2,
+        y: live.y + numberSpace + (maxHeight - scaledHeight) / 2,
+        scaledWidth,
+        scaledHeight,
+      };
+    };
+
     const addPageNumber = (page: Awaited<ReturnType<typeof pdfDoc.addPage>>, num: number) => {
       if (!includePageNumbers) return;
-      const { width } = page.getSize();
-      page.drawText(String(num), {
-        x: width / 2 - 10,
-        y: 30,
+      const live = getLiveAreaPt(layout, num);
+      const text = String(num);
+      page.drawText(text, {
+        x: live.x + (live.width - font.widthOfTextAtSize(text, 10)) / 2,
+        y: live.y + 6,
         size: 10,
         font: font,
         color: rgb(0.5, 0.5, 0.5),
@@ -223,18 +271,7 @@ export function ExportPDFModal({
           currentPageNum++;
           
           const pngImage = await embedImage(pdfDoc, finalBelongsTo.finalLetterBase64);
-          
-          const availableWidth = dimensions.width - (margins * 2);
-          const availableHeight = dimensions.height - (margins * 2);
-          const scale = Math.min(
-            availableWidth / pngImage.width,
-            availableHeight / pngImage.height
-          );
-          const scaledWidth = pngImage.width * scale;
-          const scaledHeight = pngImage.height * scale;
-          
-          const x = (dimensions.width - scaledWidth) / 2;
-          const y = (dimensions.height - scaledHeight) / 2;
+          const { x, y, scaledWidth, scaledHeight } = fitToLiveArea(pngImage, currentPageNum);
           
           belongsToPage.drawImage(pngImage, { x, y, width: scaledWidth, height: scaledHeight });
           addPageNumber(belongsToPage, currentPageNum);
@@ -250,8 +287,9 @@ export function ExportPDFModal({
       const copyrightPage = pdfDoc.addPage([dimensions.width, dimensions.height]);
       currentPageNum++;
       
-      const { width, height } = copyrightPage.getSize();
-      const centerX = width / 2;
+      const { height } = copyrightPage.getSize();
+      const copyrightLive = getLiveAreaPt(layout, currentPageNum);
+      const centerX = copyrightLive.x + copyrightLive.width / 2;
       let textY = height / 2 + 50;
       const lineHeight = 20;
       
@@ -334,18 +372,7 @@ export function ExportPDFModal({
         
         const imageToUse = getPageImage(pageData);
         const pngImage = await embedImage(pdfDoc, imageToUse);
-        
-        const availableWidth = dimensions.width - (margins * 2);
-        const availableHeight = dimensions.height - (margins * 2);
-        const scale = Math.min(
-          availableWidth / pngImage.width,
-          availableHeight / pngImage.height
-        );
-        const scaledWidth = pngImage.width * scale;
-        const scaledHeight = pngImage.height * scale;
-        
-        const x = (dimensions.width - scaledWidth) / 2;
-        const y = (dimensions.height - scaledHeight) / 2;
+        const { x, y, scaledWidth, scaledHeight } = fitToLiveArea(pngImage, currentPageNum);
         
         coloringPage.drawImage(pngImage, { x, y, width: scaledWidth, height: scaledHeight });
         addPageNumber(coloringPage, currentPageNum);
@@ -397,19 +424,7 @@ export function ExportPDFModal({
   const handleDownload = useCallback(() => {
     if (!pdfData) return;
     
-    const arrayBuffer = pdfData.buffer.slice(
-      pdfData.byteOffset,
-      pdfData.byteOffset + pdfData.byteLength
-    ) as ArrayBuffer;
-    const blob = new Blob([arrayBuffer], { type: "application/pdf" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `${title.replace(/[^a-zA-Z0-9]/g, "_")}_coloring_book.pdf`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadPdfBytes(pdfData, `${title.replace(/[^a-zA-Z0-9]/g, "_")}_coloring_book.pdf`);
     
     toast.success("PDF downloaded!");
     onClose();
@@ -437,19 +452,7 @@ export function ExportPDFModal({
       setExportStep("Finalizing...");
       const pdfBytes = await pdfDoc.save();
       
-      const arrayBuffer = pdfBytes.buffer.slice(
-        pdfBytes.byteOffset,
-        pdfBytes.byteOffset + pdfBytes.byteLength
-      ) as ArrayBuffer;
-      const blob = new Blob([arrayBuffer], { type: "application/pdf" });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = `${title.replace(/[^a-zA-Z0-9]/g, "_")}_coloring_book.pdf`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      downloadPdfBytes(pdfBytes, `${title.replace(/[^a-zA-Z0-9]/g, "_")}_coloring_book.pdf`);
 
       toast.success(`PDF exported! (${pageCount} pages)`);
       onClose();
@@ -463,8 +466,72 @@ export function ExportPDFModal({
     }
   };
 
-  const availablePages = coloringPages.filter(p => p.imageBase64);
-  const totalPages = (includeBelongsTo ? 1 : 0) + (includeCopyright ? 1 : 0) + availablePages.length + (insertBlankPages ? Math.max(0, availablePages.length - 1) : 0);
+  // KDP preflight: build the PDF and check it against KDP's print requirements
+  const handleKdpPreflight = async () => {
+    if (coloringPages.length === 0) {
+      toast.error("No pages to check");
+      return;
+    }
+    if (!title.trim()) {
+      toast.error("Please enter a book title");
+      return;
+    }
+
+    setIsExporting(true);
+    setIsPreflighting(true);
+
+    try {
+      setExportStep("Building PDF...");
+      const { pdfDoc } = await generatePDF();
+      const pdfBytes = await pdfDoc.save();
+
+      setExportStep("Uploading PDF...");
+      const pdfPath = await uploadPdfForPreflight(pdfBytes);
+
+      setExportStep("Checking KDP requirements...");
+      const response = await fetch("/api/export/preflight", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          source: "upload",
+          pdfPath,
+          trimSize,
+          bleed,
+        }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Preflight failed");
+      }
+
+      const report = data.report as PreflightReport;
+      setKdpPreflight({ report, optionsKey, pdfBytes });
+      setAcknowledgedRisks(false);
+
+      if (report.passed) {
+        toast.success(report.warningCount > 0 ? `Ready for KDP (${report.warningCount} warning${report.warningCount !== 1 ? "s" : ""})` : "Ready for KDP!");
+      } else {
+        toast.error(`${report.errorCount} KDP issue${report.errorCount !== 1 ? "s" : ""} found`);
+      }
+    } catch (error) {
+      console.error("Preflight error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to check PDF");
+    } finally {
+      setIsExporting(false);
+      setIsPreflighting(false);
+      setExportStep("");
+    }
+  };
+
+  // Download the checked PDF - blocked until errors are fixed or acknowledged
+  const handleKdpDownload = () => {
+    if (!kdpPreflight || !canDownloadForKdp) return;
+
+    downloadPdfBytes(kdpPreflight.pdfBytes, `${title.replace(/[^a-zA-Z0-9]/g, "_")}_KDP_interior.pdf`);
+    toast.success("KDP interior downloaded!");
+    onClose();
+  };
 
   return (
     <>
@@ -533,13 +600,21 @@ export function ExportPDFModal({
               </div>
               
               <select
-                value={pageSize}
-                onChange={(e) => setPageSize(e.target.value as "letter" | "a4")}
+                value={trimSize}
+                onChange={(e) => setTrimSize(e.target.value)}
                 className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
               >
-                <option value="letter">US Letter (8.5 × 11 in)</option>
-                <option value="a4">A4 (210 × 297 mm)</option>
+                {Object.entries(TRIM_SIZES_IN).map(([size, { widthIn, heightIn }]) => (
+                  <option key={size} value={size}>
+                    {size === "A4" ? "A4 (210 × 297 mm)" : `${widthIn} × ${heightIn} in`}
+                  </option>
+                ))}
               </select>
+
+              <label className="flex items-center justify-between py-1 cursor-pointer">
+                <span className="text-sm">Full bleed (0.125&quot; extra on outside edges)</span>
+                <Switch checked={bleed} onCheckedChange={setBleed} />
+              </label>
             </div>
 
             {/* Content Options */}
@@ -606,6 +681,72 @@ export function ExportPDFModal({
               </div>
               <span className="text-lg font-bold text-gray-900">{totalPages}</span>
             </div>
+
+            {/* KDP Preflight */}
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+                <ShieldCheck className="h-4 w-4" />
+                KDP Preflight
+              </div>
+
+              {!preflightReport && (
+                <p className="text-sm text-muted-foreground">
+                  {preflightStale
+                    ? "Options changed since the last check - run it again."
+                    : "Check page size, margins, resolution, fonts and color against KDP's print requirements before uploading."}
+                </p>
+              )}
+
+              {preflightReport && (
+                <ul className="space-y-2 bg-gray-50 rounded-lg p-3">
+                  {preflightReport.checks.map((check) => (
+                    <PreflightCheckItem key={check.id} check={check} />
+                  ))}
+                </ul>
+              )}
+
+              {preflightReport && !preflightReport.passed && (
+                <label className="flex items-start gap-2 p-3 rounded-lg bg-red-50 border border-red-200 cursor-pointer">
+                  <Checkbox
+                    checked={acknowledgedRisks}
+                    onCheckedChange={(checked) => setAcknowledgedRisks(checked === true)}
+                    className="mt-0.5"
+                  />
+                  <span className="text-sm text-red-800">
+                    I understand KDP may reject this file and want to download it anyway
+                  </span>
+                </label>
+              )}
+
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={handleKdpPreflight}
+                  disabled={isExporting || availablePages.length === 0}
+                  className="flex-1 gap-2"
+                >
+                  {isPreflighting ? (
+                    <>
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      {exportStep || "Checking..."}
+                    </>
+                  ) : (
+                    <>
+                      <ShieldCheck className="h-4 w-4" />
+                      {kdpPreflight ? "Re-run check" : "Check for KDP"}
+                    </>
+                  )}
+                </Button>
+                <Button
+                  onClick={handleKdpDownload}
+                  disabled={isExporting || !canDownloadForKdp}
+                  className="flex-1 gap-2"
+                >
+                  <Download className="h-4 w-4" />
+                  Download for KDP
+                </Button>
+              </div>
+            </div>
           </div>
 
           {/* Footer */}
@@ -666,3 +807,69 @@ export function ExportPDFModal({
     </>
   );
 }
+
+function PreflightCheckItem({ check }: { check: PreflightCheck }) {
+  const Icon = check.status === "pass" ? CheckCircle2 : check.status === "warning" ? AlertTriangle : XCircle;
+  const iconColor = check.status === "pass" ? "text-green-600" : check.status === "warning" ? "text-amber-600" : "text-red-600";
+  const shownPages = check.pages?.slice(0, 10) ?? [];
+
+  return (
+    <li className="flex items-start gap-2">
+      <Icon className={`h-4 w-4 shrink-0 mt-0.5 ${iconColor}`} />
+      <div className="text-sm">
+        <p className="font-medium text-gray-800">{check.label}</p>
+        <p className="text-gray-600">{check.message}</p>
+        {shownPages.length > 0 && (
+          <p className="text-xs text-gray-500 mt-0.5">
+            Page{shownPages.length !== 1 ? "s" : ""} {shownPages.join(", ")}
+            {check.pages!.length > shownPages.length ? ` +${check.pages!.length - shownPages.length} more` : ""}
+          </p>
+        )}
+      </div>
+    </li>
+  );
+}
+
+function downloadPdfBytes(pdfBytes: Uint8Array, filename: string) {
+  const arrayBuffer = pdfBytes.buffer.slice(
+    pdfBytes.byteOffset,
+    pdfBytes.byteOffset + pdfBytes.byteLength
+  ) as ArrayBuffer;
+  const blob = new Blob([arrayBuffer], { type: "application/pdf" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Upload a built PDF to storage for /api/export/preflight - a whole book is
+ * far larger than a request body may be
+ */
+async function uploadPdfForPreflight(pdfBytes: Uint8Array): Promise<string> {
+  const response = await fetch("/api/export/preflight/upload-url", { method: "POST" });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to prepare the upload");
+  }
+
+  const arrayBuffer = pdfBytes.buffer.slice(
+    pdfBytes.byteOffset,
+    pdfBytes.byteOffset + pdfBytes.byteLength
+  ) as ArrayBuffer;
+  const { error } = await getSupabaseBrowserClient()
+    .storage
+    .from("generated")
+    .uploadToSignedUrl(data.pdfPath, data.token, new Blob([arrayBuffer], { type: "application/pdf" }), {
+      contentType: "application/pdf",
+    });
+
+  if (error) {
+    throw new Error(`Failed to upload the PDF: ${error.message}`);
+  }
+  return data.pdfPath;
+}
@@ -14,9 +14,11 @@ import {
   CheckCircle2,
   XCircle,
   AlertCircle,
+  Copy,
   Image as ImageIcon,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { PageDuplicateMatch } from "@/lib/pageDuplicates";
 
 // Status types
 export type PreviewStatus = 
@@ -103,6 +105,28 @@ export function PreviewStatusBadge({ status, className }: StatusBadgeProps) {
   );
 }
 
+// Duplicate Badge - the page nearly repeats another page of the book
+interface DuplicateBadgeProps {
+  duplicateOf: PageDuplicateMatch;
+  className?: string;
+}
+
+export function DuplicateBadge({ duplicateOf, className }: DuplicateBadgeProps) {
+  const page = duplicateOf.seriesVolume
+    ? `Book ${duplicateOf.seriesVolume} p. ${duplicateOf.pageNumber}`
+    : `p. ${duplicateOf.pageNumber}`;
+
+  return (
+    <Badge
+      className={cn("bg-amber-500/90 text-white text-[10px] px-1.5 py-0", className)}
+      title={`Hash distance ${duplicateOf.hashDistance}/64, outline density ${Math.round(duplicateOf.densitySimilarity * 100)}% alike`}
+    >
+      <Copy className="h-2.5 w-2.5 mr-0.5" />
+      {duplicateOf.kind === "duplicate" ? "Duplicate of" : "Similar to"} {page}
+    </Badge>
+  );
+}
+
 // Preview Card Props
 interface PreviewCardProps {
   index?: number;
@@ -111,6 +135,7 @@ interface PreviewCardProps {
   status: PreviewStatus;
   isEnhanced?: boolean;
   isApproved?: boolean;
+  duplicateOf?: PageDuplicateMatch;
   error?: string;
   onView?: () => void;
   onRegenerate?: () => void;
@@ -126,6 +151,7 @@ export function PreviewCard({
   status,
   isEnhanced,
   isApproved,
+  duplicateOf,
   error,
   onView,
   onRegenerate,
@@ -208,6 +234,7 @@ export function PreviewCard({
               Approved
             </Badge>
           )}
+          {duplicateOf && <DuplicateBadge duplicateOf={duplicateOf} />}
         </div>
 
         {/* Hover actions overlay */}
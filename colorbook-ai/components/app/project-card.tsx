@@ -16,11 +16,12 @@ import {
 import { formatDate } from "@/lib/mock-data";
 import type { Project } from "@/lib/mock-data";
 
-interface DBProject {
+export interface DBProject {
   id: string;
   name: string;
   type: "coloring" | "quote";
-  status: "draft" | "in_progress" | "complete";
+  // Raw project status from /api/projects (draft, generating, partial, ready...)
+  status: string;
   pageCount: number;
   createdAt: string;
   updatedAt: string;
@@ -28,6 +29,21 @@ interface DBProject {
   canResume?: boolean;
   promptsCount?: number;
   imagesCount?: number;
+  // Flow that created the project (projects.origin)
+  origin?: string;
+}
+
+/**
+ * Where a saved project is opened/resumed - style clone and quote book projects have their own editor
+ */
+export function getProjectHref(projectId: string, origin?: string, resume = false): string {
+  if (origin === "style_clone") {
+    return `/app/style-clone?projectId=${projectId}`;
+  }
+  if (origin === "quote_book") {
+    return `/app/quote-book?projectId=${projectId}`;
+  }
+  return `/app/create?projectId=${projectId}${resume ? "&resume=true" : ""}`;
 }
 
 interface ProjectCardProps {
@@ -90,6 +106,8 @@ export function ProjectCard({ project }: ProjectCardProps) {
   }
 
   const updatedAt = project.updatedAt;
+  const origin = isDbProject ? (project as DBProject).origin : undefined;
+  const href = isDbProject ? getProjectHref(project.id, origin) : `/app/projects/${project.id}`;
 
   return (
     <Card className="group hover:shadow-lg dark:hover:bg-card/80 transition-all duration-300">
@@ -97,7 +115,7 @@ export function ProjectCard({ project }: ProjectCardProps) {
         <div className="mb-4 flex items-start justify-between">
           <div className="flex-1">
             <Link
-              href={isDbProject ? `/app/create?projectId=${project.id}` : `/app/projects/${project.id}`}
+              href={href}
               className="font-semibold text-[15px] hover:text-foreground/80 transition-colors"
             >
               {title}
@@ -122,13 +140,13 @@ export function ProjectCard({ project }: ProjectCardProps) {
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
               <DropdownMenuItem asChild>
-                <Link href={isDbProject ? `/app/create?projectId=${project.id}` : `/app/projects/${project.id}`}>
+                <Link href={href}>
                   <Eye className="mr-2 h-4 w-4" /> View Project
                 </Link>
               </DropdownMenuItem>
               {canResume && (
                 <DropdownMenuItem asChild>
-                  <Link href={`/app/create?projectId=${project.id}&resume=true`}>
+                  <Link href={getProjectHref(project.id, origin, true)}>
                     <Play className="mr-2 h-4 w-4" /> Resume Generation
                   </Link>
                 </DropdownMenuItem>
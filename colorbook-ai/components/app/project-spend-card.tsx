@@ -0,0 +1,198 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ProgressBar } from "@/components/app/progress-bar";
+import { Loader2 } from "lucide-react";
+import type { ProjectSpend } from "@/lib/generationCosts";
+import type { GenerationCostKind } from "@/types/database";
+
+interface SpendResponse {
+  project: ProjectSpend & { capUsd: number | null };
+  monthly: {
+    periodStart: string;
+    spentUsd: number;
+    capUsd: number | null;
+  };
+}
+
+interface ProjectSpendCardProps {
+  projectId: string;
+}
+
+const KIND_LABELS: Record<GenerationCostKind, string> = {
+  image: "Images",
+  image_edit: "Image edits",
+  chat: "Prompts & validation",
+  enhance: "Upscaling",
+};
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 2)}`;
+}
+
+/**
+ * Estimated generation cost of a project, including discarded retries,
+ * with the owner's month-to-date total against their spend caps.
+ */
+export function ProjectSpendCard({ projectId }: ProjectSpendCardProps) {
+  const [spend, setSpend] = useState<SpendResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/projects/${projectId}/spend`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load spend");
+        }
+        if (!cancelled) setSpend(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load spend");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  if (loading) {
+    return (
+      <Card className="border-border/50 bg-card/60">
+        <CardContent className="flex items-center justify-center p-10">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error || !spend) {
+    return (
+      <Card className="border-border/50 bg-card/60">
+        <CardContent className="p-6 text-sm text-muted-foreground">
+          Spend data unavailable{error ? `: ${error}` : ""}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { project, monthly } = spend;
+  const kinds = (Object.keys(KIND_LABELS) as GenerationCostKind[]).filter((kind) => project.byKind[kind] > 0);
+
+  return (
+    <div className="space-y-4">
+      {/* Totals */}
+      <Card className="border-border/50 bg-card/60">
+        <CardHeader>
+          <CardTitle className="text-lg">Generation Spend</CardTitle>
+          <CardDescription>
+            Estimated provider cost, including retries discarded by quality checks
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-6 sm:grid-cols-2">
+          <div>
+            <p className="text-xs text-muted-foreground">This book</p>
+            <p className="text-2xl font-semibold">{formatUsd(project.totalUsd)}</p>
+            <p className="text-xs text-muted-foreground">
+              {project.images} images • {(project.inputTokens + project.outputTokens).toLocaleString()} tokens
+            </p>
+            {project.batchSavingsUsd > 0 && (
+              <Badge variant="secondary" className="mt-2">
+                Saved {formatUsd(project.batchSavingsUsd)} with batch mode
+              </Badge>
+            )}
+            {project.capUsd !== null && (
+              <div className="mt-3">
+                <ProgressBar value={Math.min(project.totalUsd, project.capUsd)} max={project.capUsd} />
+                <p className="mt-1 text-xs text-muted-foreground">Cap {formatUsd(project.capUsd)}</p>
+              </div>
+            )}
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Your total this month</p>
+            <p className="text-2xl font-semibold">{formatUsd(monthly.spentUsd)}</p>
+            <p className="text-xs text-muted-foreground">Since {monthly.periodStart}</p>
+            {monthly.capUsd !== null && (
+              <div className="mt-3">
+                <ProgressBar value={Math.min(monthly.spentUsd, monthly.capUsd)} max={monthly.capUsd} />
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Monthly cap {formatUsd(monthly.capUsd)} — generation pauses when it is reached
+                </p>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Breakdown */}
+      {project.byModel.length > 0 && (
+        <Card className="border-border/50 bg-card/60">
+          <CardHeader>
+            <CardTitle className="text-lg">Breakdown</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex flex-wrap gap-4">
+              {kinds.map((kind) => (
+                <div key={kind}>
+                  <p className="text-xs text-muted-foreground">{KIND_LABELS[kind]}</p>
+                  <p className="text-sm font-medium">{formatUsd(project.byKind[kind])}</p>
+                </div>
+              ))}
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-muted-foreground">
+                  <th className="pb-2 font-medium">Model</th>
+                  <th className="pb-2 font-medium">Calls</th>
+                  <th className="pb-2 text-right font-medium">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {project.byModel.map((row) => (
+                  <tr key={`${row.kind}:${row.model}`} className="border-t border-border/50">
+                    <td className="py-2">
+                      {row.model}
+                      <span className="ml-2 text-xs text-muted-foreground">{KIND_LABELS[row.kind]}</span>
+                    </td>
+                    <td className="py-2">{row.calls}</td>
+                    <td className="py-2 text-right">{formatUsd(row.usd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {project.byPage.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-muted-foreground">
+                    <th className="pb-2 font-medium">Page</th>
+                    <th className="pb-2 font-medium">Images generated</th>
+                    <th className="pb-2 text-right font-medium">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {project.byPage.map((row) => (
+                    <tr key={row.pageNumber} className="border-t border-border/50">
+                      <td className="py-2">{row.pageNumber}</td>
+                      <td className="py-2">{row.images}</td>
+                      <td className="py-2 text-right">{formatUsd(row.usd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Loader2 } from "lucide-react";
+import type { Series } from "@/lib/series";
+
+interface SeriesPickerProps {
+  /** Selected series id */
+  value: string | null;
+  onChange: (series: Series | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Add a new book to one of the user's series as its next volume. The book
+ * inherits the series' style, character, author and front matter.
+ */
+export function SeriesPicker({ value, onChange, disabled }: SeriesPickerProps) {
+  const [series, setSeries] = useState<Series[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/series")
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load series");
+        }
+        if (!cancelled) setSeries(data.series);
+      })
+      .catch((err) => {
+        console.error("Failed to load series:", err);
+        if (!cancelled) setSeries([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!series) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading series...
+      </div>
+    );
+  }
+
+  if (series.length === 0 && !value) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No series yet. Create one in{" "}
+        <Link href="/app/series" className="text-primary hover:underline">
+          Series
+        </Link>{" "}
+        to publish numbered volumes with a shared style and character.
+      </p>
+    );
+  }
+
+  const selected = value ? series.find((s) => s.id === value) : undefined;
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={value ?? ""}
+        onChange={(e) => onChange(series.find((s) => s.id === e.target.value) ?? null)}
+        disabled={disabled}
+        className="w-full h-11 rounded-xl border border-input bg-background px-3 py-2 text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary transition-colors"
+      >
+        <option value="">Standalone book</option>
+        {value && !selected && <option value={value}>Current series</option>}
+        {series.map((s) => (
+          <option key={s.id} value={s.id}>
+            {s.name} ({s.volumeCount} {s.volumeCount === 1 ? "volume" : "volumes"})
+          </option>
+        ))}
+      </select>
+      {selected && !disabled && (
+        <p className="text-xs text-muted-foreground">
+          This book will be Book {selected.volumeCount + 1} of {selected.name}
+          {selected.styleLibrary && `, styled with "${selected.styleLibrary.name}"`}
+          {selected.characterLibrary && `, starring ${selected.characterLibrary.name}`}.
+        </p>
+      )}
+    </div>
+  );
+}
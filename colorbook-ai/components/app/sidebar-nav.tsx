@@ -17,6 +17,10 @@ import {
   Boxes,
   Sparkles,
   PenTool,
+  Bookmark,
+  Library,
+  Users,
+  Puzzle,
 } from "lucide-react";
 
 interface NavItem {
@@ -43,6 +47,7 @@ const navGroups: NavGroup[] = [
     items: [
       { label: "Coloring Book", href: "/app/create", icon: PenTool },
       { label: "Quote Book", href: "/app/quote-book", icon: Quote },
+      { label: "Activity Pages", href: "/app/activities", icon: Puzzle, badge: "New" },
       { label: "Bulk Create", href: "/app/bulk", icon: Boxes, badge: "New" },
       { label: "Style Clone", href: "/app/style-clone", icon: Copy, badge: "Beta" },
     ],
@@ -51,6 +56,9 @@ const navGroups: NavGroup[] = [
     title: "Library",
     items: [
       { label: "My Projects", href: "/app/projects", icon: FolderOpen },
+      { label: "Style Library", href: "/app/styles", icon: Bookmark },
+      { label: "Characters", href: "/app/characters", icon: Users },
+      { label: "Series", href: "/app/series", icon: Library },
       { label: "Templates", href: "/app/templates", icon: Layers, badge: "Soon" },
       { label: "Exports", href: "/app/exports", icon: Download, badge: "Soon" },
     ],
@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Loader2 } from "lucide-react";
+import { toAppliedLibraryStyle, type AppliedLibraryStyle, type LibraryStyle } from "@/lib/styleLibrary";
+
+interface StyleLibraryPickerProps {
+  value: AppliedLibraryStyle | null;
+  onChange: (style: AppliedLibraryStyle | null) => void;
+  disabled?: boolean;
+  /** Label of the empty option */
+  placeholder?: string;
+}
+
+/**
+ * Select a saved Style Library style (latest version) to apply to every
+ * page of a project. Styles are saved from Style Clone.
+ */
+export function StyleLibraryPicker({
+  value,
+  onChange,
+  disabled,
+  placeholder = "No saved style",
+}: StyleLibraryPickerProps) {
+  const [styles, setStyles] = useState<LibraryStyle[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/style-library")
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load styles");
+        }
+        if (!cancelled) setStyles(data.styles);
+      })
+      .catch((err) => {
+        console.error("Failed to load style library:", err);
+        if (!cancelled) setStyles([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!styles) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading saved styles...
+      </div>
+    );
+  }
+
+  if (styles.length === 0 && !value) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No saved styles yet. Extract one in{" "}
+        <Link href="/app/style-clone" className="text-primary hover:underline">
+          Style Clone
+        </Link>{" "}
+        and save it to your library.
+      </p>
+    );
+  }
+
+  const selected = value ? styles.find((s) => s.id === value.styleId) : undefined;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3">
+        {selected?.latest.thumbnailUrl && (
+          <img
+            src={selected.latest.thumbnailUrl}
+            alt={selected.name}
+            className="h-11 w-11 flex-shrink-0 rounded-lg border border-border object-cover"
+          />
+        )}
+        <select
+          value={value?.styleId ?? ""}
+          onChange={(e) => {
+            const style = styles.find((s) => s.id === e.target.value);
+            onChange(style ? toAppliedLibraryStyle(style) : null);
+          }}
+          disabled={disabled}
+          className="w-full h-11 rounded-xl border border-input bg-background px-3 py-2 text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary transition-colors"
+        >
+          <option value="">{placeholder}</option>
+          {value && !selected && (
+            <option value={value.styleId}>{value.name} (v{value.version})</option>
+          )}
+          {styles.map((style) => (
+            <option key={style.id} value={style.id}>
+              {style.name} (v{style.id === value?.styleId ? value.version : style.latestVersion})
+            </option>
+          ))}
+        </select>
+      </div>
+      {selected && value && value.version < selected.latestVersion && (
+        <p className="text-xs text-muted-foreground">
+          Pinned to v{value.version}; v{selected.latestVersion} is the latest.{" "}
+          <button
+            type="button"
+            className="text-primary hover:underline"
+            onClick={() => onChange(toAppliedLibraryStyle(selected))}
+            disabled={disabled}
+          >
+            Use latest
+          </button>
+        </p>
+      )}
+    </div>
+  );
+}
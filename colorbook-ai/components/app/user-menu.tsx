@@ -1,7 +1,9 @@
 "use client";
 
 import Link from "next/link";
-import { mockUser } from "@/lib/mock-data";
+import { useRouter } from "next/navigation";
+import { useSessionUser } from "@/hooks/useSessionUser";
+import { signOut } from "@/lib/supabase/browser";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -13,6 +15,18 @@ import {
 import { User, Settings, LogOut, ChevronsUpDown } from "lucide-react";
 
 export function UserMenu() {
+  const router = useRouter();
+  const { user } = useSessionUser();
+  
+  const email = user?.email ?? "";
+  const name = (user?.user_metadata?.full_name as string | undefined) || email.split("@")[0] || "Account";
+  const initials = name.slice(0, 2).toUpperCase();
+
+  const handleSignOut = async () => {
+    await signOut();
+    router.push("/auth");
+  };
+
   return (
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
@@ -21,11 +35,11 @@ export function UserMenu() {
           className="h-auto w-full justify-start gap-3 px-3 py-2.5 hover:bg-muted"
         >
           <div className="flex h-9 w-9 items-center justify-center rounded-full bg-primary/10 text-sm font-semibold text-primary">
-            {mockUser.avatarInitials}
+            {initials}
           </div>
           <div className="flex-1 text-left">
-            <p className="text-sm font-medium">{mockUser.name}</p>
-            <p className="text-xs text-muted-foreground">{mockUser.email}</p>
+            <p className="text-sm font-medium">{name}</p>
+            <p className="text-xs text-muted-foreground">{email}</p>
           </div>
           <ChevronsUpDown className="h-4 w-4 text-muted-foreground" />
         </Button>
@@ -42,10 +56,11 @@ export function UserMenu() {
           </Link>
         </DropdownMenuItem>
         <DropdownMenuSeparator />
-        <DropdownMenuItem asChild>
-          <Link href="/auth" className="text-destructive focus:text-destructive">
-            <LogOut className="mr-2 h-4 w-4" /> Sign Out
-          </Link>
+        <DropdownMenuItem
+          onSelect={handleSignOut}
+          className="text-destructive focus:text-destructive"
+        >
+          <LogOut className="mr-2 h-4 w-4" /> Sign Out
         </DropdownMenuItem>
       </DropdownMenuContent>
     </DropdownMenu>
@@ -14,7 +14,6 @@ import { calculateProgress, sortAssetsByPage } from '@/types/assets';
 
 interface UseProjectAssetsOptions {
   projectId: string | null;
-  userId?: string;
   autoFetch?: boolean;
   includeSignedUrls?: boolean;
 }
@@ -41,7 +40,6 @@ interface UseProjectAssetsReturn {
 
 export function useProjectAssets({
   projectId,
-  userId,
   autoFetch = true,
   includeSignedUrls = true,
 }: UseProjectAssetsOptions): UseProjectAssetsReturn {
@@ -196,7 +194,6 @@ export function useCreateProject() {
     name?: string;
     projectType?: 'coloring_book' | 'quote_book';
     settings?: Record<string, unknown>;
-    userId?: string;
   }) => {
     setLoading(true);
     setError(null);
@@ -240,7 +237,6 @@ export function useGeneratePage() {
   
   const generatePage = useCallback(async (options: {
     projectId: string;
-    userId: string;
     pageNumber: number;
     prompt: string;
     size?: 'square' | 'portrait' | 'landscape';
@@ -285,7 +281,6 @@ export function useGenerateFrontMatter() {
   
   const generateFrontMatter = useCallback(async (options: {
     projectId: string;
-    userId: string;
     frontMatterType: 'title' | 'copyright' | 'belongsTo';
     options: {
       bookTitle?: string;
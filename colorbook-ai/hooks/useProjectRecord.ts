@@ -0,0 +1,152 @@
+'use client';
+
+/**
+ * useProjectRecord Hook
+ *
+ * Registers work from the generation flows (/app/new, /app/batch, /app/bulk,
+ * /app/quote-book) as projects so it shows up in /app/projects alongside /app/create books.
+ *
+ * Persistence is best-effort: every call logs and returns null/false on
+ * failure (or when signed out) so generation keeps working without it.
+ */
+import { useCallback } from 'react';
+import { useSessionUser } from '@/hooks/useSessionUser';
+import type { ProjectOrigin, ProjectSettings, ProjectStatus, ProjectType } from '@/types/database';
+import type { QuotePageConfig } from '@/lib/quotePagePromptEnforcer';
+
+export interface ProjectRecordInput {
+  name: string;
+  origin: ProjectOrigin;
+  projectType?: ProjectType;
+  idea?: string;
+  pagesRequested?: number;
+  bookType?: 'storybook' | 'theme';
+  settings?: ProjectSettings;
+}
+
+export interface ProjectRecordPrompt {
+  pageIndex: number;
+  title?: string;
+  promptText: string;
+  quoteConfig?: QuotePageConfig;
+}
+
+export interface ProjectRecordUpdate {
+  status?: ProjectStatus;
+  pagesRequested?: number;
+  settings?: ProjectSettings;
+  promptsGeneratedCount?: number;
+  imagesGeneratedCount?: number;
+  errorMessage?: string | null;
+}
+
+interface UseProjectRecordReturn {
+  /** Create a draft project; returns its id */
+  createProject: (input: ProjectRecordInput) => Promise<string | null>;
+  /** Upsert page prompts (also moves the project to 'generating') */
+  savePrompts: (projectId: string, prompts: ProjectRecordPrompt[]) => Promise<boolean>;
+  /** Update status, progress counts or settings */
+  updateProject: (projectId: string, update: ProjectRecordUpdate) => Promise<void>;
+  /** Store a generated page image (base64 or data URL) */
+  savePageImage: (projectId: string, pageNumber: number, imageBase64: string, meta?: { prompt?: string; title?: string }) => Promise<boolean>;
+}
+
+export function useProjectRecord(): UseProjectRecordReturn {
+  const { userId } = useSessionUser();
+
+  const createProject = useCallback(async (input: ProjectRecordInput) => {
+    if (!userId) return null;
+
+    try {
+      const response = await fetch('/api/projects', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: input.name || 'Untitled Project',
+          projectType: input.projectType ?? 'coloring_book',
+          origin: input.origin,
+          bookType: input.bookType,
+          idea: input.idea,
+          pagesRequested: input.pagesRequested,
+          settings: input.settings,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to create project');
+
+      return data.project.id as string;
+    } catch (error) {
+      console.error('[useProjectRecord] Create error:', error);
+      return null;
+    }
+  }, [userId]);
+
+  const savePrompts = useCallback(async (projectId: string, prompts: ProjectRecordPrompt[]) => {
+    if (!userId || prompts.length === 0) return false;
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/prompts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ prompts, upsert: true }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save prompts');
+
+      return true;
+    } catch (error) {
+      console.error('[useProjectRecord] Save prompts error:', error);
+      return false;
+    }
+  }, [userId]);
+
+  const updateProject = useCallback(async (projectId: string, update: ProjectRecordUpdate) => {
+    if (!userId) return;
+
+    try {
+      await fetch('/api/projects', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ projectId, ...update }),
+      });
+    } catch (error) {
+      console.error('[useProjectRecord] Update error:', error);
+    }
+  }, [userId]);
+
+  const savePageImage = useCallback(async (
+    projectId: string,
+    pageNumber: number,
+    imageBase64: string,
+    meta?: { prompt?: string; title?: string }
+  ) => {
+    if (!userId) return false;
+
+    try {
+      const response = await fetch('/api/assets/save', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          projectId,
+          pageNumber,
+          assetType: 'page_image',
+          imageBase64,
+          meta,
+          skipSanitize: true, // Generation routes already return print-ready PNGs
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save page');
+
+      return true;
+    } catch (error) {
+      console.error(`[useProjectRecord] Save page ${pageNumber} error:`, error);
+      return false;
+    }
+  }, [userId]);
+
+  return { createProject, savePrompts, updateProject, savePageImage };
+}
@@ -0,0 +1,49 @@
+'use client';
+
+/**
+ * useSessionUser Hook
+ *
+ * Tracks the signed-in Supabase user in the browser.
+ * API routes resolve the same user from the access token cookie,
+ * so components never need to send a userId themselves.
+ */
+import { useEffect, useState } from 'react';
+import type { User } from '@supabase/supabase-js';
+import { getSupabaseBrowserClient, isSupabaseBrowserConfigured } from '@/lib/supabase/browser';
+
+interface UseSessionUserReturn {
+  user: User | null;
+  userId: string;
+  loading: boolean;
+}
+
+export function useSessionUser(): UseSessionUserReturn {
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(isSupabaseBrowserConfigured());
+
+  useEffect(() => {
+    if (!isSupabaseBrowserConfigured()) return;
+
+    const supabase = getSupabaseBrowserClient();
+
+    supabase.auth.getSession().then(({ data }) => {
+      setUser(data.session?.user ?? null);
+      setLoading(false);
+    });
+
+    const { data: listener } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUser(session?.user ?? null);
+      setLoading(false);
+    });
+
+    return () => {
+      listener.subscription.unsubscribe();
+    };
+  }, []);
+
+  return {
+    user,
+    userId: user?.id ?? '',
+    loading,
+  };
+}
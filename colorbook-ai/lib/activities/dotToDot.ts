@@ -0,0 +1,298 @@
+/**
+ * Connect-the-dots generator.
+ *
+ * Traces the outer outline of an existing coloring page and turns it into
+ * numbered dots:
+ * 1. The page is downscaled and thresholded to an ink mask (gaps closed a little)
+ * 2. Everything not reachable from the border is the silhouette; its largest
+ *    connected region is the subject
+ * 3. The subject's boundary is traced (Moore neighborhood) into one closed contour
+ * 4. Dots are spaced evenly along the contour - more dots for harder pages
+ *
+ * The solution page joins the dots in order.
+ */
+
+import sharp from "sharp";
+import { ACTIVITY_FONT_FAMILY, buildPageSvg, getContentBox, svgNumber } from "./render";
+import type { ActivityCanvas, ActivityDifficulty, ActivitySvgPage, DotToDotOptions } from "./types";
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+const DOT_COUNT: Record<ActivityDifficulty, number> = {
+  easy: 20,
+  medium: 40,
+  hard: 70,
+};
+
+/** Working resolution for tracing (longest side, px) */
+const TRACE_SIZE = 400;
+
+/** Pixels darker than this are ink */
+const INK_THRESHOLD = 160;
+
+/** The subject must cover at least this fraction of the page */
+const MIN_SUBJECT_RATIO = 0.01;
+
+// Moore neighborhood, clockwise from west (image coordinates, y down)
+const NEIGHBORS: Array<[number, number]> = [
+  [-1, 0], [-1, -1], [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1],
+];
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// ============================================================
+// TRACING
+// ============================================================
+
+/**
+ * Mask of the largest region enclosed by the page's line art
+ */
+async function findSubjectMask(source: Buffer): Promise<{ mask: Uint8Array; width: number; height: number }> {
+  const { data, info } = await sharp(source)
+    .flatten({ background: "#ffffff" })
+    .grayscale()
+    .resize({ width: TRACE_SIZE, height: TRACE_SIZE, fit: "inside" })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+
+  // Ink, thickened by one pixel so small gaps in the outline don't leak
+  const ink = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[y * width + x] >= INK_THRESHOLD) continue;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && ny >= 0 && nx < width && ny < height) ink[ny * width + nx] = 1;
+        }
+      }
+    }
+  }
+
+  // Background = paper reachable from the page border
+  const background = new Uint8Array(width * height);
+  const stack: number[] = [];
+  for (let x = 0; x < width; x++) {
+    stack.push(x, (height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    stack.push(y * width, y * width + width - 1);
+  }
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    if (background[i] || ink[i]) continue;
+    background[i] = 1;
+    const x = i % width;
+    if (x > 0) stack.push(i - 1);
+    if (x < width - 1) stack.push(i + 1);
+    if (i >= width) stack.push(i - width);
+    if (i < width * (height - 1)) stack.push(i + width);
+  }
+
+  // Largest connected silhouette region
+  const label = new Int32Array(width * height);
+  let bestLabel = 0;
+  let bestArea = 0;
+  let nextLabel = 1;
+  for (let start = 0; start < label.length; start++) {
+    if (background[start] || label[start]) continue;
+    let area = 0;
+    stack.push(start);
+    label[start] = nextLabel;
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      area++;
+      const x = i % width;
+      const neighbors = [
+        x > 0 ? i - 1 : -1,
+        x < width - 1 ? i + 1 : -1,
+        i >= width ? i - width : -1,
+        i < width * (height - 1) ? i + width : -1,
+      ];
+      for (const j of neighbors) {
+        if (j >= 0 && !background[j] && !label[j]) {
+          label[j] = nextLabel;
+          stack.push(j);
+        }
+      }
+    }
+    if (area > bestArea) {
+      bestArea = area;
+      bestLabel = nextLabel;
+    }
+    nextLabel++;
+  }
+
+  if (bestArea < width * height * MIN_SUBJECT_RATIO) {
+    throw new Error("No closed outline found in the source page");
+  }
+
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    if (label[i] === bestLabel) mask[i] = 1;
+  }
+  return { mask, width, height };
+}
+
+/**
+ * Clockwise boundary of a mask region (Moore-neighbor tracing with
+ * Jacob's stopping criterion)
+ */
+function traceBoundary(mask: Uint8Array, width: number, height: number): Point[] {
+  const inside = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] === 1;
+
+  // Topmost-leftmost pixel: its west neighbor is outside
+  const startIndex = mask.indexOf(1);
+  const start = { x: startIndex % width, y: Math.floor(startIndex / width) };
+  const startBacktrack = { x: start.x - 1, y: start.y };
+
+  const contour: Point[] = [start];
+  let current = start;
+  let backtrack = startBacktrack;
+  const maxSteps = width * height * 4;
+
+  for (let step = 0; step < maxSteps; step++) {
+    const from = NEIGHBORS.findIndex(([dx, dy]) => current.x + dx === backtrack.x && current.y + dy === backtrack.y);
+    let next: Point | null = null;
+    let nextBacktrack = backtrack;
+
+    for (let k = 1; k <= 8; k++) {
+      const [dx, dy] = NEIGHBORS[(from + k) % 8];
+      if (inside(current.x + dx, current.y + dy)) {
+        next = { x: current.x + dx, y: current.y + dy };
+        break;
+      }
+      nextBacktrack = { x: current.x + dx, y: current.y + dy };
+    }
+
+    // Isolated pixel
+    if (!next) break;
+
+    if (next.x === start.x && next.y === start.y && nextBacktrack.x === startBacktrack.x && nextBacktrack.y === startBacktrack.y) {
+      break;
+    }
+
+    contour.push(next);
+    current = next;
+    backtrack = nextBacktrack;
+  }
+
+  return contour;
+}
+
+/**
+ * `count` points spaced evenly along a closed contour
+ */
+function resampleContour(contour: Point[], count: number): Point[] {
+  const lengths = [0];
+  for (let i = 1; i <= contour.length; i++) {
+    const a = contour[i - 1];
+    const b = contour[i % contour.length];
+    lengths.push(lengths[i - 1] + Math.hypot(b.x - a.x, b.y - a.y));
+  }
+  const total = lengths[lengths.length - 1];
+
+  const points: Point[] = [];
+  let segment = 0;
+  for (let k = 0; k < count; k++) {
+    const target = (total * k) / count;
+    while (lengths[segment + 1] < target) segment++;
+    const a = contour[segment];
+    const b = contour[(segment + 1) % contour.length];
+    const span = lengths[segment + 1] - lengths[segment] || 1;
+    const t = (target - lengths[segment]) / span;
+    points.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+  }
+  return points;
+}
+
+// ============================================================
+// RENDERING
+// ============================================================
+
+/**
+ * Generate a connect-the-dots page (and solution) from a coloring page
+ */
+export async function generateDotToDot(
+  canvas: ActivityCanvas,
+  options: DotToDotOptions
+): Promise<{ puzzle: ActivitySvgPage; solution: ActivitySvgPage }> {
+  const { mask, width, height } = await findSubjectMask(options.sourceImage);
+  const contour = traceBoundary(mask, width, height);
+  const count = Math.min(DOT_COUNT[options.difficulty], Math.floor(contour.length / 3));
+  if (count < 5) {
+    throw new Error("The source outline is too small for a connect-the-dots page");
+  }
+  const traced = resampleContour(contour, count);
+
+  // Fit the traced shape into the content box, leaving room for labels
+  const box = getContentBox(canvas);
+  const fontSize = Math.round(box.width * (options.difficulty === "hard" ? 0.016 : 0.02));
+  const inset = fontSize * 2.5;
+  const minX = Math.min(...traced.map(p => p.x));
+  const maxX = Math.max(...traced.map(p => p.x));
+  const minY = Math.min(...traced.map(p => p.y));
+  const maxY = Math.max(...traced.map(p => p.y));
+  const scale = Math.min(
+    (box.width - inset * 2) / Math.max(maxX - minX, 1),
+    (box.height - inset * 2) / Math.max(maxY - minY, 1)
+  );
+  const offsetX = box.x + (box.width - (maxX - minX) * scale) / 2;
+  const offsetY = box.y + (box.height - (maxY - minY) * scale) / 2;
+  const points = traced.map(p => ({ x: offsetX + (p.x - minX) * scale, y: offsetY + (p.y - minY) * scale }));
+
+  const centroid = {
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+  };
+
+  const dotRadius = Math.max(6, Math.round(box.width * 0.005));
+  const dots = points.map((p, i) =>
+    `<circle cx="${svgNumber(p.x)}" cy="${svgNumber(p.y)}" r="${i === 0 ? dotRadius * 1.6 : dotRadius}" fill="#000000"/>`
+  );
+
+  // Numbers sit just outside the shape, away from the centroid
+  const labels = points.map((p, i) => {
+    const dx = p.x - centroid.x;
+    const dy = p.y - centroid.y;
+    const length = Math.hypot(dx, dy) || 1;
+    const x = p.x + (dx / length) * fontSize * 1.1;
+    const y = p.y + (dy / length) * fontSize * 1.1 + fontSize * 0.35;
+    const weight = i === 0 ? ` font-weight="bold"` : "";
+    return `<text x="${svgNumber(x)}" y="${svgNumber(y)}"${weight}>${i + 1}</text>`;
+  });
+
+  const dotsSvg = [
+    ...dots,
+    `<g font-family="${ACTIVITY_FONT_FAMILY}" font-size="${fontSize}" text-anchor="middle" fill="#000000">`,
+    ...labels,
+    `</g>`,
+  ].join("\n");
+
+  const outline = `<path d="M${points.map(p => `${svgNumber(p.x)} ${svgNumber(p.y)}`).join("L")}Z" fill="none" stroke="#000000" stroke-width="${Math.max(4, Math.round(dotRadius * 0.8))}" stroke-linejoin="round"/>`;
+
+  const title = options.title || "Connect the Dots!";
+  return {
+    puzzle: {
+      kind: "puzzle",
+      title,
+      svg: buildPageSvg(canvas, title, dotsSvg),
+    },
+    solution: {
+      kind: "solution",
+      title: `${title} - Solution`,
+      svg: buildPageSvg(canvas, `${title} - Solution`, `${outline}\n${dotsSvg}`),
+    },
+  };
+}
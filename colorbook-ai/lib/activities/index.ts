@@ -0,0 +1,124 @@
+/**
+ * Activity pages.
+ *
+ * Procedural puzzle pages for activity books - no image model involved:
+ * - maze: seeded perfect maze with a solution path (maze.ts)
+ * - word_search: seeded letter grid from a word list or a theme (wordSearch.ts,
+ *   wordList.ts)
+ * - dot_to_dot: numbered dots traced from a coloring page's outline (dotToDot.ts)
+ *
+ * Every page is built as an SVG on the trim size's live area at PRINT_DPI
+ * and rasterized to a print-ready grayscale PNG. Saving pages into a project
+ * is in projectPages.ts.
+ */
+
+import { bufferToBase64 } from "@/lib/imageProcessing";
+import { generateDotToDot } from "./dotToDot";
+import { generateMaze } from "./maze";
+import { createSeed } from "./random";
+import { getActivityCanvas, rasterizeSvg } from "./render";
+import { generateThemeWords, type WordListAudience } from "./wordList";
+import { generateWordSearch, getWordSearchLimits } from "./wordSearch";
+import type { ActivityDifficulty, ActivityPage, ActivityResult, ActivitySvgPage, ActivityType } from "./types";
+
+export type {
+  ActivityDifficulty,
+  ActivityPage,
+  ActivityResult,
+  ActivityType,
+} from "./types";
+export type { WordListAudience } from "./wordList";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface GenerateActivityRequest {
+  type: ActivityType;
+  difficulty: ActivityDifficulty;
+  /** Reuse a seed to rebuild the same maze / word search; random when omitted */
+  seed?: string;
+  title?: string;
+  trimSize?: string;
+  /** Book page count - sets the inside margin, like the interior PDF */
+  pageCount?: number;
+  includeSolution: boolean;
+  /** Word search: explicit words, or a theme to generate them from */
+  words?: string[];
+  theme?: string;
+  audience?: WordListAudience;
+  /** Dot-to-dot: the coloring page to trace */
+  sourceImage?: Buffer;
+}
+
+// ============================================================
+// GENERATION
+// ============================================================
+
+/**
+ * Generate an activity page (and its solution page)
+ */
+export async function generateActivity(request: GenerateActivityRequest): Promise<ActivityResult> {
+  const { type, difficulty, title } = request;
+  const seed = request.seed || createSeed();
+  const canvas = getActivityCanvas(request.trimSize, request.pageCount ?? 24);
+
+  let pages: { puzzle: ActivitySvgPage; solution: ActivitySvgPage };
+  let words: string[] | undefined;
+  let skippedWords: string[] | undefined;
+
+  switch (type) {
+    case "maze":
+      pages = generateMaze(canvas, { seed, difficulty, title });
+      break;
+
+    case "word_search": {
+      let wordList = request.words ?? [];
+      if (wordList.length === 0) {
+        if (!request.theme) {
+          throw new Error("A word search needs a word list or a theme");
+        }
+        const { gridSize, maxWords } = getWordSearchLimits(difficulty);
+        wordList = await generateThemeWords({
+          theme: request.theme,
+          count: maxWords,
+          audience: request.audience,
+          maxLength: gridSize,
+        });
+      }
+      const result = generateWordSearch(canvas, {
+        seed,
+        difficulty,
+        words: wordList,
+        title: title || (request.theme ? `${request.theme} Word Search` : undefined),
+      });
+      pages = result;
+      words = result.words;
+      skippedWords = result.skippedWords;
+      break;
+    }
+
+    case "dot_to_dot":
+      if (!request.sourceImage) {
+        throw new Error("A dot-to-dot page needs a source coloring page");
+      }
+      pages = await generateDotToDot(canvas, { difficulty, sourceImage: request.sourceImage, title });
+      break;
+  }
+
+  const svgPages = request.includeSolution ? [pages.puzzle, pages.solution] : [pages.puzzle];
+  const rendered: ActivityPage[] = [];
+  for (const page of svgPages) {
+    rendered.push({ ...page, imageBase64: bufferToBase64(await rasterizeSvg(page.svg)) });
+  }
+
+  return {
+    type,
+    seed,
+    difficulty,
+    trimSize: canvas.trimSize,
+    pages: rendered,
+    words,
+    skippedWords,
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Maze generator.
+ *
+ * A "perfect" maze (exactly one path between any two cells) carved with a
+ * seeded depth-first backtracker. The entrance is at the top-left cell and
+ * the exit at the bottom-right; the solution page draws the path between
+ * them as a thick dashed line.
+ */
+
+import { createRandom, randomInt } from "./random";
+import { buildPageSvg, getContentBox, svgNumber } from "./render";
+import type { ActivityCanvas, ActivityDifficulty, ActivitySvgPage, MazeOptions } from "./types";
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** Maze columns per difficulty; rows follow the page's aspect ratio */
+const MAZE_COLUMNS: Record<ActivityDifficulty, number> = {
+  easy: 8,
+  medium: 15,
+  hard: 24,
+};
+
+// Direction bits for open walls
+const N = 1;
+const S = 2;
+const E = 4;
+const W = 8;
+
+const DIRECTIONS = [
+  { bit: N, dx: 0, dy: -1, opposite: S },
+  { bit: S, dx: 0, dy: 1, opposite: N },
+  { bit: E, dx: 1, dy: 0, opposite: W },
+  { bit: W, dx: -1, dy: 0, opposite: E },
+];
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface Maze {
+  columns: number;
+  rows: number;
+  /** Open-wall bits per cell, row-major */
+  cells: Uint8Array;
+}
+
+// ============================================================
+// GENERATION
+// ============================================================
+
+function carveMaze(columns: number, rows: number, seed: string): Maze {
+  const random = createRandom(`maze:${seed}`);
+  const cells = new Uint8Array(columns * rows);
+  const visited = new Uint8Array(columns * rows);
+
+  // Iterative backtracker - recursion would overflow on hard mazes
+  const stack = [randomInt(random, columns * rows)];
+  visited[stack[0]] = 1;
+
+  while (stack.length > 0) {
+    const current = stack[stack.length - 1];
+    const x = current % columns;
+    const y = Math.floor(current / columns);
+
+    const options = DIRECTIONS.filter(({ dx, dy }) => {
+      const nx = x + dx;
+      const ny = y + dy;
+      return nx >= 0 && ny >= 0 && nx < columns && ny < rows && !visited[ny * columns + nx];
+    });
+
+    if (options.length === 0) {
+      stack.pop();
+      continue;
+    }
+
+    const { bit, dx, dy, opposite } = options[randomInt(random, options.length)];
+    const next = (y + dy) * columns + (x + dx);
+    cells[current] |= bit;
+    cells[next] |= opposite;
+    visited[next] = 1;
+    stack.push(next);
+  }
+
+  return { columns, rows, cells };
+}
+
+/**
+ * Cells from the entrance (top-left) to the exit (bottom-right)
+ */
+function solveMaze(maze: Maze): number[] {
+  const { columns, rows, cells } = maze;
+  const target = columns * rows - 1;
+  const previous = new Int32Array(columns * rows).fill(-1);
+  previous[0] = 0;
+  const queue = [0];
+
+  for (let head = 0; head < queue.length; head++) {
+    const current = queue[head];
+    if (current === target) break;
+    const x = current % columns;
+    const y = Math.floor(current / columns);
+
+    for (const { bit, dx, dy } of DIRECTIONS) {
+      if (!(cells[current] & bit)) continue;
+      const next = (y + dy) * columns + (x + dx);
+      if (previous[next] !== -1) continue;
+      previous[next] = current;
+      queue.push(next);
+    }
+  }
+
+  const path = [target];
+  while (path[path.length - 1] !== 0) {
+    path.push(previous[path[path.length - 1]]);
+  }
+  return path.reverse();
+}
+
+// ============================================================
+// RENDERING
+// ============================================================
+
+/**
+ * Generate a maze page and its solution page
+ */
+export function generateMaze(canvas: ActivityCanvas, options: MazeOptions): { puzzle: ActivitySvgPage; solution: ActivitySvgPage } {
+  const box = getContentBox(canvas);
+  const columns = MAZE_COLUMNS[options.difficulty];
+  const cellSize = Math.floor(box.width / columns);
+  // Room above and below the grid for the start/finish arrows
+  const arrowSize = Math.round(Math.min(cellSize * 0.4, box.width * 0.03));
+  const rows = Math.max(2, Math.floor((box.height - arrowSize * 3) / cellSize));
+  const maze = carveMaze(columns, rows, options.seed);
+
+  // Center the grid in the content box
+  const left = box.x + Math.round((box.width - columns * cellSize) / 2);
+  const top = box.y + Math.round((box.height - rows * cellSize) / 2);
+  const stroke = Math.max(4, Math.round(cellSize * (options.difficulty === "hard" ? 0.08 : 0.06)));
+
+  // Walls: each cell draws its closed north and west walls; the outer
+  // south and east edges are drawn separately, leaving the entrance and exit open
+  const segments: string[] = [];
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < columns; x++) {
+      const cell = maze.cells[y * columns + x];
+      const px = left + x * cellSize;
+      const py = top + y * cellSize;
+      const isEntrance = x === 0 && y === 0;
+      if (!(cell & N) && !isEntrance) segments.push(`M${px} ${py}h${cellSize}`);
+      if (!(cell & W)) segments.push(`M${px} ${py}v${cellSize}`);
+    }
+  }
+  const right = left + columns * cellSize;
+  const bottom = top + rows * cellSize;
+  segments.push(`M${right} ${top}V${bottom}`);
+  segments.push(`M${left} ${bottom}H${right - cellSize}`);
+
+  const walls = `<path d="${segments.join("")}" fill="none" stroke="#000000" stroke-width="${stroke}" stroke-linecap="square"/>`;
+
+  // Start / finish arrows outside the openings
+  const startX = left + cellSize / 2;
+  const finishX = right - cellSize / 2;
+  const markers = [
+    `<path d="M${svgNumber(startX - arrowSize / 2)} ${svgNumber(top - arrowSize * 1.4)}L${svgNumber(startX + arrowSize / 2)} ${svgNumber(top - arrowSize * 1.4)}L${svgNumber(startX)} ${svgNumber(top - arrowSize * 0.3)}Z" fill="#000000"/>`,
+    `<path d="M${svgNumber(finishX - arrowSize / 2)} ${svgNumber(bottom + arrowSize * 0.3)}L${svgNumber(finishX + arrowSize / 2)} ${svgNumber(bottom + arrowSize * 0.3)}L${svgNumber(finishX)} ${svgNumber(bottom + arrowSize * 1.4)}Z" fill="#000000"/>`,
+  ].join("\n");
+
+  // Solution path through cell centers, extended through the openings
+  const path = solveMaze(maze);
+  const points = path.map(cell => {
+    const x = left + (cell % columns) * cellSize + cellSize / 2;
+    const y = top + Math.floor(cell / columns) * cellSize + cellSize / 2;
+    return `${svgNumber(x)} ${svgNumber(y)}`;
+  });
+  const solutionLine = `<path d="M${svgNumber(startX)} ${top}L${points.join("L")}L${svgNumber(finishX)} ${bottom}" fill="none" stroke="#000000" stroke-width="${Math.max(stroke, Math.round(cellSize * 0.18))}" stroke-linecap="round" stroke-linejoin="round" stroke-dasharray="${svgNumber(cellSize * 0.3)} ${svgNumber(cellSize * 0.2)}"/>`;
+
+  const title = options.title || "Find Your Way Through the Maze!";
+  return {
+    puzzle: {
+      kind: "puzzle",
+      title,
+      svg: buildPageSvg(canvas, title, `${walls}\n${markers}`),
+    },
+    solution: {
+      kind: "solution",
+      title: `${title} - Solution`,
+      svg: buildPageSvg(canvas, `${title} - Solution`, `${walls}\n${markers}\n${solutionLine}`),
+    },
+  };
+}
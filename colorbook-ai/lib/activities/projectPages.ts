@@ -0,0 +1,257 @@
+/**
+ * Activity pages in projects.
+ *
+ * Inserts generated activity pages into a project's page list. The puzzle
+ * goes in at any position - later pages (prompts, asset rows and their
+ * storage objects) move down one - and its solution page is appended at the
+ * end of the book, where answer keys belong.
+ *
+ * Callers must make sure no generation job is running for the project:
+ * the worker addresses pages by page_index.
+ */
+
+import "server-only";
+import {
+  getSupabaseServerClient,
+  uploadToStorage,
+  getRetentionHours,
+  calculateExpiresAt,
+} from "@/lib/supabase/server";
+import { listProjectPrompts, saveProjectPrompts, shiftProjectPrompts } from "@/lib/projectStore";
+import { refreshProjectStatus } from "@/lib/generationQueue";
+import { getPageVectorPath } from "@/lib/pageVectors";
+import type { AssetMeta } from "@/types/database";
+import type { ActivityPage, ActivityResult } from "./types";
+
+const BUCKET = "generated";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface InsertedActivityPage {
+  pageNumber: number;
+  kind: ActivityPage["kind"];
+  title: string;
+}
+
+// ============================================================
+// READ
+// ============================================================
+
+/**
+ * A project page's image, for tracing dot-to-dots. Null when the page has
+ * no ready image.
+ */
+export async function getProjectPageImage(
+  projectId: string,
+  userId: string,
+  pageNumber: number
+): Promise<Buffer | null> {
+  const supabase = getSupabaseServerClient();
+  const { data: asset } = await supabase
+    .from("generated_assets")
+    .select("storage_bucket, storage_path")
+    .eq("project_id", projectId)
+    .eq("user_id", userId)
+    .eq("asset_type", "page_image")
+    .eq("page_number", pageNumber)
+    .eq("status", "ready")
+    .maybeSingle();
+
+  if (!asset?.storage_path) return null;
+
+  const { data, error } = await supabase.storage.from(asset.storage_bucket).download(asset.storage_path);
+  if (error || !data) {
+    console.error(`[activities] Failed to download ${asset.storage_path}:`, error);
+    return null;
+  }
+  return Buffer.from(await data.arrayBuffer());
+}
+
+// ============================================================
+// INSERT
+// ============================================================
+
+/**
+ * Insert an activity's pages into a project.
+ *
+ * @param position - 1-based page number for the puzzle; appended when
+ *   omitted or past the end
+ */
+export async function insertActivityPages(params: {
+  projectId: string;
+  userId: string;
+  activity: ActivityResult;
+  position?: number;
+}): Promise<InsertedActivityPage[]> {
+  const { projectId, userId, activity } = params;
+  const [puzzle, ...solutions] = activity.pages;
+
+  const prompts = await listProjectPrompts(projectId, userId);
+  const lastPage = prompts.reduce((max, p) => Math.max(max, p.page_index), 0);
+  const position = Math.min(Math.max(params.position ?? lastPage + 1, 1), lastPage + 1);
+
+  if (position <= lastPage) {
+    await shiftPageAssets(projectId, userId, position, 1);
+    await shiftProjectPrompts(projectId, userId, position, 1);
+  }
+
+  const placements = [
+    { page: puzzle, pageNumber: position },
+    ...solutions.map((page, i) => ({ page, pageNumber: lastPage + 2 + i })),
+  ];
+
+  await saveProjectPrompts(
+    projectId,
+    userId,
+    placements.map(({ page, pageNumber }) => ({
+      pageIndex: pageNumber,
+      title: page.title,
+      promptText: describeActivityPage(activity, page),
+      status: "image_done" as const,
+    })),
+    { mode: "insert" }
+  );
+
+  const retentionHours = await getRetentionHours(userId);
+  for (const { page, pageNumber } of placements) {
+    await savePageAsset({
+      projectId,
+      userId,
+      pageNumber,
+      buffer: Buffer.from(page.imageBase64, "base64"),
+      expiresAt: calculateExpiresAt(retentionHours),
+      meta: {
+        prompt: describeActivityPage(activity, page),
+        title: page.title,
+        source: "activity",
+        activity: {
+          type: activity.type,
+          kind: page.kind,
+          difficulty: activity.difficulty,
+          seed: activity.seed,
+        },
+      },
+    });
+  }
+
+  await refreshProjectStatus(projectId);
+
+  return placements.map(({ page, pageNumber }) => ({ pageNumber, kind: page.kind, title: page.title }));
+}
+
+/**
+ * Prompt text recorded for an activity page (it has no image prompt)
+ */
+function describeActivityPage(activity: ActivityResult, page: ActivityPage): string {
+  const type = activity.type.replace(/_/g, "-");
+  const seed = activity.type === "dot_to_dot" ? "" : `, seed ${activity.seed}`;
+  return `Activity: ${type} ${page.kind} (${activity.difficulty}${seed})`;
+}
+
+function pageStoragePath(userId: string, projectId: string, pageNumber: number): string {
+  const paddedNum = String(pageNumber).padStart(3, "0");
+  return `${userId}/${projectId}/pages/page-${paddedNum}.png`;
+}
+
+/**
+ * Move page images from `fromPage` on down by `by` pages, last page first so
+ * no image overwrites one that hasn't moved yet
+ */
+async function shiftPageAssets(projectId: string, userId: string, fromPage: number, by: number): Promise<void> {
+  const supabase = getSupabaseServerClient();
+  const { data: assets, error } = await supabase
+    .from("generated_assets")
+    .select("id, page_number, storage_bucket, storage_path, meta")
+    .eq("project_id", projectId)
+    .eq("user_id", userId)
+    .eq("asset_type", "page_image")
+    .gte("page_number", fromPage)
+    .order("page_number", { ascending: false });
+
+  if (error) throw new Error(error.message);
+
+  for (const asset of assets ?? []) {
+    const pageNumber = asset.page_number + by;
+    const storage = supabase.storage.from(asset.storage_bucket);
+    let storagePath: string | null = asset.storage_path;
+    let meta: AssetMeta | null = asset.meta;
+
+    if (asset.storage_path) {
+      storagePath = pageStoragePath(userId, projectId, pageNumber);
+      // A stale file at the destination (e.g. from a deleted page) would block the move
+      await storage.remove([storagePath]);
+      const { error: moveError } = await storage.move(asset.storage_path, storagePath);
+      if (moveError) throw new Error(`Failed to move page ${asset.page_number}: ${moveError.message}`);
+    }
+
+    // The vector variant (lib/pageVectors) moves with its page
+    if (meta?.vector) {
+      const vectorPath = getPageVectorPath(userId, projectId, pageNumber);
+      await storage.remove([vectorPath]);
+      const { error: moveError } = await storage.move(meta.vector.storagePath, vectorPath);
+      meta = moveError
+        ? { ...meta, vector: undefined }
+        : { ...meta, vector: { ...meta.vector, storagePath: vectorPath } };
+    }
+
+    const { error: updateError } = await supabase
+      .from("generated_assets")
+      .update({ page_number: pageNumber, storage_path: storagePath, meta })
+      .eq("id", asset.id);
+
+    if (updateError) throw new Error(updateError.message);
+  }
+}
+
+async function savePageAsset(params: {
+  projectId: string;
+  userId: string;
+  pageNumber: number;
+  buffer: Buffer;
+  expiresAt: string;
+  meta: AssetMeta;
+}): Promise<void> {
+  const { projectId, userId, pageNumber, buffer } = params;
+
+  const { path: uploadedPath, error: uploadError } = await uploadToStorage(
+    BUCKET,
+    pageStoragePath(userId, projectId, pageNumber),
+    buffer,
+    "image/png"
+  );
+
+  if (uploadError) {
+    throw new Error(`Upload failed: ${uploadError.message}`);
+  }
+
+  const supabase = getSupabaseServerClient();
+  const assetData = {
+    project_id: projectId,
+    user_id: userId,
+    page_number: pageNumber,
+    asset_type: "page_image",
+    storage_bucket: BUCKET,
+    storage_path: uploadedPath,
+    mime_type: "image/png",
+    status: "ready",
+    expires_at: params.expiresAt,
+    meta: { ...params.meta, fileSize: buffer.length },
+  };
+
+  // Replace a leftover row for the page number, if any
+  const { data: existing } = await supabase
+    .from("generated_assets")
+    .select("id")
+    .eq("project_id", projectId)
+    .eq("asset_type", "page_image")
+    .eq("page_number", pageNumber)
+    .maybeSingle();
+
+  const { error } = existing
+    ? await supabase.from("generated_assets").update(assetData).eq("id", existing.id)
+    : await supabase.from("generated_assets").insert(assetData);
+
+  if (error) throw new Error(error.message);
+}
@@ -0,0 +1,36 @@
+/**
+ * Seeded randomness for activity generators - the same seed always gives
+ * the same puzzle, so a page can be regenerated or its solution rebuilt.
+ */
+
+import { createHash, randomBytes } from "crypto";
+
+export type Random = () => number;
+
+/**
+ * Small seeded PRNG (mulberry32), returns floats in [0, 1)
+ */
+export function createRandom(seedText: string): Random {
+  let seed = createHash("sha256").update(seedText).digest().readUInt32LE(0);
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = seed;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Integer in [0, max)
+ */
+export function randomInt(random: Random, max: number): number {
+  return Math.floor(random() * max);
+}
+
+/**
+ * A short random seed for requests that don't pass one
+ */
+export function createSeed(): string {
+  return randomBytes(4).toString("hex");
+}
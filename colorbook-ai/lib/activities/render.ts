@@ -0,0 +1,101 @@
+/**
+ * SVG page helpers shared by the activity generators.
+ *
+ * Pages are drawn in pixel units on a canvas the size of the trim size's
+ * live area at PRINT_DPI, so the rasterized PNG drops into the PDF live area
+ * at exactly 300 DPI. Everything is pure black on white.
+ */
+
+import sharp from "sharp";
+import { getInteriorLayout } from "@/lib/generationSpec";
+import type { ActivityCanvas } from "./types";
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+export const ACTIVITY_FONT_FAMILY = "DejaVu Sans, Arial, Helvetica, sans-serif";
+
+/** Blank space around the drawing, as a fraction of canvas width */
+const CANVAS_PADDING_RATIO = 0.04;
+
+// ============================================================
+// LAYOUT
+// ============================================================
+
+/**
+ * Activity canvas for a trim size (unknown sizes fall back to 8.5x11)
+ */
+export function getActivityCanvas(trimSize: string | undefined, pageCount: number): ActivityCanvas & { trimSize: string } {
+  const layout = getInteriorLayout(trimSize, { pageCount });
+  return {
+    trimSize: layout.trimSize,
+    width: layout.artPixelWidth,
+    height: layout.artPixelHeight,
+  };
+}
+
+/**
+ * Box left for the activity below the page title
+ */
+export function getContentBox(canvas: ActivityCanvas): { x: number; y: number; width: number; height: number } {
+  const padding = Math.round(canvas.width * CANVAS_PADDING_RATIO);
+  const titleHeight = getTitleFontSize(canvas) * 2;
+  return {
+    x: padding,
+    y: padding + titleHeight,
+    width: canvas.width - padding * 2,
+    height: canvas.height - padding * 2 - titleHeight,
+  };
+}
+
+function getTitleFontSize(canvas: ActivityCanvas): number {
+  return Math.round(canvas.width * 0.045);
+}
+
+// ============================================================
+// SVG
+// ============================================================
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Wrap page content in a white SVG document with the page title on top
+ */
+export function buildPageSvg(canvas: ActivityCanvas, title: string, content: string): string {
+  const padding = Math.round(canvas.width * CANVAS_PADDING_RATIO);
+  const lineHeight = getTitleFontSize(canvas);
+  // Long titles shrink to fit the width (bold glyphs average ~0.65em)
+  const fontSize = Math.min(lineHeight, Math.floor((canvas.width - padding * 2) / (title.length * 0.65)));
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${canvas.width}" height="${canvas.height}" viewBox="0 0 ${canvas.width} ${canvas.height}">`,
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+    `<text x="${canvas.width / 2}" y="${padding + lineHeight}" text-anchor="middle" font-family="${ACTIVITY_FONT_FAMILY}" font-weight="bold" font-size="${fontSize}" fill="#000000">${escapeXml(title)}</text>`,
+    content,
+    `</svg>`,
+  ].join("\n");
+}
+
+/**
+ * Rasterize a page SVG to a grayscale PNG at its own pixel size
+ */
+export async function rasterizeSvg(svg: string): Promise<Buffer> {
+  return sharp(Buffer.from(svg), { density: 72 })
+    .flatten({ background: "#ffffff" })
+    .grayscale()
+    .png({ compressionLevel: 9 })
+    .toBuffer();
+}
+
+/**
+ * Format a number for SVG attributes
+ */
+export function svgNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
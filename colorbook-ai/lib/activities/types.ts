@@ -0,0 +1,66 @@
+/**
+ * Activity page types.
+ *
+ * Activity pages (mazes, word searches, dot-to-dots) are generated
+ * procedurally - no image model - and rendered at a project's trim size.
+ */
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type ActivityType = "maze" | "word_search" | "dot_to_dot";
+
+export type ActivityDifficulty = "easy" | "medium" | "hard";
+
+/** Drawing surface in pixels at PRINT_DPI - the trim size's live area */
+export interface ActivityCanvas {
+  width: number;
+  height: number;
+}
+
+export interface ActivitySvgPage {
+  kind: "puzzle" | "solution";
+  title: string;
+  svg: string;
+}
+
+/** A rendered page: vector SVG plus the print-ready PNG */
+export interface ActivityPage extends ActivitySvgPage {
+  imageBase64: string;
+}
+
+export interface MazeOptions {
+  seed: string;
+  difficulty: ActivityDifficulty;
+  title?: string;
+}
+
+export interface WordSearchOptions {
+  seed: string;
+  difficulty: ActivityDifficulty;
+  /** Words to hide; non-letters are dropped, too-long words are skipped */
+  words: string[];
+  title?: string;
+}
+
+/** Dot-to-dot pages are deterministic for a source page - no seed */
+export interface DotToDotOptions {
+  difficulty: ActivityDifficulty;
+  /** Coloring page whose outer outline is traced */
+  sourceImage: Buffer;
+  title?: string;
+}
+
+export interface ActivityResult {
+  type: ActivityType;
+  seed: string;
+  difficulty: ActivityDifficulty;
+  trimSize: string;
+  /** Puzzle first, then its solution (when requested) */
+  pages: ActivityPage[];
+  /** Word search: words actually hidden in the grid */
+  words?: string[];
+  /** Word search: words that didn't fit */
+  skippedWords?: string[];
+}
@@ -0,0 +1,63 @@
+/**
+ * Theme word lists for word searches.
+ *
+ * The only model call in the activities subsystem: a fast text model turns a
+ * theme ("ocean animals") into a list of short single words.
+ */
+
+import { openai, isOpenAIConfigured } from "@/lib/openai";
+import { normalizeWordList } from "./wordSearch";
+
+export type WordListAudience = "kids" | "teens" | "adults" | "all";
+
+/**
+ * Generate up to `count` single words for a theme, uppercase A-Z
+ */
+export async function generateThemeWords(params: {
+  theme: string;
+  count: number;
+  audience?: WordListAudience;
+  /** Longest allowed word (the grid size) */
+  maxLength?: number;
+}): Promise<string[]> {
+  if (!isOpenAIConfigured()) {
+    throw new Error("OpenAI API key not configured");
+  }
+
+  const { theme, count, audience = "all", maxLength = 12 } = params;
+
+  const prompt = `Generate ${count + 5} words for a word search puzzle about: ${theme}
+
+RULES:
+- Single words only (no spaces, no hyphens, no numbers)
+- 3-${maxLength} letters each
+- Clearly related to the theme
+- Familiar to ${audience === "all" ? "all ages" : audience}
+- No duplicates, no plurals of another word in the list
+
+Return a JSON array only: ["WORD1", "WORD2", ...]`;
+
+  const response = await openai.chat.completions.create({
+    model: "gpt-4o-mini",
+    messages: [{ role: "user", content: prompt }],
+    temperature: 0.7,
+    max_tokens: 600,
+  });
+
+  const content = response.choices[0]?.message?.content?.trim() || "";
+
+  let words: string[] = [];
+  try {
+    const jsonMatch = content.match(/\[[\s\S]*\]/);
+    if (jsonMatch) {
+      words = JSON.parse(jsonMatch[0]);
+    }
+  } catch {
+    // Fallback: one word per line
+    words = content.split("\n").map(line => line.replace(/^[\d.\-*\s"']+/, "").replace(/["',]$/g, ""));
+  }
+
+  return normalizeWordList(words.filter((w): w is string => typeof w === "string"))
+    .filter(w => w.length <= maxLength)
+    .slice(0, count);
+}
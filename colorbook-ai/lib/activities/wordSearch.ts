@@ -0,0 +1,220 @@
+/**
+ * Word search generator.
+ *
+ * Hides a word list in a seeded letter grid. Difficulty sets the grid size,
+ * how many words are used and which directions words may run in (easy:
+ * across and down only; hard: all eight, including backwards). The solution
+ * page rings every hidden word.
+ */
+
+import { createRandom, randomInt, type Random } from "./random";
+import { ACTIVITY_FONT_FAMILY, buildPageSvg, escapeXml, getContentBox, svgNumber } from "./render";
+import type { ActivityCanvas, ActivityDifficulty, ActivitySvgPage, WordSearchOptions } from "./types";
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+const GRID_SIZE: Record<ActivityDifficulty, number> = {
+  easy: 10,
+  medium: 13,
+  hard: 16,
+};
+
+const MAX_WORDS: Record<ActivityDifficulty, number> = {
+  easy: 8,
+  medium: 12,
+  hard: 18,
+};
+
+type Direction = [dx: number, dy: number];
+
+const DIRECTIONS: Record<ActivityDifficulty, Direction[]> = {
+  easy: [[1, 0], [0, 1]],
+  medium: [[1, 0], [0, 1], [1, 1], [1, -1]],
+  hard: [[1, 0], [0, 1], [1, 1], [1, -1], [-1, 0], [0, -1], [-1, -1], [-1, 1]],
+};
+
+/** Placement tries per word before it's skipped */
+const PLACEMENT_ATTEMPTS = 300;
+
+const ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface PlacedWord {
+  word: string;
+  x: number;
+  y: number;
+  direction: Direction;
+}
+
+// ============================================================
+// GENERATION
+// ============================================================
+
+/**
+ * Grid size and word count for a difficulty (sizes theme word lists)
+ */
+export function getWordSearchLimits(difficulty: ActivityDifficulty): { gridSize: number; maxWords: number } {
+  return { gridSize: GRID_SIZE[difficulty], maxWords: MAX_WORDS[difficulty] };
+}
+
+/**
+ * Uppercase A-Z only, deduplicated
+ */
+export function normalizeWordList(words: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const word of words) {
+    const normalized = word.toUpperCase().replace(/[^A-Z]/g, "");
+    if (normalized.length >= 3 && !seen.has(normalized)) {
+      seen.add(normalized);
+      result.push(normalized);
+    }
+  }
+  return result;
+}
+
+function tryPlace(grid: string[], size: number, word: string, directions: Direction[], random: Random): PlacedWord | null {
+  for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS; attempt++) {
+    const direction = directions[randomInt(random, directions.length)];
+    const [dx, dy] = direction;
+    const x = randomInt(random, size);
+    const y = randomInt(random, size);
+    const endX = x + dx * (word.length - 1);
+    const endY = y + dy * (word.length - 1);
+    if (endX < 0 || endY < 0 || endX >= size || endY >= size) continue;
+
+    let fits = true;
+    for (let i = 0; i < word.length; i++) {
+      const cell = grid[(y + dy * i) * size + (x + dx * i)];
+      if (cell && cell !== word[i]) {
+        fits = false;
+        break;
+      }
+    }
+    if (!fits) continue;
+
+    for (let i = 0; i < word.length; i++) {
+      grid[(y + dy * i) * size + (x + dx * i)] = word[i];
+    }
+    return { word, x, y, direction };
+  }
+  return null;
+}
+
+// ============================================================
+// RENDERING
+// ============================================================
+
+/**
+ * Generate a word search page and its solution page
+ */
+export function generateWordSearch(
+  canvas: ActivityCanvas,
+  options: WordSearchOptions
+): { puzzle: ActivitySvgPage; solution: ActivitySvgPage; words: string[]; skippedWords: string[] } {
+  const { difficulty } = options;
+  const random = createRandom(`word_search:${options.seed}`);
+  const size = GRID_SIZE[difficulty];
+
+  const candidates = normalizeWordList(options.words);
+  const fitting = candidates.filter(w => w.length <= size);
+  const chosen = fitting.slice(0, MAX_WORDS[difficulty]);
+  const skippedWords = candidates.filter(w => !chosen.includes(w));
+
+  // Longest words first - they are the hardest to fit
+  const grid: string[] = new Array(size * size).fill("");
+  const placed: PlacedWord[] = [];
+  for (const word of [...chosen].sort((a, b) => b.length - a.length)) {
+    const result = tryPlace(grid, size, word, DIRECTIONS[difficulty], random);
+    if (result) {
+      placed.push(result);
+    } else {
+      skippedWords.push(word);
+    }
+  }
+
+  if (placed.length === 0) {
+    throw new Error("None of the words fit in the word search grid");
+  }
+
+  for (let i = 0; i < grid.length; i++) {
+    if (!grid[i]) grid[i] = ALPHABET[randomInt(random, ALPHABET.length)];
+  }
+
+  // Layout: square grid on top, word list below
+  const box = getContentBox(canvas);
+  const listRows = Math.ceil(placed.length / 3);
+  const listFontSize = Math.round(box.width * 0.032);
+  const listHeight = listRows * listFontSize * 1.6 + listFontSize;
+  const gridSide = Math.min(box.width, box.height - listHeight);
+  const cell = gridSide / size;
+  const left = box.x + (box.width - gridSide) / 2;
+  const top = box.y;
+  const letterSize = Math.round(cell * 0.55);
+  const border = Math.max(4, Math.round(cell * 0.05));
+
+  const letters = grid.map((letter, i) => {
+    const x = left + (i % size) * cell + cell / 2;
+    const y = top + Math.floor(i / size) * cell + cell / 2 + letterSize * 0.36;
+    return `<text x="${svgNumber(x)}" y="${svgNumber(y)}">${letter}</text>`;
+  });
+  const lettersSvg = [
+    `<g font-family="${ACTIVITY_FONT_FAMILY}" font-weight="bold" font-size="${letterSize}" text-anchor="middle" fill="#000000">`,
+    ...letters,
+    `</g>`,
+  ].join("\n");
+
+  const frame = `<rect x="${svgNumber(left - cell * 0.2)}" y="${svgNumber(top - cell * 0.2)}" width="${svgNumber(gridSide + cell * 0.4)}" height="${svgNumber(gridSide + cell * 0.4)}" rx="${svgNumber(cell * 0.4)}" fill="none" stroke="#000000" stroke-width="${border}"/>`;
+
+  // Word list in three columns, alphabetical
+  const listTop = top + gridSide + listFontSize * 2;
+  const columnWidth = box.width / 3;
+  const listWords = placed.map(p => p.word).sort();
+  const list = listWords.map((word, i) => {
+    const x = box.x + (i % 3) * columnWidth + columnWidth / 2;
+    const y = listTop + Math.floor(i / 3) * listFontSize * 1.6;
+    return `<text x="${svgNumber(x)}" y="${svgNumber(y)}">${escapeXml(word)}</text>`;
+  });
+  const listSvg = [
+    `<g font-family="${ACTIVITY_FONT_FAMILY}" font-size="${listFontSize}" text-anchor="middle" fill="#000000">`,
+    ...list,
+    `</g>`,
+  ].join("\n");
+
+  // Solution: a capsule outline around each word, drawn under the letters.
+  // All black strokes go down before the white cores so crossing words merge
+  const capsuleWidth = cell * 0.8;
+  const outline = Math.max(3, Math.round(cell * 0.05));
+  const capsulePaths = placed.map(({ word, x, y, direction: [dx, dy] }) => {
+    const x1 = left + x * cell + cell / 2;
+    const y1 = top + y * cell + cell / 2;
+    const x2 = x1 + dx * (word.length - 1) * cell;
+    const y2 = y1 + dy * (word.length - 1) * cell;
+    return `M${svgNumber(x1)} ${svgNumber(y1)}L${svgNumber(x2)} ${svgNumber(y2)}`;
+  }).join("");
+  const capsules = [
+    `<path d="${capsulePaths}" stroke="#000000" stroke-width="${svgNumber(capsuleWidth)}" stroke-linecap="round"/>`,
+    `<path d="${capsulePaths}" stroke="#ffffff" stroke-width="${svgNumber(capsuleWidth - outline * 2)}" stroke-linecap="round"/>`,
+  ].join("\n");
+
+  const title = options.title || "Word Search";
+  return {
+    puzzle: {
+      kind: "puzzle",
+      title,
+      svg: buildPageSvg(canvas, title, [frame, lettersSvg, listSvg].join("\n")),
+    },
+    solution: {
+      kind: "solution",
+      title: `${title} - Solution`,
+      svg: buildPageSvg(canvas, `${title} - Solution`, [frame, capsules, lettersSvg, listSvg].join("\n")),
+    },
+    words: listWords,
+    skippedWords,
+  };
+}
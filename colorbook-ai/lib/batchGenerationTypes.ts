@@ -50,6 +50,30 @@ export const characterProfileSchema = z.object({
 
 export type CharacterProfile = z.infer<typeof characterProfileSchema>;
 
+/**
+ * Locked identity profile (lib/characterIdentity.ts CharacterIdentityProfile),
+ * e.g. a character saved to the Character Library
+ */
+export const characterIdentityProfileSchema = z.object({
+  characterId: z.string(),
+  species: z.string(),
+  faceShape: z.string(),
+  eyeStyle: z.string(),
+  noseStyle: z.string(),
+  mouthStyle: z.string(),
+  earStyle: z.string(),
+  hornStyle: z.string().optional(),
+  hairTuft: z.string().optional(),
+  proportions: z.string(),
+  bodyShape: z.string(),
+  tailStyle: z.string().optional(),
+  wingStyle: z.string().optional(),
+  markings: z.string(),
+  defaultOutfit: z.string().optional(),
+  doNotChange: z.array(z.string()),
+  name: z.string().optional(),
+});
+
 /**
  * Scene inventory - objects/elements that can appear across pages
  */
@@ -93,11 +117,15 @@ export const batchPromptsRequestSchema = z.object({
   story: storyConfigSchema.optional(),
   styleProfile: styleProfileSchema,
   characterProfile: characterProfileSchema.optional(),
+  // Reuse a saved identity profile instead of extracting a new one (storybook mode)
+  characterIdentityProfile: characterIdentityProfileSchema.optional(),
   sceneInventory: sceneInventorySchema.optional(),
   basePrompt: z.string().optional().describe("Original prompt from reference image analysis"),
   size: z.enum(["1024x1024", "1024x1792", "1792x1024", "1024x1536", "1536x1024"]).default("1024x1792").describe("Image size/orientation"),
   // Complexity level from UI - affects prompt generation and detail level
   complexity: z.enum(["kids", "simple", "medium", "detailed", "ultra"]).default("medium").describe("Design complexity level"),
+  // Project the prompts are for - a series volume avoids scenes from the series' other volumes
+  projectId: z.string().uuid().optional(),
 });
 
 export type BatchPromptsRequest = z.infer<typeof batchPromptsRequestSchema>;
@@ -0,0 +1,309 @@
+/**
+ * Bulk Batch Store
+ *
+ * Persists /app/bulk batches in bulk_batches: the step 1 book ideas, and the
+ * books with their page plans, prompts and statuses (lib/bulkBookTypes.ts).
+ * Images are not stored here - each book is its own project (origin "bulk")
+ * and its pages are page_image assets, which come back as signed URLs.
+ */
+
+import "server-only";
+import {
+  getSupabaseServerClient,
+  getRetentionHours,
+  calculateExpiresAt,
+} from "@/lib/supabase/server";
+import {
+  type Batch,
+  type BatchStatus,
+  type Book,
+  type BookIdea,
+  type BookPage,
+  type BulkStep,
+  stripBookImages,
+} from "@/lib/bulkBookTypes";
+import type { BulkBatchRecord } from "@/types/database";
+
+const BUCKET = "generated";
+const SIGNED_URL_SECONDS = 3600;
+
+export interface BulkBatchInput {
+  name?: string;
+  currentStep: BulkStep;
+  bookIdeas: BookIdea[];
+  /** null until the book ideas are approved (step 2) */
+  batch: Batch | null;
+}
+
+export interface BulkBatchState extends BulkBatchInput {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string | null;
+}
+
+export interface BulkBatchListItem {
+  id: string;
+  name: string;
+  status: BatchStatus;
+  currentStep: BulkStep;
+  totalPages: number;
+  generatedPages: number;
+  approvedPages: number;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string | null;
+  isExpired: boolean;
+}
+
+// ============================================
+// Batches
+// ============================================
+
+/**
+ * Save a new bulk batch with the owner's plan retention
+ */
+export async function createBulkBatch(userId: string, input: BulkBatchInput): Promise<BulkBatchState> {
+  const supabase = getSupabaseServerClient();
+  const retentionHours = await getRetentionHours(userId);
+
+  const { data, error } = await supabase
+    .from("bulk_batches")
+    .insert({
+      ...toBatchRow(input),
+      user_id: userId,
+      retention_hours: retentionHours,
+      expires_at: calculateExpiresAt(retentionHours),
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message || "Failed to create bulk batch");
+  }
+  return toBatchState(data as BulkBatchRecord);
+}
+
+/**
+ * A user's bulk batches, most recently updated first
+ */
+export async function listBulkBatches(userId: string): Promise<BulkBatchListItem[]> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("bulk_batches")
+    .select("id, name, status, current_step, total_pages, generated_pages, approved_pages, created_at, updated_at, expires_at")
+    .eq("user_id", userId)
+    .order("updated_at", { ascending: false });
+
+  if (error) throw new Error(error.message);
+
+  const now = new Date();
+  return (data ?? []).map((row) => ({
+    id: row.id,
+    name: row.name,
+    status: row.status,
+    currentStep: row.current_step,
+    totalPages: row.total_pages,
+    generatedPages: row.generated_pages,
+    approvedPages: row.approved_pages,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    expiresAt: row.expires_at,
+    isExpired: row.expires_at ? new Date(row.expires_at) < now : false,
+  }));
+}
+
+/**
+ * Load a user's bulk batch to resume it. Page images come back as signed
+ * imageUrls from the books' projects; pages that were mid-generation or
+ * whose image is gone go back to their prompt so they can be generated again.
+ */
+export async function getBulkBatch(batchId: string, userId: string): Promise<BulkBatchState | null> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("bulk_batches")
+    .select("*")
+    .eq("id", batchId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+
+  const state = toBatchState(data as BulkBatchRecord);
+  if (!state.batch) return state;
+
+  const imageUrls = await getPageImageUrls(userId, state.batch.books);
+  const books = state.batch.books.map((book) => ({
+    ...book,
+    pages: book.pages.map((page) =>
+      settlePage(page, book.projectId ? imageUrls.get(`${book.projectId}:${page.index}`) : undefined)
+    ),
+  }));
+  const pages = books.flatMap((b) => b.pages);
+
+  return {
+    ...state,
+    batch: {
+      ...state.batch,
+      books,
+      status: state.batch.status === "generating" ? "paused" : state.batch.status,
+      generatedPages: pages.filter((p) => p.imageUrl).length,
+      enhancedPages: pages.filter((p) => p.imageUrl && p.enhancedAt).length,
+      approvedPages: pages.filter((p) => p.approvedAt).length,
+    },
+  };
+}
+
+/**
+ * Autosave the wizard state. Returns false if the batch doesn't exist or isn't the user's.
+ */
+export async function updateBulkBatch(
+  batchId: string,
+  userId: string,
+  input: BulkBatchInput
+): Promise<boolean> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("bulk_batches")
+    .update({ ...toBatchRow(input), updated_at: new Date().toISOString() })
+    .eq("id", batchId)
+    .eq("user_id", userId)
+    .select("id")
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return !!data;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function toBatchRow(input: BulkBatchInput) {
+  const { batch } = input;
+
+  return {
+    name: input.name || getBatchName(input),
+    status: batch?.status ?? "draft",
+    current_step: input.currentStep,
+    book_ideas: input.bookIdeas,
+    books: stripBookImages(batch?.books ?? []),
+    total_pages: batch?.totalPages ?? 0,
+    generated_pages: batch?.generatedPages ?? 0,
+    enhanced_pages: batch?.enhancedPages ?? 0,
+    approved_pages: batch?.approvedPages ?? 0,
+    failed_pages: batch?.failedPages ?? 0,
+    avg_generation_ms: Math.round(batch?.avgGenerationMs ?? 30000),
+    avg_enhancement_ms: Math.round(batch?.avgEnhancementMs ?? 15000),
+    started_at: batch?.startedAt ? new Date(batch.startedAt).toISOString() : null,
+    completed_at: batch?.completedAt ? new Date(batch.completedAt).toISOString() : null,
+  };
+}
+
+function toBatchState(row: BulkBatchRecord): BulkBatchState {
+  const batch: Batch | null = row.books.length === 0 ? null : {
+    id: row.id,
+    books: row.books.map((book) => ({ ...book, batchId: row.id })),
+    status: row.status,
+    totalPages: row.total_pages,
+    generatedPages: row.generated_pages,
+    enhancedPages: row.enhanced_pages,
+    approvedPages: row.approved_pages,
+    failedPages: row.failed_pages,
+    startedAt: row.started_at ? new Date(row.started_at).getTime() : undefined,
+    completedAt: row.completed_at ? new Date(row.completed_at).getTime() : undefined,
+    avgGenerationMs: row.avg_generation_ms,
+    avgEnhancementMs: row.avg_enhancement_ms,
+    notifyOnComplete: false,
+    createdAt: new Date(row.created_at).getTime(),
+    updatedAt: new Date(row.updated_at).getTime(),
+  };
+
+  return {
+    id: row.id,
+    name: row.name,
+    currentStep: row.current_step,
+    bookIdeas: row.book_ideas,
+    batch,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+/**
+ * "First Book + 2 more" from the book titles
+ */
+function getBatchName(input: BulkBatchInput): string {
+  const titles = (input.batch?.books ?? input.bookIdeas)
+    .map((b) => b.title.trim())
+    .filter(Boolean);
+
+  if (titles.length === 0) return "Untitled Batch";
+  return titles.length === 1 ? titles[0] : `${titles[0]} + ${titles.length - 1} more`;
+}
+
+/**
+ * Signed URLs of the saved page images, keyed by "projectId:pageIndex"
+ */
+async function getPageImageUrls(userId: string, books: Book[]): Promise<Map<string, string>> {
+  const urls = new Map<string, string>();
+  const projectIds = books.map((b) => b.projectId).filter((id): id is string => !!id);
+  if (projectIds.length === 0) return urls;
+
+  const supabase = getSupabaseServerClient();
+  const { data: assets, error } = await supabase
+    .from("generated_assets")
+    .select("project_id, page_number, storage_path")
+    .in("project_id", projectIds)
+    .eq("user_id", userId)
+    .eq("asset_type", "page_image")
+    .eq("status", "ready")
+    .is("deleted_at", null);
+
+  if (error) throw new Error(error.message);
+
+  const saved = (assets ?? []).filter((a) => a.storage_path && a.page_number);
+  if (saved.length === 0) return urls;
+
+  const { data: signed, error: signError } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrls(saved.map((a) => a.storage_path), SIGNED_URL_SECONDS);
+
+  if (signError) {
+    console.error("[bulkBatchStore] Failed to sign page images:", signError);
+    return urls;
+  }
+
+  saved.forEach((asset, i) => {
+    const signedUrl = signed?.[i]?.signedUrl;
+    if (signedUrl) urls.set(`${asset.project_id}:${asset.page_number}`, signedUrl);
+  });
+  return urls;
+}
+
+/**
+ * Attach the saved image and settle states that can't survive a reload
+ */
+function settlePage(page: BookPage, imageUrl: string | undefined): BookPage {
+  const unsettled = page.finalPrompt ? "prompt_ready" as const : "draft" as const;
+
+  if (!imageUrl) {
+    const hadImage = ["generated", "enhancing", "enhanced", "approved"].includes(page.status);
+    return {
+      ...page,
+      status: hadImage || page.status === "queued" || page.status === "generating" ? unsettled : page.status,
+      activeVersion: "original",
+      enhancedAt: undefined,
+      approvedAt: undefined,
+    };
+  }
+
+  return {
+    ...page,
+    imageUrl,
+    status: page.status === "enhancing" ? "generated" : page.status,
+  };
+}
@@ -5,6 +5,9 @@
  * Each book can be either a Character/Scene coloring book or a Quote/Text coloring book.
  */
 
+import type { AppliedLibraryStyle } from "./styleLibrary";
+import type { AppliedLibraryCharacter } from "./characterLibrary";
+
 // ============================================================
 // ENUMS & CONSTANTS
 // ============================================================
@@ -54,6 +57,7 @@ export interface BookSettings {
   // For coloring_scenes
   sameCharacter?: boolean;
   characterDescription?: string;
+  libraryCharacter?: AppliedLibraryCharacter; // Saved Character Library character (storybook)
   artStyle?: string;
   
   // For quote_text
@@ -63,6 +67,9 @@ export interface BookSettings {
   decorationTheme?: DecorationTheme;
   quoteMode?: QuoteMode;
   tone?: ToneType;
+  
+  // Style Library style pinned on the book's project
+  libraryStyle?: AppliedLibraryStyle;
 }
 
 // ============================================================
@@ -89,6 +96,7 @@ export interface BookPage {
   enhancedImageBase64?: string;
   finalLetterBase64?: string;
   activeVersion: "original" | "enhanced" | "finalLetter";
+  imageUrl?: string; // Signed URL of the saved page when resumed (no base64 yet)
   error?: string;
   
   // Timestamps
@@ -123,6 +131,9 @@ export interface Book {
   // Status
   status: BookStatus;
   
+  // Project holding this book's page images (created when generation starts)
+  projectId?: string;
+  
   // Belongs-to page (generated separately)
   belongsToPage?: {
     imageBase64?: string;
@@ -325,6 +336,24 @@ export function bookIdeaToBook(idea: BookIdea, batchId: string): Book {
   };
 }
 
+/**
+ * Books without image data, for saving a batch. Page images are stored in
+ * each book's project, and signed URLs expire.
+ */
+export function stripBookImages(books: Book[]): Book[] {
+  return books.map(book => ({
+    ...book,
+    belongsToPage: book.belongsToPage ? { status: book.belongsToPage.status } : undefined,
+    pages: book.pages.map(page => ({
+      ...page,
+      imageBase64: undefined,
+      enhancedImageBase64: undefined,
+      finalLetterBase64: undefined,
+      imageUrl: undefined,
+    })),
+  }));
+}
+
 export function calculateBatchProgress(batch: Batch): {
   generationPercent: number;
   enhancementPercent: number;
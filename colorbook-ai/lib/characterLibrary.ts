@@ -0,0 +1,109 @@
+/**
+ * characterLibrary.ts - Types for the Character Library
+ *
+ * A library character is a saved CharacterIdentityProfile (with its
+ * doNotChange traits and an approved character sheet) that storybook flows
+ * reuse across books instead of re-extracting it. Projects reference it in
+ * settings.characterLibrary. Characters are persisted by
+ * lib/characterLibraryStore.ts.
+ */
+
+import type { CharacterIdentityProfile } from "./characterIdentity";
+import type { CharacterProfile } from "./batchGenerationTypes";
+import type { CharacterLock } from "./schemas";
+
+/**
+ * The library character a project or request uses (projects.settings.characterLibrary)
+ */
+export interface AppliedLibraryCharacter {
+  characterId: string;
+  /** Display name at the time it was applied */
+  name: string;
+}
+
+export interface LibraryCharacter {
+  id: string;
+  name: string;
+  description: string | null;
+  profile: CharacterIdentityProfile;
+  /** Signed URL of the approved character sheet */
+  sheetUrl: string | null;
+  usageCount: number;
+  lastUsedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LibraryCharacterUsage {
+  projectId: string;
+  projectName: string;
+  usedAt: string;
+}
+
+export interface LibraryCharacterWithUsage extends LibraryCharacter {
+  /** Newest first */
+  usages: LibraryCharacterUsage[];
+}
+
+export function toAppliedLibraryCharacter(character: LibraryCharacter): AppliedLibraryCharacter {
+  return { characterId: character.id, name: character.profile.name || character.name };
+}
+
+/**
+ * One-line description of a saved character, for prompt planning and
+ * free-text character fields (bulk storybooks)
+ */
+export function describeLibraryCharacter(character: LibraryCharacter): string {
+  const { profile } = character;
+  return [
+    `${profile.name || character.name}, a ${profile.species}`,
+    profile.faceShape && `face: ${profile.faceShape}`,
+    profile.eyeStyle && `eyes: ${profile.eyeStyle}`,
+    profile.bodyShape && `body: ${profile.bodyShape}`,
+    profile.markings && `markings: ${profile.markings}`,
+    profile.defaultOutfit && `wearing ${profile.defaultOutfit}`,
+  ].filter(Boolean).join("; ");
+}
+
+/**
+ * The planning profile /api/batch/prompts expects for storybook mode
+ */
+export function toCharacterProfile(profile: CharacterIdentityProfile): CharacterProfile {
+  return {
+    species: profile.species,
+    keyFeatures: [profile.hornStyle, profile.hairTuft, profile.wingStyle, profile.tailStyle, profile.markings]
+      .filter((f): f is string => !!f),
+    proportions: profile.proportions,
+    faceStyle: [profile.faceShape, profile.eyeStyle, profile.noseStyle, profile.mouthStyle].join(", "),
+    headDetails: [profile.earStyle, profile.hornStyle, profile.hairTuft].filter(Boolean).join(", ") || undefined,
+    bodyDetails: [profile.bodyShape, profile.tailStyle, profile.wingStyle].filter(Boolean).join(", ") || undefined,
+    clothing: profile.defaultOutfit,
+    poseVibe: "varies by scene",
+    doNotChange: profile.doNotChange,
+  };
+}
+
+/**
+ * The CharacterLock /api/ai/generate-character-sheet draws a sheet from
+ */
+export function toCharacterLock(profile: CharacterIdentityProfile, name: string): CharacterLock {
+  return {
+    canonicalName: profile.name || name,
+    visualRules: {
+      proportions: `${profile.proportions}; ${profile.bodyShape}`,
+      face: [profile.faceShape, profile.eyeStyle, profile.noseStyle, profile.mouthStyle].join(", "),
+      uniqueFeatures: [profile.species, profile.earStyle, profile.hornStyle, profile.hairTuft, profile.tailStyle, profile.wingStyle, profile.markings]
+        .filter((f): f is string => !!f),
+      outfit: profile.defaultOutfit || "none",
+      lineRules: {
+        outerStroke: "thick clean outlines",
+        innerStroke: "thinner inner detail lines",
+        strokeEnds: "rounded",
+        noShading: true,
+      },
+      backgroundRules: "plain white background",
+      compositionRules: "character centered, full body visible",
+    },
+    negativeRules: profile.doNotChange.map((trait) => `changing ${trait}`),
+  };
+}
@@ -0,0 +1,293 @@
+/**
+ * Character Library Store
+ *
+ * Per-user library of saved storybook characters (character_library) and the
+ * projects that used them (character_usages). Approved character sheets go
+ * to the "generated" bucket under {userId}/characters/.
+ */
+
+import "server-only";
+import {
+  getSupabaseServerClient,
+  createSignedUrl,
+  deleteFromStorage,
+  uploadToStorage,
+} from "@/lib/supabase/server";
+import { getProjectNames } from "@/lib/projectStore";
+import { base64ToBuffer } from "@/lib/imageProcessing";
+import type { CharacterIdentityProfile } from "@/lib/characterIdentity";
+import type {
+  LibraryCharacter,
+  LibraryCharacterUsage,
+  LibraryCharacterWithUsage,
+} from "@/lib/characterLibrary";
+import type { CharacterUsageRecord, LibraryCharacterRecord } from "@/types/database";
+
+const BUCKET = "generated";
+
+export interface CreateLibraryCharacterInput {
+  name: string;
+  description?: string;
+  profile: CharacterIdentityProfile;
+  /** Approved character sheet (base64 or data URL) */
+  sheetImageBase64?: string;
+  /** Project the character was created in; recorded as its first use */
+  sourceProjectId?: string;
+}
+
+export interface LibraryCharacterPatch {
+  name?: string;
+  description?: string | null;
+  profile?: CharacterIdentityProfile;
+  sheetImageBase64?: string;
+}
+
+// ============================================
+// Characters
+// ============================================
+
+/**
+ * Save a new character
+ */
+export async function createLibraryCharacter(
+  userId: string,
+  input: CreateLibraryCharacterInput
+): Promise<LibraryCharacter> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("character_library")
+    .insert({
+      user_id: userId,
+      name: input.name,
+      description: input.description || null,
+      profile: input.profile,
+      sheet_path: null,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message || "Failed to create character");
+  }
+
+  let character = data as LibraryCharacterRecord;
+  if (input.sheetImageBase64) {
+    character = await saveSheet(character, input.sheetImageBase64);
+  }
+  if (input.sourceProjectId) {
+    await recordCharacterUsage(character.id, userId, input.sourceProjectId);
+  }
+
+  return toLibraryCharacter(character, input.sourceProjectId ? [{ used_at: new Date().toISOString() }] : []);
+}
+
+/**
+ * A user's characters with usage counts, most recently updated first
+ */
+export async function listLibraryCharacters(userId: string): Promise<LibraryCharacter[]> {
+  const supabase = getSupabaseServerClient();
+  const { data: characters, error } = await supabase
+    .from("character_library")
+    .select("*")
+    .eq("user_id", userId)
+    .order("updated_at", { ascending: false });
+
+  if (error) throw new Error(error.message);
+  if (!characters || characters.length === 0) return [];
+
+  const { data: usages, error: usagesError } = await supabase
+    .from("character_usages")
+    .select("character_id, used_at")
+    .eq("user_id", userId);
+
+  if (usagesError) throw new Error(usagesError.message);
+
+  const usagesByCharacter = new Map<string, Array<Pick<CharacterUsageRecord, "used_at">>>();
+  for (const usage of (usages ?? []) as CharacterUsageRecord[]) {
+    const list = usagesByCharacter.get(usage.character_id) ?? [];
+    list.push(usage);
+    usagesByCharacter.set(usage.character_id, list);
+  }
+
+  return Promise.all(
+    (characters as LibraryCharacterRecord[]).map((c) => toLibraryCharacter(c, usagesByCharacter.get(c.id) ?? []))
+  );
+}
+
+/**
+ * A user's character with its usage history, or null if it doesn't exist or isn't theirs
+ */
+export async function getLibraryCharacter(
+  characterId: string,
+  userId: string
+): Promise<LibraryCharacterWithUsage | null> {
+  const character = await getCharacterRecord(characterId, userId);
+  if (!character) return null;
+
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("character_usages")
+    .select("project_id, used_at")
+    .eq("character_id", characterId)
+    .order("used_at", { ascending: false });
+
+  if (error) throw new Error(error.message);
+
+  const usageRows = (data ?? []) as CharacterUsageRecord[];
+  const projectNames = await getProjectNames(usageRows.map((u) => u.project_id), userId);
+
+  const usages: LibraryCharacterUsage[] = usageRows.map((u) => ({
+    projectId: u.project_id,
+    projectName: projectNames.get(u.project_id) ?? "Untitled Project",
+    usedAt: u.used_at,
+  }));
+
+  return { ...(await toLibraryCharacter(character, usageRows)), usages };
+}
+
+/**
+ * Rename a character, edit its profile (e.g. doNotChange traits) or approve a
+ * new character sheet. Returns null if it doesn't exist or isn't the user's.
+ */
+export async function updateLibraryCharacter(
+  characterId: string,
+  userId: string,
+  patch: LibraryCharacterPatch
+): Promise<LibraryCharacter | null> {
+  const row: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (patch.name !== undefined) row.name = patch.name;
+  if (patch.description !== undefined) row.description = patch.description;
+  if (patch.profile !== undefined) row.profile = patch.profile;
+
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("character_library")
+    .update(row)
+    .eq("id", characterId)
+    .eq("user_id", userId)
+    .select()
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+
+  let character = data as LibraryCharacterRecord;
+  if (patch.sheetImageBase64) {
+    character = await saveSheet(character, patch.sheetImageBase64);
+  }
+
+  const { data: usages } = await supabase
+    .from("character_usages")
+    .select("used_at")
+    .eq("character_id", characterId);
+
+  return toLibraryCharacter(character, usages ?? []);
+}
+
+/**
+ * Delete a character, its usage history and sheet. Projects that used it
+ * keep the profile copied into their settings.
+ */
+export async function deleteLibraryCharacter(characterId: string, userId: string): Promise<boolean> {
+  const character = await getCharacterRecord(characterId, userId);
+  if (!character) return false;
+
+  const supabase = getSupabaseServerClient();
+  const { error } = await supabase.from("character_library").delete().eq("id", characterId);
+  if (error) throw new Error(error.message);
+
+  if (character.sheet_path) {
+    await deleteFromStorage(BUCKET, [character.sheet_path]);
+  }
+  return true;
+}
+
+// ============================================
+// Applying characters
+// ============================================
+
+/**
+ * The saved profile, or null if the user no longer has the character
+ */
+export async function getLibraryCharacterProfile(
+  userId: string,
+  characterId: string
+): Promise<CharacterIdentityProfile | null> {
+  const character = await getCharacterRecord(characterId, userId);
+  return character?.profile ?? null;
+}
+
+/**
+ * Add a project to a character's usage history (once per project)
+ */
+export async function recordCharacterUsage(characterId: string, userId: string, projectId: string): Promise<void> {
+  const supabase = getSupabaseServerClient();
+  const { error } = await supabase
+    .from("character_usages")
+    .upsert(
+      { character_id: characterId, user_id: userId, project_id: projectId },
+      { onConflict: "character_id,project_id", ignoreDuplicates: true }
+    );
+
+  if (error) {
+    console.error("[characterLibraryStore] Failed to record usage:", error);
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+async function getCharacterRecord(characterId: string, userId: string): Promise<LibraryCharacterRecord | null> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("character_library")
+    .select("*")
+    .eq("id", characterId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return (data as LibraryCharacterRecord | null) ?? null;
+}
+
+async function saveSheet(character: LibraryCharacterRecord, imageBase64: string): Promise<LibraryCharacterRecord> {
+  const sheetPath = `${character.user_id}/characters/${character.id}/sheet.png`;
+  const { error: uploadError } = await uploadToStorage(BUCKET, sheetPath, base64ToBuffer(imageBase64), "image/png");
+  if (uploadError) throw uploadError;
+
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("character_library")
+    .update({ sheet_path: sheetPath })
+    .eq("id", character.id)
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message || "Failed to save character sheet");
+  }
+  return data as LibraryCharacterRecord;
+}
+
+async function toLibraryCharacter(
+  character: LibraryCharacterRecord,
+  usages: Array<Pick<CharacterUsageRecord, "used_at">>
+): Promise<LibraryCharacter> {
+  const lastUsedAt = usages.reduce<string | null>(
+    (latest, u) => (!latest || u.used_at > latest ? u.used_at : latest),
+    null
+  );
+
+  return {
+    id: character.id,
+    name: character.name,
+    description: character.description,
+    profile: character.profile,
+    sheetUrl: character.sheet_path ? await createSignedUrl(BUCKET, character.sheet_path) : null,
+    usageCount: usages.length,
+    lastUsedAt,
+    createdAt: character.created_at,
+    updatedAt: character.updated_at,
+  };
+}
@@ -0,0 +1,312 @@
+/**
+ * colorRegions.ts - Closed-region analysis for coloring book images
+ *
+ * A shape is only colorable if its outline is closed: a gap of a few pixels
+ * lets a flood fill (digital coloring apps) run out into the background, and
+ * makes the edge ambiguous on paper too.
+ *
+ * ANALYSIS:
+ * 1. Enclosed regions - white areas not connected to the page border
+ *    (4-connected, like a paint-bucket fill), bucketed by size
+ * 2. Leaking regions - shapes that become enclosed once gaps up to
+ *    2 * LEAK_GAP_RADIUS px are closed, but are part of the background as drawn
+ * 3. Optional auto-bridge - gaps narrower than N px are inked in
+ *    (morphological close) and the bridged image is analyzed instead
+ * 4. Colorability score (0-1) - leaks, too few regions and too many tiny
+ *    ones lower it, against per-complexity limits
+ */
+
+import type { Complexity } from "./generationSpec";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Pixels darker than this are ink */
+const INK_THRESHOLD = 128;
+
+/** Leak check closes gaps up to twice this many pixels */
+const LEAK_GAP_RADIUS = 2;
+
+/** Region size buckets, as fractions of the page area */
+const TINY_REGION_RATIO = 0.0002; // ~17x17 px on a 1024x1536 page - too small to color
+const SMALL_REGION_RATIO = 0.002;
+const MEDIUM_REGION_RATIO = 0.02;
+
+/** Leaking regions reported in detail */
+const MAX_REPORTED_LEAKS = 10;
+
+/**
+ * Colorability limits per complexity
+ * - minRegions: enclosed regions for a full score (fewer = mostly open line art)
+ * - maxTinyRegionShare: share of enclosed regions allowed to be tiny
+ * - minScore: validateImageQuality fails pages below this
+ */
+export const COLORABILITY_LIMITS: Record<Complexity, {
+  minRegions: number;
+  maxTinyRegionShare: number;
+  minScore: number;
+}> = {
+  simple: { minRegions: 8, maxTinyRegionShare: 0.3, minScore: 0.75 },
+  medium: { minRegions: 15, maxTinyRegionShare: 0.4, minScore: 0.7 },
+  detailed: { minRegions: 25, maxTinyRegionShare: 0.5, minScore: 0.65 },
+};
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface LeakingRegion {
+  /** Bounding box in image pixels */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Pixels of the shape once closed */
+  area: number;
+}
+
+export interface ColorRegionAnalysis {
+  /** Enclosed white regions */
+  regionCount: number;
+  /** Enclosed regions by size: tiny (< 0.02% of the page), small (< 0.2%), medium (< 2%), large */
+  regionSizes: { tiny: number; small: number; medium: number; large: number };
+  /** Largest enclosed region, as a fraction of the page */
+  largestRegionRatio: number;
+  /** Shapes connected to the background only through small gaps */
+  leakingRegionCount: number;
+  /** The largest leaking regions */
+  leaks: LeakingRegion[];
+  /** 0-1, see COLORABILITY_LIMITS */
+  colorabilityScore: number;
+  /** Leaking regions closed by auto-bridging (only with bridgeGapsUnder) */
+  bridgedRegionCount?: number;
+  /** Bridged PNG (only with bridgeGapsUnder) */
+  bridgedImageBuffer?: Buffer;
+}
+
+interface RegionLabels {
+  labels: Int32Array; // 0 for ink, region id from 1
+  areas: number[]; // indexed by region id
+  touchesBorder: boolean[];
+}
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+/**
+ * Label the enclosed white regions of a page and score how colorable it is
+ *
+ * @param options.bridgeGapsUnder - Ink in outline gaps narrower than this many pixels first
+ */
+export async function analyzeColorRegions(
+  imageBuffer: Buffer,
+  complexity: Complexity,
+  options: { bridgeGapsUnder?: number } = {}
+): Promise<ColorRegionAnalysis> {
+  const sharp = await import("sharp");
+
+  const { data, info } = await sharp.default(imageBuffer)
+    .flatten({ background: { r: 255, g: 255, b: 255 } })
+    .grayscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const width = info.width;
+  const height = info.height;
+  const totalPixels = width * height;
+
+  let ink: Uint8Array = new Uint8Array(totalPixels);
+  for (let i = 0; i < totalPixels; i++) {
+    if (data[i * info.channels] < INK_THRESHOLD) ink[i] = 1;
+  }
+
+  let bridgedRegionCount: number | undefined;
+  let bridgedImageBuffer: Buffer | undefined;
+
+  if (options.bridgeGapsUnder && options.bridgeGapsUnder > 1) {
+    // A close of radius r fills gaps up to 2r px - the largest even width under N
+    const radius = Math.ceil(options.bridgeGapsUnder / 2) - 1;
+    if (radius > 0) {
+      bridgedRegionCount = findLeaks(ink, width, height, radius).length;
+      ink = closeInk(ink, width, height, radius);
+
+      const pixels = new Uint8Array(totalPixels);
+      for (let i = 0; i < totalPixels; i++) pixels[i] = ink[i] ? 0 : 255;
+      bridgedImageBuffer = await sharp.default(Buffer.from(pixels), { raw: { width, height, channels: 1 } })
+        .png({ compressionLevel: 9 })
+        .toBuffer();
+    }
+  }
+
+  const regions = labelWhiteRegions(ink, width, height);
+  const regionSizes = { tiny: 0, small: 0, medium: 0, large: 0 };
+  let regionCount = 0;
+  let largestRegion = 0;
+
+  for (let id = 1; id < regions.areas.length; id++) {
+    if (regions.touchesBorder[id]) continue;
+    const ratio = regions.areas[id] / totalPixels;
+    regionCount++;
+    largestRegion = Math.max(largestRegion, regions.areas[id]);
+
+    if (ratio < TINY_REGION_RATIO) regionSizes.tiny++;
+    else if (ratio < SMALL_REGION_RATIO) regionSizes.small++;
+    else if (ratio < MEDIUM_REGION_RATIO) regionSizes.medium++;
+    else regionSizes.large++;
+  }
+
+  const leaks = findLeaks(ink, width, height, LEAK_GAP_RADIUS, regions);
+
+  return {
+    regionCount,
+    regionSizes,
+    largestRegionRatio: largestRegion / totalPixels,
+    leakingRegionCount: leaks.length,
+    leaks: leaks.slice(0, MAX_REPORTED_LEAKS),
+    colorabilityScore: scoreColorability(regionCount, regionSizes.tiny, leaks.length, complexity),
+    bridgedRegionCount,
+    bridgedImageBuffer,
+  };
+}
+
+/**
+ * Colorability score: half leaks, a quarter region count, a quarter tiny regions
+ */
+function scoreColorability(
+  regionCount: number,
+  tinyCount: number,
+  leakCount: number,
+  complexity: Complexity
+): number {
+  const limits = COLORABILITY_LIMITS[complexity];
+
+  const leakScore = regionCount + leakCount > 0 ? 1 - leakCount / (regionCount + leakCount) : 0;
+  const countScore = Math.min(1, regionCount / limits.minRegions);
+
+  const tinyShare = regionCount > 0 ? tinyCount / regionCount : 0;
+  const tinyScore = tinyShare <= limits.maxTinyRegionShare
+    ? 1
+    : Math.max(0, 1 - (tinyShare - limits.maxTinyRegionShare) / (1 - limits.maxTinyRegionShare));
+
+  const score = 0.5 * leakScore + 0.25 * countScore + 0.25 * tinyScore;
+  return Math.round(score * 1000) / 1000;
+}
+
+/**
+ * Shapes that are enclosed once gaps up to 2 * radius px are closed but
+ * belong to the background as drawn. Largest first.
+ */
+function findLeaks(
+  ink: Uint8Array,
+  width: number,
+  height: number,
+  radius: number,
+  regions: RegionLabels = labelWhiteRegions(ink, width, height)
+): LeakingRegion[] {
+  const totalPixels = width * height;
+  const closed = labelWhiteRegions(closeInk(ink, width, height, radius), width, height);
+
+  const leaks = new Map<number, LeakingRegion>();
+  for (let i = 0; i < totalPixels; i++) {
+    const id = closed.labels[i];
+    if (!id || closed.touchesBorder[id] || closed.areas[id] < totalPixels * TINY_REGION_RATIO) continue;
+    if (!regions.touchesBorder[regions.labels[i]]) continue;
+
+    const x = i % width;
+    const y = (i - x) / width;
+    const leak = leaks.get(id);
+    if (!leak) {
+      leaks.set(id, { x, y, width: 1, height: 1, area: closed.areas[id] });
+      continue;
+    }
+    const right = Math.max(leak.x + leak.width, x + 1);
+    const bottom = Math.max(leak.y + leak.height, y + 1);
+    leak.x = Math.min(leak.x, x);
+    leak.y = Math.min(leak.y, y);
+    leak.width = right - leak.x;
+    leak.height = bottom - leak.y;
+  }
+
+  return Array.from(leaks.values()).sort((a, b) => b.area - a.area);
+}
+
+/**
+ * 4-connected white regions
+ */
+function labelWhiteRegions(ink: Uint8Array, width: number, height: number): RegionLabels {
+  const labels = new Int32Array(ink.length);
+  const stack = new Int32Array(ink.length);
+  const areas: number[] = [0];
+  const touchesBorder: boolean[] = [false];
+
+  for (let start = 0; start < ink.length; start++) {
+    if (ink[start] || labels[start]) continue;
+
+    const id = areas.length;
+    let area = 0;
+    let border = false;
+    let top = 0;
+    stack[top++] = start;
+    labels[start] = id;
+
+    while (top > 0) {
+      const i = stack[--top];
+      area++;
+      const x = i % width;
+      const y = (i - x) / width;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) border = true;
+
+      if (x > 0 && !ink[i - 1] && !labels[i - 1]) { labels[i - 1] = id; stack[top++] = i - 1; }
+      if (x < width - 1 && !ink[i + 1] && !labels[i + 1]) { labels[i + 1] = id; stack[top++] = i + 1; }
+      if (y > 0 && !ink[i - width] && !labels[i - width]) { labels[i - width] = id; stack[top++] = i - width; }
+      if (y < height - 1 && !ink[i + width] && !labels[i + width]) { labels[i + width] = id; stack[top++] = i + width; }
+    }
+
+    areas.push(area);
+    touchesBorder.push(border);
+  }
+
+  return { labels, areas, touchesBorder };
+}
+
+/**
+ * Morphological close of the ink (square, radius r): dilate, then erode
+ */
+function closeInk(ink: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  const dilated = dilateSquare(ink, width, height, radius);
+  for (let i = 0; i < dilated.length; i++) dilated[i] ^= 1;
+  const closed = dilateSquare(dilated, width, height, radius);
+  for (let i = 0; i < closed.length; i++) closed[i] ^= 1;
+  return closed;
+}
+
+/**
+ * Square dilation of a 0/1 bitmap, as two separable running-count passes
+ */
+function dilateSquare(bitmap: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  const rows = new Uint8Array(bitmap.length);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let count = 0;
+    for (let x = 0; x < Math.min(radius, width); x++) count += bitmap[row + x];
+    for (let x = 0; x < width; x++) {
+      if (x + radius < width) count += bitmap[row + x + radius];
+      if (x - radius - 1 >= 0) count -= bitmap[row + x - radius - 1];
+      rows[row + x] = count > 0 ? 1 : 0;
+    }
+  }
+
+  const result = new Uint8Array(bitmap.length);
+  for (let x = 0; x < width; x++) {
+    let count = 0;
+    for (let y = 0; y < Math.min(radius, height); y++) count += rows[y * width + x];
+    for (let y = 0; y < height; y++) {
+      if (y + radius < height) count += rows[(y + radius) * width + x];
+      if (y - radius - 1 >= 0) count -= rows[(y - radius - 1) * width + x];
+      result[y * width + x] = count > 0 ? 1 : 0;
+    }
+  }
+  return result;
+}
@@ -10,6 +10,8 @@
  * ALL coloring page generation must go through this module.
  */
 
+import type { StyleContract } from "./styleClone";
+
 // ============================================================
 // ORIENTATION / SIZE TYPES
 // ============================================================
@@ -374,6 +376,18 @@ FULL-PAGE composition: Art MUST fill the ENTIRE page with balanced top and botto
 - 2-4 foreground props at bottom. NO floating art.
 AVOID: fills, shading, grayscale, borders, empty bands, tiny centered subject.`;
 
+/**
+ * Style rules from a StyleContract (Style Clone or a Style Library style).
+ * Shared with buildFinalImagePrompt so a saved style reads the same everywhere.
+ */
+export function buildStyleRulesBlock(styleContract: StyleContract): string {
+  return `STYLE RULES:
+- Lines: ${styleContract.outlineRules || "medium outer contours, thinner inner details"}
+- Eyes: ${styleContract.eyeRules || "outline only with tiny dot pupils, NO solid black"}
+- Background: ${styleContract.backgroundRules || "minimal, 3-5 simple props"}
+- Composition: ${styleContract.compositionRules || "centered subject, 10-15% margins"}`;
+}
+
 /**
  * MANDATORY WHITE BACKGROUND CONSTRAINT - ALWAYS appended to every prompt
  * This ensures the model generates pure white backgrounds
@@ -393,6 +407,7 @@ export function buildFinalColoringPrompt(
     extraBottomReinforcement?: boolean;
     extraCoverageReinforcement?: boolean;
     compressConstraints?: boolean; // Use compressed version for shorter prompts
+    styleContract?: StyleContract | null; // Style Library / Style Clone rules
   } = {}
 ): string {
   const { 
@@ -404,6 +419,7 @@ export function buildFinalColoringPrompt(
     extraBottomReinforcement = false,
     extraCoverageReinforcement = false,
     compressConstraints = true, // Default to compressed for better results
+    styleContract,
   } = options;
 
   const parts: string[] = [];
@@ -427,6 +443,12 @@ export function buildFinalColoringPrompt(
     parts.push(charBlock);
   }
 
+  // Style rules go right after the scene so every page gets the same house style
+  const styleBlock = styleContract ? buildStyleRulesBlock(styleContract) : "";
+  if (styleBlock) {
+    parts.push(styleBlock);
+  }
+
   // Use compressed or full constraints based on remaining space
   if (compressConstraints) {
     parts.push(COMPRESSED_ESSENTIAL_CONSTRAINTS);
@@ -458,7 +480,10 @@ export function buildFinalColoringPrompt(
 
   // Add short negative block
   if (includeNegativeBlock) {
-    const shortNegatives = NEGATIVE_PROMPT_LIST.slice(0, 10).join(", ");
+    const shortNegatives = [
+      ...NEGATIVE_PROMPT_LIST.slice(0, 10),
+      ...(styleContract?.forbiddenList?.slice(0, 3) || []),
+    ].join(", ");
     parts.push(`\nAVOID: ${shortNegatives}.`);
   }
 
@@ -473,11 +498,12 @@ export function buildFinalColoringPrompt(
     const essentialEnd = finalPrompt.indexOf("=== COLORING PAGE RULES ===");
     if (essentialEnd > 0) {
       const essentials = finalPrompt.substring(essentialEnd);
-      const availableForScene = maxLength - essentials.length - 100;
+      const styleSection = styleBlock ? styleBlock + "\n" : "";
+      const availableForScene = maxLength - essentials.length - styleSection.length - 100;
       if (availableForScene > 200) {
         const header = "Create a kids coloring book page:\n";
         const compressedScene = scenePrompt.substring(0, availableForScene - header.length);
-        finalPrompt = header + compressedScene + "\n\n" + essentials;
+        finalPrompt = header + compressedScene + "\n" + styleSection + "\n" + essentials;
       } else {
         // Last resort: hard truncate
         finalPrompt = finalPrompt.substring(0, maxLength);
@@ -0,0 +1,141 @@
+/**
+ * entitlements.ts
+ *
+ * Server-side plan enforcement.
+ * Each assert* helper throws an EntitlementError when the request is
+ * outside the user's plan; routes catch it with entitlementErrorResponse().
+ */
+import 'server-only';
+import { getSupabaseServerClient, getUserPlan } from '@/lib/supabase/server';
+import { getPlanEntitlements, type ExportFormat, type PlanEntitlements, type PlanTier } from '@/lib/plans';
+import { EntitlementError } from '@/lib/errors/entitlementErrors';
+
+export interface UserEntitlements extends PlanEntitlements {
+  plan: PlanTier;
+}
+
+export interface ImageUsage {
+  plan: PlanTier;
+  periodStart: string;
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+}
+
+/**
+ * First day of the current calendar month (UTC), as YYYY-MM-DD
+ */
+export function currentPeriodStart(): string {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString().slice(0, 10);
+}
+
+/**
+ * Resolve the plan and its entitlements for a user
+ */
+export async function getUserEntitlements(userId: string): Promise<UserEntitlements> {
+  const plan = await getUserPlan(userId);
+  return { plan, ...getPlanEntitlements(plan) };
+}
+
+/**
+ * Images delivered to the user in the current monthly period
+ */
+export async function getImageUsage(userId: string): Promise<ImageUsage> {
+  const { plan, monthlyImageQuota } = await getUserEntitlements(userId);
+  const periodStart = currentPeriodStart();
+  const supabase = getSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from('plan_usage')
+    .select('images_generated')
+    .eq('user_id', userId)
+    .eq('period_start', periodStart)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[entitlements] Failed to load usage:', error);
+  }
+
+  const used = data?.images_generated ?? 0;
+
+  return {
+    plan,
+    periodStart,
+    used,
+    limit: monthlyImageQuota,
+    remaining: monthlyImageQuota === null ? null : Math.max(0, monthlyImageQuota - used),
+  };
+}
+
+/**
+ * Throw if generating `count` more images would exceed the monthly quota
+ */
+export async function assertImageQuota(userId: string, count: number = 1): Promise<void> {
+  const usage = await getImageUsage(userId);
+
+  if (usage.limit !== null && usage.used + count > usage.limit) {
+    throw new EntitlementError('PLAN_QUOTA_EXCEEDED', {
+      plan: usage.plan,
+      limit: usage.limit,
+      used: usage.used,
+      requested: count,
+    });
+  }
+}
+
+/**
+ * Count delivered images against the monthly quota
+ */
+export async function recordImageUsage(userId: string, count: number = 1): Promise<void> {
+  if (count <= 0) return;
+
+  const supabase = getSupabaseServerClient();
+  const { error } = await supabase.rpc('increment_plan_usage', {
+    p_user_id: userId,
+    p_period_start: currentPeriodStart(),
+    p_images: count,
+  });
+
+  if (error) {
+    // Never fail a finished generation because the counter could not be written
+    console.error('[entitlements] Failed to record usage:', error);
+  }
+}
+
+/**
+ * Throw if a project of `pageCount` pages (or a page at that index) is over the plan limit
+ */
+export async function assertPageLimit(userId: string, pageCount: number): Promise<void> {
+  const { plan, maxPagesPerProject } = await getUserEntitlements(userId);
+
+  if (maxPagesPerProject !== null && pageCount > maxPagesPerProject) {
+    throw new EntitlementError('PLAN_PAGE_LIMIT', {
+      plan,
+      limit: maxPagesPerProject,
+      requested: pageCount,
+    });
+  }
+}
+
+/**
+ * Throw if the plan does not include a server-built export format
+ */
+export async function assertExportFormat(userId: string, format: ExportFormat): Promise<void> {
+  const { plan, exportFormats } = await getUserEntitlements(userId);
+
+  if (!exportFormats.includes(format)) {
+    throw new EntitlementError('PLAN_EXPORT_FORMAT', { plan, format });
+  }
+}
+
+/**
+ * Throw if the plan does not include Style Clone
+ */
+export async function assertStyleCloneAccess(userId: string): Promise<void> {
+  const { plan, styleClone } = await getUserEntitlements(userId);
+
+  if (!styleClone) {
+    throw new EntitlementError('PLAN_STYLE_CLONE', { plan });
+  }
+}
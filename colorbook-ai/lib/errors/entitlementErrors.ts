@@ -0,0 +1,134 @@
+/**
+ * entitlementErrors.ts
+ *
+ * Typed error for requests that exceed the user's plan or spend caps.
+ * Routes turn it into a 402 response the generation UI already knows
+ * how to render as a paused state.
+ */
+
+import { NextResponse } from "next/server";
+import type { PlanTier } from "@/lib/plans";
+
+// ============================================================
+// ERROR CODES
+// ============================================================
+
+export type EntitlementErrorCode =
+  | "PLAN_QUOTA_EXCEEDED"     // monthly image quota used up
+  | "PLAN_PAGE_LIMIT"         // more pages than the plan allows per project
+  | "PLAN_EXPORT_FORMAT"      // PDF/ZIP export not included
+  | "PLAN_STYLE_CLONE"        // style cloning not included
+  | "SPEND_CAP_MONTHLY"       // estimated spend this month reached the cap
+  | "SPEND_CAP_PROJECT";      // estimated spend on this project reached the cap
+
+export interface EntitlementErrorContext {
+  plan: PlanTier;
+  limit?: number;
+  used?: number;
+  requested?: number;
+  format?: string;
+  spentUsd?: number;
+  capUsd?: number;
+}
+
+export const UPGRADE_URL = "/app/upgrade";
+
+// ============================================================
+// ERROR CLASS
+// ============================================================
+
+/**
+ * Error thrown when the user's plan does not cover the request.
+ * Not retryable until the user upgrades or the quota period resets.
+ */
+export class EntitlementError extends Error {
+  public readonly code: EntitlementErrorCode;
+  public readonly context: EntitlementErrorContext;
+  public readonly isEntitlementError = true as const;
+
+  constructor(code: EntitlementErrorCode, context: EntitlementErrorContext, message?: string) {
+    const defaultMessages: Record<EntitlementErrorCode, string> = {
+      PLAN_QUOTA_EXCEEDED: `Monthly image quota reached (${context.used ?? 0}/${context.limit ?? 0}).`,
+      PLAN_PAGE_LIMIT: `Your plan allows up to ${context.limit ?? 0} pages per project.`,
+      PLAN_EXPORT_FORMAT: `${(context.format || "This").toUpperCase()} export is not included in your plan.`,
+      PLAN_STYLE_CLONE: "Style cloning is not included in your plan.",
+      SPEND_CAP_MONTHLY: `Monthly spend cap reached ($${(context.spentUsd ?? 0).toFixed(2)}/$${(context.capUsd ?? 0).toFixed(2)}).`,
+      SPEND_CAP_PROJECT: `Project spend cap reached ($${(context.spentUsd ?? 0).toFixed(2)}/$${(context.capUsd ?? 0).toFixed(2)}).`,
+    };
+
+    super(message || defaultMessages[code]);
+    this.name = "EntitlementError";
+    this.code = code;
+    this.context = context;
+  }
+
+  /**
+   * Get user-friendly message for display in UI
+   */
+  getUserMessage(): string {
+    switch (this.code) {
+      case "PLAN_QUOTA_EXCEEDED":
+        return "Generation paused: you've used this month's image quota.";
+      case "PLAN_PAGE_LIMIT":
+        return `Your plan allows up to ${this.context.limit} pages per project.`;
+      case "PLAN_EXPORT_FORMAT":
+        return `${(this.context.format || "This").toUpperCase()} export requires a paid plan.`;
+      case "PLAN_STYLE_CLONE":
+        return "Style Clone requires a paid plan.";
+      case "SPEND_CAP_MONTHLY":
+        return "Generation paused: this month's spend cap has been reached.";
+      case "SPEND_CAP_PROJECT":
+        return "Generation paused: this book has reached its spend cap.";
+      default:
+        return this.message;
+    }
+  }
+
+  /**
+   * Get action hint for UI
+   */
+  getActionHint(): string {
+    switch (this.code) {
+      case "PLAN_QUOTA_EXCEEDED":
+        return "Upgrade your plan or wait for next month's quota, then click Resume.";
+      case "SPEND_CAP_MONTHLY":
+        return "Raise the monthly spend cap or wait for next month, then click Resume.";
+      case "SPEND_CAP_PROJECT":
+        return "Raise the project spend cap, then click Resume.";
+      default:
+        return "Upgrade your plan to unlock this feature.";
+    }
+  }
+}
+
+/**
+ * Type guard: Check if error is an entitlement error
+ */
+export function isEntitlementError(error: unknown): error is EntitlementError {
+  return error instanceof EntitlementError;
+}
+
+/**
+ * 402 Payment Required response.
+ * Uses the same paused/non_retryable shape as /api/batch/generate-one so
+ * existing generation UIs pause the queue and show the reason.
+ */
+export function entitlementErrorResponse(error: EntitlementError): NextResponse {
+  return NextResponse.json(
+    {
+      status: "paused",
+      error: error.message,
+      errorCode: error.code,
+      errorType: "non_retryable",
+      pauseReason: error.getUserMessage(),
+      actionHint: error.getActionHint(),
+      plan: error.context.plan,
+      limit: error.context.limit,
+      used: error.context.used,
+      spentUsd: error.context.spentUsd,
+      capUsd: error.context.capUsd,
+      upgradeUrl: UPGRADE_URL,
+    },
+    { status: 402 }
+  );
+}
@@ -32,7 +32,7 @@ export type GenerationErrorCode = NonRetryableErrorCode | RetryableErrorCode;
 // ============================================================
 
 export interface NonRetryableErrorContext {
-  provider: "openai" | "unknown";
+  provider: "openai" | "fake" | "unknown";
   originalCode?: string;
   originalMessage?: string;
   requestId?: string;
@@ -116,7 +116,7 @@ export class NonRetryableGenerationError extends Error {
 // ============================================================
 
 export interface RetryableErrorContext {
-  provider: "openai" | "unknown";
+  provider: "openai" | "fake" | "unknown";
   originalCode?: string;
   originalMessage?: string;
   requestId?: string;
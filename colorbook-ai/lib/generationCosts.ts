@@ -0,0 +1,423 @@
+/**
+ * generationCosts.ts
+ *
+ * Cost ledger for paid provider calls.
+ * Image generations/edits, chat completions and Replicate enhancements each
+ * write a generation_costs row with an estimated USD price - including
+ * retries that quality gates throw away. Spend rollups and hard caps read
+ * the same rows.
+ */
+import 'server-only';
+import { AsyncLocalStorage } from 'async_hooks';
+import { getSupabaseServerClient, getUserPlan } from '@/lib/supabase/server';
+import { currentPeriodStart } from '@/lib/entitlements';
+import { EntitlementError } from '@/lib/errors/entitlementErrors';
+import type { GenerationCostKind, GenerationCostMode } from '@/types/database';
+
+// ============================================================
+// PRICING (estimates, USD)
+// ============================================================
+
+// Per image, by model and size (gpt-image-1 at medium quality)
+const IMAGE_PRICES_USD: Record<string, Record<string, number>> = {
+  'gpt-image-1': { '1024x1024': 0.042, '1024x1536': 0.063, '1536x1024': 0.063 },
+  'dall-e-2': { '256x256': 0.016, '512x512': 0.018, '1024x1024': 0.02 },
+};
+const DEFAULT_IMAGE_PRICE_USD = 0.063;
+
+// Per 1M tokens; versioned model names match by prefix
+const CHAT_PRICES_PER_MTOK: Record<string, { input: number; output: number }> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+};
+
+// Replicate bills GPU time; real-esrgan runs on an Nvidia T4
+const REPLICATE_USD_PER_SECOND = 0.000225;
+const DEFAULT_ENHANCE_SECONDS = 10;
+
+/** Rows per request when reading the ledger (PostgREST's default max-rows) */
+const LEDGER_PAGE_SIZE = 1000;
+
+/** OpenAI Batch API discount on realtime prices */
+export const BATCH_DISCOUNT = 0.5;
+
+function chatPriceFor(model: string): { input: number; output: number } {
+  const match = Object.keys(CHAT_PRICES_PER_MTOK)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return CHAT_PRICES_PER_MTOK[match ?? 'gpt-4o'];
+}
+
+/**
+ * Estimated price of `images` images before any discount
+ */
+export function estimateImageUsd(provider: string, model: string, size: string | undefined, images: number): number {
+  if (provider === 'fake') return 0;
+  const price = (size && IMAGE_PRICES_USD[model]?.[size]) || DEFAULT_IMAGE_PRICE_USD;
+  return price * images;
+}
+
+/**
+ * Estimated price of a chat completion
+ */
+export function estimateChatUsd(model: string, inputTokens: number, outputTokens: number): number {
+  const price = chatPriceFor(model);
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+// ============================================================
+// REQUEST CONTEXT
+// ============================================================
+
+export interface CostContext {
+  userId?: string;
+  projectId?: string;
+  pageIndex?: number;
+  attempt?: number;
+  /** Route or feature that made the call, e.g. "batch/generate-one" */
+  source?: string;
+}
+
+const costContextStorage = new AsyncLocalStorage<CostContext>();
+
+/**
+ * Attach user/project/page details to every cost recorded for the rest of
+ * this request, including calls made deep inside helpers (validators,
+ * prompt builders) that never see the route's parameters.
+ */
+export function setCostContext(context: CostContext): void {
+  costContextStorage.enterWith({ ...costContextStorage.getStore(), ...context });
+}
+
+export function getCostContext(): CostContext {
+  return costContextStorage.getStore() ?? {};
+}
+
+// ============================================================
+// RECORDING
+// ============================================================
+
+interface CostEntry {
+  kind: GenerationCostKind;
+  provider: string;
+  model: string;
+  size?: string;
+  images?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  computeSeconds?: number;
+  mode?: GenerationCostMode;
+  estimatedUsd: number;
+  context?: CostContext;
+}
+
+async function insertCost(entry: CostEntry): Promise<void> {
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) return;
+
+  const context = { ...getCostContext(), ...entry.context };
+  const mode = entry.mode ?? 'realtime';
+  const discount = mode === 'batch' ? BATCH_DISCOUNT : 0;
+
+  const supabase = getSupabaseServerClient();
+  const { error } = await supabase.from('generation_costs').insert({
+    user_id: context.userId ?? null,
+    project_id: context.projectId ?? null,
+    page_number: context.pageIndex ?? null,
+    attempt: context.attempt ?? null,
+    kind: entry.kind,
+    provider: entry.provider,
+    model: entry.model,
+    size: entry.size ?? null,
+    source: context.source ?? null,
+    images: entry.images ?? 0,
+    input_tokens: entry.inputTokens ?? 0,
+    output_tokens: entry.outputTokens ?? 0,
+    compute_seconds: entry.computeSeconds ?? 0,
+    mode,
+    discount,
+    estimated_usd: entry.estimatedUsd * (1 - discount),
+  });
+
+  if (error) {
+    // Never fail a generation because the ledger could not be written
+    console.error('[generationCosts] Failed to record cost:', error);
+  }
+}
+
+/**
+ * Record generated or edited images
+ */
+export async function recordImageCost(params: {
+  provider: string;
+  model: string;
+  size?: string;
+  images: number;
+  edit?: boolean;
+  mode?: GenerationCostMode;
+  context?: CostContext;
+}): Promise<void> {
+  if (params.images <= 0) return;
+
+  await insertCost({
+    kind: params.edit ? 'image_edit' : 'image',
+    provider: params.provider,
+    model: params.model,
+    size: params.size,
+    images: params.images,
+    mode: params.mode,
+    estimatedUsd: estimateImageUsd(params.provider, params.model, params.size, params.images),
+    context: params.context,
+  });
+}
+
+/**
+ * Record a chat completion from its usage block
+ */
+export async function recordChatCost(params: {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  context?: CostContext;
+}): Promise<void> {
+  await insertCost({
+    kind: 'chat',
+    provider: 'openai',
+    model: params.model,
+    inputTokens: params.inputTokens,
+    outputTokens: params.outputTokens,
+    estimatedUsd: estimateChatUsd(params.model, params.inputTokens, params.outputTokens),
+    context: params.context,
+  });
+}
+
+/**
+ * Record a Replicate prediction (predict_time from prediction.metrics)
+ */
+export async function recordEnhanceCost(params: {
+  model: string;
+  predictTime?: number;
+  context?: CostContext;
+}): Promise<void> {
+  const seconds = params.predictTime ?? DEFAULT_ENHANCE_SECONDS;
+
+  await insertCost({
+    kind: 'enhance',
+    provider: 'replicate',
+    model: params.model,
+    images: 1,
+    computeSeconds: seconds,
+    estimatedUsd: seconds * REPLICATE_USD_PER_SECOND,
+    context: params.context,
+  });
+}
+
+// ============================================================
+// ROLLUPS
+// ============================================================
+
+export interface PageSpend {
+  pageNumber: number;
+  usd: number;
+  images: number;
+  calls: number;
+}
+
+export interface ModelSpend {
+  model: string;
+  kind: GenerationCostKind;
+  usd: number;
+  calls: number;
+}
+
+interface ProjectLedgerRow {
+  kind: string;
+  model: string;
+  page_number: number | null;
+  images: number | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  discount: number | string;
+  estimated_usd: number | string;
+}
+
+export interface ProjectSpend {
+  totalUsd: number;
+  images: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** What the batch-mode rows would have cost at realtime prices, minus what they cost */
+  batchSavingsUsd: number;
+  byKind: Record<GenerationCostKind, number>;
+  byModel: ModelSpend[];
+  byPage: PageSpend[];
+}
+
+/**
+ * Aggregate every ledger row for a project, reading the rows page by page
+ */
+export async function getProjectSpend(projectId: string): Promise<ProjectSpend> {
+  const supabase = getSupabaseServerClient();
+  const data: ProjectLedgerRow[] = [];
+
+  for (let from = 0; ; from += LEDGER_PAGE_SIZE) {
+    const { data: rows, error } = await supabase
+      .from('generation_costs')
+      .select('kind, model, page_number, images, input_tokens, output_tokens, discount, estimated_usd')
+      .eq('project_id', projectId)
+      .order('created_at')
+      .order('id')
+      .range(from, from + LEDGER_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('[generationCosts] Failed to load project spend:', error);
+      break;
+    }
+
+    data.push(...((rows ?? []) as ProjectLedgerRow[]));
+    if (!rows || rows.length < LEDGER_PAGE_SIZE) break;
+  }
+
+  const summary: ProjectSpend = {
+    totalUsd: 0,
+    images: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    batchSavingsUsd: 0,
+    byKind: { image: 0, image_edit: 0, chat: 0, enhance: 0 },
+    byModel: [],
+    byPage: [],
+  };
+  const models = new Map<string, ModelSpend>();
+  const pages = new Map<number, PageSpend>();
+
+  for (const row of data) {
+    const usd = Number(row.estimated_usd) || 0;
+    const discount = Number(row.discount) || 0;
+    const kind = row.kind as GenerationCostKind;
+
+    summary.totalUsd += usd;
+    summary.images += row.images ?? 0;
+    summary.inputTokens += row.input_tokens ?? 0;
+    summary.outputTokens += row.output_tokens ?? 0;
+    summary.byKind[kind] = (summary.byKind[kind] ?? 0) + usd;
+    if (discount > 0 && discount < 1) {
+      summary.batchSavingsUsd += usd / (1 - discount) - usd;
+    }
+
+    const modelKey = `${kind}:${row.model}`;
+    const model = models.get(modelKey) ?? { model: row.model, kind, usd: 0, calls: 0 };
+    model.usd += usd;
+    model.calls += 1;
+    models.set(modelKey, model);
+
+    if (row.page_number !== null && row.page_number !== undefined) {
+      const page = pages.get(row.page_number) ?? { pageNumber: row.page_number, usd: 0, images: 0, calls: 0 };
+      page.usd += usd;
+      page.images += row.images ?? 0;
+      page.calls += 1;
+      pages.set(row.page_number, page);
+    }
+  }
+
+  summary.byModel = Array.from(models.values()).sort((a, b) => b.usd - a.usd);
+  summary.byPage = Array.from(pages.values()).sort((a, b) => a.pageNumber - b.pageNumber);
+  return summary;
+}
+
+/**
+ * Estimated spend for a user in the current calendar month (UTC)
+ */
+export async function getMonthlySpendUsd(userId: string): Promise<number> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase.rpc('sum_generation_costs', {
+    p_user_id: userId,
+    p_since: `${currentPeriodStart()}T00:00:00Z`,
+  });
+
+  if (error) {
+    console.error('[generationCosts] Failed to load monthly spend:', error);
+  }
+
+  return Number(data) || 0;
+}
+
+/**
+ * Estimated spend on a project so far
+ */
+export async function getProjectSpendUsd(projectId: string): Promise<number> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase.rpc('sum_generation_costs', {
+    p_project_id: projectId,
+  });
+
+  if (error) {
+    console.error('[generationCosts] Failed to load project spend:', error);
+  }
+
+  return Number(data) || 0;
+}
+
+// ============================================================
+// HARD CAPS
+// ============================================================
+
+export interface SpendCaps {
+  /** Per-user cap for the calendar month (null = no cap) */
+  monthlyUsd: number | null;
+  /** Per-project cap (null = no cap) */
+  projectUsd: number | null;
+}
+
+function parseCap(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const cap = Number(value);
+  return Number.isFinite(cap) && cap >= 0 ? cap : null;
+}
+
+/**
+ * Caps from user_plans, falling back to SPEND_CAP_MONTHLY_USD / SPEND_CAP_PROJECT_USD
+ */
+export async function getSpendCaps(userId: string): Promise<SpendCaps> {
+  const supabase = getSupabaseServerClient();
+  const { data } = await supabase
+    .from('user_plans')
+    .select('monthly_spend_cap_usd, project_spend_cap_usd')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return {
+    monthlyUsd: parseCap(data?.monthly_spend_cap_usd) ?? parseCap(process.env.SPEND_CAP_MONTHLY_USD),
+    projectUsd: parseCap(data?.project_spend_cap_usd) ?? parseCap(process.env.SPEND_CAP_PROJECT_USD),
+  };
+}
+
+/**
+ * Throw once the user's monthly spend, or the project's spend, has reached its cap.
+ * Retry loops call this before every attempt so a stuck page cannot run up a bill.
+ */
+export async function assertSpendCap(userId: string, projectId?: string): Promise<void> {
+  const caps = await getSpendCaps(userId);
+  if (caps.monthlyUsd === null && (caps.projectUsd === null || !projectId)) return;
+
+  if (caps.monthlyUsd !== null) {
+    const spentUsd = await getMonthlySpendUsd(userId);
+    if (spentUsd >= caps.monthlyUsd) {
+      throw new EntitlementError('SPEND_CAP_MONTHLY', {
+        plan: await getUserPlan(userId),
+        spentUsd,
+        capUsd: caps.monthlyUsd,
+      });
+    }
+  }
+
+  if (caps.projectUsd !== null && projectId) {
+    const spentUsd = await getProjectSpendUsd(projectId);
+    if (spentUsd >= caps.projectUsd) {
+      throw new EntitlementError('SPEND_CAP_PROJECT', {
+        plan: await getUserPlan(userId),
+        spentUsd,
+        capUsd: caps.projectUsd,
+      });
+    }
+  }
+}
@@ -0,0 +1,685 @@
+/**
+ * generationQueue.ts
+ *
+ * Durable server-side queue for page generation.
+ * A generation_jobs row owns a project's project_prompts rows; the worker
+ * (/api/cron/generation-worker, or scripts/generation-worker.mjs for a
+ * long-running process) claims pages one at a time, runs the same retry and
+ * validation pipeline as /api/batch/generate-one and writes the result to
+ * generated_assets, where the create page picks it up via realtime. Each
+ * page is checked against the book's other pages (lib/pageDuplicates.ts);
+ * with settings.regenerateDuplicates a repeat is generated once more.
+ */
+import 'server-only';
+import {
+  getSupabaseServerClient,
+  uploadToStorage,
+  getRetentionHours,
+  calculateExpiresAt,
+} from '@/lib/supabase/server';
+import { assertImageQuota } from '@/lib/entitlements';
+import {
+  attachPromptsToJob,
+  countProjectPrompts,
+  detachJobPrompts,
+  getProjectSettings,
+  listJobPromptStatuses,
+  setProjectStatus,
+  updatePromptQueueState,
+} from '@/lib/projectStore';
+import { setCostContext } from '@/lib/generationCosts';
+import { isEntitlementError } from '@/lib/errors/entitlementErrors';
+import { detectDuplicatePage } from '@/lib/pageDuplicates';
+import { getLineWeightSpec } from '@/lib/generationSpec';
+import {
+  generatePageWithRetries,
+  MAX_WALL_TIME_MS,
+  type PageGenerationOutcome,
+} from '@/lib/services/pageGenerationPipeline';
+import type { CharacterIdentityProfile } from '@/lib/characterIdentity';
+import type { ComplexityLevel } from '@/lib/services/imageValidator';
+import type {
+  AssetMeta,
+  GenerationJob,
+  GenerationJobSettings,
+  GenerationJobStatus,
+  ProjectPrompt,
+} from '@/types/database';
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+/** Claim lease; a page whose worker died is claimable again after this */
+const LEASE_SECONDS = 300;
+
+/** Claims per page before it is marked image_failed */
+const MAX_PAGE_CLAIMS = 3;
+
+/** Time a worker must have left before it claims another page */
+const PAGE_TIME_BUDGET_MS = MAX_WALL_TIME_MS + 60 * 1000;
+
+/** Regenerations of a page that nearly repeats another (settings.regenerateDuplicates) */
+const MAX_DUPLICATE_REGENERATIONS = 1;
+
+/** Prompt addendum when regenerating a page that repeated another */
+const DIFFERENT_COMPOSITION_REINFORCEMENT = `
+DIFFERENT COMPOSITION: the last image for this page nearly repeated another page of the book.
+Use a clearly different layout - change the viewpoint, the subject's pose and place on the page, and the background scene.`;
+
+const ACTIVE_JOB_STATUSES: GenerationJobStatus[] = ['queued', 'running', 'paused'];
+
+// ============================================================
+// JOBS
+// ============================================================
+
+export type GenerationJobAction = 'pause' | 'resume' | 'cancel';
+
+export async function getGenerationJob(jobId: string): Promise<GenerationJob | null> {
+  const supabase = getSupabaseServerClient();
+  const { data } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  return (data as GenerationJob | null) ?? null;
+}
+
+/**
+ * The project's queued/running/paused job, if any
+ */
+export async function getActiveGenerationJob(projectId: string): Promise<GenerationJob | null> {
+  const supabase = getSupabaseServerClient();
+  const { data } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .eq('project_id', projectId)
+    .in('status', ACTIVE_JOB_STATUSES)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return (data as GenerationJob | null) ?? null;
+}
+
+/**
+ * The project's active job, or its most recent finished one
+ */
+export async function getLatestGenerationJob(projectId: string): Promise<GenerationJob | null> {
+  const active = await getActiveGenerationJob(projectId);
+  if (active) return active;
+
+  const supabase = getSupabaseServerClient();
+  const { data } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return (data as GenerationJob | null) ?? null;
+}
+
+/**
+ * Queue a project's pages for server-side generation.
+ *
+ * Reuses the project's active job (a paused job is resumed with the new
+ * settings). Without pageIndexes every page that has no image yet is queued.
+ * Returns null when there is nothing to generate.
+ */
+export async function enqueueGenerationJob(params: {
+  projectId: string;
+  userId: string;
+  settings: GenerationJobSettings;
+  pageIndexes?: number[];
+}): Promise<GenerationJob | null> {
+  const { projectId, userId, settings, pageIndexes } = params;
+  const supabase = getSupabaseServerClient();
+
+  let job = await getActiveGenerationJob(projectId);
+  const isNewJob = !job;
+
+  if (job) {
+    const { data, error } = await supabase
+      .from('generation_jobs')
+      .update({
+        status: job.status === 'running' ? 'running' : 'queued',
+        settings,
+        pause_reason: null,
+        error_code: null,
+        action_hint: null,
+        completed_at: null,
+      })
+      .eq('id', job.id)
+      .select('*')
+      .single();
+
+    if (error) throw new Error(`Failed to update generation job: ${error.message}`);
+    job = data as GenerationJob;
+  } else {
+    const { data, error } = await supabase
+      .from('generation_jobs')
+      .insert({
+        project_id: projectId,
+        user_id: userId,
+        status: 'queued',
+        settings,
+      })
+      .select('*')
+      .single();
+
+    if (error) throw new Error(`Failed to create generation job: ${error.message}`);
+    job = data as GenerationJob;
+  }
+
+  // Attach pages - never steal a page another worker is holding a lease on
+  try {
+    await attachPromptsToJob(projectId, job.id, pageIndexes);
+  } catch (error) {
+    throw new Error(`Failed to queue pages: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const refreshed = await refreshJobProgress(job.id);
+
+  if (isNewJob && refreshed && refreshed.total_pages === 0) {
+    await supabase.from('generation_jobs').delete().eq('id', job.id);
+    return null;
+  }
+
+  console.log(`[generationQueue] Job ${job.id} queued ${refreshed?.total_pages ?? 0} pages for project ${projectId}`);
+  return refreshed;
+}
+
+/**
+ * Pause, resume or cancel a job. Pages already being generated finish;
+ * cancelling releases the rest back to the project.
+ */
+export async function updateGenerationJobStatus(
+  job: GenerationJob,
+  action: GenerationJobAction
+): Promise<GenerationJob> {
+  const supabase = getSupabaseServerClient();
+
+  let update: Partial<GenerationJob>;
+  switch (action) {
+    case 'pause':
+      update = { status: 'paused', pause_reason: 'Paused by you.', action_hint: 'Click Resume to continue.' };
+      break;
+    case 'resume':
+      update = { status: 'queued', pause_reason: null, error_code: null, action_hint: null };
+      break;
+    case 'cancel':
+      update = { status: 'cancelled', completed_at: new Date().toISOString() };
+      break;
+  }
+
+  const { data, error } = await supabase
+    .from('generation_jobs')
+    .update(update)
+    .eq('id', job.id)
+    .select('*')
+    .single();
+
+  if (error) throw new Error(`Failed to update generation job: ${error.message}`);
+
+  if (action === 'cancel') {
+    await detachJobPrompts(job.id);
+  }
+
+  return data as GenerationJob;
+}
+
+/**
+ * Recount a job's pages and complete it once none are left
+ */
+async function refreshJobProgress(jobId: string): Promise<GenerationJob | null> {
+  const supabase = getSupabaseServerClient();
+
+  const statuses = await listJobPromptStatuses(jobId);
+  const completed = statuses.filter((s) => s === 'image_done').length;
+  const failed = statuses.filter((s) => s === 'image_failed').length;
+  const open = statuses.length - completed - failed;
+
+  const job = await getGenerationJob(jobId);
+  if (!job) return null;
+
+  const update: Partial<GenerationJob> = {
+    total_pages: statuses.length,
+    completed_pages: completed,
+    failed_pages: failed,
+  };
+
+  if (open === 0 && statuses.length > 0 && (job.status === 'queued' || job.status === 'running')) {
+    update.status = completed === 0 ? 'failed' : 'completed';
+    update.completed_at = new Date().toISOString();
+  }
+
+  const { data } = await supabase
+    .from('generation_jobs')
+    .update(update)
+    .eq('id', jobId)
+    .select('*')
+    .single();
+
+  return (data as GenerationJob | null) ?? { ...job, ...update };
+}
+
+async function pauseJob(jobId: string, details: { reason: string; errorCode: string; actionHint: string }) {
+  const supabase = getSupabaseServerClient();
+  await supabase
+    .from('generation_jobs')
+    .update({
+      status: 'paused',
+      pause_reason: details.reason,
+      error_code: details.errorCode,
+      action_hint: details.actionHint,
+    })
+    .eq('id', jobId);
+}
+
+// ============================================================
+// PROJECT STATUS
+// ============================================================
+
+/**
+ * Recount a project's prompts/images and derive its status from the
+ * generation work still in flight (queue jobs and OpenAI batches):
+ * generating while anything is queued, running or paused, then
+ * ready / partial / failed by how many pages have images.
+ */
+export async function refreshProjectStatus(projectId: string): Promise<void> {
+  const supabase = getSupabaseServerClient();
+
+  await supabase.rpc('update_project_counts', { p_project_id: projectId });
+
+  const [activeJob, batches, totalPages, pages] = await Promise.all([
+    getActiveGenerationJob(projectId),
+    supabase
+      .from('openai_batch_jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('project_id', projectId)
+      .in('status', ['queued', 'in_progress', 'finalizing']),
+    countProjectPrompts(projectId),
+    supabase
+      .from('generated_assets')
+      .select('id', { count: 'exact', head: true })
+      .eq('project_id', projectId)
+      .eq('asset_type', 'page_image')
+      .eq('status', 'ready'),
+  ]);
+
+  const readyPages = pages.count ?? 0;
+
+  let status: 'generating' | 'ready' | 'partial' | 'failed';
+  if (activeJob || (batches.count ?? 0) > 0) {
+    status = 'generating';
+  } else if (readyPages === 0) {
+    status = 'failed';
+  } else if (readyPages >= totalPages) {
+    status = 'ready';
+  } else {
+    status = 'partial';
+  }
+
+  await setProjectStatus(projectId, status);
+}
+
+// ============================================================
+// WORKER
+// ============================================================
+
+export type PageResult = 'done' | 'failed' | 'requeued' | 'paused';
+
+export interface WorkerRunSummary {
+  claimed: number;
+  done: number;
+  failed: number;
+  requeued: number;
+  paused: number;
+  elapsedMs: number;
+}
+
+/**
+ * Claim and generate pages until the queue is empty or the time budget
+ * cannot fit another page. Safe to run several workers at once.
+ */
+export async function runGenerationWorker(options: { budgetMs: number }): Promise<WorkerRunSummary> {
+  const supabase = getSupabaseServerClient();
+  const startedAt = Date.now();
+  const summary: WorkerRunSummary = { claimed: 0, done: 0, failed: 0, requeued: 0, paused: 0, elapsedMs: 0 };
+
+  while (Date.now() - startedAt + PAGE_TIME_BUDGET_MS <= options.budgetMs) {
+    const { data, error } = await supabase.rpc('claim_generation_pages', {
+      p_limit: 1,
+      p_lock_seconds: LEASE_SECONDS,
+    });
+
+    if (error) throw new Error(`Failed to claim pages: ${error.message}`);
+
+    const claimed = (data ?? []) as ProjectPrompt[];
+    if (claimed.length === 0) break;
+
+    summary.claimed++;
+    const result = await processClaimedPage(claimed[0]);
+    summary[result]++;
+  }
+
+  summary.elapsedMs = Date.now() - startedAt;
+  return summary;
+}
+
+/**
+ * Generate one claimed page and record the outcome on the prompt, the
+ * asset row and the job
+ */
+async function processClaimedPage(prompt: ProjectPrompt): Promise<PageResult> {
+  const supabase = getSupabaseServerClient();
+  const job = prompt.job_id ? await getGenerationJob(prompt.job_id) : null;
+
+  // Job was paused/cancelled after the claim - hand the page back
+  if (!job || (job.status !== 'queued' && job.status !== 'running')) {
+    await releasePage(prompt, { refund: true });
+    return 'requeued';
+  }
+
+  if (job.status === 'queued') {
+    await supabase
+      .from('generation_jobs')
+      .update({ status: 'running', started_at: job.started_at ?? new Date().toISOString() })
+      .eq('id', job.id);
+  }
+
+  const page = prompt.page_index;
+  const { settings } = job;
+  let result: PageResult;
+
+  setCostContext({
+    userId: job.user_id,
+    projectId: job.project_id,
+    pageIndex: page,
+    attempt: undefined,
+    source: 'generation_queue',
+  });
+
+  console.log(`[generationQueue] Job ${job.id}: page ${page} (claim ${prompt.attempt_count}/${MAX_PAGE_CLAIMS})`);
+
+  try {
+    await markAssetGenerating(job, prompt);
+    await assertImageQuota(job.user_id, 1);
+
+    const duplicate = await getDuplicateRegeneration(job, prompt);
+    const lineWeightSpec = getLineWeightSpec(await getProjectSettings(job.project_id));
+
+    const outcome = await generatePageWithRetries({
+      userId: job.user_id,
+      projectId: job.project_id,
+      page,
+      prompt: duplicate.regenerate
+        ? `${prompt.prompt_text}\n${DIFFERENT_COMPOSITION_REINFORCEMENT}`
+        : prompt.prompt_text,
+      size: settings.size,
+      isStorybookMode: settings.isStorybookMode,
+      characterProfile: settings.characterProfile as CharacterIdentityProfile | undefined,
+      validateOutline: settings.validateOutline,
+      validateCharacter: settings.validateCharacter,
+      validateComposition: settings.validateComposition,
+      complexity: settings.complexity as ComplexityLevel,
+      lineThickness: lineWeightSpec.lineThickness,
+      printWidthPx: lineWeightSpec.printWidthPx,
+      logTag: 'generationQueue',
+    });
+
+    result = await applyOutcome(job, prompt, outcome, duplicate.regenerate ? duplicate.regenerations + 1 : 0);
+  } catch (error) {
+    if (isEntitlementError(error)) {
+      // Quota or spend cap - pause the whole job until the user resumes it
+      await pauseJob(job.id, {
+        reason: error.getUserMessage(),
+        errorCode: error.code,
+        actionHint: error.getActionHint(),
+      });
+      await releasePage(prompt, { refund: true });
+      result = 'paused';
+    } else {
+      const message = error instanceof Error ? error.message : 'Generation failed';
+      console.error(`[generationQueue] Job ${job.id}: page ${page} error:`, message);
+      result = await requeueOrFail(job, prompt, message);
+    }
+  }
+
+  await refreshJobProgress(job.id);
+  await refreshProjectStatus(job.project_id);
+
+  return result;
+}
+
+/**
+ * @param duplicateRegenerations - Regenerations this outcome is the result of,
+ *   for a page that kept repeating another page
+ */
+async function applyOutcome(
+  job: GenerationJob,
+  prompt: ProjectPrompt,
+  outcome: PageGenerationOutcome,
+  duplicateRegenerations: number
+): Promise<PageResult> {
+  if (outcome.status === 'done') {
+    const duplicateMeta = await detectDuplicatePage({
+      projectId: job.project_id,
+      userId: job.user_id,
+      pageNumber: prompt.page_index,
+      imageBuffer: Buffer.from(outcome.imageBase64, 'base64'),
+    });
+
+    await savePageImage(job, prompt, outcome.imageBase64, {
+      attempts: outcome.attempts,
+      validationResult: outcome.validation
+        ? { valid: outcome.validation.passed, notes: outcome.validation.note }
+        : undefined,
+      ...duplicateMeta,
+      duplicateRegenerations: duplicateMeta.duplicateOf ? duplicateRegenerations : undefined,
+    });
+
+    // Keep the image (flagged) and queue the page again for a new composition
+    if (
+      duplicateMeta.duplicateOf &&
+      job.settings.regenerateDuplicates &&
+      duplicateRegenerations < MAX_DUPLICATE_REGENERATIONS
+    ) {
+      console.log(`[generationQueue] Job ${job.id}: page ${prompt.page_index} repeats page ${duplicateMeta.duplicateOf.pageNumber}, regenerating`);
+      await releasePage(prompt, { refund: true });
+      return 'requeued';
+    }
+
+    await updatePromptQueueState(prompt.id, { status: 'image_done', lastError: null });
+    return 'done';
+  }
+
+  if (outcome.status === 'stopped') {
+    const { error, isPausable } = outcome;
+
+    if (isPausable) {
+      await pauseJob(job.id, {
+        reason: error.getUserMessage(),
+        errorCode: error.code,
+        actionHint: error.getActionHint(),
+      });
+      await releasePage(prompt, { refund: true });
+      return 'paused';
+    }
+
+    // Hard stop (auth, policy, ...) - retrying this page will not help
+    await failPage(job, prompt, error.message, error.code);
+    return 'failed';
+  }
+
+  return requeueOrFail(job, prompt, 'No usable image after retries');
+}
+
+// ============================================================
+// PAGE STATE
+// ============================================================
+
+/**
+ * Put a page back in the queue, or fail it once it has used its claims
+ */
+async function requeueOrFail(job: GenerationJob, prompt: ProjectPrompt, message: string): Promise<PageResult> {
+  if (prompt.attempt_count >= MAX_PAGE_CLAIMS) {
+    await failPage(job, prompt, message);
+    return 'failed';
+  }
+
+  await updatePromptQueueState(prompt.id, { status: 'ready', lastError: message });
+  return 'requeued';
+}
+
+/**
+ * Release a claim without counting it (the page itself did not fail)
+ */
+async function releasePage(prompt: ProjectPrompt, options: { refund: boolean }) {
+  await updatePromptQueueState(prompt.id, {
+    status: 'ready',
+    attemptCount: options.refund ? Math.max(0, prompt.attempt_count - 1) : prompt.attempt_count,
+  });
+}
+
+async function failPage(job: GenerationJob, prompt: ProjectPrompt, message: string, errorCode?: string) {
+  await updatePromptQueueState(prompt.id, { status: 'image_failed', lastError: message });
+
+  const supabase = getSupabaseServerClient();
+  await supabase
+    .from('generated_assets')
+    .update({ status: 'failed', meta: pageMeta(job, prompt, { error: message, errorCode }) })
+    .eq('project_id', job.project_id)
+    .eq('asset_type', 'page_image')
+    .eq('page_number', prompt.page_index)
+    .eq('status', 'generating');
+}
+
+// ============================================================
+// ASSETS
+// ============================================================
+
+function pageMeta(job: GenerationJob, prompt: ProjectPrompt, extra: Partial<AssetMeta> = {}): AssetMeta {
+  return {
+    prompt: prompt.prompt_text,
+    title: prompt.title ?? undefined,
+    source: 'generation_queue',
+    jobId: job.id,
+    ...extra,
+  };
+}
+
+async function findPageAssetId(projectId: string, pageNumber: number): Promise<string | null> {
+  const supabase = getSupabaseServerClient();
+  const { data: existing } = await supabase
+    .from('generated_assets')
+    .select('id')
+    .eq('project_id', projectId)
+    .eq('asset_type', 'page_image')
+    .eq('page_number', pageNumber)
+    .maybeSingle();
+
+  return existing?.id ?? null;
+}
+
+/**
+ * Whether this claim regenerates a page flagged as repeating another one,
+ * and how many times it was regenerated for that already
+ */
+async function getDuplicateRegeneration(
+  job: GenerationJob,
+  prompt: ProjectPrompt
+): Promise<{ regenerate: boolean; regenerations: number }> {
+  if (!job.settings.regenerateDuplicates) return { regenerate: false, regenerations: 0 };
+
+  const supabase = getSupabaseServerClient();
+  const { data } = await supabase
+    .from('generated_assets')
+    .select('meta')
+    .eq('project_id', job.project_id)
+    .eq('asset_type', 'page_image')
+    .eq('page_number', prompt.page_index)
+    .eq('status', 'ready')
+    .maybeSingle();
+
+  const meta = (data?.meta ?? null) as AssetMeta | null;
+  const regenerations = meta?.duplicateRegenerations ?? 0;
+  return {
+    regenerate: !!meta?.duplicateOf && regenerations < MAX_DUPLICATE_REGENERATIONS,
+    regenerations,
+  };
+}
+
+/**
+ * Create the page's asset row in "generating" state so realtime
+ * subscribers see the page start. An existing ready image stays visible.
+ */
+async function markAssetGenerating(job: GenerationJob, prompt: ProjectPrompt) {
+  const supabase = getSupabaseServerClient();
+  const assetId = await findPageAssetId(job.project_id, prompt.page_index);
+
+  if (assetId) return;
+
+  await supabase.from('generated_assets').insert({
+    project_id: job.project_id,
+    user_id: job.user_id,
+    page_number: prompt.page_index,
+    asset_type: 'page_image',
+    status: 'generating',
+    meta: pageMeta(job, prompt),
+  });
+}
+
+async function savePageImage(
+  job: GenerationJob,
+  prompt: ProjectPrompt,
+  imageBase64: string,
+  extraMeta: Partial<AssetMeta>
+) {
+  const supabase = getSupabaseServerClient();
+
+  const paddedNum = String(prompt.page_index).padStart(3, '0');
+  const storagePath = `${job.user_id}/${job.project_id}/pages/page-${paddedNum}.png`;
+  const buffer = Buffer.from(imageBase64, 'base64');
+
+  const { path: uploadedPath, error: uploadError } = await uploadToStorage(
+    'generated',
+    storagePath,
+    buffer,
+    'image/png'
+  );
+
+  if (uploadError) {
+    throw new Error(`Upload failed: ${uploadError.message}`);
+  }
+
+  const retentionHours = await getRetentionHours(job.user_id);
+  const assetData = {
+    project_id: job.project_id,
+    user_id: job.user_id,
+    page_number: prompt.page_index,
+    asset_type: 'page_image' as const,
+    storage_bucket: 'generated',
+    storage_path: uploadedPath,
+    mime_type: 'image/png',
+    status: 'ready' as const,
+    expires_at: calculateExpiresAt(retentionHours),
+    meta: pageMeta(job, prompt, {
+      ...extraMeta,
+      fileSize: buffer.length,
+    }),
+  };
+
+  const assetId = await findPageAssetId(job.project_id, prompt.page_index);
+
+  const { error } = assetId
+    ? await supabase.from('generated_assets').update(assetData).eq('id', assetId)
+    : await supabase.from('generated_assets').insert(assetData);
+
+  if (error) {
+    throw new Error(`Failed to save asset: ${error.message}`);
+  }
+}
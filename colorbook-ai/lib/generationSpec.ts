@@ -9,6 +9,8 @@ export type Complexity = "simple" | "medium" | "detailed";
 export type ExtendedComplexity = "kids" | "simple" | "medium" | "detailed" | "ultra";
 export type LineThickness = "thin" | "medium" | "bold";
 
+const LINE_THICKNESSES: LineThickness[] = ["thin", "medium", "bold"];
+
 /**
  * Map extended complexity to base complexity for API compatibility
  */
@@ -23,6 +25,22 @@ export function mapExtendedToBaseComplexity(extended: ExtendedComplexity): Compl
   }
 }
 
+/**
+ * Line thickness pages of a complexity level are drawn with
+ * (matches COMPLEXITY_CONFIGS in lib/ideaPlanner.ts; kids pages are bold)
+ */
+export function getLineThicknessForComplexity(complexity: ExtendedComplexity): LineThickness {
+  switch (complexity) {
+    case "kids":
+    case "simple":
+      return "bold";
+    case "ultra":
+      return "thin";
+    default:
+      return "medium";
+  }
+}
+
 export interface GenerationSpec {
   /** Trim size label, e.g. "8.5x11" */
   trimSize: string;
@@ -58,8 +76,43 @@ export const TRIM_TO_PIXELS: Record<string, string> = {
   "6×9": "1024x1792",      // 6:9 ratio - DALL-E 3 portrait
   "6x9": "1024x1792",
   "A4": "1024x1448",       // A4 ratio ~1:1.414
+  "8.5×8.5": "1024x1024",  // Square
+  "8.5x8.5": "1024x1024",
 };
 
+/**
+ * Physical trim sizes in inches (portrait: width <= height)
+ * Keys are normalized labels - see normalizeTrimSize()
+ */
+export const TRIM_SIZES_IN: Record<string, { widthIn: number; heightIn: number }> = {
+  "8.5x11": { widthIn: 8.5, heightIn: 11 },
+  "8x10": { widthIn: 8, heightIn: 10 },
+  "6x9": { widthIn: 6, heightIn: 9 },
+  "A4": { widthIn: 8.27, heightIn: 11.69 },
+  "8.5x8.5": { widthIn: 8.5, heightIn: 8.5 },
+};
+
+export const DEFAULT_TRIM_SIZE = "8.5x11";
+
+/** Print resolution for interior art */
+export const PRINT_DPI = 300;
+
+/** KDP bleed on the top, bottom and outside edge of each interior page */
+export const KDP_BLEED_IN = 0.125;
+
+/** KDP minimum outside (top/bottom/outer) margin, with and without bleed */
+const KDP_OUTSIDE_MARGIN_IN = 0.25;
+const KDP_OUTSIDE_MARGIN_BLEED_IN = 0.375;
+
+/** KDP minimum inside (gutter) margin by page count */
+const KDP_INSIDE_MARGINS: Array<{ maxPages: number; marginIn: number }> = [
+  { maxPages: 150, marginIn: 0.375 },
+  { maxPages: 300, marginIn: 0.5 },
+  { maxPages: 500, marginIn: 0.625 },
+  { maxPages: 700, marginIn: 0.75 },
+  { maxPages: Infinity, marginIn: 0.875 },
+];
+
 /**
  * Default generation spec
  */
@@ -105,6 +158,123 @@ export function createSpec(params: {
   };
 }
 
+/**
+ * Normalize a trim size label ("8.5×11" → "8.5x11")
+ */
+export function normalizeTrimSize(trimSize: string): string {
+  return trimSize.replace("×", "x").trim();
+}
+
+// ============================================
+// INTERIOR LAYOUT
+// ============================================
+
+export interface InteriorLayout {
+  trimSize: string;
+  trimWidthIn: number;
+  trimHeightIn: number;
+  bleed: boolean;
+  /** Page size in the PDF (trim + bleed on top, bottom and outside edge) */
+  pageWidthIn: number;
+  pageHeightIn: number;
+  pageWidthPt: number;
+  pageHeightPt: number;
+  /** KDP minimum margins, measured from the page edge */
+  insideMarginIn: number;
+  outsideMarginIn: number;
+  /** Live area (page minus margins) - the box page art is reframed into */
+  liveWidthIn: number;
+  liveHeightIn: number;
+  /** Live area at PRINT_DPI */
+  artPixelWidth: number;
+  artPixelHeight: number;
+}
+
+/**
+ * KDP minimum inside (gutter) margin for a page count
+ */
+export function getInsideMarginIn(pageCount: number): number {
+  return KDP_INSIDE_MARGINS.find((m) => pageCount <= m.maxPages)!.marginIn;
+}
+
+/**
+ * Interior page geometry for a trim size. Unknown sizes fall back to 8.5x11.
+ *
+ * @param options.pageCount - Total interior pages (drives the gutter margin)
+ * @param options.bleed - Add 0.125" bleed (art may then run to the outer edges)
+ */
+export function getInteriorLayout(
+  trimSize: string | undefined,
+  options: { pageCount: number; bleed?: boolean }
+): InteriorLayout {
+  const normalized = normalizeTrimSize(trimSize || DEFAULT_TRIM_SIZE);
+  const key = TRIM_SIZES_IN[normalized] ? normalized : DEFAULT_TRIM_SIZE;
+  const trim = TRIM_SIZES_IN[key];
+  const bleed = options.bleed ?? false;
+
+  const pageWidthIn = trim.widthIn + (bleed ? KDP_BLEED_IN : 0);
+  const pageHeightIn = trim.heightIn + (bleed ? KDP_BLEED_IN * 2 : 0);
+  const insideMarginIn = getInsideMarginIn(options.pageCount);
+  const outsideMarginIn = bleed ? KDP_OUTSIDE_MARGIN_BLEED_IN : KDP_OUTSIDE_MARGIN_IN;
+
+  const liveWidthIn = pageWidthIn - insideMarginIn - outsideMarginIn;
+  const liveHeightIn = pageHeightIn - outsideMarginIn * 2;
+
+  return {
+    trimSize: key,
+    trimWidthIn: trim.widthIn,
+    trimHeightIn: trim.heightIn,
+    bleed,
+    pageWidthIn,
+    pageHeightIn,
+    pageWidthPt: pageWidthIn * 72,
+    pageHeightPt: pageHeightIn * 72,
+    insideMarginIn,
+    outsideMarginIn,
+    liveWidthIn,
+    liveHeightIn,
+    artPixelWidth: Math.round(liveWidthIn * PRINT_DPI),
+    artPixelHeight: Math.round(liveHeightIn * PRINT_DPI),
+  };
+}
+
+/**
+ * Live area of one page in PDF points (origin bottom-left).
+ * Page 1 is a right-hand (recto) page: its gutter is on the left.
+ */
+export function getLiveAreaPt(
+  layout: InteriorLayout,
+  pageNumber: number
+): { x: number; y: number; width: number; height: number } {
+  const isRecto = pageNumber % 2 === 1;
+  const leftMarginIn = isRecto ? layout.insideMarginIn : layout.outsideMarginIn;
+
+  return {
+    x: leftMarginIn * 72,
+    y: layout.outsideMarginIn * 72,
+    width: layout.liveWidthIn * 72,
+    height: layout.liveHeightIn * 72,
+  };
+}
+
+/**
+ * Line weight gate inputs for a project's pages: its line thickness (unset
+ * when the settings don't name a known one) and the width pages print at -
+ * the trim's live area at PRINT_DPI, as /api/image/process reframes them.
+ * Without a trim size printWidthPx is unset (full-width US Letter).
+ */
+export function getLineWeightSpec(settings: {
+  lineThickness?: string;
+  trimSize?: string;
+  pageCount?: number;
+}): { lineThickness?: LineThickness; printWidthPx?: number } {
+  const lineThickness = LINE_THICKNESSES.find((t) => t === settings.lineThickness);
+  const printWidthPx = settings.trimSize
+    ? getInteriorLayout(settings.trimSize, { pageCount: settings.pageCount ?? 1 }).artPixelWidth
+    : undefined;
+  return { lineThickness, printWidthPx };
+}
+
 /**
  * Get pixel dimensions as [width, height] tuple
  */
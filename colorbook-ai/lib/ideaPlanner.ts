@@ -164,6 +164,52 @@ export function penalizeRepeats(
   return penalty;
 }
 
+/**
+ * Add a planned page's elements to the memory
+ */
+export function rememberPage(memory: UsedElementsMemory, page: PageOutline): void {
+  memory.settings.add(page.setting.toLowerCase());
+  memory.actions.add(page.action.toLowerCase());
+  page.props.forEach(prop => memory.props.add(prop.toLowerCase()));
+  memory.compositions.add(page.compositionNotes.toLowerCase());
+}
+
+/**
+ * JSON form of UsedElementsMemory (for storing it between books of a series)
+ */
+export interface SerializedElementsMemory {
+  settings: string[];
+  props: string[];
+  actions: string[];
+  motifs: string[];
+  compositions: string[];
+}
+
+export function serializeMemory(memory: UsedElementsMemory): SerializedElementsMemory {
+  return {
+    settings: [...memory.settings],
+    props: [...memory.props],
+    actions: [...memory.actions],
+    motifs: [...memory.motifs],
+    compositions: [...memory.compositions],
+  };
+}
+
+/**
+ * Load a serialized memory, merging it into `memory` when given
+ */
+export function deserializeMemory(
+  serialized: Partial<SerializedElementsMemory>,
+  memory: UsedElementsMemory = createEmptyMemory()
+): UsedElementsMemory {
+  serialized.settings?.forEach(s => memory.settings.add(s));
+  serialized.props?.forEach(p => memory.props.add(p));
+  serialized.actions?.forEach(a => memory.actions.add(a));
+  serialized.motifs?.forEach(m => memory.motifs.add(m));
+  serialized.compositions?.forEach(c => memory.compositions.add(c));
+  return memory;
+}
+
 // ============================================================
 // FORBIDDEN GENERIC FILLERS
 // ============================================================
@@ -377,11 +377,13 @@ export async function detectArtworkBoundingBox(
  * 
  * @param imageBase64 - Source image as base64
  * @param marginPercent - Target margin percentage (default 3%)
+ * @param target - Output size (default US Letter; use getInteriorLayout() art pixels for other trims)
  * @returns Reframed image as base64
  */
 export async function reframeToLetter(
   imageBase64: string,
-  marginPercent: number = DEFAULT_MARGIN_PERCENT
+  marginPercent: number = DEFAULT_MARGIN_PERCENT,
+  target: { width: number; height: number } = { width: LETTER_WIDTH, height: LETTER_HEIGHT }
 ): Promise<ReframeResult> {
   const imageBuffer = base64ToBuffer(imageBase64);
   
@@ -415,9 +417,9 @@ export async function reframeToLetter(
     .toBuffer();
   
   // 4. Calculate target size with margin
-  const marginPixels = Math.round(Math.min(LETTER_WIDTH, LETTER_HEIGHT) * (marginPercent / 100));
-  const targetWidth = LETTER_WIDTH - (marginPixels * 2);
-  const targetHeight = LETTER_HEIGHT - (marginPixels * 2);
+  const marginPixels = Math.round(Math.min(target.width, target.height) * (marginPercent / 100));
+  const targetWidth = target.width - (marginPixels * 2);
+  const targetHeight = target.height - (marginPixels * 2);
   
   // Calculate scale to fit while preserving aspect ratio
   const scaleX = targetWidth / expandedBbox.width;
@@ -436,13 +438,13 @@ export async function reframeToLetter(
     .toBuffer();
   
   // 6. Create white background and composite
-  const offsetX = Math.round((LETTER_WIDTH - scaledWidth) / 2);
-  const offsetY = Math.round((LETTER_HEIGHT - scaledHeight) / 2);
+  const offsetX = Math.round((target.width - scaledWidth) / 2);
+  const offsetY = Math.round((target.height - scaledHeight) / 2);
   
   const finalBuffer = await sharp({
     create: {
-      width: LETTER_WIDTH,
-      height: LETTER_HEIGHT,
+      width: target.width,
+      height: target.height,
       channels: 3,
       background: { r: 255, g: 255, b: 255 },
     },
@@ -459,8 +461,8 @@ export async function reframeToLetter(
   
   return {
     imageBase64: bufferToBase64(finalBuffer),
-    width: LETTER_WIDTH,
-    height: LETTER_HEIGHT,
+    width: target.width,
+    height: target.height,
     boundingBox: expandedBbox,
     marginUsed: marginPercent,
   };
@@ -535,6 +537,9 @@ export interface ProcessPageOptions {
   marginPercent?: number;
   validateBottom?: boolean;
   retryWithSmallerMargin?: boolean;
+  /** Output size in pixels (default US Letter 2550x3300) */
+  targetWidth?: number;
+  targetHeight?: number;
 }
 
 export interface ProcessPageResult {
@@ -548,7 +553,7 @@ export interface ProcessPageResult {
 
 /**
  * Full processing pipeline for a coloring page:
- * 1. Reframe to Letter format
+ * 1. Reframe to Letter format (or targetWidth x targetHeight)
  * 2. Validate bottom fill
  * 3. Optionally retry with smaller margin if bottom is empty
  */
@@ -560,25 +565,28 @@ export async function processPageToLetter(
     marginPercent = DEFAULT_MARGIN_PERCENT,
     validateBottom = true,
     retryWithSmallerMargin = true,
+    targetWidth = LETTER_WIDTH,
+    targetHeight = LETTER_HEIGHT,
   } = options;
+  const target = { width: targetWidth, height: targetHeight };
   
   // First attempt
-  let result = await reframeToLetter(imageBase64, marginPercent);
+  let result = await reframeToLetter(imageBase64, marginPercent, target);
   let validation = await validateBottomFill(result.imageBase64);
   let wasRetried = false;
   
   // If bottom is empty and retry is enabled, try with smaller margin
   if (validateBottom && validation.hasEmptyBottom && retryWithSmallerMargin) {
     const smallerMargin = MIN_MARGIN_PERCENT;
-    result = await reframeToLetter(imageBase64, smallerMargin);
+    result = await reframeToLetter(imageBase64, smallerMargin, target);
     validation = await validateBottomFill(result.imageBase64);
     wasRetried = true;
   }
   
   return {
     finalLetterBase64: result.imageBase64,
-    width: LETTER_WIDTH,
-    height: LETTER_HEIGHT,
+    width: targetWidth,
+    height: targetHeight,
     validation,
     marginUsed: result.marginUsed,
     wasRetried,
@@ -774,7 +782,8 @@ export interface SmartCropResult {
 }
 
 /**
- * Smart content-aware crop and scale to US Letter.
+ * Smart content-aware crop and scale to US Letter
+ * (or any targetWidth x targetHeight, e.g. a trim size's live area).
  * 
  * Process:
  * 1. Detect artwork bounding box (non-white pixels)
@@ -918,6 +927,9 @@ export async function smartCropToLetter(
 export interface ProductionPipelineOptions {
   complexity?: string;
   landscape?: boolean;
+  /** Output size in pixels (default US Letter 2550x3300) */
+  targetWidth?: number;
+  targetHeight?: number;
   validateQuality?: boolean;
   autoRetryOnFail?: boolean;
 }
@@ -952,6 +964,8 @@ export async function processToProductionPNG(
   
   // 1. Smart crop and scale to US Letter
   const cropResult = await smartCropToLetter(imageBase64, {
+    targetWidth: options.targetWidth,
+    targetHeight: options.targetHeight,
     landscape,
     minMargin: MIN_MARGIN_PERCENT,
     maxMargin: MAX_MARGIN_PERCENT,
@@ -0,0 +1,151 @@
+/**
+ * KDP Paperback Cover Geometry
+ *
+ * Full-wrap cover dimensions per Amazon KDP's paperback cover formula:
+ *   width  = bleed + back + spine + front + bleed
+ *   height = bleed + trim height + bleed
+ * where spine = page count × paper thickness (black ink interior).
+ *
+ * Pure math - safe to import from client components.
+ */
+
+import { TRIM_SIZES_IN, normalizeTrimSize } from "@/lib/generationSpec";
+
+export type PaperType = "white" | "cream";
+
+// ============================================================
+// KDP CONSTANTS (inches)
+// ============================================================
+
+/** Spine width added per interior page */
+export const SPINE_INCHES_PER_PAGE: Record<PaperType, number> = {
+  white: 0.002252,
+  cream: 0.0025,
+};
+
+/** Bleed on every outer edge of the wrap */
+export const COVER_BLEED_IN = 0.125;
+
+/** Keep text and important art this far inside the trim line */
+export const COVER_SAFE_MARGIN_IN = 0.25;
+
+/** Keep spine text this far from each spine fold */
+export const SPINE_TEXT_MARGIN_IN = 0.0625;
+
+/** Barcode area KDP prints on the back cover (lower right) */
+export const BARCODE_WIDTH_IN = 2;
+export const BARCODE_HEIGHT_IN = 1.2;
+
+/** KDP only allows spine text above this many pages */
+export const MIN_PAGES_FOR_SPINE_TEXT = 80;
+
+/** Paperback page count limits (black ink interior) */
+export const KDP_MIN_PAGES = 24;
+export const KDP_MAX_PAGES: Record<PaperType, number> = {
+  white: 828,
+  cream: 776,
+};
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/** A rectangle on the cover, in inches from the bottom-left corner (PDF origin) */
+export interface CoverRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CoverDimensions {
+  trimSize: string;
+  pageCount: number;
+  paperType: PaperType;
+  trimWidthIn: number;
+  trimHeightIn: number;
+  spineWidthIn: number;
+  bleedIn: number;
+  /** Full wrap including bleed */
+  fullWidthIn: number;
+  fullHeightIn: number;
+  spineTextAllowed: boolean;
+  /** Panels include their outer bleed; the spine is exactly the fold-to-fold width */
+  panels: {
+    back: CoverRect;
+    spine: CoverRect;
+    front: CoverRect;
+  };
+  /** Where KDP prints the barcode - keep it empty */
+  barcodeZone: CoverRect;
+}
+
+// ============================================================
+// CALCULATION
+// ============================================================
+
+/**
+ * Spine width in inches for a page count and paper type
+ */
+export function calculateSpineWidth(pageCount: number, paperType: PaperType): number {
+  return roundInches(pageCount * SPINE_INCHES_PER_PAGE[paperType]);
+}
+
+/**
+ * Full-wrap cover dimensions and panel layout.
+ * Throws for unknown trim sizes and page counts outside KDP's limits.
+ */
+export function calculateCoverDimensions(params: {
+  trimSize: string;
+  pageCount: number;
+  paperType: PaperType;
+}): CoverDimensions {
+  const trimSize = normalizeTrimSize(params.trimSize);
+  const trim = TRIM_SIZES_IN[trimSize];
+  if (!trim) {
+    throw new Error(`Unsupported trim size: ${params.trimSize}`);
+  }
+
+  const { pageCount, paperType } = params;
+  const maxPages = KDP_MAX_PAGES[paperType];
+  if (pageCount < KDP_MIN_PAGES || pageCount > maxPages) {
+    throw new Error(`KDP paperbacks need ${KDP_MIN_PAGES}-${maxPages} pages on ${paperType} paper (got ${pageCount})`);
+  }
+
+  const bleedIn = COVER_BLEED_IN;
+  const spineWidthIn = calculateSpineWidth(pageCount, paperType);
+  const fullWidthIn = roundInches(bleedIn * 2 + trim.widthIn * 2 + spineWidthIn);
+  const fullHeightIn = roundInches(bleedIn * 2 + trim.heightIn);
+
+  const backWidth = bleedIn + trim.widthIn;
+  const back: CoverRect = { x: 0, y: 0, width: backWidth, height: fullHeightIn };
+  const spine: CoverRect = { x: backWidth, y: 0, width: spineWidthIn, height: fullHeightIn };
+  const front: CoverRect = { x: backWidth + spineWidthIn, y: 0, width: backWidth, height: fullHeightIn };
+
+  // Lower right of the back cover, inside the safe margin
+  const barcodeZone: CoverRect = {
+    x: backWidth - COVER_SAFE_MARGIN_IN - BARCODE_WIDTH_IN,
+    y: bleedIn + COVER_SAFE_MARGIN_IN,
+    width: BARCODE_WIDTH_IN,
+    height: BARCODE_HEIGHT_IN,
+  };
+
+  return {
+    trimSize,
+    pageCount,
+    paperType,
+    trimWidthIn: trim.widthIn,
+    trimHeightIn: trim.heightIn,
+    spineWidthIn,
+    bleedIn,
+    fullWidthIn,
+    fullHeightIn,
+    spineTextAllowed: pageCount >= MIN_PAGES_FOR_SPINE_TEXT,
+    panels: { back, spine, front },
+    barcodeZone,
+  };
+}
+
+function roundInches(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,358 @@
+/**
+ * KDP Cover PDF Builder
+ *
+ * Composes a single print-ready full-wrap paperback cover:
+ *   back cover (blurb + empty barcode zone) | spine (title text) | front (art + title)
+ *
+ * Geometry comes from lib/kdpCover.ts; text is pdf-lib vector text so it
+ * stays sharp at any print resolution.
+ */
+
+import "server-only";
+import sharp from "sharp";
+import { PDFDocument, StandardFonts, degrees, rgb, type PDFFont, type PDFPage, type RGB } from "pdf-lib";
+import {
+  COVER_SAFE_MARGIN_IN,
+  MIN_PAGES_FOR_SPINE_TEXT,
+  SPINE_TEXT_MARGIN_IN,
+  type CoverDimensions,
+  type CoverRect,
+} from "@/lib/kdpCover";
+
+const POINTS_PER_INCH = 72;
+
+export interface CoverPdfInput {
+  dimensions: CoverDimensions;
+  /** Front art (PNG/JPEG bytes) - cropped to fill the front panel */
+  frontImage: Buffer;
+  title: string;
+  subtitle?: string;
+  authorName?: string;
+  /** Back-cover description */
+  blurb?: string;
+  /** Defaults to the title; only drawn when the page count allows spine text */
+  spineText?: string;
+  /** Hex color for the back cover and spine, e.g. "#1e293b" */
+  backgroundColor?: string;
+  /** Draw trim, fold and barcode guides (proofing only - never upload to KDP) */
+  showGuides?: boolean;
+}
+
+export interface CoverPdfResult {
+  pdfBytes: Uint8Array;
+  widthPt: number;
+  heightPt: number;
+  spineTextDrawn: boolean;
+  warnings: string[];
+}
+
+/**
+ * Build the full-wrap cover PDF
+ */
+export async function buildCoverPdf(input: CoverPdfInput): Promise<CoverPdfResult> {
+  const { dimensions } = input;
+  const warnings: string[] = [];
+
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle(`${input.title} - Cover`);
+
+  const widthPt = pt(dimensions.fullWidthIn);
+  const heightPt = pt(dimensions.fullHeightIn);
+  const page = pdfDoc.addPage([widthPt, heightPt]);
+
+  const titleFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const bodyFont = await pdfDoc.embedFont(StandardFonts.Helvetica);
+
+  const background = parseHexColor(input.backgroundColor) ?? rgb(0.12, 0.16, 0.23);
+  const textColor = isDark(background) ? rgb(1, 1, 1) : rgb(0.1, 0.1, 0.1);
+
+  // Back + spine background (the front is covered by art)
+  page.drawRectangle({ x: 0, y: 0, width: widthPt, height: heightPt, color: background });
+
+  // ========================================
+  // FRONT COVER
+  // ========================================
+  const front = dimensions.panels.front;
+  const frontArt = await cropToAspect(input.frontImage, front.width / front.height);
+  const embedded = await pdfDoc.embedPng(frontArt.png);
+  page.drawImage(embedded, {
+    x: pt(front.x),
+    y: pt(front.y),
+    width: pt(front.width),
+    height: pt(front.height),
+  });
+
+  const frontEffectiveDpi = Math.round(frontArt.width / front.width);
+  if (frontEffectiveDpi < 300) {
+    warnings.push(`Front art is ${frontEffectiveDpi} DPI at print size (KDP recommends 300)`);
+  }
+
+  // Title band inside the front safe area
+  const frontSafe = safeArea(front, dimensions, "front");
+  const titleLines = fitText(sanitizeText(input.title), titleFont, pt(frontSafe.width) - 24, 54, 2);
+  const subtitleLines = input.subtitle
+    ? fitText(sanitizeText(input.subtitle), bodyFont, pt(frontSafe.width) - 24, 20, 2)
+    : null;
+
+  const bandHeight =
+    titleLines.lines.length * titleLines.size * 1.15 +
+    (subtitleLines ? subtitleLines.lines.length * subtitleLines.size * 1.3 + 6 : 0) +
+    24;
+  const bandTop = pt(frontSafe.y + frontSafe.height);
+  page.drawRectangle({
+    x: pt(frontSafe.x),
+    y: bandTop - bandHeight,
+    width: pt(frontSafe.width),
+    height: bandHeight,
+    color: rgb(1, 1, 1),
+    opacity: 0.88,
+  });
+
+  let cursorY = bandTop - 12 - titleLines.size;
+  for (const line of titleLines.lines) {
+    drawCentered(page, line, titleFont, titleLines.size, pt(frontSafe.x), pt(frontSafe.width), cursorY, rgb(0, 0, 0));
+    cursorY -= titleLines.size * 1.15;
+  }
+  if (subtitleLines) {
+    cursorY -= 6;
+    for (const line of subtitleLines.lines) {
+      drawCentered(page, line, bodyFont, subtitleLines.size, pt(frontSafe.x), pt(frontSafe.width), cursorY + subtitleLines.size * 0.15, rgb(0.2, 0.2, 0.2));
+      cursorY -= subtitleLines.size * 1.3;
+    }
+  }
+
+  if (input.authorName) {
+    const author = fitText(sanitizeText(input.authorName), bodyFont, pt(frontSafe.width) - 24, 22, 1);
+    const authorHeight = author.size + 16;
+    page.drawRectangle({
+      x: pt(frontSafe.x),
+      y: pt(frontSafe.y),
+      width: pt(frontSafe.width),
+      height: authorHeight,
+      color: rgb(1, 1, 1),
+      opacity: 0.88,
+    });
+    drawCentered(page, author.lines[0], bodyFont, author.size, pt(frontSafe.x), pt(frontSafe.width), pt(frontSafe.y) + 8 + author.size * 0.2, rgb(0.1, 0.1, 0.1));
+  }
+
+  // ========================================
+  // SPINE
+  // ========================================
+  let spineTextDrawn = false;
+  const spineText = sanitizeText(input.spineText || input.title);
+  if (dimensions.spineTextAllowed && spineText) {
+    const spine = dimensions.panels.spine;
+    const spineWidthPt = pt(spine.width - SPINE_TEXT_MARGIN_IN * 2);
+    const spineLengthPt = pt(dimensions.trimHeightIn - COVER_SAFE_MARGIN_IN * 2);
+    const size = Math.min(spineWidthPt * 0.7, 24);
+    const spineLine = fitText(spineText, titleFont, spineLengthPt, size, 1);
+
+    // Reads top to bottom (US convention): rotate -90° around the text origin
+    const textWidth = titleFont.widthOfTextAtSize(spineLine.lines[0], spineLine.size);
+    const centerX = pt(spine.x + spine.width / 2);
+    page.drawText(spineLine.lines[0], {
+      x: centerX - spineLine.size * 0.35,
+      y: heightPt / 2 + textWidth / 2,
+      size: spineLine.size,
+      font: titleFont,
+      color: textColor,
+      rotate: degrees(-90),
+    });
+    spineTextDrawn = true;
+  } else if (input.spineText && !dimensions.spineTextAllowed) {
+    warnings.push(`Spine text skipped: KDP requires at least ${MIN_PAGES_FOR_SPINE_TEXT} pages (got ${dimensions.pageCount})`);
+  }
+
+  // ========================================
+  // BACK COVER
+  // ========================================
+  const back = dimensions.panels.back;
+  const backSafe = safeArea(back, dimensions, "back");
+  const barcode = dimensions.barcodeZone;
+
+  if (input.blurb) {
+    const blurbSize = 13;
+    const lineHeight = blurbSize * 1.45;
+    const paragraphs = sanitizeText(input.blurb).split(/\n+/);
+    let y = pt(backSafe.y + backSafe.height) - blurbSize;
+    // Text must stay above the barcode zone
+    const minY = pt(barcode.y + barcode.height) + 18;
+    let truncated = false;
+
+    for (const paragraph of paragraphs) {
+      for (const line of wrapText(paragraph, bodyFont, blurbSize, pt(backSafe.width))) {
+        if (y < minY) {
+          truncated = true;
+          break;
+        }
+        page.drawText(line, { x: pt(backSafe.x), y, size: blurbSize, font: bodyFont, color: textColor });
+        y -= lineHeight;
+      }
+      if (truncated) break;
+      y -= lineHeight * 0.5;
+    }
+
+    if (truncated) {
+      warnings.push("Back-cover blurb was too long and has been truncated");
+    }
+  }
+
+  // KDP prints the barcode here - keep it white and empty
+  page.drawRectangle({
+    x: pt(barcode.x),
+    y: pt(barcode.y),
+    width: pt(barcode.width),
+    height: pt(barcode.height),
+    color: rgb(1, 1, 1),
+  });
+
+  if (input.showGuides) {
+    drawGuides(page, dimensions);
+  }
+
+  const pdfBytes = await pdfDoc.save();
+  return { pdfBytes, widthPt, heightPt, spineTextDrawn, warnings };
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function pt(inches: number): number {
+  return inches * POINTS_PER_INCH;
+}
+
+/**
+ * Trim-safe area of a front/back panel (panels include their outer bleed)
+ */
+function safeArea(panel: CoverRect, dimensions: CoverDimensions, side: "front" | "back"): CoverRect {
+  const { bleedIn } = dimensions;
+  const outerInset = bleedIn + COVER_SAFE_MARGIN_IN;
+  return {
+    x: panel.x + (side === "back" ? outerInset : COVER_SAFE_MARGIN_IN),
+    y: panel.y + outerInset,
+    width: panel.width - outerInset - COVER_SAFE_MARGIN_IN,
+    height: panel.height - outerInset * 2,
+  };
+}
+
+/**
+ * Center-crop an image to the panel's aspect ratio (output PNG)
+ */
+async function cropToAspect(image: Buffer, aspect: number): Promise<{ png: Buffer; width: number }> {
+  const meta = await sharp(image).metadata();
+  const srcW = meta.width ?? 1024;
+  const srcH = meta.height ?? 1536;
+
+  const width = srcW / srcH > aspect ? Math.round(srcH * aspect) : srcW;
+  const height = Math.round(width / aspect);
+
+  const png = await sharp(image)
+    .resize(width, height, { fit: "cover", position: "centre" })
+    .flatten({ background: "#ffffff" })
+    .png()
+    .toBuffer();
+
+  return { png, width };
+}
+
+/**
+ * Shrink font size until the text fits in maxLines lines
+ */
+function fitText(
+  text: string,
+  font: PDFFont,
+  maxWidth: number,
+  maxSize: number,
+  maxLines: number
+): { lines: string[]; size: number } {
+  for (let size = maxSize; size > 8; size -= 2) {
+    const lines = wrapText(text, font, size, maxWidth);
+    if (lines.length <= maxLines) return { lines, size };
+  }
+  return { lines: wrapText(text, font, 8, maxWidth).slice(0, maxLines), size: 8 };
+}
+
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+function drawCentered(
+  page: PDFPage,
+  text: string,
+  font: PDFFont,
+  size: number,
+  areaX: number,
+  areaWidth: number,
+  y: number,
+  color: RGB
+): void {
+  const width = font.widthOfTextAtSize(text, size);
+  page.drawText(text, { x: areaX + (areaWidth - width) / 2, y, size, font, color });
+}
+
+function drawGuides(page: PDFPage, dimensions: CoverDimensions): void {
+  const guide = { thickness: 0.5, color: rgb(1, 0, 1) };
+  const { bleedIn, panels, barcodeZone, fullWidthIn, fullHeightIn } = dimensions;
+
+  // Trim box
+  page.drawRectangle({
+    x: pt(bleedIn),
+    y: pt(bleedIn),
+    width: pt(fullWidthIn - bleedIn * 2),
+    height: pt(fullHeightIn - bleedIn * 2),
+    borderColor: guide.color,
+    borderWidth: guide.thickness,
+  });
+
+  // Spine folds
+  for (const x of [panels.spine.x, panels.spine.x + panels.spine.width]) {
+    page.drawLine({ start: { x: pt(x), y: 0 }, end: { x: pt(x), y: pt(fullHeightIn) }, ...guide });
+  }
+
+  page.drawRectangle({
+    x: pt(barcodeZone.x),
+    y: pt(barcodeZone.y),
+    width: pt(barcodeZone.width),
+    height: pt(barcodeZone.height),
+    borderColor: guide.color,
+    borderWidth: guide.thickness,
+  });
+}
+
+/**
+ * Standard PDF fonts only encode WinAnsi - map common typography and drop the rest
+ */
+function sanitizeText(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/…/g, "...")
+    .replace(/[^\n\x20-\x7E\xA0-\xFF]/g, "")
+    .trim();
+}
+
+function parseHexColor(hex?: string): RGB | null {
+  const match = hex?.match(/^#?([0-9a-f]{6})$/i);
+  if (!match) return null;
+  const value = parseInt(match[1], 16);
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255);
+}
+
+function isDark(color: RGB): boolean {
+  return 0.299 * color.red + 0.587 * color.green + 0.114 * color.blue < 0.55;
+}
@@ -0,0 +1,950 @@
+/**
+ * KDP Interior Preflight
+ *
+ * Inspects an interior PDF - or a project's page images before the PDF is
+ * built - for the problems Amazon KDP's print review rejects or flags:
+ * - page size vs the declared trim size (with or without bleed)
+ * - artwork inside the margin or gutter zone
+ * - effective image resolution below 300 DPI
+ * - page count below 24, or odd
+ * - fonts that are not embedded
+ * - gray or color pixels on a black & white interior
+ * - blank pages
+ * - page images that could not be loaded (page image source only)
+ *
+ * PDFs are read with pdf-lib: content streams are walked for image
+ * placements (to get the drawn size and position of every image), and
+ * images pdf-lib itself writes (Flate RGB/gray, JPEG) are decoded with sharp.
+ */
+
+import "server-only";
+import sharp from "sharp";
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  decodePDFRawStream,
+  type PDFContext,
+} from "pdf-lib";
+import {
+  PRINT_DPI,
+  getInteriorLayout,
+  getLiveAreaPt,
+  type InteriorLayout,
+} from "@/lib/generationSpec";
+import { KDP_MAX_PAGES, KDP_MIN_PAGES } from "@/lib/kdpCover";
+import { WHITE_THRESHOLD, detectArtworkBoundingBox } from "@/lib/imageProcessing";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type PreflightStatus = "pass" | "warning" | "error";
+
+export type PreflightCheckId =
+  | "page_size"
+  | "margins"
+  | "resolution"
+  | "page_count"
+  | "fonts"
+  | "color"
+  | "blank_pages"
+  | "missing_pages";
+
+export interface PreflightCheck {
+  id: PreflightCheckId;
+  label: string;
+  status: PreflightStatus;
+  message: string;
+  /** 1-based page numbers the check failed on */
+  pages?: number[];
+}
+
+export interface PreflightReport {
+  source: "pdf" | "assets";
+  trimSize: string;
+  bleed: boolean;
+  pageCount: number;
+  checks: PreflightCheck[];
+  errorCount: number;
+  warningCount: number;
+  /** No errors (warnings are allowed) */
+  passed: boolean;
+  checkedAt: string;
+}
+
+export interface PreflightOptions {
+  /** Declared trim size (defaults to 8.5x11) */
+  trimSize?: string;
+  /** Declared bleed; inferred from the first page's size when omitted */
+  bleed?: boolean;
+}
+
+// ============================================================
+// THRESHOLDS
+// ============================================================
+
+/** Slack for page sizes and margin edges, in points */
+const TOLERANCE_PT = 1;
+
+/** RGB channel spread above which a pixel counts as color */
+const COLOR_SPREAD = 24;
+
+/** Share of all pixels that may be colored before the page is flagged */
+const COLOR_PIXEL_LIMIT = 0.001;
+
+/** Pixels darker than this are black ink; between this and white is gray */
+const BLACK_LEVEL = 80;
+
+/** Share of ink pixels that may be gray (anti-aliased edges) before warning */
+const GRAY_SHARE_LIMIT = 0.4;
+
+/** Pages with less ink than this are blank */
+const BLANK_INK_RATIO = 0.0005;
+
+/** Longest run of blank pages KDP's review accepts inside the book / at the end */
+const MAX_CONSECUTIVE_BLANK = 2;
+const MAX_TRAILING_BLANK = 4;
+
+/** Fonts PDF readers supply themselves - often accepted by KDP unembedded */
+const STANDARD_14_FONTS = new Set([
+  "Courier", "Courier-Bold", "Courier-Oblique", "Courier-BoldOblique",
+  "Helvetica", "Helvetica-Bold", "Helvetica-Oblique", "Helvetica-BoldOblique",
+  "Times-Roman", "Times-Bold", "Times-Italic", "Times-BoldItalic",
+  "Symbol", "ZapfDingbats",
+]);
+
+const CHECK_LABELS: Record<PreflightCheckId, string> = {
+  page_size: "Page size matches trim",
+  margins: "Artwork inside margins and gutter",
+  resolution: `Images at ${PRINT_DPI} DPI or higher`,
+  page_count: "Page count",
+  fonts: "Fonts embedded",
+  color: "Black & white interior",
+  blank_pages: "Blank pages",
+  missing_pages: "Page images available",
+};
+
+// ============================================================
+// INTERNAL MODEL
+// ============================================================
+
+/** PDF transformation matrix [a b c d e f] */
+type Matrix = [number, number, number, number, number, number];
+
+interface RasterStats {
+  width: number;
+  height: number;
+  /** Ink bounding box in image pixels (top-left origin), null when blank */
+  inkBox: { left: number; top: number; right: number; bottom: number } | null;
+  inkRatio: number;
+  /** Gray pixels as a share of ink pixels */
+  grayShare: number;
+  /** Colored pixels as a share of all pixels */
+  colorRatio: number;
+}
+
+interface PlacedImage {
+  pixelWidth: number;
+  pixelHeight: number;
+  /** Maps the unit square onto the page */
+  ctm: Matrix;
+  /** Null when the image encoding can't be decoded */
+  stats: RasterStats | null;
+}
+
+interface InspectedPage {
+  pageNumber: number;
+  widthPt: number;
+  heightPt: number;
+  hasText: boolean;
+  hasVector: boolean;
+  images: PlacedImage[];
+}
+
+interface FontInfo {
+  name: string;
+  embedded: boolean;
+}
+
+// ============================================================
+// ENTRY POINTS
+// ============================================================
+
+/**
+ * Preflight a built interior PDF
+ */
+export async function preflightPdf(
+  pdfBytes: Uint8Array,
+  options: PreflightOptions = {}
+): Promise<PreflightReport> {
+  const pdfDoc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+  const fonts = new Map<string, FontInfo>();
+  const rasterCache = new Map<PDFRawStream, Promise<RasterStats | null>>();
+  const pages: InspectedPage[] = [];
+
+  const pdfPages = pdfDoc.getPages();
+  for (let i = 0; i < pdfPages.length; i++) {
+    const page = pdfPages[i];
+    const { width, height } = page.getSize();
+    const inspected: InspectedPage = {
+      pageNumber: i + 1,
+      widthPt: width,
+      heightPt: height,
+      hasText: false,
+      hasVector: false,
+      images: [],
+    };
+
+    const content = readPageContent(pdfDoc.context, page.node.Contents());
+    const resources = page.node.Resources();
+    const placements: Array<{ stream: PDFRawStream; ctm: Matrix }> = [];
+    walkContent(pdfDoc.context, content, resources, [1, 0, 0, 1, 0, 0], inspected, placements, fonts, 0);
+
+    for (const { stream, ctm } of placements) {
+      let stats = rasterCache.get(stream);
+      if (!stats) {
+        stats = decodePdfImage(pdfDoc.context, stream).catch(() => null);
+        rasterCache.set(stream, stats);
+      }
+      inspected.images.push({
+        pixelWidth: numberEntry(stream.dict, "Width"),
+        pixelHeight: numberEntry(stream.dict, "Height"),
+        ctm,
+        stats: await stats,
+      });
+    }
+
+    pages.push(inspected);
+  }
+
+  const bleed = options.bleed ?? inferBleed(options.trimSize, pages[0]);
+  const layout = getInteriorLayout(options.trimSize, { pageCount: pages.length, bleed });
+
+  return buildReport("pdf", layout, pages.length, [
+    checkPageSize(layout, pages),
+    checkMargins(layout, pages),
+    checkResolution(pages),
+    checkPageCount(pages.length),
+    checkFonts([...fonts.values()]),
+    checkColor(pages),
+    checkBlankPages(pages),
+  ]);
+}
+
+/**
+ * Preflight a project's page images as build-pdf would lay them out:
+ * each image scaled to fit the live area of its page, after the front matter.
+ * A null image is a page that could not be loaded: it still counts as a page
+ * and is reported as missing.
+ */
+export async function preflightPageImages(
+  images: (Buffer | null)[],
+  options: PreflightOptions & { frontMatterPages?: number } = {}
+): Promise<PreflightReport> {
+  const frontMatterPages = options.frontMatterPages ?? 0;
+  const pageCount = frontMatterPages + images.length;
+  const layout = getInteriorLayout(options.trimSize, { pageCount, bleed: options.bleed });
+  const pages: InspectedPage[] = [];
+
+  for (let i = 0; i < images.length; i++) {
+    const pageNumber = frontMatterPages + i + 1;
+    const image = images[i];
+    const stats = image ? await analyzeRaster(image).catch(() => null) : null;
+    const inspected: InspectedPage = {
+      pageNumber,
+      widthPt: layout.pageWidthPt,
+      heightPt: layout.pageHeightPt,
+      hasText: false,
+      hasVector: false,
+      images: [],
+    };
+
+    if (stats) {
+      const live = getLiveAreaPt(layout, pageNumber);
+      const scale = Math.min(live.width / stats.width, live.height / stats.height);
+      const w = stats.width * scale;
+      const h = stats.height * scale;
+      inspected.images.push({
+        pixelWidth: stats.width,
+        pixelHeight: stats.height,
+        ctm: [w, 0, 0, h, live.x + (live.width - w) / 2, live.y + (live.height - h) / 2],
+        stats,
+      });
+    } else {
+      // Unreadable or missing image: keep the page non-blank and report it
+      // under color (missing pages also fail checkMissingPages)
+      inspected.images.push({ pixelWidth: 0, pixelHeight: 0, ctm: [0, 0, 0, 0, 0, 0], stats: null });
+    }
+
+    pages.push(inspected);
+  }
+
+  const notApplicable = "Checked on the built PDF - run preflight on the export";
+
+  return buildReport("assets", layout, pageCount, [
+    { id: "page_size", label: CHECK_LABELS.page_size, status: "pass", message: notApplicable },
+    checkMargins(layout, pages),
+    checkResolution(pages),
+    checkPageCount(pageCount),
+    { id: "fonts", label: CHECK_LABELS.fonts, status: "pass", message: notApplicable },
+    checkColor(pages),
+    checkBlankPages(pages),
+    checkMissingPages(images.flatMap((image, i) => (image ? [] : [frontMatterPages + i + 1]))),
+  ]);
+}
+
+function buildReport(
+  source: PreflightReport["source"],
+  layout: InteriorLayout,
+  pageCount: number,
+  checks: PreflightCheck[]
+): PreflightReport {
+  const errorCount = checks.filter((c) => c.status === "error").length;
+  const warningCount = checks.filter((c) => c.status === "warning").length;
+
+  return {
+    source,
+    trimSize: layout.trimSize,
+    bleed: layout.bleed,
+    pageCount,
+    checks,
+    errorCount,
+    warningCount,
+    passed: errorCount === 0,
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+// ============================================================
+// CHECKS
+// ============================================================
+
+function checkPageSize(layout: InteriorLayout, pages: InspectedPage[]): PreflightCheck {
+  const expected = `${formatInches(layout.pageWidthIn)}" × ${formatInches(layout.pageHeightIn)}"`;
+  const declared = `${layout.trimSize}${layout.bleed ? " with bleed" : ""}`;
+  const wrong = pages.filter(
+    (p) =>
+      Math.abs(p.widthPt - layout.pageWidthPt) > TOLERANCE_PT ||
+      Math.abs(p.heightPt - layout.pageHeightPt) > TOLERANCE_PT
+  );
+
+  if (wrong.length === 0) {
+    return { id: "page_size", label: CHECK_LABELS.page_size, status: "pass", message: `All pages are ${expected} (${declared})` };
+  }
+
+  const first = wrong[0];
+  return {
+    id: "page_size",
+    label: CHECK_LABELS.page_size,
+    status: "error",
+    message: `${wrong.length} page(s) differ from ${expected} (${declared}) - e.g. page ${first.pageNumber} is ${formatInches(first.widthPt / 72)}" × ${formatInches(first.heightPt / 72)}"`,
+    pages: wrong.map((p) => p.pageNumber),
+  };
+}
+
+/**
+ * Ink must stay inside the live area. With bleed, art that runs off the
+ * top, bottom or outside edge is intentional; the gutter side never bleeds.
+ */
+function checkMargins(layout: InteriorLayout, pages: InspectedPage[]): PreflightCheck {
+  const flagged: number[] = [];
+  const gutterPages: number[] = [];
+
+  for (const page of pages) {
+    const live = getLiveAreaPt(layout, page.pageNumber);
+    const isRecto = page.pageNumber % 2 === 1;
+
+    for (const image of page.images) {
+      const ink = getInkBoxPt(image);
+      if (!ink) continue;
+
+      const right = ink.x + ink.width;
+      const top = ink.y + ink.height;
+      const outLeft = ink.x < live.x - TOLERANCE_PT;
+      const outRight = right > live.x + live.width + TOLERANCE_PT;
+      const outBottom = ink.y < live.y - TOLERANCE_PT;
+      const outTop = top > live.y + live.height + TOLERANCE_PT;
+
+      // Art that reaches the trimmed-off edge is full bleed, not a margin problem
+      const reachesEdge = {
+        left: ink.x <= TOLERANCE_PT,
+        right: right >= page.widthPt - TOLERANCE_PT,
+        bottom: ink.y <= TOLERANCE_PT,
+        top: top >= page.heightPt - TOLERANCE_PT,
+      };
+      const allowed = (out: boolean, edge: boolean) => !out || (layout.bleed && edge);
+
+      const inGutter = isRecto ? outLeft : outRight;
+      const outsideOk = isRecto
+        ? allowed(outRight, reachesEdge.right)
+        : allowed(outLeft, reachesEdge.left);
+      const outsideViolation =
+        !outsideOk || !allowed(outBottom, reachesEdge.bottom) || !allowed(outTop, reachesEdge.top);
+
+      if (inGutter) gutterPages.push(page.pageNumber);
+      if (inGutter || outsideViolation) {
+        flagged.push(page.pageNumber);
+        break;
+      }
+    }
+  }
+
+  if (flagged.length === 0) {
+    return {
+      id: "margins",
+      label: CHECK_LABELS.margins,
+      status: "pass",
+      message: `Artwork clears the ${layout.outsideMarginIn}" margins and ${layout.insideMarginIn}" gutter`,
+    };
+  }
+
+  return {
+    id: "margins",
+    label: CHECK_LABELS.margins,
+    status: "error",
+    message: `${flagged.length} page(s) have artwork in the margin zone${gutterPages.length > 0 ? ` (${gutterPages.length} in the ${layout.insideMarginIn}" gutter)` : ""}`,
+    pages: flagged,
+  };
+}
+
+function checkResolution(pages: InspectedPage[]): PreflightCheck {
+  const lowPages: number[] = [];
+  let lowest = Infinity;
+
+  for (const page of pages) {
+    for (const image of page.images) {
+      const dpi = getEffectiveDpi(image);
+      if (dpi === null) continue;
+      lowest = Math.min(lowest, dpi);
+      if (dpi < PRINT_DPI && !lowPages.includes(page.pageNumber)) {
+        lowPages.push(page.pageNumber);
+      }
+    }
+  }
+
+  if (lowest === Infinity) {
+    return { id: "resolution", label: CHECK_LABELS.resolution, status: "pass", message: "No images to check" };
+  }
+  if (lowPages.length === 0) {
+    return { id: "resolution", label: CHECK_LABELS.resolution, status: "pass", message: `Lowest effective resolution is ${Math.round(lowest)} DPI` };
+  }
+
+  return {
+    id: "resolution",
+    label: CHECK_LABELS.resolution,
+    status: "error",
+    message: `${lowPages.length} page(s) print below ${PRINT_DPI} DPI (lowest ${Math.round(lowest)} DPI) - process pages for print to upscale them`,
+    pages: lowPages,
+  };
+}
+
+function checkPageCount(pageCount: number): PreflightCheck {
+  const base = { id: "page_count" as const, label: CHECK_LABELS.page_count };
+
+  if (pageCount < KDP_MIN_PAGES) {
+    return { ...base, status: "error", message: `${pageCount} pages - KDP paperbacks need at least ${KDP_MIN_PAGES}` };
+  }
+  if (pageCount > KDP_MAX_PAGES.white) {
+    return { ...base, status: "error", message: `${pageCount} pages - KDP paperbacks allow at most ${KDP_MAX_PAGES.white}` };
+  }
+  if (pageCount % 2 === 1) {
+    return { ...base, status: "warning", message: `${pageCount} pages - an odd count gets a blank page added at the end` };
+  }
+  return { ...base, status: "pass", message: `${pageCount} pages` };
+}
+
+function checkMissingPages(missing: number[]): PreflightCheck {
+  const base = { id: "missing_pages" as const, label: CHECK_LABELS.missing_pages };
+
+  if (missing.length === 0) {
+    return { ...base, status: "pass", message: "Every page image loaded" };
+  }
+  return {
+    ...base,
+    status: "error",
+    message: `${missing.length} page image(s) could not be loaded - the other checks did not see them`,
+    pages: missing,
+  };
+}
+
+function checkFonts(fonts: FontInfo[]): PreflightCheck {
+  const missing = fonts.filter((f) => !f.embedded);
+  const base = { id: "fonts" as const, label: CHECK_LABELS.fonts };
+
+  if (missing.length === 0) {
+    return { ...base, status: "pass", message: fonts.length > 0 ? `${fonts.length} font(s), all embedded` : "No fonts used" };
+  }
+
+  const nonStandard = missing.filter((f) => !STANDARD_14_FONTS.has(f.name));
+  if (nonStandard.length > 0) {
+    return { ...base, status: "error", message: `Not embedded: ${nonStandard.map((f) => f.name).join(", ")}` };
+  }
+  return {
+    ...base,
+    status: "warning",
+    message: `Standard fonts not embedded (${missing.map((f) => f.name).join(", ")}) - KDP may substitute them`,
+  };
+}
+
+function checkColor(pages: InspectedPage[]): PreflightCheck {
+  const colorPages: number[] = [];
+  const grayPages: number[] = [];
+  const unreadablePages: number[] = [];
+
+  for (const page of pages) {
+    const images = page.images;
+    if (images.some((img) => !img.stats)) unreadablePages.push(page.pageNumber);
+    if (images.some((img) => img.stats && img.stats.colorRatio > COLOR_PIXEL_LIMIT)) {
+      colorPages.push(page.pageNumber);
+    } else if (images.some((img) => img.stats && img.stats.grayShare > GRAY_SHARE_LIMIT)) {
+      grayPages.push(page.pageNumber);
+    }
+  }
+
+  const base = { id: "color" as const, label: CHECK_LABELS.color };
+
+  if (colorPages.length > 0) {
+    return { ...base, status: "error", message: `${colorPages.length} page(s) contain color - they will print in grayscale`, pages: colorPages };
+  }
+  if (grayPages.length > 0) {
+    return { ...base, status: "warning", message: `${grayPages.length} page(s) have large gray areas that print as dot patterns`, pages: grayPages };
+  }
+  if (unreadablePages.length > 0) {
+    return { ...base, status: "warning", message: `${unreadablePages.length} page(s) have images that could not be inspected`, pages: unreadablePages };
+  }
+  return { ...base, status: "pass", message: "Pure black line art" };
+}
+
+/**
+ * Single blank pages (e.g. backs of coloring pages) are fine; long runs of
+ * them look like a broken file to KDP's reviewers.
+ */
+function checkBlankPages(pages: InspectedPage[]): PreflightCheck {
+  const blank = pages.filter(isBlankPage).map((p) => p.pageNumber);
+  const base = { id: "blank_pages" as const, label: CHECK_LABELS.blank_pages };
+
+  if (blank.length === 0) {
+    return { ...base, status: "pass", message: "No blank pages" };
+  }
+
+  const lastPage = pages[pages.length - 1]?.pageNumber ?? 0;
+  const longRuns: number[][] = [];
+  let run: number[] = [];
+
+  for (const pageNumber of blank) {
+    if (run.length > 0 && pageNumber !== run[run.length - 1] + 1) {
+      run = [];
+    }
+    run.push(pageNumber);
+    const trailing = run[run.length - 1] === lastPage;
+    const limit = trailing ? MAX_TRAILING_BLANK : MAX_CONSECUTIVE_BLANK;
+    if (run.length === limit + 1) longRuns.push(run);
+  }
+
+  if (longRuns.length > 0) {
+    return {
+      ...base,
+      status: "error",
+      message: `${longRuns.length} run(s) of more than ${MAX_CONSECUTIVE_BLANK} consecutive blank pages (starting at page ${longRuns.map((r) => r[0]).join(", ")})`,
+      pages: blank,
+    };
+  }
+
+  return { ...base, status: "warning", message: `${blank.length} blank page(s) - make sure they are intentional`, pages: blank };
+}
+
+// ============================================================
+// GEOMETRY
+// ============================================================
+
+function isBlankPage(page: InspectedPage): boolean {
+  if (page.hasText || page.hasVector) return false;
+  return page.images.every((img) => img.stats !== null && img.stats.inkRatio < BLANK_INK_RATIO);
+}
+
+/**
+ * Bounding box of an image's ink on the page, in points
+ */
+function getInkBoxPt(image: PlacedImage): { x: number; y: number; width: number; height: number } | null {
+  if (image.stats && !image.stats.inkBox) return null;
+
+  // Unit-square corners of the ink (image row 0 is the top, PDF v=0 is the bottom)
+  const { width, height, inkBox } = image.stats ?? { width: 1, height: 1, inkBox: null };
+  const u0 = inkBox ? inkBox.left / width : 0;
+  const u1 = inkBox ? (inkBox.right + 1) / width : 1;
+  const v0 = inkBox ? 1 - (inkBox.bottom + 1) / height : 0;
+  const v1 = inkBox ? 1 - inkBox.top / height : 1;
+
+  const corners = [[u0, v0], [u1, v0], [u0, v1], [u1, v1]].map(([u, v]) => transformPoint(image.ctm, u, v));
+  const xs = corners.map((c) => c.x);
+  const ys = corners.map((c) => c.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+function getEffectiveDpi(image: PlacedImage): number | null {
+  const [a, b, c, d] = image.ctm;
+  const drawnWidthIn = Math.hypot(a, b) / 72;
+  const drawnHeightIn = Math.hypot(c, d) / 72;
+  if (!image.pixelWidth || !image.pixelHeight || drawnWidthIn === 0 || drawnHeightIn === 0) {
+    return null;
+  }
+  return Math.min(image.pixelWidth / drawnWidthIn, image.pixelHeight / drawnHeightIn);
+}
+
+/**
+ * No declared bleed: assume bleed when the first page matches the trim plus bleed
+ */
+function inferBleed(trimSize: string | undefined, firstPage: InspectedPage | undefined): boolean {
+  if (!firstPage) return false;
+  const withBleed = getInteriorLayout(trimSize, { pageCount: 1, bleed: true });
+  return (
+    Math.abs(firstPage.widthPt - withBleed.pageWidthPt) <= TOLERANCE_PT &&
+    Math.abs(firstPage.heightPt - withBleed.pageHeightPt) <= TOLERANCE_PT
+  );
+}
+
+function multiplyMatrix(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+function transformPoint(m: Matrix, x: number, y: number): { x: number; y: number } {
+  return { x: m[0] * x + m[2] * y + m[4], y: m[1] * x + m[3] * y + m[5] };
+}
+
+function formatInches(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+// ============================================================
+// PDF CONTENT STREAMS
+// ============================================================
+
+const TEXT_OPERATORS = new Set(["Tj", "TJ", "'", "\""]);
+const PAINT_OPERATORS = new Set(["S", "s", "f", "F", "f*", "B", "B*", "b", "b*", "sh"]);
+
+/** Form XObjects nest; stop following them past this depth */
+const MAX_FORM_DEPTH = 4;
+
+function readPageContent(context: PDFContext, contents: unknown): Uint8Array {
+  const streams: PDFRawStream[] = [];
+  if (contents instanceof PDFRawStream) {
+    streams.push(contents);
+  } else if (contents instanceof PDFArray) {
+    for (let i = 0; i < contents.size(); i++) {
+      const stream = context.lookup(contents.get(i));
+      if (stream instanceof PDFRawStream) streams.push(stream);
+    }
+  }
+
+  const parts = streams.map((s) => decodeStream(s));
+  const joined = new Uint8Array(parts.reduce((sum, p) => sum + p.length + 1, 0));
+  let offset = 0;
+  for (const part of parts) {
+    joined.set(part, offset);
+    joined[offset + part.length] = 0x0a;
+    offset += part.length + 1;
+  }
+  return joined;
+}
+
+/**
+ * Track the graphics state through a content stream, recording image
+ * placements, text, painted paths and fonts
+ */
+function walkContent(
+  context: PDFContext,
+  content: Uint8Array,
+  resources: PDFDict | undefined,
+  baseCtm: Matrix,
+  page: InspectedPage,
+  placements: Array<{ stream: PDFRawStream; ctm: Matrix }>,
+  fonts: Map<string, FontInfo>,
+  depth: number
+): void {
+  collectFonts(resources, fonts);
+  const xObjects = resources?.lookupMaybe(PDFName.of("XObject"), PDFDict);
+  const stack: Matrix[] = [];
+  let ctm = baseCtm;
+
+  scanContentOperators(content, (operator, operands) => {
+    if (operator === "q") {
+      stack.push(ctm);
+    } else if (operator === "Q") {
+      ctm = stack.pop() ?? baseCtm;
+    } else if (operator === "cm" && operands.length >= 6) {
+      const m = operands.slice(-6).map(Number) as Matrix;
+      if (m.every(Number.isFinite)) ctm = multiplyMatrix(m, ctm);
+    } else if (TEXT_OPERATORS.has(operator)) {
+      page.hasText = true;
+    } else if (PAINT_OPERATORS.has(operator)) {
+      page.hasVector = true;
+    } else if (operator === "BI") {
+      // Inline images are small and rare in print files - count them as content
+      page.hasVector = true;
+    } else if (operator === "Do" && operands.length > 0 && xObjects) {
+      const xObject = xObjects.lookup(PDFName.of(operands[operands.length - 1].slice(1)));
+      if (!(xObject instanceof PDFRawStream)) return;
+
+      const subtype = xObject.dict.lookup(PDFName.of("Subtype"));
+      if (subtype === PDFName.of("Image")) {
+        placements.push({ stream: xObject, ctm });
+      } else if (subtype === PDFName.of("Form") && depth < MAX_FORM_DEPTH) {
+        const matrix = xObject.dict.lookupMaybe(PDFName.of("Matrix"), PDFArray);
+        const formMatrix = matrix ? (matrix.asArray().map((n) => (n instanceof PDFNumber ? n.asNumber() : 0)) as Matrix) : null;
+        const formResources = xObject.dict.lookupMaybe(PDFName.of("Resources"), PDFDict) ?? resources;
+        walkContent(
+          context,
+          decodeStream(xObject),
+          formResources,
+          formMatrix ? multiplyMatrix(formMatrix, ctm) : ctm,
+          page,
+          placements,
+          fonts,
+          depth + 1
+        );
+      }
+    }
+  });
+}
+
+/**
+ * Minimal content stream tokenizer: reports each operator with its numeric
+ * and name operands. Strings, arrays and dictionaries are skipped.
+ */
+function scanContentOperators(
+  bytes: Uint8Array,
+  onOperator: (operator: string, operands: string[]) => void
+): void {
+  const isWhitespace = (c: number) => c === 0x20 || c === 0x0a || c === 0x0d || c === 0x09 || c === 0x0c || c === 0x00;
+  const isDelimiter = (c: number) => "()<>[]{}/%".includes(String.fromCharCode(c));
+  const length = bytes.length;
+  let operands: string[] = [];
+  let i = 0;
+
+  while (i < length) {
+    const c = bytes[i];
+
+    if (isWhitespace(c)) {
+      i++;
+    } else if (c === 0x25) {
+      // % comment
+      while (i < length && bytes[i] !== 0x0a && bytes[i] !== 0x0d) i++;
+    } else if (c === 0x28) {
+      // (literal string) with nesting and escapes
+      let depth = 0;
+      while (i < length) {
+        const ch = bytes[i];
+        if (ch === 0x5c) {
+          i += 2;
+          continue;
+        }
+        if (ch === 0x28) depth++;
+        if (ch === 0x29) depth--;
+        i++;
+        if (depth === 0) break;
+      }
+      operands.push("()");
+    } else if (c === 0x3c) {
+      if (bytes[i + 1] === 0x3c) {
+        i += 2;
+      } else {
+        // <hex string>
+        while (i < length && bytes[i] !== 0x3e) i++;
+        i++;
+        operands.push("<>");
+      }
+    } else if (c === 0x3e || c === 0x5b || c === 0x5d || c === 0x7b || c === 0x7d) {
+      i++;
+    } else {
+      let end = c === 0x2f ? i + 1 : i;
+      while (end < length && !isWhitespace(bytes[end]) && !isDelimiter(bytes[end])) end++;
+      const token = String.fromCharCode(...bytes.subarray(i, end));
+      i = Math.max(end, i + 1);
+
+      if (token[0] === "/" || /^[+-]?(\d+\.?\d*|\.\d+)$/.test(token) || token === "true" || token === "false" || token === "null") {
+        operands.push(token);
+        continue;
+      }
+
+      if (token === "BI") {
+        // Skip inline image data up to "EI"
+        while (i < length - 2 && !(isWhitespace(bytes[i]) && bytes[i + 1] === 0x45 && bytes[i + 2] === 0x49)) i++;
+        i += 3;
+      }
+
+      onOperator(token, operands);
+      operands = [];
+    }
+  }
+}
+
+function collectFonts(resources: PDFDict | undefined, fonts: Map<string, FontInfo>): void {
+  const fontDict = resources?.lookupMaybe(PDFName.of("Font"), PDFDict);
+  if (!fontDict) return;
+
+  for (const [, ref] of fontDict.entries()) {
+    const font = resources!.context.lookup(ref);
+    if (!(font instanceof PDFDict)) continue;
+
+    const baseFont = font.lookup(PDFName.of("BaseFont"));
+    // Drop the "ABCDEF+" subset prefix
+    const name = (baseFont instanceof PDFName ? baseFont.decodeText() : "Unnamed font").replace(/^[A-Z]{6}\+/, "");
+    const embedded = isFontEmbedded(font);
+    const known = fonts.get(name);
+    fonts.set(name, { name, embedded: embedded && (known?.embedded ?? true) });
+  }
+}
+
+function isFontEmbedded(font: PDFDict): boolean {
+  const subtype = font.lookup(PDFName.of("Subtype"));
+  // Type 3 glyphs are drawn from content streams in the PDF itself
+  if (subtype === PDFName.of("Type3")) return true;
+
+  let target: PDFDict | undefined = font;
+  if (subtype === PDFName.of("Type0")) {
+    target = font.lookupMaybe(PDFName.of("DescendantFonts"), PDFArray)?.lookupMaybe(0, PDFDict);
+  }
+
+  const descriptor = target?.lookupMaybe(PDFName.of("FontDescriptor"), PDFDict);
+  if (!descriptor) return false;
+  return ["FontFile", "FontFile2", "FontFile3"].some((key) => descriptor.has(PDFName.of(key)));
+}
+
+function decodeStream(stream: PDFRawStream): Uint8Array {
+  return stream.dict.has(PDFName.of("Filter")) ? decodePDFRawStream(stream).decode() : stream.contents;
+}
+
+function numberEntry(dict: PDFDict, key: string): number {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : 0;
+}
+
+// ============================================================
+// RASTER ANALYSIS
+// ============================================================
+
+/**
+ * Decode an image XObject for analysis. Handles what pdf-lib writes:
+ * JPEG (DCTDecode) and 8-bit Flate RGB/gray with an optional soft mask,
+ * composited onto the white page. Anything else returns null.
+ */
+async function decodePdfImage(context: PDFContext, stream: PDFRawStream): Promise<RasterStats | null> {
+  const dict = stream.dict;
+  const filter = dict.lookup(PDFName.of("Filter"));
+  const filters = filter instanceof PDFName
+    ? [filter]
+    : filter instanceof PDFArray
+      ? filter.asArray().filter((f): f is PDFName => f instanceof PDFName)
+      : [];
+
+  if (filters.length === 1 && filters[0] === PDFName.of("DCTDecode")) {
+    return analyzeRaster(Buffer.from(stream.contents));
+  }
+
+  const width = numberEntry(dict, "Width");
+  const height = numberEntry(dict, "Height");
+  const channels = getColorChannels(context, dict.lookup(PDFName.of("ColorSpace")));
+  if (!channels || !width || !height || !isPlainFlate(dict, filters)) return null;
+
+  const pixels = Buffer.from(decodePDFRawStream(stream).decode());
+  if (pixels.length < width * height * channels) return null;
+
+  const mask = dict.lookup(PDFName.of("SMask"));
+  if (mask instanceof PDFRawStream && numberEntry(mask.dict, "Width") === width && numberEntry(mask.dict, "Height") === height) {
+    const alpha = decodePDFRawStream(mask).decode();
+    for (let p = 0; p < width * height; p++) {
+      const a = (alpha[p] ?? 255) / 255;
+      for (let ch = 0; ch < channels; ch++) {
+        const idx = p * channels + ch;
+        pixels[idx] = Math.round(pixels[idx] * a + 255 * (1 - a));
+      }
+    }
+  }
+
+  const png = await sharp(pixels, { raw: { width, height, channels: channels as 1 | 3 } })
+    .png({ compressionLevel: 1 })
+    .toBuffer();
+  return analyzeRaster(png);
+}
+
+function isPlainFlate(dict: PDFDict, filters: PDFName[]): boolean {
+  if (!filters.every((f) => f === PDFName.of("FlateDecode"))) return false;
+  if (numberEntry(dict, "BitsPerComponent") !== 8) return false;
+  // PNG predictors are not undone by decodePDFRawStream
+  const params = dict.lookup(PDFName.of("DecodeParms"));
+  return !(params instanceof PDFDict && numberEntry(params, "Predictor") > 1);
+}
+
+function getColorChannels(context: PDFContext, colorSpace: unknown): number | null {
+  if (colorSpace === PDFName.of("DeviceRGB")) return 3;
+  if (colorSpace === PDFName.of("DeviceGray")) return 1;
+  if (colorSpace instanceof PDFArray && colorSpace.lookup(0) === PDFName.of("ICCBased")) {
+    const profile = context.lookup(colorSpace.get(1));
+    if (profile instanceof PDFRawStream) {
+      const n = numberEntry(profile.dict, "N");
+      return n === 1 || n === 3 ? n : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Ink bounding box (detectArtworkBoundingBox) plus ink, gray and color shares
+ */
+async function analyzeRaster(imageBuffer: Buffer): Promise<RasterStats> {
+  const { bbox, width, height } = await detectArtworkBoundingBox(imageBuffer);
+
+  const { data, info } = await sharp(imageBuffer)
+    .flatten({ background: "#ffffff" })
+    .toColourspace("srgb")
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const stride = info.channels;
+  const total = info.width * info.height;
+  let ink = 0;
+  let gray = 0;
+  let color = 0;
+
+  for (let p = 0; p < total; p++) {
+    const i = p * stride;
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const spread = Math.max(r, g, b) - Math.min(r, g, b);
+    const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+
+    if (spread > COLOR_SPREAD) color++;
+    if (luminance < WHITE_THRESHOLD) {
+      ink++;
+      if (luminance > BLACK_LEVEL && spread <= COLOR_SPREAD) gray++;
+    }
+  }
+
+  const inkRatio = total > 0 ? ink / total : 0;
+
+  return {
+    width,
+    height,
+    // detectArtworkBoundingBox returns the full frame for all-white images
+    inkBox: ink === 0 ? null : { left: bbox.left, top: bbox.top, right: bbox.right, bottom: bbox.bottom },
+    inkRatio,
+    grayShare: ink > 0 ? gray / ink : 0,
+    colorRatio: total > 0 ? color / total : 0,
+  };
+}
+
@@ -0,0 +1,282 @@
+/**
+ * lineWeight.ts - Stroke width measurement for coloring book images
+ *
+ * Projects declare a LineThickness (generationSpec.ts) and the prompt asks for
+ * it, but the model doesn't always follow. This measures what was drawn and
+ * can push the strokes to the declared weight.
+ *
+ * MEASUREMENT:
+ * 1. Euclidean distance transform of the ink (distance to the nearest white pixel)
+ * 2. Ridge pixels - ink pixels at least as far from white as all 8 neighbors -
+ *    sit on stroke centerlines, where the stroke is ~2 * distance - 0.5 px
+ *    wide (odd widths read half a pixel over, even widths half a pixel under)
+ * 3. Median and 10th/90th percentile widths over all ridge pixels (so long
+ *    strokes weigh more), reported in pixels at 300 DPI print size
+ *
+ * NORMALIZATION:
+ * Ink is grown (dilate) or shrunk (erode) by the distance transform, half the
+ * width difference on each side, rounded to whole pixels. Shrinking stops
+ * before the thinnest 10% of strokes would disappear.
+ */
+
+import type { LineThickness } from "./generationSpec";
+import { DEFAULT_TRIM_SIZE, PRINT_DPI, TRIM_SIZES_IN } from "./generationSpec";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Pixels darker than this are ink */
+const INK_THRESHOLD = 128;
+
+/**
+ * Median stroke width bands, in pixels at 300 DPI (1pt = ~4.2px).
+ * The median mixes outer contours and inner details, so each band sits
+ * between the two weights the prompt asks for (promptBuilder.ts).
+ */
+export const LINE_WEIGHT_BANDS: Record<LineThickness, { min: number; target: number; max: number }> = {
+  thin: { min: 4, target: 7, max: 12 },
+  medium: { min: 8, target: 12, max: 20 },
+  bold: { min: 14, target: 20, max: 34 },
+};
+
+/** Squared distance for "no white pixel found" */
+const INF = 1e20;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface LineWeightMeasurement {
+  /** Stroke widths in pixels at 300 DPI print size */
+  medianWidth: number;
+  p10Width: number;
+  p90Width: number;
+  /** Ridge pixels measured */
+  samples: number;
+}
+
+export interface LineWeightNormalizeResult {
+  /** Normalized black/white PNG (the input when nothing changed) */
+  buffer: Buffer;
+  before: LineWeightMeasurement;
+  after: LineWeightMeasurement;
+  /** Ink grown (+) or shrunk (-) per side, in image pixels */
+  adjustedBy: number;
+}
+
+interface InkBitmap {
+  ink: Uint8Array;
+  width: number;
+  height: number;
+}
+
+// ============================================
+// MEASUREMENT
+// ============================================
+
+/**
+ * Measure stroke widths of a page
+ *
+ * @param options.printWidthPx - Width the image prints at, in 300 DPI pixels
+ *   (default: the width of the default trim size, as processPageToLetter reframes to)
+ */
+export async function measureLineWeight(
+  imageBuffer: Buffer,
+  options: { printWidthPx?: number } = {}
+): Promise<LineWeightMeasurement> {
+  const bitmap = await loadInk(imageBuffer);
+  return measureInk(bitmap, printScale(bitmap.width, options.printWidthPx));
+}
+
+/**
+ * Whether a measurement is inside the band for a line thickness
+ */
+export function isLineWeightInBand(measurement: LineWeightMeasurement, lineThickness: LineThickness): boolean {
+  const band = LINE_WEIGHT_BANDS[lineThickness];
+  return measurement.medianWidth >= band.min && measurement.medianWidth <= band.max;
+}
+
+function measureInk({ ink, width, height }: InkBitmap, scale: number): LineWeightMeasurement {
+  const dist = distanceTransform(ink, width, height);
+  const widths: number[] = [];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const d = dist[i];
+      if (!ink[i]) continue;
+
+      let ridge = true;
+      for (let dy = -1; dy <= 1 && ridge; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width || (dx === 0 && dy === 0)) continue;
+          if (dist[ny * width + nx] > d) {
+            ridge = false;
+            break;
+          }
+        }
+      }
+      if (ridge) widths.push((2 * Math.sqrt(d) - 0.5) * scale);
+    }
+  }
+
+  if (widths.length === 0) {
+    return { medianWidth: 0, p10Width: 0, p90Width: 0, samples: 0 };
+  }
+
+  widths.sort((a, b) => a - b);
+  const percentile = (p: number) => Math.round(widths[Math.floor((widths.length - 1) * p)] * 10) / 10;
+  return {
+    medianWidth: percentile(0.5),
+    p10Width: percentile(0.1),
+    p90Width: percentile(0.9),
+    samples: widths.length,
+  };
+}
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+/**
+ * Thicken or thin a page's strokes toward the target width of a line thickness
+ *
+ * @param options.printWidthPx - Width the image prints at, in 300 DPI pixels
+ *   (default: the width of the default trim size, as processPageToLetter reframes to)
+ */
+export async function normalizeLineWeight(
+  imageBuffer: Buffer,
+  lineThickness: LineThickness,
+  options: { printWidthPx?: number } = {}
+): Promise<LineWeightNormalizeResult> {
+  const bitmap = await loadInk(imageBuffer);
+  const { ink, width, height } = bitmap;
+  const scale = printScale(width, options.printWidthPx);
+  const before = measureInk(bitmap, scale);
+
+  // Half the width difference on each side of the stroke, in image pixels
+  let radius = (LINE_WEIGHT_BANDS[lineThickness].target - before.medianWidth) / scale / 2;
+  if (radius < 0) {
+    radius = Math.max(radius, -before.p10Width / scale / 2);
+  }
+  radius = Math.round(radius);
+  if (before.samples === 0 || radius === 0) {
+    return { buffer: imageBuffer, before, after: before, adjustedBy: 0 };
+  }
+
+  // Distances are between pixel centers: one layer is 1 away, its corners sqrt(2)
+  const adjusted = new Uint8Array(ink.length);
+  const limit = (Math.abs(radius) + 0.25) ** 2;
+  if (radius > 0) {
+    // Dilate: white within radius of ink becomes ink
+    const inverted = new Uint8Array(ink.length);
+    for (let i = 0; i < ink.length; i++) inverted[i] = ink[i] ^ 1;
+    const toInk = distanceTransform(inverted, width, height);
+    for (let i = 0; i < ink.length; i++) adjusted[i] = ink[i] || toInk[i] < limit ? 1 : 0;
+  } else {
+    // Erode: ink within radius of white becomes white
+    const toWhite = distanceTransform(ink, width, height);
+    for (let i = 0; i < ink.length; i++) adjusted[i] = ink[i] && toWhite[i] >= limit ? 1 : 0;
+  }
+
+  const sharp = await import("sharp");
+  const pixels = new Uint8Array(adjusted.length);
+  for (let i = 0; i < adjusted.length; i++) pixels[i] = adjusted[i] ? 0 : 255;
+  const buffer = await sharp.default(Buffer.from(pixels), { raw: { width, height, channels: 1 } })
+    .png({ compressionLevel: 9 })
+    .toBuffer();
+
+  return {
+    buffer,
+    before,
+    after: measureInk({ ink: adjusted, width, height }, scale),
+    adjustedBy: radius,
+  };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function loadInk(imageBuffer: Buffer): Promise<InkBitmap> {
+  const sharp = await import("sharp");
+  const { data, info } = await sharp.default(imageBuffer)
+    .flatten({ background: { r: 255, g: 255, b: 255 } })
+    .grayscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const ink = new Uint8Array(info.width * info.height);
+  for (let i = 0; i < ink.length; i++) {
+    if (data[i * info.channels] < INK_THRESHOLD) ink[i] = 1;
+  }
+  return { ink, width: info.width, height: info.height };
+}
+
+/**
+ * 300 DPI print pixels per image pixel
+ */
+function printScale(imageWidth: number, printWidthPx?: number): number {
+  const printWidth = printWidthPx ?? TRIM_SIZES_IN[DEFAULT_TRIM_SIZE].widthIn * PRINT_DPI;
+  return printWidth / imageWidth;
+}
+
+/**
+ * Squared Euclidean distance from each set pixel to the nearest unset pixel
+ * (0 for unset pixels). Felzenszwalb-Huttenlocher, columns then rows.
+ */
+function distanceTransform(mask: Uint8Array, width: number, height: number): Float32Array {
+  const grid = new Float32Array(mask.length);
+  for (let i = 0; i < mask.length; i++) grid[i] = mask[i] ? INF : 0;
+
+  const size = Math.max(width, height);
+  const f = new Float64Array(size);
+  const d = new Float64Array(size);
+  const v = new Int32Array(size);
+  const z = new Float64Array(size + 1);
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = grid[y * width + x];
+    transform1d(f, height, d, v, z);
+    for (let y = 0; y < height; y++) grid[y * width + x] = d[y];
+  }
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) f[x] = grid[row + x];
+    transform1d(f, width, d, v, z);
+    for (let x = 0; x < width; x++) grid[row + x] = d[x];
+  }
+  return grid;
+}
+
+/**
+ * 1D squared distance transform (lower envelope of parabolas)
+ */
+function transform1d(f: Float64Array, n: number, d: Float64Array, v: Int32Array, z: Float64Array): void {
+  let k = 0;
+  v[0] = 0;
+  z[0] = -Infinity;
+  z[1] = Infinity;
+
+  for (let q = 1; q < n; q++) {
+    let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = Infinity;
+  }
+
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    d[q] = (q - v[k]) * (q - v[k]) + f[v[k]];
+  }
+}
@@ -1,4 +1,5 @@
 import OpenAI from "openai";
+import { recordChatCost } from "@/lib/generationCosts";
 
 // Server-only OpenAI client
 // This file should ONLY be imported in server-side code (API routes, server components)
@@ -17,10 +18,33 @@ export function getOpenAI(): OpenAI {
     _openai = new OpenAI({
       apiKey: process.env.OPENAI_API_KEY || "placeholder-for-build",
     });
+    meterChatCompletions(_openai);
   }
   return _openai;
 }
 
+/**
+ * Record token usage of every chat completion in the cost ledger.
+ * All chat calls share this client, so no route has to remember to do it.
+ */
+function meterChatCompletions(client: OpenAI): void {
+  const completions = client.chat.completions;
+  const create = completions.create.bind(completions);
+
+  completions.create = (async (...args: Parameters<typeof create>) => {
+    const response = await create(...args);
+    const usage = (response as OpenAI.Chat.ChatCompletion).usage;
+    if (usage) {
+      await recordChatCost({
+        model: (response as OpenAI.Chat.ChatCompletion).model || args[0].model,
+        inputTokens: usage.prompt_tokens,
+        outputTokens: usage.completion_tokens,
+      });
+    }
+    return response;
+  }) as typeof completions.create;
+}
+
 // For backwards compatibility
 export const openai = new Proxy({} as OpenAI, {
   get(target, prop) {
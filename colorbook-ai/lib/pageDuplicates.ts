@@ -0,0 +1,151 @@
+/**
+ * Page duplicates
+ *
+ * Fingerprints a page image as it is saved (lib/pageFingerprint.ts) and
+ * compares it with the earlier ready pages of its project - and with every
+ * page of the earlier volumes when the project is part of a series. Both land
+ * in the page asset's meta: meta.fingerprint, and meta.duplicateOf for the
+ * closest earlier page it nearly repeats. The review grid flags those pages and the
+ * generation worker can regenerate them (settings.regenerateDuplicates).
+ *
+ * Only the later of two similar pages is flagged: the earlier page keeps its
+ * meta, even when it is saved again, and pages saved before fingerprinting
+ * existed are never matched.
+ */
+
+import "server-only";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+import { getProjectSeriesVolume, listSeriesVolumeProjects } from "@/lib/projectStore";
+import {
+  comparePageFingerprints,
+  computePageFingerprint,
+  type DuplicateKind,
+  type PageFingerprint,
+} from "@/lib/pageFingerprint";
+import type { AssetMeta } from "@/types/database";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface PageDuplicateMatch {
+  kind: DuplicateKind;
+  projectId: string;
+  pageNumber: number;
+  /** Set when the page is in another volume of the series */
+  seriesVolume?: number;
+  hashDistance: number;
+  densitySimilarity: number;
+}
+
+export type PageDuplicateMeta = Pick<AssetMeta, "fingerprint" | "duplicateOf">;
+
+interface FingerprintedPageRow {
+  project_id: string;
+  page_number: number | null;
+  meta: AssetMeta | null;
+}
+
+// ============================================================
+// DETECTION
+// ============================================================
+
+/**
+ * Fingerprint a page image and find the page it nearly repeats, as asset
+ * meta fields. Never throws - a page is saved without them if this fails.
+ */
+export async function detectDuplicatePage(params: {
+  projectId: string;
+  userId: string;
+  pageNumber: number;
+  imageBuffer: Buffer;
+}): Promise<PageDuplicateMeta> {
+  const { projectId, userId, pageNumber, imageBuffer } = params;
+
+  try {
+    const fingerprint = await computePageFingerprint(imageBuffer);
+    const duplicateOf = await findDuplicateOf(fingerprint, projectId, userId, pageNumber);
+
+    if (duplicateOf) {
+      const where = duplicateOf.seriesVolume ? `volume ${duplicateOf.seriesVolume} ` : "";
+      console.log(
+        `[pageDuplicates] Project ${projectId} page ${pageNumber}: ${duplicateOf.kind} of ${where}page ${duplicateOf.pageNumber} ` +
+        `(hash distance ${duplicateOf.hashDistance}, density ${duplicateOf.densitySimilarity})`
+      );
+    }
+
+    return duplicateOf ? { fingerprint, duplicateOf } : { fingerprint };
+  } catch (error) {
+    console.error(`[pageDuplicates] Project ${projectId} page ${pageNumber}: fingerprinting failed:`, error);
+    return {};
+  }
+}
+
+/**
+ * The closest earlier fingerprinted page that this one repeats - a lower
+ * page number of the project, or any page of an earlier volume of its
+ * series. Duplicates before near-duplicates, then by hash distance.
+ */
+async function findDuplicateOf(
+  fingerprint: PageFingerprint,
+  projectId: string,
+  userId: string,
+  pageNumber: number
+): Promise<PageDuplicateMatch | null> {
+  const supabase = getSupabaseServerClient();
+  const volumes = await getEarlierVolumes(projectId, userId);
+
+  const { data, error } = await supabase
+    .from("generated_assets")
+    .select("project_id, page_number, meta")
+    .in("project_id", Array.from(volumes.keys()))
+    .eq("user_id", userId)
+    .eq("asset_type", "page_image")
+    .eq("status", "ready")
+    .is("deleted_at", null)
+    .not("meta->fingerprint", "is", null);
+
+  if (error) throw new Error(error.message);
+
+  let best: PageDuplicateMatch | null = null;
+  for (const row of (data ?? []) as FingerprintedPageRow[]) {
+    if (!row.meta?.fingerprint || row.page_number === null) continue;
+    if (row.project_id === projectId && row.page_number >= pageNumber) continue;
+
+    const comparison = comparePageFingerprints(fingerprint, row.meta.fingerprint);
+    if (!comparison.kind) continue;
+
+    const isCloser = !best
+      || (comparison.kind === "duplicate" && best.kind !== "duplicate")
+      || (comparison.kind === best.kind && comparison.hashDistance < best.hashDistance);
+    if (!isCloser) continue;
+
+    best = {
+      kind: comparison.kind,
+      projectId: row.project_id,
+      pageNumber: row.page_number,
+      seriesVolume: row.project_id === projectId ? undefined : volumes.get(row.project_id) ?? undefined,
+      hashDistance: comparison.hashDistance,
+      densitySimilarity: comparison.densitySimilarity,
+    };
+  }
+
+  return best;
+}
+
+/**
+ * Project ids to compare against, with their volume numbers: the project
+ * itself and the series' volumes numbered below it
+ */
+async function getEarlierVolumes(projectId: string, userId: string): Promise<Map<string, number | null>> {
+  const project = await getProjectSeriesVolume(projectId, userId);
+  const volumes = new Map<string, number | null>([[projectId, project?.series_volume ?? null]]);
+  if (!project?.series_id || project.series_volume === null) return volumes;
+
+  for (const sibling of await listSeriesVolumeProjects(project.series_id, userId)) {
+    if (sibling.series_volume !== null && sibling.series_volume < project.series_volume) {
+      volumes.set(sibling.id, sibling.series_volume);
+    }
+  }
+  return volumes;
+}
@@ -0,0 +1,192 @@
+/**
+ * pageFingerprint.ts - Perceptual fingerprints for coloring book pages
+ *
+ * Similar prompts sometimes come back as almost the same drawing, which
+ * penalizeRepeats (ideaPlanner.ts) can't see - it only compares prompts.
+ * A fingerprint compares the images themselves.
+ *
+ * FINGERPRINT:
+ * 1. Perceptual hash - 32x32 grayscale, 2D DCT, the 8x8 lowest frequencies
+ *    against their median: 64 bits of overall composition
+ * 2. Outline density - share of the page's ink in each cell of an 8x8 grid:
+ *    where the drawing is busy, independent of line weight
+ *
+ * MATCHING:
+ * Two pages match when the hashes are close (Hamming distance) AND the ink
+ * sits in the same places (histogram intersection of the density grids).
+ * Requiring both keeps two sparse, centered drawings of different subjects
+ * from matching on the hash alone.
+ */
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Pixels darker than this are ink */
+const INK_THRESHOLD = 128;
+
+/** Side of the image the DCT runs on */
+const HASH_SAMPLE_SIZE = 32;
+
+/** Side of the low-frequency block kept for the hash (64 bits) */
+const HASH_BLOCK_SIZE = 8;
+
+/** Cells per side of the outline density grid */
+const DENSITY_GRID_SIZE = 8;
+
+/**
+ * Match limits, strictest first
+ * - maxHashDistance: differing hash bits (of 64)
+ * - minDensitySimilarity: 0-1 overlap of the density grids
+ */
+export const DUPLICATE_LIMITS: Record<DuplicateKind, { maxHashDistance: number; minDensitySimilarity: number }> = {
+  duplicate: { maxHashDistance: 6, minDensitySimilarity: 0.9 },
+  near_duplicate: { maxHashDistance: 12, minDensitySimilarity: 0.8 },
+};
+
+// ============================================
+// TYPES
+// ============================================
+
+export type DuplicateKind = "duplicate" | "near_duplicate";
+
+export interface PageFingerprint {
+  /** 64-bit perceptual hash, hex */
+  hash: string;
+  /** Share of the ink per grid cell, row by row (sums to ~1; all 0 for a blank page) */
+  density: number[];
+}
+
+export interface FingerprintComparison {
+  /** Differing hash bits, 0-64 */
+  hashDistance: number;
+  /** 0-1, 1 = ink distributed identically */
+  densitySimilarity: number;
+  /** Strictest limit both values fall within, null when the pages differ */
+  kind: DuplicateKind | null;
+}
+
+// ============================================
+// FINGERPRINTING
+// ============================================
+
+/**
+ * Fingerprint a page image
+ */
+export async function computePageFingerprint(imageBuffer: Buffer): Promise<PageFingerprint> {
+  const sharp = await import("sharp");
+  const flattened = sharp.default(imageBuffer)
+    .flatten({ background: { r: 255, g: 255, b: 255 } })
+    .grayscale();
+
+  const [sample, full] = await Promise.all([
+    flattened.clone()
+      .resize(HASH_SAMPLE_SIZE, HASH_SAMPLE_SIZE, { fit: "fill" })
+      .raw()
+      .toBuffer({ resolveWithObject: true }),
+    flattened.clone().raw().toBuffer({ resolveWithObject: true }),
+  ]);
+
+  return {
+    hash: perceptualHash(sample.data, sample.info.channels),
+    density: outlineDensity(full.data, full.info.width, full.info.height, full.info.channels),
+  };
+}
+
+function perceptualHash(data: Buffer, channels: number): string {
+  const n = HASH_SAMPLE_SIZE;
+  const pixels = new Float64Array(n * n);
+  for (let i = 0; i < pixels.length; i++) pixels[i] = data[i * channels];
+
+  // Separable DCT-II, only the low-frequency rows/columns that are kept
+  const cosines = new Float64Array(HASH_BLOCK_SIZE * n);
+  for (let k = 0; k < HASH_BLOCK_SIZE; k++) {
+    for (let x = 0; x < n; x++) cosines[k * n + x] = Math.cos(((2 * x + 1) * k * Math.PI) / (2 * n));
+  }
+
+  const rows = new Float64Array(n * HASH_BLOCK_SIZE);
+  for (let y = 0; y < n; y++) {
+    for (let k = 0; k < HASH_BLOCK_SIZE; k++) {
+      let sum = 0;
+      for (let x = 0; x < n; x++) sum += pixels[y * n + x] * cosines[k * n + x];
+      rows[y * HASH_BLOCK_SIZE + k] = sum;
+    }
+  }
+
+  const coefficients: number[] = [];
+  for (let v = 0; v < HASH_BLOCK_SIZE; v++) {
+    for (let k = 0; k < HASH_BLOCK_SIZE; k++) {
+      let sum = 0;
+      for (let y = 0; y < n; y++) sum += rows[y * HASH_BLOCK_SIZE + k] * cosines[v * n + y];
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term is overall brightness - leave it out of the median
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = (sorted[(sorted.length - 1) >> 1] + sorted[sorted.length >> 1]) / 2;
+
+  let hash = "";
+  for (let i = 0; i < coefficients.length; i += 4) {
+    let nibble = 0;
+    for (let b = 0; b < 4; b++) nibble = (nibble << 1) | (coefficients[i + b] > median ? 1 : 0);
+    hash += nibble.toString(16);
+  }
+  return hash;
+}
+
+function outlineDensity(data: Buffer, width: number, height: number, channels: number): number[] {
+  const cells = new Array<number>(DENSITY_GRID_SIZE * DENSITY_GRID_SIZE).fill(0);
+  let total = 0;
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(DENSITY_GRID_SIZE - 1, Math.floor((y * DENSITY_GRID_SIZE) / height)) * DENSITY_GRID_SIZE;
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * channels] >= INK_THRESHOLD) continue;
+      cells[row + Math.min(DENSITY_GRID_SIZE - 1, Math.floor((x * DENSITY_GRID_SIZE) / width))]++;
+      total++;
+    }
+  }
+
+  return cells.map((count) => (total > 0 ? Math.round((count / total) * 10000) / 10000 : 0));
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+/**
+ * Compare two fingerprints
+ */
+export function comparePageFingerprints(a: PageFingerprint, b: PageFingerprint): FingerprintComparison {
+  const hashDistance = hammingDistance(a.hash, b.hash);
+
+  let overlap = 0;
+  for (let i = 0; i < Math.min(a.density.length, b.density.length); i++) {
+    overlap += Math.min(a.density[i], b.density[i]);
+  }
+  const densitySimilarity = Math.round(overlap * 1000) / 1000;
+
+  let kind: DuplicateKind | null = null;
+  for (const candidate of Object.keys(DUPLICATE_LIMITS) as DuplicateKind[]) {
+    const limits = DUPLICATE_LIMITS[candidate];
+    if (hashDistance <= limits.maxHashDistance && densitySimilarity >= limits.minDensitySimilarity) {
+      kind = candidate;
+      break;
+    }
+  }
+
+  return { hashDistance, densitySimilarity, kind };
+}
+
+function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    let bits = (parseInt(a[i] ?? "0", 16) ^ parseInt(b[i] ?? "0", 16)) & 0xf;
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
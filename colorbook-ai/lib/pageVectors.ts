@@ -0,0 +1,150 @@
+/**
+ * Page vectors
+ *
+ * The vectorizer stage for a project's page images: each ready page is traced
+ * (lib/vectorizer.ts) and its SVG stored next to the PNG
+ * (pages/page-NNN.svg), referenced from the page asset's meta.vector.
+ * build-pdf embeds that SVG as vector paths when its fidelity check passed.
+ *
+ * Saving a new image for a page replaces the asset's meta, which drops the
+ * stale vector reference - a later run traces the new image.
+ */
+
+import "server-only";
+import { getSupabaseServerClient, uploadToStorage } from "@/lib/supabase/server";
+import { vectorizeColoringPage, type VectorFidelity } from "@/lib/vectorizer";
+import type { AssetMeta } from "@/types/database";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface PageVectorResult {
+  pageNumber: number;
+  status: "vectorized" | "skipped" | "failed";
+  fidelity?: VectorFidelity;
+  /** SVG size vs PNG size, in bytes */
+  svgBytes?: number;
+  pngBytes?: number;
+  error?: string;
+}
+
+interface PageAssetRow {
+  id: string;
+  page_number: number;
+  storage_bucket: string;
+  storage_path: string | null;
+  meta: AssetMeta | null;
+}
+
+// ============================================================
+// VECTORIZING
+// ============================================================
+
+/**
+ * Vectorize a project's ready page images, one page at a time.
+ *
+ * @param options.pageNumbers - Only these pages (default: all)
+ * @param options.force - Re-trace pages that already have a vector variant
+ */
+export async function vectorizeProjectPages(
+  projectId: string,
+  userId: string,
+  options: { pageNumbers?: number[]; force?: boolean } = {}
+): Promise<PageVectorResult[]> {
+  const supabase = getSupabaseServerClient();
+  let query = supabase
+    .from("generated_assets")
+    .select("id, page_number, storage_bucket, storage_path, meta")
+    .eq("project_id", projectId)
+    .eq("user_id", userId)
+    .eq("asset_type", "page_image")
+    .eq("status", "ready")
+    .order("page_number", { ascending: true });
+
+  if (options.pageNumbers?.length) {
+    query = query.in("page_number", options.pageNumbers);
+  }
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+
+  const results: PageVectorResult[] = [];
+  for (const asset of (data ?? []) as PageAssetRow[]) {
+    if (!asset.storage_path || (asset.meta?.vector && !options.force)) {
+      results.push({ pageNumber: asset.page_number, status: "skipped", fidelity: asset.meta?.vector?.fidelity });
+      continue;
+    }
+
+    try {
+      results.push(await vectorizePageAsset(userId, projectId, asset));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Vectorizing failed";
+      console.error(`[pageVectors] Page ${asset.page_number} failed:`, err);
+      results.push({ pageNumber: asset.page_number, status: "failed", error: message });
+    }
+  }
+
+  return results;
+}
+
+async function vectorizePageAsset(userId: string, projectId: string, asset: PageAssetRow): Promise<PageVectorResult> {
+  const supabase = getSupabaseServerClient();
+
+  const { data: file, error: downloadError } = await supabase.storage
+    .from(asset.storage_bucket)
+    .download(asset.storage_path!);
+  if (downloadError || !file) {
+    throw new Error(`Failed to download page ${asset.page_number}: ${downloadError?.message ?? "no data"}`);
+  }
+  const png = Buffer.from(await file.arrayBuffer());
+
+  const result = await vectorizeColoringPage(png);
+  const svg = Buffer.from(result.svg);
+
+  const svgPath = getPageVectorPath(userId, projectId, asset.page_number);
+  const { path: uploadedPath, error: uploadError } = await uploadToStorage(
+    asset.storage_bucket,
+    svgPath,
+    svg,
+    "image/svg+xml"
+  );
+  if (uploadError) {
+    throw new Error(`Upload failed: ${uploadError.message}`);
+  }
+
+  const { error: updateError } = await supabase
+    .from("generated_assets")
+    .update({
+      meta: {
+        ...asset.meta,
+        vector: {
+          storagePath: uploadedPath,
+          fidelity: result.fidelity,
+          pathCount: result.pathCount,
+          fileSize: svg.length,
+          vectorizedAt: new Date().toISOString(),
+        },
+      },
+    })
+    .eq("id", asset.id);
+  if (updateError) throw new Error(updateError.message);
+
+  console.log(`[pageVectors] Page ${asset.page_number}: ${result.pathCount} paths, fidelity ${result.fidelity.score}${result.fidelity.passed ? "" : " (below threshold, raster kept)"}, ${svg.length} vs ${png.length} bytes`);
+
+  return {
+    pageNumber: asset.page_number,
+    status: "vectorized",
+    fidelity: result.fidelity,
+    svgBytes: svg.length,
+    pngBytes: png.length,
+  };
+}
+
+/**
+ * Storage path of a page's vector variant
+ */
+export function getPageVectorPath(userId: string, projectId: string, pageNumber: number): string {
+  const paddedNum = String(pageNumber).padStart(3, "0");
+  return `${userId}/${projectId}/pages/page-${paddedNum}.svg`;
+}
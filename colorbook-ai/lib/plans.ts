@@ -0,0 +1,84 @@
+/**
+ * plans.ts
+ *
+ * Plan tiers and the entitlements each one grants.
+ * Shared by the server-side enforcement (lib/entitlements.ts) and the
+ * upgrade page, so the limits we advertise are the limits we enforce.
+ */
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type PlanTier = "free" | "pro" | "business";
+
+export type ExportFormat = "pdf" | "zip";
+
+export interface PlanEntitlements {
+  /** Display name */
+  label: string;
+  /** How long generated files are kept */
+  retentionHours: number;
+  /** Max pages per project (null = unlimited, still capped by the 80-page app limit) */
+  maxPagesPerProject: number | null;
+  /** Server-built export formats. PNG downloads are always allowed. */
+  exportFormats: ExportFormat[];
+  /** Access to the Style Clone flow */
+  styleClone: boolean;
+  /** Delivered page images per calendar month (null = unlimited) */
+  monthlyImageQuota: number | null;
+}
+
+// ============================================================
+// PLAN DEFINITIONS
+// ============================================================
+
+export const DEFAULT_PLAN: PlanTier = "free";
+
+export const PLAN_ENTITLEMENTS: Record<PlanTier, PlanEntitlements> = {
+  free: {
+    label: "Free",
+    retentionHours: 72,
+    maxPagesPerProject: 5,
+    exportFormats: [],
+    styleClone: false,
+    monthlyImageQuota: 25,
+  },
+  pro: {
+    label: "Pro",
+    retentionHours: 24 * 30,
+    maxPagesPerProject: null,
+    exportFormats: ["pdf", "zip"],
+    styleClone: true,
+    monthlyImageQuota: 1000,
+  },
+  business: {
+    label: "Business",
+    retentionHours: 24 * 90,
+    maxPagesPerProject: null,
+    exportFormats: ["pdf", "zip"],
+    styleClone: true,
+    monthlyImageQuota: 5000,
+  },
+};
+
+/**
+ * Normalize an unknown DB value to a plan tier
+ */
+export function toPlanTier(value: unknown): PlanTier {
+  return value === "pro" || value === "business" ? value : DEFAULT_PLAN;
+}
+
+/**
+ * Entitlements for a plan tier
+ */
+export function getPlanEntitlements(plan: PlanTier): PlanEntitlements {
+  return PLAN_ENTITLEMENTS[plan];
+}
+
+/**
+ * Human-readable retention, e.g. "72 hour" or "30 day"
+ */
+export function formatRetention(hours: number): string {
+  return hours < 24 * 7 ? `${hours} hour` : `${Math.round(hours / 24)} day`;
+}
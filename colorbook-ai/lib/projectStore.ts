@@ -0,0 +1,588 @@
+/**
+ * Project Store
+ *
+ * The single data layer for projects and their page prompts. Supabase is
+ * the canonical schema (supabase/migrations); routes and workers go through
+ * these functions instead of querying projects / project_prompts directly.
+ *
+ * Functions taking a userId only touch that user's rows. Errors are thrown
+ * with the Supabase message so routes can return it as-is.
+ */
+
+import 'server-only';
+import {
+  getSupabaseServerClient,
+  getRetentionHours,
+  calculateExpiresAt,
+} from '@/lib/supabase/server';
+import type {
+  BookType,
+  Project,
+  ProjectOrigin,
+  ProjectPrompt,
+  ProjectSettings,
+  ProjectStatus,
+  ProjectType,
+  PromptStatus,
+} from '@/types/database';
+import type { QuotePageConfig } from '@/lib/quotePagePromptEnforcer';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface CreateProjectInput {
+  userId: string;
+  name?: string;
+  projectType?: ProjectType;
+  bookType?: BookType;
+  origin?: ProjectOrigin;
+  idea?: string;
+  pagesRequested?: number;
+  settings?: ProjectSettings;
+}
+
+export interface ProjectPatch {
+  name?: string;
+  idea?: string;
+  bookType?: BookType;
+  status?: ProjectStatus;
+  pagesRequested?: number;
+  settings?: ProjectSettings;
+  errorMessage?: string | null;
+  promptsGeneratedCount?: number;
+  imagesGeneratedCount?: number;
+}
+
+export interface ProjectListItem extends Project {
+  isExpired: boolean;
+  canResume: boolean;
+}
+
+export interface PromptInput {
+  pageIndex: number;
+  title?: string;
+  promptText: string;
+  sceneDescription?: string;
+  status?: PromptStatus;
+  quoteConfig?: QuotePageConfig; // Quote book pages
+}
+
+export interface PromptPatch {
+  status?: PromptStatus;
+  title?: string;
+  promptText?: string;
+}
+
+// ============================================================
+// PROJECTS
+// ============================================================
+
+/**
+ * Create a draft project with the owner's plan retention
+ */
+export async function createProject(input: CreateProjectInput): Promise<Project> {
+  const supabase = getSupabaseServerClient();
+  const retentionHours = await getRetentionHours(input.userId);
+  const projectType = input.projectType ?? 'coloring_book';
+
+  const { data, error } = await supabase
+    .from('projects')
+    .insert({
+      user_id: input.userId,
+      name: input.name || 'Untitled Project',
+      project_type: projectType,
+      book_type: input.bookType ?? 'theme',
+      origin: input.origin ?? (projectType === 'quote_book' ? 'quote_book' : 'create'),
+      idea: input.idea ?? null,
+      pages_requested: input.pagesRequested ?? 0,
+      settings: input.settings ?? {},
+      status: 'draft',
+      prompts_generated_count: 0,
+      images_generated_count: 0,
+      retention_hours: retentionHours,
+      expires_at: calculateExpiresAt(retentionHours),
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message || 'Failed to create project');
+  }
+  return data as Project;
+}
+
+/**
+ * A user's project, or null if it doesn't exist or belongs to someone else
+ */
+export async function getProject(projectId: string, userId: string): Promise<Project | null> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from('projects')
+    .select('*')
+    .eq('id', projectId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return (data as Project | null) ?? null;
+}
+
+/**
+ * Settings of a project without an owner check (for workers and
+ * routes that have already checked ownership)
+ */
+export async function getProjectSettings(projectId: string): Promise<ProjectSettings> {
+  const supabase = getSupabaseServerClient();
+  const { data } = await supabase
+    .from('projects')
+    .select('settings')
+    .eq('id', projectId)
+    .maybeSingle();
+
+  return (data?.settings as ProjectSettings | undefined) ?? {};
+}
+
+/**
+ * Every project of a user, most recently updated first, from all app flows
+ */
+export async function listProjects(userId: string): Promise<ProjectListItem[]> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from('projects')
+    .select('*')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw new Error(error.message);
+
+  const now = new Date();
+  return ((data ?? []) as Project[]).map((p) => ({
+    ...p,
+    isExpired: p.expires_at ? new Date(p.expires_at) < now : false,
+    canResume: p.status !== 'ready' && p.status !== 'expired' &&
+      (p.prompts_generated_count < p.pages_requested || p.images_generated_count < p.pages_requested),
+  }));
+}
+
+/**
+ * Update a user's project. Returns null if it doesn't exist or isn't theirs.
+ */
+export async function updateProject(
+  projectId: string,
+  userId: string,
+  patch: ProjectPatch
+): Promise<Project | null> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from('projects')
+    .update(toProjectRow(patch))
+    .eq('id', projectId)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return (data as Project | null) ?? null;
+}
+
+/**
+ * Set a project's status without an owner check (generation queue and
+ * batch sweep, which run without a session)
+ */
+export async function setProjectStatus(projectId: string, status: ProjectStatus): Promise<void> {
+  const supabase = getSupabaseServerClient();
+  const { error } = await supabase
+    .from('projects')
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq('id', projectId);
+
+  if (error) throw new Error(error.message);
+}
+
+function toProjectRow(patch: ProjectPatch): Record<string, unknown> {
+  const row: Record<string, unknown> = { updated_at: new Date().toISOString() };
+
+  if (patch.name !== undefined) row.name = patch.name;
+  if (patch.idea !== undefined) row.idea = patch.idea;
+  if (patch.bookType !== undefined) row.book_type = patch.bookType;
+  if (patch.status !== undefined) row.status = patch.status;
+  if (patch.pagesRequested !== undefined) row.pages_requested = patch.pagesRequested;
+  if (patch.settings !== undefined) row.settings = patch.settings;
+  if (patch.errorMessage !== undefined) row.error_message = patch.errorMessage;
+  if (patch.promptsGeneratedCount !== undefined) row.prompts_generated_count = patch.promptsGeneratedCount;
+  if (patch.imagesGeneratedCount !== undefined) row.images_generated_count = patch.imagesGeneratedCount;
+
+  return row;
+}
+
+/**
+ * Names of a user's projects by id (projects that are gone or not theirs are left out)
+ */
+export async function getProjectNames(projectIds: string[], userId: string): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  if (projectIds.length === 0) return names;
+
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from('projects')
+    .select('id, name')
+    .in('id', projectIds)
+    .eq('user_id', userId);
+
+  if (error) throw new Error(error.message);
+
+  for (const row of (data ?? []) as Array<Pick<Project, 'id' | 'name'>>) {
+    names.set(row.id, row.name);
+  }
+  return names;
+}
+
+// ============================================================
+// SERIES VOLUMES
+// ============================================================
+
+export type SeriesVolumeProject = Pick<Project, 'id' | 'name' | 'series_id' | 'series_volume' | 'status' | 'created_at'>;
+
+/**
+ * A user's projects in a series, by volume number
+ */
+export async function listSeriesVolumeProjects(seriesId: string, userId: string): Promise<SeriesVolumeProject[]> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from('projects')
+    .select('id, name, series_id, series_volume, status, created_at')
+    .eq('series_id', seriesId)
+    .eq('user_id', userId)
+    .order('series_volume', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return (data ?? []) as SeriesVolumeProject[];
+}
+
+/**
+ * Volume counts of a user's series, by series id
+ */
+export async function countSeriesVolumes(userId: string): Promise<Map<string, number>> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from('projects')
+    .select('series_id')
+    .eq('user_id', userId)
+    .not('series_id', 'is', null);
+
+  if (error) throw new Error(error.message);
+
+  const counts = new Map<string, number>();
+  for (const row of (data ?? []) as Array<Pick<Project, 'series_id'>>) {
+    counts.set(row.series_id!, (counts.get(row.series_id!) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * The series a user's project belongs to, as a volume row. Null if the
+ * project doesn't exist or isn't theirs; series_id is null outside a series.
+ */
+export async function getProjectSeriesVolume(projectId: string, userId: string): Promise<SeriesVolumeProject | null> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from('projects')
+    .select('id, name, series_id, series_volume, status, created_at')
+    .eq('id', projectId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return (data as SeriesVolumeProject | null) ?? null;
+}
+
+/**
+ * Make a user's project volume N of a series
+ */
+export async function setProjectSeriesVolume(
+  projectId: string,
+  userId: string,
+  seriesId: string,
+  volume: number
+): Promise<void> {
+  const supabase = getSupabaseServerClient();
+  const { error } = await supabase
+    .from('projects')
+    .update({ series_id: seriesId, series_volume: volume })
+    .eq('id', projectId)
+    .eq('user_id', userId);
+
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Take a user's project out of a series. Returns false if it wasn't in it.
+ */
+export async function clearProjectSeriesVolume(projectId: string, userId: string, seriesId: string): Promise<boolean> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from('projects')
+    .update({ series_id: null, series_volume: null })
+    .eq('id', projectId)
+    .eq('user_id', userId)
+    .eq('series_id', seriesId)
+    .select('id');
+
+  if (error) throw new Error(error.message);
+  return !!data && data.length > 0;
+}
+
+/**
+ * Turn every volume of a user's series back into a standalone project
+ */
+export async function clearSeriesVolumes(seriesId: string, userId: string): Promise<void> {
+  const supabase = getSupabaseServerClient();
+  const { error } = await supabase
+    .from('projects')
+    .update({ series_id: null, series_volume: null })
+    .eq('series_id', seriesId)
+    .eq('user_id', userId);
+
+  if (error) throw new Error(error.message);
+}
+
+// ============================================================
+// PROMPTS
+// ============================================================
+
+/**
+ * A project's prompts in page order
+ */
+export async function listProjectPrompts(projectId: string, userId: string): Promise<ProjectPrompt[]> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from('project_prompts')
+    .select('*')
+    .eq('project_id', projectId)
+    .eq('user_id', userId)
+    .order('page_index', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return (data ?? []) as ProjectPrompt[];
+}
+
+/**
+ * Save prompts for a project.
+ *
+ * @param options.mode - 'upsert' replaces existing pages, 'insert' fails on
+ *   them, 'fill' only adds pages that have no prompt yet
+ */
+export async function saveProjectPrompts(
+  projectId: string,
+  userId: string,
+  prompts: PromptInput[],
+  options: { mode?: 'upsert' | 'insert' | 'fill' } = {}
+): Promise<ProjectPrompt[]> {
+  const supabase = getSupabaseServerClient();
+  const mode = options.mode ?? 'upsert';
+
+  const rows = prompts.map((p) => ({
+    project_id: projectId,
+    user_id: userId,
+    page_index: p.pageIndex,
+    title: p.title || `Page ${p.pageIndex}`,
+    prompt_text: p.promptText,
+    scene_description: p.sceneDescription || null,
+    status: p.status ?? 'ready',
+    quote_config: p.quoteConfig ?? null,
+  }));
+
+  const query = mode === 'insert'
+    ? supabase.from('project_prompts').insert(rows)
+    : supabase.from('project_prompts').upsert(rows, {
+        onConflict: 'project_id,page_index',
+        ignoreDuplicates: mode === 'fill',
+      });
+
+  const { data, error } = await query.select();
+  if (error) throw new Error(error.message);
+  return (data ?? []) as ProjectPrompt[];
+}
+
+/**
+ * Move every prompt from `fromPageIndex` on down by `by` pages, to make room
+ * for inserted pages. Runs last page first so page_index stays unique.
+ */
+export async function shiftProjectPrompts(
+  projectId: string,
+  userId: string,
+  fromPageIndex: number,
+  by: number
+): Promise<void> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from('project_prompts')
+    .select('id, page_index')
+    .eq('project_id', projectId)
+    .eq('user_id', userId)
+    .gte('page_index', fromPageIndex)
+    .order('page_index', { ascending: false });
+
+  if (error) throw new Error(error.message);
+
+  for (const row of (data ?? []) as Array<{ id: string; page_index: number }>) {
+    const { error: updateError } = await supabase
+      .from('project_prompts')
+      .update({ page_index: row.page_index + by, updated_at: new Date().toISOString() })
+      .eq('id', row.id);
+
+    if (updateError) throw new Error(updateError.message);
+  }
+}
+
+/**
+ * Delete every prompt after `lastPageIndex` (a project cut down to fewer pages)
+ */
+export async function deleteProjectPromptsAfter(
+  projectId: string,
+  userId: string,
+  lastPageIndex: number
+): Promise<void> {
+  const supabase = getSupabaseServerClient();
+  const { error } = await supabase
+    .from('project_prompts')
+    .delete()
+    .eq('project_id', projectId)
+    .eq('user_id', userId)
+    .gt('page_index', lastPageIndex);
+
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Update one page's prompt. Returns null if the page has no prompt.
+ */
+export async function updateProjectPrompt(
+  projectId: string,
+  userId: string,
+  pageIndex: number,
+  patch: PromptPatch
+): Promise<ProjectPrompt | null> {
+  const supabase = getSupabaseServerClient();
+  const row: Record<string, unknown> = { updated_at: new Date().toISOString() };
+
+  if (patch.status !== undefined) row.status = patch.status;
+  if (patch.title !== undefined) row.title = patch.title;
+  if (patch.promptText !== undefined) row.prompt_text = patch.promptText;
+
+  const { data, error } = await supabase
+    .from('project_prompts')
+    .update(row)
+    .eq('project_id', projectId)
+    .eq('page_index', pageIndex)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return (data as ProjectPrompt | null) ?? null;
+}
+
+// ============================================================
+// GENERATION QUEUE
+// ============================================================
+// Claim state of prompts owned by a generation_jobs row (lib/generationQueue.ts).
+// The worker is not acting for a signed-in user, so these take no userId.
+
+export interface PromptQueuePatch {
+  status: PromptStatus;
+  attemptCount?: number;
+  lastError?: string | null;
+}
+
+/**
+ * Attach a project's pages to a job and reset their claim state. Without
+ * pageIndexes every page that has no image yet is attached. Pages another
+ * worker holds an unexpired lease on are left alone.
+ */
+export async function attachPromptsToJob(
+  projectId: string,
+  jobId: string,
+  pageIndexes?: number[]
+): Promise<void> {
+  const supabase = getSupabaseServerClient();
+  let query = supabase
+    .from('project_prompts')
+    .update({
+      job_id: jobId,
+      status: 'ready',
+      locked_until: null,
+      attempt_count: 0,
+      last_error: null,
+    })
+    .eq('project_id', projectId)
+    .or(`status.neq.generating_image,locked_until.is.null,locked_until.lt.${new Date().toISOString()}`);
+
+  query = pageIndexes?.length
+    ? query.in('page_index', pageIndexes)
+    : query.neq('status', 'image_done');
+
+  const { error } = await query;
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Hand a job's unclaimed pages back to the project
+ */
+export async function detachJobPrompts(jobId: string): Promise<void> {
+  const supabase = getSupabaseServerClient();
+  const { error } = await supabase
+    .from('project_prompts')
+    .update({ job_id: null, locked_until: null })
+    .eq('job_id', jobId)
+    .eq('status', 'ready');
+
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Status of every page attached to a job
+ */
+export async function listJobPromptStatuses(jobId: string): Promise<PromptStatus[]> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from('project_prompts')
+    .select('status')
+    .eq('job_id', jobId);
+
+  if (error) throw new Error(error.message);
+  return ((data ?? []) as Array<{ status: PromptStatus }>).map((row) => row.status);
+}
+
+/**
+ * Number of pages with a prompt
+ */
+export async function countProjectPrompts(projectId: string): Promise<number> {
+  const supabase = getSupabaseServerClient();
+  const { count, error } = await supabase
+    .from('project_prompts')
+    .select('id', { count: 'exact', head: true })
+    .eq('project_id', projectId);
+
+  if (error) throw new Error(error.message);
+  return count ?? 0;
+}
+
+/**
+ * Record a claimed page's outcome and release its lease
+ */
+export async function updatePromptQueueState(promptId: string, patch: PromptQueuePatch): Promise<void> {
+  const supabase = getSupabaseServerClient();
+  const row: Record<string, unknown> = { status: patch.status, locked_until: null };
+
+  if (patch.attemptCount !== undefined) row.attempt_count = patch.attemptCount;
+  if (patch.lastError !== undefined) row.last_error = patch.lastError;
+
+  const { error } = await supabase
+    .from('project_prompts')
+    .update(row)
+    .eq('id', promptId);
+
+  if (error) throw new Error(error.message);
+}
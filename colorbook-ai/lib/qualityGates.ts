@@ -6,9 +6,13 @@
  * 2. Large blob detection (prevents filled eyes/patches)
  * 3. Composition validation (ensures subject fills page)
  * 4. Grayscale detection (ensures pure B&W)
+ * 5. Colorability (closed outlines, see colorRegions.ts)
+ * 6. Line weight vs the project's LineThickness (see lineWeight.ts)
  */
 
-import type { Complexity } from "./generationSpec";
+import type { Complexity, LineThickness } from "./generationSpec";
+import { analyzeColorRegions, COLORABILITY_LIMITS, type ColorRegionAnalysis } from "./colorRegions";
+import { measureLineWeight, isLineWeightInBand, LINE_WEIGHT_BANDS, type LineWeightMeasurement } from "./lineWeight";
 
 export interface QualityGateResult {
   passed: boolean;
@@ -24,6 +28,12 @@ export interface QualityGateResult {
     subjectBoundsRatio?: number;
     bottomBlankRatio?: number; // NEW: bottom 12% white ratio
     hasFaceFillIssue?: boolean; // NEW: suspected face fill
+    colorabilityScore?: number; // 0-1, closed-region score
+    enclosedRegionCount?: number;
+    leakingRegionCount?: number; // shapes open to the background through small gaps
+    strokeWidthMedian?: number; // px at 300 DPI print size
+    strokeWidthP10?: number;
+    strokeWidthP90?: number;
   };
   debug: {
     totalPixels: number;
@@ -43,6 +53,7 @@ export interface QualityGateResult {
       bottomMargin: number;
       bottomBlankRatio?: number; // NEW
     };
+    regionAnalysis?: Pick<ColorRegionAnalysis, "regionSizes" | "largestRegionRatio" | "leaks" | "bridgedRegionCount">;
   };
   correctedImageBuffer?: Buffer;
 }
@@ -361,10 +372,18 @@ async function detectFaceFills(imageBuffer: Buffer): Promise<{
 
 /**
  * Validate image quality with comprehensive checks
+ *
+ * @param options.bridgeGapsUnder - Close outline gaps narrower than this many
+ *   pixels; the bridged image is returned as correctedImageBuffer
+ * @param options.lineThickness - Fail pages whose median stroke width is
+ *   outside this thickness's band (widths are measured either way)
+ * @param options.printWidthPx - Width the page prints at, in 300 DPI pixels,
+ *   for the stroke widths (see measureLineWeight)
  */
 export async function validateImageQuality(
   imageBuffer: Buffer,
-  complexity: Complexity
+  complexity: Complexity,
+  options: { bridgeGapsUnder?: number; lineThickness?: LineThickness; printWidthPx?: number } = {}
 ): Promise<QualityGateResult> {
   const startTime = Date.now();
   
@@ -425,7 +444,7 @@ export async function validateImageQuality(
     const wasColorCorrected = originalHadColor || originalHadGray;
 
     // Convert to B&W
-    const correctedBuffer = await forceConvertToBlackWhite(imageBuffer);
+    let correctedBuffer = await forceConvertToBlackWhite(imageBuffer);
 
     // Analyze B&W image for black ratio
     const { data: bwData, info } = await sharp.default(correctedBuffer)
@@ -456,6 +475,22 @@ export async function validateImageQuality(
     // Face fill detection
     const faceFillAnalysis = await detectFaceFills(correctedBuffer);
 
+    // Closed-region analysis (optionally bridging small outline gaps)
+    const regionAnalysis = await analyzeColorRegions(correctedBuffer, complexity, { bridgeGapsUnder: options.bridgeGapsUnder }).catch((error) => {
+      console.error("Region analysis error:", error);
+      return null;
+    });
+    if (regionAnalysis?.bridgedImageBuffer) {
+      correctedBuffer = regionAnalysis.bridgedImageBuffer;
+    }
+    const minColorabilityScore = COLORABILITY_LIMITS[complexity].minScore;
+
+    // Stroke width measurement
+    const lineWeight: LineWeightMeasurement | null = await measureLineWeight(correctedBuffer, { printWidthPx: options.printWidthPx }).catch((error) => {
+      console.error("Line weight measurement error:", error);
+      return null;
+    });
+
     const processingTimeMs = Date.now() - startTime;
 
     const metrics = {
@@ -469,6 +504,12 @@ export async function validateImageQuality(
       subjectBoundsRatio: composition.subjectHeightRatio,
       bottomBlankRatio: composition.bottomBlankRatio, // NEW
       hasFaceFillIssue: faceFillAnalysis.hasFaceFillIssue, // NEW
+      colorabilityScore: regionAnalysis?.colorabilityScore,
+      enclosedRegionCount: regionAnalysis?.regionCount,
+      leakingRegionCount: regionAnalysis?.leakingRegionCount,
+      strokeWidthMedian: lineWeight?.medianWidth,
+      strokeWidthP10: lineWeight?.p10Width,
+      strokeWidthP90: lineWeight?.p90Width,
     };
 
     const debug = {
@@ -489,6 +530,12 @@ export async function validateImageQuality(
         bottomMargin: Math.round(composition.bottomMarginRatio * info.height),
         bottomBlankRatio: composition.bottomBlankRatio, // NEW
       },
+      regionAnalysis: regionAnalysis ? {
+        regionSizes: regionAnalysis.regionSizes,
+        largestRegionRatio: regionAnalysis.largestRegionRatio,
+        leaks: regionAnalysis.leaks,
+        bridgedRegionCount: regionAnalysis.bridgedRegionCount,
+      } : undefined,
     };
 
     // Quality gate checks (in order of severity)
@@ -529,6 +576,18 @@ export async function validateImageQuality(
       failures.push(`Bottom is ${(composition.bottomBlankRatio * 100).toFixed(0)}% empty (max ${(MAX_BOTTOM_BLANK_RATIO * 100).toFixed(0)}%)`);
     }
 
+    // Check 8: Colorability - outlines must be closed for coloring and flood fills
+    if (regionAnalysis && regionAnalysis.colorabilityScore < minColorabilityScore) {
+      failures.push(`Colorability ${regionAnalysis.colorabilityScore.toFixed(2)} below min ${minColorabilityScore.toFixed(2)} (${regionAnalysis.leakingRegionCount} leaking, ${regionAnalysis.regionCount} enclosed regions)`);
+    }
+
+    // Check 9: Line weight - strokes must match the declared line thickness
+    if (options.lineThickness && lineWeight && lineWeight.samples > 0 && !isLineWeightInBand(lineWeight, options.lineThickness)) {
+      const band = LINE_WEIGHT_BANDS[options.lineThickness];
+      const direction = lineWeight.medianWidth < band.min ? "thinner" : "thicker";
+      failures.push(`Line weight ${lineWeight.medianWidth}px is ${direction} than the ${options.lineThickness} band (${band.min}-${band.max}px at 300 DPI)`);
+    }
+
     if (failures.length > 0) {
       console.log(`[qualityGates] FAILED: ${failures.join("; ")}`);
       return {
@@ -573,12 +632,14 @@ export async function validateImageQuality(
 /**
  * Get thresholds for display
  */
-export function getQualityThresholds(complexity: Complexity) {
+export function getQualityThresholds(complexity: Complexity, lineThickness?: LineThickness) {
   return {
     maxBlackRatio: BLACK_RATIO_LIMITS[complexity],
     maxBlobRatio: MAX_BLOB_RATIO,
     minSubjectCoverage: MIN_SUBJECT_COVERAGE,
     maxTinyBlobCount: MAX_TINY_BLOB_COUNT,
+    minColorabilityScore: COLORABILITY_LIMITS[complexity].minScore,
+    lineWeightBand: lineThickness ? LINE_WEIGHT_BANDS[lineThickness] : undefined,
   };
 }
 
@@ -608,6 +669,16 @@ export function getRetryPromptAdjustments(failureReason: string, attempt: number
     adjustments.push("NO texture, NO stippling, NO halftone dots. Clean smooth lines only.");
   }
 
+  if (failureReason.includes("Colorability")) {
+    adjustments.push("CLOSED OUTLINES: Every shape must be fully enclosed by a continuous line. NO gaps, NO broken or sketchy strokes. Each area must be a separate closed region that can be colored in.");
+  }
+
+  if (failureReason.includes("Line weight")) {
+    adjustments.push(failureReason.includes("thinner")
+      ? "LINE WEIGHT: Lines are too thin. Use noticeably THICKER, bolder outlines throughout - no hairlines."
+      : "LINE WEIGHT: Lines are too heavy. Use noticeably THINNER, finer outlines throughout.");
+  }
+
   if (failureReason.includes("height") || failureReason.includes("fills")) {
     adjustments.push("COMPOSITION: Zoom in on subject. Subject should fill 70-80% of frame height. Less empty space.");
   }
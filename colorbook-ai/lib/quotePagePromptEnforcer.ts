@@ -64,6 +64,14 @@ export type QuoteTopic =
   | "nature_wonder"
   | "general";
 
+/**
+ * How the quote's lettering is made:
+ * - ai: the image model draws the lettering (can misspell)
+ * - vector: the model draws only the decoration around an empty text area and
+ *   the quote is typeset server-side in outline lettering (lib/quoteTypesetter.ts)
+ */
+export type TextRendering = "ai" | "vector";
+
 export interface QuotePageConfig {
   quote: string;
   decorationTheme: DecorationTheme;
@@ -78,6 +86,86 @@ export interface QuotePageConfig {
   motifPack?: string[]; // Explicit list of allowed motifs
   pageNumber?: number;
   totalPages?: number;
+  textRendering?: TextRendering; // Default "ai"
+  fontId?: string; // QUOTE_FONTS id for vector lettering
+}
+
+/**
+ * Book-level choices of a saved quote book (projects.settings.quoteBook).
+ * Each page's own QuotePageConfig is stored with its prompt.
+ */
+export interface QuoteBookSettings {
+  bookType: "different_quotes" | "same_quote_variations";
+  decorationLevel: DecorationLevel;
+  iconSet: IconSet;
+  decorationTheme: DecorationTheme;
+  typographyStyle: TypographyStyle;
+  density: DecorationDensity;
+  quotes: string[];
+  quotePrompt?: string;
+  textRendering?: TextRendering;
+  fontId?: string;
+}
+
+// ============================================================
+// VECTOR LETTERING (FONTS + RESERVED TEXT AREA)
+// ============================================================
+
+export interface QuoteFont {
+  id: string;
+  name: string;
+  typographyStyle: Exclude<TypographyStyle, "mixed">;
+  /** Bundled font file in assets/fonts */
+  file: string;
+  /** Pango family/weight name inside the file */
+  family: string;
+  /** Installed family used when the file isn't bundled */
+  fallback: string;
+}
+
+/**
+ * Fonts bundled for vector lettering (all SIL Open Font License).
+ * The first font of each typography style is its default.
+ */
+export const QUOTE_FONTS: QuoteFont[] = [
+  { id: "fredoka", name: "Fredoka", typographyStyle: "bubble", file: "Fredoka-Bold.ttf", family: "Fredoka Bold", fallback: "Sans Bold" },
+  { id: "baloo", name: "Baloo 2", typographyStyle: "bubble", file: "Baloo2-ExtraBold.ttf", family: "Baloo 2 ExtraBold", fallback: "Sans Bold" },
+  { id: "pacifico", name: "Pacifico", typographyStyle: "script", file: "Pacifico-Regular.ttf", family: "Pacifico", fallback: "Serif Bold Italic" },
+  { id: "dancing-script", name: "Dancing Script", typographyStyle: "script", file: "DancingScript-Bold.ttf", family: "Dancing Script Bold", fallback: "Serif Bold Italic" },
+  { id: "anton", name: "Anton", typographyStyle: "block", file: "Anton-Regular.ttf", family: "Anton", fallback: "Sans Condensed Bold" },
+  { id: "bebas-neue", name: "Bebas Neue", typographyStyle: "block", file: "BebasNeue-Regular.ttf", family: "Bebas Neue", fallback: "Sans Condensed Bold" },
+];
+
+/**
+ * The font a page is typeset in: the chosen font if it suits the page's
+ * typography style, otherwise the style's default (mixed pages use bubble).
+ */
+export function resolveQuoteFont(typographyStyle: TypographyStyle, fontId?: string): QuoteFont {
+  const chosen = QUOTE_FONTS.find(f => f.id === fontId);
+  if (chosen && (typographyStyle === "mixed" || chosen.typographyStyle === typographyStyle)) {
+    return chosen;
+  }
+  const style = typographyStyle === "mixed" ? "bubble" : typographyStyle;
+  return QUOTE_FONTS.find(f => f.typographyStyle === style)!;
+}
+
+/** Page area (fractions of width/height) left empty for vector lettering */
+export interface QuoteTextArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Where vector lettering goes. Decorated pages reserve a centered block;
+ * text-only pages use most of the page.
+ */
+export function getQuoteTextArea(decorationLevel: DecorationLevel): QuoteTextArea {
+  if (decorationLevel === "text_only") {
+    return { x: 0.08, y: 0.1, width: 0.84, height: 0.8 };
+  }
+  return { x: 0.15, y: 0.3, width: 0.7, height: 0.4 };
 }
 
 // ============================================================
@@ -498,6 +586,93 @@ This is a TYPOGRAPHY-ONLY coloring page. The text must be LARGE enough to fill t
 VALIDATION: If text is small/floating with big empty margins, the image fails.`;
 }
 
+// ============================================================
+// VECTOR LETTERING PROMPT (DECORATION ONLY, EMPTY TEXT AREA)
+// ============================================================
+
+/**
+ * Build a decoration-only prompt for vector lettering. The model must leave
+ * the text area empty and draw no letters at all - the quote is typeset
+ * into that area afterwards, so it is always spelled correctly.
+ */
+function buildReservedTextAreaPrompt(config: QuotePageConfig): string {
+  const {
+    quote,
+    density,
+    frameStyle,
+    decorationLevel,
+    topic,
+    motifPack,
+  } = config;
+
+  const cleanQuote = normalizeQuote(quote);
+  const actualTopic = topic || classifyQuoteTopic(cleanQuote).topic;
+  const actualMotifs = motifPack || getMotifPackForTopic(actualTopic);
+  const area = getQuoteTextArea(decorationLevel);
+  const pct = (value: number) => Math.round(value * 100);
+
+  const parts: string[] = [];
+
+  parts.push(CRITICAL_COLORING_PAGE_RULES);
+
+  parts.push(`Create a decorative COLORING BOOK PAGE that frames an EMPTY space where a quote will be added later.`);
+  parts.push(`The page is about: ${actualTopic.replace("_", " ")}.`);
+  parts.push("");
+
+  // ============================================================
+  // RESERVED TEXT AREA (CRITICAL)
+  // ============================================================
+  parts.push(`=== EMPTY TEXT AREA (CRITICAL) ===`);
+  parts.push(`- Leave a completely EMPTY, pure white rectangle in the middle of the page.`);
+  parts.push(`- It spans ${pct(area.x)}% to ${pct(area.x + area.width)}% of the page WIDTH and ${pct(area.y)}% to ${pct(area.y + area.height)}% of the page HEIGHT.`);
+  parts.push(`- NOTHING inside it: no lines, no icons, no patterns, no frame lines crossing it.`);
+  parts.push(`- Do NOT draw a box or outline around it - decorations simply stop at its edge.`);
+  parts.push("");
+  parts.push(`=== NO TEXT ANYWHERE ===`);
+  parts.push(`- Do NOT write any letters, words, numbers or symbols that look like text.`);
+  parts.push(`- No banners or ribbons with writing. The quote is added by software.`);
+  parts.push("");
+
+  // ============================================================
+  // DECORATION LEVEL RULES (STRICT)
+  // ============================================================
+  parts.push(`=== DECORATION RULES (STRICT - MUST FOLLOW EXACTLY) ===`);
+
+  if (decorationLevel === "minimal_icons") {
+    const iconsToUse = actualMotifs.slice(0, 6).join(", ");
+    parts.push(`DECORATION LEVEL: MINIMAL ICONS`);
+    parts.push(`- Add only 6-10 SMALL, SPARSE outline icons around the empty area.`);
+    parts.push(`- Icons MUST be from this list ONLY: ${iconsToUse}`);
+    parts.push(`- Density: ${DENSITY_LEVELS[density]}`);
+  } else if (decorationLevel === "border_only") {
+    const borderMotifs = actualMotifs.slice(0, 4).join(", ");
+    parts.push(`DECORATION LEVEL: BORDER ONLY`);
+    parts.push(`- Add a decorative ${FRAME_STYLES[frameStyle] || "thin outline"} border.`);
+    parts.push(`- Border elements can include: ${borderMotifs}`);
+    parts.push(`- NO interior decorations, NO background patterns.`);
+  } else {
+    const bgMotifs = actualMotifs.join(", ");
+    parts.push(`DECORATION LEVEL: FULL BACKGROUND`);
+    parts.push(`- Fill the page AROUND the empty area with decorations from this list: ${bgMotifs}`);
+    parts.push(`- Density: ${DENSITY_LEVELS[density]}`);
+  }
+  parts.push(`- DO NOT add: animals, characters, toys, complex scenery.`);
+  parts.push("");
+
+  parts.push(QUOTE_STYLE_SPEC);
+  if (frameStyle === "none" && decorationLevel !== "border_only") {
+    parts.push(`- NO border or frame.`);
+  }
+  parts.push("");
+  parts.push(QUOTE_FULL_PAGE_CONSTRAINT);
+  parts.push(STRICT_NO_CHARACTERS_BLOCK);
+
+  parts.push(`*** FINAL CHECK: The middle area is EMPTY WHITE and there is NO TEXT anywhere on the page. ***`);
+  parts.push(`*** WHITE background, BLACK outlines only, NO fills ***`);
+
+  return parts.join("\n");
+}
+
 // ============================================================
 // MAIN PROMPT BUILDER
 // ============================================================
@@ -529,6 +704,11 @@ export function buildQuotePagePrompt(config: QuotePageConfig): string {
     return buildTextOnlyPrompt(quote, typographyStyle);
   }
 
+  // Vector lettering: the model only draws the decoration
+  if (config.textRendering === "vector") {
+    return buildReservedTextAreaPrompt(config);
+  }
+
   // ============================================================
   // DECORATED MODES (minimal_icons, border_only, full_background)
   // ============================================================
@@ -0,0 +1,227 @@
+/**
+ * quoteTypesetter.ts
+ *
+ * Vector lettering for quote pages. The quote is typeset with a bundled font
+ * (assets/fonts, see QUOTE_FONTS) and turned into hollow outline letters, then
+ * composited with sharp into the empty text area of an AI-drawn decoration -
+ * so the spelling is always exactly the quote and the letters are colorable.
+ *
+ * OUTLINE STRATEGY:
+ * 1. Pango renders the quote (auto-fitted to the text area) as a glyph mask
+ * 2. A chamfer distance transform measures every pixel's distance to the glyphs
+ * 3. Pixels within `stroke` of a glyph become the black outline; glyph
+ *    interiors stay white
+ * 4. Pixels a little further out are painted white so no decoration line
+ *    touches the lettering
+ */
+
+import fs from "fs";
+import path from "path";
+import sharp from "sharp";
+import {
+  getQuoteTextArea,
+  normalizeQuote,
+  formatQuoteForPrompt,
+  resolveQuoteFont,
+  type DecorationLevel,
+  type QuoteFont,
+  type TypographyStyle,
+} from "@/lib/quotePagePromptEnforcer";
+import { LETTER_WIDTH, LETTER_HEIGHT } from "@/lib/imageProcessing";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Bundled font files */
+export const QUOTE_FONTS_DIR = path.join(process.cwd(), "assets", "fonts");
+
+/** Outline thickness as a fraction of page width (~8px on a 1024px page) */
+const STROKE_RATIO = 0.008;
+
+/** White gap kept between the outline and any decoration, in strokes */
+const KNOCKOUT_STROKES = 2;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TypesetQuoteOptions {
+  quote: string;
+  typographyStyle: TypographyStyle;
+  decorationLevel: DecorationLevel;
+  /** QUOTE_FONTS id; falls back to the typography style's default */
+  fontId?: string;
+  /**
+   * Decoration artwork with an empty text area. Omitted for text-only pages,
+   * which are typeset on a blank US Letter page.
+   */
+  background?: Buffer;
+}
+
+export interface TypesetQuoteResult {
+  /** Grayscale PNG */
+  buffer: Buffer;
+  /** Font the quote was set in */
+  font: QuoteFont;
+  /** False when the bundled file was missing and the installed fallback was used */
+  bundledFont: boolean;
+}
+
+// ============================================
+// TYPESETTING
+// ============================================
+
+/**
+ * Typeset a quote in hollow outline lettering onto a page
+ */
+export async function typesetQuotePage(options: TypesetQuoteOptions): Promise<TypesetQuoteResult> {
+  const { quote, typographyStyle, decorationLevel, fontId, background } = options;
+  const font = resolveQuoteFont(typographyStyle, fontId);
+  const fontFile = path.join(QUOTE_FONTS_DIR, font.file);
+  const bundledFont = fs.existsSync(fontFile);
+
+  if (!bundledFont) {
+    console.warn(`[quoteTypesetter] ${font.file} not found in assets/fonts, using "${font.fallback}"`);
+  }
+
+  // Page to typeset onto
+  const page = background
+    ? sharp(background).flatten({ background: "#ffffff" }).grayscale()
+    : sharp({
+        create: { width: LETTER_WIDTH, height: LETTER_HEIGHT, channels: 3, background: "#ffffff" },
+      }).grayscale();
+  const pageBuffer = await page.png().toBuffer();
+  const { width: pageWidth = LETTER_WIDTH, height: pageHeight = LETTER_HEIGHT } = await sharp(pageBuffer).metadata();
+
+  const area = getQuoteTextArea(decorationLevel);
+  const box = {
+    left: Math.round(area.x * pageWidth),
+    top: Math.round(area.y * pageHeight),
+    width: Math.round(area.width * pageWidth),
+    height: Math.round(area.height * pageHeight),
+  };
+  const stroke = Math.max(2, Math.round(pageWidth * STROKE_RATIO));
+  const knockout = stroke * (1 + KNOCKOUT_STROKES);
+
+  // 1. Glyph mask, auto-fitted inside the box with room for the outline
+  const text = await sharp({
+    text: {
+      text: escapePangoMarkup(formatQuoteForPrompt(normalizeQuote(quote))),
+      font: bundledFont ? font.family : font.fallback,
+      fontfile: bundledFont ? fontFile : undefined,
+      width: box.width - knockout * 2,
+      height: box.height - knockout * 2,
+      align: "centre",
+      wrap: "word",
+    },
+  })
+    .extractChannel(0)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  // Center the rendered text in the box
+  const maskWidth = box.width;
+  const maskHeight = box.height;
+  const offsetX = Math.floor((maskWidth - text.info.width) / 2);
+  const offsetY = Math.floor((maskHeight - text.info.height) / 2);
+  const glyphs = new Uint8Array(maskWidth * maskHeight);
+  for (let y = 0; y < text.info.height; y++) {
+    for (let x = 0; x < text.info.width; x++) {
+      if (text.data[y * text.info.width + x] >= 128) {
+        glyphs[(y + offsetY) * maskWidth + (x + offsetX)] = 1;
+      }
+    }
+  }
+
+  // 2-4. Outline + knockout overlay
+  const distance = chamferDistance(glyphs, maskWidth, maskHeight, knockout + 1);
+  const overlay = Buffer.alloc(maskWidth * maskHeight * 2); // gray + alpha
+  for (let i = 0; i < glyphs.length; i++) {
+    const d = distance[i];
+    if (glyphs[i]) {
+      overlay[i * 2] = 255; // hollow interior
+      overlay[i * 2 + 1] = 255;
+    } else if (d <= stroke) {
+      overlay[i * 2] = 0; // outline
+      overlay[i * 2 + 1] = 255;
+    } else if (d <= knockout) {
+      overlay[i * 2] = 255; // clear decoration away from the letters
+      overlay[i * 2 + 1] = 255;
+    }
+  }
+
+  const overlayPng = await sharp(overlay, {
+    raw: { width: maskWidth, height: maskHeight, channels: 2 },
+  }).png().toBuffer();
+
+  const buffer = await sharp(pageBuffer)
+    .composite([{ input: overlayPng, left: box.left, top: box.top }])
+    .grayscale()
+    .png()
+    .toBuffer();
+
+  return { buffer, font, bundledFont };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function escapePangoMarkup(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Approximate Euclidean distance (in pixels) from every pixel to the nearest
+ * glyph pixel, using a two-pass 3-4 chamfer transform. Distances are capped
+ * at `max` since only the outline and knockout bands matter.
+ */
+function chamferDistance(glyphs: Uint8Array, width: number, height: number, max: number): Float32Array {
+  const cap = max * 3;
+  const dist = new Uint16Array(width * height);
+  for (let i = 0; i < dist.length; i++) {
+    dist[i] = glyphs[i] ? 0 : cap;
+  }
+
+  // Forward pass
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      let d = dist[i];
+      if (d === 0) continue;
+      if (x > 0) d = Math.min(d, dist[i - 1] + 3);
+      if (y > 0) {
+        d = Math.min(d, dist[i - width] + 3);
+        if (x > 0) d = Math.min(d, dist[i - width - 1] + 4);
+        if (x < width - 1) d = Math.min(d, dist[i - width + 1] + 4);
+      }
+      dist[i] = d;
+    }
+  }
+
+  // Backward pass
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      let d = dist[i];
+      if (d === 0) continue;
+      if (x < width - 1) d = Math.min(d, dist[i + 1] + 3);
+      if (y < height - 1) {
+        d = Math.min(d, dist[i + width] + 3);
+        if (x < width - 1) d = Math.min(d, dist[i + width + 1] + 4);
+        if (x > 0) d = Math.min(d, dist[i + width - 1] + 4);
+      }
+      dist[i] = d;
+    }
+  }
+
+  const result = new Float32Array(width * height);
+  for (let i = 0; i < dist.length; i++) {
+    result[i] = dist[i] / 3;
+  }
+  return result;
+}
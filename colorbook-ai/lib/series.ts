@@ -0,0 +1,68 @@
+/**
+ * series.ts - Types for Series
+ *
+ * A series groups books published as "Volume 1, 2, 3" of the same theme.
+ * Each volume is a project (projects.series_id / series_volume) that
+ * inherits the series' Style Library style, Character Library character,
+ * author and front-matter template, and its title page reads "Book N of
+ * the <name> series". Scene planning avoids settings and actions used by
+ * earlier volumes. Series are persisted by lib/seriesStore.ts.
+ */
+
+import type { AppliedLibraryStyle } from "./styleLibrary";
+import type { AppliedLibraryCharacter } from "./characterLibrary";
+
+export type FrontMatterVariant = "minimal" | "classic" | "bordered";
+
+/**
+ * Front matter every volume of a series is exported with
+ */
+export interface SeriesFrontMatterTemplate {
+  /** Title/copyright page design for /api/front-matter/build */
+  variant: FrontMatterVariant;
+  includeTitlePage: boolean;
+  includeCopyrightPage: boolean;
+  includeBelongsToPage: boolean;
+}
+
+export const DEFAULT_SERIES_FRONT_MATTER: SeriesFrontMatterTemplate = {
+  variant: "classic",
+  includeTitlePage: true,
+  includeCopyrightPage: true,
+  includeBelongsToPage: false,
+};
+
+export interface Series {
+  id: string;
+  name: string;
+  description: string | null;
+  authorName: string | null;
+  /** Replaces the default copyright notice; one line per line */
+  copyrightText: string | null;
+  frontMatter: SeriesFrontMatterTemplate;
+  styleLibrary: AppliedLibraryStyle | null;
+  characterLibrary: AppliedLibraryCharacter | null;
+  volumeCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SeriesVolume {
+  projectId: string;
+  name: string;
+  volume: number;
+  status: string;
+  createdAt: string;
+}
+
+export interface SeriesWithVolumes extends Series {
+  /** Ordered by volume number */
+  volumes: SeriesVolume[];
+}
+
+/**
+ * The title-page line for a volume, e.g. "Book 2 of the Ocean Friends series"
+ */
+export function formatSeriesVolumeLine(seriesName: string, volume: number): string {
+  return `Book ${volume} of the ${seriesName} series`;
+}
@@ -0,0 +1,338 @@
+/**
+ * Series Store
+ *
+ * Per-user series (series) and their volumes (projects.series_id /
+ * series_volume). Each volume's planned scene elements are kept in
+ * series.used_elements so planning the next volume can avoid them.
+ */
+
+import "server-only";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+import {
+  clearProjectSeriesVolume,
+  clearSeriesVolumes,
+  countSeriesVolumes,
+  getProjectSeriesVolume,
+  listSeriesVolumeProjects,
+  setProjectSeriesVolume,
+} from "@/lib/projectStore";
+import {
+  createEmptyMemory,
+  deserializeMemory,
+  rememberPage,
+  serializeMemory,
+  type PageOutline,
+  type UsedElementsMemory,
+} from "@/lib/ideaPlanner";
+import {
+  DEFAULT_SERIES_FRONT_MATTER,
+  type Series,
+  type SeriesFrontMatterTemplate,
+  type SeriesVolume,
+  type SeriesWithVolumes,
+} from "@/lib/series";
+import type { AppliedLibraryStyle } from "@/lib/styleLibrary";
+import type { AppliedLibraryCharacter } from "@/lib/characterLibrary";
+import type { SeriesRecord } from "@/types/database";
+
+export interface CreateSeriesInput {
+  name: string;
+  description?: string;
+  authorName?: string;
+  copyrightText?: string;
+  frontMatter?: Partial<SeriesFrontMatterTemplate>;
+  styleLibrary?: AppliedLibraryStyle | null;
+  characterLibrary?: AppliedLibraryCharacter | null;
+}
+
+export interface SeriesPatch {
+  name?: string;
+  description?: string | null;
+  authorName?: string | null;
+  copyrightText?: string | null;
+  frontMatter?: Partial<SeriesFrontMatterTemplate>;
+  styleLibrary?: AppliedLibraryStyle | null;
+  characterLibrary?: AppliedLibraryCharacter | null;
+}
+
+/**
+ * The series a project belongs to, for front matter
+ */
+export interface ProjectSeries {
+  series: Series;
+  volume: number;
+}
+
+// ============================================
+// Series
+// ============================================
+
+/**
+ * Create an empty series
+ */
+export async function createSeries(userId: string, input: CreateSeriesInput): Promise<Series> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("series")
+    .insert({
+      user_id: userId,
+      name: input.name,
+      description: input.description || null,
+      author_name: input.authorName || null,
+      copyright_text: input.copyrightText || null,
+      front_matter: { ...DEFAULT_SERIES_FRONT_MATTER, ...input.frontMatter },
+      style_library: input.styleLibrary ?? null,
+      character_library: input.characterLibrary ?? null,
+      used_elements: {},
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message || "Failed to create series");
+  }
+  return toSeries(data as SeriesRecord, 0);
+}
+
+/**
+ * A user's series with volume counts, most recently updated first
+ */
+export async function listSeries(userId: string): Promise<Series[]> {
+  const supabase = getSupabaseServerClient();
+  const { data: rows, error } = await supabase
+    .from("series")
+    .select("*")
+    .eq("user_id", userId)
+    .order("updated_at", { ascending: false });
+
+  if (error) throw new Error(error.message);
+  if (!rows || rows.length === 0) return [];
+
+  const counts = await countSeriesVolumes(userId);
+  return (rows as SeriesRecord[]).map((row) => toSeries(row, counts.get(row.id) ?? 0));
+}
+
+/**
+ * A user's series with its volumes, or null if it doesn't exist or isn't theirs
+ */
+export async function getSeries(seriesId: string, userId: string): Promise<SeriesWithVolumes | null> {
+  const row = await getSeriesRecord(seriesId, userId);
+  if (!row) return null;
+
+  const volumes = await listVolumes(seriesId, userId);
+  return { ...toSeries(row, volumes.length), volumes };
+}
+
+/**
+ * Edit a series' details or shared assets. Returns null if it doesn't exist
+ * or isn't the user's.
+ */
+export async function updateSeries(
+  seriesId: string,
+  userId: string,
+  patch: SeriesPatch
+): Promise<SeriesWithVolumes | null> {
+  const existing = await getSeriesRecord(seriesId, userId);
+  if (!existing) return null;
+
+  const row: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (patch.name !== undefined) row.name = patch.name;
+  if (patch.description !== undefined) row.description = patch.description;
+  if (patch.authorName !== undefined) row.author_name = patch.authorName;
+  if (patch.copyrightText !== undefined) row.copyright_text = patch.copyrightText;
+  if (patch.frontMatter !== undefined) row.front_matter = { ...existing.front_matter, ...patch.frontMatter };
+  if (patch.styleLibrary !== undefined) row.style_library = patch.styleLibrary;
+  if (patch.characterLibrary !== undefined) row.character_library = patch.characterLibrary;
+
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("series")
+    .update(row)
+    .eq("id", seriesId)
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message || "Failed to update series");
+  }
+
+  const volumes = await listVolumes(seriesId, userId);
+  return { ...toSeries(data as SeriesRecord, volumes.length), volumes };
+}
+
+/**
+ * Delete a series. Its volumes stay as standalone projects.
+ */
+export async function deleteSeries(seriesId: string, userId: string): Promise<boolean> {
+  const existing = await getSeriesRecord(seriesId, userId);
+  if (!existing) return false;
+
+  await clearSeriesVolumes(seriesId, userId);
+
+  const supabase = getSupabaseServerClient();
+  const { error } = await supabase.from("series").delete().eq("id", seriesId);
+  if (error) throw new Error(error.message);
+  return true;
+}
+
+// ============================================
+// Volumes
+// ============================================
+
+/**
+ * Make a project the next volume of a series. A project already in the
+ * series keeps its number. Returns the volume number, or null if the
+ * series or project isn't the user's.
+ */
+export async function addSeriesVolume(
+  seriesId: string,
+  userId: string,
+  projectId: string
+): Promise<number | null> {
+  if (!(await getSeriesRecord(seriesId, userId))) return null;
+
+  const project = await getProjectSeriesVolume(projectId, userId);
+  if (!project) return null;
+  if (project.series_id === seriesId && project.series_volume) {
+    return project.series_volume;
+  }
+  if (project.series_id) {
+    await removeSeriesVolume(project.series_id, userId, projectId);
+  }
+
+  const volumes = await listSeriesVolumeProjects(seriesId, userId);
+  const volume = Math.max(0, ...volumes.map((v) => v.series_volume ?? 0)) + 1;
+  await setProjectSeriesVolume(projectId, userId, seriesId, volume);
+  return volume;
+}
+
+/**
+ * Take a project out of a series and forget its planned scenes. Later
+ * volumes keep their numbers.
+ */
+export async function removeSeriesVolume(seriesId: string, userId: string, projectId: string): Promise<boolean> {
+  const row = await getSeriesRecord(seriesId, userId);
+  if (!row) return false;
+
+  if (!(await clearProjectSeriesVolume(projectId, userId, seriesId))) return false;
+
+  const supabase = getSupabaseServerClient();
+  const { error } = await supabase.rpc("remove_series_volume_elements", {
+    p_series_id: seriesId,
+    p_project_id: projectId,
+  });
+
+  if (error) {
+    console.error("[seriesStore] Failed to forget volume elements:", error);
+  }
+  return true;
+}
+
+/**
+ * The series and volume number of a user's project, or null if it isn't in one
+ */
+export async function getProjectSeries(projectId: string, userId: string): Promise<ProjectSeries | null> {
+  const project = await getProjectSeriesVolume(projectId, userId);
+  if (!project?.series_id || !project.series_volume) return null;
+
+  const row = await getSeriesRecord(project.series_id, userId);
+  if (!row) return null;
+
+  return { series: toSeries(row, 0), volume: project.series_volume };
+}
+
+// ============================================
+// Anti-repetition across volumes
+// ============================================
+
+/**
+ * Everything the series' other volumes planned, as one UsedElementsMemory
+ */
+export async function getSeriesMemory(seriesId: string, excludeProjectId?: string): Promise<UsedElementsMemory> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("series")
+    .select("used_elements")
+    .eq("id", seriesId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+
+  const memory = createEmptyMemory();
+  const usedElements = (data?.used_elements ?? {}) as SeriesRecord["used_elements"];
+  for (const [projectId, elements] of Object.entries(usedElements)) {
+    if (projectId !== excludeProjectId) {
+      deserializeMemory(elements, memory);
+    }
+  }
+  return memory;
+}
+
+/**
+ * Store the scenes a volume planned, replacing any earlier plan for it
+ */
+export async function recordVolumeElements(
+  seriesId: string,
+  projectId: string,
+  pages: PageOutline[]
+): Promise<void> {
+  const memory = createEmptyMemory();
+  pages.forEach((page) => rememberPage(memory, page));
+
+  // Set just this volume's key - a read-modify-write of used_elements would
+  // drop scenes another volume recorded at the same time
+  const supabase = getSupabaseServerClient();
+  const { error } = await supabase.rpc("set_series_volume_elements", {
+    p_series_id: seriesId,
+    p_project_id: projectId,
+    p_elements: serializeMemory(memory),
+  });
+
+  if (error) {
+    console.error("[seriesStore] Failed to record volume elements:", error);
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+async function getSeriesRecord(seriesId: string, userId: string): Promise<SeriesRecord | null> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("series")
+    .select("*")
+    .eq("id", seriesId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return (data as SeriesRecord | null) ?? null;
+}
+
+async function listVolumes(seriesId: string, userId: string): Promise<SeriesVolume[]> {
+  const projects = await listSeriesVolumeProjects(seriesId, userId);
+  return projects.map((p) => ({
+    projectId: p.id,
+    name: p.name,
+    volume: p.series_volume ?? 0,
+    status: p.status,
+    createdAt: p.created_at,
+  }));
+}
+
+function toSeries(row: SeriesRecord, volumeCount: number): Series {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    authorName: row.author_name,
+    copyrightText: row.copyright_text,
+    frontMatter: { ...DEFAULT_SERIES_FRONT_MATTER, ...row.front_matter },
+    styleLibrary: row.style_library,
+    characterLibrary: row.character_library,
+    volumeCount,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Image enhancer selection.
+ *
+ * IMAGE_ENHANCER=replicate - Real-ESRGAN on Replicate (default with REPLICATE_API_TOKEN)
+ * IMAGE_ENHANCER=local     - sharp line-art pipeline, no network (default otherwise)
+ *
+ * A project can pin its own enhancer (settings.enhancer); routes pass it as
+ * the `enhancer` request field, which overrides IMAGE_ENHANCER.
+ */
+
+import { replicateImageEnhancer } from "./replicateEnhancer";
+import { localImageEnhancer } from "./localEnhancer";
+import type { ImageEnhancer, ImageEnhancerName } from "./types";
+
+export type * from "./types";
+
+const ENHANCERS: Record<ImageEnhancerName, ImageEnhancer> = {
+  replicate: replicateImageEnhancer,
+  local: localImageEnhancer,
+};
+
+let warnedUnknown = false;
+
+/**
+ * Name of the enhancer selected by IMAGE_ENHANCER
+ */
+export function getImageEnhancerName(): ImageEnhancerName {
+  const fallback: ImageEnhancerName = replicateImageEnhancer.isConfigured() ? "replicate" : "local";
+  const value = (process.env.IMAGE_ENHANCER || fallback).trim().toLowerCase();
+  if (value in ENHANCERS) {
+    return value as ImageEnhancerName;
+  }
+
+  if (!warnedUnknown) {
+    console.warn(`[imageEnhancers] Unknown IMAGE_ENHANCER "${value}", using ${fallback}`);
+    warnedUnknown = true;
+  }
+  return fallback;
+}
+
+/**
+ * The enhancer a request asked for, or the active one
+ */
+export function getImageEnhancer(name?: ImageEnhancerName): ImageEnhancer {
+  return ENHANCERS[name ?? getImageEnhancerName()];
+}
@@ -0,0 +1,37 @@
+/**
+ * Local image enhancer - line-art upscaling with sharp.
+ *
+ * Runs lib/lineArtEnhance.ts in-process: upscale, close broken lines,
+ * despeckle, re-threshold. Deterministic, so re-enhancing a page gives the
+ * same bytes, and free - nothing is recorded in generation_costs.
+ * An imageUrl is fetched by this server, so only our own Supabase Storage
+ * URLs are accepted.
+ */
+
+import { enhanceLineArt } from "@/lib/lineArtEnhance";
+import { base64ToBuffer, bufferToBase64, fetchImageAsBase64 } from "@/lib/imageProcessing";
+import { isSupabaseStorageUrl } from "@/lib/supabase/server";
+import type { EnhanceImageRequest, EnhanceImageResult, ImageEnhancer } from "./types";
+
+async function enhance(request: EnhanceImageRequest): Promise<EnhanceImageResult> {
+  if (!request.imageBase64 && request.imageUrl && !isSupabaseStorageUrl(request.imageUrl)) {
+    throw new Error("The local enhancer only fetches images from this app's storage");
+  }
+
+  const imageBase64 = request.imageBase64 ?? (request.imageUrl ? await fetchImageAsBase64(request.imageUrl) : null);
+  if (!imageBase64) {
+    throw new Error("No image provided");
+  }
+
+  const result = await enhanceLineArt(base64ToBuffer(imageBase64), { scale: request.scale });
+  console.log(`[imageEnhancers/local] Enhanced to ${result.width}x${result.height}, ${result.specksRemoved} specks removed`);
+
+  return { imageBase64: bufferToBase64(result.buffer) };
+}
+
+export const localImageEnhancer: ImageEnhancer = {
+  name: "local",
+  model: "sharp-line-art",
+  isConfigured: () => true,
+  enhance,
+};
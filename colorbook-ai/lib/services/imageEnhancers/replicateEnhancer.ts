@@ -0,0 +1,108 @@
+/**
+ * Replicate image enhancer - Real-ESRGAN over the Replicate HTTP API.
+ *
+ * Needs REPLICATE_API_TOKEN. Every prediction is recorded in
+ * generation_costs, whether or not it succeeded.
+ */
+
+import { recordEnhanceCost } from "@/lib/generationCosts";
+import type { EnhanceImageRequest, EnhanceImageResult, ImageEnhancer } from "./types";
+
+const REPLICATE_MODEL = "nightmareai/real-esrgan";
+const REPLICATE_MODEL_VERSION = "f121d640bd286e1fdc67f9799164c1d5be36ff74576ee11c803ae5b665dd46aa";
+
+function isReplicateConfigured(): boolean {
+  return !!process.env.REPLICATE_API_TOKEN;
+}
+
+async function enhance(request: EnhanceImageRequest): Promise<EnhanceImageResult> {
+  const apiToken = process.env.REPLICATE_API_TOKEN;
+  if (!apiToken) {
+    throw new Error("REPLICATE_API_TOKEN not configured");
+  }
+
+  // Replicate takes a URL or a data URI
+  const inputImage = request.imageUrl ?? `data:image/png;base64,${request.imageBase64}`;
+
+  const createResponse = await fetch("https://api.replicate.com/v1/predictions", {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${apiToken}`,
+      "Content-Type": "application/json",
+      "Prefer": "wait", // Wait for result instead of polling
+    },
+    body: JSON.stringify({
+      version: REPLICATE_MODEL_VERSION,
+      input: {
+        image: inputImage,
+        scale: request.scale,
+        face_enhance: false,
+      },
+    }),
+  });
+
+  if (!createResponse.ok) {
+    const errorData = await createResponse.json().catch(() => ({}));
+    console.error("[imageEnhancers/replicate] API error:", errorData);
+    throw new Error(errorData.detail || `Replicate API error: ${createResponse.status}`);
+  }
+
+  let prediction = await createResponse.json();
+
+  // If not completed yet, poll for result
+  while (prediction.status === "starting" || prediction.status === "processing") {
+    await new Promise(resolve => setTimeout(resolve, 2000));
+
+    const pollResponse = await fetch(`https://api.replicate.com/v1/predictions/${prediction.id}`, {
+      headers: { "Authorization": `Bearer ${apiToken}` },
+    });
+
+    if (!pollResponse.ok) {
+      throw new Error(`Failed to poll prediction: ${pollResponse.status}`);
+    }
+
+    prediction = await pollResponse.json();
+  }
+
+  // Replicate bills GPU time whether or not the prediction succeeded
+  await recordEnhanceCost({
+    model: REPLICATE_MODEL,
+    predictTime: prediction.metrics?.predict_time,
+  });
+
+  if (prediction.status === "failed") {
+    throw new Error(prediction.error || "Enhancement failed");
+  }
+
+  if (prediction.status !== "succeeded") {
+    throw new Error(`Unexpected prediction status: ${prediction.status}`);
+  }
+
+  const output = prediction.output;
+  const enhancedUrl: string | undefined = typeof output === "string"
+    ? output
+    : Array.isArray(output) ? output[0] : undefined;
+
+  if (!enhancedUrl) {
+    console.error("[imageEnhancers/replicate] Unexpected output format:", output);
+    throw new Error("Unexpected output format from enhancement model");
+  }
+
+  const enhancedResponse = await fetch(enhancedUrl);
+  if (!enhancedResponse.ok) {
+    throw new Error("Failed to fetch enhanced image");
+  }
+
+  const arrayBuffer = await enhancedResponse.arrayBuffer();
+  return {
+    imageBase64: Buffer.from(arrayBuffer).toString("base64"),
+    imageUrl: enhancedUrl,
+  };
+}
+
+export const replicateImageEnhancer: ImageEnhancer = {
+  name: "replicate",
+  model: REPLICATE_MODEL,
+  isConfigured: isReplicateConfigured,
+  enhance,
+};
@@ -0,0 +1,42 @@
+/**
+ * Image enhancer contract.
+ *
+ * An enhancer upscales a generated page before it is reframed to print size
+ * (lib/imageProcessing.ts processPageToLetter). Callers own reframing and
+ * decide what to do when enhancement fails.
+ */
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type ImageEnhancerName = "replicate" | "local";
+
+export interface EnhanceImageRequest {
+  // Either imageBase64 (PNG) or imageUrl
+  imageBase64?: string;
+  imageUrl?: string;
+  scale: number; // 1-4
+}
+
+export interface EnhanceImageResult {
+  imageBase64: string; // enhanced PNG
+  /** Hosted copy of the result, when the enhancer produced one */
+  imageUrl?: string;
+}
+
+// ============================================================
+// ENHANCER INTERFACE
+// ============================================================
+
+export interface ImageEnhancer {
+  readonly name: ImageEnhancerName;
+  /** Model identifier, for logs and cost rows */
+  readonly model: string;
+
+  /** Whether the enhancer can run with the current environment */
+  isConfigured(): boolean;
+
+  /** Upscale one page */
+  enhance(request: EnhanceImageRequest): Promise<EnhanceImageResult>;
+}
@@ -0,0 +1,204 @@
+/**
+ * Fake image provider - deterministic local line art.
+ *
+ * Selected with IMAGE_PROVIDER=fake. Draws black outlined shapes on white
+ * with sharp, seeded from the prompt, so the same prompt always gives the
+ * same image. Lets the create → generate → export flow run offline and in
+ * automated tests without an API key or credits.
+ */
+
+import { createHash } from "crypto";
+import sharp from "sharp";
+import type {
+  ImageProvider,
+  ProviderBatchOutputItem,
+  ProviderBatchRequest,
+  ProviderBatchStatus,
+  ProviderEditRequest,
+  ProviderGenerateRequest,
+} from "./types";
+
+const FAKE_MODEL = "fake-line-art";
+
+// ============================================================
+// DRAWING
+// ============================================================
+
+/**
+ * Small seeded PRNG (mulberry32)
+ */
+function createRandom(seedText: string): () => number {
+  let seed = createHash("sha256").update(seedText).digest().readUInt32LE(0);
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = seed;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function parseSize(size: string): { width: number; height: number } {
+  const [width, height] = size.split("x").map((v) => parseInt(v, 10));
+  return { width: width || 1024, height: height || 1024 };
+}
+
+function starPoints(cx: number, cy: number, outer: number, inner: number, spikes: number): string {
+  const points: string[] = [];
+  for (let i = 0; i < spikes * 2; i++) {
+    const radius = i % 2 === 0 ? outer : inner;
+    const angle = (Math.PI * i) / spikes - Math.PI / 2;
+    points.push(`${(cx + radius * Math.cos(angle)).toFixed(1)},${(cy + radius * Math.sin(angle)).toFixed(1)}`);
+  }
+  return points.join(" ");
+}
+
+/**
+ * Build an SVG of white-filled, black-outlined shapes over a ground line
+ */
+function buildLineArtSvg(seedText: string, width: number, height: number): string {
+  const random = createRandom(seedText);
+  const stroke = Math.max(4, Math.round(Math.min(width, height) / 160));
+  const margin = Math.round(Math.min(width, height) * 0.08);
+  const groundY = Math.round(height * 0.86);
+
+  const shapes: string[] = [];
+  const shapeCount = 5 + Math.floor(random() * 5);
+
+  for (let i = 0; i < shapeCount; i++) {
+    const size = Math.min(width, height) * (0.1 + random() * 0.18);
+    const cx = margin + size + random() * Math.max(1, width - 2 * (margin + size));
+    const cy = margin + size + random() * Math.max(1, groundY - margin - 2 * size);
+
+    switch (Math.floor(random() * 4)) {
+      case 0:
+        shapes.push(`<circle cx="${cx.toFixed(1)}" cy="${cy.toFixed(1)}" r="${size.toFixed(1)}" />`);
+        break;
+      case 1:
+        shapes.push(
+          `<rect x="${(cx - size).toFixed(1)}" y="${(cy - size * 0.7).toFixed(1)}" width="${(size * 2).toFixed(1)}" height="${(size * 1.4).toFixed(1)}" rx="${(size * 0.2).toFixed(1)}" />`
+        );
+        break;
+      case 2:
+        shapes.push(`<polygon points="${starPoints(cx, cy, size, size * 0.45, 5 + Math.floor(random() * 3))}" />`);
+        break;
+      default:
+        shapes.push(
+          `<polygon points="${cx.toFixed(1)},${(cy - size).toFixed(1)} ${(cx + size).toFixed(1)},${(cy + size).toFixed(1)} ${(cx - size).toFixed(1)},${(cy + size).toFixed(1)}" />`
+        );
+    }
+  }
+
+  // Wavy ground line keeps the bottom of the page filled, like real pages
+  const waves = 6;
+  let ground = `M 0 ${groundY}`;
+  for (let i = 1; i <= waves; i++) {
+    const x = (width / waves) * i;
+    const peak = groundY + (random() - 0.5) * height * 0.04;
+    ground += ` Q ${(x - width / waves / 2).toFixed(1)} ${peak.toFixed(1)} ${x.toFixed(1)} ${groundY}`;
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <rect width="100%" height="100%" fill="#ffffff" />
+  <g fill="#ffffff" stroke="#000000" stroke-width="${stroke}" stroke-linejoin="round">
+    ${shapes.join("\n    ")}
+    <path d="${ground}" fill="none" />
+  </g>
+</svg>`;
+}
+
+async function renderLineArt(seedText: string, size: string): Promise<string> {
+  const { width, height } = parseSize(size);
+  const svg = buildLineArtSvg(seedText, width, height);
+  const png = await sharp(Buffer.from(svg))
+    .flatten({ background: "#ffffff" })
+    .png()
+    .toBuffer();
+  return png.toString("base64");
+}
+
+// ============================================================
+// BATCHES
+// ============================================================
+
+// Submitted batches complete immediately and live in process memory.
+// Kept on globalThis so they survive dev-server module reloads.
+const globalForFake = globalThis as unknown as {
+  fakeImageBatches?: Map<string, ProviderBatchRequest[]>;
+};
+const batches = (globalForFake.fakeImageBatches ??= new Map());
+
+async function submitBatch(requests: ProviderBatchRequest[]): Promise<string> {
+  const digest = createHash("sha256")
+    .update(requests.map((r) => `${r.customId}:${r.prompt}`).join("\n"))
+    .digest("hex")
+    .slice(0, 16);
+  const batchId = `fake_batch_${digest}_${Date.now()}`;
+  batches.set(batchId, requests);
+  return batchId;
+}
+
+async function getBatchStatus(batchId: string): Promise<ProviderBatchStatus> {
+  const requests = batches.get(batchId);
+  if (!requests) {
+    // Lost with a server restart
+    return { status: "expired", total: 0, completed: 0, failed: 0 };
+  }
+
+  return {
+    status: "completed",
+    total: requests.length,
+    completed: requests.length,
+    failed: 0,
+    outputFileId: `${batchId}_output`,
+  };
+}
+
+async function getBatchOutput(batchId: string): Promise<ProviderBatchOutputItem[]> {
+  const requests = batches.get(batchId);
+  if (!requests) {
+    throw new Error(`Batch not ready for finalize: status=expired, batchId=${batchId}`);
+  }
+
+  const items: ProviderBatchOutputItem[] = [];
+  for (const request of requests) {
+    items.push({
+      customId: request.customId,
+      imageBase64: await renderLineArt(request.prompt, request.size),
+    });
+  }
+  return items;
+}
+
+// ============================================================
+// PROVIDER
+// ============================================================
+
+async function generate(request: ProviderGenerateRequest): Promise<string[]> {
+  const images: string[] = [];
+  for (let i = 0; i < Math.min(request.n, 4); i++) {
+    images.push(await renderLineArt(`${request.prompt}#${i}`, request.size));
+  }
+  return images;
+}
+
+async function edit(request: ProviderEditRequest): Promise<string[]> {
+  const imageDigest = createHash("sha256").update(request.image).digest("hex");
+  const images: string[] = [];
+  for (let i = 0; i < Math.min(request.n, 4); i++) {
+    images.push(await renderLineArt(`${request.prompt}#${imageDigest}#${i}`, request.size));
+  }
+  return images;
+}
+
+export const fakeImageProvider: ImageProvider = {
+  name: "fake",
+  model: FAKE_MODEL,
+  editModel: FAKE_MODEL,
+  isConfigured: () => true,
+  generate,
+  edit,
+  submitBatch,
+  getBatchStatus,
+  getBatchOutput,
+};
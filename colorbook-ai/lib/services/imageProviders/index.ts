@@ -0,0 +1,42 @@
+/**
+ * Image provider selection.
+ *
+ * IMAGE_PROVIDER=openai (default) - GPT image model, real credits
+ * IMAGE_PROVIDER=fake             - deterministic local line art, no network
+ */
+
+import { openaiImageProvider } from "./openaiProvider";
+import { fakeImageProvider } from "./fakeProvider";
+import type { ImageProvider, ImageProviderName } from "./types";
+
+export type * from "./types";
+
+const PROVIDERS: Record<ImageProviderName, ImageProvider> = {
+  openai: openaiImageProvider,
+  fake: fakeImageProvider,
+};
+
+let warnedUnknown = false;
+
+/**
+ * Name of the provider selected by IMAGE_PROVIDER
+ */
+export function getImageProviderName(): ImageProviderName {
+  const value = (process.env.IMAGE_PROVIDER || "openai").trim().toLowerCase();
+  if (value in PROVIDERS) {
+    return value as ImageProviderName;
+  }
+
+  if (!warnedUnknown) {
+    console.warn(`[imageProviders] Unknown IMAGE_PROVIDER "${value}", using openai`);
+    warnedUnknown = true;
+  }
+  return "openai";
+}
+
+/**
+ * The active image provider
+ */
+export function getImageProvider(): ImageProvider {
+  return PROVIDERS[getImageProviderName()];
+}
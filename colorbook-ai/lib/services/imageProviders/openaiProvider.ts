@@ -0,0 +1,213 @@
+/**
+ * OpenAI image provider - GPT image model (gpt-image-1).
+ *
+ * ❌ DO NOT use DALL-E for generation! Always use the GPT image model.
+ * Editing still goes through DALL-E 2, the only model with image edits.
+ */
+
+import OpenAI from "openai";
+import { getOpenAI } from "@/lib/openai";
+import { classifyOpenAIError, isNonRetryableError } from "@/lib/errors/generationErrors";
+import type {
+  ImageProvider,
+  ProviderBatchOutputItem,
+  ProviderBatchRequest,
+  ProviderBatchStatus,
+  ProviderEditRequest,
+  ProviderGenerateRequest,
+} from "./types";
+
+const IMAGE_MODEL = "gpt-image-1";
+const EDIT_MODEL = "dall-e-2";
+
+/**
+ * Download a URL result and convert it to base64
+ */
+async function fetchAsBase64(url: string): Promise<string | null> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    console.error(`[openaiProvider] Failed to fetch image: ${response.status}`);
+    return null;
+  }
+  const buffer = Buffer.from(await response.arrayBuffer());
+  return buffer.toString("base64");
+}
+
+async function generate(request: ProviderGenerateRequest): Promise<string[]> {
+  const images: string[] = [];
+
+  try {
+    // GPT Image model - supports multiple images in one call
+    const response = await getOpenAI().images.generate({
+      model: IMAGE_MODEL,
+      prompt: request.prompt,
+      n: Math.min(request.n, 4),
+      size: request.size,
+    } as OpenAI.Images.ImageGenerateParams);
+
+    if (!response.data || response.data.length === 0) {
+      throw new Error("No image data returned from API");
+    }
+
+    // Handle both b64_json and url responses
+    for (const imageData of response.data) {
+      if (imageData.b64_json) {
+        images.push(imageData.b64_json);
+      } else if (imageData.url) {
+        const fetched = await fetchAsBase64(imageData.url);
+        if (fetched) images.push(fetched);
+      }
+    }
+  } catch (error) {
+    // CLASSIFY THE ERROR - determines if retryable
+    const classifiedError = classifyOpenAIError(error, {
+      pageIndex: request.pageIndex,
+      batchId: request.batchId,
+    });
+
+    if (isNonRetryableError(classifiedError)) {
+      console.error(`[openaiProvider] NON-RETRYABLE ERROR: ${classifiedError.code}`, {
+        message: classifiedError.message,
+        context: classifiedError.context,
+      });
+    }
+
+    throw classifiedError;
+  }
+
+  return images;
+}
+
+async function edit(request: ProviderEditRequest): Promise<string[]> {
+  // Convert base64 to File objects for the API
+  const imageBuffer = Buffer.from(request.image, "base64");
+  const imageFile = new File([imageBuffer], "image.png", { type: "image/png" });
+
+  const editParams: OpenAI.Images.ImageEditParams = {
+    model: EDIT_MODEL,
+    prompt: request.prompt,
+    image: imageFile,
+    n: Math.min(request.n, 4),
+    size: request.size,
+    response_format: "url",
+  };
+
+  if (request.mask) {
+    const maskBuffer = Buffer.from(request.mask, "base64");
+    editParams.mask = new File([maskBuffer], "mask.png", { type: "image/png" });
+  }
+
+  const response = await getOpenAI().images.edit(editParams);
+
+  const images: string[] = [];
+  for (const data of response.data ?? []) {
+    if (data.url) {
+      const fetched = await fetchAsBase64(data.url);
+      if (fetched) images.push(fetched);
+    }
+  }
+
+  return images;
+}
+
+async function submitBatch(requests: ProviderBatchRequest[]): Promise<string> {
+  const openai = getOpenAI();
+
+  const lines = requests.map((request) =>
+    JSON.stringify({
+      custom_id: request.customId,
+      method: "POST",
+      url: "/v1/images/generations",
+      body: {
+        model: IMAGE_MODEL,
+        prompt: request.prompt,
+        size: request.size,
+        n: 1,
+        response_format: "b64_json",
+      },
+    })
+  );
+
+  // Upload file (File is required by SDK, Blob may not have name/lastModified)
+  const fileBlob = new File([lines.join("\n")], "batch.jsonl", { type: "application/jsonl" });
+  const file = await openai.files.create({
+    file: fileBlob,
+    purpose: "batch",
+  });
+
+  // Create batch (images/generations supported per Batch API docs; SDK types may lag)
+  const batch = await openai.batches.create({
+    input_file_id: file.id,
+    endpoint: "/v1/images/generations",
+    completion_window: "24h",
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  } as any);
+
+  return batch.id;
+}
+
+async function getBatchStatus(batchId: string): Promise<ProviderBatchStatus> {
+  const batch = await getOpenAI().batches.retrieve(batchId);
+  const counts = batch.request_counts ?? { total: 0, completed: 0, failed: 0 };
+
+  return {
+    status: batch.status || "unknown",
+    total: counts.total ?? 0,
+    completed: counts.completed ?? 0,
+    failed: counts.failed ?? 0,
+    outputFileId: batch.output_file_id ?? undefined,
+    errorFileId: batch.error_file_id ?? undefined,
+  };
+}
+
+async function getBatchOutput(batchId: string): Promise<ProviderBatchOutputItem[]> {
+  const openai = getOpenAI();
+  const batch = await openai.batches.retrieve(batchId);
+
+  if (batch.status !== "completed" || !batch.output_file_id) {
+    throw new Error(
+      `Batch not ready for finalize: status=${batch.status}, outputFileId=${batch.output_file_id}`
+    );
+  }
+
+  const fileResponse = await openai.files.content(batch.output_file_id);
+  const content = await fileResponse.text();
+
+  const items: ProviderBatchOutputItem[] = [];
+  for (const line of content.split("\n").filter((l) => l.trim())) {
+    try {
+      const parsed = JSON.parse(line) as {
+        custom_id?: string;
+        response?: { status_code?: number; body?: { data?: Array<{ b64_json?: string }> } };
+        error?: { message?: string };
+      };
+      if (!parsed.custom_id) continue;
+
+      const b64 = parsed.response?.body?.data?.[0]?.b64_json;
+      if (parsed.response?.status_code === 200 && b64) {
+        items.push({ customId: parsed.custom_id, imageBase64: b64 });
+      } else {
+        items.push({
+          customId: parsed.custom_id,
+          error: parsed.error?.message || `status ${parsed.response?.status_code ?? 0}`,
+        });
+      }
+    } catch (e) {
+      console.error("[openaiProvider] Error parsing batch output line:", e);
+    }
+  }
+
+  return items;
+}
+
+export const openaiImageProvider: ImageProvider = {
+  name: "openai",
+  model: IMAGE_MODEL,
+  editModel: EDIT_MODEL,
+  isConfigured: () => !!process.env.OPENAI_API_KEY,
+  generate,
+  edit,
+  submitBatch,
+  getBatchStatus,
+  getBatchOutput,
+};
@@ -0,0 +1,83 @@
+/**
+ * Image provider contract.
+ *
+ * generateImage/editImage (openaiImageGen.ts) and the batch helpers
+ * (openaiBatchImageGen.ts) own prompts, logging and post-processing;
+ * a provider only turns a final prompt into PNG bytes.
+ */
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type ImageProviderName = "openai" | "fake";
+
+// Supported: 1024x1024, 1024x1536, 1536x1024, 1024x1792, 1792x1024
+export type ImageSize = "1024x1024" | "1024x1536" | "1536x1024" | "1024x1792" | "1792x1024";
+
+export type EditImageSize = "256x256" | "512x512" | "1024x1024";
+
+export interface ProviderGenerateRequest {
+  prompt: string; // final prompt, prefix already applied
+  n: number;
+  size: ImageSize;
+  pageIndex?: number;
+  batchId?: string;
+}
+
+export interface ProviderEditRequest {
+  prompt: string;
+  image: string; // base64 PNG
+  mask?: string; // base64 PNG
+  n: number;
+  size: EditImageSize;
+}
+
+export interface ProviderBatchRequest {
+  customId: string;
+  prompt: string;
+  size: ImageSize;
+}
+
+export interface ProviderBatchStatus {
+  status: string; // OpenAI batch statuses: validating, in_progress, completed, failed, expired, ...
+  total: number;
+  completed: number;
+  failed: number;
+  outputFileId?: string;
+  errorFileId?: string;
+}
+
+export interface ProviderBatchOutputItem {
+  customId: string;
+  imageBase64?: string; // missing when the request failed
+  error?: string;
+}
+
+// ============================================================
+// PROVIDER INTERFACE
+// ============================================================
+
+export interface ImageProvider {
+  readonly name: ImageProviderName;
+  /** Model identifiers, for logs, stored metadata and the cost ledger */
+  readonly model: string;
+  readonly editModel: string;
+
+  /** Whether the provider can run with the current environment */
+  isConfigured(): boolean;
+
+  /** Generate images, returned as base64 PNGs. Throws classified generation errors. */
+  generate(request: ProviderGenerateRequest): Promise<string[]>;
+
+  /** Edit an image, returned as base64 PNGs */
+  edit(request: ProviderEditRequest): Promise<string[]>;
+
+  /** Submit an asynchronous batch; returns the provider batch id */
+  submitBatch(requests: ProviderBatchRequest[]): Promise<string>;
+
+  getBatchStatus(batchId: string): Promise<ProviderBatchStatus>;
+
+  /** Results of a completed batch, one item per request */
+  getBatchOutput(batchId: string): Promise<ProviderBatchOutputItem[]>;
+}
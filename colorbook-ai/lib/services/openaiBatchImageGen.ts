@@ -3,9 +3,18 @@
  *
  * Submits image generation requests as a batch job for 50% cost savings.
  * Uses /v1/images/generations endpoint in batch mode.
+ * Submission, polling and output go through the active image provider,
+ * so IMAGE_PROVIDER=fake completes batches locally.
+ * /api/cron/batch-sweep finalizes completed batches without a browser
+ * (lib/services/openaiBatchSweep.ts).
+ *
+ * Batch pages are generated in a single pass, so finalize scores every
+ * returned image with the same gates as /api/batch/generate-one, flags
+ * failures in generated_assets.meta.qualityCheck and can requeue them as a
+ * follow-up batch with retry reinforcement (autoRequeueFailures).
  */
 
-import { getOpenAI } from "@/lib/openai";
+import { getImageProvider, type ImageSize as ProviderImageSize } from "@/lib/services/imageProviders";
 import {
   buildFinalColoringPrompt,
   type ImageSize,
@@ -16,6 +25,15 @@ import {
   type CharacterIdentityProfile,
 } from "@/lib/characterIdentity";
 import { sanitizeColoringPngBase64 } from "@/lib/imageProcessing";
+import { getProjectStyleContract } from "@/lib/styleLibraryStore";
+import type { StyleContract } from "@/lib/styleClone";
+import { assertSpendCap, recordImageCost, setCostContext } from "@/lib/generationCosts";
+import { isEntitlementError } from "@/lib/errors/entitlementErrors";
+import { validateImageQuality } from "@/lib/qualityGates";
+import { detectDuplicatePage } from "@/lib/pageDuplicates";
+import { mapExtendedToBaseComplexity } from "@/lib/generationSpec";
+import { validateGeneratedImage, type ComplexityLevel } from "@/lib/services/imageValidator";
+import { buildRetryPrompt } from "@/lib/services/pageGenerationPipeline";
 import {
   getSupabaseServerClient,
   uploadToStorage,
@@ -23,8 +41,12 @@ import {
   calculateExpiresAt,
   createSignedUrl,
 } from "@/lib/supabase/server";
-
-const IMAGE_MODEL = "gpt-image-1";
+import type {
+  AssetQualityCheck,
+  BatchPageQualityRetry,
+  OpenAIBatchJob,
+  OpenAIBatchJobSettings,
+} from "@/types/database";
 
 const COLORING_PAGE_PREFIX = `IMPORTANT: Generate a COLORING BOOK PAGE with PURE WHITE background (#FFFFFF). 
 The output must be BLACK LINE ART on WHITE BACKGROUND ONLY. No colors, no gray, no shading.
@@ -33,7 +55,7 @@ This is a printable coloring page - the background MUST be pure white paper.
 `;
 
 // Map sizes to GPT Image model compatible sizes
-const SIZE_TO_GPT: Record<string, string> = {
+const SIZE_TO_GPT: Record<string, ProviderImageSize> = {
   "1024x1024": "1024x1024",
   "1024x1536": "1024x1536",
   "1536x1024": "1536x1024",
@@ -41,10 +63,18 @@ const SIZE_TO_GPT: Record<string, string> = {
   "1792x1024": "1536x1024",
 };
 
+/** A "finalizing" claim older than this is assumed dead and can be retaken */
+const FINALIZE_LEASE_MS = 15 * 60 * 1000;
+
+/** Batch attempts per page (first pass + quality requeues) */
+const MAX_QUALITY_ATTEMPTS = 3;
+
 export interface BatchPageItem {
   pageIndex: number;
   prompt: string;
   title?: string;
+  /** Set when this page is a quality requeue of a failed batch result */
+  qualityRetry?: BatchPageQualityRetry;
 }
 
 export interface CreateImageBatchParams {
@@ -55,6 +85,13 @@ export interface CreateImageBatchParams {
   isStorybookMode?: boolean;
   characterProfile?: CharacterIdentityProfile;
   complexity?: string;
+  /** Score results on finalize (default true) */
+  validateResults?: boolean;
+  /** Requeue pages that fail scoring as a follow-up batch (default false) */
+  autoRequeueFailures?: boolean;
+  /** Set when resubmitting another batch's failed pages */
+  parentBatchId?: string;
+  resubmitCount?: number;
 }
 
 export interface CreateImageBatchResult {
@@ -73,9 +110,17 @@ export interface BatchStatusResult {
 }
 
 export interface FinalizeResult {
+  /** True when another caller had already finalized this batch; nothing was re-recorded */
+  alreadyFinalized?: boolean;
   successCount: number;
+  /** Saved pages that count against the image quota (quality requeues don't) */
+  billableCount: number;
   failedCount: number;
   failedPageIndexes: number[];
+  /** Saved pages that failed post-hoc validation (flagged in asset meta) */
+  qualityFailedPages: Array<{ pageIndex: number; reason: string }>;
+  /** Follow-up batch for quality failures, when autoRequeueFailures is on */
+  qualityRequeue?: { batchId: string; pageCount: number };
   updatedPages: Array<{
     pageIndex: number;
     storagePath: string;
@@ -84,13 +129,16 @@ export interface FinalizeResult {
 }
 
 /**
- * Build prompt for batch - same logic as generate-one (single pass, no retry)
+ * Build prompt for batch - same logic as generate-one (single pass, no retry).
+ * Quality requeues get the reinforcement generate-one would use on that attempt.
  */
 function buildBatchPrompt(
   page: BatchPageItem,
-  params: CreateImageBatchParams
+  params: CreateImageBatchParams,
+  styleContract: StyleContract | null
 ): string {
   let basePrompt = page.prompt;
+  const retry = page.qualityRetry;
 
   if (params.isStorybookMode && params.characterProfile) {
     const identityContract = buildCharacterIdentityContract(params.characterProfile);
@@ -99,13 +147,23 @@ function buildBatchPrompt(
 
   basePrompt = `${basePrompt}\n${buildOutlineOnlyContract()}`;
 
+  if (retry) {
+    basePrompt = buildRetryPrompt(basePrompt, {
+      attempt: retry.attempt,
+      retryReinforcement: retry.retryReinforcement,
+      characterProfile: params.isStorybookMode ? params.characterProfile : undefined,
+      characterInvalid: retry.characterInvalid,
+    });
+  }
+
   const finalPrompt = buildFinalColoringPrompt(basePrompt, {
     includeNegativeBlock: true,
     maxLength: 4500,
     size: (params.size || "1024x1024") as ImageSize,
     isStorybookMode: params.isStorybookMode ?? false,
-    extraBottomReinforcement: false,
-    extraCoverageReinforcement: false,
+    extraBottomReinforcement: !!retry,
+    extraCoverageReinforcement: !!retry && retry.attempt > 2,
+    styleContract,
   });
 
   return COLORING_PAGE_PREFIX + finalPrompt;
@@ -117,62 +175,45 @@ function buildBatchPrompt(
 export async function createImageBatch(
   params: CreateImageBatchParams
 ): Promise<CreateImageBatchResult> {
-  const openai = getOpenAI();
+  const provider = getImageProvider();
   const size = SIZE_TO_GPT[params.size || "1024x1024"] || "1024x1536";
+  // Library style pinned in project settings; requeues pick it up the same way
+  const styleContract = await getProjectStyleContract(params.projectId);
 
-  const lines: string[] = [];
-  for (const page of params.pages) {
-    const prompt = buildBatchPrompt(page, params);
-    const body = {
-      model: IMAGE_MODEL,
-      prompt,
+  const batchId = await provider.submitBatch(
+    params.pages.map((page) => ({
+      customId: `page-${page.pageIndex}`,
+      prompt: buildBatchPrompt(page, params, styleContract),
       size,
-      n: 1,
-      response_format: "b64_json" as const,
-    };
-    const customId = `page-${page.pageIndex}`;
-    lines.push(
-      JSON.stringify({
-        custom_id: customId,
-        method: "POST",
-        url: "/v1/images/generations",
-        body,
-      })
-    );
-  }
-
-  const jsonlContent = lines.join("\n");
-
-  // Upload file (File is required by SDK, Blob may not have name/lastModified)
-  const fileBlob = new File([jsonlContent], "batch.jsonl", { type: "application/jsonl" });
-  const file = await openai.files.create({
-    file: fileBlob,
-    purpose: "batch",
-  });
-
-  // Create batch (images/generations supported per Batch API docs; SDK types may lag)
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const batch = await openai.batches.create({
-    input_file_id: file.id,
-    endpoint: "/v1/images/generations",
-    completion_window: "24h",
-  } as any);
+    }))
+  );
 
   // Store in DB
   const supabase = getSupabaseServerClient();
   const { data: job, error } = await supabase
     .from("openai_batch_jobs")
     .insert({
-      batch_id: batch.id,
+      batch_id: batchId,
       project_id: params.projectId,
       user_id: params.userId,
       page_indexes: params.pages.map((p) => ({
         pageIndex: p.pageIndex,
         prompt: p.prompt,
         title: p.title,
+        qualityRetry: p.qualityRetry,
       })),
       status: "queued",
       total_pages: params.pages.length,
+      settings: {
+        size: params.size,
+        isStorybookMode: params.isStorybookMode ?? false,
+        characterProfile: params.characterProfile,
+        complexity: params.complexity,
+        validateResults: params.validateResults ?? true,
+        autoRequeueFailures: params.autoRequeueFailures ?? false,
+      },
+      parent_batch_id: params.parentBatchId ?? null,
+      resubmit_count: params.resubmitCount ?? 0,
     })
     .select("id")
     .single();
@@ -183,92 +224,99 @@ export async function createImageBatch(
   }
 
   return {
-    batchId: batch.id,
-    jobId: job?.id ?? batch.id,
+    batchId,
+    jobId: job?.id ?? batchId,
     pageCount: params.pages.length,
   };
 }
 
 /**
- * Get batch status from OpenAI
+ * Get batch status from the image provider
  */
 export async function getBatchStatus(batchId: string): Promise<BatchStatusResult> {
-  const openai = getOpenAI();
-  const batch = await openai.batches.retrieve(batchId);
-
-  const counts = batch.request_counts ?? { total: 0, completed: 0, failed: 0 };
-
-  return {
-    status: batch.status || "unknown",
-    total: counts.total ?? 0,
-    completed: counts.completed ?? 0,
-    failed: counts.failed ?? 0,
-    outputFileId: batch.output_file_id ?? undefined,
-    errorFileId: batch.error_file_id ?? undefined,
-  };
+  return getImageProvider().getBatchStatus(batchId);
 }
 
 /**
  * Finalize batch: download output, save images to storage, update DB
+ *
+ * Safe to call from both the browser flow and the cron sweep: the job row is
+ * claimed ("finalizing") first, and a batch that is already finalized returns
+ * its stored result with alreadyFinalized set.
  */
 export async function finalizeBatch(
   batchId: string,
   projectId: string,
   userId: string
 ): Promise<FinalizeResult> {
-  const openai = getOpenAI();
   const supabase = getSupabaseServerClient();
 
-  const batch = await openai.batches.retrieve(batchId);
-  if (batch.status !== "completed" || !batch.output_file_id) {
-    throw new Error(
-      `Batch not ready for finalize: status=${batch.status}, outputFileId=${batch.output_file_id}`
-    );
-  }
+  // Throws if the batch has not completed yet
+  const provider = getImageProvider();
+  const output = await provider.getBatchOutput(batchId);
 
-  // Get job record for page metadata
+  // Claim the job record (also gives us the page metadata)
+  const staleBefore = new Date(Date.now() - FINALIZE_LEASE_MS).toISOString();
   const { data: job } = await supabase
     .from("openai_batch_jobs")
-    .select("page_indexes")
+    .update({ status: "finalizing", finalizing_at: new Date().toISOString() })
     .eq("batch_id", batchId)
-    .single();
+    .or(`status.in.(queued,in_progress,failed,expired),and(status.eq.finalizing,finalizing_at.lt.${staleBefore})`)
+    .select("page_indexes, settings, resubmit_count")
+    .maybeSingle();
+
+  if (!job) {
+    const { data: existing } = await supabase
+      .from("openai_batch_jobs")
+      .select("*")
+      .eq("batch_id", batchId)
+      .maybeSingle();
+
+    if (existing?.status === "completed") {
+      return getFinalizedResult(existing as OpenAIBatchJob);
+    }
+    if (existing?.status === "finalizing") {
+      throw new Error("Batch is already being finalized");
+    }
+    // No job row (insert failed at submit time) - finalize without a claim
+  }
 
-  const pageIndexes = (job?.page_indexes as { pageIndex: number; prompt?: string; title?: string }[]) ?? [];
+  const pageIndexes = (job?.page_indexes as OpenAIBatchJob["page_indexes"]) ?? [];
   const pageMap = new Map(pageIndexes.map((p) => [p.pageIndex, p]));
+  const settings = (job?.settings as OpenAIBatchJobSettings) ?? {};
+  const validateResults = settings.validateResults ?? true;
 
-  const fileResponse = await openai.files.content(batch.output_file_id);
-  const content = await fileResponse.text();
-
-  const lines = content.split("\n").filter((l) => l.trim());
   const retentionHours = await getRetentionHours(userId);
   const expiresAt = calculateExpiresAt(retentionHours);
 
   const failedPageIndexes: number[] = [];
   const updatedPages: FinalizeResult["updatedPages"] = [];
+  const qualityFailures: Array<{ pageIndex: number; check: AssetQualityCheck }> = [];
+  let billableCount = 0;
 
-  for (const line of lines) {
+  for (const item of output) {
     try {
-      const parsed = JSON.parse(line) as {
-        custom_id?: string;
-        response?: { status_code?: number; body?: { data?: Array<{ b64_json?: string }> } };
-        error?: { message?: string };
-      };
-
-      const customId = parsed.custom_id;
-      if (!customId || !customId.startsWith("page-")) continue;
+      const customId = item.customId;
+      if (!customId.startsWith("page-")) continue;
 
       const pageIndex = parseInt(customId.replace("page-", ""), 10);
       if (isNaN(pageIndex)) continue;
 
-      const statusCode = parsed.response?.status_code ?? 0;
-      const body = parsed.response?.body;
-
-      if (statusCode !== 200 || !body?.data?.[0]?.b64_json) {
+      if (!item.imageBase64) {
         failedPageIndexes.push(pageIndex);
         continue;
       }
 
-      let imageBase64 = body.data[0].b64_json;
+      // Billed at the batch discount once the provider returns an image
+      await recordImageCost({
+        provider: provider.name,
+        model: provider.model,
+        images: 1,
+        mode: "batch",
+        context: { userId, projectId, pageIndex, source: "openai_batch" },
+      });
+
+      let imageBase64 = item.imageBase64;
 
       try {
         imageBase64 = await sanitizeColoringPngBase64(imageBase64);
@@ -278,6 +326,20 @@ export async function finalizeBatch(
         continue;
       }
 
+      const pageMeta = pageMap.get(pageIndex);
+      const attempt = pageMeta?.qualityRetry?.attempt ?? 1;
+
+      // The batch had no retry loop - score the result now. A failing page is
+      // still saved (it is the best image we have) but flagged.
+      let qualityCheck: AssetQualityCheck | undefined;
+      if (validateResults) {
+        setCostContext({ userId, projectId, pageIndex, attempt, source: "openai_batch_validation" });
+        qualityCheck = await scoreBatchImage(imageBase64, settings, attempt);
+        if (!qualityCheck.passed) {
+          qualityFailures.push({ pageIndex, check: qualityCheck });
+        }
+      }
+
       const paddedNum = String(pageIndex).padStart(3, "0");
       const storagePath = `${userId}/${projectId}/pages/page-${paddedNum}.png`;
       const buffer = Buffer.from(imageBase64, "base64");
@@ -295,7 +357,13 @@ export async function finalizeBatch(
         continue;
       }
 
-      const pageMeta = pageMap.get(pageIndex);
+      const duplicateMeta = await detectDuplicatePage({
+        projectId,
+        userId,
+        pageNumber: pageIndex,
+        imageBuffer: buffer,
+      });
+
       const assetData = {
         project_id: projectId,
         user_id: userId,
@@ -311,6 +379,12 @@ export async function finalizeBatch(
           title: pageMeta?.title,
           batchId,
           source: "openai_batch",
+          attempts: attempt,
+          ...duplicateMeta,
+          ...(qualityCheck && {
+            validationResult: { valid: qualityCheck.passed, notes: qualityCheck.reason },
+            qualityCheck,
+          }),
         },
       };
 
@@ -341,8 +415,10 @@ export async function finalizeBatch(
         storagePath: uploadedPath,
         signedUrl: signedUrl ?? undefined,
       });
+      // A quality requeue replaces a page that was already counted
+      if (!pageMeta?.qualityRetry) billableCount++;
     } catch (e) {
-      console.error(`[openaiBatchImageGen] Error processing line:`, e);
+      console.error(`[openaiBatchImageGen] Error processing output for ${item.customId}:`, e);
     }
   }
 
@@ -351,6 +427,7 @@ export async function finalizeBatch(
     .from("openai_batch_jobs")
     .update({
       status: "completed",
+      provider_status: "completed",
       completed_at: new Date().toISOString(),
       success_count: updatedPages.length,
       failed_count: failedPageIndexes.length,
@@ -358,10 +435,216 @@ export async function finalizeBatch(
     })
     .eq("batch_id", batchId);
 
+  let qualityRequeue: FinalizeResult["qualityRequeue"];
+  if (job && settings.autoRequeueFailures && qualityFailures.length > 0) {
+    qualityRequeue = await requeueQualityFailures({
+      batchId,
+      projectId,
+      userId,
+      settings,
+      resubmitCount: (job.resubmit_count as number) ?? 0,
+      failures: qualityFailures,
+      pageMap,
+    });
+  }
+
   return {
     successCount: updatedPages.length,
+    billableCount,
     failedCount: failedPageIndexes.length,
     failedPageIndexes,
+    qualityFailedPages: qualityFailures.map((f) => ({
+      pageIndex: f.pageIndex,
+      reason: f.check.reason ?? "Quality check failed",
+    })),
+    qualityRequeue,
+    updatedPages,
+  };
+}
+
+// ============================================================
+// POST-HOC QUALITY VALIDATION
+// ============================================================
+
+/**
+ * Score one batch result with the gates generate-one uses: the local pixel
+ * metrics (lib/qualityGates.ts) for the record, and the vision validator
+ * (outline, character, coverage, bottom fill) as the pass/fail decision.
+ */
+async function scoreBatchImage(
+  imageBase64: string,
+  settings: OpenAIBatchJobSettings,
+  attempt: number
+): Promise<AssetQualityCheck> {
+  const complexity = (settings.complexity || "medium") as ComplexityLevel;
+  const characterProfile = settings.isStorybookMode
+    ? (settings.characterProfile as CharacterIdentityProfile | undefined)
+    : undefined;
+
+  const gates = await validateImageQuality(
+    Buffer.from(imageBase64, "base64"),
+    mapExtendedToBaseComplexity(complexity)
+  );
+  const metrics = {
+    blackRatio: gates.metrics.blackRatio,
+    largestBlobRatio: gates.metrics.largestBlobRatio,
+    bottomBlankRatio: gates.metrics.bottomBlankRatio,
+  };
+
+  const validation = await validateGeneratedImage(
+    imageBase64,
+    characterProfile,
+    !!characterProfile,
+    true,
+    complexity
+  );
+
+  const checkedAt = new Date().toISOString();
+  if (validation.valid) {
+    return { passed: true, attempt, checkedAt, metrics };
+  }
+
+  const characterInvalid = validation.characterValidation?.valid === false;
+  const reasons: string[] = [];
+  if (validation.outlineValidation && !validation.outlineValidation.valid) {
+    reasons.push(`Outline: ${validation.outlineValidation.notes || "fills or shading detected"}`);
+  }
+  if (characterInvalid) {
+    reasons.push(`Character: ${validation.characterValidation?.notes || "does not match the character"}`);
+  }
+  if (validation.coverageValidation?.hasCoverageIssue) {
+    reasons.push(`Coverage: ${validation.coverageValidation.notes}`);
+  }
+  if (validation.bottomFillValidation?.hasEmptyBottom) {
+    reasons.push(`Bottom fill: ${validation.bottomFillValidation.notes}`);
+  }
+  if (!gates.passed && gates.failureReason) {
+    reasons.push(`Quality gates: ${gates.failureReason}`);
+  }
+
+  return {
+    passed: false,
+    reason: reasons.join("; ") || "Validation failed",
+    attempt,
+    checkedAt,
+    metrics,
+    retryReinforcement: validation.retryReinforcement,
+    characterInvalid,
+  };
+}
+
+/**
+ * Submit the pages that failed scoring as a follow-up batch with retry
+ * reinforcement. Pages past MAX_QUALITY_ATTEMPTS keep their flagged image.
+ */
+async function requeueQualityFailures(params: {
+  batchId: string;
+  projectId: string;
+  userId: string;
+  settings: OpenAIBatchJobSettings;
+  resubmitCount: number;
+  failures: Array<{ pageIndex: number; check: AssetQualityCheck }>;
+  pageMap: Map<number, OpenAIBatchJob["page_indexes"][number]>;
+}): Promise<FinalizeResult["qualityRequeue"]> {
+  const pages: BatchPageItem[] = [];
+  for (const { pageIndex, check } of params.failures) {
+    const pageMeta = params.pageMap.get(pageIndex);
+    if (!pageMeta?.prompt || check.attempt >= MAX_QUALITY_ATTEMPTS) continue;
+    pages.push({
+      pageIndex,
+      prompt: pageMeta.prompt,
+      title: pageMeta.title,
+      qualityRetry: {
+        attempt: check.attempt + 1,
+        reason: check.reason,
+        retryReinforcement: check.retryReinforcement,
+        characterInvalid: check.characterInvalid,
+      },
+    });
+  }
+  if (pages.length === 0) return undefined;
+
+  // Replacements are not billed to the image quota, but they still cost money
+  try {
+    await assertSpendCap(params.userId, params.projectId);
+  } catch (error) {
+    if (!isEntitlementError(error)) throw error;
+    console.log(`[openaiBatchImageGen] Not requeueing quality failures of ${params.batchId}: ${error.message}`);
+    return undefined;
+  }
+
+  const { settings } = params;
+  try {
+    const followUp = await createImageBatch({
+      projectId: params.projectId,
+      userId: params.userId,
+      pages,
+      size: settings.size,
+      isStorybookMode: settings.isStorybookMode,
+      characterProfile: settings.characterProfile as CharacterIdentityProfile | undefined,
+      complexity: settings.complexity,
+      validateResults: true,
+      autoRequeueFailures: true,
+      parentBatchId: params.batchId,
+      resubmitCount: params.resubmitCount + 1,
+    });
+
+    console.log(`[openaiBatchImageGen] Requeued ${pages.length} quality failures of ${params.batchId} as batch ${followUp.batchId}`);
+    return { batchId: followUp.batchId, pageCount: pages.length };
+  } catch (error) {
+    // The flagged images are saved; the requeue is best effort
+    console.error(`[openaiBatchImageGen] Quality requeue failed for ${params.batchId}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Rebuild the result of an already finalized batch from its job row and assets
+ */
+async function getFinalizedResult(job: OpenAIBatchJob): Promise<FinalizeResult> {
+  const supabase = getSupabaseServerClient();
+  const failedPageIndexes = job.failed_page_indexes ?? [];
+  const pageIndexes = job.page_indexes
+    .map((p) => p.pageIndex)
+    .filter((pageIndex) => !failedPageIndexes.includes(pageIndex));
+
+  const { data: assets } = await supabase
+    .from("generated_assets")
+    .select("page_number, storage_path")
+    .eq("project_id", job.project_id)
+    .eq("asset_type", "page_image")
+    .eq("status", "ready")
+    .in("page_number", pageIndexes);
+
+  const updatedPages: FinalizeResult["updatedPages"] = [];
+  for (const asset of (assets ?? []) as { page_number: number; storage_path: string }[]) {
+    const signedUrl = await createSignedUrl("generated", asset.storage_path, 3600);
+    updatedPages.push({
+      pageIndex: asset.page_number,
+      storagePath: asset.storage_path,
+      signedUrl: signedUrl ?? undefined,
+    });
+  }
+
+  const { data: flagged } = await supabase
+    .from("generated_assets")
+    .select("page_number, meta")
+    .eq("project_id", job.project_id)
+    .eq("asset_type", "page_image")
+    .eq("meta->>batchId", job.batch_id)
+    .eq("meta->qualityCheck->>passed", "false");
+
+  return {
+    alreadyFinalized: true,
+    successCount: job.success_count ?? updatedPages.length,
+    billableCount: 0,
+    failedCount: job.failed_count ?? failedPageIndexes.length,
+    failedPageIndexes,
+    qualityFailedPages: ((flagged ?? []) as { page_number: number; meta: { qualityCheck?: AssetQualityCheck } }[])
+      .map((asset) => ({
+        pageIndex: asset.page_number,
+        reason: asset.meta.qualityCheck?.reason ?? "Quality check failed",
+      })),
     updatedPages,
   };
 }
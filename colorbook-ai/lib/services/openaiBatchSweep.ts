@@ -0,0 +1,267 @@
+/**
+ * OpenAI Batch Sweep
+ *
+ * Runs from /api/cron/batch-sweep so batch-mode books finish without the
+ * browser polling /api/batch/openai/status and calling finalize:
+ * - completed batches are finalized through finalizeBatch()
+ * - failed pages are resubmitted once as a follow-up batch, then through
+ *   the realtime generation queue (lib/generationQueue.ts)
+ * - failed/expired/cancelled batches are marked, and the project status is
+ *   refreshed after every change
+ */
+
+import "server-only";
+import {
+  createImageBatch,
+  finalizeBatch,
+  getBatchStatus,
+} from "@/lib/services/openaiBatchImageGen";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+import { assertImageQuota, recordImageUsage } from "@/lib/entitlements";
+import { assertSpendCap } from "@/lib/generationCosts";
+import { isEntitlementError } from "@/lib/errors/entitlementErrors";
+import { enqueueGenerationJob, refreshProjectStatus } from "@/lib/generationQueue";
+import { saveProjectPrompts } from "@/lib/projectStore";
+import type { CharacterIdentityProfile } from "@/lib/characterIdentity";
+import type { OpenAIBatchJob, OpenAIBatchJobStatus } from "@/types/database";
+
+/** Follow-up batches per original batch before falling back to realtime */
+const MAX_BATCH_RESUBMITS = 1;
+
+/** Jobs checked per sweep (oldest first) */
+const SWEEP_LIMIT = 50;
+
+/** Provider statuses that mean the batch will never produce output */
+const DEAD_PROVIDER_STATUSES = ["failed", "expired", "cancelled"];
+
+export interface BatchSweepJobResult {
+  batchId: string;
+  projectId: string;
+  providerStatus: string;
+  action: "waiting" | "finalized" | "marked" | "skipped" | "error";
+  successCount?: number;
+  resubmitted?: { via: "batch" | "realtime"; pages: number; id?: string };
+  error?: string;
+}
+
+export interface BatchSweepSummary {
+  checked: number;
+  finalized: number;
+  resubmittedPages: number;
+  results: BatchSweepJobResult[];
+}
+
+/**
+ * Check every non-terminal batch job once, within the time budget
+ */
+export async function sweepBatchJobs(options: { budgetMs: number }): Promise<BatchSweepSummary> {
+  const supabase = getSupabaseServerClient();
+  const startedAt = Date.now();
+
+  const { data, error } = await supabase
+    .from("openai_batch_jobs")
+    .select("*")
+    .in("status", ["queued", "in_progress", "finalizing"])
+    .order("created_at", { ascending: true })
+    .limit(SWEEP_LIMIT);
+
+  if (error) throw new Error(`Failed to load batch jobs: ${error.message}`);
+
+  const summary: BatchSweepSummary = { checked: 0, finalized: 0, resubmittedPages: 0, results: [] };
+
+  for (const job of (data ?? []) as OpenAIBatchJob[]) {
+    if (Date.now() - startedAt >= options.budgetMs) break;
+
+    const result = await sweepBatchJob(job);
+    summary.checked++;
+    if (result.action === "finalized") summary.finalized++;
+    summary.resubmittedPages += result.resubmitted?.pages ?? 0;
+    summary.results.push(result);
+  }
+
+  return summary;
+}
+
+async function sweepBatchJob(job: OpenAIBatchJob): Promise<BatchSweepJobResult> {
+  const base = { batchId: job.batch_id, projectId: job.project_id };
+  let providerStatus = "unknown";
+
+  try {
+    const status = await getBatchStatus(job.batch_id);
+    providerStatus = status.status;
+
+    if (providerStatus === "completed") {
+      let finalized;
+      try {
+        finalized = await finalizeBatch(job.batch_id, job.project_id, job.user_id);
+      } catch (finalizeError) {
+        // Someone else (the browser or another sweep) holds the claim
+        if (finalizeError instanceof Error && finalizeError.message.includes("already being finalized")) {
+          return { ...base, providerStatus, action: "skipped" };
+        }
+        throw finalizeError;
+      }
+
+      if (finalized.alreadyFinalized) {
+        return { ...base, providerStatus, action: "skipped" };
+      }
+
+      await recordImageUsage(job.user_id, finalized.billableCount);
+
+      const resubmitted = finalized.failedPageIndexes.length > 0
+        ? await resubmitPages(job, finalized.failedPageIndexes)
+        : undefined;
+
+      await refreshProjectStatus(job.project_id);
+      console.log(`[openaiBatchSweep] Finalized ${job.batch_id}: ${finalized.successCount} ok, ${finalized.failedCount} failed, ${finalized.qualityFailedPages.length} flagged`);
+
+      return { ...base, providerStatus, action: "finalized", successCount: finalized.successCount, resubmitted };
+    }
+
+    if (DEAD_PROVIDER_STATUSES.includes(providerStatus)) {
+      await markJob(job, providerStatus as OpenAIBatchJobStatus, {
+        provider_status: providerStatus,
+        completed_at: new Date().toISOString(),
+        failed_count: job.total_pages,
+        failed_page_indexes: job.page_indexes.map((p) => p.pageIndex),
+      });
+
+      // A user-cancelled batch stays cancelled; anything else is retried
+      const resubmitted = providerStatus === "cancelled"
+        ? undefined
+        : await resubmitPages(job, job.page_indexes.map((p) => p.pageIndex));
+
+      await refreshProjectStatus(job.project_id);
+      console.log(`[openaiBatchSweep] Batch ${job.batch_id} ${providerStatus}`);
+
+      return { ...base, providerStatus, action: "marked", resubmitted };
+    }
+
+    // validating / in_progress / finalizing / cancelling - check again next sweep
+    await markJob(job, job.status === "queued" && providerStatus !== "validating" ? "in_progress" : job.status, {
+      provider_status: providerStatus,
+    });
+    return { ...base, providerStatus, action: "waiting" };
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Sweep failed";
+    console.error(`[openaiBatchSweep] Batch ${job.batch_id} error:`, message);
+
+    const supabase = getSupabaseServerClient();
+    await supabase
+      .from("openai_batch_jobs")
+      .update({ last_error: message, last_checked_at: new Date().toISOString() })
+      .eq("id", job.id);
+
+    return { ...base, providerStatus, action: "error", error: message };
+  }
+}
+
+async function markJob(
+  job: OpenAIBatchJob,
+  status: OpenAIBatchJobStatus,
+  extra: Partial<OpenAIBatchJob> = {}
+): Promise<void> {
+  const supabase = getSupabaseServerClient();
+  await supabase
+    .from("openai_batch_jobs")
+    .update({
+      status,
+      last_checked_at: new Date().toISOString(),
+      last_error: null,
+      ...extra,
+    })
+    .eq("id", job.id);
+}
+
+// ============================================================
+// RESUBMISSION
+// ============================================================
+
+/**
+ * Retry a batch's failed pages: as a follow-up batch while the chain has
+ * resubmits left (50% cheaper), otherwise through the realtime queue with
+ * the full retry/validation pipeline.
+ */
+async function resubmitPages(
+  job: OpenAIBatchJob,
+  pageIndexes: number[]
+): Promise<BatchSweepJobResult["resubmitted"]> {
+  const supabase = getSupabaseServerClient();
+  const pages = job.page_indexes.filter((p) => pageIndexes.includes(p.pageIndex) && p.prompt);
+  if (pages.length === 0) return undefined;
+
+  // Same plan checks as the create-image-batch route; a paused user
+  // resumes from the create page instead
+  try {
+    await assertImageQuota(job.user_id, pages.length);
+    await assertSpendCap(job.user_id, job.project_id);
+  } catch (error) {
+    if (!isEntitlementError(error)) throw error;
+    console.log(`[openaiBatchSweep] Not resubmitting ${job.batch_id}: ${error.message}`);
+    return undefined;
+  }
+
+  const { settings } = job;
+
+  if (job.resubmit_count < MAX_BATCH_RESUBMITS) {
+    const followUp = await createImageBatch({
+      projectId: job.project_id,
+      userId: job.user_id,
+      pages: pages.map((p) => ({
+        pageIndex: p.pageIndex,
+        prompt: p.prompt!,
+        title: p.title,
+        qualityRetry: p.qualityRetry,
+      })),
+      size: settings.size,
+      isStorybookMode: settings.isStorybookMode,
+      characterProfile: settings.characterProfile as CharacterIdentityProfile | undefined,
+      complexity: settings.complexity,
+      validateResults: settings.validateResults,
+      autoRequeueFailures: settings.autoRequeueFailures,
+      parentBatchId: job.batch_id,
+      resubmitCount: job.resubmit_count + 1,
+    });
+
+    await supabase
+      .from("openai_batch_jobs")
+      .update({ resubmitted_via: "batch", resubmitted_at: new Date().toISOString() })
+      .eq("id", job.id);
+
+    console.log(`[openaiBatchSweep] Resubmitted ${pages.length} pages of ${job.batch_id} as batch ${followUp.batchId}`);
+    return { via: "batch", pages: pages.length, id: followUp.batchId };
+  }
+
+  // The queue generates from project_prompts - make sure every page has a row
+  await saveProjectPrompts(
+    job.project_id,
+    job.user_id,
+    pages.map((p) => ({ pageIndex: p.pageIndex, title: p.title, promptText: p.prompt! })),
+    { mode: "fill" }
+  );
+
+  const isStorybookMode = settings.isStorybookMode ?? false;
+  const generationJob = await enqueueGenerationJob({
+    projectId: job.project_id,
+    userId: job.user_id,
+    pageIndexes: pages.map((p) => p.pageIndex),
+    settings: {
+      size: settings.size || "1024x1024",
+      isStorybookMode,
+      characterProfile: settings.characterProfile,
+      complexity: settings.complexity || "medium",
+      validateOutline: true,
+      validateCharacter: isStorybookMode,
+      validateComposition: true,
+    },
+  });
+
+  await supabase
+    .from("openai_batch_jobs")
+    .update({ resubmitted_via: "realtime", resubmitted_at: new Date().toISOString() })
+    .eq("id", job.id);
+
+  console.log(`[openaiBatchSweep] Queued ${pages.length} pages of ${job.batch_id} for realtime generation`);
+  return { via: "realtime", pages: pages.length, id: generationJob?.id };
+}
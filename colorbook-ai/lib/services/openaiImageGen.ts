@@ -13,43 +13,19 @@
  * ✅ ALL image generation in this codebase MUST go through this service.
  * ✅ This service uses ONLY the GPT Image model (gpt-image-1).
  * 
- * To change providers in the future, ONLY modify this file.
+ * Requests are executed by the provider selected with IMAGE_PROVIDER
+ * (see lib/services/imageProviders). "openai" is the default; "fake"
+ * renders deterministic local line art for offline runs and tests.
  * ============================================================
  */
 
-import OpenAI from "openai";
 import { 
-  classifyOpenAIError, 
-  isNonRetryableError,
   NonRetryableGenerationError,
 } from "@/lib/errors/generationErrors";
+import { getImageProvider, type ImageSize } from "@/lib/services/imageProviders";
+import { recordImageCost, type CostContext } from "@/lib/generationCosts";
 
-// Lazy initialization to avoid errors during build when API key is not set
-let _openai: OpenAI | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!_openai) {
-    _openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY || "placeholder-for-build",
-    });
-  }
-  return _openai;
-}
-
-// Proxy for backwards compatibility
-const openai = new Proxy({} as OpenAI, {
-  get(target, prop) {
-    return (getOpenAI() as unknown as Record<string | symbol, unknown>)[prop];
-  },
-});
-
-// Allowed sizes for GPT Image model
-// Supported: 1024x1024, 1024x1536, 1536x1024, 1024x1792, 1792x1024, auto
-export type ImageSize = "1024x1024" | "1024x1536" | "1536x1024" | "1024x1792" | "1792x1024";
-
-// Image model to use - GPT Image model (gpt-image-1) for best quality
-// DO NOT USE DALL-E! Always use GPT image model
-const IMAGE_MODEL = "gpt-image-1";
+export type { ImageSize };
 
 export interface GenerateImageParams {
   prompt: string;
@@ -62,16 +38,17 @@ export interface GenerateImageResult {
   revisedPrompts?: string[]; // DALL-E 3 sometimes revises prompts
 }
 
-export interface GenerateImageContext {
+export interface GenerateImageContext extends CostContext {
   pageIndex?: number;
   batchId?: string;
 }
 
 /**
- * Check if OpenAI is configured
+ * Check if the active image provider is configured
+ * (OPENAI_API_KEY for openai; the fake provider is always ready)
  */
 export function isOpenAIImageGenConfigured(): boolean {
-  return !!process.env.OPENAI_API_KEY;
+  return getImageProvider().isConfigured();
 }
 
 /**
@@ -99,7 +76,8 @@ This is a printable coloring page - the background MUST be pure white paper.
  * @param params.prompt - The prompt to send (coloring page prefix will be added)
  * @param params.n - Number of images
  * @param params.size - Image size (default "1024x1536" for portrait coloring pages)
- * @param context - Optional context for error tracking (pageIndex, batchId)
+ * @param context - Optional context for error tracking and the cost ledger
+ *                  (pageIndex, batchId, userId, projectId, attempt)
  */
 export async function generateImage(
   params: GenerateImageParams, 
@@ -111,9 +89,11 @@ export async function generateImage(
     size = "1024x1536", // Portrait format for coloring pages (GPT image size)
   } = params;
 
-  if (!isOpenAIImageGenConfigured()) {
+  const provider = getImageProvider();
+
+  if (!provider.isConfigured()) {
     throw new NonRetryableGenerationError("INVALID_API_KEY", {
-      provider: "openai",
+      provider: provider.name,
       originalMessage: "OpenAI API key not configured",
     }, "OpenAI API key not configured. Set OPENAI_API_KEY in environment.");
   }
@@ -125,60 +105,27 @@ export async function generateImage(
   // Add coloring page prefix for proper white background generation
   const fullPrompt = COLORING_PAGE_PREFIX + prompt;
 
-  console.log(`[openaiImageGen] Generating ${n} image(s) with model: ${IMAGE_MODEL}`);
+  console.log(`[openaiImageGen] Generating ${n} image(s) with model: ${provider.model}`);
   console.log(`[openaiImageGen] Size: ${size}, Page: ${context.pageIndex || "N/A"}`);
   console.log(`[openaiImageGen] Prompt length: ${fullPrompt.length} chars`);
 
-  const images: string[] = [];
-
-  try {
-    // GPT Image model - supports multiple images in one call
-    const response = await openai.images.generate({
-      model: IMAGE_MODEL,
-      prompt: fullPrompt,
-      n: Math.min(n, 4),
-      size: size,
-    } as OpenAI.Images.ImageGenerateParams);
-
-    if (!response.data || response.data.length === 0) {
-      throw new Error("No image data returned from API");
-    }
-
-    // Process each image
-    for (let i = 0; i < response.data.length; i++) {
-      const imageData = response.data[i];
-      
-      // Handle both b64_json and url responses
-      if (imageData.b64_json) {
-        images.push(imageData.b64_json);
-      } else if (imageData.url) {
-        // Fetch image and convert to base64
-        const imageResponse = await fetch(imageData.url);
-        if (imageResponse.ok) {
-          const buffer = Buffer.from(await imageResponse.arrayBuffer());
-          images.push(buffer.toString("base64"));
-        } else {
-          console.error(`[openaiImageGen] Failed to fetch image ${i + 1}: ${imageResponse.status}`);
-        }
-      }
-    }
-  } catch (error) {
-    // CLASSIFY THE ERROR - determines if retryable
-    const classifiedError = classifyOpenAIError(error, {
-      pageIndex: context.pageIndex,
-      batchId: context.batchId,
-    });
-    
-    // Log for non-retryable errors
-    if (isNonRetryableError(classifiedError)) {
-      console.error(`[openaiImageGen] NON-RETRYABLE ERROR: ${classifiedError.code}`, {
-        message: classifiedError.message,
-        context: classifiedError.context,
-      });
-    }
-    
-    throw classifiedError;
-  }
+  // Provider errors are already classified (retryable vs non-retryable)
+  const images = await provider.generate({
+    prompt: fullPrompt,
+    n,
+    size,
+    pageIndex: context.pageIndex,
+    batchId: context.batchId,
+  });
+
+  // Every delivered image is billed, even if a quality gate discards it later
+  await recordImageCost({
+    provider: provider.name,
+    model: provider.model,
+    size,
+    images: images.length,
+    context,
+  });
 
   if (images.length === 0) {
     throw new Error("Failed to generate any images");
@@ -206,45 +153,23 @@ export async function editImage(params: {
 }): Promise<GenerateImageResult> {
   const { prompt, image, mask, n = 1, size = "1024x1024" } = params;
 
-  if (!isOpenAIImageGenConfigured()) {
+  const provider = getImageProvider();
+
+  if (!provider.isConfigured()) {
     throw new Error("OpenAI API key not configured");
   }
 
   console.log(`[openaiImageGen] Editing image with prompt: "${prompt.substring(0, 100)}..."`);
 
-  // Convert base64 to File objects for the API
-  const imageBuffer = Buffer.from(image, "base64");
-  const imageFile = new File([imageBuffer], "image.png", { type: "image/png" });
-
-  const editParams: OpenAI.Images.ImageEditParams = {
-    model: "dall-e-2", // Edit only works with DALL-E 2
-    prompt: prompt,
-    image: imageFile,
-    n: Math.min(n, 4),
-    size: size,
-    response_format: "url",
-  };
-
-  if (mask) {
-    const maskBuffer = Buffer.from(mask, "base64");
-    const maskFile = new File([maskBuffer], "mask.png", { type: "image/png" });
-    editParams.mask = maskFile;
-  }
+  const images = await provider.edit({ prompt, image, mask, n, size });
 
-  const response = await openai.images.edit(editParams);
-
-  const images: string[] = [];
-  if (response.data) {
-    for (const data of response.data) {
-      if (data.url) {
-        const imageResponse = await fetch(data.url);
-        if (imageResponse.ok) {
-          const buffer = Buffer.from(await imageResponse.arrayBuffer());
-          images.push(buffer.toString("base64"));
-        }
-      }
-    }
-  }
+  await recordImageCost({
+    provider: provider.name,
+    model: provider.editModel,
+    size,
+    images: images.length,
+    edit: true,
+  });
 
   if (images.length === 0) {
     throw new Error("Failed to edit image");
@@ -260,6 +185,12 @@ export async function editImage(params: {
  * Call this at app startup or in tests to verify the configuration.
  */
 export function assertOpenAIOnlyProvider(): void {
+  // The local fake provider never leaves the machine - nothing to guard
+  if (getImageProvider().name === "fake") {
+    console.log("[PROVIDER GUARD] Using the local fake image provider (IMAGE_PROVIDER=fake)");
+    return;
+  }
+
   // Check that we're configured for OpenAI
   if (!process.env.OPENAI_API_KEY) {
     console.warn("[PROVIDER GUARD] OPENAI_API_KEY not set - image generation will fail");
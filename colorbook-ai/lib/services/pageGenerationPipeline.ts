@@ -0,0 +1,654 @@
+/**
+ * Page Generation Pipeline
+ *
+ * The SILENT AUTO-RETRY loop for a single coloring page: prompt contracts,
+ * progressive retry reinforcement, mandatory sanitize and quality validation.
+ *
+ * Shared by /api/batch/generate-one (browser-driven) and the durable
+ * generation queue (lib/generationQueue.ts) so both produce the same pages.
+ * Both pass the project's line thickness so strokes are gated on the same
+ * band as style clone pages (lib/lineWeight.ts).
+ */
+
+import { generateImage, type ImageSize as GPTImageSize } from "@/lib/services/openaiImageGen";
+import {
+  buildFinalColoringPrompt,
+  getRetryReinforcement,
+  type ImageSize,
+} from "@/lib/coloringPagePromptEnforcer";
+import { sanitizeColoringPngBase64 } from "@/lib/imageProcessing";
+import {
+  type CharacterIdentityProfile,
+  buildCharacterIdentityContract,
+  buildOutlineOnlyContract,
+  buildCharacterRetryReinforcement,
+} from "@/lib/characterIdentity";
+import { validateGeneratedImage, type ComplexityLevel } from "@/lib/services/imageValidator";
+import { validateQuoteSpelling, type QuoteSpellingResult } from "@/lib/services/quoteSpellingValidator";
+import {
+  isNonRetryableError,
+  type NonRetryableGenerationError,
+} from "@/lib/errors/generationErrors";
+import { isEntitlementError } from "@/lib/errors/entitlementErrors";
+import { recordImageUsage } from "@/lib/entitlements";
+import { assertSpendCap, setCostContext } from "@/lib/generationCosts";
+import { getProjectStyleContract } from "@/lib/styleLibraryStore";
+import type { StyleContract } from "@/lib/styleClone";
+import type { LineThickness } from "@/lib/generationSpec";
+import { measureLineWeight, isLineWeightInBand, LINE_WEIGHT_BANDS } from "@/lib/lineWeight";
+
+// Map sizes to GPT Image model compatible sizes
+// GPT Image model supports: 1024x1024, 1024x1536, 1536x1024
+const SIZE_TO_GPT: Record<string, GPTImageSize> = {
+  "1024x1024": "1024x1024",
+  "1024x1536": "1024x1536", // Portrait
+  "1536x1024": "1536x1024", // Landscape
+  "1024x1792": "1024x1536", // Map DALL-E portrait to GPT portrait
+  "1792x1024": "1536x1024", // Map DALL-E landscape to GPT landscape
+};
+
+// ============================================
+// RETRY CONFIGURATION
+// ============================================
+
+/** Max attempts per page before giving up (internal limit, not shown to user) */
+export const MAX_ATTEMPTS_PER_PAGE = 20;
+
+/** Max wall time per page in milliseconds (180 seconds = 3 min) */
+export const MAX_WALL_TIME_MS = 180 * 1000;
+
+/** Base delay between retries in ms */
+const BASE_RETRY_DELAY = 500;
+
+/** Max delay between retries in ms (exponential backoff cap) */
+const MAX_RETRY_DELAY = 5000;
+
+/** Stricter prompt addendum for retries */
+const STRICT_RETRY_ADDENDUM = `
+REMOVE ALL SOLID FILLS. SIMPLIFY BACKGROUND. OUTLINE ONLY. WHITE BACKGROUND ONLY.
+NO black areas, NO gray pixels, NO shading. Pure black lines on pure white.`;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface PageGenerationRequest {
+  userId: string;
+  projectId?: string;
+  page: number;
+  prompt: string;
+  size: string;
+  isStorybookMode: boolean;
+  characterProfile?: CharacterIdentityProfile;
+  validateOutline: boolean;
+  validateCharacter: boolean;
+  validateComposition: boolean;
+  complexity: ComplexityLevel;
+  /**
+   * Style Library rules for every attempt. Undefined means "use the style
+   * pinned in the project's settings", null means none.
+   */
+  styleContract?: StyleContract | null;
+  /**
+   * Quote the page's lettering must spell (quote pages with model-drawn
+   * lettering). Each attempt is transcribed and checked before validation.
+   */
+  expectedQuote?: string;
+  /**
+   * Project line thickness: attempts whose median stroke width is outside
+   * its band are retried (see getLineWeightSpec in lib/generationSpec.ts)
+   */
+  lineThickness?: LineThickness;
+  /** Width the page prints at, in 300 DPI pixels, for the stroke widths */
+  printWidthPx?: number;
+  /** Log prefix, e.g. "generate-one" */
+  logTag?: string;
+}
+
+type ValidationResult = Awaited<ReturnType<typeof validateGeneratedImage>>;
+
+export interface PageValidationSummary {
+  passed: boolean;
+  note?: string;
+  /** Unset when the page was not quality-validated */
+  character?: ValidationResult["characterValidation"];
+  outline?: ValidationResult["outlineValidation"];
+  coverage?: ValidationResult["coverageValidation"];
+  bottomFill?: ValidationResult["bottomFillValidation"];
+  spelling?: QuoteSpellingResult;
+  lineWeight?: PageLineWeightCheck;
+}
+
+export interface PageLineWeightCheck {
+  lineThickness: LineThickness;
+  /** Median stroke width, px at 300 DPI */
+  medianWidth: number;
+  inBand: boolean;
+}
+
+export type PageGenerationOutcome =
+  | {
+      status: "done";
+      imageBase64: string;
+      attempts: number;
+      attemptId: string;
+      validation?: PageValidationSummary;
+    }
+  | {
+      // A non-retryable provider error (billing, auth, policy) stopped the loop
+      status: "stopped";
+      error: NonRetryableGenerationError;
+      isPausable: boolean;
+      attempts: number;
+    }
+  | {
+      // Limits reached without any usable image - the page can be retried
+      status: "exhausted";
+      attempts: number;
+    };
+
+// ============================================
+// RETRY PROMPTS
+// ============================================
+
+/**
+ * Append progressive retry reinforcement to a page prompt.
+ *
+ * Attempt 1 returns the prompt unchanged. Also used by the batch API's
+ * quality requeue (openaiBatchImageGen.ts) so requeued pages get the same
+ * reinforcement as a realtime retry.
+ */
+export function buildRetryPrompt(
+  basePrompt: string,
+  options: {
+    attempt: number;
+    /** Validation-specific reinforcement from the failed attempt */
+    retryReinforcement?: string;
+    characterProfile?: CharacterIdentityProfile;
+    /** The failed attempt did not match the character */
+    characterInvalid?: boolean;
+    /** Spelling reinforcement from a failed quote spelling check */
+    spellingReinforcement?: string;
+    /** Line weight of the failed attempt, when it was outside the band */
+    lineWeight?: PageLineWeightCheck;
+  }
+): string {
+  const { attempt } = options;
+  if (attempt <= 1) return basePrompt;
+
+  // Add progressively stricter reinforcement
+  const genericReinforcement = getRetryReinforcement(Math.min(attempt - 1, 3));
+  let prompt = `${basePrompt}\n\n${genericReinforcement}`;
+
+  // Add validation-specific reinforcement if we have validation results
+  if (options.retryReinforcement) {
+    prompt = `${prompt}\n${options.retryReinforcement}`;
+  }
+
+  // Add character-specific reinforcement for storybook mode
+  if (options.characterProfile && options.characterInvalid) {
+    prompt = `${prompt}\n${buildCharacterRetryReinforcement(options.characterProfile)}`;
+  }
+
+  // Add spelling reinforcement for quote pages
+  if (options.spellingReinforcement) {
+    prompt = `${prompt}\n${options.spellingReinforcement}`;
+  }
+
+  // Add line weight reinforcement when strokes missed the band
+  if (options.lineWeight && !options.lineWeight.inBand) {
+    prompt = `${prompt}\n${buildLineWeightReinforcement(options.lineWeight)}`;
+  }
+
+  // After 3 attempts, add even stricter addendum
+  if (attempt > 3) {
+    prompt = `${prompt}\n${STRICT_RETRY_ADDENDUM}`;
+  }
+
+  return prompt;
+}
+
+// ============================================
+// PIPELINE
+// ============================================
+
+/**
+ * Generate one page, retrying until quality gates pass.
+ *
+ * - Up to MAX_ATTEMPTS_PER_PAGE attempts or MAX_WALL_TIME_MS wall time
+ * - Every image is sanitized to pure black/white before validation
+ * - With a line thickness, attempts whose strokes miss its band are retried
+ * - When limits are reached the best image so far is delivered as "done"
+ * - A delivered page counts once against the monthly image quota
+ *
+ * Throws EntitlementError when a spend cap is reached before any image exists.
+ * The caller is expected to have checked the image quota and set the cost context.
+ */
+export async function generatePageWithRetries(request: PageGenerationRequest): Promise<PageGenerationOutcome> {
+  const {
+    userId,
+    projectId,
+    page,
+    prompt,
+    size,
+    isStorybookMode,
+    characterProfile,
+    validateOutline,
+    validateCharacter,
+    validateComposition,
+    complexity,
+    expectedQuote,
+    lineThickness,
+    printWidthPx,
+  } = request;
+  const tag = `[${request.logTag || "pagePipeline"}]`;
+
+  const shouldValidateCharacter = isStorybookMode && validateCharacter && characterProfile;
+  const shouldValidateComposition = validateComposition;
+
+  console.log(`${tag} Page ${page}: Starting SILENT AUTO-RETRY (max ${MAX_ATTEMPTS_PER_PAGE} attempts, ${MAX_WALL_TIME_MS/1000}s timeout)`);
+
+  // Build base prompt with contracts
+  let basePrompt = prompt;
+
+  // Add character identity contract for storybook mode
+  if (isStorybookMode && characterProfile) {
+    const identityContract = buildCharacterIdentityContract(characterProfile);
+    basePrompt = `${prompt}\n${identityContract}`;
+  }
+
+  // Add outline-only contract (always)
+  const outlineContract = buildOutlineOnlyContract();
+  basePrompt = `${basePrompt}\n${outlineContract}`;
+
+  const styleContract = request.styleContract !== undefined
+    ? request.styleContract
+    : projectId ? await getProjectStyleContract(projectId) : null;
+
+  let lastValidationResult: ValidationResult | null = null;
+  let lastSpellingResult: QuoteSpellingResult | null = null;
+  let bestImage: string | null = null;
+  let bestImageAttemptId: string | null = null; // Track which attempt produced the best image
+  let bestSpellingResult: QuoteSpellingResult | null = null;
+  let lastLineWeight: PageLineWeightCheck | undefined;
+  let bestLineWeight: PageLineWeightCheck | undefined;
+  // Quote pages: the latest misspelled image, only used when no attempt spelled the quote right
+  let misspelledImage: { imageBase64: string; attemptId: string; spelling: QuoteSpellingResult } | null = null;
+
+  // Track wall time
+  const startTime = Date.now();
+
+  // Generate a unique request ID to track this generation session
+  const requestId = `${page}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  console.log(`${tag} Page ${page}: Request ${requestId} starting`);
+
+  // SILENT AUTO-RETRY LOOP - runs STRICTLY SEQUENTIALLY
+  // Each attempt must complete fully before the next one starts
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS_PER_PAGE; attempt++) {
+    // Generate attempt ID for tracking
+    const attemptId = `${requestId}-attempt${attempt}`;
+    // Check wall time limit
+    const elapsedMs = Date.now() - startTime;
+    if (elapsedMs >= MAX_WALL_TIME_MS) {
+      console.log(`${tag} Page ${page}: Wall time limit reached (${elapsedMs}ms)`);
+      break;
+    }
+
+    // Hard spend cap: deliver the best image we already paid for,
+    // otherwise let the caller pause (EntitlementError)
+    try {
+      await assertSpendCap(userId, projectId);
+    } catch (capError) {
+      if (bestImage && isEntitlementError(capError)) {
+        console.log(`${tag} Page ${page}: Spend cap reached, stopping retries`);
+        break;
+      }
+      throw capError;
+    }
+    setCostContext({ attempt });
+
+    try {
+      // Build prompt with appropriate reinforcement level
+      const currentPrompt = buildRetryPrompt(basePrompt, {
+        attempt,
+        retryReinforcement: lastValidationResult?.retryReinforcement,
+        characterProfile: isStorybookMode ? characterProfile : undefined,
+        characterInvalid: lastValidationResult?.characterValidation?.valid === false,
+        spellingReinforcement: lastSpellingResult?.retryReinforcement,
+        lineWeight: lastLineWeight,
+      });
+
+      // Apply all constraints via buildFinalColoringPrompt
+      const finalPrompt = buildFinalColoringPrompt(currentPrompt, {
+        includeNegativeBlock: true,
+        maxLength: 4500,
+        size: size as ImageSize,
+        isStorybookMode,
+        extraBottomReinforcement: attempt > 1,
+        extraCoverageReinforcement: attempt > 2,
+        styleContract,
+      });
+
+      console.log(`${tag} Page ${page}: [${attemptId}] Attempt ${attempt}/${MAX_ATTEMPTS_PER_PAGE} (prompt: ${finalPrompt.length} chars, elapsed: ${Math.round(elapsedMs/1000)}s)`);
+
+      // Map size to GPT Image model compatible size
+      const gptSize = SIZE_TO_GPT[size] || "1024x1536";
+
+      // Generate image with context for error tracking
+      const result = await generateImage({
+        prompt: finalPrompt,
+        n: 1,
+        size: gptSize,
+      }, {
+        pageIndex: page,
+      });
+
+      if (!result.images || result.images.length === 0) {
+        console.log(`${tag} Page ${page}: [${attemptId}] No image generated on attempt ${attempt}`);
+        await delay(getRetryDelay(attempt));
+        continue;
+      }
+
+      // ================================================
+      // MANDATORY SANITIZE: Flatten to white, remove alpha
+      // ================================================
+      let imageBase64 = result.images[0];
+      let sanitizeSuccess = false;
+      try {
+        console.log(`${tag} Page ${page}: [${attemptId}] Sanitizing image (flatten to white, remove alpha)`);
+        imageBase64 = await sanitizeColoringPngBase64(imageBase64);
+        sanitizeSuccess = true;
+      } catch (sanitizeError) {
+        const errorMsg = sanitizeError instanceof Error ? sanitizeError.message : String(sanitizeError);
+        console.error(`${tag} Page ${page}: [${attemptId}] Sanitize error: ${errorMsg}`);
+
+        // If image is invalid (blank, too dark), RETRY immediately
+        if (errorMsg.includes("IMAGE_INVALID")) {
+          console.log(`${tag} Page ${page}: [${attemptId}] Invalid image detected, will retry with stricter prompt`);
+
+          // Add specific reinforcement based on the failure type
+          if (errorMsg.includes("too_dark")) {
+            lastValidationResult = {
+              valid: false,
+              outlineValidation: {
+                valid: false,
+                hasBlackFills: true,
+                hasGrayscale: false,
+                hasUnwantedBorder: false,
+                fillLocations: ["entire image - dark background"],
+                confidence: 1.0,
+                notes: "Image has dark/black background instead of white",
+              },
+              retryReinforcement: "CRITICAL: Generate on PURE WHITE background (#FFFFFF). NO dark colors, NO black background, NO gray. Only BLACK LINES on WHITE.",
+            };
+          } else if (errorMsg.includes("blank") || errorMsg.includes("no_content")) {
+            lastValidationResult = {
+              valid: false,
+              outlineValidation: {
+                valid: false,
+                hasBlackFills: false,
+                hasGrayscale: false,
+                hasUnwantedBorder: false,
+                fillLocations: ["no content"],
+                confidence: 1.0,
+                notes: "Image is blank/empty with no visible content",
+              },
+              retryReinforcement: "CRITICAL: You MUST draw visible BLACK LINE ART. The image must have clear outlines, shapes, and details - not blank.",
+            };
+          }
+
+          await delay(getRetryDelay(attempt));
+          continue; // Retry immediately
+        }
+      }
+
+      // Only track valid images
+      if (!sanitizeSuccess) {
+        console.log(`${tag} Page ${page}: [${attemptId}] Skipping invalid image`);
+        await delay(getRetryDelay(attempt));
+        continue;
+      }
+
+      // SPELLING STEP (quote pages): a misspelled quote fails the attempt
+      // before paying for quality validation, and never replaces a correctly
+      // spelled best image
+      if (expectedQuote) {
+        lastSpellingResult = await validateQuoteSpelling(imageBase64, expectedQuote);
+
+        if (!lastSpellingResult.valid) {
+          console.log(`${tag} Page ${page}: [${attemptId}] ✗ FAIL - spelling: ${lastSpellingResult.notes}`);
+          misspelledImage = { imageBase64, attemptId, spelling: lastSpellingResult };
+          await delay(getRetryDelay(attempt));
+          continue;
+        }
+      }
+
+      // LINE WEIGHT STEP: measured before the image is tracked so the best
+      // image keeps its own measurement
+      if (lineThickness) {
+        lastLineWeight = await checkLineWeight(imageBase64, lineThickness, printWidthPx);
+      }
+
+      // Track this image with its attempt ID
+      // Only update bestImage if this attempt is newer (prevents race conditions)
+      const shouldUpdateBest = !bestImageAttemptId || attemptId > bestImageAttemptId;
+      if (shouldUpdateBest) {
+        bestImage = imageBase64;
+        bestImageAttemptId = attemptId;
+        bestSpellingResult = lastSpellingResult;
+        bestLineWeight = lastLineWeight;
+      }
+
+      // Strokes outside the band fail the attempt before paying for
+      // quality validation
+      if (lastLineWeight && !lastLineWeight.inBand) {
+        console.log(`${tag} Page ${page}: [${attemptId}] ✗ FAIL - line weight ${lastLineWeight.medianWidth}px outside the ${lineThickness} band`);
+        await delay(getRetryDelay(attempt));
+        continue;
+      }
+
+      // VALIDATION STEP
+      if (validateOutline || shouldValidateCharacter || shouldValidateComposition) {
+        const validationResult = await validateGeneratedImage(
+          imageBase64,
+          shouldValidateCharacter ? characterProfile : undefined,
+          !!shouldValidateCharacter,
+          shouldValidateComposition,
+          complexity
+        );
+
+        lastValidationResult = validationResult;
+
+        // Log validation results with detail
+        const outlineNotes = validationResult.outlineValidation?.notes || "";
+        console.log(`${tag} Page ${page}: [${attemptId}] Validation - valid: ${validationResult.valid}, outline: ${validationResult.outlineValidation?.valid}, notes: ${outlineNotes.slice(0, 100)}`);
+
+        // If validation passed, return SUCCESS!
+        if (validationResult.valid) {
+          console.log(`${tag} Page ${page}: [${attemptId}] ✓ PASS on attempt ${attempt}`);
+          await recordImageUsage(userId, 1);
+          return {
+            status: "done",
+            imageBase64,
+            attempts: attempt,
+            attemptId,
+            validation: summarizeValidation(validationResult, lastSpellingResult, lastLineWeight),
+          };
+        }
+
+        // Validation failed - log details and continue retrying
+        // IMPORTANT: Do NOT save this image - it failed validation
+        console.log(`${tag} Page ${page}: [${attemptId}] ✗ FAIL - validation failed, will retry. Reason: ${validationResult.outlineValidation?.notes || "unknown"}`);
+
+        // Clear bestImage if this was a dark background failure (never keep dark images)
+        if (outlineNotes.includes("dark_background") || outlineNotes.includes("PRE-VALIDATION FAILED")) {
+          console.log(`${tag} Page ${page}: [${attemptId}] Discarding dark background image`);
+          if (bestImageAttemptId === attemptId) {
+            bestImage = null;
+            bestImageAttemptId = null;
+          }
+        }
+
+        await delay(getRetryDelay(attempt));
+        continue;
+
+      } else {
+        // No validation requested - return immediately with postprocessed image
+        console.log(`${tag} Page ${page}: [${attemptId}] ✓ Success (no validation) on attempt ${attempt}`);
+        await recordImageUsage(userId, 1);
+        return {
+          status: "done",
+          imageBase64,
+          attempts: attempt,
+          attemptId,
+          validation: lastSpellingResult || lastLineWeight
+            ? summarizeValidation(null, lastSpellingResult, lastLineWeight)
+            : undefined,
+        };
+      }
+
+    } catch (attemptError) {
+      // CHECK FOR NON-RETRYABLE ERRORS - STOP IMMEDIATELY
+      if (isNonRetryableError(attemptError)) {
+        console.error(`${tag} Page ${page}: [${attemptId}] NON-RETRYABLE ERROR - ${attemptError.code}`);
+
+        return {
+          status: "stopped",
+          error: attemptError,
+          isPausable: isPausableGenerationError(attemptError),
+          attempts: attempt,
+        };
+      }
+
+      // Regular retryable error - use exponential backoff
+      const errorMsg = attemptError instanceof Error ? attemptError.message : "Generation error";
+      console.error(`${tag} Page ${page}: [${attemptId}] Attempt ${attempt} error: ${errorMsg}`);
+
+      // Exponential backoff for network/rate limit errors
+      await delay(getRetryDelay(attempt));
+      continue;
+    }
+  }
+
+  // ================================================
+  // LIMITS REACHED - NEVER return "failed" for quality issues
+  // ================================================
+  console.log(`${tag} Page ${page}: [${requestId}] Limits reached after ${MAX_ATTEMPTS_PER_PAGE} attempts`);
+
+  // If we have ANY image, return it as "done"
+  // The sanitization guarantees white background, so just use what we have
+  if (bestImage && bestImageAttemptId) {
+    console.log(`${tag} Page ${page}: [${requestId}] Returning best available image (attemptId: ${bestImageAttemptId})`);
+    await recordImageUsage(userId, 1);
+    return {
+      status: "done", // Always "done" if we have an image - NEVER "failed"
+      imageBase64: bestImage,
+      attempts: MAX_ATTEMPTS_PER_PAGE,
+      attemptId: bestImageAttemptId,
+      validation: lastValidationResult || bestSpellingResult || bestLineWeight
+        ? summarizeValidation(lastValidationResult, bestSpellingResult, bestLineWeight)
+        : undefined,
+    };
+  }
+
+  // Every image misspelled the quote - deliver the last one, flagged
+  if (misspelledImage) {
+    console.log(`${tag} Page ${page}: [${requestId}] Returning misspelled image (attemptId: ${misspelledImage.attemptId})`);
+    await recordImageUsage(userId, 1);
+    return {
+      status: "done",
+      imageBase64: misspelledImage.imageBase64,
+      attempts: MAX_ATTEMPTS_PER_PAGE,
+      attemptId: misspelledImage.attemptId,
+      validation: summarizeValidation(null, misspelledImage.spelling),
+    };
+  }
+
+  console.log(`${tag} Page ${page}: [${requestId}] No valid image yet`);
+  return {
+    status: "exhausted",
+    attempts: MAX_ATTEMPTS_PER_PAGE,
+  };
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Billing/quota errors pause the queue; everything else is a hard stop
+ */
+export function isPausableGenerationError(error: NonRetryableGenerationError): boolean {
+  return ["BILLING_LIMIT", "INSUFFICIENT_QUOTA"].includes(error.code);
+}
+
+function summarizeValidation(
+  result: ValidationResult | null,
+  spelling: QuoteSpellingResult | null,
+  lineWeight?: PageLineWeightCheck
+): PageValidationSummary {
+  const passed = (result?.valid ?? true) && spelling?.valid !== false && lineWeight?.inBand !== false;
+  let note: string | undefined;
+  if (!passed) {
+    note = spelling?.valid === false
+      ? "Quote may be misspelled"
+      : lineWeight?.inBand === false ? "Line weight may not match the project" : "Image quality may vary";
+  }
+  return {
+    passed,
+    note,
+    character: result?.characterValidation,
+    outline: result?.outlineValidation,
+    coverage: result?.coverageValidation,
+    bottomFill: result?.bottomFillValidation,
+    spelling: spelling ?? undefined,
+    lineWeight,
+  };
+}
+
+/**
+ * Measure an attempt's stroke widths against the line thickness band.
+ * Undefined when nothing could be measured (no strokes, or an error) - the
+ * attempt is then not gated on line weight.
+ */
+async function checkLineWeight(
+  imageBase64: string,
+  lineThickness: LineThickness,
+  printWidthPx: number | undefined
+): Promise<PageLineWeightCheck | undefined> {
+  try {
+    const measurement = await measureLineWeight(Buffer.from(imageBase64, "base64"), { printWidthPx });
+    if (measurement.samples === 0) return undefined;
+    return {
+      lineThickness,
+      medianWidth: measurement.medianWidth,
+      inBand: isLineWeightInBand(measurement, lineThickness),
+    };
+  } catch (error) {
+    console.error("Line weight measurement error:", error);
+    return undefined;
+  }
+}
+
+function buildLineWeightReinforcement(lineWeight: PageLineWeightCheck): string {
+  const band = LINE_WEIGHT_BANDS[lineWeight.lineThickness];
+  return lineWeight.medianWidth < band.min
+    ? `LINE WEIGHT: Lines were too thin. Draw ALL outlines noticeably THICKER and bolder, consistent ${lineWeight.lineThickness} strokes.`
+    : `LINE WEIGHT: Lines were too thick. Draw ALL outlines noticeably THINNER, consistent ${lineWeight.lineThickness} strokes.`;
+}
+
+/**
+ * Calculate retry delay with exponential backoff
+ */
+function getRetryDelay(attempt: number): number {
+  // Exponential backoff: 500ms, 1000ms, 2000ms, 4000ms, capped at 5000ms
+  const delay = Math.min(BASE_RETRY_DELAY * Math.pow(2, attempt - 1), MAX_RETRY_DELAY);
+  return delay;
+}
+
+/**
+ * Async delay helper
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,168 @@
+/**
+ * quoteSpellingValidator.ts
+ *
+ * Spelling check for quote pages whose lettering is drawn by the image model.
+ * The active QuoteTextReader (lib/services/quoteTextReaders) transcribes the
+ * page, and the transcription is compared to the intended quote with a
+ * normalized edit distance. A failed check carries a spelling reinforcement
+ * for the retry prompt.
+ *
+ * Pages with vector lettering (textRendering "vector") never need this - their
+ * text is typeset from the quote itself.
+ */
+
+import { getQuoteTextReader } from "@/lib/services/quoteTextReaders";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Max edit distance per character of the quote. Tolerates a stray OCR
+ * misread in a long quote; any wrong letter in a short quote fails.
+ */
+export const MAX_NORMALIZED_DISTANCE = 0.03;
+
+/** Below this reader confidence a transcription can't fail a page */
+const MIN_READER_CONFIDENCE = 0.3;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface QuoteSpellingResult {
+  valid: boolean;
+  expected: string;
+  /** Transcribed lettering (empty when the check was skipped) */
+  extracted: string;
+  /** Levenshtein distance / length of the expected quote, after normalization */
+  distance: number;
+  /** Quote words missing or misspelled in the lettering */
+  misspelledWords: string[];
+  confidence: number;
+  notes: string;
+  /** Reinforcement for the retry prompt when the check failed */
+  retryReinforcement?: string;
+}
+
+// ============================================
+// TEXT COMPARISON
+// ============================================
+
+/**
+ * Normalize text for comparison: case, curly quotes/apostrophes, punctuation
+ * and whitespace don't count as spelling.
+ */
+export function normalizeForSpelling(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’ʼ]/g, "'")
+    .replace(/[^a-z0-9\u00C0-\u024F' ]+/g, " ")
+    .replace(/'/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Edit distance between the normalized texts, divided by the expected length
+ */
+export function normalizedEditDistance(expected: string, actual: string): number {
+  const a = normalizeForSpelling(expected);
+  const b = normalizeForSpelling(actual);
+  return editDistance(a, b) / Math.max(a.length, 1);
+}
+
+function findMisspelledWords(expected: string, actual: string): string[] {
+  const actualWords = new Set(normalizeForSpelling(actual).split(" "));
+  const words = normalizeForSpelling(expected).split(" ").filter(w => w && !actualWords.has(w));
+  return [...new Set(words)];
+}
+
+/**
+ * Retry reinforcement naming the exact text and the words that came out wrong
+ */
+export function buildSpellingReinforcement(expected: string, misspelledWords: string[]): string {
+  const lines = [
+    `CRITICAL SPELLING: The lettering must read EXACTLY "${expected}" - every word, every letter, nothing added or left out.`,
+  ];
+  if (misspelledWords.length > 0) {
+    const spelled = misspelledWords
+      .slice(0, 6)
+      .map(word => `"${word.toUpperCase()}" = ${word.toUpperCase().split("").join("-")}`);
+    lines.push(`The previous attempt misspelled: ${spelled.join(", ")}.`);
+  }
+  lines.push("Use FEWER, LARGER words per line so each letter is drawn clearly.");
+  return lines.join("\n");
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Check that a page's drawn lettering matches the intended quote.
+ * Skips (passes) when the reader isn't configured or the reader fails -
+ * a spelling check must never block delivery on its own errors.
+ */
+export async function validateQuoteSpelling(imageBase64: string, expectedQuote: string): Promise<QuoteSpellingResult> {
+  const reader = getQuoteTextReader();
+  const skipped = (notes: string): QuoteSpellingResult => ({
+    valid: true,
+    expected: expectedQuote,
+    extracted: "",
+    distance: 0,
+    misspelledWords: [],
+    confidence: 0,
+    notes,
+  });
+
+  if (!reader.isConfigured()) {
+    console.warn(`[quoteSpelling] Reader "${reader.name}" not configured, skipping spelling check`);
+    return skipped(`Spelling check skipped - ${reader.name} reader not configured`);
+  }
+
+  try {
+    const { text, confidence } = await reader.readText({ imageBase64, expectedText: expectedQuote });
+    const distance = normalizedEditDistance(expectedQuote, text);
+    const misspelledWords = findMisspelledWords(expectedQuote, text);
+    const valid = distance <= MAX_NORMALIZED_DISTANCE || confidence < MIN_READER_CONFIDENCE;
+
+    console.log(`[quoteSpelling] ${reader.model}: distance=${distance.toFixed(3)} (max ${MAX_NORMALIZED_DISTANCE}), confidence=${confidence}, read "${text.slice(0, 80)}"`);
+
+    return {
+      valid,
+      expected: expectedQuote,
+      extracted: text,
+      distance,
+      misspelledWords,
+      confidence,
+      notes: valid
+        ? confidence < MIN_READER_CONFIDENCE ? "Lettering hard to read - spelling not enforced" : "Spelling OK"
+        : `Misspelled: ${misspelledWords.join(", ") || "word order/extra text"}`,
+      retryReinforcement: valid ? undefined : buildSpellingReinforcement(expectedQuote, misspelledWords),
+    };
+  } catch (error) {
+    console.error("[quoteSpelling] Reader error:", error);
+    return skipped(`Spelling check error: ${error instanceof Error ? error.message : "unknown"}`);
+  }
+}
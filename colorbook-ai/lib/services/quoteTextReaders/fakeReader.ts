@@ -0,0 +1,24 @@
+/**
+ * Fake quote text reader - no network.
+ *
+ * Selected with QUOTE_TEXT_READER=fake (the default when IMAGE_PROVIDER=fake,
+ * whose line art has no lettering). Reads back the expected quote, so every
+ * page passes, unless QUOTE_TEXT_READER_FAKE_TEXT is set - then that text is
+ * "read" from every page, to exercise the misspelling retry path in tests.
+ */
+
+import type { QuoteTextReader, QuoteTextReadRequest, QuoteTextReadResult } from "./types";
+
+async function readText(request: QuoteTextReadRequest): Promise<QuoteTextReadResult> {
+  return {
+    text: process.env.QUOTE_TEXT_READER_FAKE_TEXT ?? request.expectedText,
+    confidence: 1,
+  };
+}
+
+export const fakeQuoteTextReader: QuoteTextReader = {
+  name: "fake",
+  model: "fake-reader",
+  isConfigured: () => true,
+  readText,
+};
@@ -0,0 +1,44 @@
+/**
+ * Quote text reader selection.
+ *
+ * QUOTE_TEXT_READER=openai - vision model transcription (default)
+ * QUOTE_TEXT_READER=fake   - local stub, no network (default with IMAGE_PROVIDER=fake)
+ */
+
+import { openaiQuoteTextReader } from "./openaiReader";
+import { fakeQuoteTextReader } from "./fakeReader";
+import { getImageProviderName } from "@/lib/services/imageProviders";
+import type { QuoteTextReader, QuoteTextReaderName } from "./types";
+
+export type * from "./types";
+
+const READERS: Record<QuoteTextReaderName, QuoteTextReader> = {
+  openai: openaiQuoteTextReader,
+  fake: fakeQuoteTextReader,
+};
+
+let warnedUnknown = false;
+
+/**
+ * Name of the reader selected by QUOTE_TEXT_READER
+ */
+export function getQuoteTextReaderName(): QuoteTextReaderName {
+  const fallback: QuoteTextReaderName = getImageProviderName() === "fake" ? "fake" : "openai";
+  const value = (process.env.QUOTE_TEXT_READER || fallback).trim().toLowerCase();
+  if (value in READERS) {
+    return value as QuoteTextReaderName;
+  }
+
+  if (!warnedUnknown) {
+    console.warn(`[quoteTextReaders] Unknown QUOTE_TEXT_READER "${value}", using ${fallback}`);
+    warnedUnknown = true;
+  }
+  return fallback;
+}
+
+/**
+ * The active quote text reader
+ */
+export function getQuoteTextReader(): QuoteTextReader {
+  return READERS[getQuoteTextReaderName()];
+}
@@ -0,0 +1,64 @@
+/**
+ * OpenAI quote text reader - transcribes page lettering with the vision model.
+ */
+
+import { openai, isOpenAIConfigured } from "@/lib/openai";
+import type { QuoteTextReader, QuoteTextReadRequest, QuoteTextReadResult } from "./types";
+
+const READER_MODEL = "gpt-4o";
+
+const TRANSCRIBE_PROMPT = `You are an OCR engine for coloring book pages. The page shows a quote drawn in outline lettering, possibly surrounded by decorations.
+
+Transcribe the quote EXACTLY as it is drawn, letter by letter:
+- Do NOT correct spelling mistakes, missing letters or doubled letters - report what is actually drawn
+- Keep the drawn word order; join lines with single spaces
+- Ignore decorations, icons and borders
+- Use "?" for a letter you cannot read
+
+Respond with ONLY valid JSON:
+{
+  "text": "the transcribed quote",
+  "confidence": 0.0-1.0 (how legible the lettering is)
+}`;
+
+async function readText(request: QuoteTextReadRequest): Promise<QuoteTextReadResult> {
+  const response = await openai.chat.completions.create({
+    model: READER_MODEL,
+    messages: [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: TRANSCRIBE_PROMPT },
+          {
+            type: "image_url",
+            image_url: {
+              url: `data:image/png;base64,${request.imageBase64}`,
+              detail: "high", // lettering needs more than the low-detail thumbnail
+            },
+          },
+        ],
+      },
+    ],
+    max_tokens: 300,
+    temperature: 0,
+    response_format: { type: "json_object" },
+  });
+
+  const content = response.choices[0]?.message?.content;
+  if (!content) {
+    throw new Error("Empty transcription response");
+  }
+
+  const parsed = JSON.parse(content) as { text?: unknown; confidence?: unknown };
+  return {
+    text: typeof parsed.text === "string" ? parsed.text : "",
+    confidence: typeof parsed.confidence === "number" ? parsed.confidence : 0.5,
+  };
+}
+
+export const openaiQuoteTextReader: QuoteTextReader = {
+  name: "openai",
+  model: READER_MODEL,
+  isConfigured: isOpenAIConfigured,
+  readText,
+};
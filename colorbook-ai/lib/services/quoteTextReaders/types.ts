@@ -0,0 +1,45 @@
+/**
+ * Quote text reader contract.
+ *
+ * A reader only extracts the lettering drawn on a quote page;
+ * lib/services/quoteSpellingValidator.ts compares it to the intended quote
+ * and builds the retry reinforcement.
+ */
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type QuoteTextReaderName = "openai" | "fake";
+
+export interface QuoteTextReadRequest {
+  imageBase64: string; // sanitized PNG
+  /**
+   * The quote the page should show. Real readers must NOT use it (it would
+   * bias the transcription); the fake reader echoes it back.
+   */
+  expectedText: string;
+}
+
+export interface QuoteTextReadResult {
+  /** Text as drawn, in reading order, lines joined with spaces */
+  text: string;
+  /** 0-1, how legible the reader found the lettering */
+  confidence: number;
+}
+
+// ============================================================
+// READER INTERFACE
+// ============================================================
+
+export interface QuoteTextReader {
+  readonly name: QuoteTextReaderName;
+  /** Model identifier, for logs */
+  readonly model: string;
+
+  /** Whether the reader can run with the current environment */
+  isConfigured(): boolean;
+
+  /** Extract the lettering drawn on a page */
+  readText(request: QuoteTextReadRequest): Promise<QuoteTextReadResult>;
+}
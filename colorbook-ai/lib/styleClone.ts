@@ -1,6 +1,6 @@
 /**
- * styleClone.ts - Types and in-memory storage for Style Clone Generator
- * NOTE: This is demo/temporary storage. Projects expire after 6 hours.
+ * styleClone.ts - Types for Style Clone Generator
+ * Projects are persisted by lib/styleCloneStore.ts.
  */
 
 import type { Complexity, LineThickness } from "./generationSpec";
@@ -92,12 +92,10 @@ export interface StyleCloneDebugInfo {
 
 export type StyleCloneMode = "series" | "collection";
 
-export interface StyleCloneProject {
-  id: string;
-  createdAt: Date;
-  expiresAt: Date;
-  /** Base64 of the uploaded reference image */
-  referenceImageBase64: string;
+/**
+ * Style clone state kept in projects.settings.styleClone
+ */
+export interface StyleCloneSettings {
   /** Mode: series (same character) or collection (same style only) */
   mode: StyleCloneMode;
   /** User-provided theme text (optional) */
@@ -116,129 +114,24 @@ export interface StyleCloneProject {
   styleContract: StyleContract | null;
   /** Whether the anchor/sample has been approved */
   anchorApproved: boolean;
+}
+
+export interface StyleCloneProject extends StyleCloneSettings {
+  /** projects.id */
+  id: string;
+  createdAt: string;
+  /** null when the plan keeps projects forever */
+  expiresAt: string | null;
+  /** Base64 of the uploaded reference image */
+  referenceImageBase64: string;
   /** Base64 of the approved anchor image */
   anchorImageBase64: string | null;
   /** Generated prompts */
   prompts: StyleClonePrompt[];
-  /** Generated images */
+  /** Generated images (signed imageUrl when loaded from storage) */
   images: StyleCloneImage[];
 }
 
-// ============================================
-// In-Memory Storage (Demo Mode)
-// ============================================
-
-const projectStore = new Map<string, StyleCloneProject>();
-
-// Cleanup interval - run every 15 minutes
-const CLEANUP_INTERVAL_MS = 15 * 60 * 1000;
-const PROJECT_TTL_MS = 6 * 60 * 60 * 1000; // 6 hours
-
-// Cleanup expired projects
-function cleanupExpiredProjects() {
-  const now = new Date();
-  for (const [id, project] of projectStore.entries()) {
-    if (project.expiresAt < now) {
-      projectStore.delete(id);
-      console.log(`[StyleClone] Cleaned up expired project: ${id}`);
-    }
-  }
-}
-
-// Start cleanup interval (only on server)
-if (typeof window === "undefined") {
-  setInterval(cleanupExpiredProjects, CLEANUP_INTERVAL_MS);
-}
-
-/**
- * Generate a unique project ID
- */
-export function generateProjectId(): string {
-  const timestamp = Date.now().toString(36);
-  const random = Math.random().toString(36).substring(2, 8);
-  return `sc_${timestamp}_${random}`;
-}
-
-/**
- * Create a new style clone project
- */
-export function createProject(params: {
-  referenceImageBase64: string;
-  mode: StyleCloneMode;
-  themeText: string;
-  pagesCount: number;
-  complexity: Complexity;
-  lineThickness: LineThickness;
-  sizePreset: string;
-}): StyleCloneProject {
-  const id = generateProjectId();
-  const now = new Date();
-  const expiresAt = new Date(now.getTime() + PROJECT_TTL_MS);
-
-  const project: StyleCloneProject = {
-    id,
-    createdAt: now,
-    expiresAt,
-    referenceImageBase64: params.referenceImageBase64,
-    mode: params.mode,
-    themeText: params.themeText,
-    pagesCount: params.pagesCount,
-    complexity: params.complexity,
-    lineThickness: params.lineThickness,
-    sizePreset: params.sizePreset,
-    themePack: null,
-    styleContract: null,
-    anchorApproved: false,
-    anchorImageBase64: null,
-    prompts: [],
-    images: [],
-  };
-
-  projectStore.set(id, project);
-  console.log(`[StyleClone] Created project: ${id}, expires at ${expiresAt.toISOString()}`);
-  
-  return project;
-}
-
-/**
- * Get a project by ID
- */
-export function getProject(id: string): StyleCloneProject | undefined {
-  const project = projectStore.get(id);
-  if (project && project.expiresAt < new Date()) {
-    projectStore.delete(id);
-    return undefined;
-  }
-  return project;
-}
-
-/**
- * Update a project
- */
-export function updateProject(id: string, updates: Partial<StyleCloneProject>): StyleCloneProject | undefined {
-  const project = getProject(id);
-  if (!project) return undefined;
-
-  const updated = { ...project, ...updates };
-  projectStore.set(id, updated);
-  return updated;
-}
-
-/**
- * Delete a project
- */
-export function deleteProject(id: string): boolean {
-  return projectStore.delete(id);
-}
-
-/**
- * Get all active projects (for debugging)
- */
-export function getAllProjects(): StyleCloneProject[] {
-  cleanupExpiredProjects();
-  return Array.from(projectStore.values());
-}
-
 // ============================================
 // Size Presets for KDP
 // ============================================
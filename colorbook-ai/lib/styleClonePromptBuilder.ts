@@ -14,7 +14,7 @@
 
 import type { GenerationSpec, Complexity, LineThickness } from "./generationSpec";
 import type { StyleContract, ThemePack } from "./styleClone";
-import { NO_FILL_CONSTRAINTS, NEGATIVE_PROMPT_LIST } from "./coloringPagePromptEnforcer";
+import { NO_FILL_CONSTRAINTS, NEGATIVE_PROMPT_LIST, buildStyleRulesBlock } from "./coloringPagePromptEnforcer";
 
 // ============================================================
 // CHARACTER BIBLE (Enhanced for consistency)
@@ -204,11 +204,7 @@ Props: ${themePack.recurringProps.slice(0, 5).join(", ")}`);
 
   // 5. STYLE RULES (from vision analysis)
   if (styleContract) {
-    parts.push(`STYLE RULES:
-- Lines: ${styleContract.outlineRules || "medium outer contours, thinner inner details"}
-- Eyes: ${styleContract.eyeRules || "outline only with tiny dot pupils, NO solid black"}
-- Background: ${styleContract.backgroundRules || "minimal, 3-5 simple props"}
-- Composition: ${styleContract.compositionRules || "centered subject, 10-15% margins"}`);
+    parts.push(buildStyleRulesBlock(styleContract));
   }
 
   // 6. COMPLEXITY + COMPOSITION
@@ -0,0 +1,355 @@
+/**
+ * Style Clone Store
+ *
+ * Persists Style Clone projects as regular projects (origin "style_clone"):
+ * settings.styleClone holds the style state, prompts go to project_prompts,
+ * and the reference image, anchor image and pages go to the "generated"
+ * bucket as assets - so they follow plan retention and list in /app/projects.
+ */
+
+import "server-only";
+import {
+  getSupabaseServerClient,
+  getRetentionHours,
+  calculateExpiresAt,
+  createSignedUrl,
+  uploadToStorage,
+} from "@/lib/supabase/server";
+import {
+  createProject,
+  deleteProjectPromptsAfter,
+  getProject,
+  listProjectPrompts,
+  saveProjectPrompts,
+  updateProject,
+} from "@/lib/projectStore";
+import { detectDuplicatePage } from "@/lib/pageDuplicates";
+import type { AssetMeta, AssetType, Project } from "@/types/database";
+import type {
+  StyleCloneImage,
+  StyleCloneProject,
+  StyleClonePrompt,
+  StyleCloneSettings,
+} from "@/lib/styleClone";
+
+const BUCKET = "generated";
+
+export interface CreateStyleCloneInput {
+  referenceImageBase64: string;
+  name?: string;
+  settings: Partial<StyleCloneSettings>;
+}
+
+export interface StyleCloneUpdate extends Partial<StyleCloneSettings> {
+  name?: string;
+  /** Replaces all prompts */
+  prompts?: StyleClonePrompt[];
+  anchorImageBase64?: string;
+}
+
+const DEFAULT_SETTINGS: StyleCloneSettings = {
+  mode: "collection",
+  themeText: "",
+  pagesCount: 10,
+  complexity: "medium",
+  lineThickness: "medium",
+  sizePreset: "8.5x11",
+  themePack: null,
+  styleContract: null,
+  anchorApproved: false,
+};
+
+// ============================================
+// Projects
+// ============================================
+
+/**
+ * Create a style clone project and store its reference image
+ */
+export async function createStyleCloneProject(
+  userId: string,
+  input: CreateStyleCloneInput
+): Promise<StyleCloneProject> {
+  const styleClone: StyleCloneSettings = { ...DEFAULT_SETTINGS, ...input.settings };
+
+  const project = await createProject({
+    userId,
+    name: input.name || styleClone.themeText || styleClone.styleContract?.extractedThemeGuess || "Style Clone",
+    origin: "style_clone",
+    bookType: styleClone.mode === "series" ? "storybook" : "theme",
+    idea: styleClone.themeText || undefined,
+    pagesRequested: styleClone.pagesCount,
+    settings: {
+      pageCount: styleClone.pagesCount,
+      complexity: styleClone.complexity,
+      lineThickness: styleClone.lineThickness,
+      trimSize: styleClone.sizePreset,
+      styleClone,
+    },
+  });
+
+  await saveSingleImage(project.id, userId, "style_reference", input.referenceImageBase64);
+
+  return {
+    ...styleClone,
+    id: project.id,
+    createdAt: project.created_at,
+    expiresAt: project.expires_at,
+    referenceImageBase64: stripDataUrl(input.referenceImageBase64),
+    anchorImageBase64: null,
+    prompts: [],
+    images: [],
+  };
+}
+
+/**
+ * Load a user's style clone project with its images.
+ * Pages come back with a signed imageUrl rather than base64.
+ */
+export async function getStyleCloneProject(
+  projectId: string,
+  userId: string
+): Promise<StyleCloneProject | null> {
+  const project = await getProject(projectId, userId);
+  if (!project || project.origin !== "style_clone") return null;
+
+  const supabase = getSupabaseServerClient();
+  const [prompts, { data: assets, error }] = await Promise.all([
+    listProjectPrompts(projectId, userId),
+    supabase
+      .from("generated_assets")
+      .select("*")
+      .eq("project_id", projectId)
+      .eq("user_id", userId)
+      .in("asset_type", ["style_reference", "style_anchor", "page_image"])
+      .eq("status", "ready")
+      .order("page_number", { ascending: true }),
+  ]);
+
+  if (error) throw new Error(error.message);
+
+  let referenceImageBase64 = "";
+  let anchorImageBase64: string | null = null;
+  const images: StyleCloneImage[] = [];
+
+  for (const asset of assets ?? []) {
+    if (!asset.storage_path) continue;
+
+    if (asset.asset_type === "style_reference") {
+      referenceImageBase64 = (await downloadBase64(asset.storage_path)) ?? "";
+    } else if (asset.asset_type === "style_anchor") {
+      anchorImageBase64 = await downloadBase64(asset.storage_path);
+    } else if (asset.meta?.styleClone && asset.page_number) {
+      images.push({
+        pageIndex: asset.page_number,
+        imageUrl: (await createSignedUrl(BUCKET, asset.storage_path)) ?? undefined,
+        finalPrompt: asset.meta.styleClone.finalPrompt,
+        passedGates: asset.meta.styleClone.passedGates,
+        debug: asset.meta.styleClone.debug,
+      });
+    }
+  }
+
+  return {
+    ...getSettings(project),
+    id: project.id,
+    createdAt: project.created_at,
+    expiresAt: project.expires_at,
+    referenceImageBase64,
+    anchorImageBase64,
+    prompts: prompts.map((p) => ({
+      pageIndex: p.page_index,
+      title: p.title ?? `Page ${p.page_index}`,
+      scenePrompt: p.prompt_text,
+    })),
+    images,
+  };
+}
+
+/**
+ * Update style state, prompts and/or the anchor image.
+ * Returns false if the project doesn't exist or isn't a style clone project.
+ */
+export async function updateStyleCloneProject(
+  projectId: string,
+  userId: string,
+  update: StyleCloneUpdate
+): Promise<boolean> {
+  const project = await getProject(projectId, userId);
+  if (!project || project.origin !== "style_clone") return false;
+
+  const { name, prompts, anchorImageBase64, ...settingsUpdate } = update;
+  const styleClone: StyleCloneSettings = { ...getSettings(project), ...settingsUpdate };
+
+  if (anchorImageBase64) {
+    await saveSingleImage(projectId, userId, "style_anchor", anchorImageBase64);
+  }
+
+  if (prompts) {
+    await deleteProjectPromptsAfter(projectId, userId, prompts.length);
+    await saveProjectPrompts(
+      projectId,
+      userId,
+      prompts.map((p) => ({ pageIndex: p.pageIndex, title: p.title, promptText: p.scenePrompt }))
+    );
+  }
+
+  await updateProject(projectId, userId, {
+    name,
+    idea: styleClone.themeText || undefined,
+    pagesRequested: prompts?.length || styleClone.pagesCount,
+    promptsGeneratedCount: prompts?.length,
+    status: prompts && project.status === "draft" ? "generating" : undefined,
+    settings: {
+      ...project.settings,
+      pageCount: prompts?.length || styleClone.pagesCount,
+      complexity: styleClone.complexity,
+      lineThickness: styleClone.lineThickness,
+      trimSize: styleClone.sizePreset,
+      styleClone,
+    },
+  });
+
+  return true;
+}
+
+/**
+ * Store a generated page with its debug info and update project progress
+ */
+export async function saveStyleCloneImage(
+  projectId: string,
+  userId: string,
+  image: StyleCloneImage & { imageBase64: string }
+): Promise<void> {
+  const storagePath = `${userId}/${projectId}/pages/page-${image.pageIndex}.png`;
+  const buffer = Buffer.from(stripDataUrl(image.imageBase64), "base64");
+
+  const { error: uploadError } = await uploadToStorage(BUCKET, storagePath, buffer, "image/png");
+  if (uploadError) throw uploadError;
+
+  const duplicateMeta = await detectDuplicatePage({
+    projectId,
+    userId,
+    pageNumber: image.pageIndex,
+    imageBuffer: buffer,
+  });
+
+  await upsertAsset(projectId, userId, "page_image", storagePath, "image/png", {
+    prompt: image.finalPrompt,
+    promptHash: image.debug.promptHash,
+    attempts: image.debug.retries + 1,
+    fileSize: buffer.length,
+    source: "style_clone",
+    ...duplicateMeta,
+    styleClone: {
+      finalPrompt: image.finalPrompt,
+      passedGates: image.passedGates,
+      debug: image.debug,
+    },
+  }, image.pageIndex);
+
+  const supabase = getSupabaseServerClient();
+  const { count } = await supabase
+    .from("generated_assets")
+    .select("id", { count: "exact", head: true })
+    .eq("project_id", projectId)
+    .eq("asset_type", "page_image")
+    .eq("status", "ready");
+
+  const project = await getProject(projectId, userId);
+  const imagesGenerated = count ?? 0;
+  await updateProject(projectId, userId, {
+    imagesGeneratedCount: imagesGenerated,
+    status: project && imagesGenerated >= project.pages_requested ? "ready" : "generating",
+  });
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function getSettings(project: Project): StyleCloneSettings {
+  return { ...DEFAULT_SETTINGS, ...project.settings.styleClone };
+}
+
+async function saveSingleImage(
+  projectId: string,
+  userId: string,
+  assetType: Extract<AssetType, "style_reference" | "style_anchor">,
+  imageBase64: string
+): Promise<void> {
+  const buffer = Buffer.from(stripDataUrl(imageBase64), "base64");
+  const mimeType = detectImageMime(buffer);
+  const fileName = assetType === "style_reference" ? "reference" : "anchor";
+  const storagePath = `${userId}/${projectId}/style-clone/${fileName}.${mimeType.split("/")[1]}`;
+
+  const { error: uploadError } = await uploadToStorage(BUCKET, storagePath, buffer, mimeType);
+  if (uploadError) throw uploadError;
+
+  await upsertAsset(projectId, userId, assetType, storagePath, mimeType, { fileSize: buffer.length });
+}
+
+/**
+ * Insert or update the asset for a (type, page) slot
+ */
+async function upsertAsset(
+  projectId: string,
+  userId: string,
+  assetType: AssetType,
+  storagePath: string,
+  mimeType: string,
+  meta: AssetMeta,
+  pageNumber?: number
+): Promise<void> {
+  const supabase = getSupabaseServerClient();
+  const retentionHours = await getRetentionHours(userId);
+
+  const assetData = {
+    project_id: projectId,
+    user_id: userId,
+    page_number: pageNumber ?? null,
+    asset_type: assetType,
+    storage_bucket: BUCKET,
+    storage_path: storagePath,
+    mime_type: mimeType,
+    status: "ready" as const,
+    expires_at: calculateExpiresAt(retentionHours),
+    meta: { ...meta, generatedAt: new Date().toISOString() },
+  };
+
+  let query = supabase
+    .from("generated_assets")
+    .select("id")
+    .eq("project_id", projectId)
+    .eq("asset_type", assetType);
+  query = pageNumber ? query.eq("page_number", pageNumber) : query;
+
+  const { data: existing } = await query.maybeSingle();
+
+  const { error } = existing
+    ? await supabase.from("generated_assets").update(assetData).eq("id", existing.id)
+    : await supabase.from("generated_assets").insert(assetData);
+
+  if (error) throw new Error(error.message);
+}
+
+async function downloadBase64(storagePath: string): Promise<string | null> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase.storage.from(BUCKET).download(storagePath);
+
+  if (error || !data) {
+    console.error(`[styleCloneStore] Failed to download ${storagePath}:`, error);
+    return null;
+  }
+  return Buffer.from(await data.arrayBuffer()).toString("base64");
+}
+
+function stripDataUrl(base64: string): string {
+  return base64.includes(",") ? base64.split(",")[1] : base64;
+}
+
+function detectImageMime(buffer: Buffer): "image/png" | "image/jpeg" | "image/webp" {
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) return "image/jpeg";
+  if (buffer.subarray(8, 12).toString("ascii") === "WEBP") return "image/webp";
+  return "image/png";
+}
@@ -0,0 +1,50 @@
+/**
+ * styleLibrary.ts - Types for the Style Library
+ *
+ * A library style is a named, versioned StyleContract (plus an optional
+ * ThemePack and reference thumbnail) saved from Style Clone. Projects pin a
+ * version in settings.styleLibrary, and the generation pipeline injects its
+ * rules into every page prompt. Styles are persisted by lib/styleLibraryStore.ts.
+ */
+
+import type { StyleContract, ThemePack } from "./styleClone";
+
+/**
+ * The library style a project or request uses (projects.settings.styleLibrary)
+ */
+export interface AppliedLibraryStyle {
+  styleId: string;
+  version: number;
+  /** Display name at the time it was applied */
+  name: string;
+}
+
+export interface LibraryStyleVersion {
+  version: number;
+  styleContract: StyleContract;
+  themePack: ThemePack | null;
+  /** Signed URL of the reference thumbnail */
+  thumbnailUrl: string | null;
+  sourceProjectId: string | null;
+  createdAt: string;
+}
+
+export interface LibraryStyle {
+  id: string;
+  name: string;
+  description: string | null;
+  latestVersion: number;
+  createdAt: string;
+  updatedAt: string;
+  /** The latest version */
+  latest: LibraryStyleVersion;
+}
+
+export interface LibraryStyleWithVersions extends LibraryStyle {
+  /** Newest first */
+  versions: LibraryStyleVersion[];
+}
+
+export function toAppliedLibraryStyle(style: LibraryStyle, version = style.latestVersion): AppliedLibraryStyle {
+  return { styleId: style.id, version, name: style.name };
+}
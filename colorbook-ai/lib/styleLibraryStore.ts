@@ -0,0 +1,348 @@
+/**
+ * Style Library Store
+ *
+ * Per-user library of named, versioned style contracts (style_library /
+ * style_library_versions). Saving a style again adds an immutable version,
+ * so projects that pinned an older version keep generating with it.
+ * Reference thumbnails go to the "generated" bucket under {userId}/styles/.
+ */
+
+import "server-only";
+import sharp from "sharp";
+import {
+  getSupabaseServerClient,
+  createSignedUrl,
+  deleteFromStorage,
+  uploadToStorage,
+} from "@/lib/supabase/server";
+import { getProjectSettings } from "@/lib/projectStore";
+import { base64ToBuffer } from "@/lib/imageProcessing";
+import type { StyleContract, ThemePack } from "@/lib/styleClone";
+import type {
+  AppliedLibraryStyle,
+  LibraryStyle,
+  LibraryStyleVersion,
+  LibraryStyleWithVersions,
+} from "@/lib/styleLibrary";
+import type { LibraryStyleRecord, LibraryStyleVersionRecord } from "@/types/database";
+
+const BUCKET = "generated";
+const THUMBNAIL_WIDTH = 320;
+
+export interface LibraryStyleVersionInput {
+  styleContract: StyleContract;
+  themePack?: ThemePack | null;
+  /** Reference image (base64 or data URL); stored as a thumbnail */
+  referenceImageBase64?: string;
+  sourceProjectId?: string;
+}
+
+export interface CreateLibraryStyleInput extends LibraryStyleVersionInput {
+  name: string;
+  description?: string;
+}
+
+export interface LibraryStylePatch {
+  name?: string;
+  description?: string | null;
+}
+
+// ============================================
+// Styles
+// ============================================
+
+/**
+ * Save a new named style as version 1
+ */
+export async function createLibraryStyle(userId: string, input: CreateLibraryStyleInput): Promise<LibraryStyle> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("style_library")
+    .insert({
+      user_id: userId,
+      name: input.name,
+      description: input.description || null,
+      latest_version: 1,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message || "Failed to create style");
+  }
+
+  const style = data as LibraryStyleRecord;
+  const version = await insertVersion(style, 1, input);
+  return toLibraryStyle(style, await toLibraryStyleVersion(version));
+}
+
+/**
+ * A user's styles with their latest version, most recently updated first
+ */
+export async function listLibraryStyles(userId: string): Promise<LibraryStyle[]> {
+  const supabase = getSupabaseServerClient();
+  const { data: styles, error } = await supabase
+    .from("style_library")
+    .select("*")
+    .eq("user_id", userId)
+    .order("updated_at", { ascending: false });
+
+  if (error) throw new Error(error.message);
+  if (!styles || styles.length === 0) return [];
+
+  const { data: versions, error: versionsError } = await supabase
+    .from("style_library_versions")
+    .select("*")
+    .in("style_id", styles.map((s) => s.id))
+    .eq("user_id", userId);
+
+  if (versionsError) throw new Error(versionsError.message);
+
+  const latestByStyle = new Map<string, LibraryStyleVersionRecord>();
+  for (const version of (versions ?? []) as LibraryStyleVersionRecord[]) {
+    const style = styles.find((s) => s.id === version.style_id);
+    if (style && version.version === style.latest_version) {
+      latestByStyle.set(version.style_id, version);
+    }
+  }
+
+  const result: LibraryStyle[] = [];
+  for (const style of styles as LibraryStyleRecord[]) {
+    const latest = latestByStyle.get(style.id);
+    if (latest) result.push(toLibraryStyle(style, await toLibraryStyleVersion(latest)));
+  }
+  return result;
+}
+
+/**
+ * A user's style with every version, or null if it doesn't exist or isn't theirs
+ */
+export async function getLibraryStyle(styleId: string, userId: string): Promise<LibraryStyleWithVersions | null> {
+  const style = await getStyleRecord(styleId, userId);
+  if (!style) return null;
+
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("style_library_versions")
+    .select("*")
+    .eq("style_id", styleId)
+    .order("version", { ascending: false });
+
+  if (error) throw new Error(error.message);
+
+  const versions = await Promise.all(((data ?? []) as LibraryStyleVersionRecord[]).map(toLibraryStyleVersion));
+  const latest = versions.find((v) => v.version === style.latest_version) ?? versions[0];
+  if (!latest) return null;
+
+  return { ...toLibraryStyle(style, latest), versions };
+}
+
+/**
+ * Rename or re-describe a style. Returns false if it doesn't exist or isn't the user's.
+ */
+export async function updateLibraryStyle(
+  styleId: string,
+  userId: string,
+  patch: LibraryStylePatch
+): Promise<boolean> {
+  const row: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (patch.name !== undefined) row.name = patch.name;
+  if (patch.description !== undefined) row.description = patch.description;
+
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("style_library")
+    .update(row)
+    .eq("id", styleId)
+    .eq("user_id", userId)
+    .select("id")
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return !!data;
+}
+
+/**
+ * Save a new version of a style. Returns null if it doesn't exist or isn't the user's.
+ */
+export async function saveLibraryStyleVersion(
+  styleId: string,
+  userId: string,
+  input: LibraryStyleVersionInput
+): Promise<LibraryStyle | null> {
+  const style = await getStyleRecord(styleId, userId);
+  if (!style) return null;
+
+  const versionNumber = style.latest_version + 1;
+  const version = await insertVersion(style, versionNumber, input);
+
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("style_library")
+    .update({ latest_version: versionNumber, updated_at: new Date().toISOString() })
+    .eq("id", styleId)
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message || "Failed to update style");
+  }
+  return toLibraryStyle(data as LibraryStyleRecord, await toLibraryStyleVersion(version));
+}
+
+/**
+ * Delete a style, its versions and thumbnails. Projects that pinned it
+ * generate without library rules from then on.
+ */
+export async function deleteLibraryStyle(styleId: string, userId: string): Promise<boolean> {
+  const style = await getStyleRecord(styleId, userId);
+  if (!style) return false;
+
+  const supabase = getSupabaseServerClient();
+  const { data: versions } = await supabase
+    .from("style_library_versions")
+    .select("thumbnail_path")
+    .eq("style_id", styleId);
+
+  const { error } = await supabase.from("style_library").delete().eq("id", styleId);
+  if (error) throw new Error(error.message);
+
+  const paths = (versions ?? []).map((v) => v.thumbnail_path).filter((p): p is string => !!p);
+  if (paths.length > 0) {
+    await deleteFromStorage(BUCKET, paths);
+  }
+  return true;
+}
+
+// ============================================
+// Applying styles
+// ============================================
+
+/**
+ * The pinned version's contract, or null if the user no longer has it
+ */
+export async function getLibraryStyleContract(
+  userId: string,
+  applied: Pick<AppliedLibraryStyle, "styleId" | "version">
+): Promise<StyleContract | null> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("style_library_versions")
+    .select("style_contract")
+    .eq("style_id", applied.styleId)
+    .eq("version", applied.version)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return (data?.style_contract as StyleContract | undefined) ?? null;
+}
+
+/**
+ * The contract of the style a project pinned in settings.styleLibrary,
+ * without an owner check (generation queue and batch sweep)
+ */
+export async function getProjectStyleContract(projectId: string): Promise<StyleContract | null> {
+  const settings = await getProjectSettings(projectId);
+  if (!settings.styleLibrary) return null;
+
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("style_library_versions")
+    .select("style_contract")
+    .eq("style_id", settings.styleLibrary.styleId)
+    .eq("version", settings.styleLibrary.version)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return (data?.style_contract as StyleContract | undefined) ?? null;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+async function getStyleRecord(styleId: string, userId: string): Promise<LibraryStyleRecord | null> {
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("style_library")
+    .select("*")
+    .eq("id", styleId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return (data as LibraryStyleRecord | null) ?? null;
+}
+
+async function insertVersion(
+  style: LibraryStyleRecord,
+  version: number,
+  input: LibraryStyleVersionInput
+): Promise<LibraryStyleVersionRecord> {
+  const thumbnailPath = input.referenceImageBase64
+    ? await saveThumbnail(`${style.user_id}/styles/${style.id}/v${version}.png`, input.referenceImageBase64)
+    : null;
+
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("style_library_versions")
+    .insert({
+      style_id: style.id,
+      user_id: style.user_id,
+      version,
+      style_contract: input.styleContract,
+      theme_pack: input.themePack ?? null,
+      thumbnail_path: thumbnailPath,
+      source_project_id: input.sourceProjectId ?? null,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message || "Failed to save style version");
+  }
+  return data as LibraryStyleVersionRecord;
+}
+
+/**
+ * Store a small PNG of the reference image; a bad image just means no thumbnail
+ */
+async function saveThumbnail(storagePath: string, imageBase64: string): Promise<string | null> {
+  try {
+    const thumbnail = await sharp(base64ToBuffer(imageBase64))
+      .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+      .png()
+      .toBuffer();
+
+    const { error } = await uploadToStorage(BUCKET, storagePath, thumbnail, "image/png");
+    if (error) throw error;
+    return storagePath;
+  } catch (error) {
+    console.error("[styleLibraryStore] Failed to save thumbnail:", error);
+    return null;
+  }
+}
+
+function toLibraryStyle(style: LibraryStyleRecord, latest: LibraryStyleVersion): LibraryStyle {
+  return {
+    id: style.id,
+    name: style.name,
+    description: style.description,
+    latestVersion: style.latest_version,
+    createdAt: style.created_at,
+    updatedAt: style.updated_at,
+    latest,
+  };
+}
+
+async function toLibraryStyleVersion(version: LibraryStyleVersionRecord): Promise<LibraryStyleVersion> {
+  return {
+    version: version.version,
+    styleContract: version.style_contract,
+    themePack: version.theme_pack,
+    thumbnailUrl: version.thumbnail_path ? await createSignedUrl(BUCKET, version.thumbnail_path) : null,
+    sourceProjectId: version.source_project_id,
+    createdAt: version.created_at,
+  };
+}
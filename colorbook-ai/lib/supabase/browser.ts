@@ -4,11 +4,17 @@
  * Uses anon key for client-side operations.
  * Safe to use in React components and hooks.
  */
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient, Session } from '@supabase/supabase-js';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
 
+/**
+ * Cookie that mirrors the current access token so API routes can resolve
+ * the signed-in user without every fetch attaching an Authorization header.
+ */
+export const ACCESS_TOKEN_COOKIE = 'colweb-access-token';
+
 if (typeof window !== 'undefined' && (!supabaseUrl || !supabaseAnonKey)) {
   console.warn('[Supabase] Missing NEXT_PUBLIC_SUPABASE_URL or NEXT_PUBLIC_SUPABASE_ANON_KEY');
 }
@@ -17,6 +23,24 @@ if (typeof window !== 'undefined' && (!supabaseUrl || !supabaseAnonKey)) {
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 let browserClient: SupabaseClient<any> | null = null;
 
+export function isSupabaseBrowserConfigured(): boolean {
+  return Boolean(supabaseUrl && supabaseAnonKey);
+}
+
+/**
+ * Keep the access token cookie in sync with the session held by supabase-js
+ */
+function syncAccessTokenCookie(session: Session | null) {
+  if (typeof document === 'undefined') return;
+  
+  const secure = window.location.protocol === 'https:' ? '; secure' : '';
+  if (session) {
+    document.cookie = `${ACCESS_TOKEN_COOKIE}=${session.access_token}; path=/; max-age=${session.expires_in}; samesite=lax${secure}`;
+  } else {
+    document.cookie = `${ACCESS_TOKEN_COOKIE}=; path=/; max-age=0; samesite=lax${secure}`;
+  }
+}
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export function getSupabaseBrowserClient(): SupabaseClient<any> {
   if (!browserClient && supabaseUrl && supabaseAnonKey) {
@@ -24,6 +48,7 @@ export function getSupabaseBrowserClient(): SupabaseClient<any> {
       auth: {
         persistSession: true,
         autoRefreshToken: true,
+        detectSessionInUrl: true,
       },
       realtime: {
         params: {
@@ -31,6 +56,11 @@ export function getSupabaseBrowserClient(): SupabaseClient<any> {
         },
       },
     });
+    
+    // Fires with INITIAL_SESSION on load, then on sign-in, sign-out and token refresh
+    browserClient.auth.onAuthStateChange((_event, session) => {
+      syncAccessTokenCookie(session);
+    });
   }
   // Return a mock client if not configured (for development without Supabase)
   if (!browserClient) {
@@ -44,3 +74,83 @@ export function getSupabaseBrowserClient(): SupabaseClient<any> {
 // Export for convenience - lazy initialization
 export const supabase = { get: getSupabaseBrowserClient };
 
+// ============================================
+// Auth helpers
+// ============================================
+
+function requireConfiguredClient() {
+  if (!isSupabaseBrowserConfigured()) {
+    throw new Error('Authentication is not configured. Set NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY.');
+  }
+  return getSupabaseBrowserClient();
+}
+
+/**
+ * Sign in with email and password
+ */
+export async function signInWithPassword(email: string, password: string): Promise<Session> {
+  const client = requireConfiguredClient();
+  const { data, error } = await client.auth.signInWithPassword({ email, password });
+  
+  if (error || !data.session) {
+    throw new Error(error?.message || 'Sign in failed');
+  }
+  
+  syncAccessTokenCookie(data.session);
+  return data.session;
+}
+
+/**
+ * Create an account with email and password.
+ * Returns null when the project requires email confirmation before a session exists.
+ */
+export async function signUpWithPassword(
+  email: string,
+  password: string,
+  name?: string
+): Promise<Session | null> {
+  const client = requireConfiguredClient();
+  const { data, error } = await client.auth.signUp({
+    email,
+    password,
+    options: {
+      data: name ? { full_name: name } : undefined,
+      emailRedirectTo: `${window.location.origin}/app`,
+    },
+  });
+  
+  if (error) {
+    throw new Error(error.message);
+  }
+  
+  syncAccessTokenCookie(data.session);
+  return data.session;
+}
+
+/**
+ * Email a one-time sign-in link. The session is picked up from the URL
+ * when the link lands back on `redirectPath`.
+ */
+export async function sendMagicLink(email: string, redirectPath: string = '/app'): Promise<void> {
+  const client = requireConfiguredClient();
+  const { error } = await client.auth.signInWithOtp({
+    email,
+    options: {
+      emailRedirectTo: `${window.location.origin}${redirectPath}`,
+    },
+  });
+  
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Sign out and clear the access token cookie
+ */
+export async function signOut(): Promise<void> {
+  if (isSupabaseBrowserConfigured()) {
+    await getSupabaseBrowserClient().auth.signOut();
+  }
+  syncAccessTokenCookie(null);
+}
@@ -6,7 +6,10 @@
  * Never expose to client!
  */
 import 'server-only';
+import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { ACCESS_TOKEN_COOKIE } from './browser';
+import { DEFAULT_PLAN, getPlanEntitlements, toPlanTier, type PlanTier } from '@/lib/plans';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
@@ -30,17 +33,115 @@ export function getSupabaseServerClient() {
   });
 }
 
+/**
+ * The signed-in user, as resolved from the request's access token
+ */
+export interface SessionUser {
+  id: string;
+  email: string | null;
+}
+
+/**
+ * Resolve the signed-in user for an API request.
+ * 
+ * Reads the Supabase access token from the Authorization header
+ * (`Bearer <token>`) or the cookie mirrored by the browser client, and
+ * verifies it with Supabase Auth. Returns null for anonymous requests.
+ */
+export async function getSessionUser(request: NextRequest): Promise<SessionUser | null> {
+  const authHeader = request.headers.get('authorization');
+  const token = authHeader?.toLowerCase().startsWith('bearer ')
+    ? authHeader.slice(7).trim()
+    : request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  
+  if (!token) {
+    return null;
+  }
+  
+  const supabase = getSupabaseServerClient();
+  const { data, error } = await supabase.auth.getUser(token);
+  
+  if (error || !data.user) {
+    return null;
+  }
+  
+  return {
+    id: data.user.id,
+    email: data.user.email ?? null,
+  };
+}
+
+/**
+ * Standard 401 response for routes that require a signed-in user
+ */
+export function unauthorizedResponse(): NextResponse {
+  return NextResponse.json(
+    { error: 'Authentication required', code: 'UNAUTHENTICATED' },
+    { status: 401 }
+  );
+}
+
+/**
+ * Whether a URL points at this project's Supabase Storage - the only host
+ * the server fetches user-supplied image URLs from
+ */
+export function isSupabaseStorageUrl(imageUrl: string): boolean {
+  if (!supabaseUrl) return false;
+  try {
+    const url = new URL(imageUrl);
+    return url.origin === new URL(supabaseUrl).origin && url.pathname.startsWith('/storage/v1/object/');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that a project exists and belongs to the given user
+ */
+export async function userOwnsProject(projectId: string, userId: string): Promise<boolean> {
+  const supabase = getSupabaseServerClient();
+  
+  const { data, error } = await supabase
+    .from('projects')
+    .select('id')
+    .eq('id', projectId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  
+  return !error && Boolean(data);
+}
+
+/**
+ * Look up the user's plan tier from user_plans.
+ * Users without a row (or with an expired paid period) are on the free plan.
+ */
+export async function getUserPlan(userId: string): Promise<PlanTier> {
+  const supabase = getSupabaseServerClient();
+  
+  const { data, error } = await supabase
+    .from('user_plans')
+    .select('plan, plan_expires_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+  
+  if (error) {
+    console.error('[Supabase] Failed to load user plan:', error);
+    return DEFAULT_PLAN;
+  }
+  
+  if (!data || (data.plan_expires_at && new Date(data.plan_expires_at) < new Date())) {
+    return DEFAULT_PLAN;
+  }
+  
+  return toPlanTier(data.plan);
+}
+
 /**
  * Get retention hours based on user's plan
- * TODO: Implement actual plan lookup from users table
  */
 export async function getRetentionHours(userId: string): Promise<number> {
-  // TODO: Look up user's plan from DB
-  // Free plan: 24 hours (or 72 hours for generous free tier)
-  // Pro plan: 720 hours (30 days)
-  
-  // For now, return 72 hours for all users
-  return 72;
+  const plan = await getUserPlan(userId);
+  return getPlanEntitlements(plan).retentionHours;
 }
 
 /**
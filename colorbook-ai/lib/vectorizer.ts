@@ -0,0 +1,405 @@
+/**
+ * vectorizer.ts
+ *
+ * Raster-to-vector conversion for finished coloring pages. Pages are black
+ * line art on white, so they trace cleanly into filled outlines - crisp at
+ * any print size and usually much smaller in a PDF than a 300 DPI raster.
+ *
+ * TRACING (potrace-style):
+ * 1. The page is thresholded to a black/white bitmap
+ * 2. Every black/white boundary is followed along pixel edges into a closed
+ *    path, black always on the right - outer outlines and holes come out with
+ *    opposite winding, so the nonzero fill rule (the only one pdf-lib's
+ *    drawSvgPath has) keeps holes open
+ * 3. Each staircase path is simplified to a polygon (Douglas-Peucker)
+ * 4. Polygon vertices become smooth cubic Bézier joins within a few pixels of
+ *    the vertex; sharp turns stay corners
+ *
+ * FIDELITY CHECK:
+ * The SVG is re-rasterized at the source size and compared to the source
+ * bitmap. A pixel only counts as wrong when the other image has no matching
+ * pixel within 1px, so sub-pixel smoothing isn't penalized but lost or
+ * invented lines are. Pages below MIN_VECTOR_FIDELITY keep their raster.
+ */
+
+import sharp from "sharp";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Pixels darker than this are black */
+const TRACE_THRESHOLD = 128;
+
+/** Paths enclosing this many pixels or fewer are dropped as specks */
+const SPECK_AREA = 4;
+
+/** Max distance (px) a simplified polygon may stray from the pixel outline */
+const SIMPLIFY_TOLERANCE = 0.9;
+
+/** Turns sharper than this (radians) stay corners instead of curves */
+const CORNER_ANGLE = (75 * Math.PI) / 180;
+
+/** Bézier handle length as a fraction of the distance to the vertex */
+const CURVE_ALPHA = 0.6;
+
+/**
+ * Max distance (px) from a vertex at which its curve starts and ends; the
+ * rest of each segment stays straight. Keeps joins between long segments
+ * from cutting the corner (and filling thin white wedges) by tens of pixels.
+ */
+const CURVE_MAX_REACH = 3;
+
+/** Minimum fidelity score for a vector page to replace its raster */
+export const MIN_VECTOR_FIDELITY = 0.97;
+
+// ============================================
+// TYPES
+// ============================================
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export interface VectorFidelity {
+  /** 1 - (missed + extra) / source black pixels */
+  score: number;
+  /** Source black pixels with no vector black within 1px, per source black pixel */
+  missedRatio: number;
+  /** Vector black pixels with no source black within 1px, per source black pixel */
+  extraRatio: number;
+  passed: boolean;
+}
+
+export interface VectorizeResult {
+  /** Standalone SVG (one filled path, viewBox in source pixels) */
+  svg: string;
+  /** The path's `d` attribute - for drawSvgPath */
+  pathData: string;
+  width: number;
+  height: number;
+  /** Closed outlines in the path */
+  pathCount: number;
+  fidelity: VectorFidelity;
+}
+
+// ============================================
+// VECTORIZING
+// ============================================
+
+/**
+ * Trace a coloring page into a filled SVG path and check it against the page
+ */
+export async function vectorizeColoringPage(buffer: Buffer): Promise<VectorizeResult> {
+  const { bitmap, width, height } = await loadBitmap(buffer);
+
+  const contours = traceContours(bitmap, width, height);
+  const pathData = contours
+    .map((contour) => contourToPath(simplifyClosed(contour, SIMPLIFY_TOLERANCE)))
+    .join("");
+  const svg = buildVectorSvg(pathData, width, height);
+
+  const fidelity = await checkVectorFidelity(bitmap, width, height, svg);
+
+  return { svg, pathData, width, height, pathCount: contours.length, fidelity };
+}
+
+/**
+ * Path data of an SVG made by vectorizeColoringPage
+ */
+export function extractVectorPathData(svg: string): { pathData: string; width: number; height: number } | null {
+  const viewBox = svg.match(/viewBox="0 0 (\d+) (\d+)"/);
+  const path = svg.match(/<path d="([^"]*)"/);
+  if (!viewBox || !path) return null;
+  return { pathData: path[1], width: Number(viewBox[1]), height: Number(viewBox[2]) };
+}
+
+function buildVectorSvg(pathData: string, width: number, height: number): string {
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+    `<path d="${pathData}" fill="#000000"/>`,
+    `</svg>`,
+  ].join("\n");
+}
+
+async function loadBitmap(buffer: Buffer): Promise<{ bitmap: Uint8Array; width: number; height: number }> {
+  const { data, info } = await sharp(buffer)
+    .flatten({ background: "#ffffff" })
+    .grayscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const bitmap = new Uint8Array(info.width * info.height);
+  for (let i = 0; i < bitmap.length; i++) {
+    if (data[i * info.channels] < TRACE_THRESHOLD) bitmap[i] = 1;
+  }
+  return { bitmap, width: info.width, height: info.height };
+}
+
+// ============================================
+// TRACING
+// ============================================
+
+/**
+ * Closed boundary paths on the pixel-corner grid, black on the right
+ * (image coordinates, y down). Only corners where the path turns are kept.
+ * Black pixels touching diagonally belong to the same path, so thin
+ * diagonal lines stay connected.
+ */
+function traceContours(bitmap: Uint8Array, width: number, height: number): Point[][] {
+  const isBlack = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && bitmap[y * width + x] === 1;
+
+  // Top edges already traced (an eastward step along a black pixel's top)
+  const visitedTop = new Uint8Array(width * height);
+  const contours: Point[][] = [];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!bitmap[i] || visitedTop[i] || isBlack(x, y - 1)) continue;
+
+      // Start heading east along the top edge of (x, y)
+      const points: Point[] = [];
+      let cx = x;
+      let cy = y;
+      let dx = 1;
+      let dy = 0;
+      let area = 0;
+
+      do {
+        if (dx === 1) visitedTop[cy * width + cx] = 1;
+        const nx = cx + dx;
+        const ny = cy + dy;
+        area += cx * ny - nx * cy;
+        cx = nx;
+        cy = ny;
+
+        // Pixels ahead of the corner, left and right of the heading
+        const rx = -dy;
+        const ry = dx;
+        const aheadLeft = isBlack(cx + (dx - rx - 1) / 2, cy + (dy - ry - 1) / 2);
+        const aheadRight = isBlack(cx + (dx + rx - 1) / 2, cy + (dy + ry - 1) / 2);
+
+        let ndx = dx;
+        let ndy = dy;
+        if (aheadLeft) {
+          ndx = dy; // turn left
+          ndy = -dx;
+        } else if (!aheadRight) {
+          ndx = -dy; // turn right
+          ndy = dx;
+        }
+
+        if (ndx !== dx || ndy !== dy) {
+          points.push({ x: cx, y: cy });
+          dx = ndx;
+          dy = ndy;
+        }
+      } while (cx !== x || cy !== y || dx !== 1 || dy !== 0);
+
+      if (Math.abs(area) / 2 > SPECK_AREA) {
+        contours.push(points);
+      }
+    }
+  }
+
+  return contours;
+}
+
+// ============================================
+// SIMPLIFICATION
+// ============================================
+
+/**
+ * Douglas-Peucker for a closed polygon, split at its two most distant points
+ */
+function simplifyClosed(points: Point[], tolerance: number): Point[] {
+  if (points.length <= 4) return points;
+
+  let far = 0;
+  let farDistance = 0;
+  for (let i = 1; i < points.length; i++) {
+    const d = (points[i].x - points[0].x) ** 2 + (points[i].y - points[0].y) ** 2;
+    if (d > farDistance) {
+      farDistance = d;
+      far = i;
+    }
+  }
+
+  const first = simplifyOpen(points.slice(0, far + 1), tolerance);
+  const second = simplifyOpen([...points.slice(far), points[0]], tolerance);
+  return [...first.slice(0, -1), ...second.slice(0, -1)];
+}
+
+function simplifyOpen(points: Point[], tolerance: number): Point[] {
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    const a = points[start];
+    const b = points[end];
+    const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+
+    let index = -1;
+    let maxDistance = tolerance;
+    for (let i = start + 1; i < end; i++) {
+      const p = points[i];
+      const distance = Math.abs((b.x - a.x) * (a.y - p.y) - (a.x - p.x) * (b.y - a.y)) / length;
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+
+    if (index !== -1) {
+      keep[index] = 1;
+      stack.push([start, index], [index, end]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+// ============================================
+// CURVE FITTING
+// ============================================
+
+/**
+ * Closed SVG subpath through a polygon: the path runs between edge midpoints,
+ * bending around each vertex with a cubic Bézier (within CURVE_MAX_REACH of
+ * it), or meeting it in a corner when the turn is sharp and both edges are
+ * long enough to be real features.
+ */
+function contourToPath(polygon: Point[]): string {
+  const n = polygon.length;
+  if (n < 3) return "";
+
+  const mid = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+  const start = mid(polygon[n - 1], polygon[0]);
+  const parts = [`M${fmt(start.x)} ${fmt(start.y)}`];
+
+  for (let i = 0; i < n; i++) {
+    const prev = polygon[(i - 1 + n) % n];
+    const vertex = polygon[i];
+    const next = polygon[(i + 1) % n];
+    const from = mid(prev, vertex);
+    const to = mid(vertex, next);
+
+    const inX = vertex.x - prev.x;
+    const inY = vertex.y - prev.y;
+    const outX = next.x - vertex.x;
+    const outY = next.y - vertex.y;
+    const turn = Math.abs(Math.atan2(inX * outY - inY * outX, inX * outX + inY * outY));
+    const isCorner = turn > CORNER_ANGLE && Math.hypot(inX, inY) > 3 && Math.hypot(outX, outY) > 3;
+
+    if (isCorner) {
+      parts.push(`L${fmt(vertex.x)} ${fmt(vertex.y)}L${fmt(to.x)} ${fmt(to.y)}`);
+    } else {
+      // Straight up to the curve's reach, curve round the vertex, straight on to the midpoint
+      const curveFrom = towards(vertex, from, CURVE_MAX_REACH);
+      const curveTo = towards(vertex, to, CURVE_MAX_REACH);
+      if (curveFrom !== from) parts.push(`L${fmt(curveFrom.x)} ${fmt(curveFrom.y)}`);
+
+      const c1x = curveFrom.x + (vertex.x - curveFrom.x) * CURVE_ALPHA;
+      const c1y = curveFrom.y + (vertex.y - curveFrom.y) * CURVE_ALPHA;
+      const c2x = curveTo.x + (vertex.x - curveTo.x) * CURVE_ALPHA;
+      const c2y = curveTo.y + (vertex.y - curveTo.y) * CURVE_ALPHA;
+      parts.push(`C${fmt(c1x)} ${fmt(c1y)} ${fmt(c2x)} ${fmt(c2y)} ${fmt(curveTo.x)} ${fmt(curveTo.y)}`);
+
+      if (curveTo !== to) parts.push(`L${fmt(to.x)} ${fmt(to.y)}`);
+    }
+  }
+
+  parts.push("Z");
+  return parts.join("");
+}
+
+/**
+ * The point `reach` px from `origin` towards `target`, or `target` itself when closer
+ */
+function towards(origin: Point, target: Point, reach: number): Point {
+  const dx = target.x - origin.x;
+  const dy = target.y - origin.y;
+  const distance = Math.hypot(dx, dy);
+  if (distance <= reach) return target;
+  return { x: origin.x + (dx * reach) / distance, y: origin.y + (dy * reach) / distance };
+}
+
+function fmt(value: number): string {
+  return String(Math.round(value * 10) / 10);
+}
+
+// ============================================
+// FIDELITY
+// ============================================
+
+/**
+ * Compare a re-rasterized SVG with the source bitmap (see file header)
+ */
+async function checkVectorFidelity(
+  source: Uint8Array,
+  width: number,
+  height: number,
+  svg: string
+): Promise<VectorFidelity> {
+  const { data, info } = await sharp(Buffer.from(svg), { density: 72 })
+    .resize(width, height, { fit: "fill" })
+    .flatten({ background: "#ffffff" })
+    .grayscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const vector = new Uint8Array(width * height);
+  for (let i = 0; i < vector.length; i++) {
+    if (data[i * info.channels] < TRACE_THRESHOLD) vector[i] = 1;
+  }
+
+  const sourceNear = dilate(source, width, height);
+  const vectorNear = dilate(vector, width, height);
+
+  let sourceBlack = 0;
+  let missed = 0;
+  let extra = 0;
+  for (let i = 0; i < source.length; i++) {
+    if (source[i]) {
+      sourceBlack++;
+      if (!vectorNear[i]) missed++;
+    }
+    if (vector[i] && !sourceNear[i]) extra++;
+  }
+
+  const total = Math.max(sourceBlack, 1);
+  const score = Math.max(0, 1 - (missed + extra) / total);
+  return {
+    score: Math.round(score * 10000) / 10000,
+    missedRatio: Math.round((missed / total) * 10000) / 10000,
+    extraRatio: Math.round((extra / total) * 10000) / 10000,
+    passed: score >= MIN_VECTOR_FIDELITY,
+  };
+}
+
+/**
+ * 3x3 dilation of a 0/1 bitmap
+ */
+function dilate(bitmap: Uint8Array, width: number, height: number): Uint8Array {
+  const rows = new Uint8Array(bitmap.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      rows[i] = bitmap[i] | (x > 0 ? bitmap[i - 1] : 0) | (x < width - 1 ? bitmap[i + 1] : 0);
+    }
+  }
+  const result = new Uint8Array(bitmap.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      result[i] = rows[i] | (y > 0 ? rows[i - width] : 0) | (y < height - 1 ? rows[i + width] : 0);
+    }
+  }
+  return result;
+}
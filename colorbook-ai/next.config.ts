@@ -7,6 +7,10 @@ const nextConfig: NextConfig = {
       bodySizeLimit: '50mb',
     },
   },
+  // Bundled fonts read at runtime by the quote typesetter
+  outputFileTracingIncludes: {
+    '/api/quote/typeset': ['./assets/fonts/**'],
+  },
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,54 @@
+/**
+ * Long-running generation queue worker.
+ *
+ * Calls /api/cron/generation-worker in a loop so queued pages are picked up
+ * within seconds instead of waiting for the next cron tick. Useful on hosts
+ * without cron, or for local development:
+ *
+ *   APP_URL=http://localhost:3000 CRON_SECRET=... npm run worker
+ */
+
+const APP_URL = (process.env.APP_URL || "http://localhost:3000").replace(/\/$/, "");
+const CRON_SECRET = process.env.CRON_SECRET;
+
+// Wait between runs when the queue is empty (or the app is unreachable)
+const IDLE_DELAY_MS = Number(process.env.WORKER_IDLE_DELAY_MS || 10000);
+
+let stopping = false;
+process.on("SIGINT", () => { stopping = true; });
+process.on("SIGTERM", () => { stopping = true; });
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function runOnce() {
+  const response = await fetch(`${APP_URL}/api/cron/generation-worker`, {
+    method: "POST",
+    headers: CRON_SECRET ? { Authorization: `Bearer ${CRON_SECRET}` } : {},
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Worker request failed (${response.status})`);
+  }
+  return data;
+}
+
+console.log(`[generation-worker] Polling ${APP_URL}/api/cron/generation-worker`);
+
+while (!stopping) {
+  try {
+    const summary = await runOnce();
+    if (summary.claimed > 0) {
+      console.log(
+        `[generation-worker] ${summary.done} done, ${summary.failed} failed, ` +
+        `${summary.requeued} requeued, ${summary.paused} paused in ${Math.round(summary.elapsedMs / 1000)}s`
+      );
+      continue;
+    }
+  } catch (error) {
+    console.error("[generation-worker]", error instanceof Error ? error.message : error);
+  }
+  await sleep(IDLE_DELAY_MS);
+}
+
+console.log("[generation-worker] Stopped");
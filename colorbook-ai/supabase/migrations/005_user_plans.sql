@@ -0,0 +1,92 @@
+-- Migration 005: User plans and monthly usage for entitlement enforcement
+-- Run this after 004_openai_batch_jobs.sql
+
+-- ============================================
+-- 1. Plan tier enum
+-- ============================================
+
+CREATE TYPE plan_tier AS ENUM (
+  'free',
+  'pro',
+  'business'
+);
+
+-- ============================================
+-- 2. Create user_plans table
+-- ============================================
+-- Users without a row are on the free plan.
+-- plan_expires_at NULL means the plan does not lapse.
+
+CREATE TABLE IF NOT EXISTS user_plans (
+  user_id UUID PRIMARY KEY,
+  plan plan_tier NOT NULL DEFAULT 'free',
+  plan_expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER update_user_plans_updated_at
+  BEFORE UPDATE ON user_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 3. Create plan_usage table (one row per user per month)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS plan_usage (
+  user_id UUID NOT NULL,
+  period_start DATE NOT NULL,
+  images_generated INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, period_start)
+);
+
+-- ============================================
+-- 4. RLS - users can read their own plan and usage; writes are server-only
+-- ============================================
+
+ALTER TABLE user_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE plan_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own plan"
+  ON user_plans FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own usage"
+  ON plan_usage FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- ============================================
+-- 5. Function to atomically increment monthly usage
+-- ============================================
+
+CREATE OR REPLACE FUNCTION increment_plan_usage(
+  p_user_id UUID,
+  p_period_start DATE,
+  p_images INTEGER
+)
+RETURNS INTEGER AS $$
+DECLARE
+  total INTEGER;
+BEGIN
+  IF p_images IS NULL OR p_images <= 0 THEN
+    RAISE EXCEPTION 'p_images must be positive, got %', p_images;
+  END IF;
+
+  INSERT INTO plan_usage (user_id, period_start, images_generated)
+  VALUES (p_user_id, p_period_start, p_images)
+  ON CONFLICT (user_id, period_start)
+  DO UPDATE SET
+    images_generated = plan_usage.images_generated + EXCLUDED.images_generated,
+    updated_at = NOW()
+  RETURNING images_generated INTO total;
+  
+  RETURN total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Functions are executable by PUBLIC by default, which would let any client
+-- call this through /rpc and rewrite any user's quota. Only the server
+-- (service role) records usage.
+REVOKE EXECUTE ON FUNCTION increment_plan_usage(UUID, DATE, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,83 @@
+-- Migration 006: Generation cost ledger and spend caps
+-- Run this after 005_user_plans.sql
+
+-- ============================================
+-- 1. Create generation_costs table (one row per billable provider call)
+-- ============================================
+-- Every image generation/edit, chat completion and Replicate enhancement
+-- writes a row, including retries that were discarded by quality gates.
+-- estimated_usd already includes the batch discount.
+
+CREATE TABLE IF NOT EXISTS generation_costs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID,
+  project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+  page_number INTEGER,
+  attempt INTEGER,
+
+  -- What was called
+  kind TEXT NOT NULL CHECK (kind IN ('image', 'image_edit', 'chat', 'enhance')),
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  size TEXT,
+  source TEXT,
+
+  -- Units consumed
+  images INTEGER NOT NULL DEFAULT 0,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  compute_seconds NUMERIC(10, 3) NOT NULL DEFAULT 0,
+
+  -- Pricing
+  mode TEXT NOT NULL DEFAULT 'realtime' CHECK (mode IN ('realtime', 'batch')),
+  discount NUMERIC(4, 3) NOT NULL DEFAULT 0,
+  estimated_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ============================================
+-- 2. Indexes for spend rollups
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_generation_costs_project
+  ON generation_costs(project_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_generation_costs_user_month
+  ON generation_costs(user_id, created_at);
+
+-- ============================================
+-- 3. Per-user spend caps (NULL = use the server default)
+-- ============================================
+
+ALTER TABLE user_plans
+  ADD COLUMN IF NOT EXISTS monthly_spend_cap_usd NUMERIC(10, 2),
+  ADD COLUMN IF NOT EXISTS project_spend_cap_usd NUMERIC(10, 2);
+
+-- ============================================
+-- 4. RLS - users can read their own costs; writes are server-only
+-- ============================================
+
+ALTER TABLE generation_costs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own generation costs"
+  ON generation_costs FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- ============================================
+-- 5. Spend totals (summed in SQL - row selects are capped at max-rows)
+-- ============================================
+-- Runs with the caller's rights, so RLS keeps clients to their own rows.
+
+CREATE OR REPLACE FUNCTION sum_generation_costs(
+  p_user_id UUID DEFAULT NULL,
+  p_project_id UUID DEFAULT NULL,
+  p_since TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(SUM(estimated_usd), 0)
+  FROM generation_costs
+  WHERE (p_user_id IS NULL OR user_id = p_user_id)
+    AND (p_project_id IS NULL OR project_id = p_project_id)
+    AND (p_since IS NULL OR created_at >= p_since);
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,120 @@
+-- Migration 007: Durable generation queue
+-- Run this after 006_generation_costs.sql
+
+-- ============================================
+-- 1. Create generation_jobs table (one row per queued book run)
+-- ============================================
+-- A job owns a set of project_prompts rows. The worker route
+-- (/api/cron/generation-worker) claims pages one at a time, so generation
+-- keeps going after the browser tab is closed.
+
+CREATE TABLE IF NOT EXISTS generation_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'paused', 'completed', 'failed', 'cancelled')),
+
+  -- Generation options applied to every page (size, complexity, validation, character)
+  settings JSONB NOT NULL DEFAULT '{}',
+
+  -- Progress
+  total_pages INTEGER NOT NULL DEFAULT 0,
+  completed_pages INTEGER NOT NULL DEFAULT 0,
+  failed_pages INTEGER NOT NULL DEFAULT 0,
+
+  -- Pause/failure details, same shape as the paused API responses
+  pause_reason TEXT,
+  error_code TEXT,
+  action_hint TEXT,
+  last_error TEXT,
+
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_project ON generation_jobs(project_id);
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_user ON generation_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_status ON generation_jobs(status);
+
+-- Only one active job per project
+CREATE UNIQUE INDEX IF NOT EXISTS idx_generation_jobs_active_project
+  ON generation_jobs(project_id)
+  WHERE status IN ('queued', 'running', 'paused');
+
+CREATE TRIGGER update_generation_jobs_updated_at
+  BEFORE UPDATE ON generation_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 2. Claim state on project_prompts
+-- ============================================
+-- locked_until is a lease: a worker that dies mid-page leaves the row in
+-- 'generating_image', and it is claimable again once the lease expires.
+-- Leases are clamped to 30-900 seconds.
+
+ALTER TABLE project_prompts
+  ADD COLUMN IF NOT EXISTS job_id UUID REFERENCES generation_jobs(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS attempt_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_project_prompts_job_status
+  ON project_prompts(job_id, status);
+
+-- ============================================
+-- 3. Claim function (safe for concurrent workers)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION claim_generation_pages(
+  p_limit INTEGER DEFAULT 1,
+  p_lock_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF project_prompts AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE project_prompts
+  SET
+    status = 'generating_image',
+    locked_until = NOW() + make_interval(secs => LEAST(GREATEST(COALESCE(p_lock_seconds, 300), 30), 900)),
+    attempt_count = project_prompts.attempt_count + 1
+  WHERE project_prompts.id IN (
+    SELECT pp.id
+    FROM project_prompts pp
+    JOIN generation_jobs j ON j.id = pp.job_id
+    WHERE j.status IN ('queued', 'running')
+      AND (
+        pp.status = 'ready'
+        OR (pp.status = 'generating_image' AND pp.locked_until < NOW())
+      )
+    ORDER BY j.created_at, pp.page_index
+    LIMIT p_limit
+    FOR UPDATE OF pp SKIP LOCKED
+  )
+  RETURNING project_prompts.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Functions are executable by PUBLIC by default, which would let any client
+-- call this through /rpc, claim every user's queued pages and read their
+-- prompts. Only the server's worker (service role) claims pages.
+REVOKE EXECUTE ON FUNCTION claim_generation_pages(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 4. RLS - users can read their own jobs; writes are server-only
+-- ============================================
+
+ALTER TABLE generation_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own generation jobs"
+  ON generation_jobs FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- ============================================
+-- 5. Enable Realtime for generation_jobs
+-- ============================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE generation_jobs;
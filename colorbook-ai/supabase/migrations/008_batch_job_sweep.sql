@@ -0,0 +1,35 @@
+-- Migration 008: Automatic OpenAI batch sweep
+-- Run this after 007_generation_jobs.sql
+
+-- ============================================
+-- 1. Batch job lifecycle columns
+-- ============================================
+-- /api/cron/batch-sweep polls every non-terminal job, finalizes completed
+-- batches and resubmits failed pages. Statuses:
+--   queued | in_progress | finalizing | completed | failed | expired | cancelled
+
+ALTER TABLE openai_batch_jobs
+  -- Generation options, so failed pages can be resubmitted unattended
+  ADD COLUMN IF NOT EXISTS settings JSONB NOT NULL DEFAULT '{}',
+  -- Follow-up batches point at the batch whose failures they retry
+  ADD COLUMN IF NOT EXISTS parent_batch_id TEXT,
+  ADD COLUMN IF NOT EXISTS resubmit_count INTEGER NOT NULL DEFAULT 0,
+  -- How this job's failed pages were retried: 'batch' or 'realtime'
+  ADD COLUMN IF NOT EXISTS resubmitted_via TEXT,
+  ADD COLUMN IF NOT EXISTS resubmitted_at TIMESTAMPTZ,
+  -- Sweep bookkeeping
+  ADD COLUMN IF NOT EXISTS provider_status TEXT,
+  ADD COLUMN IF NOT EXISTS last_checked_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS finalizing_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_openai_batch_jobs_parent
+  ON openai_batch_jobs(parent_batch_id)
+  WHERE parent_batch_id IS NOT NULL;
+
+-- ============================================
+-- 2. Allow 'partial' project status
+-- ============================================
+-- Set when a book has some pages but nothing is left in flight.
+
+ALTER TYPE project_status ADD VALUE IF NOT EXISTS 'partial';
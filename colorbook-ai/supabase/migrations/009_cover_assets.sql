@@ -0,0 +1,14 @@
+-- Migration 009: KDP paperback covers
+-- Run this after 008_batch_job_sweep.sql
+
+-- ============================================
+-- 1. Cover asset types
+-- ============================================
+-- 'cover'       - print-ready full-wrap cover PDF (exports/cover.pdf)
+-- 'cover_image' - AI-generated colored front art, reused when the cover
+--                 is rebuilt with a new page count or blurb
+-- One of each per project; /api/export/cover updates the existing row.
+
+ALTER TYPE asset_type ADD VALUE IF NOT EXISTS 'cover';
+ALTER TYPE asset_type ADD VALUE IF NOT EXISTS 'cover_image';
+
@@ -0,0 +1,174 @@
+-- Migration 010: One project store
+-- Run this after 009_cover_assets.sql
+--
+-- Supabase is now the only schema. The Prisma schema (prisma/schema.prisma,
+-- Railway Postgres) is retired:
+-- - trend signals move to the trend_signals table
+-- - legacy Prisma "Project" / "Page" rows are imported into projects /
+--   project_prompts with import_legacy_prisma_data() (section 4)
+-- - Prisma "Batch" / "BatchPage" were never written by the app and are not imported
+--
+-- Every route reads and writes projects through lib/projectStore.ts.
+
+-- ============================================
+-- 1. Where a project was created
+-- ============================================
+-- 'create'      - /app/create
+-- 'new'         - /app/new (character-locked wizard)
+-- 'batch'       - /app/batch (reference image)
+-- 'bulk'        - /app/bulk
+-- 'quote_book'  - /app/quote-book
+-- 'style_clone' - /app/style-clone
+-- 'legacy'      - imported from the Prisma database
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS origin TEXT NOT NULL DEFAULT 'create',
+  ADD COLUMN IF NOT EXISTS legacy_id TEXT;
+
+UPDATE projects SET origin = 'quote_book' WHERE project_type = 'quote_book';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_projects_legacy_id
+  ON projects(legacy_id)
+  WHERE legacy_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_projects_user_updated
+  ON projects(user_id, updated_at DESC);
+
+-- ============================================
+-- 2. Trend signals (was Prisma TrendSignal)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS trend_signals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  keyword TEXT NOT NULL,
+  source TEXT NOT NULL, -- 'google_trends' | 'keepa' | 'pytrends'
+  region TEXT NOT NULL DEFAULT 'US',
+  period_days INTEGER NOT NULL,
+  score DOUBLE PRECISION NOT NULL,
+  raw JSONB,
+  collected_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trend_signals_lookup
+  ON trend_signals(region, period_days, collected_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_trend_signals_keyword
+  ON trend_signals(keyword);
+
+-- ============================================
+-- 3. RLS - trends are read and written by the server only
+-- ============================================
+
+ALTER TABLE trend_signals ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- 4. Import legacy Prisma data
+-- ============================================
+-- Prisma projects had no owner, so the import assigns them to one user.
+--
+-- 1. Copy the Prisma tables into this database:
+--      pg_dump "$DATABASE_URL" --no-owner --no-acl \
+--        -t '"Project"' -t '"Page"' -t '"TrendSignal"' | psql "$SUPABASE_DB_URL"
+-- 2. SELECT * FROM import_legacy_prisma_data('<owner user uuid>');  (as the database owner)
+-- 3. Once the counts look right:
+--      DROP TABLE "Page", "Project", "TrendSignal"; DROP TYPE "TrendSource";
+--
+-- Safe to re-run: projects are matched on legacy_id, prompts on
+-- (project_id, page_index) and trend signals on id. Legacy projects never
+-- expire. Page image URLs are not copied - they were never in Supabase
+-- Storage - so imported pages come in as 'ready' prompts to regenerate.
+
+CREATE OR REPLACE FUNCTION import_legacy_prisma_data(owner_id UUID)
+RETURNS TABLE (
+  projects_imported INTEGER,
+  pages_imported INTEGER,
+  trend_signals_imported INTEGER
+) AS $$
+DECLARE
+  v_projects INTEGER := 0;
+  v_pages INTEGER := 0;
+  v_trends INTEGER := 0;
+BEGIN
+  IF to_regclass('public."Project"') IS NOT NULL THEN
+    INSERT INTO projects (
+      user_id, name, project_type, book_type, idea, pages_requested,
+      settings, status, origin, legacy_id, retention_hours, created_at, updated_at
+    )
+    SELECT
+      owner_id,
+      p.title,
+      'coloring_book',
+      CASE WHEN p."mainCharacterName" IS NOT NULL THEN 'storybook' ELSE 'theme' END,
+      p.theme,
+      p."pageCount",
+      jsonb_strip_nulls(jsonb_build_object(
+        'bookTitle', p.title,
+        'theme', p.theme,
+        'pageCount', p."pageCount",
+        'trimSize', p."trimSize",
+        'lineThickness', p."lineThickness",
+        'stylePreset', p."stylePreset",
+        'characterName', p."mainCharacterName",
+        'characterDescription', p."mainCharacterDesc",
+        'characterProfile', p."characterLockJson",
+        'characterSheetUrl', p."characterSheetUrl"
+      )),
+      CASE
+        WHEN p.status IN ('draft', 'generating', 'ready', 'failed', 'partial') THEN p.status::project_status
+        WHEN p.status = 'exported' THEN 'ready'::project_status
+        ELSE 'draft'::project_status
+      END,
+      'legacy',
+      p.id,
+      NULL,
+      p."createdAt",
+      p."updatedAt"
+    FROM "Project" p
+    WHERE NOT EXISTS (SELECT 1 FROM projects existing WHERE existing.legacy_id = p.id);
+
+    GET DIAGNOSTICS v_projects = ROW_COUNT;
+  END IF;
+
+  IF to_regclass('public."Page"') IS NOT NULL THEN
+    INSERT INTO project_prompts (
+      project_id, user_id, page_index, title, prompt_text, status, created_at, updated_at
+    )
+    SELECT
+      pr.id,
+      pr.user_id,
+      pg."pageNumber",
+      COALESCE(pg."sceneTitle", 'Page ' || pg."pageNumber"),
+      pg.prompt,
+      'ready',
+      pg."createdAt",
+      pg."updatedAt"
+    FROM "Page" pg
+    JOIN projects pr ON pr.legacy_id = pg."projectId"
+    ON CONFLICT (project_id, page_index) DO NOTHING;
+
+    GET DIAGNOSTICS v_pages = ROW_COUNT;
+
+    UPDATE projects pr
+    SET prompts_generated_count = (
+      SELECT COUNT(*) FROM project_prompts pp WHERE pp.project_id = pr.id
+    )
+    WHERE pr.origin = 'legacy';
+  END IF;
+
+  IF to_regclass('public."TrendSignal"') IS NOT NULL THEN
+    INSERT INTO trend_signals (id, keyword, source, region, period_days, score, raw, collected_at)
+    SELECT t.id::UUID, t.keyword, t.source::TEXT, t.region, t."periodDays", t.score, t.raw, t."collectedAt"
+    FROM "TrendSignal" t
+    ON CONFLICT (id) DO NOTHING;
+
+    GET DIAGNOSTICS v_trends = ROW_COUNT;
+  END IF;
+
+  RETURN QUERY SELECT v_projects, v_pages, v_trends;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Functions are executable by PUBLIC by default, which would let any client
+-- call this through /rpc and import every legacy project under any owner.
+-- Run it from the SQL editor or psql as the database owner.
+REVOKE EXECUTE ON FUNCTION import_legacy_prisma_data(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,20 @@
+-- Migration 011: Persisted Style Clone projects
+-- Run this after 010_unified_project_store.sql
+--
+-- Style clone projects used to live in a process-local Map and were lost on
+-- redeploy. They are now regular projects (origin 'style_clone'):
+-- - settings.styleClone       - mode, theme, style contract, theme pack, ...
+-- - project_prompts           - page prompts
+-- - generated_assets          - reference image, anchor image and pages
+-- so they follow the owner's plan retention like every other project.
+
+-- ============================================
+-- 1. Style clone asset types
+-- ============================================
+-- 'style_reference' - the uploaded reference image (style-clone/reference.png)
+-- 'style_anchor'    - the approved anchor/sample page (style-clone/anchor.png)
+-- One of each per project. Pages are regular 'page_image' assets with the
+-- generation debug info in meta.styleClone.
+
+ALTER TYPE asset_type ADD VALUE IF NOT EXISTS 'style_reference';
+ALTER TYPE asset_type ADD VALUE IF NOT EXISTS 'style_anchor';
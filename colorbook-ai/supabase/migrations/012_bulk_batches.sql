@@ -0,0 +1,66 @@
+-- Migration 012: Persisted Bulk batches
+-- Run this after 011_style_clone_projects.sql
+--
+-- /app/bulk used to keep the whole batch (up to 10 books x 80 pages) in
+-- React state, so a reload or closed tab lost it. A batch is now saved after
+-- every step and can be resumed from the "Bulk batches" list:
+-- - bulk_batches.book_ideas   - step 1 book ideas (BookIdea[])
+-- - bulk_batches.books        - books with their page plans, prompts and
+--                               page/book statuses (Book[], without images)
+-- - generated_assets          - page images, under one project per book
+--                               (origin 'bulk', books[].projectId)
+
+-- ============================================
+-- 1. Create bulk_batches table (one row per bulk batch)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS bulk_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL DEFAULT 'Untitled Batch',
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'generating', 'paused', 'completed', 'failed')),
+  current_step INTEGER NOT NULL DEFAULT 1 CHECK (current_step BETWEEN 1 AND 5),
+
+  -- Wizard state, same shape as lib/bulkBookTypes.ts
+  book_ideas JSONB NOT NULL DEFAULT '[]',
+  books JSONB NOT NULL DEFAULT '[]',
+
+  -- Progress
+  total_pages INTEGER NOT NULL DEFAULT 0,
+  generated_pages INTEGER NOT NULL DEFAULT 0,
+  enhanced_pages INTEGER NOT NULL DEFAULT 0,
+  approved_pages INTEGER NOT NULL DEFAULT 0,
+  failed_pages INTEGER NOT NULL DEFAULT 0,
+
+  -- ETA tracking
+  avg_generation_ms INTEGER NOT NULL DEFAULT 30000,
+  avg_enhancement_ms INTEGER NOT NULL DEFAULT 15000,
+
+  -- Retention follows the owner's plan, like projects
+  retention_hours INTEGER,
+  expires_at TIMESTAMPTZ,
+
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bulk_batches_user_updated
+  ON bulk_batches(user_id, updated_at DESC);
+
+CREATE TRIGGER update_bulk_batches_updated_at
+  BEFORE UPDATE ON bulk_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 2. RLS - users can read their own batches; writes are server-only
+-- ============================================
+
+ALTER TABLE bulk_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own bulk batches"
+  ON bulk_batches FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,76 @@
+-- Migration 013: Style Library
+-- Run this after 012_bulk_batches.sql
+--
+-- Every Style Clone run re-extracts a StyleContract with GPT-4o vision and
+-- the result varies run to run. Users can now save a named style to their
+-- library and apply it to any project:
+-- - style_library           - one row per named style
+-- - style_library_versions  - immutable snapshots (contract, theme pack,
+--                             reference thumbnail); saving again adds a version
+-- - projects.settings.styleLibrary = { styleId, version, name } pins the
+--   version a project uses, so every page gets the same style rules.
+--
+-- Thumbnails live in the "generated" bucket under {userId}/styles/ and have
+-- no generated_assets row, so library styles never expire.
+
+-- ============================================
+-- 1. Create style_library table (one row per named style)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS style_library (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  latest_version INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_style_library_user_updated
+  ON style_library(user_id, updated_at DESC);
+
+CREATE TRIGGER update_style_library_updated_at
+  BEFORE UPDATE ON style_library
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 2. Create style_library_versions table (immutable snapshots)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS style_library_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  style_id UUID NOT NULL REFERENCES style_library(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  version INTEGER NOT NULL,
+
+  -- Same shapes as lib/styleClone.ts StyleContract / ThemePack
+  style_contract JSONB NOT NULL,
+  theme_pack JSONB,
+
+  thumbnail_path TEXT,
+  -- Style Clone project the contract was extracted in, if any
+  source_project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (style_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_style_library_versions_style
+  ON style_library_versions(style_id, version DESC);
+
+-- ============================================
+-- 3. RLS - users can read their own styles; writes are server-only
+-- ============================================
+
+ALTER TABLE style_library ENABLE ROW LEVEL SECURITY;
+ALTER TABLE style_library_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own library styles"
+  ON style_library FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own library style versions"
+  ON style_library_versions FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,73 @@
+-- Migration 014: Character Library
+-- Run this after 013_style_library.sql
+--
+-- Storybook characters (CharacterIdentityProfile) used to be re-extracted for
+-- every project, so a recurring mascot drifted from book to book. Users can
+-- now save a character and pick it in the storybook flows:
+-- - character_library  - one row per character (identity profile with its
+--                        doNotChange traits, approved character sheet)
+-- - character_usages   - which projects used the character (usage history)
+-- - projects.settings.characterLibrary = { characterId, name } and
+--   settings.characterProfile hold the profile the project generates with.
+--
+-- Character sheets live in the "generated" bucket under {userId}/characters/
+-- and have no generated_assets row, so saved characters never expire.
+
+-- ============================================
+-- 1. Create character_library table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS character_library (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+
+  -- Same shape as lib/characterIdentity.ts CharacterIdentityProfile
+  profile JSONB NOT NULL,
+
+  -- Approved sheet from /api/ai/generate-character-sheet
+  sheet_path TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_character_library_user_updated
+  ON character_library(user_id, updated_at DESC);
+
+CREATE TRIGGER update_character_library_updated_at
+  BEFORE UPDATE ON character_library
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 2. Create character_usages table (one row per project)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS character_usages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  character_id UUID NOT NULL REFERENCES character_library(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  used_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (character_id, project_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_character_usages_character
+  ON character_usages(character_id, used_at DESC);
+
+-- ============================================
+-- 3. RLS - users can read their own characters; writes are server-only
+-- ============================================
+
+ALTER TABLE character_library ENABLE ROW LEVEL SECURITY;
+ALTER TABLE character_usages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own library characters"
+  ON character_library FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own character usages"
+  ON character_usages FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,98 @@
+-- Migration 015: Series
+-- Run this after 014_character_library.sql
+--
+-- Publishers release "Volume 1, 2, 3" of the same theme. A series groups
+-- those books and holds what they share:
+-- - series                   - name, author, copyright text, front-matter
+--                              template, Style Library style and Character
+--                              Library character every volume inherits
+-- - series.used_elements     - settings/actions/props/compositions each volume
+--                              planned, keyed by project id, so scene planning
+--                              for the next volume avoids them (ideaPlanner
+--                              UsedElementsMemory)
+-- - projects.series_id / series_volume - the volume a project is ("Book N of
+--                              the series"), printed on its title page
+
+-- ============================================
+-- 1. Create series table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  author_name TEXT,
+  copyright_text TEXT,
+
+  -- Same shape as lib/series.ts SeriesFrontMatterTemplate
+  front_matter JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  -- Shared assets, same shape as projects.settings.styleLibrary / characterLibrary
+  style_library JSONB,
+  character_library JSONB,
+
+  -- { [projectId]: SerializedElementsMemory }
+  used_elements JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_series_user_updated
+  ON series(user_id, updated_at DESC);
+
+CREATE TRIGGER update_series_updated_at
+  BEFORE UPDATE ON series
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 2. Link projects to a series as numbered volumes
+-- ============================================
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES series(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS series_volume INTEGER;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_projects_series_volume
+  ON projects(series_id, series_volume)
+  WHERE series_id IS NOT NULL;
+
+-- ============================================
+-- 3. RLS - users can read their own series; writes are server-only
+-- ============================================
+
+ALTER TABLE series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own series"
+  ON series FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- ============================================
+-- 4. Per-volume updates of used_elements
+-- ============================================
+-- One UPDATE per call, so volumes planned at the same time don't overwrite
+-- each other's entries. Runs with the caller's rights: there is no UPDATE
+-- policy on series, so only the server can call these.
+
+CREATE OR REPLACE FUNCTION set_series_volume_elements(
+  p_series_id UUID,
+  p_project_id UUID,
+  p_elements JSONB
+)
+RETURNS VOID AS $$
+  UPDATE series
+  SET used_elements = used_elements || jsonb_build_object(p_project_id::text, p_elements)
+  WHERE id = p_series_id;
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION remove_series_volume_elements(
+  p_series_id UUID,
+  p_project_id UUID
+)
+RETURNS VOID AS $$
+  UPDATE series
+  SET used_elements = used_elements - p_project_id::text
+  WHERE id = p_series_id;
+$$ LANGUAGE sql;
@@ -0,0 +1,21 @@
+-- Migration 016: Quote book projects
+-- Run this after 015_series.sql
+--
+-- /app/quote-book now saves its books as projects (project_type and origin
+-- 'quote_book'). Pages go through the usual tables:
+-- - project_prompts.quote_config - the page's QuotePageConfig (quote,
+--                                  typography, decoration theme/level, icon
+--                                  set, topic, motif pack) from
+--                                  /api/quote/prompts, so a resumed book
+--                                  keeps each page's settings
+-- - projects.settings.quoteBook  - the book-level choices (book type,
+--                                  decoration defaults, quote list)
+-- - generated_assets page_image  - generated pages, exported by
+--                                  /api/export/build-pdf like coloring books
+
+-- ============================================
+-- 1. Per-page quote settings
+-- ============================================
+
+ALTER TABLE project_prompts
+  ADD COLUMN IF NOT EXISTS quote_config JSONB; -- NULL for coloring book pages
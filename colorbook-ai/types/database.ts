@@ -4,8 +4,21 @@
  * These types mirror the database schema.
  * Update when migrations change the schema.
  */
+import type { PlanTier } from '@/lib/plans';
+import type { StyleCloneDebugInfo, StyleCloneSettings, StyleContract, ThemePack } from '@/lib/styleClone';
+import type { AppliedLibraryStyle } from '@/lib/styleLibrary';
+import type { AppliedLibraryCharacter } from '@/lib/characterLibrary';
+import type { CharacterIdentityProfile } from '@/lib/characterIdentity';
+import type { ImageEnhancerName } from '@/lib/services/imageEnhancers';
+import type { SeriesFrontMatterTemplate } from '@/lib/series';
+import type { SerializedElementsMemory } from '@/lib/ideaPlanner';
+import type { QuoteBookSettings, QuotePageConfig } from '@/lib/quotePagePromptEnforcer';
+import type { BatchStatus, Book, BookIdea, BulkStep } from '@/lib/bulkBookTypes';
+import type { VectorFidelity } from '@/lib/vectorizer';
+import type { PageFingerprint } from '@/lib/pageFingerprint';
+import type { PageDuplicateMatch } from '@/lib/pageDuplicates';
 
-export type AssetType = 'page_image' | 'front_matter' | 'pdf' | 'zip' | 'preview';
+export type AssetType = 'page_image' | 'front_matter' | 'pdf' | 'zip' | 'preview' | 'cover' | 'cover_image' | 'style_reference' | 'style_anchor';
 export type AssetStatus = 'generating' | 'ready' | 'failed' | 'expired';
 
 export interface GeneratedAsset {
@@ -31,20 +44,66 @@ export interface AssetMeta {
   promptHash?: string;
   attempts?: number;
   maxAttempts?: number;
+  source?: string; // e.g. 'generation_queue', 'openai_batch'
+  jobId?: string; // generation_jobs.id for queued pages
   
   // Validation results
   validationResult?: {
     valid: boolean;
     notes?: string;
   };
+  qualityCheck?: AssetQualityCheck; // post-hoc scoring of batch-API results
   
   // Front matter specific
   frontMatterType?: 'title' | 'copyright' | 'belongsTo';
+
+  // Cover specific (asset_type 'cover')
+  cover?: {
+    trimSize: string;
+    pageCount: number;
+    paperType: 'white' | 'cream';
+    spineWidthIn: number;
+    fullWidthIn: number;
+    fullHeightIn: number;
+    frontSource: 'ai' | 'page';
+    frontPageIndex?: number;
+  };
+
+  // Style clone page specific
+  styleClone?: {
+    finalPrompt: string;
+    passedGates: boolean;
+    debug: StyleCloneDebugInfo;
+  };
   
+  // Vector variant of a page image (lib/pageVectors) - build-pdf embeds it
+  // instead of the raster when the fidelity check passed
+  vector?: {
+    storagePath: string;
+    fidelity: VectorFidelity;
+    pathCount: number;
+    fileSize: number;
+    vectorizedAt: string;
+  };
+
+  // Activity page specific (lib/activities)
+  activity?: {
+    type: 'maze' | 'word_search' | 'dot_to_dot';
+    kind: 'puzzle' | 'solution';
+    difficulty: 'easy' | 'medium' | 'hard';
+    seed: string;
+  };
+
+  // Perceptual fingerprint of a page image (lib/pageFingerprint) and the
+  // earlier page of the project or series it nearly repeats (lib/pageDuplicates)
+  fingerprint?: PageFingerprint;
+  duplicateOf?: PageDuplicateMatch;
+  duplicateRegenerations?: number; // times the queue regenerated this page as a duplicate
+
   // Error details
   error?: string;
   errorCode?: string;
-  
+
   // Image details
   width?: number;
   height?: number;
@@ -58,12 +117,50 @@ export interface AssetMeta {
   description?: string;
 }
 
+/**
+ * Post-hoc validation of a batch-API page (see openaiBatchImageGen.finalizeBatch)
+ */
+export interface AssetQualityCheck {
+  passed: boolean;
+  reason?: string;
+  attempt: number; // 1 = original batch, 2+ = quality requeues
+  checkedAt: string;
+  metrics?: {
+    blackRatio: number;
+    largestBlobRatio?: number;
+    bottomBlankRatio?: number;
+  };
+  // Carried into the requeued prompt
+  retryReinforcement?: string;
+  characterInvalid?: boolean;
+}
+
+export type ProjectType = 'coloring_book' | 'quote_book';
+export type ProjectStatus = 'draft' | 'generating' | 'ready' | 'failed' | 'expired' | 'partial';
+export type BookType = 'storybook' | 'theme';
+
+/** The app flow a project was created from (see migration 010) */
+export type ProjectOrigin = 'create' | 'new' | 'batch' | 'bulk' | 'quote_book' | 'style_clone' | 'legacy';
+
 export interface Project {
   id: string;
   user_id: string;
   name: string;
-  project_type: 'coloring_book' | 'quote_book';
+  project_type: ProjectType;
+  book_type: BookType;
+  origin: ProjectOrigin;
+  idea: string | null;
   settings: ProjectSettings;
+  status: ProjectStatus;
+  pages_requested: number;
+  prompts_generated_count: number;
+  images_generated_count: number;
+  error_message: string | null;
+  retention_hours: number | null;
+  expires_at: string | null;
+  legacy_id: string | null; // Prisma Project.id for imported projects
+  series_id: string | null;
+  series_volume: number | null; // "Book N" of the series
   created_at: string;
   updated_at: string;
 }
@@ -75,14 +172,264 @@ export interface ProjectSettings {
   pageCount?: number;
   complexity?: string;
   orientation?: string;
+  trimSize?: string; // e.g. "8.5x11" - drives interior PDF page size and margins
   
   // Style settings
   styleProfile?: string;
   theme?: string;
+  styleLibrary?: AppliedLibraryStyle; // Pinned Style Library version injected into every page prompt
   
   // Generation settings
   model?: string;
   size?: string;
+  lineThickness?: string;
+  targetAge?: string;
+  characterProfile?: unknown;
+  characterLibrary?: AppliedLibraryCharacter; // Saved Character Library character (profile in characterProfile)
+
+  enhancer?: ImageEnhancerName; // Page enhancement; omitted: IMAGE_ENHANCER default
+  normalizeLineWeight?: boolean; // /api/image/process thickens/thins strokes to lineThickness
+
+  // Style clone projects (origin 'style_clone')
+  styleClone?: StyleCloneSettings;
+
+  // Quote book projects (origin 'quote_book')
+  quoteBook?: QuoteBookSettings;
+}
+
+export interface UserPlan {
+  user_id: string;
+  plan: PlanTier;
+  plan_expires_at: string | null;
+  monthly_spend_cap_usd: number | null;
+  project_spend_cap_usd: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PlanUsage {
+  user_id: string;
+  period_start: string;
+  images_generated: number;
+  updated_at: string;
+}
+
+export type GenerationCostKind = 'image' | 'image_edit' | 'chat' | 'enhance';
+export type GenerationCostMode = 'realtime' | 'batch';
+
+export interface GenerationCost {
+  id: string;
+  user_id: string | null;
+  project_id: string | null;
+  page_number: number | null;
+  attempt: number | null;
+  kind: GenerationCostKind;
+  provider: string;
+  model: string;
+  size: string | null;
+  source: string | null;
+  images: number;
+  input_tokens: number;
+  output_tokens: number;
+  compute_seconds: number;
+  mode: GenerationCostMode;
+  discount: number;
+  estimated_usd: number;
+  created_at: string;
+}
+
+export type PromptStatus = 'ready' | 'generating_image' | 'image_done' | 'image_failed';
+
+export interface ProjectPrompt {
+  id: string;
+  project_id: string;
+  user_id: string;
+  page_index: number;
+  title: string | null;
+  prompt_text: string;
+  scene_description: string | null;
+  status: PromptStatus;
+  quote_config: QuotePageConfig | null; // Quote book pages only
+  // Generation queue claim state
+  job_id: string | null;
+  locked_until: string | null;
+  attempt_count: number;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type GenerationJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export interface GenerationJobSettings {
+  size: string;
+  isStorybookMode: boolean;
+  characterProfile?: Record<string, unknown>;
+  complexity: string;
+  validateOutline: boolean;
+  validateCharacter: boolean;
+  validateComposition: boolean;
+  regenerateDuplicates?: boolean; // regenerate pages that nearly repeat another page once
+}
+
+export interface GenerationJob {
+  id: string;
+  project_id: string;
+  user_id: string;
+  status: GenerationJobStatus;
+  settings: GenerationJobSettings;
+  total_pages: number;
+  completed_pages: number;
+  failed_pages: number;
+  pause_reason: string | null;
+  error_code: string | null;
+  action_hint: string | null;
+  last_error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type OpenAIBatchJobStatus =
+  | 'queued'
+  | 'in_progress'
+  | 'finalizing'
+  | 'completed'
+  | 'failed'
+  | 'expired'
+  | 'cancelled';
+
+export interface OpenAIBatchJobSettings {
+  size?: string;
+  isStorybookMode?: boolean;
+  characterProfile?: Record<string, unknown>;
+  complexity?: string;
+  validateResults?: boolean; // score results on finalize (default true)
+  autoRequeueFailures?: boolean; // requeue pages that fail scoring
+}
+
+export interface BatchPageQualityRetry {
+  attempt: number;
+  reason?: string;
+  retryReinforcement?: string;
+  characterInvalid?: boolean;
+}
+
+export interface OpenAIBatchJob {
+  id: string;
+  batch_id: string;
+  project_id: string;
+  user_id: string;
+  page_indexes: { pageIndex: number; prompt?: string; title?: string; qualityRetry?: BatchPageQualityRetry }[];
+  status: OpenAIBatchJobStatus;
+  total_pages: number;
+  success_count: number | null;
+  failed_count: number | null;
+  failed_page_indexes: number[] | null;
+  settings: OpenAIBatchJobSettings;
+  parent_batch_id: string | null;
+  resubmit_count: number;
+  resubmitted_via: 'batch' | 'realtime' | null;
+  resubmitted_at: string | null;
+  provider_status: string | null;
+  last_checked_at: string | null;
+  finalizing_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export type TrendSource = 'google_trends' | 'keepa' | 'pytrends';
+
+export interface TrendSignal {
+  id: string;
+  keyword: string;
+  source: TrendSource;
+  region: string;
+  period_days: number;
+  score: number;
+  raw: unknown;
+  collected_at: string;
+}
+
+export interface BulkBatchRecord {
+  id: string;
+  user_id: string;
+  name: string;
+  status: BatchStatus;
+  current_step: BulkStep;
+  book_ideas: BookIdea[];
+  books: Book[]; // Without image data - pages live in each book's project
+  total_pages: number;
+  generated_pages: number;
+  enhanced_pages: number;
+  approved_pages: number;
+  failed_pages: number;
+  avg_generation_ms: number;
+  avg_enhancement_ms: number;
+  retention_hours: number | null;
+  expires_at: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LibraryStyleRecord {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  latest_version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LibraryStyleVersionRecord {
+  id: string;
+  style_id: string;
+  user_id: string;
+  version: number;
+  style_contract: StyleContract;
+  theme_pack: ThemePack | null;
+  thumbnail_path: string | null;
+  source_project_id: string | null;
+  created_at: string;
+}
+
+export interface LibraryCharacterRecord {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  profile: CharacterIdentityProfile;
+  sheet_path: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CharacterUsageRecord {
+  id: string;
+  character_id: string;
+  user_id: string;
+  project_id: string;
+  used_at: string;
+}
+
+export interface SeriesRecord {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  author_name: string | null;
+  copyright_text: string | null;
+  front_matter: Partial<SeriesFrontMatterTemplate>;
+  style_library: AppliedLibraryStyle | null;
+  character_library: AppliedLibraryCharacter | null;
+  used_elements: Record<string, SerializedElementsMemory>; // Keyed by project id
+  created_at: string;
+  updated_at: string;
 }
 
 // Supabase Database type definition
@@ -99,10 +446,78 @@ export interface Database {
         Insert: Omit<GeneratedAsset, 'id' | 'created_at' | 'updated_at'>;
         Update: Partial<Omit<GeneratedAsset, 'id' | 'created_at'>>;
       };
+      user_plans: {
+        Row: UserPlan;
+        Insert: Omit<UserPlan, 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<UserPlan, 'user_id' | 'created_at'>>;
+      };
+      plan_usage: {
+        Row: PlanUsage;
+        Insert: Omit<PlanUsage, 'updated_at'>;
+        Update: Partial<Omit<PlanUsage, 'user_id' | 'period_start'>>;
+      };
+      generation_costs: {
+        Row: GenerationCost;
+        Insert: Omit<GenerationCost, 'id' | 'created_at'>;
+        Update: Partial<Omit<GenerationCost, 'id' | 'created_at'>>;
+      };
+      project_prompts: {
+        Row: ProjectPrompt;
+        Insert: Omit<ProjectPrompt, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<ProjectPrompt, 'id' | 'created_at'>>;
+      };
+      openai_batch_jobs: {
+        Row: OpenAIBatchJob;
+        Insert: Omit<OpenAIBatchJob, 'id' | 'created_at'>;
+        Update: Partial<Omit<OpenAIBatchJob, 'id' | 'created_at'>>;
+      };
+      generation_jobs: {
+        Row: GenerationJob;
+        Insert: Omit<GenerationJob, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<GenerationJob, 'id' | 'created_at'>>;
+      };
+      trend_signals: {
+        Row: TrendSignal;
+        Insert: Omit<TrendSignal, 'id' | 'collected_at'>;
+        Update: Partial<Omit<TrendSignal, 'id'>>;
+      };
+      bulk_batches: {
+        Row: BulkBatchRecord;
+        Insert: Omit<BulkBatchRecord, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<BulkBatchRecord, 'id' | 'created_at'>>;
+      };
+      style_library: {
+        Row: LibraryStyleRecord;
+        Insert: Omit<LibraryStyleRecord, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<LibraryStyleRecord, 'id' | 'created_at'>>;
+      };
+      style_library_versions: {
+        Row: LibraryStyleVersionRecord;
+        Insert: Omit<LibraryStyleVersionRecord, 'id' | 'created_at'>;
+        Update: never; // Versions are immutable
+      };
+      character_library: {
+        Row: LibraryCharacterRecord;
+        Insert: Omit<LibraryCharacterRecord, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<LibraryCharacterRecord, 'id' | 'created_at'>>;
+      };
+      character_usages: {
+        Row: CharacterUsageRecord;
+        Insert: Omit<CharacterUsageRecord, 'id' | 'used_at'>;
+        Update: Partial<Omit<CharacterUsageRecord, 'id'>>;
+      };
+      series: {
+        Row: SeriesRecord;
+        Insert: Omit<SeriesRecord, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<SeriesRecord, 'id' | 'created_at'>>;
+      };
     };
     Enums: {
       asset_type: AssetType;
       asset_status: AssetStatus;
+      plan_tier: PlanTier;
+      project_type: ProjectType;
+      project_status: ProjectStatus;
     };
   };
 }